@@ -0,0 +1,6 @@
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: "Compare",
+  description: "Compare the performance of stocks and cryptocurrencies in 3D",
+};
@@ -0,0 +1,58 @@
+"use client";
+
+import React, { useState } from 'react';
+import CoreSearch from '../../../components/Finance/CoreSearch';
+import CryptoSearch from '../../../components/Finance/CryptoSearch';
+import ComparisonChart from '../../../components/Finance/ComparisonChart';
+
+// More lanes than this are hard to tell apart
+const MAX_TICKERS = 8;
+
+export default function ComparePage() {
+  const [tickers, setTickers] = useState<string[]>(['AAPL', 'MSFT', 'X:BTCUSD']);
+
+  const addTicker = (ticker: string) => {
+    const normalized = ticker.trim().toUpperCase();
+    if (!normalized) return;
+    setTickers(current =>
+      current.includes(normalized) || current.length >= MAX_TICKERS ? current : [...current, normalized]
+    );
+  };
+
+  const removeTicker = (ticker: string) => {
+    setTickers(current => current.filter(existing => existing !== ticker));
+  };
+
+  return (
+    <div className="container py-10">
+      <h1 className="text-4xl font-bold mb-2">Compare</h1>
+      <p className="text-sm text-gray-500 mb-6">
+        Add up to {MAX_TICKERS} stocks or cryptocurrencies to see how they performed from the same starting point.
+        Each one gets its own lane; drag to orbit and hover a lane for its value on a date.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <CoreSearch onSelectTicker={addTicker} className="w-full" />
+        <CryptoSearch onSelectTicker={addTicker} className="w-full" />
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {tickers.map(ticker => (
+          <span key={ticker} className="flex items-center gap-1 rounded-full bg-gray-800 px-3 py-1 text-sm text-white">
+            {ticker.replace(/^X:/, '')}
+            <button onClick={() => removeTicker(ticker)} className="text-gray-400 hover:text-white" aria-label={`Remove ${ticker}`}>
+              ×
+            </button>
+          </span>
+        ))}
+        {tickers.length >= MAX_TICKERS && (
+          <span className="text-xs text-gray-500 self-center">Remove a ticker to add another</span>
+        )}
+      </div>
+
+      <div className="p-4 bg-black border rounded">
+        <ComparisonChart tickers={tickers} />
+      </div>
+    </div>
+  );
+}
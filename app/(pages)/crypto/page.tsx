@@ -2,11 +2,15 @@
 
 import React, { useState, useEffect } from 'react';
 import SurfaceChart from '../../../components/Finance/SurfaceChart';
+import SurfaceModeControls from '../../../components/Finance/SurfaceModeControls';
 import CryptoSearch from '../../../components/Finance/CryptoSearch';
 import { useCryptoSnapshot } from '../../../hooks/useCryptoSnapshot';
 import SimpleCandlestickChart from '../../../components/Finance/SimpleCandlestickChart';
 import CoinbaseCryptoDisplay from '../../../components/Finance/CoinbaseDisplay';
+import OrderBookWidget from '../../../components/Finance/OrderBookWidget';
+import OrderBookSurfaceChart from '../../../components/Finance/OrderBookSurfaceChart';
 import useLiveCryptoPrice from '../../../hooks/useLiveCryptoPrice';
+import { GapFill, SurfaceMode } from '@/lib/surface';
 
 // Define interfaces for our state
 interface PricingData {
@@ -35,6 +39,9 @@ export default function CryptoPage() {
   // State for selected ticker and year
   const [selectedTicker, setSelectedTicker] = useState<string>('X:BTCUSD');
   const [selectedYear, setSelectedYear] = useState<number>(2024);
+  // What the surface measures, and how days without a bar are drawn
+  const [surfaceMode, setSurfaceMode] = useState<SurfaceMode>('close');
+  const [gapFill, setGapFill] = useState<GapFill>('carryForward');
   // Add a key to force child component refreshes
   const [tickerChangeCounter, setTickerChangeCounter] = useState<number>(0);
   // State to store processed pricing data
@@ -87,6 +94,14 @@ export default function CryptoPage() {
     setTickerChangeCounter(prev => prev + 1);
   };
 
+  // Open on the ticker in the link (?ticker=...), e.g. from the risk/return explorer
+  useEffect(() => {
+    const linkedTicker = new URLSearchParams(window.location.search).get('ticker');
+    if (linkedTicker) {
+      setSelectedTicker(linkedTicker.trim().toUpperCase());
+    }
+  }, []);
+
   // Handle year change
   const handleYearChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
     setSelectedYear(parseInt(event.target.value, 10));
@@ -181,7 +196,7 @@ export default function CryptoPage() {
                 {tickerDetails.branding?.logo_url && (
                   <div className="mr-4 rounded-lg p-2 bg-gray-800">
                     <img
-                      src={`${tickerDetails.branding.logo_url}?apiKey=${process.env.NEXT_PUBLIC_POLYGON_API_KEY}`}
+                      src={`/api/market/logo?url=${encodeURIComponent(tickerDetails.branding.logo_url)}`}
                       alt={`${tickerDetails.name} logo`}
                       className="w-12 h-12 object-contain"
                       onError={(e) => {
@@ -288,7 +303,13 @@ export default function CryptoPage() {
           <div className="border rounded-lg overflow-hidden shadow-lg">
             <div className="p-4 bg-black border-b flex justify-between items-center">
               <h2 className="text-lg font-bold">{getDisplayTicker(selectedTicker)} Price Surface</h2>
-              <div className="flex items-center">
+              <div className="flex items-center gap-2">
+                <SurfaceModeControls
+                  mode={surfaceMode}
+                  gapFill={gapFill}
+                  onModeChange={setSurfaceMode}
+                  onGapFillChange={setGapFill}
+                />
                 <select
                   value={selectedYear}
                   onChange={handleYearChange}
@@ -304,6 +325,8 @@ export default function CryptoPage() {
               <SurfaceChart
                 ticker={selectedTicker}
                 year={selectedYear}
+                mode={surfaceMode}
+                gapFill={gapFill}
                 key={`surface-${tickerChangeCounter}`}
               />
             </div>
@@ -330,6 +353,33 @@ export default function CryptoPage() {
             className="h-full shadow-lg"
 
           />
+
+          {/* Order Book - full width below the grid */}
+          <div className="border rounded-lg overflow-hidden shadow-lg lg:col-span-2">
+            <div className="p-4 bg-black border-b">
+              <h2 className="text-lg font-bold">{getDisplayTicker(selectedTicker)} Order Book</h2>
+            </div>
+            <div className="h-[600px] p-4">
+              <OrderBookWidget
+                ticker={selectedTicker}
+                depth={20}
+                key={`order-book-${tickerChangeCounter}`}
+              />
+            </div>
+          </div>
+
+          {/* Liquidity Surface - full width below the order book */}
+          <div className="border rounded-lg overflow-hidden shadow-lg lg:col-span-2">
+            <div className="p-4 bg-black border-b">
+              <h2 className="text-lg font-bold">{getDisplayTicker(selectedTicker)} Liquidity Surface</h2>
+            </div>
+            <div className="h-[400px]">
+              <OrderBookSurfaceChart
+                ticker={selectedTicker}
+                key={`order-book-surface-${tickerChangeCounter}`}
+              />
+            </div>
+          </div>
         </div>
 
         {isLoading && (
@@ -3,8 +3,10 @@
 import clsx from 'clsx'
 import {
   Banknote,
+  BellRing,
   Folder,
   HomeIcon,
+  ListChecks,
   Settings,
   LucideIcon
 } from "lucide-react"
@@ -28,6 +30,16 @@ const navItems: NavItem[] = [
     href: "/dashboard/finance",
     icon: Banknote
   },
+  {
+    label: "Watchlists",
+    href: "/dashboard/watchlists",
+    icon: ListChecks
+  },
+  {
+    label: "Alerts",
+    href: "/dashboard/alerts",
+    icon: BellRing
+  },
   {
     label: "Settings",
     href: "/dashboard/settings",
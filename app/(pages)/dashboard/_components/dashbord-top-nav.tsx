@@ -5,11 +5,12 @@ import { Button } from '@/components/ui/button'
 import { Dialog, DialogClose } from '@/components/ui/dialog'
 import { Separator } from '@/components/ui/separator'
 import { SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
+import { NotificationBell } from '@/components/notification-bell'
 import { UserProfile } from '@/components/user-profile'
 import { api } from '@/convex/_generated/api'
 import { HamburgerMenuIcon } from '@radix-ui/react-icons'
 import { useAction, useQuery } from 'convex/react'
-import { Banknote, Folder, HomeIcon, Settings } from 'lucide-react'
+import { Banknote, BellRing, Folder, HomeIcon, ListChecks, Settings } from 'lucide-react'
 import Link from 'next/link'
 import { ReactNode } from 'react'
 
@@ -64,6 +65,22 @@ export default function DashboardTopNav({ children }: { children: ReactNode }) {
                   </Button>
                 </Link>
               </DialogClose>
+              <DialogClose asChild>
+                <Link href="/dashboard/watchlists">
+                  <Button variant="outline" className="w-full">
+                    <ListChecks className="mr-2 h-4 w-4" />
+                    Watchlists
+                  </Button>
+                </Link>
+              </DialogClose>
+              <DialogClose asChild>
+                <Link href="/dashboard/alerts">
+                  <Button variant="outline" className="w-full">
+                    <BellRing className="mr-2 h-4 w-4" />
+                    Alerts
+                  </Button>
+                </Link>
+              </DialogClose>
               <Separator className="my-3" />
               <DialogClose asChild>
                 <Link href="/dashboard/settings">
@@ -78,6 +95,7 @@ export default function DashboardTopNav({ children }: { children: ReactNode }) {
         </Dialog>
         <div className="flex justify-center items-center gap-2 ml-auto">
           <Button variant={"outline"} onClick={handleManageSubscription}>Manage Subscription</Button>
+          <NotificationBell />
           {<UserProfile />}
           <ModeToggle />
         </div>
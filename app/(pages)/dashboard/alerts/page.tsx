@@ -0,0 +1,16 @@
+"use client"
+import AlertsPanel from "@/components/Finance/AlertsPanel";
+
+export default function AlertsPage() {
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-semibold tracking-tight">Alerts</h1>
+        <p className="text-muted-foreground mt-2">Get notified when prices cross a level, move sharply or trade on heavy volume</p>
+      </div>
+
+      <AlertsPanel />
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 "use client"
+import PortfolioPanel from "@/components/Finance/PortfolioPanel";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -39,9 +40,16 @@ export default function FinancePage() {
       <div>
         <h1 className="text-3xl font-semibold tracking-tight">Finance Overview</h1>
         <p className="text-muted-foreground mt-2">
-          Track your revenue, expenses, and financial metrics
+          Track your holdings, cost basis and profit and loss
         </p>
-        <Button className="mt-3" onClick={handleManageSubscription}>Manage Subscription</Button>
+      </div>
+
+      {/* Portfolio */}
+      <PortfolioPanel />
+
+      <div className="flex items-center justify-between pt-4">
+        <h2 className="text-xl font-semibold tracking-tight">Account</h2>
+        <Button onClick={handleManageSubscription}>Manage Subscription</Button>
       </div>
 
       {/* Account Information Grid */}
@@ -9,11 +9,31 @@ import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
+import { api } from "@/convex/_generated/api";
+import useBarCache from "@/hooks/useBarCache";
+import { BarCacheEntry } from "@/lib/bar-cache";
 import { useUser } from '@clerk/nextjs';
-import { Bell, Globe, Lock, Mail, Moon, Palette, Shield } from "lucide-react";
+import { useMutation, useQuery } from "convex/react";
+import { Bell, Database, Globe, Lock, Mail, Moon, Palette, RefreshCw, Shield, Trash2 } from "lucide-react";
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+};
+
+// e.g. "2023-01-03 → 2024-06-20" or "3 spans, 2021-01-04 → 2024-06-20"
+const describeRanges = (entry: BarCacheEntry): string => {
+  if (entry.ranges.length === 0) return "No dates held";
+  const span = `${entry.ranges[0].from} → ${entry.ranges[entry.ranges.length - 1].to}`;
+  return entry.ranges.length === 1 ? span : `${entry.ranges.length} spans, ${span}`;
+};
 
 export default function SettingsPage() {
   const user = useUser();
+  const barCache = useBarCache();
+  const channels = useQuery(api.notifications.getChannels);
+  const setChannels = useMutation(api.notifications.setChannels);
 
   return (
     <div className="flex flex-col gap-6 p-6">
@@ -29,6 +49,7 @@ export default function SettingsPage() {
           <TabsTrigger value="notifications">Notifications</TabsTrigger>
           <TabsTrigger value="appearance">Appearance</TabsTrigger>
           <TabsTrigger value="security">Security</TabsTrigger>
+          <TabsTrigger value="data">Data</TabsTrigger>
         </TabsList>
 
         <TabsContent value="account">
@@ -129,22 +150,32 @@ export default function SettingsPage() {
                   <div className="flex items-center gap-4">
                     <Bell className="h-5 w-5 text-muted-foreground" />
                     <div>
-                      <Label>Push Notifications</Label>
-                      <p className="text-sm text-muted-foreground">Receive push notifications</p>
+                      <Label htmlFor="channel-in-app">In-app Notifications</Label>
+                      <p className="text-sm text-muted-foreground">Show price alerts under the bell in the dashboard</p>
                     </div>
                   </div>
-                  <Switch />
+                  <Switch
+                    id="channel-in-app"
+                    checked={channels?.inApp ?? false}
+                    disabled={!channels}
+                    onCheckedChange={(checked) => channels && setChannels({ channels: { ...channels, inApp: checked } })}
+                  />
                 </div>
                 <Separator />
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-4">
                     <Mail className="h-5 w-5 text-muted-foreground" />
                     <div>
-                      <Label>Email Notifications</Label>
-                      <p className="text-sm text-muted-foreground">Receive email updates</p>
+                      <Label htmlFor="channel-email">Email Notifications</Label>
+                      <p className="text-sm text-muted-foreground">Email price alerts to your account address</p>
                     </div>
                   </div>
-                  <Switch defaultChecked />
+                  <Switch
+                    id="channel-email"
+                    checked={channels?.email ?? false}
+                    disabled={!channels}
+                    onCheckedChange={(checked) => channels && setChannels({ channels: { ...channels, email: checked } })}
+                  />
                 </div>
                 <Separator />
                 <div className="flex items-center justify-between">
@@ -267,6 +298,80 @@ export default function SettingsPage() {
             </Card>
           </div>
         </TabsContent>
+
+        <TabsContent value="data">
+          <Card>
+            <CardHeader>
+              <CardTitle>Market Data Cache</CardTitle>
+              <CardDescription>
+                Daily and minute bars are kept in this browser so charts only fetch dates they haven&apos;t seen.
+                The current session is always fetched fresh.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {!barCache.isAvailable ? (
+                <p className="text-sm text-muted-foreground">This browser doesn&apos;t allow local storage of market data.</p>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                      <Database className="h-5 w-5 text-muted-foreground" />
+                      <div>
+                        <Label>Cached bars</Label>
+                        <p className="text-sm text-muted-foreground">
+                          {barCache.totalBars.toLocaleString()} bars across {barCache.entries.length} series
+                          {barCache.storage && ` · ${formatBytes(barCache.storage.usage)} of ${formatBytes(barCache.storage.quota)} site storage used`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="icon" onClick={barCache.refresh} disabled={barCache.isLoading} aria-label="Refresh">
+                        <RefreshCw className={`h-4 w-4 ${barCache.isLoading ? "animate-spin" : ""}`} />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        className="text-destructive"
+                        onClick={barCache.clearAll}
+                        disabled={barCache.entries.length === 0}
+                      >
+                        Clear All
+                      </Button>
+                    </div>
+                  </div>
+
+                  {barCache.error && (
+                    <p className="text-sm text-destructive">Error: {barCache.error}</p>
+                  )}
+
+                  {barCache.entries.length > 0 && (
+                    <div className="space-y-2">
+                      <Separator />
+                      {barCache.entries.map(entry => (
+                        <div key={entry.key} className="flex items-center justify-between gap-4 py-1">
+                          <div className="min-w-0">
+                            <p className="font-medium">
+                              {entry.ticker}{" "}
+                              <span className="text-sm font-normal text-muted-foreground">
+                                {entry.multiplier} {entry.timespan} · {entry.adjusted ? "adjusted" : "unadjusted"} · {entry.provider}
+                              </span>
+                            </p>
+                            <p className="text-sm text-muted-foreground truncate">
+                              {describeRanges(entry)} · {entry.barCount.toLocaleString()} bars
+                              {entry.updatedAt > 0 && ` · updated ${new Date(entry.updatedAt).toLocaleString()}`}
+                            </p>
+                          </div>
+                          <Button variant="ghost" size="icon" onClick={() => barCache.clearEntry(entry.key)} aria-label={`Clear ${entry.ticker}`}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,16 @@
+"use client"
+import WatchlistPanel from "@/components/Finance/WatchlistPanel";
+
+export default function WatchlistsPage() {
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-semibold tracking-tight">Watchlists</h1>
+        <p className="text-muted-foreground mt-2">Track live prices for the stocks and crypto you follow</p>
+      </div>
+
+      <WatchlistPanel />
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: "Options Chain",
+  description: "Browse option chains with quotes, implied volatility and greeks",
+};
@@ -0,0 +1,41 @@
+"use client";
+
+import React, { useState } from 'react';
+import CoreSearch from '../../../components/Finance/CoreSearch';
+import OptionsChain from '../../../components/Finance/OptionsChain';
+import IvSurfaceChart from '../../../components/Finance/IvSurfaceChart';
+
+export default function OptionsPage() {
+  const [underlying, setUnderlying] = useState<string>('AAPL');
+
+  return (
+    <div className="container py-10">
+      <h1 className="text-4xl font-bold mb-2">Options Chain</h1>
+      <p className="text-sm text-gray-500 mb-6">
+        Pick an underlying to browse its listed expirations. Quotes, IV and greeks come from Polygon&apos;s options
+        snapshot; anything missing upstream is filled in with Black-Scholes.
+      </p>
+
+      <div className="mb-6">
+        <CoreSearch
+          onSelectTicker={setUnderlying}
+          selectedTicker={underlying}
+          className="w-full"
+        />
+      </div>
+
+      <div className="p-4 bg-black border rounded">
+        <OptionsChain underlying={underlying} key={underlying} />
+      </div>
+
+      <h2 className="text-2xl font-bold mt-10 mb-2">Volatility Surface</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Implied volatility across strikes and expirations, against the previous session&apos;s close.
+      </p>
+
+      <div className="p-4 bg-black border rounded">
+        <IvSurfaceChart underlying={underlying} key={underlying} />
+      </div>
+    </div>
+  );
+}
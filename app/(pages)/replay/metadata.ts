@@ -0,0 +1,6 @@
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: "Market Replay",
+  description: "Replay a past trading day through the live charts and trade tape",
+};
@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useState } from 'react';
+import SimpleCandlestickChart from '../../../components/Finance/SimpleCandlestickChart';
+import CoinbaseCryptoDisplay from '../../../components/Finance/CoinbaseDisplay';
+import TimeAndSales from '../../../components/Finance/TimeAndSales';
+import ReplayControls from '../../../components/Finance/ReplayControls';
+import useMarketReplay from '../../../hooks/useMarketReplay';
+import { isCryptoTicker } from '@/lib/market-data';
+import { isReplayDate } from '@/lib/replay';
+
+// The most recent weekday before today, as YYYY-MM-DD
+const getPreviousWeekday = (): string => {
+  const date = new Date();
+  do {
+    date.setDate(date.getDate() - 1);
+  } while (date.getDay() === 0 || date.getDay() === 6);
+  return date.toISOString().split('T')[0];
+};
+
+interface ReplayPanelsProps {
+  // Stream symbol being replayed, e.g. "AAPL" or "BTC-USD"
+  symbol: string;
+}
+
+// Memoized so the replay clock ticking in the page doesn't re-render the charts; they read the
+// replay through the market data layer like any live feed
+const ReplayPanels = React.memo(function ReplayPanels({ symbol }: ReplayPanelsProps) {
+  const isCrypto = isCryptoTicker(symbol);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <div className="border rounded-lg overflow-hidden shadow-lg lg:col-span-2">
+        <div className="p-4 bg-black border-b">
+          <h2 className="text-lg font-bold">{symbol} Candlestick Chart</h2>
+        </div>
+        <div className="h-96 w-full">
+          <SimpleCandlestickChart ticker={symbol} />
+        </div>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden shadow-lg">
+        <div className="p-4 bg-black border-b">
+          <h2 className="text-lg font-bold">{symbol} Time &amp; Sales</h2>
+        </div>
+        <div className="h-[500px] p-4">
+          <TimeAndSales ticker={symbol} />
+        </div>
+      </div>
+
+      {isCrypto && (
+        <CoinbaseCryptoDisplay
+          ticker={symbol}
+          className="h-full shadow-lg"
+        />
+      )}
+    </div>
+  );
+});
+
+export default function ReplayPage() {
+  const [ticker, setTicker] = useState<string>('AAPL');
+  const [date, setDate] = useState<string>(getPreviousWeekday);
+  // Bumped on every start so the panels remount against the new replay
+  const [replayCount, setReplayCount] = useState<number>(0);
+
+  const { state, error, start, stop, play, pause, seek, setSpeed } = useMarketReplay();
+
+  const today = new Date().toISOString().split('T')[0];
+  const trimmedTicker = ticker.trim().toUpperCase();
+  const canStart = trimmedTicker.length > 0 && isReplayDate(date) && date < today;
+
+  const handleStart = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canStart) return;
+    start({ ticker: trimmedTicker, date });
+    setReplayCount(count => count + 1);
+  };
+
+  return (
+    <div className="container py-10">
+      <h1 className="text-4xl font-bold mb-2">Market Replay</h1>
+      <p className="text-sm text-gray-500 mb-6">
+        Play back a past trading day through the live chart and tape. Stocks replay from 04:00 to 20:00 New York
+        time (starting at the open), crypto the whole UTC day.
+      </p>
+
+      <form onSubmit={handleStart} className="mb-6 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-sm font-medium">
+          Ticker
+          <input
+            type="text"
+            value={ticker}
+            onChange={(e) => setTicker(e.target.value)}
+            placeholder="AAPL or X:BTCUSD"
+            className="p-2 border rounded-md bg-background"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm font-medium">
+          Date
+          <input
+            type="date"
+            value={date}
+            max={today}
+            onChange={(e) => setDate(e.target.value)}
+            className="p-2 border rounded-md bg-background"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={!canStart}
+          className="px-4 py-2 rounded-md bg-blue-600 text-white disabled:opacity-50"
+        >
+          {state ? "Restart replay" : "Load replay"}
+        </button>
+        {state && (
+          <button
+            type="button"
+            onClick={stop}
+            className="px-4 py-2 rounded-md bg-gray-600 text-white"
+          >
+            Stop
+          </button>
+        )}
+      </form>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-100 border border-red-300 rounded text-red-700">
+          Error: {error}
+        </div>
+      )}
+
+      {state ? (
+        <>
+          <ReplayControls
+            state={state}
+            onPlay={play}
+            onPause={pause}
+            onSeek={seek}
+            onSpeedChange={setSpeed}
+            className="mb-6 p-4 border rounded-lg"
+          />
+          {/* Charts hold history from before a seek, so they start over after one */}
+          <ReplayPanels
+            key={`${replayCount}-${state.seekGeneration}`}
+            symbol={state.symbol}
+          />
+        </>
+      ) : (
+        <div className="p-10 border rounded-lg text-center text-gray-500">
+          Pick a ticker and a past date to load a replay.
+        </div>
+      )}
+    </div>
+  );
+}
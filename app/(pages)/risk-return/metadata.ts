@@ -0,0 +1,6 @@
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: "Risk / Return",
+  description: "Explore volatility against return for thousands of stocks and cryptocurrencies in 3D",
+};
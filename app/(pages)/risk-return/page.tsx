@@ -0,0 +1,21 @@
+"use client";
+
+import React from 'react';
+import RiskReturnExplorer from '../../../components/Finance/RiskReturnExplorer';
+
+export default function RiskReturnPage() {
+  return (
+    <div className="container py-10">
+      <h1 className="text-4xl font-bold mb-2">Risk / Return</h1>
+      <p className="text-sm text-gray-500 mb-6">
+        Every ticker as a point: realized volatility across, return over the lookback up, and market cap or
+        dollar volume in depth. Plot every listed stock and cryptocurrency, one of your watchlists, or a screen;
+        drag to orbit, hover a point for details and click it to open the ticker.
+      </p>
+
+      <div className="p-4 bg-black border rounded">
+        <RiskReturnExplorer />
+      </div>
+    </div>
+  );
+}
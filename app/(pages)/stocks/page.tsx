@@ -3,11 +3,18 @@
 import React, { useState, useEffect } from 'react';
 import SurfaceChart from '../../../components/Finance/SurfaceChart';
 import CoreSearch from '../../../components/Finance/CoreSearch';
+import SurfaceModeControls from '../../../components/Finance/SurfaceModeControls';
 import { useTickerDetails } from '../../../hooks/useTickerDetails';
 import { useMarketSnapshot } from '../../../hooks/useStockMarketSnapshot';
 import { useMarketStatus } from '../../../hooks/useMarketStatus';
 import NewsComponent from '../../../components/Finance/NewsComponent';
 import StockTickerBanner from '../../../components/Finance/StockTickerBanner';
+import CorporateActionsPanel from '../../../components/Finance/CorporateActionsPanel';
+import FundamentalsPanel from '../../../components/Finance/FundamentalsPanel';
+import { useCorporateActions } from '../../../hooks/useCorporateActions';
+import { useQuery } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import { GapFill, SURFACE_MODES, SurfaceMode } from '@/lib/surface';
 // Removed unused import
 
 // Define interfaces for pricing data
@@ -26,7 +33,14 @@ interface PricingData {
 export default function StocksPage() {
   // State for selected ticker and year
   const [selectedTicker, setSelectedTicker] = useState<string>('AAPL');
+  // Watchlist the user chose for the banner (null for the default top tickers)
+  const bannerWatchlist = useQuery(api.watchlists.getBannerWatchlist);
   const [selectedYear, setSelectedYear] = useState<number>(2024);
+  // Split-adjusted prices by default; raw shows prices as they traded
+  const [isAdjusted, setIsAdjusted] = useState<boolean>(true);
+  // What the surface measures, and how days without trading are drawn
+  const [surfaceMode, setSurfaceMode] = useState<SurfaceMode>('close');
+  const [gapFill, setGapFill] = useState<GapFill>('carryForward');
   const [pricing, setPricing] = useState<PricingData | null>(null);
   // Add a key to force child component refreshes
   const [tickerChangeCounter, setTickerChangeCounter] = useState<number>(0);
@@ -55,6 +69,16 @@ export default function StocksPage() {
     isLoading: isLoadingMarketStatus
   } = useMarketStatus();
 
+  // Splits and dividends for the panel and the chart markers
+  const {
+    actions: corporateActions,
+    isAvailable: hasCorporateActions,
+    invalidatedSeries,
+    isLoading: isLoadingCorporateActions,
+    error: corporateActionsError,
+    refresh: refreshCorporateActions
+  } = useCorporateActions(selectedTicker);
+
   // Combined loading state
   const isLoading = isLoadingDetails || isLoadingMarketData || isLoadingMarketStatus;
 
@@ -72,6 +96,14 @@ export default function StocksPage() {
     setTickerChangeCounter(prev => prev + 1);
   };
 
+  // Open on the ticker in the link (?ticker=...), e.g. from the risk/return explorer
+  useEffect(() => {
+    const linkedTicker = new URLSearchParams(window.location.search).get('ticker');
+    if (linkedTicker) {
+      setSelectedTicker(linkedTicker.trim().toUpperCase());
+    }
+  }, []);
+
   // Handle year change
   const handleYearChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
     setSelectedYear(parseInt(event.target.value, 10));
@@ -138,7 +170,14 @@ export default function StocksPage() {
     <div className="container py-10">
       {/* Stock Ticker Banner */}
       <div className="mb-6 -mx-4 sm:-mx-6 md:-mx-8 lg:-mx-12">
-        <StockTickerBanner tickersPerLetter={5} scrollSpeed={80} />
+        {bannerWatchlist !== undefined && (
+          <StockTickerBanner
+            tickersPerLetter={5}
+            scrollSpeed={80}
+            tickers={bannerWatchlist?.tickers}
+            key={bannerWatchlist?._id ?? 'default'}
+          />
+        )}
       </div>
 
       <h1 className="text-4xl font-bold mb-6">Stock Visualization</h1>
@@ -153,7 +192,7 @@ export default function StocksPage() {
                 {tickerDetails.branding?.logo_url && (
                   <div className="mr-4 rounded-lg p-2 bg-gray-800">
                     <img
-                      src={`${tickerDetails.branding.logo_url}?apiKey=${process.env.NEXT_PUBLIC_POLYGON_API_KEY}`}
+                      src={`/api/market/logo?url=${encodeURIComponent(tickerDetails.branding.logo_url)}`}
                       alt={`${tickerDetails.name} logo`}
                       className="w-12 h-12 object-contain"
                       onError={(e) => {
@@ -235,7 +274,29 @@ export default function StocksPage() {
             <div className="border rounded-lg overflow-hidden shadow-lg">
               <div className="p-4 bg-black border-b flex justify-between items-center">
                 <h2 className="text-lg font-bold">{selectedTicker} Stock Price Surface</h2>
-                <div className="flex items-center">
+                <div className="flex items-center gap-2">
+                  <SurfaceModeControls
+                    mode={surfaceMode}
+                    gapFill={gapFill}
+                    onModeChange={setSurfaceMode}
+                    onGapFillChange={setGapFill}
+                  />
+                  <div className="flex overflow-hidden rounded-md border border-gray-300 text-sm">
+                    <button
+                      onClick={() => setIsAdjusted(true)}
+                      className={`px-2 py-1 ${isAdjusted ? "bg-blue-600 text-white" : "text-gray-400"}`}
+                      title="Prices adjusted for later splits"
+                    >
+                      Adjusted
+                    </button>
+                    <button
+                      onClick={() => setIsAdjusted(false)}
+                      className={`px-2 py-1 ${!isAdjusted ? "bg-blue-600 text-white" : "text-gray-400"}`}
+                      title="Prices as they traded"
+                    >
+                      Raw
+                    </button>
+                  </div>
                   <select
                     value={selectedYear}
                     onChange={handleYearChange}
@@ -251,7 +312,11 @@ export default function StocksPage() {
                 <SurfaceChart
                   ticker={selectedTicker}
                   year={selectedYear}
-                  key={`surface-${tickerChangeCounter}`}
+                  adjusted={isAdjusted}
+                  corporateActions={corporateActions}
+                  mode={surfaceMode}
+                  gapFill={gapFill}
+                  key={`surface-${tickerChangeCounter}-${invalidatedSeries}`}
                 />
               </div>
             </div>
@@ -342,6 +407,31 @@ export default function StocksPage() {
           </div>
         )}
 
+        {/* Fundamentals */}
+        {tickerDetails && (
+          <div className="mb-6 p-4 bg-black border rounded">
+            <FundamentalsPanel
+              ticker={selectedTicker}
+              price={pricing?.close || null}
+              key={`fundamentals-${tickerChangeCounter}`}
+            />
+          </div>
+        )}
+
+        {/* Corporate Actions */}
+        {tickerDetails && (
+          <div className="mb-6 p-4 bg-black border rounded">
+            <CorporateActionsPanel
+              ticker={selectedTicker}
+              actions={corporateActions}
+              isAvailable={hasCorporateActions}
+              isLoading={isLoadingCorporateActions}
+              error={corporateActionsError}
+              onRetry={refreshCorporateActions}
+            />
+          </div>
+        )}
+
         {/* News Section */}
         <div className="mt-6">
           <NewsComponent ticker={selectedTicker} />
@@ -360,7 +450,7 @@ export default function StocksPage() {
         )}
 
         <div className="mt-4 text-sm text-gray-500">
-          Note: Data provided by Polygon.io. Chart displays daily closing prices for the selected year.
+          Note: Data provided by Polygon.io. Chart displays {SURFACE_MODES[surfaceMode].description.toLowerCase()} for the selected year, {isAdjusted ? "adjusted for splits" : "as traded (not split-adjusted)"}, with splits and ex-dividend dates marked.
           {pricing ? (() => {
             const now = new Date();
             const today = now.toISOString().split('T')[0];
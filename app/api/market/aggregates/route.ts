@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { POLYGON_TTL, polygonErrorResponse, polygonFetch } from "@/lib/polygon";
+import { AggregatesResponse } from "@/lib/market-data/types";
+
+const TIMESPANS = ["second", "minute", "hour", "day", "week", "month", "quarter", "year"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/market/aggregates?ticker=AAPL&multiplier=1&timespan=day&from=2024-01-01&to=2024-12-31&adjusted=true
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const ticker = (searchParams.get("ticker") || "").trim().toUpperCase();
+  const multiplier = parseInt(searchParams.get("multiplier") || "1", 10);
+  const timespan = searchParams.get("timespan") || "day";
+  const from = searchParams.get("from") || "";
+  const to = searchParams.get("to") || "";
+  const adjusted = searchParams.get("adjusted") === "false" ? "false" : "true";
+
+  if (!ticker) {
+    return NextResponse.json({ error: "ticker is required" }, { status: 400 });
+  }
+  if (!Number.isInteger(multiplier) || multiplier < 1) {
+    return NextResponse.json({ error: "multiplier must be a positive integer" }, { status: 400 });
+  }
+  if (!TIMESPANS.includes(timespan)) {
+    return NextResponse.json({ error: `timespan must be one of ${TIMESPANS.join(", ")}` }, { status: 400 });
+  }
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+    return NextResponse.json({ error: "from and to must be YYYY-MM-DD dates" }, { status: 400 });
+  }
+
+  // Ranges that end before today never change, so they can be cached much longer
+  const today = new Date().toISOString().split("T")[0];
+  const ttl = to < today ? POLYGON_TTL.historicalAggregates : POLYGON_TTL.intradayAggregates;
+
+  try {
+    const { status, data } = await polygonFetch<AggregatesResponse>(
+      `/v2/aggs/ticker/${encodeURIComponent(ticker)}/range/${multiplier}/${timespan}/${from}/${to}`,
+      {
+        adjusted,
+        sort: searchParams.get("sort") || undefined,
+        limit: searchParams.get("limit") || undefined,
+      },
+      ttl
+    );
+    return NextResponse.json(data, { status });
+  } catch (error) {
+    return polygonErrorResponse(error);
+  }
+}
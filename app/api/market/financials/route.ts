@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { POLYGON_TTL, PolygonPage, polygonErrorResponse, polygonFetch } from "@/lib/polygon";
+import { FinancialReport } from "@/lib/market-data/types";
+
+const TIMEFRAMES = ["quarterly", "annual", "ttm"];
+
+// GET /api/market/financials?ticker=AAPL&timeframe=quarterly&limit=8
+// Reports from SEC filings, newest period first
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const ticker = (searchParams.get("ticker") || "").trim().toUpperCase();
+  const timeframe = searchParams.get("timeframe") || "quarterly";
+  const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "8", 10) || 8, 1), 100);
+
+  if (!ticker) {
+    return NextResponse.json({ error: "ticker is required" }, { status: 400 });
+  }
+  if (!TIMEFRAMES.includes(timeframe)) {
+    return NextResponse.json({ error: `timeframe must be one of ${TIMEFRAMES.join(", ")}` }, { status: 400 });
+  }
+
+  try {
+    const { status, data } = await polygonFetch<PolygonPage<FinancialReport>>(
+      "/vX/reference/financials",
+      { ticker, timeframe, limit: String(limit), order: "desc", sort: "period_of_report_date" },
+      POLYGON_TTL.financials
+    );
+
+    // next_url would need the API key; callers ask for as many periods as they chart
+    // Copied rather than deleted from, as data is the cache entry other requests are served
+    if (data && typeof data === "object") {
+      const { next_url, ...page } = data;
+      return NextResponse.json(page, { status });
+    }
+    return NextResponse.json(data, { status });
+  } catch (error) {
+    return polygonErrorResponse(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { POLYGON_TTL, PolygonPage, polygonErrorResponse, polygonFetch } from "@/lib/polygon";
+import { GroupedDailyBar } from "@/lib/market-data/types";
+
+const MARKETS: Record<string, string> = {
+  stocks: "/v2/aggs/grouped/locale/us/market/stocks",
+  crypto: "/v2/aggs/grouped/locale/global/market/crypto",
+};
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/market/grouped-daily?market=stocks&date=2024-01-02
+// Every ticker's daily bar in the market for one date (empty on days the market was closed)
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const market = searchParams.get("market") || "stocks";
+  const date = searchParams.get("date") || "";
+
+  if (!MARKETS[market]) {
+    return NextResponse.json({ error: `market must be one of ${Object.keys(MARKETS).join(", ")}` }, { status: 400 });
+  }
+  if (!DATE_PATTERN.test(date)) {
+    return NextResponse.json({ error: "date must be a YYYY-MM-DD date" }, { status: 400 });
+  }
+
+  // Past days never change; today's bars fill in as the session goes
+  const today = new Date().toISOString().split("T")[0];
+  const ttl = date < today ? POLYGON_TTL.historicalAggregates : POLYGON_TTL.intradayAggregates;
+
+  try {
+    const { status, data } = await polygonFetch<PolygonPage<GroupedDailyBar>>(`${MARKETS[market]}/${date}`, { adjusted: "true" }, ttl);
+    return NextResponse.json(data, { status });
+  } catch (error) {
+    return polygonErrorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { polygonErrorResponse, polygonFetchAsset } from "@/lib/polygon";
+
+// GET /api/market/logo?url=https://api.polygon.io/v1/reference/company-branding/...
+// Polygon branding URLs require the API key, so logos are streamed through the server
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const url = searchParams.get("url");
+
+  if (!url) {
+    return NextResponse.json({ error: "url is required" }, { status: 400 });
+  }
+
+  try {
+    const { contentType, body } = await polygonFetchAsset(url);
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Cache-Control": "public, max-age=86400",
+      },
+    });
+  } catch (error) {
+    return polygonErrorResponse(error);
+  }
+}
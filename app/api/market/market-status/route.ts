@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { POLYGON_TTL, polygonErrorResponse, polygonFetch } from "@/lib/polygon";
+import { MarketStatusResponse } from "@/lib/market-data/types";
+
+// GET /api/market/market-status
+export async function GET() {
+  try {
+    const { status, data } = await polygonFetch<MarketStatusResponse>("/v1/marketstatus/now", {}, POLYGON_TTL.marketStatus);
+    return NextResponse.json(data, { status });
+  } catch (error) {
+    return polygonErrorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { POLYGON_TTL, polygonErrorResponse, polygonFetch } from "@/lib/polygon";
+import { NewsResponse } from "@/lib/market-data/types";
+
+// GET /api/market/news?ticker=AAPL&limit=5
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const ticker = (searchParams.get("ticker") || "").trim().toUpperCase();
+  const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "5", 10) || 5, 1), 50);
+
+  if (!ticker) {
+    return NextResponse.json({ error: "ticker is required" }, { status: 400 });
+  }
+
+  try {
+    const { status, data } = await polygonFetch<NewsResponse>(
+      "/v2/reference/news",
+      { ticker, limit: String(limit) },
+      POLYGON_TTL.news
+    );
+    return NextResponse.json(data, { status });
+  } catch (error) {
+    return polygonErrorResponse(error);
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { POLYGON_TTL, PolygonPage, polygonErrorResponse, polygonFetch } from "@/lib/polygon";
+import { OptionSnapshot } from "@/lib/market-data/types";
+
+// Polygon's page size for option snapshots, and how many pages one expiration (or a range of them) may take
+const PAGE_LIMIT = 250;
+const MAX_PAGES = 10;
+const MAX_RANGE_PAGES = 24;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/market/options-chain?ticker=AAPL&expiration=2024-07-19&strikeMin=150&strikeMax=250
+// Every contract for one expiration, calls and puts, with quotes, greeks and IV where Polygon has them.
+// With expirationTo, every expiration from `expiration` through `expirationTo` (for volatility surfaces).
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const ticker = (searchParams.get("ticker") || "").trim().toUpperCase();
+  const expiration = searchParams.get("expiration") || "";
+  const expirationTo = searchParams.get("expirationTo") || undefined;
+  const strikeMin = searchParams.get("strikeMin") || undefined;
+  const strikeMax = searchParams.get("strikeMax") || undefined;
+
+  if (!ticker) {
+    return NextResponse.json({ error: "ticker is required" }, { status: 400 });
+  }
+  if (!DATE_PATTERN.test(expiration)) {
+    return NextResponse.json({ error: "expiration must be a YYYY-MM-DD date" }, { status: 400 });
+  }
+  if (expirationTo && (!DATE_PATTERN.test(expirationTo) || expirationTo < expiration)) {
+    return NextResponse.json({ error: "expirationTo must be a YYYY-MM-DD date on or after expiration" }, { status: 400 });
+  }
+  if ((strikeMin && !Number.isFinite(Number(strikeMin))) || (strikeMax && !Number.isFinite(Number(strikeMax)))) {
+    return NextResponse.json({ error: "strikeMin and strikeMax must be numbers" }, { status: 400 });
+  }
+
+  const params: Record<string, string | undefined> = {
+    ...(expirationTo
+      ? { "expiration_date.gte": expiration, "expiration_date.lte": expirationTo }
+      : { expiration_date: expiration }),
+    "strike_price.gte": strikeMin,
+    "strike_price.lte": strikeMax,
+    order: "asc",
+    sort: expirationTo ? "expiration_date" : "strike_price",
+    limit: String(PAGE_LIMIT),
+  };
+
+  try {
+    const path = `/v3/snapshot/options/${encodeURIComponent(ticker)}`;
+    let results: unknown[] = [];
+    let cursor: string | undefined;
+
+    // Follow the cursor server-side; next_url carries the API key
+    const maxPages = expirationTo ? MAX_RANGE_PAGES : MAX_PAGES;
+    for (let page = 0; page < maxPages; page++) {
+      const { status, data } = await polygonFetch<PolygonPage<OptionSnapshot>>(path, { ...params, cursor }, POLYGON_TTL.snapshot);
+      if (status !== 200) {
+        return NextResponse.json(data, { status });
+      }
+
+      results = results.concat(data?.results || []);
+      cursor = data?.next_url ? new URL(data.next_url).searchParams.get("cursor") || undefined : undefined;
+      if (!cursor) break;
+    }
+
+    return NextResponse.json({ status: "OK", ticker, expiration, expirationTo, results, truncated: Boolean(cursor) });
+  } catch (error) {
+    return polygonErrorResponse(error);
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { POLYGON_TTL, PolygonPage, polygonErrorResponse, polygonFetch } from "@/lib/polygon";
+
+// Contracts per reference page, and how many pages to scan for expiration dates
+const PAGE_LIMIT = 1000;
+const MAX_PAGES = 10;
+
+// GET /api/market/options-expirations?ticker=AAPL
+// Unexpired expiration dates listed for an underlying, soonest first
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const ticker = (searchParams.get("ticker") || "").trim().toUpperCase();
+
+  if (!ticker) {
+    return NextResponse.json({ error: "ticker is required" }, { status: 400 });
+  }
+
+  const today = new Date().toISOString().split("T")[0];
+  const params: Record<string, string | undefined> = {
+    underlying_ticker: ticker,
+    expired: "false",
+    "expiration_date.gte": today,
+    order: "asc",
+    sort: "expiration_date",
+    limit: String(PAGE_LIMIT),
+  };
+
+  try {
+    const expirations = new Set<string>();
+    let cursor: string | undefined;
+
+    // Contracts come back by expiration, so distinct dates build up page by page
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const { status, data } = await polygonFetch<PolygonPage<{ expiration_date?: string }>>("/v3/reference/options/contracts", { ...params, cursor }, POLYGON_TTL.optionsContracts);
+      if (status !== 200) {
+        return NextResponse.json(data, { status });
+      }
+
+      for (const contract of data?.results || []) {
+        if (contract?.expiration_date) {
+          expirations.add(contract.expiration_date);
+        }
+      }
+      cursor = data?.next_url ? new URL(data.next_url).searchParams.get("cursor") || undefined : undefined;
+      if (!cursor) break;
+    }
+
+    return NextResponse.json({ status: "OK", ticker, expirations: Array.from(expirations).sort() });
+  } catch (error) {
+    return polygonErrorResponse(error);
+  }
+}
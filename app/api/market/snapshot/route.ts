@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { POLYGON_TTL, polygonErrorResponse, polygonFetch } from "@/lib/polygon";
+import { SnapshotResponse } from "@/lib/market-data/types";
+
+const SNAPSHOT_PATHS = {
+  stocks: "/v2/snapshot/locale/us/markets/stocks/tickers",
+  crypto: "/v2/snapshot/locale/global/markets/crypto/tickers",
+} as const;
+
+// GET /api/market/snapshot?market=stocks|crypto&tickers=AAPL,MSFT
+// Omitting tickers returns the whole market (crypto only, stocks require a list)
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const market = searchParams.get("market") === "crypto" ? "crypto" : "stocks";
+
+  const tickers = (searchParams.get("tickers") || "")
+    .split(",")
+    .map((t) => t.trim().toUpperCase())
+    .filter(Boolean)
+    .join(",");
+
+  if (market === "stocks" && !tickers) {
+    return NextResponse.json({ error: "tickers is required" }, { status: 400 });
+  }
+
+  try {
+    const { status, data } = await polygonFetch<SnapshotResponse>(
+      SNAPSHOT_PATHS[market],
+      { tickers: tickers || undefined },
+      POLYGON_TTL.snapshot
+    );
+    return NextResponse.json(data, { status });
+  } catch (error) {
+    return polygonErrorResponse(error);
+  }
+}
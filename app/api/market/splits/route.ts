@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { POLYGON_TTL, PolygonPage, polygonErrorResponse, polygonFetch } from "@/lib/polygon";
+import { StockSplit } from "@/lib/market-data/types";
+
+// GET /api/market/splits?ticker=AAPL&limit=100
+// Newest execution date first
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const ticker = (searchParams.get("ticker") || "").trim().toUpperCase();
+  const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "100", 10) || 100, 1), 1000);
+
+  if (!ticker) {
+    return NextResponse.json({ error: "ticker is required" }, { status: 400 });
+  }
+
+  try {
+    const { status, data } = await polygonFetch<PolygonPage<StockSplit>>(
+      "/v3/reference/splits",
+      { ticker, order: "desc", sort: "execution_date", limit: String(limit) },
+      POLYGON_TTL.corporateActions
+    );
+
+    // next_url would need the API key; a ticker rarely has more splits than one page holds
+    // Copied rather than deleted from, as data is the cache entry other requests are served
+    if (data && typeof data === "object") {
+      const { next_url, ...page } = data;
+      return NextResponse.json(page, { status });
+    }
+    return NextResponse.json(data, { status });
+  } catch (error) {
+    return polygonErrorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+
+// A separate Polygon key used only by the browser's live feeds, so the REST key behind
+// /api/market/* is never sent to a browser, and this one can be rotated or revoked on its own
+const STREAM_API_KEY = process.env.POLYGON_STREAM_API_KEY;
+
+// GET /api/market/stream-key
+// Fetched by the leader tab each time it opens a Polygon socket
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Sign in to stream live data" }, { status: 401 });
+  }
+  if (!STREAM_API_KEY) {
+    return NextResponse.json({ error: "Polygon streaming key is not configured" }, { status: 503 });
+  }
+
+  return NextResponse.json({ apiKey: STREAM_API_KEY }, { headers: { "Cache-Control": "private, no-store" } });
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { POLYGON_TTL, polygonErrorResponse, polygonFetch } from "@/lib/polygon";
+import { TickerDetailsResponse } from "@/lib/market-data/types";
+
+// GET /api/market/ticker-details?ticker=AAPL&date=2024-01-02
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const ticker = (searchParams.get("ticker") || "").trim().toUpperCase();
+
+  if (!ticker) {
+    return NextResponse.json({ error: "ticker is required" }, { status: 400 });
+  }
+
+  try {
+    const { status, data } = await polygonFetch<TickerDetailsResponse>(
+      `/v3/reference/tickers/${encodeURIComponent(ticker)}`,
+      { date: searchParams.get("date") || undefined },
+      POLYGON_TTL.tickerDetails
+    );
+    return NextResponse.json(data, { status });
+  } catch (error) {
+    return polygonErrorResponse(error);
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { POLYGON_TTL, PolygonPage, polygonErrorResponse, polygonFetch } from "@/lib/polygon";
+
+// Polygon's page size limit for trades
+const MAX_LIMIT = 50000;
+
+// Trades this recent may still be arriving, so they're only cached briefly
+const SETTLED_AFTER_MS = 60 * 1000;
+
+// GET /api/market/trades?ticker=AAPL&from=1718890200000&to=1718913600000&limit=50000
+// from (inclusive) and to (exclusive) are Unix milliseconds; trades come back oldest first
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const ticker = (searchParams.get("ticker") || "").trim().toUpperCase();
+  const from = Number(searchParams.get("from"));
+  const to = Number(searchParams.get("to"));
+  const limit = Math.min(parseInt(searchParams.get("limit") || String(MAX_LIMIT), 10), MAX_LIMIT);
+
+  if (!ticker) {
+    return NextResponse.json({ error: "ticker is required" }, { status: 400 });
+  }
+  if (!Number.isInteger(from) || !Number.isInteger(to) || from < 0 || to <= from) {
+    return NextResponse.json({ error: "from and to must be Unix millisecond timestamps with from < to" }, { status: 400 });
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json({ error: "limit must be a positive integer" }, { status: 400 });
+  }
+
+  const ttl = to < Date.now() - SETTLED_AFTER_MS ? POLYGON_TTL.historicalTrades : POLYGON_TTL.intradayAggregates;
+
+  try {
+    // Polygon filters trades by nanosecond timestamps
+    const { status, data } = await polygonFetch<PolygonPage<unknown>>(
+      `/v3/trades/${encodeURIComponent(ticker)}`,
+      {
+        "timestamp.gte": `${from}000000`,
+        "timestamp.lt": `${to}000000`,
+        order: "asc",
+        sort: "timestamp",
+        limit: String(limit),
+      },
+      ttl
+    );
+
+    // Callers page by timestamp; next_url would need the API key anyway
+    // Copied rather than deleted from, as data is the cache entry other requests are served
+    if (data && typeof data === "object") {
+      const { next_url, ...page } = data;
+      return NextResponse.json(page, { status });
+    }
+    return NextResponse.json(data, { status });
+  } catch (error) {
+    return polygonErrorResponse(error);
+  }
+}
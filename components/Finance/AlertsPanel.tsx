@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { Plus, Trash2 } from 'lucide-react';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import { AlertCondition } from '@/convex/schema';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { isCryptoTicker, toPolygonCryptoTicker } from '@/lib/market-data';
+
+const CONDITION_OPTIONS: { value: AlertCondition; label: string; thresholdLabel: string; placeholder: string }[] = [
+    { value: 'price_above', label: 'Price crosses above', thresholdLabel: 'Price (USD)', placeholder: '70000' },
+    { value: 'price_below', label: 'Price crosses below', thresholdLabel: 'Price (USD)', placeholder: '150' },
+    { value: 'percent_move', label: 'Moves more than (intraday)', thresholdLabel: 'Percent', placeholder: '3' },
+    { value: 'volume_spike', label: 'Volume reaches', thresholdLabel: 'x average volume', placeholder: '2' },
+];
+
+// Accept "AAPL", "BTC-USD" or "X:BTCUSD" and store Polygon tickers
+const toAlertTicker = (input: string): string => {
+    const ticker = input.trim().toUpperCase();
+    return isCryptoTicker(ticker) ? toPolygonCryptoTicker(ticker) : ticker;
+};
+
+const AlertsPanel: React.FC = () => {
+    const alerts = useQuery(api.alerts.list);
+    const createAlert = useMutation(api.alerts.create);
+    const setAlertActive = useMutation(api.alerts.setActive);
+    const removeAlert = useMutation(api.alerts.remove);
+
+    const [ticker, setTicker] = useState('');
+    const [condition, setCondition] = useState<AlertCondition>('price_above');
+    const [threshold, setThreshold] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const conditionOption = CONDITION_OPTIONS.find(o => o.value === condition) ?? CONDITION_OPTIONS[0];
+
+    // Run a mutation and surface its error in the panel
+    const run = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        const value = parseFloat(threshold);
+        if (!ticker.trim() || !Number.isFinite(value)) return;
+
+        run(async () => {
+            await createAlert({ ticker: toAlertTicker(ticker), condition, threshold: value });
+            setTicker('');
+            setThreshold('');
+        });
+    };
+
+    const handleDelete = (alertId: Id<'alerts'>) => {
+        run(() => removeAlert({ alertId }));
+    };
+
+    if (alerts === undefined) {
+        return <p className="text-muted-foreground">Loading alerts...</p>;
+    }
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader>
+                    <CardTitle>New Alert</CardTitle>
+                    <CardDescription>
+                        Alerts are checked every minute on the server, even when this tab is closed
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <form onSubmit={handleCreate} className="flex flex-col md:flex-row gap-4 md:items-end">
+                        <div className="space-y-2">
+                            <Label htmlFor="alert-ticker">Ticker</Label>
+                            <Input
+                                id="alert-ticker"
+                                placeholder="AAPL or BTC-USD"
+                                value={ticker}
+                                onChange={e => setTicker(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Condition</Label>
+                            <Select value={condition} onValueChange={(value) => setCondition(value as AlertCondition)}>
+                                <SelectTrigger className="w-[240px]">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {CONDITION_OPTIONS.map(option => (
+                                        <SelectItem key={option.value} value={option.value}>
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="alert-threshold">{conditionOption.thresholdLabel}</Label>
+                            <Input
+                                id="alert-threshold"
+                                type="number"
+                                min="0"
+                                step="any"
+                                placeholder={conditionOption.placeholder}
+                                value={threshold}
+                                onChange={e => setThreshold(e.target.value)}
+                            />
+                        </div>
+                        <Button type="submit" className="gap-2" disabled={!ticker.trim() || !threshold}>
+                            <Plus className="h-4 w-4" />
+                            Create
+                        </Button>
+                    </form>
+                </CardContent>
+            </Card>
+
+            {error && (
+                <div className="p-2 bg-red-100 border border-red-300 rounded text-red-700 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {alerts.length === 0 ? (
+                <div className="flex flex-col items-center justify-center p-12 border border-dashed rounded-lg">
+                    <h3 className="text-xl font-medium mb-2">No alerts yet</h3>
+                    <p className="text-muted-foreground text-center max-w-md">
+                        Create an alert to get notified when a price crosses a level, moves sharply or trades on heavy volume.
+                    </p>
+                </div>
+            ) : (
+                <Card>
+                    <CardContent className="pt-6 overflow-x-auto">
+                        <table className="w-full border-collapse">
+                            <thead>
+                                <tr className="border-b">
+                                    <th className="p-2.5 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Alert</th>
+                                    <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Last Triggered</th>
+                                    <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Active</th>
+                                    <th className="p-2.5" />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {alerts.map(alert => (
+                                    <tr key={alert._id} className="border-b last:border-b-0">
+                                        <td className="p-2.5 font-medium">{alert.description}</td>
+                                        <td className="p-2.5 text-right text-sm text-muted-foreground">
+                                            {alert.lastTriggeredAt ? new Date(alert.lastTriggeredAt).toLocaleString() : 'Never'}
+                                        </td>
+                                        <td className="p-2.5 text-right">
+                                            <Switch
+                                                checked={alert.isActive}
+                                                onCheckedChange={(checked) => run(() => setAlertActive({ alertId: alert._id, isActive: checked }))}
+                                            />
+                                        </td>
+                                        <td className="p-2.5">
+                                            <div className="flex justify-end">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-7 w-7 hover:text-red-500"
+                                                    title="Delete alert"
+                                                    onClick={() => handleDelete(alert._id)}
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+};
+
+export default AlertsPanel;
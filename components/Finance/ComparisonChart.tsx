@@ -0,0 +1,317 @@
+'use client';
+
+import * as React from 'react';
+import {
+    CameraController,
+    EDrawMeshAs,
+    MouseWheelZoomModifier3D,
+    NumberRange,
+    NumericAxis3D,
+    OrbitModifier3D,
+    PointLineRenderableSeries3D,
+    ResetCamera3DModifier,
+    SciChart3DSurface,
+    SciChartSurface,
+    SolidColorBrushPalette,
+    SpherePointMarker3D,
+    SurfaceMeshRenderableSeries3D,
+    TSciChart3D,
+    TooltipModifier3D,
+    UniformGridDataSeries3D,
+    Vector3,
+    XyzDataSeries3D
+} from 'scichart';
+import useComparison from '@/hooks/useComparison';
+import { CalendarAlignment, PerformanceBasis, PerformanceComparison, alignDailyCloses, comparePerformance } from '@/lib/comparison';
+
+SciChart3DSurface.configure({ dataUrl: '/scichart3d.data', wasmUrl: '/scichart3d.wasm' });
+SciChartSurface.UseCommunityLicense();
+
+// One colour per lane, in ticker order
+const LANE_COLORS = ['#3B82F6', '#F59E0B', '#22C55E', '#EF4444', '#A855F7', '#14B8A6', '#EC4899', '#EAB308'];
+
+const PERIODS: { label: string; days: number }[] = [
+    { label: '1M', days: 30 },
+    { label: '3M', days: 91 },
+    { label: '6M', days: 182 },
+    { label: '1Y', days: 365 },
+    { label: '3Y', days: 3 * 365 }
+];
+
+const BASIS_LABELS: Record<PerformanceBasis, string> = {
+    rebased: 'Rebased to 100',
+    percent: '% change'
+};
+
+const ALIGNMENT_LABELS: Record<CalendarAlignment, string> = {
+    trading: 'Trading days',
+    calendar: 'Calendar days'
+};
+
+// Half the width of a lane's ribbon along Z
+const RIBBON_HALF_WIDTH = 0.3;
+
+const formatLaneTicker = (ticker: string): string => ticker.replace(/^X:/, '');
+
+const formatPerformance = (value: number, basis: PerformanceBasis): string =>
+    basis === 'rebased' ? value.toFixed(1) : `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const formatDate = (date: string | undefined): string =>
+    date ? new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', month: 'short', day: 'numeric', year: '2-digit' }) : '';
+
+interface ChartHandles {
+    surface: SciChart3DSurface;
+    wasmContext: TSciChart3D;
+}
+
+interface ComparisonChartProps {
+    tickers: string[];
+    className?: string;
+}
+
+/**
+ * Several tickers' performance side by side in 3D: each ticker is a coloured lane along Z, X is
+ * time and height is performance rebased to 100 or as a percentage change from a shared start.
+ * Stocks and crypto are put on one calendar, either the stock trading days or every day.
+ */
+const ComparisonChart: React.FC<ComparisonChartProps> = ({ tickers, className = '' }) => {
+    const chartRef = React.useRef<HTMLDivElement>(null);
+    const handlesRef = React.useRef<ChartHandles | null>(null);
+    // Kept current for the tooltip, which is set up once with the surface
+    const comparisonRef = React.useRef<PerformanceComparison | null>(null);
+
+    const [chartError, setChartError] = React.useState<string | null>(null);
+    const [isChartReady, setIsChartReady] = React.useState(false);
+    const [days, setDays] = React.useState<number>(365);
+    const [basis, setBasis] = React.useState<PerformanceBasis>('rebased');
+    const [alignment, setAlignment] = React.useState<CalendarAlignment>('trading');
+
+    const { barsByTicker, failed, isLoading, error, refresh } = useComparison(tickers, days);
+
+    const comparison = React.useMemo(
+        () => comparePerformance(alignDailyCloses(barsByTicker, alignment), basis),
+        [barsByTicker, alignment, basis]
+    );
+    comparisonRef.current = comparison;
+
+    // Build the surface once; lanes are rebuilt below whenever the comparison changes
+    React.useEffect(() => {
+        if (!chartRef.current) return;
+
+        let isCancelled = false;
+        setIsChartReady(false);
+        setChartError(null);
+
+        const init = async () => {
+            const { sciChart3DSurface, wasmContext } = await SciChart3DSurface.create(chartRef.current!);
+            if (isCancelled) {
+                sciChart3DSurface.delete();
+                return;
+            }
+
+            sciChart3DSurface.camera = new CameraController(wasmContext, {
+                position: new Vector3(-300, 220, -280),
+                target: new Vector3(0, 40, 0)
+            });
+            sciChart3DSurface.worldDimensions = new Vector3(300, 120, 180);
+            sciChart3DSurface.background = 'Transparent';
+
+            sciChart3DSurface.xAxis = new NumericAxis3D(wasmContext, { axisTitle: 'Date' });
+            sciChart3DSurface.xAxis.labelProvider.formatLabel = (value: number) => formatDate(comparisonRef.current?.dates[Math.round(value)]);
+            sciChart3DSurface.yAxis = new NumericAxis3D(wasmContext, { axisTitle: BASIS_LABELS.rebased });
+            sciChart3DSurface.zAxis = new NumericAxis3D(wasmContext, { axisTitle: 'Ticker' });
+            sciChart3DSurface.zAxis.labelProvider.formatLabel = (value: number) => {
+                const ticker = comparisonRef.current?.series[Math.round(value)]?.ticker;
+                return ticker && Math.abs(value - Math.round(value)) < 0.01 ? formatLaneTicker(ticker) : '';
+            };
+
+            sciChart3DSurface.chartModifiers.add(new MouseWheelZoomModifier3D());
+            sciChart3DSurface.chartModifiers.add(new OrbitModifier3D());
+            sciChart3DSurface.chartModifiers.add(new ResetCamera3DModifier());
+            sciChart3DSurface.chartModifiers.add(new TooltipModifier3D({
+                tooltipContainerBackground: '#333333',
+                tooltipDataTemplate: seriesInfo => {
+                    const current = comparisonRef.current;
+                    const lane = current?.series[Math.round(seriesInfo.zValue)];
+                    if (!current || !lane) return [];
+                    const index = Math.round(seriesInfo.xValue);
+                    return [
+                        formatLaneTicker(lane.ticker),
+                        formatDate(current.dates[index]),
+                        formatPerformance(lane.values[index] ?? seriesInfo.yValue, current.basis)
+                    ];
+                }
+            }));
+
+            handlesRef.current = { surface: sciChart3DSurface, wasmContext };
+            setIsChartReady(true);
+        };
+
+        init().catch(err => {
+            console.error('Failed to initialize comparison chart:', err);
+            setChartError(err instanceof Error ? err.message : 'Failed to load SciChart');
+        });
+
+        return () => {
+            isCancelled = true;
+            const handles = handlesRef.current;
+            handlesRef.current = null;
+            try {
+                handles?.surface.delete();
+            } catch (e) {
+                console.error('Error cleaning up comparison chart:', e);
+            }
+        };
+    }, []);
+
+    // One ribbon and line per lane. On % change the ribbons drop skirts to zero, giving a waterfall
+    React.useEffect(() => {
+        const handles = handlesRef.current;
+        if (!isChartReady || !handles) return;
+
+        const { surface, wasmContext } = handles;
+        const previous = surface.renderableSeries.asArray().slice();
+        surface.renderableSeries.clear();
+        previous.forEach(series => series.delete());
+
+        const { dates, series, basis: currentBasis } = comparison;
+        if (dates.length < 2) return;
+
+        let minimum = currentBasis === 'rebased' ? 100 : 0;
+        let maximum = minimum;
+        series.forEach((lane, laneIndex) => {
+            const color = LANE_COLORS[laneIndex % LANE_COLORS.length];
+            lane.values.forEach(value => {
+                minimum = Math.min(minimum, value);
+                maximum = Math.max(maximum, value);
+            });
+
+            const ribbon = new SurfaceMeshRenderableSeries3D(wasmContext, {
+                dataSeries: new UniformGridDataSeries3D(wasmContext, {
+                    yValues: [lane.values, lane.values],
+                    xStart: 0,
+                    xStep: 1,
+                    zStart: laneIndex - RIBBON_HALF_WIDTH,
+                    zStep: RIBBON_HALF_WIDTH * 2,
+                    dataSeriesName: formatLaneTicker(lane.ticker)
+                }),
+                meshColorPalette: new SolidColorBrushPalette(wasmContext, { fill: color }),
+                opacity: 0.45,
+                drawSkirt: currentBasis === 'percent',
+                drawMeshAs: EDrawMeshAs.SOLID_MESH,
+                lightingFactor: 0.6
+            });
+
+            const line = new PointLineRenderableSeries3D(wasmContext, {
+                dataSeries: new XyzDataSeries3D(wasmContext, {
+                    xValues: lane.values.map((_, index) => index),
+                    yValues: lane.values,
+                    zValues: lane.values.map(() => laneIndex),
+                    dataSeriesName: formatLaneTicker(lane.ticker)
+                }),
+                stroke: color,
+                strokeThickness: 3,
+                // Small markers give the tooltip something to hit on every date
+                pointMarker: new SpherePointMarker3D(wasmContext, { fill: color, size: 3 })
+            });
+
+            surface.renderableSeries.add(ribbon, line);
+        });
+
+        const padding = Math.max((maximum - minimum) * 0.05, 1);
+        surface.yAxis.axisTitle = BASIS_LABELS[currentBasis];
+        surface.yAxis.visibleRange = new NumberRange(minimum - padding, maximum + padding);
+        surface.yAxis.labelProvider.formatLabel = (value: number) => formatPerformance(value, currentBasis);
+        surface.xAxis.visibleRange = new NumberRange(0, dates.length - 1);
+        surface.zAxis.visibleRange = new NumberRange(-0.5, Math.max(series.length - 0.5, 0.5));
+    }, [comparison, isChartReady]);
+
+    const effectiveError = chartError || error;
+    const lastDate = comparison.dates[comparison.dates.length - 1];
+
+    return (
+        <div className={`flex flex-col gap-3 text-sm ${className}`}>
+            {/* Controls */}
+            <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                <div className="flex gap-1">
+                    {PERIODS.map(period => (
+                        <button
+                            key={period.label}
+                            onClick={() => setDays(period.days)}
+                            className={`rounded px-2 py-0.5 ${days === period.days ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300'}`}
+                        >
+                            {period.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <div className="flex gap-1">
+                        {(Object.keys(BASIS_LABELS) as PerformanceBasis[]).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setBasis(option)}
+                                className={`rounded px-2 py-0.5 ${basis === option ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300'}`}
+                            >
+                                {BASIS_LABELS[option]}
+                            </button>
+                        ))}
+                    </div>
+                    <select
+                        value={alignment}
+                        onChange={(e) => setAlignment(e.target.value as CalendarAlignment)}
+                        title="Which days make up the time axis when stocks and crypto are mixed"
+                        className="rounded border bg-background p-1 text-foreground"
+                    >
+                        {(Object.keys(ALIGNMENT_LABELS) as CalendarAlignment[]).map(option => (
+                            <option key={option} value={option}>{ALIGNMENT_LABELS[option]}</option>
+                        ))}
+                    </select>
+                    <button onClick={refresh} disabled={isLoading} className="rounded bg-gray-700 px-2 py-0.5 text-white disabled:opacity-50">
+                        {isLoading ? 'Loading...' : 'Refresh'}
+                    </button>
+                </div>
+            </div>
+
+            {(failed.length > 0 || comparison.missing.length > 0) && (
+                <div className="rounded bg-yellow-100 px-2 py-1 text-xs text-yellow-800">
+                    No history for {[...failed, ...comparison.missing].map(formatLaneTicker).join(', ')} in this period; left out of the comparison.
+                </div>
+            )}
+
+            {/* Chart */}
+            <div className="relative h-[450px] w-full">
+                {!effectiveError && comparison.dates.length < 2 && (
+                    <div className="absolute top-2 left-2 z-10 rounded-md bg-black bg-opacity-70 px-3 py-1 text-xs text-white">
+                        {isLoading ? 'Loading price history...' : tickers.length === 0 ? 'Add tickers to compare' : 'Not enough overlapping history to compare'}
+                    </div>
+                )}
+
+                {effectiveError && (
+                    <div className="absolute top-1/2 left-0 right-0 z-10 -translate-y-1/2 bg-red-100 bg-opacity-10 p-4 text-center text-red-500">
+                        Error: {effectiveError}
+                    </div>
+                )}
+
+                <div ref={chartRef} className="h-full w-full" />
+            </div>
+
+            {/* Lane legend */}
+            {comparison.series.length > 0 && (
+                <div className="flex flex-wrap gap-4 text-xs">
+                    {comparison.series.map((lane, laneIndex) => (
+                        <div key={lane.ticker} className="flex items-center gap-1.5">
+                            <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: LANE_COLORS[laneIndex % LANE_COLORS.length] }} />
+                            <span className="font-semibold">{formatLaneTicker(lane.ticker)}</span>
+                            <span className="font-mono">{formatPerformance(lane.values[lane.values.length - 1], comparison.basis)}</span>
+                        </div>
+                    ))}
+                    <span className="text-muted-foreground">
+                        {formatDate(comparison.dates[0])} – {formatDate(lastDate)} · {comparison.dates.length} {ALIGNMENT_LABELS[alignment].toLowerCase()}
+                    </span>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ComparisonChart;
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CorporateAction, CorporateActionType, getSplitRatio } from '@/lib/market-data';
+
+type ActionFilter = 'all' | CorporateActionType;
+
+const FILTER_LABELS: Record<ActionFilter, string> = {
+    all: 'All',
+    split: 'Splits',
+    dividend: 'Dividends'
+};
+
+// Rows shown before "Show all"
+const COLLAPSED_ROWS = 12;
+
+const TYPE_BADGES: Record<CorporateActionType, string> = {
+    split: 'bg-sky-500/20 text-sky-400',
+    dividend: 'bg-fuchsia-500/20 text-fuchsia-400'
+};
+
+const formatDate = (date?: string): string =>
+    date ? new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC', year: 'numeric', month: 'short', day: 'numeric' }) : '—';
+
+// Secondary line for a row: what a split did to the share count, or a dividend's schedule
+const describeDetails = (action: CorporateAction): string => {
+    if (action.split) {
+        const ratio = getSplitRatio(action.split);
+        return ratio < 1
+            ? `Prices before this date ×${(1 / ratio).toLocaleString()} when adjusted`
+            : `Prices before this date ÷${ratio.toLocaleString()} when adjusted`;
+    }
+    if (action.dividend) {
+        const { declaration_date, record_date, pay_date } = action.dividend;
+        return [
+            declaration_date && `Declared ${formatDate(declaration_date)}`,
+            record_date && `Record ${formatDate(record_date)}`,
+            pay_date && `Paid ${formatDate(pay_date)}`
+        ].filter(Boolean).join(' · ');
+    }
+    return '';
+};
+
+interface CorporateActionsPanelProps {
+    ticker: string;
+    actions: CorporateAction[];
+    isAvailable: boolean;
+    isLoading: boolean;
+    error: string | null;
+    onRetry?: () => void;
+    className?: string;
+}
+
+/**
+ * Splits and cash dividends for a stock, newest first, with each split's effect on adjusted prices.
+ * Dates are the split's execution date and the dividend's ex-date, which is where chart markers sit.
+ */
+const CorporateActionsPanel: React.FC<CorporateActionsPanelProps> = ({
+    ticker,
+    actions,
+    isAvailable,
+    isLoading,
+    error,
+    onRetry,
+    className = ''
+}) => {
+    const [filter, setFilter] = useState<ActionFilter>('all');
+    const [isExpanded, setIsExpanded] = useState<boolean>(false);
+
+    const filtered = filter === 'all' ? actions : actions.filter(action => action.type === filter);
+    const visible = isExpanded ? filtered : filtered.slice(0, COLLAPSED_ROWS);
+    const today = new Date().toISOString().split('T')[0];
+
+    return (
+        <div className={`flex flex-col gap-3 text-sm ${className}`}>
+            <div className="flex items-center justify-between gap-2">
+                <h2 className="text-lg font-bold">Corporate Actions</h2>
+                <div className="flex gap-1">
+                    {(Object.keys(FILTER_LABELS) as ActionFilter[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setFilter(option)}
+                            className={`rounded px-2 py-0.5 text-xs ${filter === option ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300'}`}
+                        >
+                            {FILTER_LABELS[option]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {error && (
+                <div className="flex items-center justify-between rounded bg-red-100 px-2 py-1 text-xs text-red-800">
+                    <span>Error: {error}</span>
+                    {onRetry && <button onClick={onRetry} className="underline">Retry</button>}
+                </div>
+            )}
+
+            {!isAvailable ? (
+                <p className="text-xs text-muted-foreground">Corporate actions aren&apos;t available for {ticker || 'this ticker'} from the current data source.</p>
+            ) : isLoading ? (
+                <p className="text-xs text-muted-foreground">Loading splits and dividends...</p>
+            ) : filtered.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No {filter === 'all' ? 'splits or dividends' : FILTER_LABELS[filter].toLowerCase()} on record for {ticker}.</p>
+            ) : (
+                <ul className="divide-y divide-gray-800 rounded border">
+                    {visible.map((action, index) => (
+                        <li key={`${action.type}-${action.date}-${index}`} className="flex items-start justify-between gap-3 px-3 py-2">
+                            <div className="min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${TYPE_BADGES[action.type]}`}>
+                                        {action.type === 'split' ? 'Split' : 'Dividend'}
+                                    </span>
+                                    <span className="font-medium">{action.label}</span>
+                                    {action.date > today && <span className="text-xs text-yellow-500">Upcoming</span>}
+                                </div>
+                                <p className="mt-0.5 truncate text-xs text-muted-foreground">{describeDetails(action)}</p>
+                            </div>
+                            <span className="shrink-0 font-mono text-xs text-gray-400">{formatDate(action.date)}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {filtered.length > COLLAPSED_ROWS && (
+                <button onClick={() => setIsExpanded(!isExpanded)} className="self-start text-xs text-blue-400 hover:underline">
+                    {isExpanded ? 'Show fewer' : `Show all ${filtered.length}`}
+                </button>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+                Adjusted prices account for splits only; dividends are marked but not backed out of prices.
+            </p>
+        </div>
+    );
+};
+
+export default CorporateActionsPanel;
@@ -0,0 +1,234 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Line, LineChart } from 'recharts';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import useFundamentals, { FundamentalsTimeframe } from '@/hooks/useFundamentals';
+import {
+    FundamentalPeriod,
+    RATIO_DEFINITIONS,
+    STATEMENT_LABELS,
+    STATEMENT_LINES,
+    StatementKind,
+    ValueFormat,
+    computeValuation,
+    getStatementValue
+} from '@/lib/fundamentals';
+
+const TIMEFRAME_LABELS: Record<FundamentalsTimeframe, string> = {
+    quarterly: 'Quarterly',
+    annual: 'Annual'
+};
+
+const STATEMENT_KINDS = Object.keys(STATEMENT_LABELS) as StatementKind[];
+
+// Compact dollar amounts ($1.23B, $850.0M)
+const formatCurrency = (value: number): string => {
+    const abs = Math.abs(value);
+    const sign = value < 0 ? '-' : '';
+    if (abs >= 1e12) return `${sign}$${(abs / 1e12).toFixed(2)}T`;
+    if (abs >= 1e9) return `${sign}$${(abs / 1e9).toFixed(2)}B`;
+    if (abs >= 1e6) return `${sign}$${(abs / 1e6).toFixed(1)}M`;
+    if (abs >= 1e3) return `${sign}$${(abs / 1e3).toFixed(1)}K`;
+    return `${sign}$${abs.toFixed(0)}`;
+};
+
+const formatValue = (value: number | null, format: ValueFormat): string => {
+    if (value === null) return '—';
+    switch (format) {
+        case 'currency':
+            return formatCurrency(value);
+        case 'perShare':
+            return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+        case 'percent':
+            return `${(value * 100).toFixed(1)}%`;
+        case 'multiple':
+            return `${value.toFixed(2)}x`;
+    }
+};
+
+const TrendSparkline: React.FC<{ values: (number | null)[] }> = ({ values }) => {
+    // Oldest first, skipping periods the filing didn't report
+    const data = values.slice().reverse().map((value, index) => ({ index, value }));
+    const reported = values.filter((value): value is number => value !== null);
+    if (reported.length < 2) {
+        return <span className="text-xs text-muted-foreground">—</span>;
+    }
+
+    const isRising = reported[0] >= reported[reported.length - 1];
+    return (
+        <LineChart width={88} height={24} data={data}>
+            <Line
+                type="monotone"
+                dataKey="value"
+                stroke={isRising ? '#22c55e' : '#ef4444'}
+                strokeWidth={1.5}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+            />
+        </LineChart>
+    );
+};
+
+interface FundamentalsRow {
+    id: string;
+    label: string;
+    format: ValueFormat;
+    values: (number | null)[];
+    isTotal?: boolean;
+    description?: string;
+}
+
+const FundamentalsTable: React.FC<{ periods: FundamentalPeriod[]; rows: FundamentalsRow[] }> = ({ periods, rows }) => (
+    <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+            <thead>
+                <tr className="border-b text-muted-foreground">
+                    <th className="sticky left-0 bg-black py-1 pr-3 text-left font-medium">Item</th>
+                    <th className="px-2 py-1 text-left font-medium">Trend</th>
+                    {periods.map(period => (
+                        <th key={`${period.label}-${period.endDate}`} className="whitespace-nowrap px-2 py-1 text-right font-medium" title={`Period ended ${period.endDate}`}>
+                            {period.label}
+                        </th>
+                    ))}
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map(row => (
+                    <tr key={row.id} className="border-b border-gray-800">
+                        <td className={`sticky left-0 whitespace-nowrap bg-black py-1 pr-3 ${row.isTotal ? 'font-semibold' : ''}`} title={row.description}>
+                            {row.label}
+                        </td>
+                        <td className="px-2 py-1">
+                            <TrendSparkline values={row.values} />
+                        </td>
+                        {row.values.map((value, index) => (
+                            <td
+                                key={index}
+                                className={`whitespace-nowrap px-2 py-1 text-right font-mono ${row.isTotal ? 'font-semibold' : ''} ${value !== null && value < 0 ? 'text-red-500' : ''}`}
+                            >
+                                {formatValue(value, row.format)}
+                            </td>
+                        ))}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+interface FundamentalsPanelProps {
+    ticker: string;
+    // Latest price, for P/E
+    price?: number | null;
+    className?: string;
+}
+
+/**
+ * Reported income statement, balance sheet and cash flow for a stock by quarter or year, with
+ * derived ratios and a trend sparkline for every line. Lines a company doesn't report are hidden.
+ */
+const FundamentalsPanel: React.FC<FundamentalsPanelProps> = ({ ticker, price = null, className = '' }) => {
+    const [timeframe, setTimeframe] = useState<FundamentalsTimeframe>('quarterly');
+    const { periods, ratios, isAvailable, isLoading, error, refresh } = useFundamentals(ticker, timeframe);
+
+    const valuation = computeValuation(periods, price);
+    const latestRatios = ratios[0];
+
+    const statementRows = (kind: StatementKind): FundamentalsRow[] =>
+        STATEMENT_LINES[kind]
+            .map(line => ({
+                id: line.id,
+                label: line.label,
+                format: line.format,
+                isTotal: line.isTotal,
+                values: periods.map(period => getStatementValue(period.statements[kind], line.keys))
+            }))
+            .filter(row => row.values.some(value => value !== null));
+
+    const ratioRows: FundamentalsRow[] = RATIO_DEFINITIONS.map(definition => ({
+        id: definition.key,
+        label: definition.label,
+        format: definition.format,
+        description: definition.description,
+        values: ratios.map(periodRatios => periodRatios[definition.key])
+    }));
+
+    // Flag the rare filings where the trailing figures fall back to basic EPS
+    const basisNote = valuation.epsBasis === 'basic' ? ', basic' : '';
+    const headline = [
+        { label: `P/E (TTM${basisNote})`, value: formatValue(valuation.peRatio, 'multiple'), title: valuation.trailingLabel ?? undefined },
+        { label: `EPS (TTM${basisNote})`, value: formatValue(valuation.trailingEps, 'perShare'), title: valuation.trailingLabel ?? undefined },
+        { label: 'Net margin', value: formatValue(latestRatios?.netMargin ?? null, 'percent') },
+        { label: 'Revenue growth', value: formatValue(latestRatios?.revenueGrowth ?? null, 'percent') },
+        { label: 'Liabilities / equity', value: formatValue(latestRatios?.liabilitiesToEquity ?? null, 'multiple') }
+    ];
+
+    return (
+        <div className={`flex flex-col gap-3 text-sm ${className}`}>
+            <div className="flex items-center justify-between gap-2">
+                <h2 className="text-lg font-bold">Fundamentals</h2>
+                <div className="flex gap-1">
+                    {(Object.keys(TIMEFRAME_LABELS) as FundamentalsTimeframe[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setTimeframe(option)}
+                            className={`rounded px-2 py-0.5 text-xs ${timeframe === option ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300'}`}
+                        >
+                            {TIMEFRAME_LABELS[option]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {error && (
+                <div className="flex items-center justify-between rounded bg-red-100 px-2 py-1 text-xs text-red-800">
+                    <span>Error: {error}</span>
+                    <button onClick={refresh} className="underline">Retry</button>
+                </div>
+            )}
+
+            {!isAvailable ? (
+                <p className="text-xs text-muted-foreground">Financials aren&apos;t available for {ticker || 'this ticker'} from the current data source.</p>
+            ) : isLoading ? (
+                <p className="text-xs text-muted-foreground">Loading {TIMEFRAME_LABELS[timeframe].toLowerCase()} financials...</p>
+            ) : periods.length > 0 && (
+                <>
+                    <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+                        {headline.map(item => (
+                            <div key={item.label} title={item.title}>
+                                <span className="text-xs font-medium text-gray-500">{item.label}</span>
+                                <p className="font-mono">{item.value}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <Tabs defaultValue="income">
+                        <TabsList>
+                            {STATEMENT_KINDS.map(kind => (
+                                <TabsTrigger key={kind} value={kind}>{STATEMENT_LABELS[kind]}</TabsTrigger>
+                            ))}
+                            <TabsTrigger value="ratios">Ratios</TabsTrigger>
+                        </TabsList>
+                        {STATEMENT_KINDS.map(kind => (
+                            <TabsContent key={kind} value={kind}>
+                                <FundamentalsTable periods={periods} rows={statementRows(kind)} />
+                            </TabsContent>
+                        ))}
+                        <TabsContent value="ratios">
+                            <FundamentalsTable periods={periods} rows={ratioRows} />
+                        </TabsContent>
+                    </Tabs>
+
+                    <p className="text-xs text-muted-foreground">
+                        From SEC filings via Polygon.io; latest period {periods[0].label}
+                        {periods[0].filingDate ? `, filed ${periods[0].filingDate}` : ''}. Growth compares with the same period a year earlier.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default FundamentalsPanel;
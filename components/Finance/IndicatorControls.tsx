@@ -0,0 +1,116 @@
+'use client';
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+    INDICATOR_DEFINITIONS,
+    IndicatorConfig,
+    IndicatorType,
+    createIndicatorConfig,
+    formatIndicatorLabel,
+    normalizeIndicatorParams
+} from '@/lib/indicators';
+
+interface IndicatorControlsProps {
+    indicators: IndicatorConfig[];
+    onChange: (indicators: IndicatorConfig[]) => void;
+}
+
+const IndicatorControls: React.FC<IndicatorControlsProps> = ({ indicators, onChange }) => {
+    const handleAdd = (type: IndicatorType) => {
+        onChange([...indicators, createIndicatorConfig(type, indicators)]);
+    };
+
+    const handleRemove = (id: string) => {
+        onChange(indicators.filter(indicator => indicator.id !== id));
+    };
+
+    // Parameters are committed on blur / enter so each keystroke doesn't rebuild the series
+    const handleParamChange = (indicator: IndicatorConfig, key: string, value: string) => {
+        const params = normalizeIndicatorParams(indicator.type, { ...indicator.params, [key]: parseFloat(value) });
+        if (params[key] === indicator.params[key]) return;
+        onChange(indicators.map(item => (item.id === indicator.id ? { ...item, params } : item)));
+    };
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <button className="text-xs px-2 py-0.5 bg-gray-600 rounded">
+                    Indicators{indicators.length > 0 ? ` (${indicators.length})` : ''}
+                </button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-80 space-y-3">
+                {indicators.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No indicators on this chart.</p>
+                )}
+
+                {indicators.map(indicator => {
+                    const definition = INDICATOR_DEFINITIONS[indicator.type];
+                    return (
+                        <div key={indicator.id} className="space-y-2 border-b pb-3 last:border-b-0">
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-2 text-sm font-medium">
+                                    <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: indicator.color }} />
+                                    {formatIndicatorLabel(indicator)}
+                                    <span className="text-xs text-muted-foreground">
+                                        {definition.pane === 'price' ? 'Overlay' : 'Pane'}
+                                    </span>
+                                </div>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6 hover:text-red-500"
+                                    title="Remove indicator"
+                                    onClick={() => handleRemove(indicator.id)}
+                                >
+                                    <X className="h-4 w-4" />
+                                </Button>
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                                {definition.params.map(param => (
+                                    <label key={param.key} className="flex flex-col gap-1 text-xs text-muted-foreground">
+                                        {param.label}
+                                        <Input
+                                            key={`${indicator.id}-${param.key}-${indicator.params[param.key]}`}
+                                            type="number"
+                                            className="h-8 w-20"
+                                            min={param.min}
+                                            max={param.max}
+                                            step={param.step}
+                                            defaultValue={indicator.params[param.key]}
+                                            onBlur={e => handleParamChange(indicator, param.key, e.target.value)}
+                                            onKeyDown={e => {
+                                                if (e.key === 'Enter') {
+                                                    handleParamChange(indicator, param.key, e.currentTarget.value);
+                                                }
+                                            }}
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+
+                <Select value="" onValueChange={(value) => handleAdd(value as IndicatorType)}>
+                    <SelectTrigger>
+                        <SelectValue placeholder="Add indicator" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {Object.values(INDICATOR_DEFINITIONS).map(definition => (
+                            <SelectItem key={definition.type} value={definition.type}>
+                                {definition.name} ({definition.shortName})
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </PopoverContent>
+        </Popover>
+    );
+};
+
+export default IndicatorControls;
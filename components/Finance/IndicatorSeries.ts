@@ -0,0 +1,125 @@
+import {
+    BaseRenderableSeries,
+    FastColumnRenderableSeries,
+    FastLineRenderableSeries,
+    HorizontalLineAnnotation,
+    SciChartSurface,
+    TSciChart,
+    XyDataSeries
+} from 'scichart';
+import {
+    INDICATOR_DEFINITIONS,
+    IndicatorBar,
+    IndicatorCalculator,
+    IndicatorConfig,
+    IndicatorDefinition,
+    normalizeIndicatorParams
+} from '@/lib/indicators';
+
+// A candle on the chart: x is its index on the x-axis
+export interface ChartBar extends IndicatorBar {
+    index: number;
+}
+
+/**
+ * Draws one indicator on a SciChart surface and keeps it in step with the candle series.
+ * Mirrors the candle series operations: a point is appended when a candle opens, updated while it
+ * forms and committed to the calculator once it closes, so live trades never recompute the history.
+ */
+export class IndicatorSeries {
+    readonly definition: IndicatorDefinition;
+    private readonly calculator: IndicatorCalculator;
+    private readonly dataSeries: XyDataSeries[];
+    private readonly renderableSeries: BaseRenderableSeries[];
+    private readonly levels: HorizontalLineAnnotation[];
+
+    constructor(
+        wasmContext: TSciChart,
+        private readonly surface: SciChartSurface,
+        readonly config: IndicatorConfig
+    ) {
+        this.definition = INDICATOR_DEFINITIONS[config.type];
+        this.calculator = this.definition.create(normalizeIndicatorParams(config.type, config.params));
+
+        this.dataSeries = this.definition.outputs.map(output =>
+            new XyDataSeries(wasmContext, { dataSeriesName: output.label, containsNaN: true, isSorted: true })
+        );
+
+        this.renderableSeries = this.definition.outputs.map((output, i) => {
+            const color = output.color ?? config.color;
+            if (output.style === 'histogram') {
+                return new FastColumnRenderableSeries(wasmContext, {
+                    dataSeries: this.dataSeries[i],
+                    fill: color,
+                    stroke: color,
+                    dataPointWidth: 0.7
+                });
+            }
+            return new FastLineRenderableSeries(wasmContext, {
+                dataSeries: this.dataSeries[i],
+                stroke: color,
+                strokeThickness: 1.5,
+                strokeDashArray: output.style === 'dashed' ? [4, 4] : undefined
+            });
+        });
+        this.renderableSeries.forEach(series => surface.renderableSeries.add(series));
+
+        this.levels = (this.definition.levels ?? []).map(level =>
+            new HorizontalLineAnnotation({
+                y1: level,
+                stroke: '#888888',
+                strokeThickness: 1,
+                strokeDashArray: [2, 4]
+            })
+        );
+        this.levels.forEach(annotation => surface.annotations.add(annotation));
+    }
+
+    /**
+     * Catch up on candles already on the chart, e.g. after the indicator is added or its parameters change
+     */
+    load(closedBars: ChartBar[], formingBar: ChartBar | null) {
+        for (const bar of closedBars) {
+            this.write(bar.index, this.calculator.add(bar), true);
+        }
+        if (formingBar) {
+            this.append(formingBar);
+        }
+    }
+
+    /** A new candle has opened */
+    append(bar: ChartBar) {
+        this.write(bar.index, this.calculator.preview(bar), true);
+    }
+
+    /** The forming candle has a new trade */
+    updateLast(bar: ChartBar) {
+        this.write(bar.index, this.calculator.preview(bar), false);
+    }
+
+    /** The forming candle has closed: fold it into the calculator's history */
+    commitLast(bar: ChartBar) {
+        this.write(bar.index, this.calculator.add(bar), false);
+    }
+
+    /** Drop the oldest points, matching candles trimmed from the chart */
+    removeOldest(count: number) {
+        this.dataSeries.forEach(series => series.removeRange(0, Math.min(count, series.count())));
+    }
+
+    delete() {
+        // Deleting a renderable series also deletes its data series
+        this.renderableSeries.forEach(series => this.surface.renderableSeries.remove(series, true));
+        this.levels.forEach(annotation => this.surface.annotations.remove(annotation, true));
+    }
+
+    private write(x: number, values: number[], isNewPoint: boolean) {
+        this.dataSeries.forEach((series, i) => {
+            if (isNewPoint || series.count() === 0) {
+                series.append(x, values[i]);
+            } else {
+                series.update(series.count() - 1, values[i]);
+            }
+        });
+    }
+}
@@ -0,0 +1,476 @@
+'use client';
+
+import * as React from 'react';
+import {
+    CameraController,
+    EDrawMeshAs,
+    GradientColorPalette,
+    HeatmapColorMap,
+    HeatmapLegend,
+    MouseWheelZoomModifier3D,
+    NumberRange,
+    NumericAxis3D,
+    OrbitModifier3D,
+    ResetCamera3DModifier,
+    SciChart3DSurface,
+    SciChartSurface,
+    SurfaceMeshRenderableSeries3D,
+    TSciChart3D,
+    TooltipModifier3D,
+    UniformGridDataSeries3D,
+    Vector3
+} from 'scichart';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import useIvSurface from '@/hooks/useIvSurface';
+import { ExpirySmile, IvSurfaceGrid, SurfaceAxis, interpolateSmile } from '@/lib/options';
+
+// 3D charts and the 2D legend each need their WASM
+SciChart3DSurface.configure({ dataUrl: '/scichart3d.data', wasmUrl: '/scichart3d.wasm' });
+SciChartSurface.configure({ dataUrl: '/scichart2d.data', wasmUrl: '/scichart2d.wasm' });
+SciChartSurface.UseCommunityLicense();
+
+type SurfaceView = 'current' | 'previous' | 'change';
+
+const VIEW_LABELS: Record<SurfaceView, string> = {
+    current: 'Current',
+    previous: 'Previous close',
+    change: 'Change'
+};
+
+const AXIS_LABELS: Record<SurfaceAxis, string> = {
+    moneyness: 'Moneyness',
+    strike: 'Strike'
+};
+
+const MAX_DAYS_OPTIONS = [30, 90, 180, 365];
+
+// Low IV in cool colours, high in warm
+const LEVEL_STOPS = [
+    { offset: 0, color: '#0B1D51' },
+    { offset: 0.25, color: '#1F4E9C' },
+    { offset: 0.5, color: '#22A6B3' },
+    { offset: 0.75, color: '#F6E05E' },
+    { offset: 1, color: '#E53E3E' }
+];
+
+// Falling IV blue, unchanged grey, rising red
+const CHANGE_STOPS = [
+    { offset: 0, color: '#1F4E9C' },
+    { offset: 0.5, color: '#4A5568' },
+    { offset: 1, color: '#E53E3E' }
+];
+
+const chartConfig = {
+    current: {
+        label: 'Current',
+        color: 'hsl(var(--chart-1))'
+    },
+    previous: {
+        label: 'Previous close',
+        color: 'hsl(var(--chart-2))'
+    }
+} satisfies ChartConfig;
+
+interface SurfaceHandles {
+    surface: SciChart3DSurface;
+    wasmContext: TSciChart3D;
+    dataSeries: UniformGridDataSeries3D;
+    series: SurfaceMeshRenderableSeries3D;
+    colorMap: HeatmapColorMap;
+    legend: HeatmapLegend | null;
+}
+
+interface SlicePoint {
+    x: number;
+    current?: number;
+    previous?: number;
+}
+
+const formatX = (value: number, axis: SurfaceAxis): string =>
+    axis === 'moneyness' ? value.toFixed(2) : value.toFixed(0);
+
+const formatExpiration = (date: string): string =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', month: 'short', day: 'numeric', year: '2-digit' });
+
+// One expiration's quoted smile beside the previous session's, in IV percent
+const toSmileSlice = (current?: ExpirySmile, previous?: ExpirySmile): SlicePoint[] => {
+    const points = new Map<number, SlicePoint>();
+    current?.points.forEach(point => points.set(point.x, { x: point.x, current: point.iv * 100 }));
+    previous?.points.forEach(point => points.set(point.x, { ...points.get(point.x), x: point.x, previous: point.iv * 100 }));
+    return Array.from(points.values()).sort((a, b) => a.x - b.x);
+};
+
+// IV at one strike or moneyness across expirations, in IV percent
+const toTermSlice = (x: number, current: ExpirySmile[], previous: ExpirySmile[]): SlicePoint[] => {
+    const points = new Map<string, SlicePoint>();
+    current.forEach(smile => points.set(smile.expiration, { x: smile.daysToExpiry, current: interpolateSmile(smile.points, x) * 100 }));
+    // The previous session's days to expiry are a day longer; plot them against today's count
+    previous.forEach(smile => {
+        const existing = points.get(smile.expiration);
+        if (existing) existing.previous = interpolateSmile(smile.points, x) * 100;
+    });
+    return Array.from(points.values()).sort((a, b) => a.x - b.x);
+};
+
+const SliceChart: React.FC<{ data: SlicePoint[]; xLabel: string; formatTick: (value: number) => string }> = ({ data, xLabel, formatTick }) => (
+    <ChartContainer config={chartConfig} className="h-[220px] w-full aspect-auto">
+        <LineChart data={data} margin={{ left: 8, right: 8, bottom: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+                dataKey="x"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={formatTick}
+                label={{ value: xLabel, position: 'insideBottom', offset: -4, fontSize: 11 }}
+            />
+            <YAxis tickLine={false} axisLine={false} width={40} domain={['auto', 'auto']} tickFormatter={(value: number) => `${value.toFixed(0)}%`} />
+            <ChartTooltip
+                content={
+                    <ChartTooltipContent
+                        labelFormatter={(_, payload) => `${xLabel} ${formatTick(Number(payload?.[0]?.payload?.x))}`}
+                        formatter={(value, name) => (
+                            <div className="flex w-full justify-between gap-4">
+                                <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label ?? name}</span>
+                                <span className="font-mono font-medium">{Number(value).toFixed(1)}%</span>
+                            </div>
+                        )}
+                    />
+                }
+            />
+            <Line dataKey="previous" type="monotone" stroke="var(--color-previous)" strokeDasharray="4 3" dot={false} connectNulls isAnimationActive={false} />
+            <Line dataKey="current" type="monotone" stroke="var(--color-current)" strokeWidth={2} dot={{ r: 2 }} connectNulls isAnimationActive={false} />
+            <ChartLegend content={<ChartLegendContent />} />
+        </LineChart>
+    </ChartContainer>
+);
+
+interface IvSurfaceChartProps {
+    underlying: string;
+    rate?: number;
+    dividendYield?: number;
+    className?: string;
+}
+
+/**
+ * Implied volatility surface for an underlying: X is strike or moneyness, Z is days to expiry
+ * and height is IV, interpolated from the listed chain onto a uniform grid. It can show the
+ * previous session's surface or the change since, with smile and term structure slices below.
+ */
+const IvSurfaceChart: React.FC<IvSurfaceChartProps> = ({ underlying, rate, dividendYield, className = '' }) => {
+    const chartRef = React.useRef<HTMLDivElement>(null);
+    const legendRef = React.useRef<HTMLDivElement>(null);
+    const handlesRef = React.useRef<SurfaceHandles | null>(null);
+
+    const [chartError, setChartError] = React.useState<string | null>(null);
+    const [isChartReady, setIsChartReady] = React.useState(false);
+    const [axis, setAxis] = React.useState<SurfaceAxis>('moneyness');
+    const [view, setView] = React.useState<SurfaceView>('current');
+    const [maxDays, setMaxDays] = React.useState<number>(180);
+    const [sliceExpiration, setSliceExpiration] = React.useState<string | null>(null);
+    const [termX, setTermX] = React.useState<string>('');
+
+    const {
+        smiles,
+        previousSmiles,
+        surface,
+        previousSurface,
+        change,
+        spot,
+        isTruncated,
+        lastUpdated,
+        isAvailable,
+        isLoading,
+        error,
+        refresh
+    } = useIvSurface(underlying, { axis, maxDays, rate, dividendYield });
+
+    const grid: IvSurfaceGrid | null = view === 'current' ? surface : view === 'previous' ? previousSurface : change;
+
+    // Build the surface once; each grid is pushed into it below
+    React.useEffect(() => {
+        if (!chartRef.current || !isAvailable) return;
+
+        let isCancelled = false;
+        setIsChartReady(false);
+        setChartError(null);
+
+        const init = async () => {
+            const { sciChart3DSurface, wasmContext } = await SciChart3DSurface.create(chartRef.current!);
+            if (isCancelled) {
+                sciChart3DSurface.delete();
+                return;
+            }
+
+            sciChart3DSurface.camera = new CameraController(wasmContext, {
+                position: new Vector3(-250, 220, -250),
+                target: new Vector3(0, 50, 0)
+            });
+            sciChart3DSurface.worldDimensions = new Vector3(200, 100, 200);
+            sciChart3DSurface.background = 'Transparent';
+
+            sciChart3DSurface.xAxis = new NumericAxis3D(wasmContext, { axisTitle: AXIS_LABELS.moneyness });
+            sciChart3DSurface.yAxis = new NumericAxis3D(wasmContext, { axisTitle: 'Implied vol (%)' });
+            sciChart3DSurface.zAxis = new NumericAxis3D(wasmContext, { axisTitle: 'Days to expiry' });
+
+            const dataSeries = new UniformGridDataSeries3D(wasmContext, {
+                yValues: [[0, 0], [0, 0]],
+                xStart: 0,
+                xStep: 1,
+                zStart: 0,
+                zStep: 1,
+                dataSeriesName: 'Implied vol (%)'
+            });
+
+            const series = new SurfaceMeshRenderableSeries3D(wasmContext, {
+                dataSeries,
+                minimum: 0,
+                maximum: 1,
+                opacity: 0.95,
+                cellHardnessFactor: 1.0,
+                shininess: 0,
+                lightingFactor: 0.6,
+                stroke: '#FFFFFF33',
+                strokeThickness: 1.0,
+                drawSkirt: false,
+                drawMeshAs: EDrawMeshAs.SOLID_WIREFRAME,
+                meshColorPalette: new GradientColorPalette(wasmContext, { gradientStops: LEVEL_STOPS })
+            });
+            sciChart3DSurface.renderableSeries.add(series);
+
+            sciChart3DSurface.chartModifiers.add(new MouseWheelZoomModifier3D());
+            sciChart3DSurface.chartModifiers.add(new OrbitModifier3D());
+            sciChart3DSurface.chartModifiers.add(new ResetCamera3DModifier());
+            sciChart3DSurface.chartModifiers.add(new TooltipModifier3D({ tooltipContainerBackground: '#333333' }));
+
+            const colorMap = new HeatmapColorMap({ minimum: 0, maximum: 1, gradientStops: LEVEL_STOPS });
+            let legend: HeatmapLegend | null = null;
+            if (legendRef.current) {
+                try {
+                    ({ heatmapLegend: legend } = await HeatmapLegend.create(legendRef.current, {
+                        colorMap,
+                        yAxisOptions: {
+                            isInnerAxis: true,
+                            labelStyle: { fontSize: 12, color: '#FFFFFF' },
+                            axisBorder: { borderRight: 1, color: '#FFFFFF77' }
+                        }
+                    }));
+                } catch (legendErr) {
+                    console.warn('Non-critical error creating IV surface legend:', legendErr);
+                }
+            }
+
+            if (isCancelled) {
+                legend?.delete();
+                sciChart3DSurface.delete();
+                return;
+            }
+
+            handlesRef.current = { surface: sciChart3DSurface, wasmContext, dataSeries, series, colorMap, legend };
+            setIsChartReady(true);
+        };
+
+        init().catch(err => {
+            console.error('Failed to initialize IV surface:', err);
+            setChartError(err instanceof Error ? err.message : 'Failed to load SciChart');
+        });
+
+        return () => {
+            isCancelled = true;
+            const handles = handlesRef.current;
+            handlesRef.current = null;
+            try {
+                handles?.legend?.delete();
+                handles?.surface.delete();
+            } catch (e) {
+                console.error('Error cleaning up IV surface:', e);
+            }
+        };
+    }, [isAvailable]);
+
+    // Push the selected grid into the surface, in IV points, and rescale axes and colours to it
+    React.useEffect(() => {
+        const handles = handlesRef.current;
+        if (!isChartReady || !handles || !grid || grid.xValues.length < 2 || grid.daysValues.length < 2) return;
+
+        const { xValues, daysValues } = grid;
+        handles.dataSeries.setYValues(grid.iv.map(row => row.map(value => value * 100)));
+        handles.dataSeries.xStart = xValues[0];
+        handles.dataSeries.xStep = xValues[1] - xValues[0];
+        handles.dataSeries.zStart = daysValues[0];
+        handles.dataSeries.zStep = daysValues[1] - daysValues[0];
+
+        // Changes are coloured symmetrically about zero so no change is always the middle colour
+        let minimum = grid.minIv * 100;
+        let maximum = grid.maxIv * 100;
+        if (view === 'change') {
+            const extent = Math.max(Math.abs(minimum), Math.abs(maximum), 0.1);
+            minimum = -extent;
+            maximum = extent;
+        } else if (maximum - minimum < 0.1) {
+            maximum = minimum + 0.1;
+        }
+        const stops = view === 'change' ? CHANGE_STOPS : LEVEL_STOPS;
+
+        handles.series.meshColorPalette = new GradientColorPalette(handles.wasmContext, { gradientStops: stops });
+        handles.series.minimum = minimum;
+        handles.series.maximum = maximum;
+        handles.colorMap.gradientStops = stops;
+        handles.colorMap.minimum = minimum;
+        handles.colorMap.maximum = maximum;
+
+        const padding = (maximum - minimum) * 0.05;
+        handles.surface.xAxis.axisTitle = AXIS_LABELS[grid.axis];
+        handles.surface.xAxis.visibleRange = new NumberRange(xValues[0], xValues[xValues.length - 1]);
+        handles.surface.xAxis.labelProvider.formatLabel = (value: number) => formatX(value, grid.axis);
+        handles.surface.yAxis.axisTitle = view === 'change' ? 'IV change (pts)' : 'Implied vol (%)';
+        handles.surface.yAxis.visibleRange = new NumberRange(minimum - padding, maximum + padding);
+        handles.surface.zAxis.visibleRange = new NumberRange(daysValues[0], daysValues[daysValues.length - 1]);
+    }, [grid, view, isChartReady]);
+
+    // Default the slices to the nearest expiration and the money
+    const selectedSmile = smiles.find(smile => smile.expiration === sliceExpiration) ?? smiles[0];
+    const atmX = axis === 'moneyness' ? 1 : spot ?? 0;
+    const parsedTermX = parseFloat(termX);
+    const termAt = Number.isFinite(parsedTermX) && parsedTermX > 0 ? parsedTermX : atmX;
+
+    const smileSlice = toSmileSlice(
+        selectedSmile,
+        previousSmiles.find(smile => smile.expiration === selectedSmile?.expiration)
+    );
+    const termSlice = toTermSlice(termAt, smiles, previousSmiles);
+
+    if (!isAvailable) {
+        return (
+            <div className={`text-sm text-muted-foreground ${className}`}>
+                Options aren&apos;t available for {underlying || 'this ticker'} from the current data source.
+            </div>
+        );
+    }
+
+    const effectiveError = chartError || error;
+
+    return (
+        <div className={`flex flex-col gap-3 text-sm ${className}`}>
+            {/* Controls */}
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-3">
+                    <span className="text-lg font-bold">{underlying.toUpperCase()} IV surface</span>
+                    <span className="font-mono">{spot !== null ? `$${spot.toFixed(2)}` : '—'}</span>
+                    {lastUpdated && (
+                        <span className="text-xs text-muted-foreground">Updated {new Date(lastUpdated).toLocaleTimeString()}</span>
+                    )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <div className="flex gap-1">
+                        {(Object.keys(AXIS_LABELS) as SurfaceAxis[]).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => {
+                                    setAxis(option);
+                                    setTermX('');
+                                }}
+                                className={`rounded px-2 py-0.5 ${axis === option ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300'}`}
+                            >
+                                {AXIS_LABELS[option]}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex gap-1">
+                        {(Object.keys(VIEW_LABELS) as SurfaceView[]).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setView(option)}
+                                className={`rounded px-2 py-0.5 ${view === option ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300'}`}
+                            >
+                                {VIEW_LABELS[option]}
+                            </button>
+                        ))}
+                    </div>
+                    <select value={maxDays} onChange={(e) => setMaxDays(Number(e.target.value))} className="rounded border bg-background p-1 text-foreground">
+                        {MAX_DAYS_OPTIONS.map(days => (
+                            <option key={days} value={days}>≤ {days} days</option>
+                        ))}
+                    </select>
+                    <button onClick={refresh} disabled={isLoading} className="rounded bg-gray-700 px-2 py-0.5 text-white disabled:opacity-50">
+                        {isLoading ? 'Loading...' : 'Refresh'}
+                    </button>
+                </div>
+            </div>
+
+            {isTruncated && (
+                <div className="rounded bg-yellow-100 px-2 py-1 text-xs text-yellow-800">
+                    The chain has more contracts than could be loaded; shorten the expiry range to cover every strike.
+                </div>
+            )}
+
+            {/* Surface */}
+            <div className="relative h-[400px] w-full">
+                {!grid && !effectiveError && (
+                    <div className="absolute top-2 left-2 z-10 rounded-md bg-black bg-opacity-70 px-3 py-1 text-xs text-white">
+                        {isLoading
+                            ? 'Loading options chain...'
+                            : view === 'current' ? 'Not enough quoted strikes to build a surface' : 'No previous-session prices to compare against'}
+                    </div>
+                )}
+
+                {effectiveError && (
+                    <div className="absolute top-1/2 left-0 right-0 z-10 -translate-y-1/2 bg-red-100 bg-opacity-10 p-4 text-center text-red-500">
+                        Error: {effectiveError}
+                    </div>
+                )}
+
+                <div ref={chartRef} className="h-full w-full" />
+                <div ref={legendRef} className="absolute top-0 right-3 z-5 h-full w-16" />
+            </div>
+
+            {/* Slices */}
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                <div className="flex flex-col gap-1">
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                        <span className="font-semibold">Smile</span>
+                        <select
+                            value={selectedSmile?.expiration ?? ''}
+                            onChange={(e) => setSliceExpiration(e.target.value)}
+                            className="rounded border bg-background p-1 text-foreground"
+                        >
+                            {smiles.map(smile => (
+                                <option key={smile.expiration} value={smile.expiration}>
+                                    {formatExpiration(smile.expiration)} ({Math.round(smile.daysToExpiry)}d)
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <SliceChart data={smileSlice} xLabel={AXIS_LABELS[axis]} formatTick={(value) => formatX(value, axis)} />
+                </div>
+                <div className="flex flex-col gap-1">
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                        <span className="font-semibold">Term structure</span>
+                        <label className="flex items-center gap-1 text-muted-foreground">
+                            at {AXIS_LABELS[axis].toLowerCase()}
+                            <input
+                                type="number"
+                                min={0}
+                                step={axis === 'moneyness' ? 0.05 : 1}
+                                value={termX}
+                                onChange={(e) => setTermX(e.target.value)}
+                                placeholder={formatX(atmX, axis)}
+                                className="w-20 rounded border bg-background p-1 text-foreground"
+                            />
+                        </label>
+                    </div>
+                    <SliceChart data={termSlice} xLabel="Days to expiry" formatTick={(value) => value.toFixed(0)} />
+                </div>
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+                Out-of-the-money IVs per expiration, linear across strikes and in total variance between expirations;
+                the previous session is backed out of each contract&apos;s prior close. Slices use the quoted smiles rather than the grid.
+            </div>
+        </div>
+    );
+};
+
+export default IvSurfaceChart;
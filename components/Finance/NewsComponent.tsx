@@ -1,8 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-
-// API Key constant
-const API_KEY = process.env.NEXT_PUBLIC_POLYGON_API_KEY;
+import { getMarketDataProvider } from '@/lib/market-data';
 
 // Interface for the news article
 interface NewsArticle {
@@ -46,18 +44,7 @@ const NewsComponent: React.FC<{ ticker: string }> = ({ ticker }) => {
             setError(null);
 
             try {
-                const response = await fetch(`https://api.polygon.io/v2/reference/news?ticker=${ticker}&limit=5&apiKey=${API_KEY}`, {
-                    method: 'GET',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    }
-                });
-
-                if (!response.ok) {
-                    throw new Error('Failed to fetch news');
-                }
-
-                const data = await response.json();
+                const data = await getMarketDataProvider().getNews(ticker, 5);
                 setNews(data.results || []);
             } catch (err) {
                 setError(err instanceof Error ? err.message : 'An unknown error occurred');
@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import useOptionsChain from '@/hooks/useOptionsChain';
+import { ChainRow, MoneynessFilter, OptionQuote, ValueSource, filterChain } from '@/lib/options';
+
+type SideFilter = 'both' | 'call' | 'put';
+
+const MONEYNESS_LABELS: Record<MoneynessFilter, string> = {
+    near: 'Near the money',
+    all: 'All strikes',
+    itm: 'Calls ITM (strike ≤ spot)',
+    otm: 'Calls OTM (strike ≥ spot)'
+};
+
+const SIDE_LABELS: Record<SideFilter, string> = {
+    both: 'Calls & Puts',
+    call: 'Calls',
+    put: 'Puts'
+};
+
+interface QuoteColumn {
+    id: string;
+    label: string;
+    title: string;
+    render: (quote: OptionQuote) => React.ReactNode;
+}
+
+const formatPrice = (value: number | null): string => (value === null ? '—' : value.toFixed(2));
+
+const formatCount = (value: number | null): string => (value === null ? '—' : value.toLocaleString());
+
+const formatGreek = (value: number | undefined, digits: number): string =>
+    value === undefined ? '—' : value.toFixed(digits);
+
+// Figures our Black-Scholes model filled in are marked, like inferred sides on the tape
+const Modelled: React.FC<{ source: ValueSource | null; children: React.ReactNode }> = ({ source, children }) => (
+    <span title={source === 'model' ? 'Computed locally with Black-Scholes' : undefined}>
+        {children}
+        {source === 'model' && <span className="opacity-50">*</span>}
+    </span>
+);
+
+const QUOTE_COLUMNS: QuoteColumn[] = [
+    { id: 'bid', label: 'Bid', title: 'Best bid', render: quote => formatPrice(quote.bid) },
+    { id: 'ask', label: 'Ask', title: 'Best ask', render: quote => formatPrice(quote.ask) },
+    { id: 'theo', label: 'Theo', title: 'Black-Scholes value at the contract\'s IV', render: quote => formatPrice(quote.theoreticalValue) },
+    { id: 'volume', label: 'Vol', title: 'Contracts traded today', render: quote => formatCount(quote.volume) },
+    { id: 'oi', label: 'OI', title: 'Open interest', render: quote => formatCount(quote.openInterest) },
+    {
+        id: 'iv',
+        label: 'IV',
+        title: 'Implied volatility',
+        render: quote => <Modelled source={quote.ivSource}>{quote.iv === null ? '—' : `${(quote.iv * 100).toFixed(1)}%`}</Modelled>
+    },
+    { id: 'delta', label: 'Δ', title: 'Delta', render: quote => <Modelled source={quote.greeksSource}>{formatGreek(quote.greeks?.delta, 3)}</Modelled> },
+    { id: 'gamma', label: 'Γ', title: 'Gamma', render: quote => <Modelled source={quote.greeksSource}>{formatGreek(quote.greeks?.gamma, 4)}</Modelled> },
+    { id: 'theta', label: 'Θ', title: 'Theta per day', render: quote => <Modelled source={quote.greeksSource}>{formatGreek(quote.greeks?.theta, 3)}</Modelled> },
+    { id: 'vega', label: 'Vega', title: 'Vega per volatility point', render: quote => <Modelled source={quote.greeksSource}>{formatGreek(quote.greeks?.vega, 3)}</Modelled> }
+];
+
+// Calls read right to left towards the strike column
+const CALL_COLUMNS = QUOTE_COLUMNS.slice().reverse();
+
+const QuoteCells: React.FC<{ quote?: OptionQuote; columns: QuoteColumn[] }> = ({ quote, columns }) => (
+    <>
+        {columns.map(column => (
+            <td
+                key={column.id}
+                className={`whitespace-nowrap px-2 py-1 text-right font-mono ${quote?.moneyness === 'itm' ? 'bg-blue-500/10' : ''}`}
+            >
+                {quote ? column.render(quote) : ''}
+            </td>
+        ))}
+    </>
+);
+
+const parseNumber = (value: string): number | undefined => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+interface OptionsChainProps {
+    underlying: string;
+    className?: string;
+}
+
+/**
+ * Options chain for one underlying: expiry tabs, then calls and puts either side of the strike
+ * with quotes, volume, open interest, IV and greeks. Values the feed doesn't supply are filled
+ * from a local Black-Scholes model and marked with an asterisk; in-the-money cells are shaded.
+ */
+const OptionsChain: React.FC<OptionsChainProps> = ({ underlying, className = '' }) => {
+    const [moneyness, setMoneyness] = useState<MoneynessFilter>('near');
+    const [side, setSide] = useState<SideFilter>('both');
+    const [strikeMin, setStrikeMin] = useState<string>('');
+    const [strikeMax, setStrikeMax] = useState<string>('');
+    const [ratePercent, setRatePercent] = useState<string>('4.5');
+    const [yieldPercent, setYieldPercent] = useState<string>('0');
+
+    const { expirations, expiration, setExpiration, rows, spot, isTruncated, lastUpdated, isAvailable, isLoading, error, refresh } =
+        useOptionsChain(underlying, {
+            rate: (parseNumber(ratePercent) ?? 0) / 100,
+            dividendYield: (parseNumber(yieldPercent) ?? 0) / 100
+        });
+
+    const visibleRows = useMemo<ChainRow[]>(
+        () => filterChain(rows, spot ?? 0, { moneyness, strikeMin: parseNumber(strikeMin), strikeMax: parseNumber(strikeMax) }),
+        [rows, spot, moneyness, strikeMin, strikeMax]
+    );
+
+    const showCalls = side !== 'put';
+    const showPuts = side !== 'call';
+    const hasModelledValues = visibleRows.some(row =>
+        [row.call, row.put].some(quote => quote?.ivSource === 'model' || quote?.greeksSource === 'model'));
+
+    if (!isAvailable) {
+        return (
+            <div className={`text-sm text-muted-foreground ${className}`}>
+                Options aren&apos;t available for {underlying || 'this ticker'} from the current data source.
+            </div>
+        );
+    }
+
+    return (
+        <div className={`flex flex-col gap-3 text-sm ${className}`}>
+            {/* Underlying and refresh */}
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-3">
+                    <span className="text-lg font-bold">{underlying.toUpperCase()}</span>
+                    <span className="font-mono">{spot !== null ? `$${spot.toFixed(2)}` : '—'}</span>
+                    {lastUpdated && (
+                        <span className="text-xs text-muted-foreground">Updated {new Date(lastUpdated).toLocaleTimeString()}</span>
+                    )}
+                </div>
+                <button onClick={refresh} disabled={isLoading} className="rounded bg-gray-700 px-2 py-0.5 text-xs text-white disabled:opacity-50">
+                    {isLoading ? 'Loading...' : 'Refresh'}
+                </button>
+            </div>
+
+            {/* Expiry tabs */}
+            <div className="flex gap-1 overflow-x-auto pb-1">
+                {expirations.map(date => (
+                    <button
+                        key={date}
+                        onClick={() => setExpiration(date)}
+                        className={`whitespace-nowrap rounded px-2 py-1 text-xs ${date === expiration ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300'}`}
+                    >
+                        {new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC', month: 'short', day: 'numeric', year: '2-digit' })}
+                    </button>
+                ))}
+            </div>
+
+            {/* Filters */}
+            <div className="grid grid-cols-2 gap-2 text-xs md:grid-cols-6">
+                <label className="flex flex-col gap-0.5 text-muted-foreground">
+                    Moneyness
+                    <select value={moneyness} onChange={(e) => setMoneyness(e.target.value as MoneynessFilter)} className="rounded border bg-background p-1 text-foreground">
+                        {(Object.keys(MONEYNESS_LABELS) as MoneynessFilter[]).map(option => (
+                            <option key={option} value={option}>{MONEYNESS_LABELS[option]}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-0.5 text-muted-foreground">
+                    Show
+                    <select value={side} onChange={(e) => setSide(e.target.value as SideFilter)} className="rounded border bg-background p-1 text-foreground">
+                        {(Object.keys(SIDE_LABELS) as SideFilter[]).map(option => (
+                            <option key={option} value={option}>{SIDE_LABELS[option]}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-0.5 text-muted-foreground">
+                    Min strike
+                    <input type="number" min={0} value={strikeMin} onChange={(e) => setStrikeMin(e.target.value)} placeholder="Any" className="rounded border bg-background p-1 text-foreground" />
+                </label>
+                <label className="flex flex-col gap-0.5 text-muted-foreground">
+                    Max strike
+                    <input type="number" min={0} value={strikeMax} onChange={(e) => setStrikeMax(e.target.value)} placeholder="Any" className="rounded border bg-background p-1 text-foreground" />
+                </label>
+                <label className="flex flex-col gap-0.5 text-muted-foreground">
+                    Risk-free rate (%)
+                    <input type="number" step={0.1} value={ratePercent} onChange={(e) => setRatePercent(e.target.value)} className="rounded border bg-background p-1 text-foreground" />
+                </label>
+                <label className="flex flex-col gap-0.5 text-muted-foreground">
+                    Dividend yield (%)
+                    <input type="number" step={0.1} min={0} value={yieldPercent} onChange={(e) => setYieldPercent(e.target.value)} className="rounded border bg-background p-1 text-foreground" />
+                </label>
+            </div>
+
+            {error && (
+                <div className="flex items-center justify-between rounded bg-red-100 px-2 py-1 text-xs text-red-800">
+                    <span>Error: {error}</span>
+                    <button onClick={refresh} className="underline">Retry</button>
+                </div>
+            )}
+
+            {isTruncated && (
+                <div className="rounded bg-yellow-100 px-2 py-1 text-xs text-yellow-800">
+                    This expiration has more contracts than could be loaded; narrow the strike range to see the rest.
+                </div>
+            )}
+
+            {/* Chain */}
+            <div className="overflow-x-auto rounded border">
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="border-b text-muted-foreground">
+                            {showCalls && <th colSpan={CALL_COLUMNS.length} className="py-1 text-center font-semibold text-green-500">Calls</th>}
+                            <th className="py-1" />
+                            {showPuts && <th colSpan={QUOTE_COLUMNS.length} className="py-1 text-center font-semibold text-red-500">Puts</th>}
+                        </tr>
+                        <tr className="border-b text-muted-foreground">
+                            {showCalls && CALL_COLUMNS.map(column => (
+                                <th key={column.id} title={column.title} className="px-2 py-1 text-right font-medium">{column.label}</th>
+                            ))}
+                            <th className="bg-gray-900 px-3 py-1 text-center font-medium">Strike</th>
+                            {showPuts && QUOTE_COLUMNS.map(column => (
+                                <th key={column.id} title={column.title} className="px-2 py-1 text-right font-medium">{column.label}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {visibleRows.length === 0 ? (
+                            <tr>
+                                <td colSpan={QUOTE_COLUMNS.length * 2 + 1} className="p-4 text-center text-muted-foreground">
+                                    {isLoading ? 'Loading chain...' : 'No contracts match the filters'}
+                                </td>
+                            </tr>
+                        ) : (
+                            visibleRows.map(row => (
+                                <tr key={row.strike} className={`border-b border-gray-800 ${row.isAtm ? 'border-y-2 border-y-yellow-500/60' : ''}`}>
+                                    {showCalls && <QuoteCells quote={row.call} columns={CALL_COLUMNS} />}
+                                    <td className={`bg-gray-900 px-3 py-1 text-center font-mono font-semibold ${row.isAtm ? 'text-yellow-400' : ''}`}>
+                                        {row.strike.toFixed(2)}
+                                    </td>
+                                    {showPuts && <QuoteCells quote={row.put} columns={QUOTE_COLUMNS} />}
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+                {visibleRows.length} of {rows.length} strikes · shaded cells are in the money · highlighted strike is nearest the underlying
+                {hasModelledValues && ' · * computed locally with Black-Scholes'}
+            </div>
+        </div>
+    );
+};
+
+export default OptionsChain;
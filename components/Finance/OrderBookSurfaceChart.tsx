@@ -0,0 +1,238 @@
+'use client';
+
+import * as React from 'react';
+import {
+    CameraController,
+    EDrawMeshAs,
+    GradientColorPalette,
+    HeatmapColorMap,
+    HeatmapLegend,
+    MouseWheelZoomModifier3D,
+    NumberRange,
+    NumericAxis3D,
+    OrbitModifier3D,
+    ResetCamera3DModifier,
+    SciChart3DSurface,
+    SciChartSurface,
+    SurfaceMeshRenderableSeries3D,
+    TooltipModifier3D,
+    UniformGridDataSeries3D,
+    Vector3
+} from 'scichart';
+import useDepthHistory from '@/hooks/useDepthHistory';
+
+// 3D charts and the 2D legend each need their WASM
+SciChart3DSurface.configure({ dataUrl: '/scichart3d.data', wasmUrl: '/scichart3d.wasm' });
+SciChartSurface.configure({ dataUrl: '/scichart2d.data', wasmUrl: '/scichart2d.wasm' });
+SciChartSurface.UseCommunityLicense();
+
+// Heatmap from thin (dark blue) to walls (red)
+const GRADIENT_STOPS = [
+    { offset: 0, color: '#0B1D51' },
+    { offset: 0.2, color: '#1F4E9C' },
+    { offset: 0.45, color: '#22A6B3' },
+    { offset: 0.7, color: '#F6E05E' },
+    { offset: 1, color: '#E53E3E' }
+];
+
+interface SurfaceHandles {
+    surface: SciChart3DSurface;
+    dataSeries: UniformGridDataSeries3D;
+    series: SurfaceMeshRenderableSeries3D;
+    colorMap: HeatmapColorMap;
+    legend: HeatmapLegend | null;
+}
+
+interface OrderBookSurfaceChartProps {
+    ticker: string;
+    // Samples kept on the time axis
+    windowSize?: number;
+    sampleIntervalMs?: number;
+    // Distance from the mid shown on each side, in basis points
+    rangeBps?: number;
+    binCount?: number;
+}
+
+/**
+ * Liquidity over time as a 3D surface: X is distance from the mid, Z is time (newest at the
+ * front) and height is resting size, coloured as a heatmap. Built from a rolling window of
+ * level 2 samples, so walls being stacked or pulled show up as ridges appearing or vanishing.
+ */
+export default function OrderBookSurfaceChart({
+    ticker,
+    windowSize = 60,
+    sampleIntervalMs = 1000,
+    rangeBps = 50,
+    binCount = 40
+}: OrderBookSurfaceChartProps) {
+    const chartRef = React.useRef<HTMLDivElement>(null);
+    const legendRef = React.useRef<HTMLDivElement>(null);
+    const handlesRef = React.useRef<SurfaceHandles | null>(null);
+
+    const [chartError, setChartError] = React.useState<string | null>(null);
+    const [isChartReady, setIsChartReady] = React.useState(false);
+
+    const { status, error, productId, isSynced, grid, maxSize, sampleCount, mid } = useDepthHistory(ticker, {
+        binCount,
+        rangeBps,
+        windowSize,
+        sampleIntervalMs
+    });
+
+    // Build the surface once per grid shape; samples are pushed into it below
+    React.useEffect(() => {
+        if (!chartRef.current) return;
+
+        let isCancelled = false;
+        setIsChartReady(false);
+        setChartError(null);
+
+        const binWidth = rangeBps / binCount;
+        const sampleSeconds = sampleIntervalMs / 1000;
+
+        const init = async () => {
+            const { sciChart3DSurface, wasmContext } = await SciChart3DSurface.create(chartRef.current!);
+            if (isCancelled) {
+                sciChart3DSurface.delete();
+                return;
+            }
+
+            sciChart3DSurface.camera = new CameraController(wasmContext, {
+                position: new Vector3(-250, 220, -250),
+                target: new Vector3(0, 50, 0)
+            });
+            sciChart3DSurface.worldDimensions = new Vector3(200, 100, 200);
+            sciChart3DSurface.background = 'Transparent';
+
+            sciChart3DSurface.xAxis = new NumericAxis3D(wasmContext, {
+                axisTitle: 'Distance from mid (bps)',
+                visibleRange: new NumberRange(-rangeBps, rangeBps)
+            });
+            sciChart3DSurface.yAxis = new NumericAxis3D(wasmContext, {
+                axisTitle: 'Resting size',
+                visibleRange: new NumberRange(0, 1)
+            });
+            sciChart3DSurface.zAxis = new NumericAxis3D(wasmContext, {
+                axisTitle: 'Seconds ago',
+                visibleRange: new NumberRange(-(windowSize - 1) * sampleSeconds, 0)
+            });
+            sciChart3DSurface.zAxis.labelProvider.formatLabel = (value: number) => `${Math.abs(Math.round(value))}`;
+
+            // Bucket centres on X, oldest sample at the back of Z
+            const dataSeries = new UniformGridDataSeries3D(wasmContext, {
+                yValues: Array.from({ length: windowSize }, () => new Array(binCount * 2).fill(0)),
+                xStart: -rangeBps + binWidth / 2,
+                xStep: binWidth,
+                zStart: -(windowSize - 1) * sampleSeconds,
+                zStep: sampleSeconds,
+                dataSeriesName: 'Resting size'
+            });
+
+            const series = new SurfaceMeshRenderableSeries3D(wasmContext, {
+                dataSeries,
+                minimum: 0,
+                maximum: 1,
+                opacity: 0.95,
+                cellHardnessFactor: 1.0,
+                shininess: 0,
+                lightingFactor: 0.6,
+                stroke: '#FFFFFF22',
+                strokeThickness: 1.0,
+                drawSkirt: false,
+                drawMeshAs: EDrawMeshAs.SOLID_MESH,
+                meshColorPalette: new GradientColorPalette(wasmContext, { gradientStops: GRADIENT_STOPS })
+            });
+            sciChart3DSurface.renderableSeries.add(series);
+
+            sciChart3DSurface.chartModifiers.add(new MouseWheelZoomModifier3D());
+            sciChart3DSurface.chartModifiers.add(new OrbitModifier3D());
+            sciChart3DSurface.chartModifiers.add(new ResetCamera3DModifier());
+            sciChart3DSurface.chartModifiers.add(new TooltipModifier3D({ tooltipContainerBackground: '#333333' }));
+
+            const colorMap = new HeatmapColorMap({ minimum: 0, maximum: 1, gradientStops: GRADIENT_STOPS });
+            let legend: HeatmapLegend | null = null;
+            if (legendRef.current) {
+                try {
+                    ({ heatmapLegend: legend } = await HeatmapLegend.create(legendRef.current, {
+                        colorMap,
+                        yAxisOptions: {
+                            isInnerAxis: true,
+                            labelStyle: { fontSize: 12, color: '#FFFFFF' },
+                            axisBorder: { borderRight: 1, color: '#FFFFFF77' }
+                        }
+                    }));
+                } catch (legendErr) {
+                    console.warn('Non-critical error creating depth surface legend:', legendErr);
+                }
+            }
+
+            if (isCancelled) {
+                legend?.delete();
+                sciChart3DSurface.delete();
+                return;
+            }
+
+            handlesRef.current = { surface: sciChart3DSurface, dataSeries, series, colorMap, legend };
+            setIsChartReady(true);
+        };
+
+        init().catch(err => {
+            console.error('Failed to initialize depth surface:', err);
+            setChartError(err instanceof Error ? err.message : 'Failed to load SciChart');
+        });
+
+        return () => {
+            isCancelled = true;
+            const handles = handlesRef.current;
+            handlesRef.current = null;
+            try {
+                handles?.legend?.delete();
+                handles?.surface.delete();
+            } catch (e) {
+                console.error('Error cleaning up depth surface:', e);
+            }
+        };
+    }, [binCount, rangeBps, windowSize, sampleIntervalMs]);
+
+    // Push each new sample window into the surface and rescale height and colours to the window's largest bucket
+    React.useEffect(() => {
+        const handles = handlesRef.current;
+        if (!isChartReady || !handles || grid.length !== windowSize) return;
+
+        const maximum = maxSize > 0 ? maxSize : 1;
+        handles.dataSeries.setYValues(grid);
+        handles.series.maximum = maximum;
+        handles.colorMap.maximum = maximum;
+        handles.surface.yAxis.visibleRange = new NumberRange(0, maximum * 1.1);
+    }, [grid, maxSize, windowSize, isChartReady]);
+
+    const effectiveError = chartError || error;
+    const isWaiting = !effectiveError && (!isSynced || sampleCount === 0);
+
+    return (
+        <div className="relative h-[400px] w-full">
+            <div className="absolute top-2 left-2 z-10 bg-black bg-opacity-70 text-white px-3 py-1 rounded-md text-xs">
+                <div className="font-semibold">{productId || '—'} liquidity</div>
+                <div className="opacity-70">
+                    {mid !== null ? `Mid ${mid.toLocaleString(undefined, { maximumFractionDigits: 6 })} · ` : ''}
+                    ±{rangeBps} bps · {sampleCount}/{windowSize} samples
+                </div>
+            </div>
+
+            {isWaiting && (
+                <div className="absolute top-2 right-20 z-10 bg-yellow-100 text-yellow-800 px-3 py-1 rounded-full text-xs font-medium">
+                    {status === 'Connected' ? 'Syncing book...' : status}
+                </div>
+            )}
+
+            {effectiveError && (
+                <div className="absolute top-1/2 left-0 right-0 p-4 bg-red-100 bg-opacity-10 text-red-500 text-center -translate-y-1/2 z-10">
+                    Error: {effectiveError}
+                </div>
+            )}
+
+            <div ref={chartRef} className="h-full w-full" />
+            <div ref={legendRef} className="absolute h-full w-16 top-0 right-3 z-5" />
+        </div>
+    );
+}
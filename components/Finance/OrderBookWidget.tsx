@@ -0,0 +1,209 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import useOrderBook from '@/hooks/useOrderBook';
+import { DepthLevel, getIncrementDecimals, suggestPriceIncrements } from '@/lib/order-book';
+
+const chartConfig = {
+    bids: {
+        label: 'Bids',
+        color: 'hsl(142 71% 45%)'
+    },
+    asks: {
+        label: 'Asks',
+        color: 'hsl(0 84% 60%)'
+    }
+} satisfies ChartConfig;
+
+interface DepthPoint {
+    price: number;
+    bids?: number;
+    asks?: number;
+}
+
+const formatSize = (value: number): string =>
+    value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 4 });
+
+// Cumulative depth from the lowest bid up to the highest ask, one series per side
+const toDepthPoints = (bids: DepthLevel[], asks: DepthLevel[]): DepthPoint[] => [
+    ...[...bids].reverse().map(level => ({ price: level.price, bids: level.total })),
+    ...asks.map(level => ({ price: level.price, asks: level.total }))
+];
+
+interface LadderRowProps {
+    level: DepthLevel;
+    side: 'bid' | 'ask';
+    maxTotal: number;
+    formatPrice: (value: number) => string;
+}
+
+const LadderRow: React.FC<LadderRowProps> = ({ level, side, maxTotal, formatPrice }) => (
+    <div className="relative grid grid-cols-3 px-2 py-px font-mono text-xs">
+        {/* Depth bar: the running total as a share of the deepest row shown */}
+        <div
+            className={`absolute inset-y-0 right-0 ${side === 'bid' ? 'bg-green-500/15' : 'bg-red-500/15'}`}
+            style={{ width: `${maxTotal > 0 ? (level.total / maxTotal) * 100 : 0}%` }}
+        />
+        <span className={`relative ${side === 'bid' ? 'text-green-600' : 'text-red-600'}`}>{formatPrice(level.price)}</span>
+        <span className="relative text-right">{formatSize(level.size)}</span>
+        <span className="relative text-right text-muted-foreground">{formatSize(level.total)}</span>
+    </div>
+);
+
+interface OrderBookWidgetProps {
+    ticker: string;
+    // Rows per side
+    depth?: number;
+    className?: string;
+}
+
+/**
+ * Live level 2 order book: a price ladder with depth bars, the cumulative depth chart, and
+ * spread / imbalance for the top of the book. Levels can be grouped into wider price buckets.
+ */
+const OrderBookWidget: React.FC<OrderBookWidgetProps> = ({ ticker, depth = 15, className = '' }) => {
+    const [increment, setIncrement] = useState<number>(0);
+
+    const { status, error, productId, bids, asks, metrics, isSynced, reconnect } = useOrderBook(ticker, { increment, depth });
+
+    // Grouping options follow the price's magnitude, so they only change when the ticker does
+    const magnitude = metrics.mid ? Math.floor(Math.log10(metrics.mid)) : null;
+    const incrementOptions = useMemo(
+        () => (magnitude === null ? [] : suggestPriceIncrements(Math.pow(10, magnitude))),
+        [magnitude]
+    );
+
+    useEffect(() => {
+        setIncrement(0);
+    }, [productId]);
+
+    const decimals = increment > 0
+        ? getIncrementDecimals(increment)
+        : magnitude !== null ? Math.max(2, 5 - magnitude) : 2;
+    const formatPrice = (value: number): string =>
+        value.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+    const maxTotal = Math.max(bids[bids.length - 1]?.total ?? 0, asks[asks.length - 1]?.total ?? 0);
+    const depthPoints = useMemo(() => toDepthPoints(bids, asks), [bids, asks]);
+
+    // Imbalance as the bid share of the top-of-book depth, 0-100
+    const bidShare = metrics.imbalance !== null ? ((metrics.imbalance + 1) / 2) * 100 : 50;
+
+    return (
+        <div className={`flex h-full flex-col gap-2 text-sm ${className}`}>
+            {/* Header: product, status and grouping */}
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <span className="font-semibold">{productId || '—'}</span>
+                    {status !== 'Connected' ? (
+                        <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800">{status}</span>
+                    ) : !isSynced && (
+                        <span className="rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-800">Syncing book...</span>
+                    )}
+                </div>
+                <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                    Group
+                    <select
+                        value={increment}
+                        onChange={(e) => setIncrement(Number(e.target.value))}
+                        className="rounded border bg-background p-1 text-xs text-foreground"
+                    >
+                        <option value={0}>None</option>
+                        {incrementOptions.map(option => (
+                            <option key={option} value={option}>{option}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {error && (
+                <div className="flex items-center justify-between rounded bg-red-100 px-2 py-1 text-xs text-red-800">
+                    <span>Error: {error}</span>
+                    <button onClick={reconnect} className="underline">Reconnect</button>
+                </div>
+            )}
+
+            {/* Top of book metrics */}
+            <div className="grid grid-cols-3 gap-2 text-xs">
+                <div>
+                    <div className="text-muted-foreground">Spread</div>
+                    <div className="font-mono">
+                        {metrics.spread !== null ? formatPrice(metrics.spread) : '—'}
+                        {metrics.spreadBps !== null && <span className="text-muted-foreground"> ({metrics.spreadBps.toFixed(1)} bps)</span>}
+                    </div>
+                </div>
+                <div>
+                    <div className="text-muted-foreground">Mid</div>
+                    <div className="font-mono">{metrics.mid !== null ? formatPrice(metrics.mid) : '—'}</div>
+                </div>
+                <div>
+                    <div className="text-muted-foreground">Imbalance</div>
+                    <div className={`font-mono ${(metrics.imbalance ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {metrics.imbalance !== null ? `${(metrics.imbalance * 100).toFixed(1)}%` : '—'}
+                    </div>
+                </div>
+            </div>
+            <div className="flex h-1.5 overflow-hidden rounded-full bg-red-500/60" title={`Top ${depth} levels: ${formatSize(metrics.bidDepth)} bid / ${formatSize(metrics.askDepth)} ask`}>
+                <div className="bg-green-500/80" style={{ width: `${bidShare}%` }} />
+            </div>
+
+            {/* Ladder: asks above the spread (best nearest), bids below */}
+            <div className="min-h-0 flex-1 overflow-y-auto rounded border">
+                <div className="sticky top-0 z-10 grid grid-cols-3 border-b bg-background px-2 py-1 text-xs text-muted-foreground">
+                    <span>Price</span>
+                    <span className="text-right">Size</span>
+                    <span className="text-right">Total</span>
+                </div>
+                {[...asks].reverse().map(level => (
+                    <LadderRow key={`ask-${level.price}`} level={level} side="ask" maxTotal={maxTotal} formatPrice={formatPrice} />
+                ))}
+                <div className="border-y bg-muted/50 px-2 py-1 text-center font-mono text-xs">
+                    {metrics.spread !== null ? `Spread ${formatPrice(metrics.spread)}` : 'Waiting for the book...'}
+                </div>
+                {bids.map(level => (
+                    <LadderRow key={`bid-${level.price}`} level={level} side="bid" maxTotal={maxTotal} formatPrice={formatPrice} />
+                ))}
+            </div>
+
+            {/* Cumulative depth */}
+            {depthPoints.length > 0 && (
+                <ChartContainer config={chartConfig} className="h-[120px] w-full aspect-auto">
+                    <AreaChart data={depthPoints} margin={{ left: 0, right: 0, top: 4, bottom: 0 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis
+                            dataKey="price"
+                            type="number"
+                            domain={['dataMin', 'dataMax']}
+                            tickLine={false}
+                            axisLine={false}
+                            minTickGap={32}
+                            tickFormatter={(value) => formatPrice(Number(value))}
+                        />
+                        <YAxis tickLine={false} axisLine={false} width={40} tickFormatter={(value) => formatSize(Number(value))} />
+                        <ChartTooltip
+                            content={
+                                <ChartTooltipContent
+                                    labelFormatter={(_, payload) => formatPrice(Number(payload?.[0]?.payload?.price))}
+                                    formatter={(value, name) => (
+                                        <div className="flex w-full justify-between gap-4">
+                                            <span className="text-muted-foreground">
+                                                {chartConfig[name as keyof typeof chartConfig]?.label ?? name}
+                                            </span>
+                                            <span className="font-mono font-medium">{formatSize(Number(value))}</span>
+                                        </div>
+                                    )}
+                                />
+                            }
+                        />
+                        <Area dataKey="bids" type="stepBefore" stroke="var(--color-bids)" fill="var(--color-bids)" fillOpacity={0.3} isAnimationActive={false} />
+                        <Area dataKey="asks" type="stepAfter" stroke="var(--color-asks)" fill="var(--color-asks)" fillOpacity={0.3} isAnimationActive={false} />
+                    </AreaChart>
+                </ChartContainer>
+            )}
+        </div>
+    );
+};
+
+export default OrderBookWidget;
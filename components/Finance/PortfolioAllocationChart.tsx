@@ -0,0 +1,83 @@
+'use client';
+
+import React from 'react';
+import { Cell, Pie, PieChart } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Position } from '@/lib/portfolio';
+
+const COLORS = ['--chart-1', '--chart-2', '--chart-3', '--chart-4', '--chart-5'];
+
+// Positions beyond this are grouped into "Other" so the chart stays readable
+const MAX_SLICES = 8;
+
+// Remove the 'X:' prefix from crypto tickers for display
+const displayTicker = (ticker: string): string => ticker.replace(/^X:/, '');
+
+interface PortfolioAllocationChartProps {
+    positions: Position[];
+}
+
+const PortfolioAllocationChart: React.FC<PortfolioAllocationChartProps> = ({ positions }) => {
+    const priced = positions.filter(p => p.marketValue !== null && p.marketValue > 0);
+
+    const slices = priced.slice(0, MAX_SLICES).map(p => ({
+        name: displayTicker(p.ticker),
+        value: p.marketValue as number,
+        allocation: p.allocation ?? 0
+    }));
+    const rest = priced.slice(MAX_SLICES);
+    if (rest.length > 0) {
+        slices.push({
+            name: 'Other',
+            value: rest.reduce((sum, p) => sum + (p.marketValue ?? 0), 0),
+            allocation: rest.reduce((sum, p) => sum + (p.allocation ?? 0), 0)
+        });
+    }
+
+    if (slices.length === 0) {
+        return (
+            <div className="flex h-[260px] items-center justify-center text-sm text-muted-foreground">
+                No priced positions yet.
+            </div>
+        );
+    }
+
+    const chartConfig: ChartConfig = Object.fromEntries(slices.map((slice, index) => [
+        slice.name,
+        { label: slice.name, color: `hsl(var(${COLORS[index % COLORS.length]}))` }
+    ]));
+
+    return (
+        <div className="flex flex-col gap-4">
+            <ChartContainer config={chartConfig} className="h-[200px] w-full aspect-auto">
+                <PieChart>
+                    <ChartTooltip content={<ChartTooltipContent nameKey="name" hideLabel />} />
+                    <Pie data={slices} dataKey="value" nameKey="name" innerRadius={50} outerRadius={85} strokeWidth={2}>
+                        {slices.map((slice, index) => (
+                            <Cell key={slice.name} fill={`hsl(var(${COLORS[index % COLORS.length]}))`} opacity={1 - Math.floor(index / COLORS.length) * 0.35} />
+                        ))}
+                    </Pie>
+                </PieChart>
+            </ChartContainer>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                {slices.map((slice, index) => (
+                    <div key={slice.name} className="flex items-center justify-between gap-2">
+                        <span className="flex items-center gap-2">
+                            <span
+                                className="h-2.5 w-2.5 rounded-sm"
+                                style={{
+                                    backgroundColor: `hsl(var(${COLORS[index % COLORS.length]}))`,
+                                    opacity: 1 - Math.floor(index / COLORS.length) * 0.35
+                                }}
+                            />
+                            <span className="font-mono">{slice.name}</span>
+                        </span>
+                        <span className="text-muted-foreground">{(slice.allocation * 100).toFixed(1)}%</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default PortfolioAllocationChart;
@@ -0,0 +1,75 @@
+'use client';
+
+import React from 'react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { ValueHistoryPoint } from '@/lib/portfolio';
+
+const chartConfig = {
+    value: {
+        label: 'Market Value',
+        color: 'hsl(var(--chart-1))'
+    },
+    invested: {
+        label: 'Cost Basis',
+        color: 'hsl(var(--chart-2))'
+    }
+} satisfies ChartConfig;
+
+// Compact dollar amounts for the axis ($1.2M, $850K)
+const formatAxisValue = (value: number): string => {
+    if (Math.abs(value) >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
+    if (Math.abs(value) >= 1_000) return `$${(value / 1_000).toFixed(0)}K`;
+    return `$${value.toFixed(0)}`;
+};
+
+const formatDate = (date: string): string => {
+    return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit', timeZone: 'UTC' });
+};
+
+interface PortfolioHistoryChartProps {
+    history: ValueHistoryPoint[];
+    className?: string;
+}
+
+const PortfolioHistoryChart: React.FC<PortfolioHistoryChartProps> = ({ history, className }) => {
+    if (history.length === 0) {
+        return (
+            <div className="flex h-[260px] items-center justify-center text-sm text-muted-foreground">
+                Add transactions to see how your portfolio value changes over time.
+            </div>
+        );
+    }
+
+    return (
+        <ChartContainer config={chartConfig} className={className ?? 'h-[260px] w-full aspect-auto'}>
+            <AreaChart data={history} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={formatDate} />
+                <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={formatAxisValue} />
+                <ChartTooltip
+                    content={
+                        <ChartTooltipContent
+                            labelFormatter={(label) => formatDate(String(label))}
+                            formatter={(value, name) => (
+                                <div className="flex w-full justify-between gap-4">
+                                    <span className="text-muted-foreground">
+                                        {chartConfig[name as keyof typeof chartConfig]?.label ?? name}
+                                    </span>
+                                    <span className="font-mono font-medium">
+                                        {Number(value).toLocaleString('en-US', { style: 'currency', currency: 'USD' })}
+                                    </span>
+                                </div>
+                            )}
+                        />
+                    }
+                />
+                <Area dataKey="invested" type="stepAfter" stroke="var(--color-invested)" fill="var(--color-invested)" fillOpacity={0.1} />
+                <Area dataKey="value" type="monotone" stroke="var(--color-value)" fill="var(--color-value)" fillOpacity={0.3} />
+                <ChartLegend content={<ChartLegendContent />} />
+            </AreaChart>
+        </ChartContainer>
+    );
+};
+
+export default PortfolioHistoryChart;
@@ -0,0 +1,251 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FileUp, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CostBasisMethod } from '@/lib/portfolio';
+import { usePortfolio } from '../../hooks/usePortfolio';
+import { usePortfolioHistory } from '../../hooks/usePortfolioHistory';
+import PortfolioAllocationChart from './PortfolioAllocationChart';
+import PortfolioHistoryChart from './PortfolioHistoryChart';
+import TransactionImporter from './TransactionImporter';
+import TransactionsTable from './TransactionsTable';
+
+// Format a dollar amount for display
+const formatCurrency = (value: number | null): string => {
+    if (value === null) return '—';
+    return value.toLocaleString('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: Math.abs(value) > 0 && Math.abs(value) < 1 ? 6 : 2
+    });
+};
+
+// Format a P&L amount with an explicit sign
+const formatPnL = (value: number | null): string => {
+    if (value === null) return '—';
+    return `${value >= 0 ? '+' : '-'}${formatCurrency(Math.abs(value))}`;
+};
+
+const formatPercent = (value: number | null): string => {
+    if (value === null) return '—';
+    return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+};
+
+const formatQuantity = (value: number): string => {
+    return value.toLocaleString('en-US', { maximumFractionDigits: 8 });
+};
+
+const pnlClass = (value: number | null): string => {
+    if (value === null || value === 0) return '';
+    return value > 0 ? 'text-green-600' : 'text-red-600';
+};
+
+// Remove the 'X:' prefix from crypto tickers for display
+const displayTicker = (ticker: string): string => ticker.replace(/^X:/, '');
+
+const SummaryCard: React.FC<{ title: string; value: string; className?: string; detail?: string }> = ({ title, value, className, detail }) => (
+    <Card>
+        <CardHeader className="pb-2">
+            <CardDescription>{title}</CardDescription>
+        </CardHeader>
+        <CardContent>
+            <div className={`text-2xl font-semibold ${className ?? ''}`}>{value}</div>
+            {detail && <p className="text-xs text-muted-foreground mt-1">{detail}</p>}
+        </CardContent>
+    </Card>
+);
+
+const PortfolioPanel: React.FC = () => {
+    const [method, setMethod] = useState<CostBasisMethod>('fifo');
+    const { transactions, portfolio, isLoading, error, lastUpdated, refresh } = usePortfolio(method);
+    const { history, isLoading: isHistoryLoading, error: historyError } = usePortfolioHistory(transactions, method);
+    const { positions, summary, warnings } = portfolio;
+
+    if (transactions === undefined) {
+        return (
+            <div className="grid gap-4 md:grid-cols-4">
+                {[0, 1, 2, 3].map(i => <Skeleton key={i} className="h-28" />)}
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row gap-4 md:items-end justify-between">
+                <p className="text-sm text-muted-foreground">
+                    {lastUpdated ? `Prices updated ${lastUpdated.toLocaleTimeString()}` : 'Waiting for prices...'}
+                    {isLoading && ' · Refreshing...'}
+                </p>
+                <div className="flex items-end gap-2">
+                    <div className="space-y-2">
+                        <Label>Cost basis</Label>
+                        <Select value={method} onValueChange={(value) => setMethod(value as CostBasisMethod)}>
+                            <SelectTrigger className="w-[180px]">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="fifo">FIFO</SelectItem>
+                                <SelectItem value="average">Average cost</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <Button variant="outline" size="icon" title="Refresh prices" onClick={() => refresh()}>
+                        <RefreshCw className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+
+            {(error || historyError) && (
+                <div className="p-2 bg-red-100 border border-red-300 rounded text-red-700 text-sm">
+                    {error ? `Quote Error: ${error}` : `History Error: ${historyError}`}
+                </div>
+            )}
+
+            {warnings.length > 0 && (
+                <div className="p-2 bg-yellow-50 border border-yellow-300 rounded text-yellow-800 text-sm space-y-1">
+                    {warnings.map(warning => <p key={warning}>{warning}</p>)}
+                </div>
+            )}
+
+            {/* Totals */}
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                <SummaryCard
+                    title="Market Value"
+                    value={formatCurrency(summary.marketValue)}
+                    detail={summary.hasMissingPrices ? 'Some positions have no price yet' : `Cost basis ${formatCurrency(summary.costBasis)}`}
+                />
+                <SummaryCard
+                    title="Unrealized P&L"
+                    value={formatPnL(summary.unrealizedPnL)}
+                    className={pnlClass(summary.unrealizedPnL)}
+                    detail={summary.costBasis > 0 ? formatPercent((summary.unrealizedPnL / summary.costBasis) * 100) : undefined}
+                />
+                <SummaryCard
+                    title="Realized P&L"
+                    value={formatPnL(summary.realizedPnL)}
+                    className={pnlClass(summary.realizedPnL)}
+                    detail={`Dividends ${formatCurrency(summary.dividends)} · Fees ${formatCurrency(summary.fees)}`}
+                />
+                <SummaryCard
+                    title="Total P&L"
+                    value={formatPnL(summary.totalPnL)}
+                    className={pnlClass(summary.totalPnL)}
+                    detail="Unrealized + realized + dividends − fees"
+                />
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-3">
+                <Card className="lg:col-span-2">
+                    <CardHeader>
+                        <CardTitle>Portfolio Value</CardTitle>
+                        <CardDescription>
+                            Daily closing value of your holdings against their cost basis
+                            {isHistoryLoading && ' · Loading...'}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <PortfolioHistoryChart history={history} />
+                    </CardContent>
+                </Card>
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Allocation</CardTitle>
+                        <CardDescription>Share of market value by position</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <PortfolioAllocationChart positions={positions} />
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* Open positions */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Positions</CardTitle>
+                    <CardDescription>
+                        {positions.length} open {positions.length === 1 ? 'position' : 'positions'}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {positions.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Add a buy transaction below to open a position.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full border-collapse">
+                                <thead>
+                                    <tr className="border-b">
+                                        <th className="p-2.5 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Ticker</th>
+                                        <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Quantity</th>
+                                        <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Avg Cost</th>
+                                        <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Price</th>
+                                        <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Market Value</th>
+                                        <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Unrealized</th>
+                                        <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Realized</th>
+                                        <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Allocation</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {positions.map(position => (
+                                        <tr key={position.ticker} className="border-b last:border-b-0">
+                                            <td className="p-2.5 font-mono font-medium">{displayTicker(position.ticker)}</td>
+                                            <td className="p-2.5 text-right">{formatQuantity(position.quantity)}</td>
+                                            <td className="p-2.5 text-right">{formatCurrency(position.averageCost)}</td>
+                                            <td className="p-2.5 text-right">{formatCurrency(position.price)}</td>
+                                            <td className="p-2.5 text-right">{formatCurrency(position.marketValue)}</td>
+                                            <td className={`p-2.5 text-right font-medium ${pnlClass(position.unrealizedPnL)}`}>
+                                                {formatPnL(position.unrealizedPnL)}
+                                                <span className="block text-xs">{formatPercent(position.unrealizedPnLPercent)}</span>
+                                            </td>
+                                            <td className={`p-2.5 text-right ${pnlClass(position.realizedPnL)}`}>{formatPnL(position.realizedPnL)}</td>
+                                            <td className="p-2.5 text-right">
+                                                {position.allocation !== null ? `${(position.allocation * 100).toFixed(1)}%` : '—'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                    <div className="space-y-1.5">
+                        <CardTitle>Transactions</CardTitle>
+                        <CardDescription>Buys, sells, dividends and fees for stocks and crypto (e.g. X:BTCUSD)</CardDescription>
+                    </div>
+                    <Dialog>
+                        <DialogTrigger asChild>
+                            <Button variant="outline" className="gap-2">
+                                <FileUp className="h-4 w-4" />
+                                Import CSV
+                            </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+                            <DialogHeader>
+                                <DialogTitle>Import Transactions</DialogTitle>
+                                <DialogDescription>
+                                    Upload a broker or Coinbase export, check the column mapping and review the rows before importing.
+                                </DialogDescription>
+                            </DialogHeader>
+                            <TransactionImporter existingTransactions={transactions} />
+                        </DialogContent>
+                    </Dialog>
+                </CardHeader>
+                <CardContent>
+                    <TransactionsTable transactions={transactions} />
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+export default PortfolioPanel;
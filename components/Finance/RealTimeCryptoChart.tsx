@@ -37,9 +37,6 @@ const IndependentCryptoChart: React.FC<IndependentCryptoChartProps> = ({
     // Use ticker details hook to get the logo
     const { tickerDetails, isLoading, fetchTickerDetails } = useTickerDetails();
 
-    // Get Polygon API key from environment
-    const apiKey = process.env.NEXT_PUBLIC_POLYGON_API_KEY || '';
-
     // Ensure ticker is in X:BTCUSD format for ticker details API
     const getTickerDetailsFormat = (inputTicker: string): string => {
         // Handle empty input
@@ -67,15 +64,10 @@ const IndependentCryptoChart: React.FC<IndependentCryptoChartProps> = ({
         fetchTickerDetails(detailsTicker);
     }, [internalTicker, fetchTickerDetails]);
 
-    // Add API key to logo URLs
-    const getLogoUrlWithApiKey = (url: string | undefined): string | undefined => {
+    // Route logo URLs through the server so the API key is never sent to the browser
+    const getProxiedLogoUrl = (url: string | undefined): string | undefined => {
         if (!url) return undefined;
-
-        // Check if URL already has query parameters
-        const hasQueryParams = url.includes('?');
-
-        // Add the API key
-        return `${url}${hasQueryParams ? '&' : '?'}apiKey=${apiKey}`;
+        return `/api/market/logo?url=${encodeURIComponent(url)}`;
     };
 
     // Handle ticker selection from search
@@ -125,7 +117,7 @@ const IndependentCryptoChart: React.FC<IndependentCryptoChartProps> = ({
                     <h2 className="text-xl font-bold flex items-center text-black">
                         {tickerDetails?.branding?.logo_url && (
                             <img
-                                src={getLogoUrlWithApiKey(tickerDetails.branding.logo_url)}
+                                src={getProxiedLogoUrl(tickerDetails.branding.logo_url)}
                                 alt={`${formattedTicker} logo`}
                                 className="w-6 h-6 mr-2 rounded-full"
                                 onError={(e) => {
@@ -207,7 +199,7 @@ const IndependentCryptoChart: React.FC<IndependentCryptoChartProps> = ({
                     {/* Small logo display in footer with API key */}
                     {tickerDetails?.branding?.icon_url && (
                         <img
-                            src={getLogoUrlWithApiKey(tickerDetails.branding.icon_url)}
+                            src={getProxiedLogoUrl(tickerDetails.branding.icon_url)}
                             alt={`${formattedTicker} icon`}
                             className="w-4 h-4 rounded-full"
                             onError={(e) => {
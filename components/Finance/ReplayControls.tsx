@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { isCryptoTicker } from '@/lib/market-data';
+import { REPLAY_SPEEDS, ReplayState, ReplayStatus } from '@/lib/replay';
+
+const STATUS_STYLES: Record<ReplayStatus, string> = {
+    loading: 'bg-yellow-100 text-yellow-800',
+    buffering: 'bg-yellow-100 text-yellow-800',
+    playing: 'bg-green-100 text-green-800',
+    paused: 'bg-gray-200 text-gray-800',
+    ended: 'bg-gray-200 text-gray-800',
+    error: 'bg-red-100 text-red-800'
+};
+
+// Slider steps; the replay clock itself is millisecond precise
+const SEEK_STEP_MS = 1000;
+
+interface ReplayControlsProps {
+    state: ReplayState;
+    onPlay: () => void;
+    onPause: () => void;
+    onSeek: (time: number) => void;
+    onSpeedChange: (speed: number) => void;
+    className?: string;
+}
+
+/**
+ * Transport for a market replay: play/pause, a seek bar across the replayed window and the
+ * playback speed. Times are shown on the market's clock (New York for stocks, UTC for crypto).
+ */
+const ReplayControls: React.FC<ReplayControlsProps> = ({ state, onPlay, onPause, onSeek, onSpeedChange, className = '' }) => {
+    // Position under the thumb while dragging; the clock only jumps on release
+    const [dragTime, setDragTime] = useState<number | null>(null);
+
+    // A new replay throws away any drag in progress
+    useEffect(() => {
+        setDragTime(null);
+    }, [state.start, state.end]);
+
+    const timeZone = isCryptoTicker(state.ticker) ? 'UTC' : 'America/New_York';
+    const formatTime = (timestamp: number): string =>
+        new Date(timestamp).toLocaleTimeString(undefined, { timeZone, hour12: false });
+
+    const shownTime = dragTime ?? state.time;
+    const isPlaying = state.status === 'playing' || state.status === 'buffering';
+    const canPlay = state.status === 'paused' || state.status === 'error';
+
+    const commitSeek = () => {
+        if (dragTime !== null) {
+            onSeek(dragTime);
+            setDragTime(null);
+        }
+    };
+
+    return (
+        <div className={`flex flex-col gap-2 text-sm ${className}`}>
+            <div className="flex flex-wrap items-center gap-3">
+                <button
+                    onClick={isPlaying ? onPause : onPlay}
+                    disabled={!isPlaying && !canPlay}
+                    className={`rounded px-3 py-1 text-white disabled:opacity-50 ${isPlaying ? 'bg-gray-600' : 'bg-blue-600'}`}
+                >
+                    {isPlaying ? 'Pause' : 'Play'}
+                </button>
+
+                <label className="flex items-center gap-1 text-muted-foreground">
+                    Speed
+                    <select
+                        value={state.speed}
+                        onChange={(e) => onSpeedChange(Number(e.target.value))}
+                        className="rounded border bg-background p-1 text-foreground"
+                    >
+                        {REPLAY_SPEEDS.map(speed => (
+                            <option key={speed} value={speed}>{speed}x</option>
+                        ))}
+                    </select>
+                </label>
+
+                <span className="font-mono">
+                    {state.date} {formatTime(shownTime)} {timeZone === 'UTC' ? 'UTC' : 'ET'}
+                </span>
+
+                <span className={`rounded-full px-2 py-0.5 text-xs font-medium capitalize ${STATUS_STYLES[state.status]}`}>
+                    {state.status}
+                </span>
+
+                {state.source === 'aggregates' && (
+                    <span className="text-xs text-muted-foreground" title="Tick data couldn't be loaded, so each minute bar is replayed as four prints">
+                        Replaying minute bars
+                    </span>
+                )}
+            </div>
+
+            <div className="flex items-center gap-2 font-mono text-xs text-muted-foreground">
+                <span>{formatTime(state.start)}</span>
+                <input
+                    type="range"
+                    min={state.start}
+                    max={state.end}
+                    step={SEEK_STEP_MS}
+                    value={shownTime}
+                    onChange={(e) => setDragTime(Number(e.target.value))}
+                    onPointerUp={commitSeek}
+                    onKeyUp={commitSeek}
+                    className="flex-1"
+                    aria-label="Replay position"
+                />
+                <span>{formatTime(state.end)}</span>
+            </div>
+
+            {state.error && (
+                <div className="rounded bg-red-100 px-2 py-1 text-xs text-red-800">
+                    Error: {state.error} — press Play to retry
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReplayControls;
@@ -0,0 +1,323 @@
+'use client';
+
+import * as React from 'react';
+import {
+    CameraController,
+    CustomChartModifier3D,
+    EllipsePointMarker3D,
+    IPointMetadata3D,
+    ModifierMouseArgs,
+    MouseWheelZoomModifier3D,
+    NumberRange,
+    NumericAxis3D,
+    OrbitModifier3D,
+    Point,
+    ResetCamera3DModifier,
+    ScatterRenderableSeries3D,
+    SciChart3DSurface,
+    SciChartSurface,
+    TSciChart3D,
+    TooltipModifier3D,
+    Vector3,
+    XyzDataSeries3D,
+    XyzSeriesInfo3D,
+    parseColorToUIntArgb
+} from 'scichart';
+import { ASSET_CLASS_LABELS, ColorGrouping, RiskReturnPoint, SIZE_METRIC_LABELS, SizeMetric, getSizeValue } from '@/lib/risk-return';
+
+SciChart3DSurface.configure({ dataUrl: '/scichart3d.data', wasmUrl: '/scichart3d.wasm' });
+SciChartSurface.UseCommunityLicense();
+
+// Groups get colours in order of size, so the biggest groups are always the most distinct
+const GROUP_COLORS = ['#3B82F6', '#F59E0B', '#22C55E', '#EF4444', '#A855F7', '#14B8A6', '#EC4899', '#EAB308', '#F97316', '#64748B', '#84CC16', '#06B6D4'];
+
+// Axes cover the 1st to 99th percentile; the few points beyond are pinned to the walls
+const AXIS_PERCENTILES = [0.01, 0.99];
+
+// A pointer that moves further than this between down and up was orbiting, not clicking
+const CLICK_TOLERANCE_PX = 4;
+
+const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+const formatDollars = (value: number | undefined): string => {
+    if (value === undefined || !Number.isFinite(value)) return 'n/a';
+    if (value >= 1e12) return `$${(value / 1e12).toFixed(2)}T`;
+    if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
+    if (value >= 1e6) return `$${(value / 1e6).toFixed(2)}M`;
+    if (value >= 1e3) return `$${(value / 1e3).toFixed(1)}K`;
+    return `$${value.toFixed(0)}`;
+};
+
+const formatTicker = (ticker: string): string => ticker.replace(/^X:/, '');
+
+const getPointGroup = (point: RiskReturnPoint, colorBy: ColorGrouping): string =>
+    colorBy === 'sector' ? point.sector : ASSET_CLASS_LABELS[point.assetClass];
+
+const getAxisRange = (values: number[], symmetricAroundZero = false): NumberRange => {
+    if (values.length === 0) return new NumberRange(0, 1);
+    const sorted = values.slice().sort((a, b) => a - b);
+    const [low, high] = AXIS_PERCENTILES.map(percentile => sorted[Math.min(sorted.length - 1, Math.floor(percentile * sorted.length))]);
+    const padding = Math.max((high - low) * 0.05, 0.01);
+    if (symmetricAroundZero && low < 0 && high > 0) {
+        const extent = Math.max(-low, high) + padding;
+        return new NumberRange(-extent, extent);
+    }
+    return new NumberRange(low - padding, high + padding);
+};
+
+const clamp = (value: number, range: NumberRange): number => Math.min(range.max, Math.max(range.min, value));
+
+interface RiskReturnGroup {
+    name: string;
+    color: string;
+    count: number;
+}
+
+// The points the chart actually drew, in data series order, for the tooltip and clicks
+interface PlottedCloud {
+    points: RiskReturnPoint[];
+    sizeMetric: SizeMetric;
+    colorBy: ColorGrouping;
+}
+
+/**
+ * Reports a click on a point; drags that orbit the camera are ignored
+ */
+class PointClickModifier3D extends CustomChartModifier3D {
+    private downPoint: Point | null = null;
+
+    constructor(private readonly onPointClick: (seriesInfo: XyzSeriesInfo3D) => void) {
+        super();
+    }
+
+    modifierMouseDown(args: ModifierMouseArgs): void {
+        super.modifierMouseDown(args);
+        this.downPoint = args.mousePoint;
+    }
+
+    modifierMouseUp(args: ModifierMouseArgs): void {
+        super.modifierMouseUp(args);
+        const downPoint = this.downPoint;
+        this.downPoint = null;
+        if (!downPoint || !this.parentSurface) return;
+        if (Math.hypot(args.mousePoint.x - downPoint.x, args.mousePoint.y - downPoint.y) > CLICK_TOLERANCE_PX) return;
+
+        const seriesInfo = this.parentSurface.renderableSeries.asArray()
+            .map(series => series.hitTest(args.mousePoint))
+            .find(info => info.isHit);
+        if (seriesInfo) {
+            this.onPointClick(seriesInfo as XyzSeriesInfo3D);
+        }
+    }
+}
+
+interface ChartHandles {
+    surface: SciChart3DSurface;
+    wasmContext: TSciChart3D;
+    scatter: ScatterRenderableSeries3D;
+}
+
+interface RiskReturnCloudProps {
+    points: RiskReturnPoint[];
+    sizeMetric: SizeMetric;
+    colorBy: ColorGrouping;
+    // Shown over the chart while the points are loading, in place of the empty message
+    status?: string | null;
+    onSelectPoint?: (point: RiskReturnPoint) => void;
+    className?: string;
+}
+
+/**
+ * Realized volatility (X) against lookback return (Y) and log market cap or dollar volume (Z) as
+ * one point per ticker, coloured by sector or asset class. Everything is a single instanced
+ * scatter series so thousands of points orbit smoothly; hover for details, click to open a ticker.
+ */
+const RiskReturnCloud: React.FC<RiskReturnCloudProps> = ({
+    points,
+    sizeMetric,
+    colorBy,
+    status,
+    onSelectPoint,
+    className = ''
+}) => {
+    const chartRef = React.useRef<HTMLDivElement>(null);
+    const handlesRef = React.useRef<ChartHandles | null>(null);
+    // Kept current for the tooltip and click handler, which are set up once with the surface
+    const plottedRef = React.useRef<PlottedCloud | null>(null);
+    const onSelectPointRef = React.useRef(onSelectPoint);
+    onSelectPointRef.current = onSelectPoint;
+
+    const [chartError, setChartError] = React.useState<string | null>(null);
+    const [isChartReady, setIsChartReady] = React.useState(false);
+
+    // Points without a value for the depth axis (no market cap) can't be placed
+    const plotted = React.useMemo(
+        () => points.filter(point => getSizeValue(point, sizeMetric) !== null),
+        [points, sizeMetric]
+    );
+
+    const groups = React.useMemo((): RiskReturnGroup[] => {
+        const counts = new Map<string, number>();
+        plotted.forEach(point => {
+            const group = getPointGroup(point, colorBy);
+            counts.set(group, (counts.get(group) ?? 0) + 1);
+        });
+        return Array.from(counts.entries())
+            .sort((a, b) => b[1] - a[1])
+            .map(([name, count], index) => ({ name, count, color: GROUP_COLORS[index % GROUP_COLORS.length] }));
+    }, [plotted, colorBy]);
+
+    // Build the surface once; the cloud's data series is swapped below whenever the points change
+    React.useEffect(() => {
+        if (!chartRef.current) return;
+
+        let isCancelled = false;
+        setIsChartReady(false);
+        setChartError(null);
+
+        const init = async () => {
+            const { sciChart3DSurface, wasmContext } = await SciChart3DSurface.create(chartRef.current!);
+            if (isCancelled) {
+                sciChart3DSurface.delete();
+                return;
+            }
+
+            sciChart3DSurface.camera = new CameraController(wasmContext, {
+                position: new Vector3(-280, 240, -300),
+                target: new Vector3(0, 0, 0)
+            });
+            sciChart3DSurface.worldDimensions = new Vector3(200, 200, 200);
+            sciChart3DSurface.background = 'Transparent';
+
+            sciChart3DSurface.xAxis = new NumericAxis3D(wasmContext, { axisTitle: 'Realized volatility (annualized)' });
+            sciChart3DSurface.xAxis.labelProvider.formatLabel = (value: number) => formatPercent(value);
+            sciChart3DSurface.yAxis = new NumericAxis3D(wasmContext, { axisTitle: 'Return' });
+            sciChart3DSurface.yAxis.labelProvider.formatLabel = (value: number) => formatPercent(value);
+            sciChart3DSurface.zAxis = new NumericAxis3D(wasmContext, { axisTitle: SIZE_METRIC_LABELS.dollarVolume });
+            sciChart3DSurface.zAxis.labelProvider.formatLabel = (value: number) => formatDollars(10 ** value);
+
+            const scatter = new ScatterRenderableSeries3D(wasmContext, {
+                pointMarker: new EllipsePointMarker3D(wasmContext, { size: 6 })
+            });
+            sciChart3DSurface.renderableSeries.add(scatter);
+
+            // Ahead of the orbit modifier, which marks the events it uses as handled
+            sciChart3DSurface.chartModifiers.add(new PointClickModifier3D(seriesInfo => {
+                const point = plottedRef.current?.points[seriesInfo.dataSeriesIndex];
+                if (point) onSelectPointRef.current?.(point);
+            }));
+            sciChart3DSurface.chartModifiers.add(new MouseWheelZoomModifier3D());
+            sciChart3DSurface.chartModifiers.add(new OrbitModifier3D());
+            sciChart3DSurface.chartModifiers.add(new ResetCamera3DModifier());
+            sciChart3DSurface.chartModifiers.add(new TooltipModifier3D({
+                tooltipContainerBackground: '#333333',
+                tooltipDataTemplate: seriesInfo => {
+                    const current = plottedRef.current;
+                    const point = current?.points[(seriesInfo as XyzSeriesInfo3D).dataSeriesIndex];
+                    if (!current || !point) return [];
+                    return [
+                        point.name ? `${formatTicker(point.ticker)} · ${point.name}` : formatTicker(point.ticker),
+                        getPointGroup(point, current.colorBy),
+                        `Volatility: ${formatPercent(point.volatility)}`,
+                        `Return: ${point.return >= 0 ? '+' : ''}${formatPercent(point.return)}`,
+                        `${SIZE_METRIC_LABELS[current.sizeMetric]}: ${formatDollars(current.sizeMetric === 'marketCap' ? point.marketCap : point.dollarVolume)}`,
+                        'Click to open'
+                    ];
+                }
+            }));
+
+            handlesRef.current = { surface: sciChart3DSurface, wasmContext, scatter };
+            setIsChartReady(true);
+        };
+
+        init().catch(err => {
+            console.error('Failed to initialize risk/return chart:', err);
+            setChartError(err instanceof Error ? err.message : 'Failed to load SciChart');
+        });
+
+        return () => {
+            isCancelled = true;
+            const handles = handlesRef.current;
+            handlesRef.current = null;
+            try {
+                handles?.surface.delete();
+            } catch (e) {
+                console.error('Error cleaning up risk/return chart:', e);
+            }
+        };
+    }, []);
+
+    // Replace the whole data series in one go; appending point by point is far slower at this size
+    React.useEffect(() => {
+        const handles = handlesRef.current;
+        if (!isChartReady || !handles) return;
+
+        const { surface, wasmContext, scatter } = handles;
+        const colors = new Map(groups.map(group => [group.name, parseColorToUIntArgb(group.color)]));
+        const sizes = plotted.map(point => getSizeValue(point, sizeMetric) as number);
+        const xRange = getAxisRange(plotted.map(point => point.volatility));
+        const yRange = getAxisRange(plotted.map(point => point.return), true);
+        const zRange = getAxisRange(sizes);
+
+        const metadata: IPointMetadata3D[] = plotted.map(point => ({ vertexColor: colors.get(getPointGroup(point, colorBy)), pointScale: 1 }));
+        const dataSeries = new XyzDataSeries3D(wasmContext, {
+            xValues: plotted.map(point => clamp(point.volatility, xRange)),
+            yValues: plotted.map(point => clamp(point.return, yRange)),
+            zValues: sizes.map(size => clamp(size, zRange)),
+            metadata,
+            dataSeriesName: 'Tickers'
+        });
+
+        const previous = scatter.dataSeries;
+        scatter.dataSeries = dataSeries;
+        previous?.delete();
+        plottedRef.current = { points: plotted, sizeMetric, colorBy };
+
+        surface.xAxis.visibleRange = xRange;
+        surface.yAxis.visibleRange = yRange;
+        surface.zAxis.visibleRange = zRange;
+        surface.zAxis.axisTitle = `${SIZE_METRIC_LABELS[sizeMetric]} (log scale)`;
+    }, [plotted, groups, sizeMetric, colorBy, isChartReady]);
+
+    const unplaced = points.length - plotted.length;
+
+    return (
+        <div className={`flex flex-col gap-3 text-sm ${className}`}>
+            {/* Chart */}
+            <div className="relative h-[550px] w-full">
+                {!chartError && (status || plotted.length === 0) && (
+                    <div className="absolute top-2 left-2 z-10 rounded-md bg-black bg-opacity-70 px-3 py-1 text-xs text-white">
+                        {status || 'No tickers to plot'}
+                    </div>
+                )}
+
+                {chartError && (
+                    <div className="absolute top-1/2 left-0 right-0 z-10 -translate-y-1/2 bg-red-100 bg-opacity-10 p-4 text-center text-red-500">
+                        Error: {chartError}
+                    </div>
+                )}
+
+                <div ref={chartRef} className="h-full w-full" />
+            </div>
+
+            {/* Colour legend */}
+            {groups.length > 0 && (
+                <div className="flex flex-wrap gap-4 text-xs">
+                    {groups.map(group => (
+                        <div key={group.name} className="flex items-center gap-1.5">
+                            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: group.color }} />
+                            <span className="font-semibold">{group.name}</span>
+                            <span className="text-muted-foreground">{group.count.toLocaleString()}</span>
+                        </div>
+                    ))}
+                    <span className="text-muted-foreground">
+                        {plotted.length.toLocaleString()} tickers
+                        {unplaced > 0 && ` · ${unplaced.toLocaleString()} without a ${SIZE_METRIC_LABELS[sizeMetric].toLowerCase()} not shown`}
+                    </span>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RiskReturnCloud;
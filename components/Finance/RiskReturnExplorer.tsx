@@ -0,0 +1,283 @@
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import RiskReturnCloud from './RiskReturnCloud';
+import { useTickerUniverse } from '@/hooks/useTickerUniverse';
+import { MAX_PROFILED_TICKERS, useRiskReturnHistory, useTickerProfiles } from '@/hooks/useRiskReturn';
+import { AssetMarket, getAssetMarket, isCryptoTicker } from '@/lib/market-data';
+import {
+    COLOR_GROUPING_LABELS,
+    ColorGrouping,
+    RISK_RETURN_LOOKBACKS,
+    RiskReturnLookback,
+    RiskReturnPoint,
+    SIZE_METRIC_LABELS,
+    ScreenerCriteria,
+    SizeMetric,
+    UNIVERSE_SOURCE_LABELS,
+    UniverseSource,
+    computeRiskReturnPoints,
+    screenPoints
+} from '@/lib/risk-return';
+
+const MIN_DOLLAR_VOLUME_OPTIONS: { label: string; value: number }[] = [
+    { label: 'Any', value: 0 },
+    { label: '$1M', value: 1e6 },
+    { label: '$10M', value: 1e7 },
+    { label: '$100M', value: 1e8 },
+    { label: '$1B', value: 1e9 }
+];
+
+const SCREENER_LIMITS = [50, 100, MAX_PROFILED_TICKERS];
+
+const DEFAULT_CRITERIA: ScreenerCriteria = {
+    minPrice: 5,
+    minDollarVolume: 1e7,
+    limit: 100,
+    includeCrypto: false
+};
+
+const BOTH_MARKETS: AssetMarket[] = ['stocks', 'crypto'];
+const STOCKS_ONLY: AssetMarket[] = ['stocks'];
+
+const formatDate = (date: string | undefined): string =>
+    date ? new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', month: 'short', day: 'numeric', year: 'numeric' }) : '';
+
+interface RiskReturnExplorerProps {
+    className?: string;
+}
+
+/**
+ * Controls and data for the risk/return cloud: which tickers to plot (every listing in
+ * tickers.csv and crypto_tickers.csv, one of the user's watchlists, or a screen over the listings),
+ * the lookback, what sets depth and what sets colour. Clicking a point opens its stock or crypto page.
+ */
+const RiskReturnExplorer: React.FC<RiskReturnExplorerProps> = ({ className = '' }) => {
+    const router = useRouter();
+    const watchlists = useQuery(api.watchlists.list);
+    const { tickers: listedTickers, names, error: universeError } = useTickerUniverse();
+
+    const [source, setSource] = React.useState<UniverseSource>('screener');
+    const [watchlistId, setWatchlistId] = React.useState<Id<'watchlists'> | null>(null);
+    const [criteria, setCriteria] = React.useState<ScreenerCriteria>(DEFAULT_CRITERIA);
+    const [lookback, setLookback] = React.useState<RiskReturnLookback>('6M');
+    const [sizeMetric, setSizeMetric] = React.useState<SizeMetric>('dollarVolume');
+    const [colorBy, setColorBy] = React.useState<ColorGrouping>('assetClass');
+
+    // The first watchlist until the user picks one
+    const watchlist = watchlists?.find(list => list._id === watchlistId) ?? watchlists?.[0] ?? null;
+    const watchlistKey = watchlist?.tickers.join(',') ?? '';
+
+    // Only fetch crypto days when the universe can include crypto
+    const markets = React.useMemo((): AssetMarket[] => {
+        if (source === 'listed') return BOTH_MARKETS;
+        if (source === 'screener') return criteria.includeCrypto ? BOTH_MARKETS : STOCKS_ONLY;
+        const watched = watchlistKey ? watchlistKey.split(',').map(getAssetMarket) : [];
+        return BOTH_MARKETS.filter(market => watched.includes(market));
+    }, [source, criteria.includeCrypto, watchlistKey]);
+
+    const { history, progress, isAvailable, isLoading, error, refresh } = useRiskReturnHistory(markets, lookback);
+
+    const listedPoints = React.useMemo(
+        () => (history && listedTickers ? computeRiskReturnPoints(history, listedTickers, names) : []),
+        [history, listedTickers, names]
+    );
+
+    const universe = React.useMemo((): string[] => {
+        if (source === 'watchlist') return watchlistKey ? watchlistKey.split(',') : [];
+        if (source === 'screener') return screenPoints(listedPoints, criteria);
+        return listedPoints.map(point => point.ticker);
+    }, [source, watchlistKey, listedPoints, criteria]);
+
+    const { profiles, isAvailable: hasProfiles, isLoading: isLoadingProfiles } = useTickerProfiles(universe);
+
+    const points = React.useMemo(
+        () => (history ? computeRiskReturnPoints(history, universe, names, profiles) : []),
+        [history, universe, names, profiles]
+    );
+
+    // Market cap and sectors come from ticker details, which large universes don't get
+    const effectiveSizeMetric: SizeMetric = hasProfiles ? sizeMetric : 'dollarVolume';
+    const effectiveColorBy: ColorGrouping = hasProfiles ? colorBy : 'assetClass';
+
+    const handleSelectPoint = React.useCallback((point: RiskReturnPoint) => {
+        const page = isCryptoTicker(point.ticker) ? '/crypto' : '/stocks';
+        router.push(`${page}?ticker=${encodeURIComponent(point.ticker)}`);
+    }, [router]);
+
+    const sampleDates = history?.markets.stocks?.dates ?? history?.markets.crypto?.dates ?? [];
+    const effectiveError = universeError || error;
+    const missingFromWatchlist = source === 'watchlist' ? universe.length - points.length : 0;
+
+    let status: string | null = null;
+    if (!isAvailable) {
+        status = 'The active market data provider has no market-wide daily bars';
+    } else if (source === 'watchlist' && watchlists !== undefined && watchlists.length === 0) {
+        status = 'Sign in and create a watchlist to plot it here';
+    } else if (isLoading) {
+        status = `Loading ${progress.loaded} of ${progress.total} sampled days...`;
+    } else if (isLoadingProfiles) {
+        status = 'Loading market caps and sectors...';
+    }
+
+    return (
+        <div className={`flex flex-col gap-3 text-sm ${className}`}>
+            {/* Universe */}
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+                <div className="flex gap-1">
+                    {(Object.keys(UNIVERSE_SOURCE_LABELS) as UniverseSource[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setSource(option)}
+                            className={`rounded px-2 py-0.5 ${source === option ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300'}`}
+                        >
+                            {UNIVERSE_SOURCE_LABELS[option]}
+                        </button>
+                    ))}
+                </div>
+
+                {source === 'watchlist' && watchlists && watchlists.length > 0 && (
+                    <select
+                        value={watchlist?._id ?? ''}
+                        onChange={(e) => setWatchlistId(e.target.value as Id<'watchlists'>)}
+                        className="rounded border bg-background p-1 text-foreground"
+                    >
+                        {watchlists.map(list => (
+                            <option key={list._id} value={list._id}>{list.name} ({list.tickers.length})</option>
+                        ))}
+                    </select>
+                )}
+
+                {source === 'screener' && (
+                    <>
+                        <label className="flex items-center gap-1">
+                            Price ≥ $
+                            <input
+                                type="number"
+                                min={0}
+                                value={criteria.minPrice}
+                                onChange={(e) => setCriteria(current => ({ ...current, minPrice: Math.max(0, Number(e.target.value) || 0) }))}
+                                className="w-16 rounded border bg-background p-1 text-foreground"
+                            />
+                        </label>
+                        <label className="flex items-center gap-1">
+                            Avg daily $ volume ≥
+                            <select
+                                value={criteria.minDollarVolume}
+                                onChange={(e) => setCriteria(current => ({ ...current, minDollarVolume: Number(e.target.value) }))}
+                                className="rounded border bg-background p-1 text-foreground"
+                            >
+                                {MIN_DOLLAR_VOLUME_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-1">
+                            Top
+                            <select
+                                value={criteria.limit}
+                                onChange={(e) => setCriteria(current => ({ ...current, limit: Number(e.target.value) }))}
+                                className="rounded border bg-background p-1 text-foreground"
+                            >
+                                {SCREENER_LIMITS.map(limit => (
+                                    <option key={limit} value={limit}>{limit}</option>
+                                ))}
+                            </select>
+                            by $ volume
+                        </label>
+                        <label className="flex items-center gap-1">
+                            <input
+                                type="checkbox"
+                                checked={criteria.includeCrypto}
+                                onChange={(e) => setCriteria(current => ({ ...current, includeCrypto: e.target.checked }))}
+                            />
+                            Include crypto
+                        </label>
+                    </>
+                )}
+            </div>
+
+            {/* Axes and colour */}
+            <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                <div className="flex gap-1">
+                    {(Object.keys(RISK_RETURN_LOOKBACKS) as RiskReturnLookback[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setLookback(option)}
+                            title={`${RISK_RETURN_LOOKBACKS[option].label}, sampled ${RISK_RETURN_LOOKBACKS[option].frequency}`}
+                            className={`rounded px-2 py-0.5 ${lookback === option ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300'}`}
+                        >
+                            {option}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <select
+                        value={effectiveSizeMetric}
+                        onChange={(e) => setSizeMetric(e.target.value as SizeMetric)}
+                        title="What sets each point's depth"
+                        className="rounded border bg-background p-1 text-foreground"
+                    >
+                        {(Object.keys(SIZE_METRIC_LABELS) as SizeMetric[]).map(option => (
+                            <option key={option} value={option} disabled={option === 'marketCap' && !hasProfiles}>
+                                {SIZE_METRIC_LABELS[option]}
+                            </option>
+                        ))}
+                    </select>
+                    <select
+                        value={effectiveColorBy}
+                        onChange={(e) => setColorBy(e.target.value as ColorGrouping)}
+                        title="What sets each point's colour"
+                        className="rounded border bg-background p-1 text-foreground"
+                    >
+                        {(Object.keys(COLOR_GROUPING_LABELS) as ColorGrouping[]).map(option => (
+                            <option key={option} value={option} disabled={option === 'sector' && !hasProfiles}>
+                                {COLOR_GROUPING_LABELS[option]}
+                            </option>
+                        ))}
+                    </select>
+                    <button onClick={refresh} disabled={isLoading} className="rounded bg-gray-700 px-2 py-0.5 text-white disabled:opacity-50">
+                        {isLoading ? 'Loading...' : 'Refresh'}
+                    </button>
+                </div>
+            </div>
+
+            {!hasProfiles && (
+                <div className="text-xs text-muted-foreground">
+                    Market cap and sectors are looked up per ticker, so they&apos;re only available for up to {MAX_PROFILED_TICKERS} stocks.
+                    Use the screener or a watchlist to narrow the universe.
+                </div>
+            )}
+
+            {missingFromWatchlist > 0 && !isLoading && (
+                <div className="rounded bg-yellow-100 px-2 py-1 text-xs text-yellow-800">
+                    {missingFromWatchlist} of {universe.length} tickers don&apos;t have enough history in this period and aren&apos;t shown.
+                </div>
+            )}
+
+            {effectiveError && (
+                <div className="rounded bg-red-100 px-2 py-1 text-xs text-red-700">Error: {effectiveError}</div>
+            )}
+
+            <RiskReturnCloud
+                points={points}
+                sizeMetric={effectiveSizeMetric}
+                colorBy={effectiveColorBy}
+                status={status}
+                onSelectPoint={handleSelectPoint}
+            />
+
+            {sampleDates.length > 0 && (
+                <div className="text-xs text-muted-foreground">
+                    {formatDate(sampleDates[0])} – {formatDate(sampleDates[sampleDates.length - 1])} · {sampleDates.length} {history?.frequency} samples
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RiskReturnExplorer;
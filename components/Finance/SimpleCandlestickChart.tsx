@@ -1,7 +1,23 @@
 'use client';
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import useLiveCryptoPrice from '../../hooks/useLiveCryptoPrice';
+import useLiveStockPrice from '../../hooks/useLiveStockPrice';
+import { INDICATOR_DEFINITIONS, IndicatorConfig, formatIndicatorLabel } from '@/lib/indicators';
+import {
+    CANDLE_TIMEFRAMES,
+    CandleTimeframe,
+    MARKET_SESSION_LABELS,
+    TradeAggregator,
+    fetchCandleHistory,
+    getEquitySession,
+    getMarketDataProvider,
+    historyTimeframeFor,
+    isCryptoTicker,
+    toPolygonCryptoTicker
+} from '@/lib/market-data';
+import IndicatorControls from './IndicatorControls';
+import { ChartBar, IndicatorSeries } from './IndicatorSeries';
 
 // Import SciChart modules
 import {
@@ -15,10 +31,15 @@ import {
     EAutoRange,
     NumberRange,
     EAxisAlignment,
+    ELabelPlacement,
     CursorModifier,
     RubberBandXyZoomModifier,
     XAxisDragModifier,
-    YAxisDragModifier
+    YAxisDragModifier,
+    SciChartVerticalGroup,
+    TSciChart,
+    VerticalLineAnnotation,
+    VisibleRangeChangedArgs
 } from "scichart";
 
 // Initialize SciChart with community license
@@ -30,8 +51,7 @@ SciChartSurface.configure({
     wasmUrl: "/scichart2d.wasm"
 });
 
-const CANDLE_TIMEFRAME = 1; // 1 second
-const MAX_CANDLES = 100;
+const MAX_CANDLES = 500;
 // Only using smart scaling
 const AUTO_SCALING_STRATEGY = "smart";
 
@@ -39,24 +59,179 @@ interface SimpleCandlestickChartProps {
     ticker?: string;
     autoScalingStrategy?: string; // Kept for backward compatibility
     initialVisibleCandles?: number;
+    defaultIndicators?: IndicatorConfig[];
+    initialTimeframe?: CandleTimeframe;
+}
+
+type LiveTrade = ReturnType<typeof useLiveCryptoPrice>['tradeMessages'][number];
+
+interface IndicatorPaneProps {
+    indicator: IndicatorConfig;
+    mainXAxis: NumericAxis | null;
+    verticalGroup: SciChartVerticalGroup | null;
+    getBars: () => { closed: ChartBar[]; forming: ChartBar | null };
+    barsVersion: number;
+    onSeriesChange: (id: string, series: IndicatorSeries | null) => void;
 }
 
+/**
+ * Sub-pane below the candles for one oscillator. Its x-axis follows the main chart (and drives it
+ * when zoomed or panned here); the parent feeds candles to the registered series.
+ */
+const IndicatorPane: React.FC<IndicatorPaneProps> = ({ indicator, mainXAxis, verticalGroup, getBars, barsVersion, onSeriesChange }) => {
+    const paneRef = useRef<HTMLDivElement>(null);
+    const [pane, setPane] = useState<{ surface: SciChartSurface; wasmContext: TSciChart } | null>(null);
+    // Fixed scale for bounded oscillators; a constant per indicator type, so it never re-creates the pane
+    const { range } = INDICATOR_DEFINITIONS[indicator.type];
+
+    // Create the pane surface once the main chart exists
+    useEffect(() => {
+        if (!paneRef.current || !mainXAxis || !verticalGroup) return;
+
+        let isComponentMounted = true;
+        let surface: SciChartSurface | null = null;
+        let unsubscribe = () => {};
+
+        SciChartSurface.create(paneRef.current).then(({ sciChartSurface, wasmContext }) => {
+            if (!isComponentMounted) {
+                sciChartSurface.delete();
+                return;
+            }
+            surface = sciChartSurface;
+
+            const xAxis = new NumericAxis(wasmContext, {
+                drawLabels: false,
+                drawMajorTickLines: false,
+                drawMinorTickLines: false,
+                drawMinorGridLines: false,
+                drawMajorBands: false,
+                autoRange: EAutoRange.Never,
+                visibleRange: mainXAxis.visibleRange
+            });
+            sciChartSurface.xAxes.add(xAxis);
+
+            const yAxis = new NumericAxis(wasmContext, {
+                axisAlignment: EAxisAlignment.Right,
+                drawMinorGridLines: false,
+                drawMajorBands: false,
+                labelStyle: { fontSize: 10 },
+                autoRange: range ? EAutoRange.Never : EAutoRange.Always,
+                visibleRange: range ? new NumberRange(range[0], range[1]) : undefined,
+                growBy: new NumberRange(0.1, 0.1)
+            });
+            sciChartSurface.yAxes.add(yAxis);
+
+            sciChartSurface.chartModifiers.add(
+                new ZoomPanModifier(),
+                new MouseWheelZoomModifier(),
+                new CursorModifier({
+                    showTooltip: false,
+                    crosshairStroke: "#888888",
+                    crosshairStrokeThickness: 1
+                })
+            );
+
+            // Keep the x-axes in step both ways; the equality check stops the updates bouncing back
+            const followMain = (args?: VisibleRangeChangedArgs) => {
+                if (args && !xAxis.visibleRange.equals(args.visibleRange)) {
+                    xAxis.visibleRange = args.visibleRange;
+                }
+            };
+            const driveMain = (args?: VisibleRangeChangedArgs) => {
+                if (args && !mainXAxis.visibleRange.equals(args.visibleRange)) {
+                    mainXAxis.visibleRange = args.visibleRange;
+                }
+            };
+            mainXAxis.visibleRangeChanged.subscribe(followMain);
+            xAxis.visibleRangeChanged.subscribe(driveMain);
+            unsubscribe = () => {
+                mainXAxis.visibleRangeChanged.unsubscribe(followMain);
+                xAxis.visibleRangeChanged.unsubscribe(driveMain);
+            };
+
+            verticalGroup.addSurfaceToGroup(sciChartSurface);
+            setPane({ surface: sciChartSurface, wasmContext });
+        }).catch(err => {
+            console.error("Indicator pane initialization error:", err);
+        });
+
+        return () => {
+            isComponentMounted = false;
+            unsubscribe();
+            setPane(null);
+            if (surface) {
+                verticalGroup.removeSurface(surface);
+                surface.delete();
+            }
+        };
+    }, [mainXAxis, verticalGroup, range]);
+
+    // (Re)build the series whenever the parameters or the candle history change, warming it up on
+    // the candles already drawn
+    useEffect(() => {
+        if (!pane) return;
+
+        const series = new IndicatorSeries(pane.wasmContext, pane.surface, indicator);
+        const { closed, forming } = getBars();
+        series.load(closed, forming);
+        onSeriesChange(indicator.id, series);
+
+        return () => {
+            onSeriesChange(indicator.id, null);
+            series.delete();
+        };
+    }, [pane, indicator, getBars, barsVersion, onSeriesChange]);
+
+    return (
+        <div className="relative h-1/4 min-h-[80px] shrink-0 border-t border-gray-700">
+            <div className="absolute top-1 left-2 z-10 text-xs font-medium pointer-events-none" style={{ color: indicator.color }}>
+                {formatIndicatorLabel(indicator)}
+            </div>
+            <div ref={paneRef} className="w-full h-full" />
+        </div>
+    );
+};
+
 const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
     ticker = 'BTC-USD',
     autoScalingStrategy = AUTO_SCALING_STRATEGY,
-    initialVisibleCandles = 60  // Increased from 30 to 60 for more zoom out
+    initialVisibleCandles = 60,  // Increased from 30 to 60 for more zoom out
+    defaultIndicators = [],
+    initialTimeframe = '1s'
 }) => {
     const chartRef = useRef<HTMLDivElement>(null);
     const [chartReady, setChartReady] = useState(false);
     const [chartError, setChartError] = useState<string | null>(null);
     const [selectedStrategy] = useState(AUTO_SCALING_STRATEGY); // Always smart
+    const [indicators, setIndicators] = useState<IndicatorConfig[]>(defaultIndicators);
+    const [timeframe, setTimeframe] = useState<CandleTimeframe>(initialTimeframe);
+    const [isBackfilling, setIsBackfilling] = useState(false);
+    const [historyError, setHistoryError] = useState<string | null>(null);
+    // Stocks only: include pre-market and after-hours trading
+    const [extendedHours, setExtendedHours] = useState(true);
+    // Bumped whenever the candles are replaced wholesale, so indicators rebuild from the new history
+    const [barsVersion, setBarsVersion] = useState(0);
 
     // Chart state storage
     const chartState = useRef({
         surface: null as any,
         dataSeries: null as any,
         nextIndex: 0,
-        currentCandle: null as any,
+        currentCandle: null as ChartBar | null,
+        closedCandles: [] as ChartBar[],
+        wasmContext: null as TSciChart | null,
+        verticalGroup: null as SciChartVerticalGroup | null,
+        // Overlays and oscillator panes by indicator id, all fed from the candle updates below
+        indicatorSeries: new Map<string, IndicatorSeries>(),
+        overlaysVersion: -1,
+        aggregator: null as TradeAggregator | null,
+        // seq of the newest trade already taken from the feed's rolling window
+        lastTradeSeq: 0,
+        // Trades that arrive while history loads, applied once it's drawn
+        pendingTrades: [] as LiveTrade[],
+        isBackfilling: false,
+        // Marks where loaded history ends and the stream takes over
+        liveBoundary: null as VerticalLineAnnotation | null,
         yAxis: null as any,
         xAxis: null as any,
         priceHistory: [] as number[],
@@ -76,7 +251,10 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
 
     const [autoScalingEnabled, setAutoScalingEnabled] = useState(true);
 
-    // Use crypto price hook
+    // Pick the feed for the asset class; the other hook stays idle with an empty ticker
+    const isCrypto = isCryptoTicker(ticker);
+    const cryptoFeed = useLiveCryptoPrice(isCrypto ? ticker : '');
+    const stockFeed = useLiveStockPrice(isCrypto ? '' : ticker, { extendedHours });
     const {
         status,
         error,
@@ -85,10 +263,20 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
         tradeMessages,
         reconnect,
         subscribe
-    } = useLiveCryptoPrice(ticker || 'BTC-USD');
+    } = isCrypto ? cryptoFeed : stockFeed;
+
+    // Stocks don't trade outside market hours, so the chart shows the last session instead of waiting
+    const session = isCrypto ? null : stockFeed.session;
+    const isMarketClosed = session === 'closed';
+    const isExtendedSession = session === 'pre-market' || session === 'after-hours';
+
+    // Kept current for the chart helpers below, which run from effects and axis callbacks that
+    // shouldn't re-run (or re-subscribe) when these change
+    const settingsRef = useRef({ autoScalingEnabled, lastPrice, initialVisibleCandles, tradeMessages });
+    settingsRef.current = { autoScalingEnabled, lastPrice, initialVisibleCandles, tradeMessages };
 
     // Calculate smart growth factor based on price volatility
-    const calculateSmartGrowthFactor = () => {
+    const calculateSmartGrowthFactor = useCallback(() => {
         const prices = chartState.current.priceHistory;
         if (prices.length < 5) return new NumberRange(0.1, 0.1);
 
@@ -113,14 +301,14 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
         chartState.current.volatilityFactor = newFactor;
 
         return new NumberRange(newFactor, newFactor);
-    };
+    }, []);
 
     // Apply smart auto-ranging for Y axis
-    const applySmartAutoRanging = (force = false) => {
+    const applySmartAutoRanging = useCallback((force = false) => {
         if (!chartState.current.yAxis || !chartState.current.dataSeries) return;
 
         // Skip if auto-scaling is disabled
-        if (!autoScalingEnabled && !force) return;
+        if (!settingsRef.current.autoScalingEnabled && !force) return;
 
         // Skip if we recently auto-ranged (prevents constant rescaling)
         const now = Date.now();
@@ -192,6 +380,7 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
                 yAxis.visibleRange = new NumberRange(paddedMin, paddedMax);
 
                 // Update price marker position
+                const { lastPrice } = settingsRef.current;
                 if (chartState.current.priceMarker && lastPrice) {
                     chartState.current.priceMarker.y1 = lastPrice;
                 }
@@ -202,14 +391,14 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
         } catch (err) {
             console.warn("Error applying smart auto-ranging:", err);
         }
-    };
+    }, [calculateSmartGrowthFactor]);
 
     // Manage X-axis auto-scrolling
-    const manageXAxisAutoScrolling = () => {
+    const manageXAxisAutoScrolling = useCallback(() => {
         if (!chartState.current.xAxis || !chartState.current.dataSeries) return;
 
         // Skip if auto-scaling is disabled
-        if (!autoScalingEnabled) return;
+        if (!settingsRef.current.autoScalingEnabled) return;
 
         try {
             const xAxis = chartState.current.xAxis;
@@ -241,28 +430,34 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
         } catch (err) {
             console.warn("Error managing X-axis auto-scrolling:", err);
         }
-    };
+    }, []);
 
     // Initialize and setup the chart
     useEffect(() => {
         if (!chartRef.current) return;
 
+        const state = chartState.current;
+
         // Clean up any existing chart
-        if (chartState.current.surface) {
-            chartState.current.surface.delete();
-            chartState.current.surface = null;
-            chartState.current.dataSeries = null;
-            chartState.current.nextIndex = 0;
-            chartState.current.currentCandle = null;
-            chartState.current.yAxis = null;
-            chartState.current.xAxis = null;
-            chartState.current.priceMarker = null;
-            chartState.current.priceHistory = [];
-            chartState.current.volatilityFactor = 0.1;
-            chartState.current.lastAutoRangeTime = 0;
-            chartState.current.previousGrowBy = new NumberRange(0.1, 0.1);
-            chartState.current.lastVisibleRange = null;
-            chartState.current.visibleRangeChangeCount = 0;
+        if (state.surface) {
+            state.surface.delete();
+            state.surface = null;
+            state.dataSeries = null;
+            state.nextIndex = 0;
+            state.currentCandle = null;
+            state.closedCandles = [];
+            state.wasmContext = null;
+            state.verticalGroup = null;
+            state.indicatorSeries.clear();
+            state.yAxis = null;
+            state.xAxis = null;
+            state.priceMarker = null;
+            state.priceHistory = [];
+            state.volatilityFactor = 0.1;
+            state.lastAutoRangeTime = 0;
+            state.previousGrowBy = new NumberRange(0.1, 0.1);
+            state.lastVisibleRange = null;
+            state.visibleRangeChangeCount = 0;
             setChartReady(false);
         }
 
@@ -281,7 +476,13 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
                     return;
                 }
 
-                chartState.current.surface = sciChartSurface;
+                state.surface = sciChartSurface;
+                state.wasmContext = wasmContext;
+
+                // Indicator panes join this group so their y-axes line up with the price axis
+                const verticalGroup = new SciChartVerticalGroup();
+                verticalGroup.addSurfaceToGroup(sciChartSurface);
+                state.verticalGroup = verticalGroup;
 
                 // Create X-axis with better time scaling
                 const xAxis = new NumericAxis(wasmContext, {
@@ -292,7 +493,7 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
                     autoTicks: true
                 });
                 sciChartSurface.xAxes.add(xAxis);
-                chartState.current.xAxis = xAxis;
+                state.xAxis = xAxis;
 
                 // Create Y-axis with initial auto-range settings
                 const yAxis = new NumericAxis(wasmContext, {
@@ -305,11 +506,11 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
                     growBy: new NumberRange(0.1, 0.1)
                 });
                 sciChartSurface.yAxes.add(yAxis);
-                chartState.current.yAxis = yAxis;
+                state.yAxis = yAxis;
 
                 // Create data series
                 const dataSeries = new OhlcDataSeries(wasmContext);
-                chartState.current.dataSeries = dataSeries;
+                state.dataSeries = dataSeries;
 
                 // Create renderable series
                 const renderSeries = new FastCandlestickRenderableSeries(wasmContext, {
@@ -343,7 +544,7 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
                 // Set up axis range changed listeners for smart auto-scaling
                 xAxis.visibleRangeChanged.subscribe(() => {
                     // User manually changed the range
-                    chartState.current.isUserZoomed = true;
+                    state.isUserZoomed = true;
 
                     // Call the auto-scrolling function to handle new data
                     manageXAxisAutoScrolling();
@@ -365,27 +566,252 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
             clearTimeout(initTimer);
 
             // Clean up chart
-            if (chartState.current.surface) {
+            if (state.surface) {
                 try {
-                    chartState.current.surface.delete();
+                    state.surface.delete();
                 } catch (e) {
                     console.warn("Error during cleanup:", e);
                 }
-                chartState.current.surface = null;
-                chartState.current.dataSeries = null;
-                chartState.current.yAxis = null;
-                chartState.current.xAxis = null;
-                chartState.current.priceMarker = null;
+                state.surface = null;
+                state.dataSeries = null;
+                state.yAxis = null;
+                state.xAxis = null;
+                state.priceMarker = null;
+                state.wasmContext = null;
+                state.verticalGroup = null;
+                // The surface owned the overlays; panes remove their own series as they unmount
+                state.indicatorSeries.clear();
+            }
+            setChartReady(false);
+        };
+    }, [ticker, manageXAxisAutoScrolling]);
+
+    // Candles drawn so far, for warming up newly added indicators
+    const getBars = useCallback(() => ({
+        closed: chartState.current.closedCandles,
+        forming: chartState.current.currentCandle
+    }), []);
+
+    const handleSeriesChange = useCallback((id: string, series: IndicatorSeries | null) => {
+        if (series) {
+            chartState.current.indicatorSeries.set(id, series);
+        } else {
+            chartState.current.indicatorSeries.delete(id);
+        }
+    }, []);
+
+    // Sync price overlays on the main pane with the configured indicators. Config objects are replaced
+    // when their parameters change, so anything whose config isn't current is rebuilt.
+    useEffect(() => {
+        const { surface, wasmContext, indicatorSeries } = chartState.current;
+        if (!chartReady || !surface || !wasmContext) return;
+
+        const overlays = indicators.filter(indicator => INDICATOR_DEFINITIONS[indicator.type].pane === 'price');
+        const isNewHistory = chartState.current.overlaysVersion !== barsVersion;
+        chartState.current.overlaysVersion = barsVersion;
+
+        indicatorSeries.forEach((series, id) => {
+            if (series.definition.pane === 'price' && (isNewHistory || !overlays.includes(series.config))) {
+                series.delete();
+                indicatorSeries.delete(id);
+            }
+        });
+
+        for (const indicator of overlays) {
+            if (indicatorSeries.has(indicator.id)) continue;
+            const series = new IndicatorSeries(wasmContext, surface, indicator);
+            const { closed, forming } = getBars();
+            series.load(closed, forming);
+            indicatorSeries.set(indicator.id, series);
+        }
+    }, [chartReady, indicators, barsVersion, getBars]);
+
+    // Fold one trade into the candles, indicators included
+    const applyTrade = useCallback((trade: LiveTrade) => {
+        const state = chartState.current;
+        const result = state.aggregator?.add(trade.p, trade.s || 0, trade.t);
+        if (!result) return;
+
+        state.priceHistory.push(trade.p);
+        // Limit history size
+        if (state.priceHistory.length > 100) {
+            state.priceHistory.shift();
+        }
+
+        const dataSeries = state.dataSeries;
+        const currentCandle = state.currentCandle;
+
+        if (result.isNewBar) {
+            // The current candle is complete: fold it into the indicators' history
+            if (currentCandle) {
+                state.closedCandles.push(currentCandle);
+                state.indicatorSeries.forEach(series => series.commitLast(currentCandle));
+            }
+
+            // Draw the new candle straight away so it fills in as trades arrive
+            const newCandle: ChartBar = { ...result.bar, index: state.nextIndex++ };
+            state.currentCandle = newCandle;
+            dataSeries.append(newCandle.index, newCandle.open, newCandle.high, newCandle.low, newCandle.close);
+            state.indicatorSeries.forEach(series => series.append(newCandle));
+
+            // Handle X-axis auto-scrolling
+            manageXAxisAutoScrolling();
+        } else if (currentCandle) {
+            Object.assign(currentCandle, result.bar);
+            dataSeries.update(
+                dataSeries.count() - 1,
+                currentCandle.open,
+                currentCandle.high,
+                currentCandle.low,
+                currentCandle.close
+            );
+            state.indicatorSeries.forEach(series => series.updateLast(currentCandle));
+        }
+    }, [manageXAxisAutoScrolling]);
+
+    // Trim the oldest candles beyond MAX_CANDLES
+    const limitCandles = useCallback(() => {
+        const state = chartState.current;
+        if (state.dataSeries.count() <= MAX_CANDLES) return;
+
+        const removeCount = state.dataSeries.count() - MAX_CANDLES;
+        state.dataSeries.removeRange(0, removeCount);
+        state.closedCandles.splice(0, removeCount);
+        state.indicatorSeries.forEach(series => series.removeOldest(removeCount));
+    }, []);
+
+    // Scroll to the most recent candles
+    const showLatestCandles = useCallback(() => {
+        try {
+            if (chartState.current.xAxis && chartState.current.dataSeries) {
+                const dataSeries = chartState.current.dataSeries;
+                if (dataSeries.count() > 0) {
+                    const xAxis = chartState.current.xAxis;
+                    const lastIndex = dataSeries.count() - 1;
+                    const visibleCount = Math.min(settingsRef.current.initialVisibleCandles, dataSeries.count());
+
+                    if (visibleCount > 0) {
+                        const startIndex = Math.max(0, lastIndex - visibleCount + 1);
+                        const startX = dataSeries.xValues.get(startIndex);
+                        const endX = dataSeries.xValues.get(lastIndex) + 1; // Add 1 for some padding
+
+                        xAxis.visibleRange = new NumberRange(startX, endX);
+                        applySmartAutoRanging(true);
+                    }
+                }
+            }
+        } catch (err) {
+            console.warn("Error setting initial visible range:", err);
+        }
+    }, [applySmartAutoRanging]);
+
+    // Start the candles over for the selected timeframe, seeded with recent history so the chart
+    // isn't blank while live candles build up
+    useEffect(() => {
+        const state = chartState.current;
+        if (!chartReady || !state.dataSeries) return;
+
+        let cancelled = false;
+
+        state.dataSeries.clear();
+        state.closedCandles = [];
+        state.currentCandle = null;
+        state.nextIndex = 0;
+        state.priceHistory = [];
+        state.pendingTrades = [];
+        // Trades already in the feed's window are older than the history about to load
+        const { tradeMessages: seenTrades } = settingsRef.current;
+        state.lastTradeSeq = seenTrades.length > 0 ? seenTrades[seenTrades.length - 1].seq : 0;
+        if (state.liveBoundary) {
+            state.surface?.annotations.remove(state.liveBoundary, true);
+            state.liveBoundary = null;
+        }
+        // Daily crypto candles roll over at midnight UTC, stock ones at midnight New York time
+        state.aggregator = new TradeAggregator(timeframe, isCryptoTicker(ticker) ? 'UTC' : 'America/New_York');
+        setDisplayCandle(null);
+        setHistoryError(null);
+
+        state.isBackfilling = true;
+        setIsBackfilling(true);
+
+        const polygonTicker = isCryptoTicker(ticker) ? toPolygonCryptoTicker(ticker) : ticker.toUpperCase();
+        // Sub-minute timeframes are seeded with minute bars, which live candles can't extend
+        const historyTimeframe = historyTimeframeFor(timeframe);
+
+        const loadHistory = async () => {
+            try {
+                let bars = await fetchCandleHistory(getMarketDataProvider(), polygonTicker, historyTimeframe, MAX_CANDLES);
+                if (cancelled || !state.dataSeries) return;
+
+                // Polygon's intraday stock bars include extended hours; daily bars are regular session only
+                if (!isCryptoTicker(ticker) && !extendedHours && historyTimeframe !== '1D') {
+                    bars = bars.filter(bar => getEquitySession(bar.timestamp) === 'regular');
+                }
+
+                const candles: ChartBar[] = bars.map(bar => ({ ...bar, index: state.nextIndex++ }));
+                for (const candle of candles) {
+                    state.dataSeries.append(candle.index, candle.open, candle.high, candle.low, candle.close);
+                    state.priceHistory.push(candle.close);
+                }
+                state.priceHistory = state.priceHistory.slice(-100);
+
+                const lastCandle = candles[candles.length - 1];
+                if (lastCandle) {
+                    setDisplayCandle(lastCandle);
+
+                    state.liveBoundary = new VerticalLineAnnotation({
+                        x1: lastCandle.index + 0.5,
+                        stroke: "#888888",
+                        strokeThickness: 1,
+                        strokeDashArray: [4, 4],
+                        showLabel: true,
+                        labelPlacement: ELabelPlacement.TopRight,
+                        labelValue: historyTimeframe === timeframe ? "Live" : `Live (history in ${CANDLE_TIMEFRAMES[historyTimeframe].label})`,
+                        axisLabelFill: "#374151",
+                        axisLabelStroke: "#ffffff",
+                        axisFontSize: 10
+                    });
+                    state.surface?.annotations.add(state.liveBoundary);
+                }
+
+                if (historyTimeframe === timeframe && lastCandle) {
+                    // The latest bar may still be forming; live trades in its bucket extend it
+                    state.closedCandles = candles.slice(0, -1);
+                    state.currentCandle = lastCandle;
+                    state.aggregator?.seed(lastCandle);
+                } else {
+                    state.closedCandles = candles;
+                }
+            } catch (err) {
+                if (cancelled) return;
+                const errorMessage = err instanceof Error ? err.message : 'Unknown error loading history';
+                console.warn("Error loading candle history:", errorMessage);
+                setHistoryError(errorMessage);
             }
+
+            // Carry on live from the stream
+            state.isBackfilling = false;
+            state.pendingTrades.splice(0).forEach(applyTrade);
+            limitCandles();
+            setIsBackfilling(false);
+            setBarsVersion(version => version + 1);
+            showLatestCandles();
         };
-    }, [ticker]);
+
+        loadHistory();
+
+        return () => {
+            cancelled = true;
+            state.isBackfilling = false;
+        };
+    }, [chartReady, timeframe, ticker, extendedHours, applyTrade, limitCandles, showLatestCandles]);
 
     // Apply auto-scaling immediately when chart is ready
     useEffect(() => {
         if (chartReady) {
             applySmartAutoRanging(true);
         }
-    }, [chartReady]);
+    }, [chartReady, applySmartAutoRanging]);
 
     // Handle subscriptions only after chart is ready
     useEffect(() => {
@@ -395,138 +821,53 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
             subscribe(ticker || 'BTC-USD');
 
             // Initialize with the selected number of visible candles
-            setTimeout(() => {
-                try {
-                    if (chartState.current.xAxis && chartState.current.dataSeries) {
-                        const dataSeries = chartState.current.dataSeries;
-                        if (dataSeries.count() > 0) {
-                            const xAxis = chartState.current.xAxis;
-                            const lastIndex = dataSeries.count() - 1;
-                            const visibleCount = Math.min(initialVisibleCandles, dataSeries.count());
-
-                            if (visibleCount > 0) {
-                                const startIndex = Math.max(0, lastIndex - visibleCount + 1);
-                                const startX = dataSeries.xValues.get(startIndex);
-                                const endX = dataSeries.xValues.get(lastIndex) + 1; // Add 1 for some padding
-
-                                xAxis.visibleRange = new NumberRange(startX, endX);
-                                applySmartAutoRanging(true);
-                            }
-                        }
-                    }
-                } catch (err) {
-                    console.warn("Error setting initial visible range:", err);
-                }
-            }, 500);
+            setTimeout(showLatestCandles, 500);
         }
-    }, [ticker, subscribe, chartReady, initialVisibleCandles]);
+    }, [ticker, subscribe, chartReady, initialVisibleCandles, showLatestCandles]);
 
     // Process trade data and update the chart
     useEffect(() => {
         // Skip if chart not ready or no data
-        if (!chartReady || !chartState.current.dataSeries || tradeMessages.length === 0) return;
+        const state = chartState.current;
+        if (!chartReady || !state.dataSeries || tradeMessages.length === 0) return;
+
+        // Only the trades we haven't seen; the hook keeps a rolling window of recent ones, so a
+        // burst can push trades we have seen out of it
+        const newTrades = tradeMessages.filter(trade => trade.seq > state.lastTradeSeq);
+        if (newTrades.length === 0) return;
+        const latestTrade = newTrades[newTrades.length - 1];
+        state.lastTradeSeq = latestTrade.seq;
+
+        if (state.isBackfilling) {
+            state.pendingTrades.push(...newTrades);
+            return;
+        }
 
         try {
-            // Get latest trade
-            const latestTrade = tradeMessages[tradeMessages.length - 1];
-            const timestamp = latestTrade.t;
-            const price = latestTrade.p;
-
-            // Store price in history for volatility calculations
-            chartState.current.priceHistory.push(price);
-            // Limit history size
-            if (chartState.current.priceHistory.length > 100) {
-                chartState.current.priceHistory.shift();
-            }
+            const previousCandle = state.currentCandle;
+            newTrades.forEach(applyTrade);
 
             // Update price marker
-            if (chartState.current.priceMarker) {
-                chartState.current.priceMarker.y1 = price;
-                chartState.current.priceMarker.axisLabelFormatter = (v: number) =>
+            if (state.priceMarker) {
+                state.priceMarker.y1 = latestTrade.p;
+                state.priceMarker.axisLabelFormatter = (v: number) =>
                     `$${v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 8 })}`;
             }
 
-            // Calculate candle timestamp
-            const candleDuration = CANDLE_TIMEFRAME * 1000;
-            const candleTimestamp = Math.floor(timestamp / candleDuration) * candleDuration;
-
-            // Get current candle
-            const currentCandle = chartState.current.currentCandle;
-
-            // Update or create new candle
-            if (!currentCandle || currentCandle.timestamp !== candleTimestamp) {
-                // If we have a current candle, append it
-                if (currentCandle) {
-                    chartState.current.dataSeries.append(
-                        currentCandle.index,
-                        currentCandle.open,
-                        currentCandle.high,
-                        currentCandle.low,
-                        currentCandle.close
-                    );
-
-                    // Increment next index
-                    chartState.current.nextIndex++;
-
-                    // Handle X-axis auto-scrolling
-                    manageXAxisAutoScrolling();
-                }
-
-                // Create new candle
-                const newCandle = {
-                    index: chartState.current.nextIndex,
-                    timestamp: candleTimestamp,
-                    open: price,
-                    high: price,
-                    low: price,
-                    close: price
-                };
-
-                // Store in state
-                chartState.current.currentCandle = newCandle;
-
-                // Update display state
+            // Update display on every new candle and occasionally while one forms
+            const currentCandle = state.currentCandle;
+            if (currentCandle && (currentCandle !== previousCandle || Math.random() < 0.1)) {
                 setDisplayCandle({
-                    open: price,
-                    high: price,
-                    low: price,
-                    close: price,
-                    timestamp: candleTimestamp
+                    open: currentCandle.open,
+                    high: currentCandle.high,
+                    low: currentCandle.low,
+                    close: currentCandle.close,
+                    timestamp: currentCandle.timestamp
                 });
-            } else {
-                // Update existing candle
-                currentCandle.high = Math.max(currentCandle.high, price);
-                currentCandle.low = Math.min(currentCandle.low, price);
-                currentCandle.close = price;
-
-                // Update in series
-                if (chartState.current.dataSeries.count() > 0) {
-                    chartState.current.dataSeries.update(
-                        currentCandle.index,
-                        currentCandle.open,
-                        currentCandle.high,
-                        currentCandle.low,
-                        price
-                    );
-                }
-
-                // Update display occasionally
-                if (Math.random() < 0.1) {
-                    setDisplayCandle({
-                        open: currentCandle.open,
-                        high: currentCandle.high,
-                        low: currentCandle.low,
-                        close: currentCandle.close,
-                        timestamp: currentCandle.timestamp
-                    });
-                }
             }
 
             // Limit candles
-            if (chartState.current.dataSeries.count() > MAX_CANDLES) {
-                const removeCount = chartState.current.dataSeries.count() - MAX_CANDLES;
-                chartState.current.dataSeries.removeRange(0, removeCount);
-            }
+            limitCandles();
 
             // Apply smart auto-ranging
             applySmartAutoRanging();
@@ -534,11 +875,13 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
         } catch (err) {
             console.warn("Error updating chart data:", err);
         }
-    }, [tradeMessages, chartReady]);
+    }, [tradeMessages, chartReady, applyTrade, limitCandles, applySmartAutoRanging]);
 
     // Format time for display
     const formatTime = (timestamp: number): string => {
-        return new Date(timestamp).toLocaleTimeString();
+        const date = new Date(timestamp);
+        // Loaded history can reach back days, so give the date for anything before today
+        return date.toDateString() === new Date().toDateString() ? date.toLocaleTimeString() : date.toLocaleString();
     };
 
     // Toggle auto-scaling
@@ -552,83 +895,148 @@ const SimpleCandlestickChart: React.FC<SimpleCandlestickChartProps> = ({
 
     // Removed changeStrategy function as we only use smart scaling
 
+    const oscillators = indicators.filter(indicator => INDICATOR_DEFINITIONS[indicator.type].pane === 'oscillator');
+    const overlays = indicators.filter(indicator => INDICATOR_DEFINITIONS[indicator.type].pane === 'price');
+
     return (
-        <div className="relative w-full h-full">
-            {/* Status indicators */}
-            {(status !== 'Connected' && status !== 'Initializing') && (
-                <div className="absolute top-2 right-2 z-10 bg-yellow-100 text-yellow-800 px-3 py-1 rounded-full text-xs font-medium">
-                    {status}
-                </div>
-            )}
+        <div className="relative w-full h-full flex flex-col">
+            <div className="relative flex-1 min-h-0">
+                {/* Status indicators */}
+                {(status !== 'Connected' && status !== 'Initializing') && (
+                    <div className="absolute top-2 right-2 z-10 bg-yellow-100 text-yellow-800 px-3 py-1 rounded-full text-xs font-medium">
+                        {status}
+                    </div>
+                )}
 
-            {!chartReady && (
-                <div className="absolute top-2 right-16 z-10 bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-xs font-medium">
-                    Chart loading...
-                </div>
-            )}
+                {!chartReady && (
+                    <div className="absolute top-2 right-16 z-10 bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-xs font-medium">
+                        Chart loading...
+                    </div>
+                )}
 
-            {/* Error display */}
-            {(error || chartError) && (
-                <div className="absolute top-2 left-2 z-10 bg-red-100 text-red-800 px-3 py-1 rounded-full text-xs font-medium max-w-xs">
-                    Error: {error || chartError}
-                </div>
-            )}
-
-            {/* Price and candle info */}
-            {lastPrice && displayCandle && (
-                <div className="absolute top-2 left-2 z-10 bg-black bg-opacity-70 text-white px-3 py-1 rounded-md">
-                    <div className="text-xs opacity-70">{formattedTicker}</div>
-                    <div className="text-xl font-bold">${lastPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 8 })}</div>
-                    <div className="text-xs mt-1">
-                        <span className="opacity-70">Candle: </span>
-                        <span className="font-mono">O: ${displayCandle.open.toFixed(2)} </span>
-                        <span className="font-mono">H: ${displayCandle.high.toFixed(2)} </span>
-                        <span className="font-mono">L: ${displayCandle.low.toFixed(2)} </span>
-                        <span className="font-mono">C: ${displayCandle.close.toFixed(2)}</span>
+                {isBackfilling ? (
+                    <div className="absolute top-12 right-2 z-10 bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-xs font-medium">
+                        Loading history...
+                    </div>
+                ) : isMarketClosed ? (
+                    <div className="absolute top-12 right-2 z-10 bg-gray-100 text-gray-800 px-3 py-1 rounded-full text-xs font-medium">
+                        Market closed · showing the last session
                     </div>
-                    <div className="text-xs opacity-70">
-                        {formatTime(displayCandle.timestamp)}
+                ) : session && isExtendedSession && (
+                    <div className="absolute top-12 right-2 z-10 bg-purple-100 text-purple-800 px-3 py-1 rounded-full text-xs font-medium">
+                        {MARKET_SESSION_LABELS[session]}
+                        {extendedHours ? ' · extended-hours trades' : ' · waiting for the open'}
+                    </div>
+                )}
+
+                {/* Error display */}
+                {(error || chartError || historyError) && (
+                    <div className="absolute top-2 left-2 z-10 bg-red-100 text-red-800 px-3 py-1 rounded-full text-xs font-medium max-w-xs">
+                        Error: {error || chartError || `History unavailable: ${historyError}`}
+                    </div>
+                )}
+
+                {/* Price and candle info */}
+                {displayCandle && (
+                    <div className="absolute top-2 left-2 z-10 bg-black bg-opacity-70 text-white px-3 py-1 rounded-md">
+                        <div className="text-xs opacity-70">
+                            {formattedTicker}
+                            {/* Until a trade arrives the price is the last loaded candle's close */}
+                            {lastPrice === null && ' · Last close'}
+                        </div>
+                        <div className="text-xl font-bold">${(lastPrice ?? displayCandle.close).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 8 })}</div>
+                        <div className="text-xs mt-1">
+                            <span className="opacity-70">Candle: </span>
+                            <span className="font-mono">O: ${displayCandle.open.toFixed(2)} </span>
+                            <span className="font-mono">H: ${displayCandle.high.toFixed(2)} </span>
+                            <span className="font-mono">L: ${displayCandle.low.toFixed(2)} </span>
+                            <span className="font-mono">C: ${displayCandle.close.toFixed(2)}</span>
+                        </div>
+                        <div className="text-xs opacity-70">
+                            {formatTime(displayCandle.timestamp)}
+                        </div>
+                    </div>
+                )}
+
+                {/* Timeframe selector */}
+                <div className="absolute top-2 right-2 z-10 bg-gray-800 text-white px-3 py-1 rounded-md flex items-center">
+                    <div className="flex items-center space-x-1">
+                        {(Object.keys(CANDLE_TIMEFRAMES) as CandleTimeframe[]).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setTimeframe(option)}
+                                className={`text-xs px-1.5 py-0.5 rounded ${timeframe === option ? 'bg-blue-600' : 'hover:bg-gray-700'}`}
+                            >
+                                {CANDLE_TIMEFRAMES[option].label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="text-xs ml-2 px-2 py-0.5 bg-gray-700 rounded-sm">
+                        Smart Scale
                     </div>
                 </div>
-            )}
 
-            {/* Simplified timeframe indicator */}
-            <div className="absolute top-2 right-2 z-10 bg-gray-800 text-white px-3 py-1 rounded-md flex items-center">
-                <span>1s Candles</span>
-                <div className="text-xs ml-2 px-2 py-0.5 bg-gray-700 rounded-sm">
-                    Smart Scale
+                {/* Simplified controls */}
+                <div className="absolute bottom-2 left-2 z-10 bg-gray-800 bg-opacity-75 text-white px-3 py-1 rounded-md flex items-center space-x-2">
+                    <button
+                        onClick={toggleAutoScaling}
+                        className={`text-xs px-2 py-0.5 rounded ${autoScalingEnabled ? 'bg-green-600' : 'bg-gray-600'}`}
+                    >
+                        Auto-Scale: {autoScalingEnabled ? 'ON' : 'OFF'}
+                    </button>
+
+                    <button
+                        onClick={() => applySmartAutoRanging(true)}
+                        className="text-xs px-2 py-0.5 bg-blue-600 rounded"
+                    >
+                        Reset View
+                    </button>
+
+                    {!isCrypto && (
+                        <button
+                            onClick={() => setExtendedHours(!extendedHours)}
+                            className={`text-xs px-2 py-0.5 rounded ${extendedHours ? 'bg-purple-600' : 'bg-gray-600'}`}
+                            title="Include pre-market and after-hours trading"
+                        >
+                            Ext. Hours: {extendedHours ? 'ON' : 'OFF'}
+                        </button>
+                    )}
+
+                    <IndicatorControls indicators={indicators} onChange={setIndicators} />
+
+                    {overlays.map(indicator => (
+                        <span key={indicator.id} className="text-xs font-medium" style={{ color: indicator.color }}>
+                            {formatIndicatorLabel(indicator)}
+                        </span>
+                    ))}
                 </div>
-            </div>
 
-            {/* Simplified controls */}
-            <div className="absolute bottom-2 left-2 z-10 bg-gray-800 bg-opacity-75 text-white px-3 py-1 rounded-md flex items-center space-x-2">
-                <button
-                    onClick={toggleAutoScaling}
-                    className={`text-xs px-2 py-0.5 rounded ${autoScalingEnabled ? 'bg-green-600' : 'bg-gray-600'}`}
-                >
-                    Auto-Scale: {autoScalingEnabled ? 'ON' : 'OFF'}
-                </button>
-
-                <button
-                    onClick={() => applySmartAutoRanging(true)}
-                    className="text-xs px-2 py-0.5 bg-blue-600 rounded"
-                >
-                    Reset View
-                </button>
+                {/* Reconnect button */}
+                {status === 'Disconnected' && (
+                    <button
+                        onClick={reconnect}
+                        className="absolute bottom-2 right-2 z-10 bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded text-sm"
+                    >
+                        Reconnect
+                    </button>
+                )}
+
+                {/* Chart container */}
+                <div ref={chartRef} className="w-full h-full" />
             </div>
 
-            {/* Reconnect button */}
-            {status === 'Disconnected' && (
-                <button
-                    onClick={reconnect}
-                    className="absolute bottom-2 right-2 z-10 bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded text-sm"
-                >
-                    Reconnect
-                </button>
-            )}
-
-            {/* Chart container */}
-            <div ref={chartRef} className="w-full h-full" />
+            {/* Oscillator panes, x-axes synchronized with the candles */}
+            {oscillators.map(indicator => (
+                <IndicatorPane
+                    key={indicator.id}
+                    indicator={indicator}
+                    mainXAxis={chartReady ? chartState.current.xAxis : null}
+                    verticalGroup={chartReady ? chartState.current.verticalGroup : null}
+                    getBars={getBars}
+                    barsVersion={barsVersion}
+                    onSeriesChange={handleSeriesChange}
+                />
+            ))}
         </div>
     );
 };
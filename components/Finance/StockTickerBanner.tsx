@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { useMarketSnapshot, MarketDataTicker } from '../../hooks/useStockMarketSnapshot';
+import { useWatchlistQuotes } from '../../hooks/useWatchlistQuotes';
 import Papa from 'papaparse';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
@@ -28,12 +29,15 @@ interface StockTickerBannerProps {
   tickersPerLetter?: number;
   scrollSpeed?: number;
   className?: string;
+  // Show these tickers (e.g. a user's watchlist) in order instead of the top tickers from tickers.csv
+  tickers?: string[];
 }
 
 const StockTickerBanner: React.FC<StockTickerBannerProps> = ({
   tickersPerLetter = 10,
   scrollSpeed = 100,
   className = '',
+  tickers: watchlistTickers,
 }) => {
   // State for tickers and data
   const [, setAllTickers] = useState<Ticker[]>([]);
@@ -48,8 +52,37 @@ const StockTickerBanner: React.FC<StockTickerBannerProps> = ({
   // Use the market snapshot hook
   const { fetchMarketData, isLoading: isMarketDataLoading } = useMarketSnapshot();
 
+  // Live quotes for watchlist mode (refreshes on its own, so no loading flicker on each poll)
+  const isWatchlistMode = watchlistTickers !== undefined;
+  const { quotes: watchlistQuotes, lastUpdated: watchlistUpdated } = useWatchlistQuotes(
+    watchlistTickers ?? [],
+    isWatchlistMode ? undefined : 0
+  );
+
+  // Show watchlist tickers in the user's order as their quotes arrive
+  useEffect(() => {
+    if (!watchlistTickers) return;
+
+    setTickerData(watchlistTickers.map(ticker => {
+      const quote = watchlistQuotes[ticker];
+      return {
+        ticker: ticker.replace(/^X:/, ''),
+        name: '',
+        volume: quote?.volume || 0,
+        price: quote?.price || 0,
+        change: quote?.changePercent || 0
+      };
+    }));
+
+    if (watchlistUpdated || watchlistTickers.length === 0) {
+      setIsLoading(false);
+    }
+  }, [watchlistTickers, watchlistQuotes, watchlistUpdated]);
+
   // Load all tickers from CSV
   useEffect(() => {
+    if (isWatchlistMode) return;
+
     const loadTickers = async () => {
       try {
         const response = await fetch('/tickers.csv');
@@ -79,7 +112,7 @@ const StockTickerBanner: React.FC<StockTickerBannerProps> = ({
     };
 
     loadTickers();
-  }, [fetchMarketData]);
+  }, [fetchMarketData, isWatchlistMode]);
 
   // Process all letters A-Z
   const processAllLetters = async (tickers: Ticker[]) => {
@@ -2,6 +2,20 @@
 
 import * as React from "react";
 import { useTickerPricing } from '../../hooks/useTickerPriceRange';
+import { CorporateAction, CorporateActionType, isCryptoTicker } from '@/lib/market-data';
+import {
+    GapFill,
+    SURFACE_AXIS_TITLES,
+    SURFACE_MODES,
+    SurfaceGrid,
+    SurfaceMode,
+    buildSurfaceGrid,
+    formatSurfaceColumn,
+    formatSurfaceRow,
+    formatSurfaceValue,
+    getSurfaceDateRange,
+    locateSurfaceDate
+} from '@/lib/surface';
 import {
     CameraController,
     EDrawMeshAs,
@@ -11,29 +25,74 @@ import {
     NumberRange,
     NumericAxis3D,
     OrbitModifier3D,
+    PyramidPointMarker3D,
     ResetCamera3DModifier,
+    ScatterRenderableSeries3D,
     SciChart3DSurface,
+    SpherePointMarker3D,
     SurfaceMeshRenderableSeries3D,
     TooltipModifier3D,
     UniformGridDataSeries3D,
     Vector3,
+    XyzDataSeries3D,
     SciChartSurface
 } from "scichart";
 
-// Helper function to ensure a value is not undefined/null
-function ensure<T>(value: T | undefined | null, message: string = 'Value was expected to exist'): T {
-    if (value === undefined || value === null) {
-        throw new TypeError(message);
-    }
-    return value;
-}
-
 // Props interface for the component
 interface SurfaceChartProps {
     ticker?: string;
     year?: number;
+    // Split-adjusted prices (default) or prices as they traded
+    adjusted?: boolean;
+    // Splits and dividends to mark on the surface; those outside the grid are ignored
+    corporateActions?: CorporateAction[];
+    // What the surface measures and how it's laid out (see SURFACE_MODES)
+    mode?: SurfaceMode;
+    // How days without a bar (weekends, holidays) are drawn
+    gapFill?: GapFill;
 }
 
+const MARKER_STYLES: Record<CorporateActionType, { name: string; fill: string }> = {
+    split: { name: 'Splits', fill: '#38BDF8' },
+    dividend: { name: 'Dividends', fill: '#E879F9' }
+};
+
+const NO_ACTIONS: CorporateAction[] = [];
+
+// Low values green through to high values red
+const LEVEL_STOPS = [
+    { offset: 0, color: "#1E5631" },   // Dark green (low values)
+    { offset: 0.25, color: "#A2D149" }, // Light green
+    { offset: 0.5, color: "#FFFF99" },  // Yellow
+    { offset: 0.75, color: "#FF9933" }, // Orange
+    { offset: 1, color: "#CC3300" },    // Red (high values)
+];
+
+// Losses red, flat grey, gains green
+const DIVERGING_STOPS = [
+    { offset: 0, color: "#CC3300" },
+    { offset: 0.5, color: "#555555" },
+    { offset: 1, color: "#22A33A" },
+];
+
+// Colour scale and Y axis for a grid: returns are centred on zero, volumes and ranges start at zero
+const getValueScale = (grid: SurfaceGrid): { minimum: number; maximum: number; axisMin: number; axisMax: number } => {
+    const definition = SURFACE_MODES[grid.mode];
+    if (definition.isDiverging) {
+        const extent = Math.max(Math.abs(grid.minValue), Math.abs(grid.maxValue), 0.01);
+        return { minimum: -extent, maximum: extent, axisMin: -extent * 1.1, axisMax: extent * 1.1 };
+    }
+
+    const minimum = grid.minValue;
+    // Ensure we have a reasonable Y-axis range even if data is sparse
+    const maximum = Math.max(grid.maxValue, minimum + (definition.format === 'price' ? 5 : 1));
+    if (definition.format === 'price' && grid.layout !== 'intraday') {
+        return { minimum, maximum, axisMin: minimum * 0.9, axisMax: maximum * 1.1 };
+    }
+    const padding = (maximum - minimum) * 0.1;
+    return { minimum, maximum, axisMin: definition.format === 'volume' ? 0 : minimum - padding, axisMax: maximum + padding };
+};
+
 // Make sure to initialize WASM before any chart creation
 const initSciChartWasm = () => {
     try {
@@ -67,7 +126,14 @@ const initSciChartWasm = () => {
 initSciChartWasm();
 
 // REACT COMPONENT
-export default function SurfaceChart({ ticker = 'AAPL', year = 2024 }: SurfaceChartProps) {
+export default function SurfaceChart({
+    ticker = 'AAPL',
+    year = 2024,
+    adjusted = true,
+    corporateActions = NO_ACTIONS,
+    mode = 'close',
+    gapFill = 'carryForward'
+}: SurfaceChartProps) {
     // Use refs for chart elements
     const chartRef = React.useRef<HTMLDivElement>(null);
     const legendRef = React.useRef<HTMLDivElement>(null);
@@ -76,7 +142,9 @@ export default function SurfaceChart({ ticker = 'AAPL', year = 2024 }: SurfaceCh
     const [isLoading, setIsLoading] = React.useState(true);
     const [error, setError] = React.useState<string | null>(null);
     const [mainChart, setMainChart] = React.useState<any>(null);
-    const [legendChart, setLegendChart] = React.useState<any>(null);
+
+    // The filled grid, for placing corporate action markers on the surface
+    const gridRef = React.useRef<SurfaceGrid | null>(null);
 
     // Use the ticker pricing hook with updated function names
     const { fetchTickerPriceRange, isLoading: isDataLoading, error: dataError } = useTickerPricing();
@@ -89,31 +157,17 @@ export default function SurfaceChart({ ticker = 'AAPL', year = 2024 }: SurfaceCh
         setIsLoading(true);
         setError(null);
 
-        // Cleanup previous chart instances if they exist
-        try {
-            if (mainChart) {
-                console.log("Cleaning up previous chart instance");
-                mainChart.delete();
-            }
-        } catch (e) {
-            console.error("Error cleaning up previous chart:", e);
-        }
-
-        try {
-            if (legendChart) {
-                console.log("Cleaning up previous legend instance");
-                legendChart.delete();
-            }
-        } catch (e) {
-            console.error("Error cleaning up previous legend:", e);
-        }
-
         // Skip initialization if refs aren't ready
         if (!chartRef.current || !legendRef.current) {
             console.log("Chart or legend ref not ready, skipping initialization");
             return;
         }
 
+        // What this run creates, so its cleanup deletes exactly these (the previous run's are gone by now)
+        let isComponentMounted = true;
+        let surface: SciChart3DSurface | null = null;
+        let legend: HeatmapLegend | null = null;
+
         // Initialize the chart with a slight delay to ensure proper rendering
         const initChartTimeout = setTimeout(async () => {
             try {
@@ -121,8 +175,13 @@ export default function SurfaceChart({ ticker = 'AAPL', year = 2024 }: SurfaceCh
 
                 // Create the SciChart3DSurface
                 const { sciChart3DSurface, wasmContext } = await SciChart3DSurface.create(chartRef.current!);
+                if (!isComponentMounted) {
+                    sciChart3DSurface.delete();
+                    return;
+                }
+                surface = sciChart3DSurface;
 
-                // Position the camera for better viewing, oriented to see months going outward on z-axis
+                // Position the camera for better viewing, oriented to see rows going outward on z-axis
                 sciChart3DSurface.camera = new CameraController(wasmContext, {
                     position: new Vector3(-120, 100, -100),
                     target: new Vector3(15, 50, 6),
@@ -132,50 +191,14 @@ export default function SurfaceChart({ ticker = 'AAPL', year = 2024 }: SurfaceCh
                 sciChart3DSurface.worldDimensions = new Vector3(200, 100, 200);
                 sciChart3DSurface.background = "Transparent";
 
-                // Create X-axis for days
-                sciChart3DSurface.xAxis = new NumericAxis3D(wasmContext, {
-                    axisTitle: "Day of Month",
-                    visibleRange: new NumberRange(0, 30)
-                });
-
-                // Create Y-axis for price (range will be set after data is loaded)
-                sciChart3DSurface.yAxis = new NumericAxis3D(wasmContext, {
-                    axisTitle: "Price ($)"
-                });
-
-                // Create Z-axis with month names
-                const zAxis = new NumericAxis3D(wasmContext, {
-                    axisTitle: "Month",
-                    visibleRange: new NumberRange(0, 11)
-                });
+                // Fetch the bars the mode is built from
+                const definition = SURFACE_MODES[mode];
+                const { from: startDate, to: endDate } = getSurfaceDateRange(mode, year);
 
-                // Configure Z-axis to display month names instead of numbers
-                const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-                zAxis.labelProvider.formatLabel = (dataValue: number): string => {
-                    const monthIndex = Math.round(dataValue);
-                    // Ensure we return a string in all cases
-                    if (monthIndex >= 0 && monthIndex < monthNames.length) {
-                        // TypeScript doesn't know that this access is safe, so we add a fallback
-                        return monthNames[monthIndex] || "";
-                    }
-                    return "";
-                };
+                console.log(`Fetching ${definition.label.toLowerCase()} data for ${ticker} from ${startDate} to ${endDate}`);
 
-                sciChart3DSurface.zAxis = zAxis;
-
-                // Fixed parameters for the data grid
-                const months = 12;
-                const days = 31;
-                const basePrice = 0; // Use 0 as placeholder for missing data
-
-                // Fetch data for the whole year using our enhanced hook
-                const startDate = `${year}-01-01`;
-                const endDate = `${year}-12-31`;
-
-                console.log(`Fetching data for ${ticker} from ${startDate} to ${endDate}`);
-
-                // Use the updated function name
-                const rangeData = await fetchTickerPriceRange(ticker, startDate, endDate);
+                const rangeData = await fetchTickerPriceRange(ticker, startDate, endDate, adjusted, definition.timespan);
+                if (!isComponentMounted) return;
 
                 if (!rangeData || !rangeData.dataPoints || rangeData.dataPoints.length === 0) {
                     throw new Error(`No data available for ${ticker} in ${year}`);
@@ -183,179 +206,66 @@ export default function SurfaceChart({ ticker = 'AAPL', year = 2024 }: SurfaceCh
 
                 console.log(`Received ${rangeData.dataPoints.length} data points for ${ticker}`);
 
-                // Initialize grid with base values
-                // We'll initially use null to identify missing data points
-                const priceData = Array(months).fill(null).map(() => Array(days).fill(null));
-
-                // Check current date to identify future dates
-                const currentDate = new Date();
-                const currentYear = currentDate.getFullYear();
-                const currentMonth = currentDate.getMonth();
-                const currentDay = currentDate.getDate();
-
-                // Fill grid with actual data
-                rangeData.dataPoints.forEach(dayData => {
-                    try {
-                        // Use UTC methods to avoid timezone issues
-                        const date = new Date(dayData.t);
-                        const month = date.getUTCMonth(); // 0-11
-                        const day = date.getUTCDate() - 1; // 0-30
-
-                        // Round price to 2 decimal places
-                        const roundedPrice = Math.round(dayData.c * 100) / 100;
-
-                        // Store in grid if month and day are valid
-                        if (month >= 0 && month < 12 && day >= 0 && day < 31) {
-                            const monthArray = ensure(priceData[month], `Month array at index ${month} should exist`);
-                            monthArray[day] = roundedPrice;
-                        }
-                    } catch (e) {
-                        console.error("Error processing data point:", e);
-                    }
+                // Lay the bars out on the mode's grid; stock hours and dates are read on New York time
+                const isCrypto = isCryptoTicker(ticker);
+                const grid = buildSurfaceGrid(rangeData.dataPoints, mode, {
+                    year,
+                    gapFill,
+                    timeZone: isCrypto ? 'UTC' : 'America/New_York',
+                    regularSessionOnly: !isCrypto
                 });
 
-                // Get min and max prices from the data
-                let minPrice = rangeData.minPrice;
-                let maxPrice = rangeData.maxPrice;
-
-                // Ensure we have a reasonable Y-axis range even if data is sparse
-                if (maxPrice - minPrice < 5) {
-                    maxPrice = minPrice + 5;
+                if (grid.observedCount === 0) {
+                    throw new Error(`No ${definition.label.toLowerCase()} data available for ${ticker} in ${year}`);
                 }
 
-                // Now replace all null values with the minimum price
-                // This creates a flat "floor" effect instead of gaps
-                for (let m = 0; m < months; m++) {
-                    const monthArray = ensure(priceData[m], `Month array at index ${m} should exist`);
-                    for (let d = 0; d < days; d++) {
-                        if (monthArray[d] === null) {
-                            monthArray[d] = minPrice;
-                        }
-                    }
-                }
-
-                // Detect if there's any real data for each month
-                const hasDataForMonth = priceData.map(monthData =>
-                    monthData.some(price => price !== minPrice)
-                );
+                const { minimum, maximum, axisMin, axisMax } = getValueScale(grid);
+                const rows = grid.values.length;
+                const columns = grid.values[0].length;
 
-                // Only fill in missing values within months that have data
-                for (let m = 0; m < months; m++) {
-                    // Skip filling if this is a future month in the current year or no data exists
-                    const isFutureMonth = (year === currentYear && m > currentMonth) || (year > currentYear);
+                console.log(`${definition.label} range for ${ticker}: ${minimum.toFixed(2)} to ${maximum.toFixed(2)}`);
 
-                    // Skip if no data exists for this month or it's a future month
-                    if (!hasDataForMonth[m] || isFutureMonth) continue;
-
-                    let lastKnownPrice = null;
-                    const monthData = ensure(priceData[m], `Month array at index ${m} should exist`);
-
-                    // Forward fill - use previous known price (but only within the same month)
-                    for (let d = 0; d < days; d++) {
-                        // Skip filling future days in current month/year
-                        if (year === currentYear && m === currentMonth && d >= currentDay) {
-                            continue;
-                        }
-
-                        if (monthData[d] !== minPrice) {
-                            lastKnownPrice = monthData[d];
-                        } else if (lastKnownPrice !== null) {
-                            monthData[d] = lastKnownPrice;
-                        }
-                    }
-
-                    // Backward fill - for start of month (if needed and not future)
-                    lastKnownPrice = null;
-                    for (let d = days - 1; d >= 0; d--) {
-                        // Skip filling future days in current month/year
-                        if (year === currentYear && m === currentMonth && d >= currentDay) {
-                            continue;
-                        }
-
-                        if (monthData[d] !== minPrice) {
-                            lastKnownPrice = monthData[d];
-                        } else if (lastKnownPrice !== null) {
-                            monthData[d] = lastKnownPrice;
-                        }
-                    }
-                }
-
-                // Only fill empty months with nearby data if they're not future months
-                for (let m = 0; m < months; m++) {
-                    // Skip if it's a future month
-                    const isFutureMonth = (year === currentYear && m > currentMonth) ||
-                        (year > currentYear);
-                    if (isFutureMonth) continue;
-
-                    const monthData = ensure(priceData[m], `Month array at index ${m} should exist`);
-
-                    // Check if month has any real data
-                    let hasData = monthData.some(price => price !== minPrice);
-
-                    if (!hasData) {
-                        let nearestMonth = -1;
-                        let minDistance = months;
-
-                        // Find nearest month with data
-                        for (let mm = 0; mm < months; mm++) {
-                            // Skip future months when searching for data
-                            const isSourceFutureMonth = (year === currentYear && mm > currentMonth) ||
-                                (year > currentYear);
-                            if (mm === m || isSourceFutureMonth) continue;
-
-                            // Check if this month has data
-                            if (hasDataForMonth[mm]) {
-                                const distance = Math.abs(mm - m);
-                                if (distance < minDistance) {
-                                    minDistance = distance;
-                                    nearestMonth = mm;
-                                }
-                            }
-                        }
-
-                        // Copy from nearest month if found
-                        if (nearestMonth !== -1) {
-                            const nearestMonthData = ensure(priceData[nearestMonth],
-                                `Nearest month array at index ${nearestMonth} should exist`);
-
-                            for (let d = 0; d < days; d++) {
-                                monthData[d] = nearestMonthData[d];
-                            }
-                        }
-                    }
-                }
+                // X and Z axes follow the layout, Y the measured value
+                const axisTitles = SURFACE_AXIS_TITLES[grid.layout];
+                const xAxis = new NumericAxis3D(wasmContext, {
+                    axisTitle: grid.layout === 'intraday' ? `${axisTitles.x} (${isCrypto ? 'UTC' : 'New York'})` : axisTitles.x,
+                    visibleRange: new NumberRange(grid.xStart, grid.xStart + (columns - 1) * grid.xStep)
+                });
+                xAxis.labelProvider.formatLabel = (dataValue: number): string => formatSurfaceColumn(grid, dataValue);
+                sciChart3DSurface.xAxis = xAxis;
 
-                console.log(`Price range for ${ticker}: ${minPrice.toFixed(2)} to ${maxPrice.toFixed(2)}`);
+                const yAxis = new NumericAxis3D(wasmContext, {
+                    axisTitle: definition.valueTitle,
+                    visibleRange: new NumberRange(axisMin, axisMax)
+                });
+                yAxis.labelProvider.formatLabel = (dataValue: number): string => formatSurfaceValue(dataValue, definition.format);
+                sciChart3DSurface.yAxis = yAxis;
 
-                // Update Y axis range to match the data
-                sciChart3DSurface.yAxis.visibleRange = new NumberRange(minPrice * 0.9, maxPrice * 1.1);
+                const zAxis = new NumericAxis3D(wasmContext, {
+                    axisTitle: axisTitles.z,
+                    visibleRange: new NumberRange(grid.zStart, grid.zStart + (rows - 1) * grid.zStep)
+                });
+                zAxis.labelProvider.formatLabel = (dataValue: number): string => formatSurfaceRow(grid, dataValue);
+                sciChart3DSurface.zAxis = zAxis;
 
-                // Create data series
+                // Create data series; cells left as NaN ("Leave gaps") are drawn as holes
                 const dataSeries = new UniformGridDataSeries3D(wasmContext, {
-                    yValues: priceData,
-                    xStep: 1, // 1 day per step
-                    zStep: 1, // 1 month per step
-                    dataSeriesName: `${ticker} Price Surface (${year})`,
-                    xStart: 0, // Start at day 0
-                    zStart: 0  // Start at month 0
+                    yValues: grid.values,
+                    xStep: grid.xStep,
+                    zStep: grid.zStep,
+                    dataSeriesName: `${ticker} ${adjusted ? 'Adjusted' : 'Raw'} ${definition.label} Surface (${year})`,
+                    xStart: grid.xStart,
+                    zStart: grid.zStart
                 });
 
-                // Use the working colors from the example
-                const colorMap = new GradientColorPalette(wasmContext, {
-                    gradientStops: [
-                        { offset: 0, color: "#1E5631" },   // Dark green (low values)
-                        { offset: 0.25, color: "#A2D149" }, // Light green
-                        { offset: 0.5, color: "#FFFF99" },  // Yellow
-                        { offset: 0.75, color: "#FF9933" }, // Orange
-                        { offset: 1, color: "#CC3300" },    // Red (high values)
-                    ],
-                });
+                const gradientStops = definition.isDiverging ? DIVERGING_STOPS : LEVEL_STOPS;
+                const colorMap = new GradientColorPalette(wasmContext, { gradientStops });
 
                 // Create surface series with financial styling
                 const series = new SurfaceMeshRenderableSeries3D(wasmContext, {
                     dataSeries,
-                    minimum: minPrice,
-                    maximum: maxPrice,
+                    minimum,
+                    maximum,
                     opacity: 0.9,
                     cellHardnessFactor: 1.0,
                     shininess: 30,
@@ -364,7 +274,7 @@ export default function SurfaceChart({ ticker = 'AAPL', year = 2024 }: SurfaceCh
                     stroke: "#444444",
                     strokeThickness: 1.0,
                     contourStroke: "#FFFFFF",
-                    contourInterval: (maxPrice - minPrice) / 10, // 10 contour lines
+                    contourInterval: (maximum - minimum) / 10, // 10 contour lines
                     contourOffset: 0,
                     contourStrokeThickness: 1,
                     drawSkirt: false,
@@ -384,6 +294,7 @@ export default function SurfaceChart({ ticker = 'AAPL', year = 2024 }: SurfaceCh
                 }));
 
                 // Store chart reference
+                gridRef.current = grid;
                 setMainChart(sciChart3DSurface);
 
                 // Create legend with matching color configuration
@@ -391,16 +302,9 @@ export default function SurfaceChart({ ticker = 'AAPL', year = 2024 }: SurfaceCh
                     try {
                         const { heatmapLegend } = await HeatmapLegend.create(legendRef.current!, {
                             colorMap: {
-                                minimum: minPrice,
-                                maximum: maxPrice,
-                                gradientStops: [
-                                    { offset: 0, color: "#1E5631" },   // Dark green (low values)
-                                    { offset: 0.25, color: "#A2D149" }, // Light green
-                                    { offset: 0.5, color: "#FFFF99" },  // Yellow
-                                    { offset: 0.75, color: "#FF9933" }, // Orange
-                                    { offset: 1, color: "#CC3300" },    // Red (high values)
-                                ],
-
+                                minimum,
+                                maximum,
+                                gradientStops,
                             },
                             yAxisOptions: {
                                 isInnerAxis: true,
@@ -425,8 +329,13 @@ export default function SurfaceChart({ ticker = 'AAPL', year = 2024 }: SurfaceCh
                             }
                         });
 
+                        if (!isComponentMounted) {
+                            heatmapLegend.delete();
+                            return;
+                        }
+
                         // Store legend reference
-                        setLegendChart(heatmapLegend);
+                        legend = heatmapLegend;
                         console.log("Legend created successfully");
                     } catch (legendErr) {
                         console.warn("Non-critical error creating legend:", legendErr);
@@ -437,6 +346,7 @@ export default function SurfaceChart({ ticker = 'AAPL', year = 2024 }: SurfaceCh
                 setIsLoading(false);
 
             } catch (err) {
+                if (!isComponentMounted) return;
                 console.error("Failed to initialize chart:", err);
                 setError(
                     err instanceof Error ? err.message : "Failed to load SciChart"
@@ -447,27 +357,65 @@ export default function SurfaceChart({ ticker = 'AAPL', year = 2024 }: SurfaceCh
 
         // Cleanup function
         return () => {
+            isComponentMounted = false;
             clearTimeout(initChartTimeout);
+            setMainChart(null);
 
             try {
-                if (mainChart) {
-                    console.log("Cleaning up chart on unmount");
-                    mainChart.delete();
-                }
+                surface?.delete();
             } catch (e) {
                 console.error("Error during chart cleanup:", e);
             }
 
             try {
-                if (legendChart) {
-                    console.log("Cleaning up legend on unmount");
-                    legendChart.delete();
-                }
+                legend?.delete();
             } catch (e) {
                 console.error("Error during legend cleanup:", e);
             }
         };
-    }, [ticker, year, fetchTickerPriceRange]); // Updated dependency
+    }, [ticker, year, adjusted, mode, gapFill, fetchTickerPriceRange]); // Updated dependency
+
+    // Corporate action markers sit just above the surface on their event date
+    React.useEffect(() => {
+        const grid = gridRef.current;
+        if (!mainChart || !grid) return;
+
+        const wasmContext = mainChart.webAssemblyContext3D;
+        const { minimum, maximum } = getValueScale(grid);
+        const lift = (maximum - minimum) * 0.05;
+        const markerSeries: ScatterRenderableSeries3D[] = [];
+
+        (Object.keys(MARKER_STYLES) as CorporateActionType[]).forEach(type => {
+            const cells = corporateActions
+                .filter(action => action.type === type)
+                .map(action => locateSurfaceDate(grid, action.date))
+                .filter((cell): cell is NonNullable<typeof cell> => cell !== null);
+            if (cells.length === 0) return;
+
+            const dataSeries = new XyzDataSeries3D(wasmContext, {
+                dataSeriesName: `${ticker} ${MARKER_STYLES[type].name}`
+            });
+            cells.forEach(cell => dataSeries.append(cell.x, cell.value + lift, cell.z));
+
+            const pointMarker = type === 'split'
+                ? new PyramidPointMarker3D(wasmContext, { fill: MARKER_STYLES[type].fill, size: 12 })
+                : new SpherePointMarker3D(wasmContext, { fill: MARKER_STYLES[type].fill, size: 8 });
+            const series = new ScatterRenderableSeries3D(wasmContext, { dataSeries, pointMarker });
+            mainChart.renderableSeries.add(series);
+            markerSeries.push(series);
+        });
+
+        return () => {
+            markerSeries.forEach(series => {
+                try {
+                    mainChart.renderableSeries.remove(series);
+                    series.delete();
+                } catch (e) {
+                    console.error("Error removing corporate action markers:", e);
+                }
+            });
+        };
+    }, [mainChart, corporateActions, ticker]);
 
     // Compute effective loading and error states (combining our local state with hook state)
     const effectiveIsLoading = isLoading || isDataLoading;
@@ -478,7 +426,7 @@ export default function SurfaceChart({ ticker = 'AAPL', year = 2024 }: SurfaceCh
             {effectiveIsLoading && (
                 <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 z-10">
                     <div className="text-center">
-                        <div className="mb-2 text-white">Loading {ticker} data for {year}...</div>
+                        <div className="mb-2 text-white">Loading {ticker} {adjusted ? '' : 'raw '}{SURFACE_MODES[mode].label.toLowerCase()} data for {year}...</div>
                         <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
                     </div>
                 </div>
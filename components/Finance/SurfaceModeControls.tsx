@@ -0,0 +1,44 @@
+'use client';
+
+import React from 'react';
+import { GAP_FILL_LABELS, GapFill, SURFACE_MODES, SurfaceMode } from '@/lib/surface';
+
+const SELECT_CLASS = 'p-2 text-sm border border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring focus:ring-blue-200 focus:ring-opacity-50';
+
+interface SurfaceModeControlsProps {
+    mode: SurfaceMode;
+    gapFill: GapFill;
+    onModeChange: (mode: SurfaceMode) => void;
+    onGapFillChange: (gapFill: GapFill) => void;
+    className?: string;
+}
+
+/**
+ * Mode and gap handling selects for a price surface, to sit beside its year select
+ */
+const SurfaceModeControls: React.FC<SurfaceModeControlsProps> = ({ mode, gapFill, onModeChange, onGapFillChange, className = '' }) => (
+    <div className={`flex items-center gap-2 ${className}`}>
+        <select
+            value={mode}
+            onChange={(e) => onModeChange(e.target.value as SurfaceMode)}
+            title={SURFACE_MODES[mode].description}
+            className={SELECT_CLASS}
+        >
+            {Object.values(SURFACE_MODES).map(definition => (
+                <option key={definition.mode} value={definition.mode} title={definition.description}>{definition.label}</option>
+            ))}
+        </select>
+        <select
+            value={gapFill}
+            onChange={(e) => onGapFillChange(e.target.value as GapFill)}
+            title="How weekends and holidays are drawn"
+            className={SELECT_CLASS}
+        >
+            {(Object.keys(GAP_FILL_LABELS) as GapFill[]).map(option => (
+                <option key={option} value={option}>{GAP_FILL_LABELS[option]}</option>
+            ))}
+        </select>
+    </div>
+);
+
+export default SurfaceModeControls;
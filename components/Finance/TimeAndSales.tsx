@@ -0,0 +1,219 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import useTimeAndSales from '@/hooks/useTimeAndSales';
+import { TapePrint } from '@/lib/time-and-sales';
+
+// Same-price, same-side trades this close together are shown as one row when aggregating
+const BURST_WINDOW_MS = 250;
+
+const formatTime = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.toLocaleTimeString(undefined, { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+};
+
+const formatPrice = (value: number): string =>
+    value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: value < 1 ? 6 : 2 });
+
+const formatSize = (value: number): string =>
+    value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+// Compact dollar amounts ($1.2M, $850K)
+const formatNotional = (value: number): string => {
+    const abs = Math.abs(value);
+    const sign = value < 0 ? '-' : '';
+    if (abs >= 1_000_000) return `${sign}$${(abs / 1_000_000).toFixed(2)}M`;
+    if (abs >= 1_000) return `${sign}$${(abs / 1_000).toFixed(1)}K`;
+    return `${sign}$${abs.toFixed(0)}`;
+};
+
+const SIDE_COLORS: Record<TapePrint['side'], string> = {
+    buy: 'text-green-500',
+    sell: 'text-red-500',
+    unknown: 'text-muted-foreground'
+};
+
+// Empty input means no threshold
+const parseThreshold = (value: string): number | undefined => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const TapeRow: React.FC<{ print: TapePrint }> = ({ print }) => (
+    <div
+        className={`grid grid-cols-[1.2fr_1fr_1fr_0.9fr] gap-2 px-2 py-px font-mono text-xs ${print.isLarge ? 'bg-yellow-400/15 font-bold' : ''}`}
+        title={print.sideInferred && print.side !== 'unknown' ? 'Side inferred from the tick direction' : undefined}
+    >
+        <span className="text-muted-foreground">{formatTime(print.lastTimestamp)}</span>
+        <span className={`text-right ${SIDE_COLORS[print.side]}`}>
+            {formatPrice(print.price)}
+            {print.sideInferred && print.side !== 'unknown' && <span className="opacity-50">*</span>}
+        </span>
+        <span className="text-right">
+            {formatSize(print.size)}
+            {print.count > 1 && <span className="text-muted-foreground"> ×{print.count}</span>}
+        </span>
+        <span className="text-right text-muted-foreground">{formatNotional(print.notional)}</span>
+    </div>
+);
+
+interface TimeAndSalesProps {
+    ticker: string;
+    className?: string;
+}
+
+/**
+ * Time & sales tape: prints newest first, filtered by size or notional, with large prints
+ * highlighted, optional burst aggregation and a rolling buy/sell volume delta. Scrolling down the
+ * tape pauses it so history can be read without rows moving underneath.
+ */
+const TimeAndSales: React.FC<TimeAndSalesProps> = ({ ticker, className = '' }) => {
+    const [minSize, setMinSize] = useState<string>('');
+    const [minNotional, setMinNotional] = useState<string>('');
+    const [largeNotional, setLargeNotional] = useState<string>('100000');
+    const [isAggregating, setIsAggregating] = useState<boolean>(true);
+    const [isPaused, setIsPaused] = useState<boolean>(false);
+
+    const listRef = useRef<HTMLDivElement>(null);
+
+    const { status, error, symbol, prints, delta, pendingCount, bufferedCount, lastPrice, reconnect } = useTimeAndSales(ticker, {
+        minSize: parseThreshold(minSize),
+        minNotional: parseThreshold(minNotional),
+        largeNotional: parseThreshold(largeNotional),
+        burstWindowMs: isAggregating ? BURST_WINDOW_MS : 0,
+        isPaused
+    });
+
+    // Leaving the top of the tape freezes it
+    const handleScroll = () => {
+        if (!isPaused && (listRef.current?.scrollTop ?? 0) > 8) {
+            setIsPaused(true);
+        }
+    };
+
+    const resume = () => {
+        listRef.current?.scrollTo({ top: 0 });
+        setIsPaused(false);
+    };
+
+    const totalNotional = delta.buyNotional + delta.sellNotional;
+    const buyShare = totalNotional > 0 ? (delta.buyNotional / totalNotional) * 100 : 50;
+
+    return (
+        <div className={`flex h-full flex-col gap-2 text-sm ${className}`}>
+            {/* Header */}
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <span className="font-semibold">{symbol || '—'}</span>
+                    {lastPrice !== null && <span className="font-mono">{formatPrice(lastPrice)}</span>}
+                    {status !== 'Connected' && (
+                        <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800">{status}</span>
+                    )}
+                </div>
+                <button
+                    onClick={() => (isPaused ? resume() : setIsPaused(true))}
+                    className={`rounded px-2 py-0.5 text-xs text-white ${isPaused ? 'bg-blue-600' : 'bg-gray-600'}`}
+                >
+                    {isPaused ? 'Resume' : 'Pause'}
+                </button>
+            </div>
+
+            {error && (
+                <div className="flex items-center justify-between rounded bg-red-100 px-2 py-1 text-xs text-red-800">
+                    <span>Error: {error}</span>
+                    <button onClick={reconnect} className="underline">Reconnect</button>
+                </div>
+            )}
+
+            {/* Filters */}
+            <div className="grid grid-cols-2 gap-2 text-xs md:grid-cols-4">
+                <label className="flex flex-col gap-0.5 text-muted-foreground">
+                    Min size
+                    <input
+                        type="number"
+                        min={0}
+                        value={minSize}
+                        onChange={(e) => setMinSize(e.target.value)}
+                        placeholder="Any"
+                        className="rounded border bg-background p-1 text-foreground"
+                    />
+                </label>
+                <label className="flex flex-col gap-0.5 text-muted-foreground">
+                    Min notional ($)
+                    <input
+                        type="number"
+                        min={0}
+                        value={minNotional}
+                        onChange={(e) => setMinNotional(e.target.value)}
+                        placeholder="Any"
+                        className="rounded border bg-background p-1 text-foreground"
+                    />
+                </label>
+                <label className="flex flex-col gap-0.5 text-muted-foreground">
+                    Highlight ≥ ($)
+                    <input
+                        type="number"
+                        min={0}
+                        value={largeNotional}
+                        onChange={(e) => setLargeNotional(e.target.value)}
+                        placeholder="Off"
+                        className="rounded border bg-background p-1 text-foreground"
+                    />
+                </label>
+                <label className="flex items-end gap-1 pb-1 text-muted-foreground">
+                    <input type="checkbox" checked={isAggregating} onChange={(e) => setIsAggregating(e.target.checked)} />
+                    Aggregate bursts
+                </label>
+            </div>
+
+            {/* Rolling volume delta */}
+            <div className="text-xs">
+                <div className="flex justify-between">
+                    <span className="text-green-500">Buy {formatNotional(delta.buyNotional)}</span>
+                    <span className={delta.deltaNotional >= 0 ? 'text-green-500' : 'text-red-500'}>
+                        Δ {Math.round(delta.windowMs / 1000)}s: {delta.deltaNotional >= 0 ? '+' : ''}{formatNotional(delta.deltaNotional)}
+                        {' '}({delta.delta >= 0 ? '+' : ''}{formatSize(delta.delta)})
+                    </span>
+                    <span className="text-red-500">Sell {formatNotional(delta.sellNotional)}</span>
+                </div>
+                <div className="mt-1 flex h-1.5 overflow-hidden rounded-full bg-red-500/60">
+                    <div className="bg-green-500/80" style={{ width: `${buyShare}%` }} />
+                </div>
+            </div>
+
+            {/* Tape */}
+            <div className="relative min-h-0 flex-1 rounded border">
+                {isPaused && (
+                    <button
+                        onClick={resume}
+                        className="absolute left-1/2 top-8 z-20 -translate-x-1/2 rounded-full bg-blue-600 px-3 py-0.5 text-xs text-white shadow"
+                    >
+                        Paused{pendingCount > 0 ? ` · ${pendingCount} new` : ''} · back to live
+                    </button>
+                )}
+                <div ref={listRef} onScroll={handleScroll} className="h-full overflow-y-auto">
+                    <div className="sticky top-0 z-10 grid grid-cols-[1.2fr_1fr_1fr_0.9fr] gap-2 border-b bg-background px-2 py-1 text-xs text-muted-foreground">
+                        <span>Time</span>
+                        <span className="text-right">Price</span>
+                        <span className="text-right">Size</span>
+                        <span className="text-right">Value</span>
+                    </div>
+                    {prints.length === 0 ? (
+                        <div className="p-4 text-center text-xs text-muted-foreground">
+                            {bufferedCount > 0 ? 'No prints match the filters' : 'Waiting for trades...'}
+                        </div>
+                    ) : (
+                        prints.map(print => <TapeRow key={print.id} print={print} />)
+                    )}
+                </div>
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+                {prints.length} rows from the last {bufferedCount} trades
+                {prints.some(print => print.sideInferred && print.side !== 'unknown') && ' · * side from tick direction'}
+            </div>
+        </div>
+    );
+};
+
+export default TimeAndSales;
@@ -0,0 +1,492 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import Papa from 'papaparse';
+import { useMutation, useQuery } from 'convex/react';
+import { Save, Trash2, Upload } from 'lucide-react';
+import { api } from '@/convex/_generated/api';
+import { Doc } from '@/convex/_generated/dataModel';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+    BUILT_IN_PRESETS,
+    buildImportPreview,
+    DateFormat,
+    detectPreset,
+    findForeignCurrencies,
+    IMPORT_FIELDS,
+    ImportField,
+    ImportMapping,
+    ImportPreset,
+    ImportPreviewRow,
+    ImportRowStatus,
+    TickerFormat,
+    toRecords,
+    TransactionType
+} from '@/lib/portfolio';
+import { useTickerUniverse } from '../../hooks/useTickerUniverse';
+
+// Radix Select can't hold an empty value, so "not mapped" / "no default" use a sentinel
+const NONE = '__none__';
+
+// Matches the server's per-call limit in transactions.importBatch
+const IMPORT_BATCH_SIZE = 500;
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+    new: 'New',
+    duplicate: 'Duplicate',
+    error: 'Error',
+    skipped: 'Skipped'
+};
+
+const STATUS_CLASSES: Record<ImportRowStatus, string> = {
+    new: 'bg-green-100 text-green-800 border-green-300',
+    duplicate: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+    error: 'bg-red-100 text-red-800 border-red-300',
+    skipped: 'bg-muted text-muted-foreground'
+};
+
+const EMPTY_MAPPING: ImportMapping = { columns: {}, dateFormat: 'auto', tickerFormat: 'auto' };
+
+// Remove the 'X:' prefix from crypto tickers for display
+const displayTicker = (ticker: string): string => ticker.replace(/^X:/, '');
+
+const formatNumber = (value: number | undefined): string => {
+    return value === undefined ? '' : value.toLocaleString('en-US', { maximumFractionDigits: 8 });
+};
+
+interface TransactionImporterProps {
+    existingTransactions: Doc<'transactions'>[];
+}
+
+const TransactionImporter: React.FC<TransactionImporterProps> = ({ existingTransactions }) => {
+    const savedPresets = useQuery(api.importPresets.list);
+    const savePreset = useMutation(api.importPresets.save);
+    const removePreset = useMutation(api.importPresets.remove);
+    const importBatch = useMutation(api.transactions.importBatch);
+    const { tickers: knownTickers, error: universeError } = useTickerUniverse();
+
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [rows, setRows] = useState<Record<string, string>[]>([]);
+    const [presetId, setPresetId] = useState<string>(NONE);
+    const [mapping, setMapping] = useState<ImportMapping>(EMPTY_MAPPING);
+    const [exchangeRates, setExchangeRates] = useState<Record<string, string>>({});
+    // Rows the user ticked or unticked, overriding the default (import new rows only)
+    const [overrides, setOverrides] = useState<Record<number, boolean>>({});
+    const [presetName, setPresetName] = useState('');
+    const [isImporting, setIsImporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const presets: ImportPreset[] = useMemo(() => [
+        ...BUILT_IN_PRESETS,
+        ...(savedPresets ?? []).map(preset => ({ id: preset._id, name: preset.name, mapping: preset.mapping }))
+    ], [savedPresets]);
+
+    const foreignCurrencies = useMemo(
+        () => findForeignCurrencies(rows, headers, mapping),
+        [rows, headers, mapping]
+    );
+
+    const preview: ImportPreviewRow[] = useMemo(() => {
+        if (rows.length === 0) return [];
+        const rates: Record<string, number> = {};
+        Object.entries(exchangeRates).forEach(([currency, rate]) => {
+            const value = parseFloat(rate);
+            if (Number.isFinite(value) && value > 0) rates[currency] = value;
+        });
+        return buildImportPreview(rows, headers, mapping, {
+            exchangeRates: rates,
+            knownTickers: knownTickers ?? undefined,
+            existingTransactions
+        });
+    }, [rows, headers, mapping, exchangeRates, knownTickers, existingTransactions]);
+
+    const isIncluded = (row: ImportPreviewRow) => {
+        if (!row.transaction) return false;
+        return overrides[row.line] ?? row.status === 'new';
+    };
+
+    const counts = useMemo(() => {
+        const result: Record<ImportRowStatus, number> = { new: 0, duplicate: 0, error: 0, skipped: 0 };
+        preview.forEach(row => result[row.status]++);
+        return result;
+    }, [preview]);
+
+    const selectedRows = preview.filter(isIncluded);
+    const unknownSymbols = Array.from(new Set(
+        selectedRows.filter(row => row.warnings.length > 0).map(row => row.transaction?.ticker ?? '')
+    )).filter(Boolean);
+
+    const applyPreset = (id: string) => {
+        setPresetId(id);
+        const preset = presets.find(p => p.id === id);
+        setMapping(preset ? preset.mapping : EMPTY_MAPPING);
+        setOverrides({});
+    };
+
+    const handleFile = (file: File) => {
+        setError(null);
+        setMessage(null);
+        setOverrides({});
+
+        Papa.parse<string[]>(file, {
+            skipEmptyLines: true,
+            complete: (results) => {
+                const parsed = toRecords(results.data);
+                if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+                    setError('No rows found in this file');
+                    return;
+                }
+
+                setFileName(file.name);
+                setHeaders(parsed.headers);
+                setRows(parsed.rows);
+
+                // Start from a preset that fits the file's columns
+                const detected = detectPreset(parsed.headers, presets);
+                setPresetId(detected?.id ?? NONE);
+                setMapping(detected?.mapping ?? EMPTY_MAPPING);
+            },
+            error: (err: Error | { message: string }) => {
+                setError(`CSV parsing error: ${err.message}`);
+            }
+        });
+    };
+
+    const setColumn = (field: ImportField, header: string) => {
+        const columns = { ...mapping.columns };
+        if (header === NONE) {
+            delete columns[field];
+        } else {
+            columns[field] = header;
+        }
+        setMapping({ ...mapping, columns });
+        setOverrides({});
+    };
+
+    const handleSavePreset = async () => {
+        const name = presetName.trim();
+        if (!name) return;
+
+        setError(null);
+        try {
+            const id = await savePreset({ name, mapping });
+            setPresetId(id);
+            setPresetName('');
+            setMessage(`Saved preset "${name}"`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleRemovePreset = async () => {
+        const preset = savedPresets?.find(p => p._id === presetId);
+        if (!preset || !window.confirm(`Delete the "${preset.name}" preset?`)) return;
+
+        setError(null);
+        try {
+            await removePreset({ presetId: preset._id });
+            setPresetId(NONE);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleImport = async () => {
+        const transactions = selectedRows.map(row => row.transaction!);
+        if (transactions.length === 0) return;
+
+        setIsImporting(true);
+        setError(null);
+        setMessage(null);
+
+        let imported = 0;
+        try {
+            for (let i = 0; i < transactions.length; i += IMPORT_BATCH_SIZE) {
+                imported += await importBatch({ transactions: transactions.slice(i, i + IMPORT_BATCH_SIZE) });
+            }
+            setMessage(`Imported ${imported} ${imported === 1 ? 'transaction' : 'transactions'}`);
+            setRows([]);
+            setHeaders([]);
+            setFileName(null);
+        } catch (err) {
+            const detail = err instanceof Error ? err.message : String(err);
+            setError(imported > 0
+                ? `Imported ${imported} transactions, then failed: ${detail}. Re-importing the file will flag the imported rows as duplicates.`
+                : detail);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const isSavedPreset = savedPresets?.some(p => p._id === presetId) ?? false;
+
+    return (
+        <div className="space-y-6">
+            {/* File picker */}
+            <div className="flex flex-col md:flex-row gap-4 md:items-end">
+                <div className="space-y-2">
+                    <Label htmlFor="import-file">CSV file</Label>
+                    <Input
+                        id="import-file"
+                        type="file"
+                        accept=".csv,text/csv"
+                        onChange={e => {
+                            const file = e.target.files?.[0];
+                            if (file) handleFile(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+                {fileName && (
+                    <p className="text-sm text-muted-foreground">
+                        {fileName} · {rows.length} rows · {headers.length} columns
+                    </p>
+                )}
+            </div>
+
+            {error && (
+                <div className="p-2 bg-red-100 border border-red-300 rounded text-red-700 text-sm">
+                    {error}
+                </div>
+            )}
+            {message && (
+                <div className="p-2 bg-green-50 border border-green-300 rounded text-green-800 text-sm">
+                    {message}
+                </div>
+            )}
+
+            {rows.length > 0 && (
+                <>
+                    {/* Column mapping */}
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap items-end gap-2">
+                            <div className="space-y-2">
+                                <Label>Preset</Label>
+                                <Select value={presetId} onValueChange={applyPreset}>
+                                    <SelectTrigger className="w-[260px]">
+                                        <SelectValue placeholder="Custom mapping" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NONE}>Custom mapping</SelectItem>
+                                        {presets.map(preset => (
+                                            <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            {isSavedPreset && (
+                                <Button variant="outline" size="icon" className="hover:text-red-500" title="Delete preset" onClick={handleRemovePreset}>
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            )}
+                            <div className="flex items-end gap-2 md:ml-auto">
+                                <div className="space-y-2">
+                                    <Label htmlFor="preset-name">Save mapping as</Label>
+                                    <Input
+                                        id="preset-name"
+                                        placeholder="e.g. My broker"
+                                        value={presetName}
+                                        maxLength={100}
+                                        onChange={e => setPresetName(e.target.value)}
+                                    />
+                                </div>
+                                <Button variant="outline" className="gap-2" disabled={!presetName.trim()} onClick={handleSavePreset}>
+                                    <Save className="h-4 w-4" />
+                                    Save
+                                </Button>
+                            </div>
+                        </div>
+
+                        <div className="grid gap-4 grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
+                            {IMPORT_FIELDS.map(({ field, label, required }) => (
+                                <div key={field} className="space-y-2">
+                                    <Label>{label}{required && ' *'}</Label>
+                                    <Select
+                                        value={headers.find(h => h.toLowerCase() === mapping.columns[field]?.toLowerCase()) ?? NONE}
+                                        onValueChange={(value) => setColumn(field, value)}
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={NONE}>Not mapped</SelectItem>
+                                            {headers.filter(Boolean).map(header => (
+                                                <SelectItem key={header} value={header}>{header}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            ))}
+                            <div className="space-y-2">
+                                <Label>Date format</Label>
+                                <Select
+                                    value={mapping.dateFormat}
+                                    onValueChange={(value) => setMapping({ ...mapping, dateFormat: value as DateFormat })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="auto">Auto</SelectItem>
+                                        <SelectItem value="mdy">MM/DD/YYYY</SelectItem>
+                                        <SelectItem value="dmy">DD/MM/YYYY</SelectItem>
+                                        <SelectItem value="ymd">YYYY-MM-DD</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Symbols</Label>
+                                <Select
+                                    value={mapping.tickerFormat}
+                                    onValueChange={(value) => setMapping({ ...mapping, tickerFormat: value as TickerFormat })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="auto">Stocks (BTC-USD / X: for crypto)</SelectItem>
+                                        <SelectItem value="crypto">Crypto assets (BTC → X:BTCUSD)</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Type when not given</Label>
+                                <Select
+                                    value={mapping.defaultType ?? NONE}
+                                    onValueChange={(value) => setMapping({
+                                        ...mapping,
+                                        defaultType: value === NONE ? undefined : value as TransactionType
+                                    })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NONE}>Skip the row</SelectItem>
+                                        <SelectItem value="buy">Buy</SelectItem>
+                                        <SelectItem value="sell">Sell</SelectItem>
+                                        <SelectItem value="dividend">Dividend</SelectItem>
+                                        <SelectItem value="fee">Fee</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        {foreignCurrencies.length > 0 && (
+                            <div className="space-y-2">
+                                <Label>USD exchange rates</Label>
+                                <p className="text-xs text-muted-foreground">
+                                    Portfolios are kept in USD. Enter the USD value of one unit of each currency in this file.
+                                </p>
+                                <div className="flex flex-wrap gap-4">
+                                    {foreignCurrencies.map(currency => (
+                                        <div key={currency} className="flex items-center gap-2">
+                                            <span className="text-sm font-mono">1 {currency} =</span>
+                                            <Input
+                                                type="number"
+                                                min="0"
+                                                step="any"
+                                                className="w-[110px]"
+                                                value={exchangeRates[currency] ?? ''}
+                                                onChange={e => setExchangeRates({ ...exchangeRates, [currency]: e.target.value })}
+                                            />
+                                            <span className="text-sm font-mono">USD</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Preview */}
+                    <div className="space-y-3">
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                            {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map(status => (
+                                <Badge key={status} variant="outline" className={STATUS_CLASSES[status]}>
+                                    {counts[status]} {STATUS_LABELS[status].toLowerCase()}
+                                </Badge>
+                            ))}
+                            {universeError && (
+                                <span className="text-muted-foreground">Symbol check unavailable: {universeError}</span>
+                            )}
+                        </div>
+                        {unknownSymbols.length > 0 && (
+                            <p className="text-sm text-yellow-700">
+                                Not in the ticker list: {unknownSymbols.map(displayTicker).join(', ')}. These rows will still be imported
+                                if ticked, but won&apos;t get live prices unless the symbol is right.
+                            </p>
+                        )}
+
+                        <div className="max-h-96 overflow-auto border rounded-md">
+                            <table className="w-full border-collapse text-sm">
+                                <thead className="sticky top-0 bg-background">
+                                    <tr className="border-b">
+                                        <th className="p-2" />
+                                        <th className="p-2 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Row</th>
+                                        <th className="p-2 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Status</th>
+                                        <th className="p-2 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Date</th>
+                                        <th className="p-2 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Type</th>
+                                        <th className="p-2 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Ticker</th>
+                                        <th className="p-2 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Quantity</th>
+                                        <th className="p-2 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Price</th>
+                                        <th className="p-2 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Amount</th>
+                                        <th className="p-2 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Fees</th>
+                                        <th className="p-2 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Notes</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {preview.map(row => (
+                                        <tr key={row.line} className="border-b last:border-b-0">
+                                            <td className="p-2">
+                                                <input
+                                                    type="checkbox"
+                                                    aria-label={`Import row ${row.line}`}
+                                                    checked={isIncluded(row)}
+                                                    disabled={!row.transaction}
+                                                    onChange={e => setOverrides({ ...overrides, [row.line]: e.target.checked })}
+                                                />
+                                            </td>
+                                            <td className="p-2 text-muted-foreground">{row.line}</td>
+                                            <td className="p-2">
+                                                <Badge variant="outline" className={STATUS_CLASSES[row.status]}>{STATUS_LABELS[row.status]}</Badge>
+                                            </td>
+                                            <td className="p-2">{row.transaction?.date}</td>
+                                            <td className="p-2 capitalize">{row.transaction?.type ?? row.action}</td>
+                                            <td className="p-2 font-mono">{row.transaction && displayTicker(row.transaction.ticker)}</td>
+                                            <td className="p-2 text-right">{formatNumber(row.transaction?.quantity)}</td>
+                                            <td className="p-2 text-right">{formatNumber(row.transaction?.price)}</td>
+                                            <td className="p-2 text-right">{formatNumber(row.transaction?.amount)}</td>
+                                            <td className="p-2 text-right">{formatNumber(row.transaction?.fees)}</td>
+                                            <td className="p-2 text-xs">
+                                                {row.errors.map(e => <span key={e} className="block text-red-600">{e}</span>)}
+                                                {row.warnings.map(w => <span key={w} className="block text-yellow-700">{w}</span>)}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="flex items-center justify-end gap-4">
+                            <span className="text-sm text-muted-foreground">
+                                {selectedRows.length} {selectedRows.length === 1 ? 'transaction' : 'transactions'} selected
+                            </span>
+                            <Button className="gap-2" disabled={selectedRows.length === 0 || isImporting} onClick={handleImport}>
+                                <Upload className="h-4 w-4" />
+                                {isImporting ? 'Importing...' : 'Import'}
+                            </Button>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default TransactionImporter;
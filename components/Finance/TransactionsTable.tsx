@@ -0,0 +1,214 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { Plus, Trash2 } from 'lucide-react';
+import { api } from '@/convex/_generated/api';
+import { Doc, Id } from '@/convex/_generated/dataModel';
+import { TransactionType } from '@/convex/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { isCryptoTicker, toPolygonCryptoTicker } from '@/lib/market-data';
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+    buy: 'Buy',
+    sell: 'Sell',
+    dividend: 'Dividend',
+    fee: 'Fee'
+};
+
+// Format price for display
+const formatPrice = (price: number | undefined): string => {
+    if (price === undefined) return '—';
+    return price.toLocaleString('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: price < 1 ? 6 : 2
+    });
+};
+
+// Remove the 'X:' prefix from crypto tickers for display
+const displayTicker = (ticker: string): string => ticker.replace(/^X:/, '');
+
+// Accept "AAPL", "BTC-USD" or "X:BTCUSD" and store Polygon tickers
+const toPortfolioTicker = (input: string): string => {
+    const ticker = input.trim().toUpperCase();
+    return isCryptoTicker(ticker) ? toPolygonCryptoTicker(ticker) : ticker;
+};
+
+// Parse an optional numeric field; empty means not provided
+const parseOptional = (value: string): number | undefined => {
+    return value.trim() === '' ? undefined : parseFloat(value);
+};
+
+interface TransactionsTableProps {
+    transactions: Doc<'transactions'>[];
+}
+
+const TransactionsTable: React.FC<TransactionsTableProps> = ({ transactions }) => {
+    const createTransaction = useMutation(api.transactions.create);
+    const removeTransaction = useMutation(api.transactions.remove);
+
+    const [type, setType] = useState<TransactionType>('buy');
+    const [ticker, setTicker] = useState('');
+    const [date, setDate] = useState(() => new Date().toISOString().split('T')[0]);
+    const [quantity, setQuantity] = useState('');
+    const [price, setPrice] = useState('');
+    const [fees, setFees] = useState('');
+    const [amount, setAmount] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const isTrade = type === 'buy' || type === 'sell';
+
+    // Run a mutation and surface its error in the table
+    const run = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!ticker.trim()) return;
+
+        run(async () => {
+            await createTransaction({
+                type,
+                ticker: toPortfolioTicker(ticker),
+                date,
+                ...(isTrade
+                    ? { quantity: parseOptional(quantity), price: parseOptional(price), fees: parseOptional(fees) }
+                    : { amount: parseOptional(amount) })
+            });
+            setQuantity('');
+            setPrice('');
+            setFees('');
+            setAmount('');
+        });
+    };
+
+    const handleDelete = (transactionId: Id<'transactions'>) => {
+        run(() => removeTransaction({ transactionId }));
+    };
+
+    return (
+        <div className="space-y-4">
+            <form onSubmit={handleCreate} className="flex flex-wrap gap-4 items-end">
+                <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select value={type} onValueChange={(value) => setType(value as TransactionType)}>
+                        <SelectTrigger className="w-[130px]">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="transaction-ticker">Ticker</Label>
+                    <Input
+                        id="transaction-ticker"
+                        className="w-[140px]"
+                        placeholder="AAPL or BTC-USD"
+                        value={ticker}
+                        onChange={e => setTicker(e.target.value)}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="transaction-date">Date</Label>
+                    <Input id="transaction-date" type="date" className="w-[160px]" value={date} onChange={e => setDate(e.target.value)} />
+                </div>
+                {isTrade ? (
+                    <>
+                        <div className="space-y-2">
+                            <Label htmlFor="transaction-quantity">Quantity</Label>
+                            <Input id="transaction-quantity" type="number" min="0" step="any" className="w-[120px]" value={quantity} onChange={e => setQuantity(e.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="transaction-price">Price</Label>
+                            <Input id="transaction-price" type="number" min="0" step="any" className="w-[120px]" value={price} onChange={e => setPrice(e.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="transaction-fees">Commission</Label>
+                            <Input id="transaction-fees" type="number" min="0" step="any" className="w-[110px]" placeholder="0" value={fees} onChange={e => setFees(e.target.value)} />
+                        </div>
+                    </>
+                ) : (
+                    <div className="space-y-2">
+                        <Label htmlFor="transaction-amount">Amount</Label>
+                        <Input id="transaction-amount" type="number" min="0" step="any" className="w-[120px]" value={amount} onChange={e => setAmount(e.target.value)} />
+                    </div>
+                )}
+                <Button type="submit" className="gap-2" disabled={!ticker.trim() || !date}>
+                    <Plus className="h-4 w-4" />
+                    Add
+                </Button>
+            </form>
+
+            {error && (
+                <div className="p-2 bg-red-100 border border-red-300 rounded text-red-700 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {transactions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No transactions yet.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full border-collapse">
+                        <thead>
+                            <tr className="border-b">
+                                <th className="p-2.5 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Date</th>
+                                <th className="p-2.5 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Type</th>
+                                <th className="p-2.5 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Ticker</th>
+                                <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Quantity</th>
+                                <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Price</th>
+                                <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Commission</th>
+                                <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Amount</th>
+                                <th className="p-2.5" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {/* Newest first */}
+                            {[...transactions].reverse().map(transaction => (
+                                <tr key={transaction._id} className="border-b last:border-b-0">
+                                    <td className="p-2.5 text-sm">{transaction.date}</td>
+                                    <td className="p-2.5 text-sm">{TYPE_LABELS[transaction.type]}</td>
+                                    <td className="p-2.5 font-mono font-medium">{displayTicker(transaction.ticker)}</td>
+                                    <td className="p-2.5 text-right">{transaction.quantity ?? '—'}</td>
+                                    <td className="p-2.5 text-right">{formatPrice(transaction.price)}</td>
+                                    <td className="p-2.5 text-right">{formatPrice(transaction.fees)}</td>
+                                    <td className="p-2.5 text-right">{formatPrice(transaction.amount)}</td>
+                                    <td className="p-2.5">
+                                        <div className="flex justify-end">
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-7 w-7 hover:text-red-500"
+                                                title="Delete transaction"
+                                                onClick={() => handleDelete(transaction._id)}
+                                            >
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TransactionsTable;
@@ -0,0 +1,356 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { ArrowDown, ArrowUp, Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import CoreSearch from './CoreSearch';
+import CryptoSearch from './CryptoSearch';
+import { useWatchlistQuotes } from '../../hooks/useWatchlistQuotes';
+
+// Format price for display
+const formatPrice = (price: number | null): string => {
+    if (price === null) return '—';
+    return price.toLocaleString('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: price < 1 ? 6 : 2
+    });
+};
+
+// Format large volume numbers
+const formatVolume = (volume: number | null): string => {
+    if (volume === null) return '—';
+    if (volume >= 1_000_000_000) return (volume / 1_000_000_000).toFixed(2) + 'B';
+    if (volume >= 1_000_000) return (volume / 1_000_000).toFixed(2) + 'M';
+    if (volume >= 1_000) return (volume / 1_000).toFixed(2) + 'K';
+    return volume.toFixed(2);
+};
+
+const formatChange = (change: number | null, changePercent: number | null): string => {
+    if (change === null || changePercent === null) return '—';
+    const sign = change >= 0 ? '+' : '';
+    return `${sign}${change.toFixed(2)} (${sign}${changePercent.toFixed(2)}%)`;
+};
+
+// Remove the 'X:' prefix from crypto tickers for display
+const displayTicker = (ticker: string): string => ticker.replace(/^X:/, '');
+
+const WatchlistPanel: React.FC = () => {
+    const watchlists = useQuery(api.watchlists.list);
+    const createWatchlist = useMutation(api.watchlists.create);
+    const renameWatchlist = useMutation(api.watchlists.rename);
+    const removeWatchlist = useMutation(api.watchlists.remove);
+    const addTicker = useMutation(api.watchlists.addTicker);
+    const removeTicker = useMutation(api.watchlists.removeTicker);
+    const reorderTickers = useMutation(api.watchlists.reorderTickers);
+    const setBannerWatchlist = useMutation(api.watchlists.setBannerWatchlist);
+
+    const [selectedId, setSelectedId] = useState<Id<'watchlists'> | null>(null);
+    const [newName, setNewName] = useState('');
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [renameValue, setRenameValue] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const selected = watchlists?.find(w => w._id === selectedId) ?? watchlists?.[0] ?? null;
+    const { quotes, isLoading: isQuotesLoading, error: quotesError, lastUpdated } = useWatchlistQuotes(selected?.tickers ?? []);
+
+    // Keep the selection valid when lists are created or deleted
+    useEffect(() => {
+        if (watchlists && selectedId && !watchlists.some(w => w._id === selectedId)) {
+            setSelectedId(null);
+        }
+    }, [watchlists, selectedId]);
+
+    // Run a mutation and surface its error in the panel
+    const run = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newName.trim();
+        if (!name) return;
+
+        run(async () => {
+            const id = await createWatchlist({ name });
+            setSelectedId(id);
+            setNewName('');
+        });
+    };
+
+    const handleRename = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selected || !renameValue.trim()) return;
+
+        run(async () => {
+            await renameWatchlist({ watchlistId: selected._id, name: renameValue });
+            setIsRenaming(false);
+        });
+    };
+
+    const handleDelete = () => {
+        if (!selected) return;
+        if (!window.confirm(`Delete the "${selected.name}" watchlist?`)) return;
+        run(() => removeWatchlist({ watchlistId: selected._id }));
+    };
+
+    const handleAddTicker = (ticker: string) => {
+        if (!selected) return;
+        run(() => addTicker({ watchlistId: selected._id, ticker }));
+    };
+
+    // Move a ticker one place up (-1) or down (+1)
+    const handleMove = (index: number, direction: -1 | 1) => {
+        if (!selected) return;
+        const target = index + direction;
+        if (target < 0 || target >= selected.tickers.length) return;
+
+        const tickers = [...selected.tickers];
+        [tickers[index], tickers[target]] = [tickers[target], tickers[index]];
+        run(() => reorderTickers({ watchlistId: selected._id, tickers }));
+    };
+
+    const handleToggleBanner = (checked: boolean) => {
+        if (!selected) return;
+        run(() => setBannerWatchlist({ watchlistId: checked ? selected._id : null }));
+    };
+
+    if (watchlists === undefined) {
+        return <p className="text-muted-foreground">Loading watchlists...</p>;
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Watchlist picker and creation */}
+            <div className="flex flex-col md:flex-row gap-4 md:items-end justify-between">
+                <div className="flex items-end gap-2">
+                    {watchlists.length > 0 && (
+                        <div className="space-y-2">
+                            <Label>Watchlist</Label>
+                            <Select
+                                value={selected?._id}
+                                onValueChange={(value) => {
+                                    setSelectedId(value as Id<'watchlists'>);
+                                    setIsRenaming(false);
+                                }}
+                            >
+                                <SelectTrigger className="w-[220px]">
+                                    <SelectValue placeholder="Select watchlist" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {watchlists.map(w => (
+                                        <SelectItem key={w._id} value={w._id}>
+                                            {w.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                </div>
+
+                <form onSubmit={handleCreate} className="flex items-end gap-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="new-watchlist">New watchlist</Label>
+                        <Input
+                            id="new-watchlist"
+                            placeholder="e.g. Tech, Majors"
+                            value={newName}
+                            maxLength={100}
+                            onChange={e => setNewName(e.target.value)}
+                        />
+                    </div>
+                    <Button type="submit" className="gap-2" disabled={!newName.trim()}>
+                        <Plus className="h-4 w-4" />
+                        Create
+                    </Button>
+                </form>
+            </div>
+
+            {error && (
+                <div className="p-2 bg-red-100 border border-red-300 rounded text-red-700 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {!selected && (
+                <div className="flex flex-col items-center justify-center p-12 border border-dashed rounded-lg">
+                    <h3 className="text-xl font-medium mb-2">No watchlists yet</h3>
+                    <p className="text-muted-foreground text-center max-w-md">
+                        Create a watchlist to keep track of the stocks and crypto you care about.
+                    </p>
+                </div>
+            )}
+
+            {selected && (
+                <Card>
+                    <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                        <div className="space-y-1.5">
+                            {isRenaming ? (
+                                <form onSubmit={handleRename} className="flex items-center gap-2">
+                                    <Input
+                                        value={renameValue}
+                                        maxLength={100}
+                                        autoFocus
+                                        onChange={e => setRenameValue(e.target.value)}
+                                    />
+                                    <Button type="submit" variant="ghost" size="icon" title="Save name">
+                                        <Check className="h-4 w-4" />
+                                    </Button>
+                                    <Button type="button" variant="ghost" size="icon" title="Cancel" onClick={() => setIsRenaming(false)}>
+                                        <X className="h-4 w-4" />
+                                    </Button>
+                                </form>
+                            ) : (
+                                <CardTitle className="flex items-center gap-2">
+                                    {selected.name}
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-6 w-6"
+                                        title="Rename watchlist"
+                                        onClick={() => {
+                                            setRenameValue(selected.name);
+                                            setIsRenaming(true);
+                                        }}
+                                    >
+                                        <Pencil className="h-3 w-3" />
+                                    </Button>
+                                </CardTitle>
+                            )}
+                            <CardDescription>
+                                {selected.tickers.length} {selected.tickers.length === 1 ? 'ticker' : 'tickers'}
+                                {lastUpdated && ` · Updated ${lastUpdated.toLocaleTimeString()}`}
+                                {isQuotesLoading && ' · Refreshing...'}
+                            </CardDescription>
+                        </div>
+
+                        <div className="flex items-center gap-4">
+                            <div className="flex items-center gap-2">
+                                <Switch
+                                    id="banner-watchlist"
+                                    checked={selected.isBannerWatchlist}
+                                    onCheckedChange={handleToggleBanner}
+                                />
+                                <Label htmlFor="banner-watchlist" className="text-sm">Show in ticker banner</Label>
+                            </div>
+                            <Button variant="outline" size="icon" className="hover:text-red-500" title="Delete watchlist" onClick={handleDelete}>
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    </CardHeader>
+
+                    <CardContent className="space-y-6">
+                        {/* Add from search results */}
+                        <Tabs defaultValue="stocks">
+                            <TabsList>
+                                <TabsTrigger value="stocks">Add Stock</TabsTrigger>
+                                <TabsTrigger value="crypto">Add Crypto</TabsTrigger>
+                            </TabsList>
+                            <TabsContent value="stocks">
+                                <CoreSearch onSelectTicker={handleAddTicker} className="w-full" />
+                            </TabsContent>
+                            <TabsContent value="crypto">
+                                <CryptoSearch onSelectTicker={handleAddTicker} className="w-full" />
+                            </TabsContent>
+                        </Tabs>
+
+                        {quotesError && (
+                            <div className="p-2 bg-red-100 border border-red-300 rounded text-red-700 text-sm">
+                                Quote Error: {quotesError}
+                            </div>
+                        )}
+
+                        {selected.tickers.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">
+                                Search above and pick a result to add it to this watchlist.
+                            </p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full border-collapse">
+                                    <thead>
+                                        <tr className="border-b">
+                                            <th className="p-2.5 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Ticker</th>
+                                            <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Price</th>
+                                            <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Day Change</th>
+                                            <th className="p-2.5 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Volume</th>
+                                            <th className="p-2.5" />
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {selected.tickers.map((ticker, index) => {
+                                            const quote = quotes[ticker];
+                                            const change = quote?.change ?? null;
+                                            return (
+                                                <tr key={ticker} className="border-b last:border-b-0">
+                                                    <td className="p-2.5 font-mono font-medium">{displayTicker(ticker)}</td>
+                                                    <td className="p-2.5 text-right">{formatPrice(quote?.price ?? null)}</td>
+                                                    <td
+                                                        className={`p-2.5 text-right font-medium ${change === null ? '' : change >= 0 ? 'text-green-600' : 'text-red-600'}`}
+                                                    >
+                                                        {formatChange(change, quote?.changePercent ?? null)}
+                                                    </td>
+                                                    <td className="p-2.5 text-right">{formatVolume(quote?.volume ?? null)}</td>
+                                                    <td className="p-2.5">
+                                                        <div className="flex justify-end gap-1">
+                                                            <Button
+                                                                variant="ghost"
+                                                                size="icon"
+                                                                className="h-7 w-7"
+                                                                title="Move up"
+                                                                disabled={index === 0}
+                                                                onClick={() => handleMove(index, -1)}
+                                                            >
+                                                                <ArrowUp className="h-4 w-4" />
+                                                            </Button>
+                                                            <Button
+                                                                variant="ghost"
+                                                                size="icon"
+                                                                className="h-7 w-7"
+                                                                title="Move down"
+                                                                disabled={index === selected.tickers.length - 1}
+                                                                onClick={() => handleMove(index, 1)}
+                                                            >
+                                                                <ArrowDown className="h-4 w-4" />
+                                                            </Button>
+                                                            <Button
+                                                                variant="ghost"
+                                                                size="icon"
+                                                                className="h-7 w-7 hover:text-red-500"
+                                                                title="Remove"
+                                                                onClick={() => run(() => removeTicker({ watchlistId: selected._id, ticker }))}
+                                                            >
+                                                                <X className="h-4 w-4" />
+                                                            </Button>
+                                                        </div>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+};
+
+export default WatchlistPanel;
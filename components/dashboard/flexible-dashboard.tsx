@@ -1,6 +1,7 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useMutation, useQuery } from 'convex/react';
 import { PlusCircle, X, Maximize, Minimize } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -26,10 +27,26 @@ import {
 
 // Import actual chart components
 import SurfaceChart from '@/components/Finance/SurfaceChart';
+import SurfaceModeControls from '@/components/Finance/SurfaceModeControls';
 import SimpleCandlestickChart from '@/components/Finance/SimpleCandlestickChart';
 import CoreSearch from '@/components/Finance/CoreSearch';
 import CryptoSearch from '@/components/Finance/CryptoSearch';
+import OrderBookWidget from '@/components/Finance/OrderBookWidget';
+import OrderBookSurfaceChart from '@/components/Finance/OrderBookSurfaceChart';
+import TimeAndSales from '@/components/Finance/TimeAndSales';
+import IvSurfaceChart from '@/components/Finance/IvSurfaceChart';
 import FlexibleCard from '@/components/ui/flexiblecard';
+import LayoutSwitcher from '@/components/dashboard/layout-switcher';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import { DashboardWidget } from '@/convex/schema';
+import { GapFill, SurfaceMode } from '@/lib/surface';
+
+// Layouts saved by older versions of the dashboard, migrated to Convex on first load
+const LEGACY_LAYOUT_STORAGE_KEY = 'dashboardLayout';
+
+// How long to wait after the last change before saving the layout
+const SAVE_DEBOUNCE_MS = 500;
 
 // Define the types of widgets that can be added to the dashboard
 type WidgetType =
@@ -41,6 +58,11 @@ type WidgetType =
   | 'stock-surface'
   | 'crypto-candle'
   | 'stock-candle'
+  | 'order-book'
+  | 'order-book-surface'
+  | 'crypto-tape'
+  | 'stock-tape'
+  | 'iv-surface'
   | 'news';
 
 // Widget configuration
@@ -58,6 +80,15 @@ interface Widget {
     height: number;
   };
   isMaximized?: boolean;
+  state?: WidgetSettings;
+}
+
+// User selections for a widget (ticker, year, surface mode), saved with the layout
+interface WidgetSettings {
+  ticker?: string;
+  year?: number;
+  surfaceMode?: SurfaceMode;
+  gapFill?: GapFill;
 }
 
 // Available widget templates
@@ -110,6 +141,36 @@ const WIDGET_TEMPLATES: Record<WidgetType, Omit<Widget, 'id' | 'position'>> = {
     description: 'Real-time stock market candlestick chart',
     size: { width: 500, height: 400 },
   },
+  'order-book': {
+    type: 'order-book',
+    title: 'Order Book',
+    description: 'Live crypto order book with depth chart',
+    size: { width: 450, height: 500 },
+  },
+  'order-book-surface': {
+    type: 'order-book-surface',
+    title: 'Liquidity Surface',
+    description: '3D order book depth over time',
+    size: { width: 500, height: 450 },
+  },
+  'crypto-tape': {
+    type: 'crypto-tape',
+    title: 'Crypto Time & Sales',
+    description: 'Filtered trade tape with buy/sell volume delta',
+    size: { width: 450, height: 500 },
+  },
+  'stock-tape': {
+    type: 'stock-tape',
+    title: 'Stock Time & Sales',
+    description: 'Filtered trade tape with buy/sell volume delta',
+    size: { width: 450, height: 500 },
+  },
+  'iv-surface': {
+    type: 'iv-surface',
+    title: 'IV Surface',
+    description: 'Implied volatility by strike and expiry',
+    size: { width: 550, height: 500 },
+  },
   news: {
     type: 'news',
     title: 'Financial News',
@@ -118,58 +179,76 @@ const WIDGET_TEMPLATES: Record<WidgetType, Omit<Widget, 'id' | 'position'>> = {
   },
 };
 
-// Widget state interface to store ticker information
-interface WidgetState {
-  [widgetId: string]: {
-    ticker?: string;
-    year?: number;
-  };
-}
+// Keep only the fields the dashboards table stores
+const toStoredWidget = (widget: Widget): DashboardWidget => ({
+  id: widget.id,
+  type: widget.type,
+  title: widget.title,
+  description: widget.description,
+  position: { x: widget.position.x, y: widget.position.y },
+  size: { width: widget.size.width, height: widget.size.height },
+  isMaximized: widget.isMaximized,
+  state: widget.state && {
+    ticker: widget.state.ticker,
+    year: widget.state.year,
+    surfaceMode: widget.state.surfaceMode,
+    gapFill: widget.state.gapFill,
+  },
+});
+
+// Drop saved widgets whose type no longer exists
+const toKnownWidgets = (widgets: DashboardWidget[]): Widget[] =>
+  widgets.filter((widget) => widget.type in WIDGET_TEMPLATES) as Widget[];
+
+// Read the pre-Convex localStorage layout, if any
+const readLegacyLayout = (): DashboardWidget[] => {
+  const savedLayout = localStorage.getItem(LEGACY_LAYOUT_STORAGE_KEY);
+  if (!savedLayout) return [];
+
+  try {
+    const parsed = JSON.parse(savedLayout);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((widget) => widget?.id && widget.type in WIDGET_TEMPLATES && widget.position && widget.size)
+      .map((widget) => toStoredWidget(widget));
+  } catch (e) {
+    console.error('Failed to load dashboard layout:', e);
+    return [];
+  }
+};
 
 // Component to render the content of each widget type
-const WidgetContent: React.FC<{ widget: Widget }> = ({ widget }) => {
+const WidgetContent: React.FC<{
+  widget: Widget;
+  onStateChange: (id: string, state: WidgetSettings) => void;
+}> = ({ widget, onStateChange }) => {
   // Get the current year for default value
   const currentYear = new Date().getFullYear();
 
-  // State to store widget-specific data like selected tickers
-  const [widgetStates, setWidgetStates] = useState<WidgetState>({});
-
-  // Initialize widget state if it doesn't exist
-  useEffect(() => {
-    if (!widgetStates[widget.id]) {
-      setWidgetStates(prev => ({
-        ...prev,
-        [widget.id]: {
-          ticker: widget.type.includes('crypto') ? 'X:BTCUSD' : 'AAPL',
-          year: currentYear
-        }
-      }));
-    }
-  }, [widget.id, widget.type, widgetStates]);
-
-  // Get the current widget state
-  const widgetState = widgetStates[widget.id] || { ticker: widget.type.includes('crypto') ? 'X:BTCUSD' : 'AAPL', year: currentYear };
+  // Get the current widget state, falling back to defaults for new widgets
+  const widgetState: WidgetSettings = {
+    ticker: widget.type.includes('crypto') || widget.type.startsWith('order-book') ? 'X:BTCUSD' : 'AAPL',
+    year: currentYear,
+    ...widget.state
+  };
 
   // Handler for ticker selection
   const handleSelectTicker = (ticker: string) => {
-    setWidgetStates(prev => ({
-      ...prev,
-      [widget.id]: {
-        ...prev[widget.id],
-        ticker
-      }
-    }));
+    onStateChange(widget.id, { ...widget.state, ticker });
   };
 
   // Handler for year selection (for surface charts)
   const handleYearChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    setWidgetStates(prev => ({
-      ...prev,
-      [widget.id]: {
-        ...prev[widget.id],
-        year: parseInt(e.target.value, 10)
-      }
-    }));
+    onStateChange(widget.id, { ...widget.state, year: parseInt(e.target.value, 10) });
+  };
+
+  // Handlers for the surface charts' mode and gap handling
+  const handleSurfaceModeChange = (surfaceMode: SurfaceMode) => {
+    onStateChange(widget.id, { ...widget.state, surfaceMode });
+  };
+
+  const handleGapFillChange = (gapFill: GapFill) => {
+    onStateChange(widget.id, { ...widget.state, gapFill });
   };
 
   switch (widget.type) {
@@ -216,10 +295,19 @@ const WidgetContent: React.FC<{ widget: Widget }> = ({ widget }) => {
               className="w-full"
             />
           </div>
+          <SurfaceModeControls
+            mode={widgetState.surfaceMode || 'close'}
+            gapFill={widgetState.gapFill || 'carryForward'}
+            onModeChange={handleSurfaceModeChange}
+            onGapFillChange={handleGapFillChange}
+            className="mb-2"
+          />
           <div className="flex-grow">
             <SurfaceChart
               ticker={widgetState.ticker || 'X:BTCUSD'}
               year={widgetState.year || currentYear}
+              mode={widgetState.surfaceMode}
+              gapFill={widgetState.gapFill}
               key={`${widget.id}-${widgetState.ticker}-${widgetState.year}`}
             />
           </div>
@@ -235,10 +323,19 @@ const WidgetContent: React.FC<{ widget: Widget }> = ({ widget }) => {
               className="w-full"
             />
           </div>
+          <SurfaceModeControls
+            mode={widgetState.surfaceMode || 'close'}
+            gapFill={widgetState.gapFill || 'carryForward'}
+            onModeChange={handleSurfaceModeChange}
+            onGapFillChange={handleGapFillChange}
+            className="mb-2"
+          />
           <div className="flex-grow">
             <SurfaceChart
               ticker={widgetState.ticker || 'AAPL'}
               year={widgetState.year || currentYear}
+              mode={widgetState.surfaceMode}
+              gapFill={widgetState.gapFill}
               key={`${widget.id}-${widgetState.ticker}-${widgetState.year}`}
             />
           </div>
@@ -280,6 +377,96 @@ const WidgetContent: React.FC<{ widget: Widget }> = ({ widget }) => {
           </div>
         </div>
       );
+    case 'order-book':
+      return (
+        <div className="flex flex-col h-full">
+          <div className="mb-4">
+            <CryptoSearch
+              onSelectTicker={handleSelectTicker}
+              selectedTicker={widgetState.ticker}
+              className="w-full"
+            />
+          </div>
+          <div className="flex-grow min-h-0">
+            <OrderBookWidget
+              ticker={widgetState.ticker || 'X:BTCUSD'}
+              key={`${widget.id}-${widgetState.ticker}`}
+            />
+          </div>
+        </div>
+      );
+    case 'order-book-surface':
+      return (
+        <div className="flex flex-col h-full">
+          <div className="mb-4">
+            <CryptoSearch
+              onSelectTicker={handleSelectTicker}
+              selectedTicker={widgetState.ticker}
+              className="w-full"
+            />
+          </div>
+          <div className="flex-grow">
+            <OrderBookSurfaceChart
+              ticker={widgetState.ticker || 'X:BTCUSD'}
+              key={`${widget.id}-${widgetState.ticker}`}
+            />
+          </div>
+        </div>
+      );
+    case 'crypto-tape':
+      return (
+        <div className="flex flex-col h-full">
+          <div className="mb-4">
+            <CryptoSearch
+              onSelectTicker={handleSelectTicker}
+              selectedTicker={widgetState.ticker}
+              className="w-full"
+            />
+          </div>
+          <div className="flex-grow min-h-0">
+            <TimeAndSales
+              ticker={widgetState.ticker || 'X:BTCUSD'}
+              key={`${widget.id}-${widgetState.ticker}`}
+            />
+          </div>
+        </div>
+      );
+    case 'stock-tape':
+      return (
+        <div className="flex flex-col h-full">
+          <div className="mb-4">
+            <CoreSearch
+              onSelectTicker={handleSelectTicker}
+              selectedTicker={widgetState.ticker}
+              className="w-full"
+            />
+          </div>
+          <div className="flex-grow min-h-0">
+            <TimeAndSales
+              ticker={widgetState.ticker || 'AAPL'}
+              key={`${widget.id}-${widgetState.ticker}`}
+            />
+          </div>
+        </div>
+      );
+    case 'iv-surface':
+      return (
+        <div className="flex flex-col h-full">
+          <div className="mb-4">
+            <CoreSearch
+              onSelectTicker={handleSelectTicker}
+              selectedTicker={widgetState.ticker}
+              className="w-full"
+            />
+          </div>
+          <div className="flex-grow min-h-0 overflow-y-auto">
+            <IvSurfaceChart
+              underlying={widgetState.ticker || 'AAPL'}
+              key={`${widget.id}-${widgetState.ticker}`}
+            />
+          </div>
+        </div>
+      );
     case 'activity':
       return (
         <div className="space-y-4">
@@ -363,7 +550,8 @@ const DraggableWidget: React.FC<{
   onRemove: (id: string) => void;
   onResize: (id: string, width: number, height: number) => void;
   onToggleMaximize: (id: string) => void;
-}> = ({ widget, onMove, onRemove, onResize, onToggleMaximize }) => {
+  onStateChange: (id: string, state: WidgetSettings) => void;
+}> = ({ widget, onMove, onRemove, onResize, onToggleMaximize, onStateChange }) => {
   // Create header with controls
   const widgetHeader = (
     <div className="flex items-center justify-between w-full">
@@ -411,7 +599,7 @@ const DraggableWidget: React.FC<{
       onResize={(width, height) => onResize(widget.id, width, height)}
       className="widget-card"
     >
-      <WidgetContent widget={widget} />
+      <WidgetContent widget={widget} onStateChange={onStateChange} />
     </FlexibleCard>
   );
 };
@@ -425,8 +613,8 @@ const WidgetSelector: React.FC<{
 
   // Filter widget types by category
   const generalWidgets: WidgetType[] = ['stats', 'chart', 'activity', 'finance', 'news'];
-  const cryptoWidgets: WidgetType[] = ['crypto-surface', 'crypto-candle'];
-  const stockWidgets: WidgetType[] = ['stock-surface', 'stock-candle'];
+  const cryptoWidgets: WidgetType[] = ['crypto-surface', 'crypto-candle', 'order-book', 'order-book-surface', 'crypto-tape'];
+  const stockWidgets: WidgetType[] = ['stock-surface', 'stock-candle', 'stock-tape', 'iv-surface'];
 
   // Get widgets for the current tab
   const getWidgetsForTab = () => {
@@ -470,13 +658,16 @@ const WidgetSelector: React.FC<{
                   </CardHeader>
                   <CardContent className="h-24 overflow-hidden opacity-50">
                     <div className="flex items-center justify-center h-full text-muted-foreground">
-                      {template.type.includes('surface') && 'Surface Chart'}
+                      {template.type.includes('surface') && !template.type.startsWith('order-book') && 'Surface Chart'}
                       {template.type.includes('candle') && 'Candlestick Chart'}
                       {template.type === 'stats' && 'Statistics Widget'}
                       {template.type === 'chart' && 'Chart Widget'}
                       {template.type === 'activity' && 'Activity Feed'}
                       {template.type === 'finance' && 'Financial Data'}
                       {template.type === 'news' && 'News Feed'}
+                      {template.type === 'order-book' && 'Order Book Ladder'}
+                      {template.type === 'order-book-surface' && 'Liquidity Surface'}
+                      {template.type.includes('tape') && 'Time & Sales'}
                     </div>
                   </CardContent>
                 </Card>
@@ -517,23 +708,131 @@ const DashboardStyles = () => {
 const FlexibleDashboard: React.FC = () => {
   const [widgets, setWidgets] = useState<Widget[]>([]);
   const [isAddingWidget, setIsAddingWidget] = useState(false);
+  const [loadedDashboardId, setLoadedDashboardId] = useState<Id<'dashboards'> | null>(null);
+
+  // Saved layouts for the signed-in user (null until their users document exists)
+  const dashboards = useQuery(api.dashboards.list);
+  const createDashboard = useMutation(api.dashboards.create);
+  const renameDashboard = useMutation(api.dashboards.rename);
+  const duplicateDashboard = useMutation(api.dashboards.duplicate);
+  const removeDashboard = useMutation(api.dashboards.remove);
+  const setActiveDashboard = useMutation(api.dashboards.setActive);
+  const saveDashboardWidgets = useMutation(api.dashboards.saveWidgets);
+  const importLocalLayout = useMutation(api.dashboards.importLocalLayout);
+
+  const activeDashboard = dashboards?.find((d) => d.isActive) ?? dashboards?.[0];
+
+  // Debounced save state: only user edits mark the layout dirty, not loading it
+  const isDirtyRef = useRef(false);
+  const pendingSaveRef = useRef<{ dashboardId: Id<'dashboards'>; widgets: DashboardWidget[] } | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isMigratingRef = useRef(false);
+
+  // Write any pending changes immediately
+  const flushSave = useCallback(async () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
 
-  // Load saved dashboard layout from localStorage on initial render
-  useEffect(() => {
-    const savedLayout = localStorage.getItem('dashboardLayout');
-    if (savedLayout) {
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (pending) {
       try {
-        setWidgets(JSON.parse(savedLayout));
+        await saveDashboardWidgets(pending);
       } catch (e) {
-        console.error('Failed to load dashboard layout:', e);
+        console.error('Failed to save dashboard layout:', e);
       }
     }
-  }, []);
+  }, [saveDashboardWidgets]);
 
-  // Save dashboard layout to localStorage whenever it changes
+  // Migrate the old localStorage layout the first time a user without dashboards loads the page
+  useEffect(() => {
+    if (!dashboards || dashboards.length > 0 || isMigratingRef.current) return;
+
+    isMigratingRef.current = true;
+    importLocalLayout({ widgets: readLegacyLayout() })
+      .then(() => {
+        localStorage.removeItem(LEGACY_LAYOUT_STORAGE_KEY);
+      })
+      .catch((e) => {
+        console.error('Failed to migrate dashboard layout:', e);
+      })
+      .finally(() => {
+        isMigratingRef.current = false;
+      });
+  }, [dashboards, importLocalLayout]);
+
+  // Load the active layout whenever the user switches to a different one
   useEffect(() => {
-    localStorage.setItem('dashboardLayout', JSON.stringify(widgets));
-  }, [widgets]);
+    if (!activeDashboard || activeDashboard._id === loadedDashboardId) return;
+
+    flushSave();
+    isDirtyRef.current = false;
+    setWidgets(toKnownWidgets(activeDashboard.widgets));
+    setLoadedDashboardId(activeDashboard._id);
+  }, [activeDashboard, loadedDashboardId, flushSave]);
+
+  // Save the layout to Convex whenever the user changes it
+  useEffect(() => {
+    if (!isDirtyRef.current || !loadedDashboardId) return;
+
+    isDirtyRef.current = false;
+    pendingSaveRef.current = { dashboardId: loadedDashboardId, widgets: widgets.map(toStoredWidget) };
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+    }
+    saveTimerRef.current = setTimeout(flushSave, SAVE_DEBOUNCE_MS);
+  }, [widgets, loadedDashboardId, flushSave]);
+
+  // Don't lose the last edit when navigating away
+  useEffect(() => {
+    return () => {
+      flushSave();
+    };
+  }, [flushSave]);
+
+  // Apply a user edit to the current layout
+  const updateWidgets = (updatedWidgets: Widget[]) => {
+    isDirtyRef.current = true;
+    setWidgets(updatedWidgets);
+  };
+
+  // Layout management
+  const switchLayout = (id: string) => {
+    flushSave();
+    setActiveDashboard({ dashboardId: id as Id<'dashboards'> });
+  };
+
+  const createLayout = (name: string) => {
+    flushSave();
+    createDashboard({ name }).catch((e) => console.error('Failed to create layout:', e));
+  };
+
+  const renameLayout = (name: string) => {
+    if (!loadedDashboardId) return;
+    renameDashboard({ dashboardId: loadedDashboardId, name }).catch((e) => console.error('Failed to rename layout:', e));
+  };
+
+  const duplicateLayout = (name: string) => {
+    if (!loadedDashboardId) return;
+    const dashboardId = loadedDashboardId;
+    // Save first so the copy includes the latest edits
+    flushSave()
+      .then(() => duplicateDashboard({ dashboardId, name }))
+      .catch((e) => console.error('Failed to duplicate layout:', e));
+  };
+
+  const deleteLayout = () => {
+    if (!loadedDashboardId) return;
+    // Nothing left to save for a layout that's going away
+    pendingSaveRef.current = null;
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    removeDashboard({ dashboardId: loadedDashboardId }).catch((e) => console.error('Failed to delete layout:', e));
+  };
 
   // Add a new widget to the dashboard
   const addWidget = (type: WidgetType) => {
@@ -552,7 +851,7 @@ const FlexibleDashboard: React.FC = () => {
           y: Math.max(0, 100), // Place it near the top with some padding
         },
       };
-      setWidgets([...widgets, newWidget]);
+      updateWidgets([...widgets, newWidget]);
     } else {
       // Fallback if container not found
       const newWidget: Widget = {
@@ -563,13 +862,13 @@ const FlexibleDashboard: React.FC = () => {
           y: 100,
         },
       };
-      setWidgets([...widgets, newWidget]);
+      updateWidgets([...widgets, newWidget]);
     }
   };
 
   // Remove a widget from the dashboard
   const removeWidget = (id: string) => {
-    setWidgets(widgets.filter((w) => w.id !== id));
+    updateWidgets(widgets.filter((w) => w.id !== id));
   };
 
   // Update a widget's position
@@ -579,7 +878,7 @@ const FlexibleDashboard: React.FC = () => {
     const newY = Math.max(0, y);
 
     // Update the widget position
-    setWidgets(
+    updateWidgets(
       widgets.map((w) =>
         w.id === id ? { ...w, position: { x: newX, y: newY } } : w
       )
@@ -588,7 +887,7 @@ const FlexibleDashboard: React.FC = () => {
 
   // Update a widget's size
   const resizeWidget = (id: string, width: number, height: number) => {
-    setWidgets(
+    updateWidgets(
       widgets.map((w) =>
         w.id === id ? { ...w, size: { width, height } } : w
       )
@@ -597,13 +896,22 @@ const FlexibleDashboard: React.FC = () => {
 
   // Toggle a widget's maximized state
   const toggleMaximize = (id: string) => {
-    setWidgets(
+    updateWidgets(
       widgets.map((w) =>
         w.id === id ? { ...w, isMaximized: !w.isMaximized } : w
       )
     );
   };
 
+  // Update a widget's saved selections (ticker, year)
+  const updateWidgetState = (id: string, state: WidgetSettings) => {
+    updateWidgets(
+      widgets.map((w) =>
+        w.id === id ? { ...w, state } : w
+      )
+    );
+  };
+
   return (
     <div id="dashboard-container" className="relative min-h-[calc(100vh-4rem)] p-6">
       <DashboardStyles />
@@ -616,31 +924,51 @@ const FlexibleDashboard: React.FC = () => {
           </p>
         </div>
 
-        {/* Add widget button */}
-        <Dialog open={isAddingWidget} onOpenChange={setIsAddingWidget}>
-          <DialogTrigger asChild>
-            <Button className="gap-2">
-              <PlusCircle className="h-4 w-4" />
-              Add Widget
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-4xl">
-            <DialogHeader>
-              <DialogTitle>Add Widget</DialogTitle>
-              <DialogDescription>
-                Select a widget to add to your dashboard.
-              </DialogDescription>
-            </DialogHeader>
-            <WidgetSelector
-              onSelect={addWidget}
-              onClose={() => setIsAddingWidget(false)}
-            />
-          </DialogContent>
-        </Dialog>
+        <div className="flex items-center gap-4">
+          {/* Saved layouts */}
+          <LayoutSwitcher
+            layouts={(dashboards ?? []).map((d) => ({ id: d._id, name: d.name }))}
+            activeLayoutId={loadedDashboardId}
+            onSwitch={switchLayout}
+            onCreate={createLayout}
+            onRename={renameLayout}
+            onDuplicate={duplicateLayout}
+            onDelete={deleteLayout}
+          />
+
+          {/* Add widget button */}
+          <Dialog open={isAddingWidget} onOpenChange={setIsAddingWidget}>
+            <DialogTrigger asChild>
+              <Button className="gap-2">
+                <PlusCircle className="h-4 w-4" />
+                Add Widget
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-4xl">
+              <DialogHeader>
+                <DialogTitle>Add Widget</DialogTitle>
+                <DialogDescription>
+                  Select a widget to add to your dashboard.
+                </DialogDescription>
+              </DialogHeader>
+              <WidgetSelector
+                onSelect={addWidget}
+                onClose={() => setIsAddingWidget(false)}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      {/* Loading state */}
+      {!loadedDashboardId && (
+        <div className="flex items-center justify-center p-12 text-muted-foreground">
+          Loading your dashboard...
+        </div>
+      )}
+
       {/* Empty state */}
-      {widgets.length === 0 && (
+      {loadedDashboardId && widgets.length === 0 && (
         <div className="flex flex-col items-center justify-center p-12 border border-dashed rounded-lg">
           <h3 className="text-xl font-medium mb-2">Your dashboard is empty</h3>
           <p className="text-muted-foreground mb-6 text-center max-w-md">
@@ -666,6 +994,7 @@ const FlexibleDashboard: React.FC = () => {
             onRemove={removeWidget}
             onResize={resizeWidget}
             onToggleMaximize={toggleMaximize}
+            onStateChange={updateWidgetState}
           />
         ))}
       </div>
@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Copy, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export interface LayoutOption {
+  id: string;
+  name: string;
+}
+
+type NameDialogMode = 'create' | 'rename' | 'duplicate';
+
+const DIALOG_COPY: Record<NameDialogMode, { title: string; description: string; action: string }> = {
+  create: {
+    title: 'New Layout',
+    description: 'Start an empty dashboard layout.',
+    action: 'Create',
+  },
+  rename: {
+    title: 'Rename Layout',
+    description: 'Give this layout a new name.',
+    action: 'Save',
+  },
+  duplicate: {
+    title: 'Duplicate Layout',
+    description: 'Copy this layout and its widgets into a new one.',
+    action: 'Duplicate',
+  },
+};
+
+interface LayoutSwitcherProps {
+  layouts: LayoutOption[];
+  activeLayoutId: string | null;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDuplicate: (name: string) => void;
+  onDelete: () => void;
+}
+
+// Picker and actions for the user's named dashboard layouts
+const LayoutSwitcher: React.FC<LayoutSwitcherProps> = ({
+  layouts,
+  activeLayoutId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  const [dialogMode, setDialogMode] = useState<NameDialogMode | null>(null);
+  const [name, setName] = useState('');
+
+  const activeLayout = layouts.find((layout) => layout.id === activeLayoutId);
+
+  const openDialog = (mode: NameDialogMode) => {
+    if (mode === 'rename') {
+      setName(activeLayout?.name ?? '');
+    } else if (mode === 'duplicate') {
+      setName(activeLayout ? `${activeLayout.name} (copy)` : '');
+    } else {
+      setName('');
+    }
+    setDialogMode(mode);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || !dialogMode) return;
+
+    if (dialogMode === 'create') onCreate(trimmed);
+    if (dialogMode === 'rename') onRename(trimmed);
+    if (dialogMode === 'duplicate') onDuplicate(trimmed);
+    setDialogMode(null);
+  };
+
+  const handleDelete = () => {
+    if (!activeLayout) return;
+    if (window.confirm(`Delete the "${activeLayout.name}" layout? This cannot be undone.`)) {
+      onDelete();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={activeLayoutId ?? undefined} onValueChange={onSwitch}>
+        <SelectTrigger className="w-[200px]">
+          <SelectValue placeholder="Select layout" />
+        </SelectTrigger>
+        <SelectContent>
+          {layouts.map((layout) => (
+            <SelectItem key={layout.id} value={layout.id}>
+              {layout.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button variant="outline" size="icon" title="New layout" onClick={() => openDialog('create')}>
+        <Plus className="h-4 w-4" />
+      </Button>
+      <Button variant="outline" size="icon" title="Rename layout" disabled={!activeLayout} onClick={() => openDialog('rename')}>
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button variant="outline" size="icon" title="Duplicate layout" disabled={!activeLayout} onClick={() => openDialog('duplicate')}>
+        <Copy className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        title="Delete layout"
+        className="hover:text-red-500"
+        disabled={!activeLayout || layouts.length <= 1}
+        onClick={handleDelete}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent>
+          {dialogMode && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>{DIALOG_COPY[dialogMode].title}</DialogTitle>
+                <DialogDescription>{DIALOG_COPY[dialogMode].description}</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="layout-name">Name</Label>
+                <Input
+                  id="layout-name"
+                  value={name}
+                  maxLength={100}
+                  autoFocus
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDialogMode(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={!name.trim()}>
+                  {DIALOG_COPY[dialogMode].action}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default LayoutSwitcher;
@@ -0,0 +1,85 @@
+"use client";
+
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { useMutation, useQuery } from "convex/react";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import Link from "next/link";
+import { Button } from "./ui/button";
+
+export function NotificationBell() {
+    const { notifications, unreadCount } = useQuery(api.notifications.list) || { notifications: [], unreadCount: 0 };
+    const markRead = useMutation(api.notifications.markRead);
+    const markAllRead = useMutation(api.notifications.markAllRead);
+
+    const handleSelect = (notification: Doc<"notifications">) => {
+        if (!notification.read) {
+            markRead({ notificationId: notification._id });
+        }
+    };
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="relative h-9 w-9" title="Notifications">
+                    <Bell className="h-5 w-5" />
+                    {unreadCount > 0 && (
+                        <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+                            {unreadCount > 99 ? "99+" : unreadCount}
+                        </span>
+                    )}
+                    <span className="sr-only">{unreadCount} unread notifications</span>
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="w-80" align="end">
+                <DropdownMenuLabel className="flex items-center justify-between font-normal">
+                    <span className="text-sm font-medium">Notifications</span>
+                    {unreadCount > 0 && (
+                        <button
+                            className="text-xs text-muted-foreground hover:text-foreground"
+                            onClick={() => markAllRead()}
+                        >
+                            Mark all as read
+                        </button>
+                    )}
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {notifications.length === 0 ? (
+                    <p className="px-2 py-6 text-center text-sm text-muted-foreground">No notifications yet</p>
+                ) : (
+                    <div className="max-h-96 overflow-y-auto">
+                        {notifications.map((notification) => (
+                            <DropdownMenuItem
+                                key={notification._id}
+                                className="flex flex-col items-start gap-1 cursor-pointer"
+                                onSelect={() => handleSelect(notification)}
+                            >
+                                <div className="flex w-full items-center gap-2">
+                                    {!notification.read && <span className="h-2 w-2 shrink-0 rounded-full bg-blue-500" />}
+                                    <span className="text-sm font-medium">{notification.title}</span>
+                                </div>
+                                <p className="text-xs text-muted-foreground whitespace-pre-line">{notification.body}</p>
+                                <span className="text-[10px] text-muted-foreground">
+                                    {formatDistanceToNow(notification.createdAt, { addSuffix: true })}
+                                </span>
+                            </DropdownMenuItem>
+                        ))}
+                    </div>
+                )}
+                <DropdownMenuSeparator />
+                <Link href="/dashboard/alerts">
+                    <DropdownMenuItem className="justify-center text-sm">Manage alerts</DropdownMenuItem>
+                </Link>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -50,6 +50,26 @@ const components: { title: string; href: string; description: string }[] = [
     href: "/crypto",
     description: "Explore cryptocurrency prices and trends in 3D.",
   },
+  {
+    title: "Replay",
+    href: "/replay",
+    description: "Play back a past trading day through the live charts.",
+  },
+  {
+    title: "Options",
+    href: "/options",
+    description: "Browse option chains with IV and greeks.",
+  },
+  {
+    title: "Compare",
+    href: "/compare",
+    description: "Compare several tickers' performance in 3D.",
+  },
+  {
+    title: "Risk / Return",
+    href: "/risk-return",
+    description: "Volatility against return for thousands of tickers in 3D.",
+  },
 ];
 
 export default function NavBar() {
@@ -13,9 +13,18 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as alerts from "../alerts.js";
+import type * as crons from "../crons.js";
+import type * as dashboards from "../dashboards.js";
+import type * as email from "../email.js";
 import type * as http from "../http.js";
+import type * as importPresets from "../importPresets.js";
+import type * as lib_auth from "../lib/auth.js";
+import type * as notifications from "../notifications.js";
 import type * as subscriptions from "../subscriptions.js";
+import type * as transactions from "../transactions.js";
 import type * as users from "../users.js";
+import type * as watchlists from "../watchlists.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -26,9 +35,18 @@ import type * as users from "../users.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  alerts: typeof alerts;
+  crons: typeof crons;
+  dashboards: typeof dashboards;
+  email: typeof email;
   http: typeof http;
+  importPresets: typeof importPresets;
+  "lib/auth": typeof lib_auth;
+  notifications: typeof notifications;
   subscriptions: typeof subscriptions;
+  transactions: typeof transactions;
   users: typeof users;
+  watchlists: typeof watchlists;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,402 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { internalAction, internalMutation, internalQuery, mutation, MutationCtx, query } from "./_generated/server";
+import { getCurrentUser, requireCurrentUser } from "./lib/auth";
+import { deliverNotification } from "./notifications";
+import { ALERT_CONDITIONS, alertConditionValidator } from "./schema";
+
+const MAX_ALERTS_PER_USER = 50;
+
+// Tickers per snapshot request, so the query string stays a reasonable length
+const SNAPSHOT_BATCH_SIZE = 50;
+
+// Daily bars averaged for volume_spike alerts, and how far back to look for them
+const AVERAGE_VOLUME_DAYS = 20;
+const AVERAGE_VOLUME_LOOKBACK_DAYS = 40;
+
+interface SnapshotTicker {
+    ticker: string;
+    day?: { c?: number; v?: number };
+    min?: { c?: number };
+    prevDay?: { c?: number };
+    lastTrade?: { p?: number };
+    todaysChangePerc?: number;
+}
+
+const getOwnedAlert = async (ctx: MutationCtx, alertId: Doc<"alerts">["_id"]) => {
+    const user = await requireCurrentUser(ctx);
+    const alert = await ctx.db.get(alertId);
+    if (!alert || alert.userId !== user._id) {
+        throw new Error("Alert not found");
+    }
+    return alert;
+};
+
+const isCryptoTicker = (ticker: string) => ticker.startsWith("X:");
+
+// Polygon tickers: stock symbols ("AAPL", "BRK.B") and crypto pairs ("X:BTCUSD")
+const STOCK_TICKER_PATTERN = /^[A-Z][A-Z0-9.]{0,9}$/;
+const CRYPTO_TICKER_PATTERN = /^X:[A-Z0-9]{4,20}$/;
+
+/**
+ * Normalize a ticker the way the market routes do (trimmed, upper case), converting "BTC-USD" pairs
+ * to Polygon's form. The evaluation job puts it in market data URLs, titles and email subjects,
+ * so anything else is rejected.
+ */
+const normalizeAlertTicker = (input: string) => {
+    const ticker = input.trim().toUpperCase();
+    const pair = ticker.match(/^([A-Z0-9]{2,10})-([A-Z0-9]{2,10})$/);
+    const normalized = pair ? `X:${pair[1]}${pair[2]}` : ticker;
+
+    if (!STOCK_TICKER_PATTERN.test(normalized) && !CRYPTO_TICKER_PATTERN.test(normalized)) {
+        throw new Error("Ticker must be a stock symbol like AAPL or a crypto pair like BTC-USD");
+    }
+    return normalized;
+};
+
+const displayTicker = (ticker: string) => ticker.replace(/^X:/, "");
+
+const toDateString = (timestamp: number) => new Date(timestamp).toISOString().split("T")[0];
+
+const formatPrice = (price: number) => {
+    return price.toLocaleString("en-US", {
+        style: "currency",
+        currency: "USD",
+        minimumFractionDigits: 2,
+        maximumFractionDigits: price < 1 ? 6 : 2,
+    });
+};
+
+// Crypto trades around the clock so the last trade is the live price; stocks fall back to the
+// latest minute bar and then the day bar outside of trading hours
+const getSnapshotPrice = (snapshot: SnapshotTicker) => {
+    return snapshot.lastTrade?.p || snapshot.min?.c || snapshot.day?.c || snapshot.prevDay?.c || undefined;
+};
+
+/**
+ * Describe the alert in plain words, e.g. "AAPL moves more than 3%"
+ */
+export const describeAlert = (alert: Pick<Doc<"alerts">, "ticker" | "condition" | "threshold">) => {
+    const ticker = displayTicker(alert.ticker);
+    switch (alert.condition) {
+        case ALERT_CONDITIONS.PRICE_ABOVE:
+            return `${ticker} crosses above ${formatPrice(alert.threshold)}`;
+        case ALERT_CONDITIONS.PRICE_BELOW:
+            return `${ticker} crosses below ${formatPrice(alert.threshold)}`;
+        case ALERT_CONDITIONS.PERCENT_MOVE:
+            return `${ticker} moves more than ${alert.threshold}% intraday`;
+        case ALERT_CONDITIONS.VOLUME_SPIKE:
+            return `${ticker} volume reaches ${alert.threshold}x average`;
+    }
+};
+
+/**
+ * Check one alert against the latest snapshot. Returns the notification to send, or null.
+ *
+ * Crossing alerts fire when the price moves across the threshold between two evaluations, so
+ * they re-arm by themselves once the price crosses back. Percent and volume alerts fire at most
+ * once per UTC day.
+ */
+const checkAlert = (
+    alert: Doc<"alerts">,
+    snapshot: SnapshotTicker,
+    price: number | undefined,
+    averageVolume: number | undefined,
+    now: number
+) => {
+    const ticker = displayTicker(alert.ticker);
+    const firedToday = alert.lastTriggeredAt !== undefined
+        && toDateString(alert.lastTriggeredAt) === toDateString(now);
+
+    switch (alert.condition) {
+        case ALERT_CONDITIONS.PRICE_ABOVE:
+            if (price === undefined || alert.lastPrice === undefined) return null;
+            if (alert.lastPrice < alert.threshold && price >= alert.threshold) {
+                return {
+                    title: `${ticker} crossed above ${formatPrice(alert.threshold)}`,
+                    body: `${ticker} is trading at ${formatPrice(price)}.`,
+                };
+            }
+            return null;
+
+        case ALERT_CONDITIONS.PRICE_BELOW:
+            if (price === undefined || alert.lastPrice === undefined) return null;
+            if (alert.lastPrice > alert.threshold && price <= alert.threshold) {
+                return {
+                    title: `${ticker} crossed below ${formatPrice(alert.threshold)}`,
+                    body: `${ticker} is trading at ${formatPrice(price)}.`,
+                };
+            }
+            return null;
+
+        case ALERT_CONDITIONS.PERCENT_MOVE: {
+            const changePercent = snapshot.todaysChangePerc;
+            if (firedToday || changePercent === undefined) return null;
+            if (Math.abs(changePercent) >= alert.threshold) {
+                const sign = changePercent >= 0 ? "+" : "";
+                return {
+                    title: `${ticker} moved ${sign}${changePercent.toFixed(2)}% today`,
+                    body: `${ticker} is ${changePercent >= 0 ? "up" : "down"} ${Math.abs(changePercent).toFixed(2)}% intraday`
+                        + (price !== undefined ? ` at ${formatPrice(price)}.` : "."),
+                };
+            }
+            return null;
+        }
+
+        case ALERT_CONDITIONS.VOLUME_SPIKE: {
+            const volume = snapshot.day?.v;
+            if (firedToday || !volume || !averageVolume) return null;
+            const ratio = volume / averageVolume;
+            if (ratio >= alert.threshold) {
+                return {
+                    title: `${ticker} volume is ${ratio.toFixed(1)}x average`,
+                    body: `${ticker} has traded ${volume.toLocaleString("en-US")} today against a `
+                        + `${AVERAGE_VOLUME_DAYS}-day average of ${Math.round(averageVolume).toLocaleString("en-US")}.`,
+                };
+            }
+            return null;
+        }
+    }
+};
+
+export const list = query({
+    args: {},
+    handler: async (ctx) => {
+        const user = await getCurrentUser(ctx);
+        if (!user) {
+            return [];
+        }
+
+        const alerts = await ctx.db
+            .query("alerts")
+            .withIndex("userId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        return alerts
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+            .map((alert) => ({ ...alert, description: describeAlert(alert) }));
+    },
+});
+
+export const create = mutation({
+    args: {
+        ticker: v.string(),
+        condition: alertConditionValidator,
+        threshold: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireCurrentUser(ctx);
+
+        const ticker = normalizeAlertTicker(args.ticker);
+        if (!Number.isFinite(args.threshold) || args.threshold <= 0) {
+            throw new Error("Threshold must be a positive number");
+        }
+
+        const existing = await ctx.db
+            .query("alerts")
+            .withIndex("userId", (q) => q.eq("userId", user._id))
+            .collect();
+        if (existing.length >= MAX_ALERTS_PER_USER) {
+            throw new Error(`You can have at most ${MAX_ALERTS_PER_USER} alerts`);
+        }
+
+        return await ctx.db.insert("alerts", {
+            userId: user._id,
+            ticker,
+            condition: args.condition,
+            threshold: args.threshold,
+            isActive: true,
+            createdAt: new Date().toISOString(),
+        });
+    },
+});
+
+export const setActive = mutation({
+    args: {
+        alertId: v.id("alerts"),
+        isActive: v.boolean(),
+    },
+    handler: async (ctx, args) => {
+        await getOwnedAlert(ctx, args.alertId);
+        // Forget the last price so a re-enabled alert doesn't fire on a cross that happened while it was off
+        await ctx.db.patch(args.alertId, { isActive: args.isActive, lastPrice: undefined });
+    },
+});
+
+export const remove = mutation({
+    args: {
+        alertId: v.id("alerts"),
+    },
+    handler: async (ctx, args) => {
+        await getOwnedAlert(ctx, args.alertId);
+        await ctx.db.delete(args.alertId);
+    },
+});
+
+export const listActive = internalQuery({
+    args: {},
+    handler: async (ctx) => {
+        return await ctx.db
+            .query("alerts")
+            .withIndex("isActive", (q) => q.eq("isActive", true))
+            .collect();
+    },
+});
+
+/**
+ * Store what an evaluation saw and notify the user if the alert fired
+ */
+export const recordEvaluation = internalMutation({
+    args: {
+        alertId: v.id("alerts"),
+        price: v.optional(v.number()),
+        averageVolume: v.optional(v.number()),
+        averageVolumeDate: v.optional(v.string()),
+        notification: v.optional(v.object({
+            title: v.string(),
+            body: v.string(),
+        })),
+    },
+    handler: async (ctx, args) => {
+        const alert = await ctx.db.get(args.alertId);
+        // The alert may have been deleted or paused while the action was fetching
+        if (!alert || !alert.isActive) {
+            return;
+        }
+
+        await ctx.db.patch(alert._id, {
+            lastPrice: args.price ?? alert.lastPrice,
+            averageVolume: args.averageVolume ?? alert.averageVolume,
+            averageVolumeDate: args.averageVolumeDate ?? alert.averageVolumeDate,
+            ...(args.notification ? { lastTriggeredAt: Date.now() } : {}),
+        });
+
+        if (args.notification) {
+            await deliverNotification(ctx, {
+                userId: alert.userId,
+                alertId: alert._id,
+                title: args.notification.title,
+                body: `${args.notification.body}\n\nAlert: ${describeAlert(alert)}`,
+            });
+        }
+    },
+});
+
+// The deployed app, as reachable from Convex (never localhost on a hosted deployment)
+const requireAppUrl = () => {
+    const appUrl = process.env.APP_URL;
+    if (!appUrl) {
+        throw new Error("APP_URL is not configured on the Convex deployment; alerts cannot reach /api/market");
+    }
+    return appUrl.replace(/\/+$/, "");
+};
+
+// Go through the app's /api/market routes so alerts share the proxy's cache and rate limit
+const fetchMarketJson = async <T>(appUrl: string, path: string, params: Record<string, string>): Promise<T> => {
+    const url = `${appUrl}/api/market/${path}?${new URLSearchParams(params).toString()}`;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Market data request failed: ${response.status} ${response.statusText} (${path})`);
+    }
+    return await response.json() as T;
+};
+
+const fetchSnapshots = async (appUrl: string, tickers: string[]) => {
+    const snapshots = new Map<string, SnapshotTicker>();
+
+    for (const market of ["stocks", "crypto"] as const) {
+        const marketTickers = tickers.filter((t) => isCryptoTicker(t) === (market === "crypto"));
+
+        for (let i = 0; i < marketTickers.length; i += SNAPSHOT_BATCH_SIZE) {
+            const batch = marketTickers.slice(i, i + SNAPSHOT_BATCH_SIZE);
+            try {
+                const data = await fetchMarketJson<{ tickers?: SnapshotTicker[] }>(appUrl, "snapshot", {
+                    market,
+                    tickers: batch.join(","),
+                });
+                (data.tickers ?? []).forEach((snapshot) => snapshots.set(snapshot.ticker, snapshot));
+            } catch (error) {
+                // Evaluate the tickers we did get rather than skipping the whole run
+                console.error(`Alert snapshot fetch failed for ${batch.join(",")}:`, error);
+            }
+        }
+    }
+
+    return snapshots;
+};
+
+// Average volume of the most recent completed daily bars
+const fetchAverageVolume = async (appUrl: string, ticker: string, today: string) => {
+    const from = toDateString(Date.now() - AVERAGE_VOLUME_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const data = await fetchMarketJson<{ results?: { t: number; v: number }[] }>(appUrl, "aggregates", {
+        ticker,
+        multiplier: "1",
+        timespan: "day",
+        from,
+        to: today,
+    });
+
+    const bars = (data.results ?? [])
+        .filter((bar) => toDateString(bar.t) < today)
+        .slice(-AVERAGE_VOLUME_DAYS);
+    if (bars.length === 0) {
+        return undefined;
+    }
+    return bars.reduce((sum, bar) => sum + bar.v, 0) / bars.length;
+};
+
+/**
+ * Evaluate every active alert against fresh snapshots. Runs on a schedule (see crons.ts).
+ */
+export const evaluate = internalAction({
+    args: {},
+    handler: async (ctx) => {
+        const alerts = await ctx.runQuery(internal.alerts.listActive, {});
+        if (alerts.length === 0) {
+            return;
+        }
+
+        const appUrl = requireAppUrl();
+        const now = Date.now();
+        const today = toDateString(now);
+        const snapshots = await fetchSnapshots(appUrl, Array.from(new Set(alerts.map((a) => a.ticker))));
+
+        // Shared across alerts on the same ticker; only fetched when an alert's cached value is stale
+        const averageVolumes = new Map<string, number | undefined>();
+
+        for (const alert of alerts) {
+            const snapshot = snapshots.get(alert.ticker);
+            if (!snapshot) {
+                continue;
+            }
+
+            let averageVolume = alert.averageVolume;
+            let averageVolumeDate: string | undefined;
+            if (alert.condition === ALERT_CONDITIONS.VOLUME_SPIKE && alert.averageVolumeDate !== today) {
+                if (!averageVolumes.has(alert.ticker)) {
+                    try {
+                        averageVolumes.set(alert.ticker, await fetchAverageVolume(appUrl, alert.ticker, today));
+                    } catch (error) {
+                        console.error(`Average volume fetch failed for ${alert.ticker}:`, error);
+                        averageVolumes.set(alert.ticker, undefined);
+                    }
+                }
+                averageVolume = averageVolumes.get(alert.ticker);
+                averageVolumeDate = averageVolume !== undefined ? today : undefined;
+            }
+
+            const price = getSnapshotPrice(snapshot);
+            const notification = checkAlert(alert, snapshot, price, averageVolume, now);
+
+            await ctx.runMutation(internal.alerts.recordEvaluation, {
+                alertId: alert._id,
+                price,
+                averageVolume: averageVolumeDate ? averageVolume : undefined,
+                averageVolumeDate,
+                notification: notification ?? undefined,
+            });
+        }
+    },
+});
@@ -0,0 +1,10 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Check price alerts against fresh snapshots. Snapshots are cached for 15 seconds by the
+// market data proxy, so running more often than this wouldn't see newer prices anyway.
+crons.interval("evaluate price alerts", { minutes: 1 }, internal.alerts.evaluate);
+
+export default crons;
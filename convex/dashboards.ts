@@ -0,0 +1,193 @@
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { getCurrentUser, requireCurrentUser } from "./lib/auth";
+import { dashboardWidgetValidator } from "./schema";
+
+const DEFAULT_DASHBOARD_NAME = "My Dashboard";
+
+// Load a dashboard and make sure it belongs to the calling user
+const getOwnedDashboard = async (ctx: MutationCtx, dashboardId: Id<"dashboards">) => {
+    const user = await requireCurrentUser(ctx);
+    const dashboard = await ctx.db.get(dashboardId);
+    if (!dashboard || dashboard.userId !== user._id) {
+        throw new Error("Dashboard not found");
+    }
+    return dashboard;
+};
+
+const cleanName = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+        throw new Error("Dashboard name cannot be empty");
+    }
+    return trimmed.slice(0, 100);
+};
+
+// Make one dashboard the active one and clear the flag on the others
+const activate = async (ctx: MutationCtx, userId: Id<"users">, dashboardId: Id<"dashboards">) => {
+    const dashboards = await ctx.db
+        .query("dashboards")
+        .withIndex("userId", (q) => q.eq("userId", userId))
+        .collect();
+
+    for (const dashboard of dashboards) {
+        const isActive = dashboard._id === dashboardId;
+        if (dashboard.isActive !== isActive) {
+            await ctx.db.patch(dashboard._id, { isActive });
+        }
+    }
+};
+
+export const list = query({
+    args: {},
+    handler: async (ctx) => {
+        const user = await getCurrentUser(ctx);
+        if (!user) {
+            return null;
+        }
+
+        const dashboards = await ctx.db
+            .query("dashboards")
+            .withIndex("userId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        return dashboards.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+});
+
+export const create = mutation({
+    args: {
+        name: v.string(),
+        widgets: v.optional(v.array(dashboardWidgetValidator)),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireCurrentUser(ctx);
+        const now = new Date().toISOString();
+
+        const dashboardId = await ctx.db.insert("dashboards", {
+            userId: user._id,
+            name: cleanName(args.name),
+            widgets: args.widgets ?? [],
+            isActive: true,
+            createdAt: now,
+            updatedAt: now,
+        });
+
+        await activate(ctx, user._id, dashboardId);
+        return dashboardId;
+    },
+});
+
+export const rename = mutation({
+    args: {
+        dashboardId: v.id("dashboards"),
+        name: v.string(),
+    },
+    handler: async (ctx, args) => {
+        await getOwnedDashboard(ctx, args.dashboardId);
+        await ctx.db.patch(args.dashboardId, {
+            name: cleanName(args.name),
+            updatedAt: new Date().toISOString(),
+        });
+    },
+});
+
+export const duplicate = mutation({
+    args: {
+        dashboardId: v.id("dashboards"),
+        name: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const source = await getOwnedDashboard(ctx, args.dashboardId);
+        const now = new Date().toISOString();
+
+        const dashboardId = await ctx.db.insert("dashboards", {
+            userId: source.userId,
+            name: cleanName(args.name ?? `${source.name} (copy)`),
+            widgets: source.widgets,
+            isActive: true,
+            createdAt: now,
+            updatedAt: now,
+        });
+
+        await activate(ctx, source.userId, dashboardId);
+        return dashboardId;
+    },
+});
+
+export const remove = mutation({
+    args: {
+        dashboardId: v.id("dashboards"),
+    },
+    handler: async (ctx, args) => {
+        const dashboard = await getOwnedDashboard(ctx, args.dashboardId);
+        await ctx.db.delete(args.dashboardId);
+
+        // Keep one layout active so the dashboard page always has something to show
+        if (dashboard.isActive) {
+            const next = await ctx.db
+                .query("dashboards")
+                .withIndex("userId", (q) => q.eq("userId", dashboard.userId))
+                .first();
+            if (next) {
+                await ctx.db.patch(next._id, { isActive: true });
+            }
+        }
+    },
+});
+
+export const setActive = mutation({
+    args: {
+        dashboardId: v.id("dashboards"),
+    },
+    handler: async (ctx, args) => {
+        const dashboard = await getOwnedDashboard(ctx, args.dashboardId);
+        await activate(ctx, dashboard.userId, args.dashboardId);
+    },
+});
+
+export const saveWidgets = mutation({
+    args: {
+        dashboardId: v.id("dashboards"),
+        widgets: v.array(dashboardWidgetValidator),
+    },
+    handler: async (ctx, args) => {
+        await getOwnedDashboard(ctx, args.dashboardId);
+        await ctx.db.patch(args.dashboardId, {
+            widgets: args.widgets,
+            updatedAt: new Date().toISOString(),
+        });
+    },
+});
+
+/**
+ * Create the user's first dashboard, seeded with the layout they had saved in localStorage.
+ * Does nothing if the user already has dashboards, so it is safe to call more than once.
+ */
+export const importLocalLayout = mutation({
+    args: {
+        widgets: v.array(dashboardWidgetValidator),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireCurrentUser(ctx);
+
+        const existing = await ctx.db
+            .query("dashboards")
+            .withIndex("userId", (q) => q.eq("userId", user._id))
+            .first();
+        if (existing) {
+            return existing._id;
+        }
+
+        const now = new Date().toISOString();
+        return await ctx.db.insert("dashboards", {
+            userId: user._id,
+            name: DEFAULT_DASHBOARD_NAME,
+            widgets: args.widgets,
+            isActive: true,
+            createdAt: now,
+            updatedAt: now,
+        });
+    },
+});
@@ -0,0 +1,214 @@
+"use node";
+
+import { v } from "convex/values";
+import net from "node:net";
+import tls from "node:tls";
+import { internalAction } from "./_generated/server";
+
+// Outgoing email goes through a transport picked by EMAIL_TRANSPORT:
+//   console (default) - log the message, nothing is sent
+//   smtp              - plain SMTP, e.g. a local Mailpit / MailHog stand-in on localhost:1025
+//   resend            - Resend's HTTP API
+// Add a transport by implementing EmailTransport and registering it in TRANSPORTS.
+
+export interface EmailMessage {
+    from: string;
+    to: string;
+    subject: string;
+    text: string;
+}
+
+export interface EmailTransport {
+    send: (message: EmailMessage) => Promise<void>;
+}
+
+const SMTP_TIMEOUT_MS = 15 * 1000;
+
+const consoleTransport: EmailTransport = {
+    send: async (message) => {
+        console.log(`[email] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+    },
+};
+
+const resendTransport: EmailTransport = {
+    send: async (message) => {
+        if (!process.env.RESEND_API_KEY) {
+            throw new Error("RESEND_API_KEY is not configured");
+        }
+
+        const response = await fetch("https://api.resend.com/emails", {
+            method: "POST",
+            headers: {
+                Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
+                "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+                from: message.from,
+                to: [message.to],
+                subject: message.subject,
+                text: message.text,
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Resend error: ${response.status} ${await response.text()}`);
+        }
+    },
+};
+
+// Reads SMTP replies off a socket, one complete (possibly multi-line) reply at a time
+class SmtpConnection {
+    private buffer = "";
+    private failure: Error | null = null;
+    private wake: (() => void) | null = null;
+
+    constructor(private socket: net.Socket) {
+        socket.setEncoding("utf8");
+        socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+        socket.on("data", (chunk: string) => {
+            this.buffer += chunk;
+            this.wake?.();
+        });
+        socket.on("error", (error) => {
+            this.failure = error;
+            this.wake?.();
+        });
+        socket.on("close", () => {
+            this.failure ??= new Error("SMTP connection closed");
+            this.wake?.();
+        });
+    }
+
+    async reply(): Promise<{ code: number; text: string }> {
+        for (;;) {
+            const lines = this.buffer.split("\r\n");
+            // The last line of a reply is "250 text"; continuation lines are "250-text"
+            const lastLine = lines.slice(0, -1).findIndex((line) => /^\d{3}( |$)/.test(line));
+            if (lastLine !== -1) {
+                this.buffer = lines.slice(lastLine + 1).join("\r\n");
+                return {
+                    code: parseInt(lines[lastLine].slice(0, 3), 10),
+                    text: lines.slice(0, lastLine + 1).map((line) => line.slice(4)).join(" "),
+                };
+            }
+            if (this.failure) {
+                throw this.failure;
+            }
+            await new Promise<void>((resolve) => {
+                this.wake = resolve;
+            });
+            this.wake = null;
+        }
+    }
+
+    async expect(codes: number[], step: string) {
+        const { code, text } = await this.reply();
+        if (!codes.includes(code)) {
+            throw new Error(`SMTP ${step} failed: ${code} ${text}`);
+        }
+    }
+
+    async command(line: string, codes: number[], step = line.split(" ")[0]) {
+        this.socket.write(`${line}\r\n`);
+        await this.expect(codes, step);
+    }
+
+    close() {
+        this.socket.end();
+    }
+}
+
+// Encode non-ASCII header values as RFC 2047 encoded words
+const encodeHeader = (value: string) => {
+    return /^[\x20-\x7e]*$/.test(value)
+        ? value
+        : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+};
+
+const formatMessage = (message: EmailMessage) => {
+    const headers = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        "MIME-Version: 1.0",
+        "Content-Type: text/plain; charset=utf-8",
+        "Content-Transfer-Encoding: 8bit",
+    ];
+
+    // Normalize line endings and escape lines starting with a dot (RFC 5321 section 4.5.2)
+    const body = message.text
+        .split(/\r?\n/)
+        .map((line) => (line.startsWith(".") ? `.${line}` : line))
+        .join("\r\n");
+
+    return `${headers.join("\r\n")}\r\n\r\n${body}`;
+};
+
+// Address part of "Name <address>" or a bare address
+const envelopeAddress = (address: string) => {
+    return address.match(/<([^>]+)>/)?.[1] ?? address.trim();
+};
+
+const smtpTransport: EmailTransport = {
+    send: async (message) => {
+        const host = process.env.SMTP_HOST || "localhost";
+        const port = parseInt(process.env.SMTP_PORT || "1025", 10);
+        const socket = process.env.SMTP_SECURE === "true"
+            ? tls.connect({ host, port, servername: host })
+            : net.connect({ host, port });
+
+        const connection = new SmtpConnection(socket);
+        try {
+            await connection.expect([220], "greeting");
+            await connection.command(`EHLO ${process.env.SMTP_HELO_NAME || "localhost"}`, [250]);
+
+            if (process.env.SMTP_USER) {
+                const credentials = Buffer.from(
+                    `\0${process.env.SMTP_USER}\0${process.env.SMTP_PASSWORD ?? ""}`,
+                    "utf8"
+                ).toString("base64");
+                await connection.command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+            }
+
+            await connection.command(`MAIL FROM:<${envelopeAddress(message.from)}>`, [250]);
+            await connection.command(`RCPT TO:<${envelopeAddress(message.to)}>`, [250, 251]);
+            await connection.command("DATA", [354]);
+            await connection.command(`${formatMessage(message)}\r\n.`, [250], "message body");
+            await connection.command("QUIT", [221]);
+        } finally {
+            connection.close();
+        }
+    },
+};
+
+const TRANSPORTS: Record<string, EmailTransport> = {
+    console: consoleTransport,
+    smtp: smtpTransport,
+    resend: resendTransport,
+};
+
+const getTransport = (): EmailTransport => {
+    const name = process.env.EMAIL_TRANSPORT || "console";
+    const transport = TRANSPORTS[name];
+    if (!transport) {
+        throw new Error(`Unknown EMAIL_TRANSPORT "${name}". Expected one of: ${Object.keys(TRANSPORTS).join(", ")}`);
+    }
+    return transport;
+};
+
+export const send = internalAction({
+    args: {
+        to: v.string(),
+        subject: v.string(),
+        text: v.string(),
+    },
+    handler: async (ctx, args) => {
+        await getTransport().send({
+            from: process.env.EMAIL_FROM || "Finance3D <alerts@localhost>",
+            to: args.to,
+            subject: args.subject,
+            text: args.text,
+        });
+    },
+});
@@ -0,0 +1,72 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { getCurrentUser, requireCurrentUser } from "./lib/auth";
+import { importMappingValidator } from "./schema";
+
+export const list = query({
+    args: {},
+    handler: async (ctx) => {
+        const user = await getCurrentUser(ctx);
+        if (!user) {
+            return [];
+        }
+
+        const presets = await ctx.db
+            .query("importPresets")
+            .withIndex("userId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        return presets.sort((a, b) => a.name.localeCompare(b.name));
+    },
+});
+
+/**
+ * Save a column mapping under a name, replacing the user's preset with the same name
+ */
+export const save = mutation({
+    args: {
+        name: v.string(),
+        mapping: importMappingValidator,
+    },
+    handler: async (ctx, args) => {
+        const user = await requireCurrentUser(ctx);
+        const name = args.name.trim().slice(0, 100);
+        if (!name) {
+            throw new Error("Preset name cannot be empty");
+        }
+
+        const now = new Date().toISOString();
+        const existing = (await ctx.db
+            .query("importPresets")
+            .withIndex("userId", (q) => q.eq("userId", user._id))
+            .collect())
+            .find((preset) => preset.name.toLowerCase() === name.toLowerCase());
+
+        if (existing) {
+            await ctx.db.patch(existing._id, { name, mapping: args.mapping, updatedAt: now });
+            return existing._id;
+        }
+
+        return await ctx.db.insert("importPresets", {
+            userId: user._id,
+            name,
+            mapping: args.mapping,
+            createdAt: now,
+            updatedAt: now,
+        });
+    },
+});
+
+export const remove = mutation({
+    args: {
+        presetId: v.id("importPresets"),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireCurrentUser(ctx);
+        const preset = await ctx.db.get(args.presetId);
+        if (!preset || preset.userId !== user._id) {
+            throw new Error("Preset not found");
+        }
+        await ctx.db.delete(args.presetId);
+    },
+});
@@ -0,0 +1,29 @@
+import { MutationCtx, QueryCtx } from "../_generated/server";
+
+/**
+ * The users document for the signed-in caller, or null when signed out or not stored yet
+ */
+export const getCurrentUser = async (ctx: QueryCtx | MutationCtx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+        return null;
+    }
+
+    return await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) =>
+            q.eq("tokenIdentifier", identity.subject)
+        )
+        .unique();
+};
+
+/**
+ * The caller's users document; throws when there isn't one
+ */
+export const requireCurrentUser = async (ctx: QueryCtx | MutationCtx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+        throw new Error("Not authenticated");
+    }
+    return user;
+};
@@ -0,0 +1,135 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { getCurrentUser, requireCurrentUser } from "./lib/auth";
+import { NotificationChannels, notificationChannelsValidator } from "./schema";
+
+// How many notifications the bell shows
+const RECENT_NOTIFICATIONS_LIMIT = 20;
+// Enough for the bell's "99+" badge
+const MAX_UNREAD_COUNT = 100;
+
+export const DEFAULT_NOTIFICATION_CHANNELS: NotificationChannels = {
+    inApp: true,
+    email: false,
+};
+
+/**
+ * Send a notification to a user on each channel they have turned on
+ */
+export const deliverNotification = async (
+    ctx: MutationCtx,
+    notification: {
+        userId: Id<"users">;
+        alertId?: Id<"alerts">;
+        title: string;
+        body: string;
+    }
+) => {
+    const user = await ctx.db.get(notification.userId);
+    if (!user) {
+        return;
+    }
+
+    const channels = user.notificationChannels ?? DEFAULT_NOTIFICATION_CHANNELS;
+
+    if (channels.inApp) {
+        await ctx.db.insert("notifications", {
+            userId: user._id,
+            alertId: notification.alertId,
+            title: notification.title,
+            body: notification.body,
+            read: false,
+            createdAt: Date.now(),
+        });
+    }
+
+    if (channels.email && user.email) {
+        await ctx.scheduler.runAfter(0, internal.email.send, {
+            to: user.email,
+            subject: notification.title,
+            text: notification.body,
+        });
+    }
+};
+
+/**
+ * The most recent notifications for the bell, newest first, with the total unread count
+ */
+export const list = query({
+    args: {},
+    handler: async (ctx) => {
+        const user = await getCurrentUser(ctx);
+        if (!user) {
+            return { notifications: [], unreadCount: 0 };
+        }
+
+        const notifications = await ctx.db
+            .query("notifications")
+            .withIndex("userId", (q) => q.eq("userId", user._id))
+            .order("desc")
+            .take(RECENT_NOTIFICATIONS_LIMIT);
+
+        const unread = await ctx.db
+            .query("notifications")
+            .withIndex("userId_read", (q) => q.eq("userId", user._id).eq("read", false))
+            .take(MAX_UNREAD_COUNT);
+
+        return {
+            notifications,
+            unreadCount: unread.length,
+        };
+    },
+});
+
+export const markRead = mutation({
+    args: {
+        notificationId: v.id("notifications"),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireCurrentUser(ctx);
+        const notification = await ctx.db.get(args.notificationId);
+        if (!notification || notification.userId !== user._id) {
+            throw new Error("Notification not found");
+        }
+
+        if (!notification.read) {
+            await ctx.db.patch(args.notificationId, { read: true });
+        }
+    },
+});
+
+export const markAllRead = mutation({
+    args: {},
+    handler: async (ctx) => {
+        const user = await requireCurrentUser(ctx);
+        const unread = await ctx.db
+            .query("notifications")
+            .withIndex("userId_read", (q) => q.eq("userId", user._id).eq("read", false))
+            .collect();
+
+        await Promise.all(unread.map((n) => ctx.db.patch(n._id, { read: true })));
+    },
+});
+
+export const getChannels = query({
+    args: {},
+    handler: async (ctx) => {
+        const user = await getCurrentUser(ctx);
+        if (!user) {
+            return null;
+        }
+        return user.notificationChannels ?? DEFAULT_NOTIFICATION_CHANNELS;
+    },
+});
+
+export const setChannels = mutation({
+    args: {
+        channels: notificationChannelsValidator,
+    },
+    handler: async (ctx, args) => {
+        const user = await requireCurrentUser(ctx);
+        await ctx.db.patch(user._id, { notificationChannels: args.channels });
+    },
+});
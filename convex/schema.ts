@@ -24,6 +24,100 @@ const intervalPricesValidator = v.object({
     usd: priceValidator,
 });
 
+// Per-widget settings chosen by the user (selected ticker, surface chart year and mode, ...)
+export const widgetStateValidator = v.object({
+    ticker: v.optional(v.string()),
+    year: v.optional(v.number()),
+    surfaceMode: v.optional(v.string()),
+    gapFill: v.optional(v.string()),
+});
+
+// A widget placed on a dashboard layout
+export const dashboardWidgetValidator = v.object({
+    id: v.string(),
+    type: v.string(),
+    title: v.string(),
+    description: v.optional(v.string()),
+    position: v.object({
+        x: v.number(),
+        y: v.number(),
+    }),
+    size: v.object({
+        width: v.number(),
+        height: v.number(),
+    }),
+    isMaximized: v.optional(v.boolean()),
+    state: v.optional(widgetStateValidator),
+});
+
+export type DashboardWidget = Infer<typeof dashboardWidgetValidator>;
+
+export const ALERT_CONDITIONS = {
+    PRICE_ABOVE: "price_above",
+    PRICE_BELOW: "price_below",
+    PERCENT_MOVE: "percent_move",
+    VOLUME_SPIKE: "volume_spike",
+} as const;
+
+// price_above / price_below: threshold is a price
+// percent_move: threshold is an absolute intraday % change
+// volume_spike: threshold is a multiple of the average daily volume
+export const alertConditionValidator = v.union(
+    v.literal(ALERT_CONDITIONS.PRICE_ABOVE),
+    v.literal(ALERT_CONDITIONS.PRICE_BELOW),
+    v.literal(ALERT_CONDITIONS.PERCENT_MOVE),
+    v.literal(ALERT_CONDITIONS.VOLUME_SPIKE),
+);
+
+export type AlertCondition = Infer<typeof alertConditionValidator>;
+
+// Where notifications are delivered. Missing on a user means the defaults (in-app only).
+export const notificationChannelsValidator = v.object({
+    inApp: v.boolean(),
+    email: v.boolean(),
+});
+
+export type NotificationChannels = Infer<typeof notificationChannelsValidator>;
+
+export const TRANSACTION_TYPES = {
+    BUY: "buy",
+    SELL: "sell",
+    DIVIDEND: "dividend",
+    FEE: "fee",
+} as const;
+
+export const transactionTypeValidator = v.union(
+    v.literal(TRANSACTION_TYPES.BUY),
+    v.literal(TRANSACTION_TYPES.SELL),
+    v.literal(TRANSACTION_TYPES.DIVIDEND),
+    v.literal(TRANSACTION_TYPES.FEE),
+);
+
+export type TransactionType = Infer<typeof transactionTypeValidator>;
+
+// How the columns of a broker or exchange CSV export map onto transaction fields
+export const importMappingValidator = v.object({
+    columns: v.object({
+        date: v.optional(v.string()),
+        type: v.optional(v.string()),
+        ticker: v.optional(v.string()),
+        quantity: v.optional(v.string()),
+        price: v.optional(v.string()),
+        amount: v.optional(v.string()),
+        fees: v.optional(v.string()),
+        currency: v.optional(v.string()),
+        note: v.optional(v.string()),
+    }),
+    // auto, or how to read ambiguous dates like 01/02/2024
+    dateFormat: v.union(v.literal("auto"), v.literal("mdy"), v.literal("dmy"), v.literal("ymd")),
+    // crypto: bare asset symbols ("BTC") are crypto and become Polygon pairs ("X:BTCUSD")
+    tickerFormat: v.union(v.literal("auto"), v.literal("crypto")),
+    // Used when there is no type column, e.g. a file of purchases only
+    defaultType: v.optional(transactionTypeValidator),
+});
+
+export type ImportMapping = Infer<typeof importMappingValidator>;
+
 
 export default defineSchema({
     users: defineTable({
@@ -35,6 +129,8 @@ export default defineSchema({
         subscription: v.optional(v.string()),
         credits: v.optional(v.string()),
         tokenIdentifier: v.string(),
+        bannerWatchlistId: v.optional(v.id("watchlists")),
+        notificationChannels: v.optional(notificationChannelsValidator),
     }).index("by_token", ["tokenIdentifier"]),
     subscriptions: defineTable({
         userId: v.optional(v.string()),
@@ -68,5 +164,76 @@ export default defineSchema({
     })
         .index("type", ["type"])
         .index("polarEventId", ["polarEventId"]),
+    dashboards: defineTable({
+        userId: v.id("users"),
+        name: v.string(),
+        widgets: v.array(dashboardWidgetValidator),
+        isActive: v.boolean(),
+        createdAt: v.string(),
+        updatedAt: v.string(),
+    })
+        .index("userId", ["userId"]),
+    watchlists: defineTable({
+        userId: v.id("users"),
+        name: v.string(),
+        // Polygon tickers in display order ("AAPL", "X:BTCUSD")
+        tickers: v.array(v.string()),
+        createdAt: v.string(),
+        updatedAt: v.string(),
+    })
+        .index("userId", ["userId"]),
+    alerts: defineTable({
+        userId: v.id("users"),
+        // Polygon ticker ("AAPL", "X:BTCUSD")
+        ticker: v.string(),
+        condition: alertConditionValidator,
+        threshold: v.number(),
+        isActive: v.boolean(),
+        // Price seen on the previous evaluation, so crossing alerts only fire on the cross
+        lastPrice: v.optional(v.number()),
+        lastTriggeredAt: v.optional(v.number()),
+        // Average daily volume, refreshed once per day for volume_spike alerts
+        averageVolume: v.optional(v.number()),
+        averageVolumeDate: v.optional(v.string()),
+        createdAt: v.string(),
+    })
+        .index("userId", ["userId"])
+        .index("isActive", ["isActive"]),
+    notifications: defineTable({
+        userId: v.id("users"),
+        alertId: v.optional(v.id("alerts")),
+        title: v.string(),
+        body: v.string(),
+        read: v.boolean(),
+        createdAt: v.number(),
+    })
+        .index("userId", ["userId"])
+        .index("userId_read", ["userId", "read"]),
+    transactions: defineTable({
+        userId: v.id("users"),
+        type: transactionTypeValidator,
+        // Polygon ticker ("AAPL", "X:BTCUSD")
+        ticker: v.string(),
+        // Trade date, YYYY-MM-DD
+        date: v.string(),
+        // Units and price per unit, for buys and sells
+        quantity: v.optional(v.number()),
+        price: v.optional(v.number()),
+        // Cash received (dividend) or paid (fee)
+        amount: v.optional(v.number()),
+        // Commission paid on a buy or sell
+        fees: v.optional(v.number()),
+        note: v.optional(v.string()),
+        createdAt: v.string(),
+    })
+        .index("userId", ["userId"]),
+    importPresets: defineTable({
+        userId: v.id("users"),
+        name: v.string(),
+        mapping: importMappingValidator,
+        createdAt: v.string(),
+        updatedAt: v.string(),
+    })
+        .index("userId", ["userId"]),
 
 })
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { getCurrentUser, requireCurrentUser } from "./lib/auth";
+import { TRANSACTION_TYPES, TransactionType, transactionTypeValidator } from "./schema";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Rows per import call, to stay well inside a single mutation's write limits
+const MAX_IMPORT_BATCH_SIZE = 500;
+
+const transactionFields = {
+    type: transactionTypeValidator,
+    ticker: v.string(),
+    date: v.string(),
+    quantity: v.optional(v.number()),
+    price: v.optional(v.number()),
+    amount: v.optional(v.number()),
+    fees: v.optional(v.number()),
+    note: v.optional(v.string()),
+};
+
+interface TransactionInput {
+    type: TransactionType;
+    ticker: string;
+    date: string;
+    quantity?: number;
+    price?: number;
+    amount?: number;
+    fees?: number;
+    note?: string;
+}
+
+// Load a transaction and make sure it belongs to the calling user
+const getOwnedTransaction = async (ctx: MutationCtx, transactionId: Id<"transactions">) => {
+    const user = await requireCurrentUser(ctx);
+    const transaction = await ctx.db.get(transactionId);
+    if (!transaction || transaction.userId !== user._id) {
+        throw new Error("Transaction not found");
+    }
+    return transaction;
+};
+
+const requirePositive = (value: number | undefined, field: string) => {
+    if (value === undefined || !Number.isFinite(value) || value <= 0) {
+        throw new Error(`${field} must be a positive number`);
+    }
+    return value;
+};
+
+/**
+ * Check a transaction has the fields its type needs and drop the ones it doesn't
+ */
+export const cleanTransaction = (input: TransactionInput) => {
+    const ticker = input.ticker.trim().toUpperCase();
+    if (!ticker) {
+        throw new Error("Ticker cannot be empty");
+    }
+    if (!DATE_PATTERN.test(input.date) || isNaN(Date.parse(input.date))) {
+        throw new Error("Date must be a YYYY-MM-DD date");
+    }
+
+    const note = input.note?.trim().slice(0, 500) || undefined;
+
+    switch (input.type) {
+        case TRANSACTION_TYPES.BUY:
+        case TRANSACTION_TYPES.SELL: {
+            const price = input.price ?? 0;
+            if (!Number.isFinite(price) || price < 0) {
+                throw new Error("Price cannot be negative");
+            }
+            const fees = input.fees ?? 0;
+            if (!Number.isFinite(fees) || fees < 0) {
+                throw new Error("Fees cannot be negative");
+            }
+            return {
+                type: input.type,
+                ticker,
+                date: input.date,
+                quantity: requirePositive(input.quantity, "Quantity"),
+                price,
+                fees: fees || undefined,
+                note,
+            };
+        }
+        case TRANSACTION_TYPES.DIVIDEND:
+        case TRANSACTION_TYPES.FEE:
+            return {
+                type: input.type,
+                ticker,
+                date: input.date,
+                amount: requirePositive(input.amount, "Amount"),
+                note,
+            };
+    }
+};
+
+/**
+ * The user's transactions in the order they were made (trade date, then entry order)
+ */
+export const list = query({
+    args: {},
+    handler: async (ctx) => {
+        const user = await getCurrentUser(ctx);
+        if (!user) {
+            return [];
+        }
+
+        const transactions = await ctx.db
+            .query("transactions")
+            .withIndex("userId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        return transactions.sort((a, b) =>
+            a.date.localeCompare(b.date) || a._creationTime - b._creationTime
+        );
+    },
+});
+
+export const create = mutation({
+    args: transactionFields,
+    handler: async (ctx, args) => {
+        const user = await requireCurrentUser(ctx);
+
+        return await ctx.db.insert("transactions", {
+            userId: user._id,
+            ...cleanTransaction(args),
+            createdAt: new Date().toISOString(),
+        });
+    },
+});
+
+export const update = mutation({
+    args: {
+        transactionId: v.id("transactions"),
+        ...transactionFields,
+    },
+    handler: async (ctx, args) => {
+        const { transactionId, ...fields } = args;
+        const transaction = await getOwnedTransaction(ctx, transactionId);
+
+        // Replace rather than patch so fields that no longer apply to the type are cleared
+        await ctx.db.replace(transactionId, {
+            userId: transaction.userId,
+            ...cleanTransaction(fields),
+            createdAt: transaction.createdAt,
+        });
+    },
+});
+
+export const remove = mutation({
+    args: {
+        transactionId: v.id("transactions"),
+    },
+    handler: async (ctx, args) => {
+        await getOwnedTransaction(ctx, args.transactionId);
+        await ctx.db.delete(args.transactionId);
+    },
+});
+
+/**
+ * Insert a batch of imported transactions. Duplicate detection happens in the import preview so the
+ * user can see and override it; clients split large files into batches.
+ */
+export const importBatch = mutation({
+    args: {
+        transactions: v.array(v.object(transactionFields)),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireCurrentUser(ctx);
+        if (args.transactions.length > MAX_IMPORT_BATCH_SIZE) {
+            throw new Error(`Import at most ${MAX_IMPORT_BATCH_SIZE} transactions at a time`);
+        }
+
+        // Validate everything up front so a bad row doesn't leave a half-imported batch
+        const cleaned = args.transactions.map(cleanTransaction);
+
+        const now = new Date().toISOString();
+        for (const transaction of cleaned) {
+            await ctx.db.insert("transactions", {
+                userId: user._id,
+                ...transaction,
+                createdAt: now,
+            });
+        }
+
+        return cleaned.length;
+    },
+});
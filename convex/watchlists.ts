@@ -0,0 +1,201 @@
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { getCurrentUser, requireCurrentUser } from "./lib/auth";
+
+// Keep lists to a size a single snapshot request can cover
+const MAX_TICKERS_PER_WATCHLIST = 100;
+
+// Load a watchlist and make sure it belongs to the calling user
+const getOwnedWatchlist = async (ctx: MutationCtx, watchlistId: Id<"watchlists">) => {
+    const user = await requireCurrentUser(ctx);
+    const watchlist = await ctx.db.get(watchlistId);
+    if (!watchlist || watchlist.userId !== user._id) {
+        throw new Error("Watchlist not found");
+    }
+    return { user, watchlist };
+};
+
+const cleanName = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+        throw new Error("Watchlist name cannot be empty");
+    }
+    return trimmed.slice(0, 100);
+};
+
+const normalizeTicker = (ticker: string) => {
+    const normalized = ticker.trim().toUpperCase();
+    if (!normalized) {
+        throw new Error("Ticker cannot be empty");
+    }
+    return normalized;
+};
+
+export const list = query({
+    args: {},
+    handler: async (ctx) => {
+        const user = await getCurrentUser(ctx);
+        if (!user) {
+            return [];
+        }
+
+        const watchlists = await ctx.db
+            .query("watchlists")
+            .withIndex("userId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        return watchlists
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+            .map((watchlist) => ({
+                ...watchlist,
+                isBannerWatchlist: user.bannerWatchlistId === watchlist._id,
+            }));
+    },
+});
+
+/**
+ * The watchlist the user picked for the stock ticker banner, or null for the default banner
+ */
+export const getBannerWatchlist = query({
+    args: {},
+    handler: async (ctx) => {
+        const user = await getCurrentUser(ctx);
+        if (!user?.bannerWatchlistId) {
+            return null;
+        }
+
+        return await ctx.db.get(user.bannerWatchlistId);
+    },
+});
+
+export const create = mutation({
+    args: {
+        name: v.string(),
+        tickers: v.optional(v.array(v.string())),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireCurrentUser(ctx);
+        const now = new Date().toISOString();
+        const tickers = Array.from(new Set((args.tickers ?? []).map(normalizeTicker)));
+
+        return await ctx.db.insert("watchlists", {
+            userId: user._id,
+            name: cleanName(args.name),
+            tickers: tickers.slice(0, MAX_TICKERS_PER_WATCHLIST),
+            createdAt: now,
+            updatedAt: now,
+        });
+    },
+});
+
+export const rename = mutation({
+    args: {
+        watchlistId: v.id("watchlists"),
+        name: v.string(),
+    },
+    handler: async (ctx, args) => {
+        await getOwnedWatchlist(ctx, args.watchlistId);
+        await ctx.db.patch(args.watchlistId, {
+            name: cleanName(args.name),
+            updatedAt: new Date().toISOString(),
+        });
+    },
+});
+
+export const remove = mutation({
+    args: {
+        watchlistId: v.id("watchlists"),
+    },
+    handler: async (ctx, args) => {
+        const { user } = await getOwnedWatchlist(ctx, args.watchlistId);
+        await ctx.db.delete(args.watchlistId);
+
+        if (user.bannerWatchlistId === args.watchlistId) {
+            await ctx.db.patch(user._id, { bannerWatchlistId: undefined });
+        }
+    },
+});
+
+export const addTicker = mutation({
+    args: {
+        watchlistId: v.id("watchlists"),
+        ticker: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const { watchlist } = await getOwnedWatchlist(ctx, args.watchlistId);
+        const ticker = normalizeTicker(args.ticker);
+
+        if (watchlist.tickers.includes(ticker)) {
+            return;
+        }
+        if (watchlist.tickers.length >= MAX_TICKERS_PER_WATCHLIST) {
+            throw new Error(`A watchlist can hold at most ${MAX_TICKERS_PER_WATCHLIST} tickers`);
+        }
+
+        await ctx.db.patch(args.watchlistId, {
+            tickers: [...watchlist.tickers, ticker],
+            updatedAt: new Date().toISOString(),
+        });
+    },
+});
+
+export const removeTicker = mutation({
+    args: {
+        watchlistId: v.id("watchlists"),
+        ticker: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const { watchlist } = await getOwnedWatchlist(ctx, args.watchlistId);
+        const ticker = normalizeTicker(args.ticker);
+
+        await ctx.db.patch(args.watchlistId, {
+            tickers: watchlist.tickers.filter((t) => t !== ticker),
+            updatedAt: new Date().toISOString(),
+        });
+    },
+});
+
+/**
+ * Replace the ticker order. The new order must contain exactly the tickers already in the list.
+ */
+export const reorderTickers = mutation({
+    args: {
+        watchlistId: v.id("watchlists"),
+        tickers: v.array(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const { watchlist } = await getOwnedWatchlist(ctx, args.watchlistId);
+        const tickers = args.tickers.map(normalizeTicker);
+
+        const current = [...watchlist.tickers].sort().join(",");
+        const reordered = [...tickers].sort().join(",");
+        if (current !== reordered) {
+            throw new Error("Reordered tickers don't match the watchlist");
+        }
+
+        await ctx.db.patch(args.watchlistId, {
+            tickers,
+            updatedAt: new Date().toISOString(),
+        });
+    },
+});
+
+/**
+ * Point the stock ticker banner at a watchlist, or pass null to go back to the default banner
+ */
+export const setBannerWatchlist = mutation({
+    args: {
+        watchlistId: v.union(v.id("watchlists"), v.null()),
+    },
+    handler: async (ctx, args) => {
+        if (args.watchlistId === null) {
+            const user = await requireCurrentUser(ctx);
+            await ctx.db.patch(user._id, { bannerWatchlistId: undefined });
+            return;
+        }
+
+        const { user } = await getOwnedWatchlist(ctx, args.watchlistId);
+        await ctx.db.patch(user._id, { bannerWatchlistId: args.watchlistId });
+    },
+});
@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BarCacheEntry, getBarStore } from '@/lib/bar-cache';
+
+interface StorageUsage {
+    usage: number;   // bytes used by this origin
+    quota: number;   // bytes available to it
+}
+
+interface BarCacheHook {
+    isAvailable: boolean;
+    entries: BarCacheEntry[];
+    totalBars: number;
+    // Whole-origin figures from the browser, where it reports them
+    storage: StorageUsage | null;
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+    clearEntry: (key: string) => Promise<void>;
+    clearAll: () => Promise<void>;
+}
+
+/**
+ * Custom hook for inspecting and clearing the browser's cache of historical bars
+ */
+const useBarCache = (): BarCacheHook => {
+    // Assumed until the first read, so server and client render the same markup
+    const [isAvailable, setIsAvailable] = useState<boolean>(true);
+    const [entries, setEntries] = useState<BarCacheEntry[]>([]);
+    const [storage, setStorage] = useState<StorageUsage | null>(null);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async (): Promise<void> => {
+        const store = getBarStore();
+        setIsAvailable(store !== null);
+        if (!store) return;
+
+        setIsLoading(true);
+        setError(null);
+        try {
+            const list = await store.listEntries();
+            setEntries(list.sort((a, b) => a.key.localeCompare(b.key)));
+
+            const estimate = await navigator.storage?.estimate?.();
+            setStorage(estimate ? { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0 } : null);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Unknown error reading the bar cache';
+            console.error('Error reading bar cache:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    const clearEntry = useCallback(async (key: string): Promise<void> => {
+        const store = getBarStore();
+        if (!store) return;
+        try {
+            await store.deleteEntry(key);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to clear cached bars');
+        }
+        await refresh();
+    }, [refresh]);
+
+    const clearAll = useCallback(async (): Promise<void> => {
+        const store = getBarStore();
+        if (!store) return;
+        try {
+            await store.clear();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to clear the bar cache');
+        }
+        await refresh();
+    }, [refresh]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    return {
+        isAvailable,
+        entries,
+        totalBars: entries.reduce((sum, entry) => sum + entry.barCount, 0),
+        storage,
+        isLoading,
+        error,
+        refresh,
+        clearEntry,
+        clearAll
+    };
+};
+
+export default useBarCache;
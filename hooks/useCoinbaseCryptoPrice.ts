@@ -1,45 +1,16 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-
-// Define WebSocket message interface
-interface WebSocketMessage {
-    data: string;
-}
-
-// Define WebSocket close event interface
-interface WebSocketCloseEvent {
-    code: number;
-    reason: string;
-}
-
-// Define trade data interface for Coinbase
-interface CoinbaseTrade {
-    type: string;
-    sequence: number;
-    product_id: string;
-    price: string;
-    open_24h: string;
-    volume_24h: string;
-    low_24h: string;
-    high_24h: string;
-    volume_30d: string;
-    best_bid: string;
-    best_ask: string;
-    side: string;
-    time: string;
-    trade_id: number;
-    last_size: string;
-}
+import { QuoteUpdate, Trade, getMarketDataProvider } from '@/lib/market-data';
 
 // Interface for ticker message
 interface TickerMessage {
     type: string;
-    sequence: number;
+    sequence?: number;
     product_id: string;
     price: string;
     time: string;
-    side: string;
-    last_size: string;
-    trade_id: number;
+    side?: string;
+    last_size?: string;
+    trade_id?: number;
     open_24h?: string;
     volume_24h?: string;
     low_24h?: string;
@@ -100,11 +71,34 @@ export const convertTickerFormat = (input: string): string => {
     return formatted;
 };
 
-// Constants
-const COINBASE_WS_URL = 'wss://ws-feed.exchange.coinbase.com';
+// Rebuild the Coinbase ticker message shape from a provider quote
+const toTickerMessage = (quote: QuoteUpdate): TickerMessage => {
+    const optional = (value?: number) => (value !== undefined ? String(value) : undefined);
+    return {
+        type: 'ticker',
+        product_id: quote.symbol,
+        price: String(quote.price),
+        time: new Date(quote.timestamp).toISOString(),
+        open_24h: optional(quote.open24h),
+        volume_24h: optional(quote.volume24h),
+        low_24h: optional(quote.low24h),
+        high_24h: optional(quote.high24h),
+        best_bid: optional(quote.bestBid),
+        best_ask: optional(quote.bestAsk)
+    };
+};
+
+const toProcessedTrade = (trade: Trade): ProcessedTrade => ({
+    product_id: trade.symbol,
+    price: trade.price,
+    size: trade.size,
+    timestamp: trade.timestamp,
+    side: trade.side,
+    trade_id: Number(trade.id) || 0
+});
 
 /**
- * Custom hook for Coinbase WebSocket cryptocurrency data
+ * Custom hook for Coinbase cryptocurrency data (ticker and matches channels)
  * @param initialProductId - The product ID (e.g. "BTC-USD")
  */
 function useCoinbaseCryptoPrice(
@@ -117,153 +111,35 @@ function useCoinbaseCryptoPrice(
     const [lastTicker, setLastTicker] = useState<TickerMessage | null>(null);
     const [productId, setProductId] = useState(convertTickerFormat(initialProductId));
     const [tradeMessages, setTradeMessages] = useState<ProcessedTrade[]>([]);
-    const [isInitialConnection, setIsInitialConnection] = useState(true);
 
     // Refs
-    const wsRef = useRef<WebSocket | null>(null);
+    const unsubscribeRef = useRef<(() => void) | null>(null);
     const currentProductIdRef = useRef(convertTickerFormat(initialProductId));
 
-    // Connect to WebSocket
+    // Connect to the product's trade stream
     const connect = useCallback((targetProductId: string): void => {
-        // Clean up existing connection
-        if (wsRef.current) {
-            wsRef.current.close();
-            wsRef.current = null;
-        }
+        // Clean up existing subscription
+        unsubscribeRef.current?.();
+        unsubscribeRef.current = null;
 
         const formattedProductId = convertTickerFormat(targetProductId);
         currentProductIdRef.current = formattedProductId;
-
-        // Only set these if not initial connection
-        if (!isInitialConnection) {
-            setStatus('Connecting...');
-            setError(null);
-            setProductId(formattedProductId);
-        }
-
-        try {
-            const ws = new WebSocket(COINBASE_WS_URL);
-            wsRef.current = ws;
-
-            ws.onopen = (): void => {
-                setIsInitialConnection(false);
-                setStatus('Connected');
-                setError(null);
-
-                const subscribeMsg = {
-                    type: 'subscribe',
-                    product_ids: [formattedProductId],
-                    channels: ['ticker', 'matches']
-                };
-                ws.send(JSON.stringify(subscribeMsg));
-            };
-
-            ws.onclose = (event: CloseEvent): void => {
-                if (!isInitialConnection) {
-                    console.log(`WebSocket closed: ${event.code} - ${event.reason}`);
-                    setStatus(`Disconnected (${event.code}${event.reason ? ': ' + event.reason : ''})`);
-                    if (event.code !== 1000 && event.code !== 1001) {
-                        setError(`Connection closed (${event.code}${event.reason ? ': ' + event.reason : ''})`);
-                    }
-                }
-            };
-
-            ws.onerror = (event: Event): void => {
-                if (!isInitialConnection) {
-                    console.error('WebSocket error:', event);
-                    setStatus('Error');
-                    setError('WebSocket connection error');
-                }
-            };
-
-            // Handle incoming messages
-            ws.onmessage = (event: MessageEvent): void => {
-                try {
-                    const data = JSON.parse(event.data);
-
-                    // Set isInitialConnection to false on first successful message
-                    if (isInitialConnection) {
-                        setIsInitialConnection(false);
-                        setError(null);
-                    }
-
-                    // Handle different message types
-                    switch (data.type) {
-                        case 'subscriptions':
-                            console.log('Subscribed to channels:', data.channels);
-                            setStatus('Subscribed');
-                            break;
-
-                        case 'ticker':
-                            // Process ticker update
-                            const price = parseFloat(data.price);
-                            setLastPrice(price);
-                            setLastTicker(data);
-
-                            // Create processed trade from ticker
-                            const processedTrade: ProcessedTrade = {
-                                product_id: data.product_id,
-                                price: price,
-                                size: parseFloat(data.last_size),
-                                timestamp: new Date(data.time).getTime(),
-                                side: data.side,
-                                trade_id: data.trade_id
-                            };
-
-                            // Add to trade messages
-                            setTradeMessages(prev => {
-                                // Keep only the most recent 100 trades
-                                const newMessages = [...prev, processedTrade].slice(-100);
-                                return newMessages;
-                            });
-                            break;
-
-                        case 'match':
-                            // Process match (individual trade)
-                            const matchPrice = parseFloat(data.price);
-
-                            // Create processed trade from match
-                            const matchTrade: ProcessedTrade = {
-                                product_id: data.product_id,
-                                price: matchPrice,
-                                size: parseFloat(data.size),
-                                timestamp: new Date(data.time).getTime(),
-                                side: data.side,
-                                trade_id: data.trade_id
-                            };
-
-                            // Add to trade messages
-                            setTradeMessages(prev => {
-                                // Keep only the most recent 100 trades
-                                const newMessages = [...prev, matchTrade].slice(-100);
-                                return newMessages;
-                            });
-                            break;
-
-                        case 'error':
-                            console.error('WebSocket error message:', data);
-                            setError(`Coinbase error: ${data.message}`);
-                            break;
-
-                        default:
-                            // Ignore other message types
-                            break;
-                    }
-                } catch (err) {
-                    if (!isInitialConnection) {
-                        console.error('Error processing message:', err);
-                    }
-                }
-            };
-
-        } catch (err) {
-            if (!isInitialConnection) {
-                console.error('Error setting up WebSocket:', err);
-                setStatus('Setup Error');
-                setError(`WebSocket setup failed: ${err instanceof Error ? err.message : String(err)}`);
-            }
-        }
-    }, [isInitialConnection]);
+        setProductId(formattedProductId);
+
+        unsubscribeRef.current = getMarketDataProvider('coinbase').subscribeTrades(formattedProductId, {
+            onTrades: trades => {
+                setLastPrice(trades[trades.length - 1].price);
+                // Keep only the most recent 100 trades
+                setTradeMessages(prev => [...prev, ...trades.map(toProcessedTrade)].slice(-100));
+            },
+            onQuote: quote => {
+                setLastPrice(quote.price);
+                setLastTicker(toTickerMessage(quote));
+            },
+            onStatus: setStatus,
+            onError: setError
+        });
+    }, []);
 
     // Subscribe to a new product ID
     const subscribe = useCallback((newProductId: string): void => {
@@ -280,10 +156,8 @@ function useCoinbaseCryptoPrice(
         connect(initialProductId);
 
         return () => {
-            if (wsRef.current) {
-                wsRef.current.close();
-                wsRef.current = null;
-            }
+            unsubscribeRef.current?.();
+            unsubscribeRef.current = null;
         };
     }, [initialProductId, connect]);
 
@@ -301,4 +175,4 @@ function useCoinbaseCryptoPrice(
 
 // Make sure to use a named export AND a default export
 export { useCoinbaseCryptoPrice };
-export default useCoinbaseCryptoPrice;
\ No newline at end of file
+export default useCoinbaseCryptoPrice;
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AggregateBar, getMarketDataProvider } from '@/lib/market-data';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UseComparisonResult {
+    // Daily bars per ticker; tickers whose request failed are absent
+    barsByTicker: Record<string, AggregateBar[]>;
+    // Tickers whose bars couldn't be loaded
+    failed: string[];
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for daily bars of a set of tickers over the same lookback, from the active market
+ * data provider. Stocks and crypto can be mixed; one failing ticker doesn't hold up the rest.
+ * @param tickers - Tickers to compare, in lane order
+ * @param days - Calendar days of history up to today
+ */
+export const useComparison = (tickers: string[], days: number): UseComparisonResult => {
+    const [barsByTicker, setBarsByTicker] = useState<Record<string, AggregateBar[]>>({});
+    const [failed, setFailed] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Responses for a ticker set or range the user has already changed are dropped
+    const requestRef = useRef(0);
+    const tickerKey = tickers.join(',');
+
+    const fetchBars = useCallback(async (): Promise<void> => {
+        const symbols = tickerKey ? tickerKey.split(',') : [];
+        const requestId = ++requestRef.current;
+        if (symbols.length === 0) {
+            setBarsByTicker({});
+            setFailed([]);
+            setError(null);
+            setIsLoading(false);
+            return;
+        }
+
+        setIsLoading(true);
+        const now = Date.now();
+        const from = new Date(now - days * DAY_MS).toISOString().split('T')[0];
+        const to = new Date(now).toISOString().split('T')[0];
+        const provider = getMarketDataProvider();
+
+        const results = await Promise.allSettled(symbols.map(ticker =>
+            provider.getAggregates({ ticker, multiplier: 1, timespan: 'day', from, to, adjusted: true })));
+        if (requestId !== requestRef.current) return;
+
+        const bars: Record<string, AggregateBar[]> = {};
+        const failedTickers: string[] = [];
+        results.forEach((result, index) => {
+            if (result.status === 'fulfilled') {
+                bars[symbols[index]] = result.value.results || [];
+            } else {
+                console.error(`Error fetching comparison bars for ${symbols[index]}:`, result.reason);
+                failedTickers.push(symbols[index]);
+            }
+        });
+
+        setBarsByTicker(bars);
+        setFailed(failedTickers);
+        setError(failedTickers.length === symbols.length ? 'Failed to load price history' : null);
+        setIsLoading(false);
+    }, [tickerKey, days]);
+
+    useEffect(() => {
+        fetchBars();
+    }, [fetchBars]);
+
+    return { barsByTicker, failed, isLoading, error, refresh: fetchBars };
+};
+
+export default useComparison;
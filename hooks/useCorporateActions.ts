@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { getBarStore } from '@/lib/bar-cache';
+import {
+    CorporateAction,
+    Dividend,
+    StockSplit,
+    getMarketDataProvider,
+    invalidateSplitAdjustedBars,
+    isCryptoTicker,
+    toCorporateActions
+} from '@/lib/market-data';
+
+export interface UseCorporateActionsResult {
+    splits: StockSplit[];
+    dividends: Dividend[];
+    // Splits and dividends together, newest first
+    actions: CorporateAction[];
+    // False when the active provider has no corporate actions (or the ticker is crypto)
+    isAvailable: boolean;
+    // Cached adjusted series dropped because a split restated them; bump chart keys on change
+    invalidatedSeries: number;
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for a stock's splits and cash dividends from the active market data provider.
+ * Cached split-adjusted bars older than the latest split are cleared as a side effect.
+ * @param ticker - Stock ticker; crypto and empty tickers leave the hook idle
+ * @param dividendLimit - Most recent dividends to fetch
+ */
+export const useCorporateActions = (ticker: string, dividendLimit = 100): UseCorporateActionsResult => {
+    const [splits, setSplits] = useState<StockSplit[]>([]);
+    const [dividends, setDividends] = useState<Dividend[]>([]);
+    const [invalidatedSeries, setInvalidatedSeries] = useState<number>(0);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Responses for a ticker the user has already left are dropped
+    const requestRef = useRef(0);
+
+    const provider = getMarketDataProvider();
+    const isAvailable = Boolean(ticker) && !isCryptoTicker(ticker) && Boolean(provider.getSplits && provider.getDividends);
+
+    const fetchCorporateActions = useCallback(async (): Promise<void> => {
+        const active = getMarketDataProvider();
+        const requestId = ++requestRef.current;
+        setSplits([]);
+        setDividends([]);
+        setError(null);
+        if (!ticker || isCryptoTicker(ticker) || !active.getSplits || !active.getDividends) {
+            setIsLoading(false);
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            const symbol = ticker.toUpperCase();
+            const [splitData, dividendData] = await Promise.all([
+                active.getSplits(symbol),
+                active.getDividends(symbol, dividendLimit)
+            ]);
+            if (requestId !== requestRef.current) return;
+
+            const splitResults = splitData.results || [];
+            setSplits(splitResults);
+            setDividends(dividendData.results || []);
+
+            const store = getBarStore();
+            if (store && splitResults.length > 0) {
+                const cleared = await invalidateSplitAdjustedBars(store, symbol, splitResults).catch(err => {
+                    console.warn('Failed to clear split-adjusted bars:', err);
+                    return 0;
+                });
+                if (cleared > 0) {
+                    setInvalidatedSeries(count => count + cleared);
+                }
+            }
+        } catch (error: unknown) {
+            if (requestId !== requestRef.current) return;
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error fetching corporate actions';
+            console.error('Error fetching corporate actions:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            if (requestId === requestRef.current) {
+                setIsLoading(false);
+            }
+        }
+    }, [ticker, dividendLimit]);
+
+    const actions = useMemo(() => toCorporateActions(splits, dividends), [splits, dividends]);
+
+    useEffect(() => {
+        fetchCorporateActions();
+    }, [fetchCorporateActions]);
+
+    return {
+        splits,
+        dividends,
+        actions,
+        isAvailable,
+        invalidatedSeries,
+        isLoading,
+        error,
+        refresh: fetchCorporateActions
+    };
+};
+
+export default useCorporateActions;
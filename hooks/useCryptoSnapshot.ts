@@ -1,8 +1,5 @@
 import { useState, useCallback } from 'react';
-
-// API configuration
-const API_KEY = process.env.NEXT_PUBLIC_POLYGON_API_KEY;
-const CRYPTO_SNAPSHOT_URL = 'https://api.polygon.io/v2/snapshot/locale/global/markets/crypto/tickers';
+import { getMarketDataProvider } from '@/lib/market-data';
 
 // Type definitions
 export interface CryptoDataTicker {
@@ -67,31 +64,12 @@ export const useCryptoSnapshot = (): UseCryptoSnapshotResult => {
     setError(null);
 
     try {
-      // Build the API URL - if no tickers are provided, fetch all crypto tickers
-      let url = `${CRYPTO_SNAPSHOT_URL}?apiKey=${API_KEY}`;
-
-      if (tickerSymbols) {
-        // Clean up ticker symbols and remove empty strings
-        const cleanTickerList = tickerSymbols.split(',').filter(t => t.trim());
-
-        if (cleanTickerList.length > 0) {
-          // Join the clean list
-          const cleanTickerSymbols = cleanTickerList.join(',');
-          url += `&tickers=${cleanTickerSymbols}`;
-        }
-      }
-
-      // Log the exact URL we're calling (hiding API key for security)
-      console.log("Calling Crypto API with URL:",
-        API_KEY ? url.replace(API_KEY, "API_KEY_HIDDEN") : url);
-
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch crypto data (${response.status})`);
-      }
+      // If no tickers are provided, fetch all crypto tickers
+      const cleanTickerList = tickerSymbols
+        ? tickerSymbols.split(',').filter(t => t.trim())
+        : [];
 
-      const data = await response.json() as CryptoDataResponse;
+      const data = await getMarketDataProvider().getSnapshots('crypto', cleanTickerList) as CryptoDataResponse;
 
       // Process the data to handle missing or zero values appropriately
       if (data.tickers && Array.isArray(data.tickers)) {
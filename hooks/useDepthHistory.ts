@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { DepthHistory, DepthProfileOptions, sampleDepthProfile } from '@/lib/order-book';
+import useOrderBook from './useOrderBook';
+
+interface DepthHistoryOptions extends Partial<DepthProfileOptions> {
+    // Samples kept in the rolling window
+    windowSize?: number;
+    sampleIntervalMs?: number;
+}
+
+interface DepthHistoryHook {
+    status: string;
+    error: string | null;
+    productId: string;
+    isSynced: boolean;
+    // windowSize × (2 × binCount) resting sizes, oldest sample first
+    grid: number[][];
+    maxSize: number;
+    sampleCount: number;
+    mid: number | null;
+    profile: DepthProfileOptions;
+    reconnect: () => void;
+}
+
+// Raw levels read per side per sample; enough to cover the range on liquid books
+const MAX_SAMPLED_LEVELS = 5000;
+
+/**
+ * Custom hook for a rolling window of order book depth profiles: resting size bucketed by
+ * distance from the mid, sampled from the live level 2 book at a fixed interval
+ * @param ticker - The crypto ticker (e.g. "X:BTCUSD"); an empty string leaves the hook idle
+ */
+const useDepthHistory = (
+    ticker: string,
+    { binCount = 40, rangeBps = 50, windowSize = 60, sampleIntervalMs = 1000 }: DepthHistoryOptions = {}
+): DepthHistoryHook => {
+    // The book publishes no faster than we sample
+    const { status, error, productId, isSynced, metrics, book, reconnect } = useOrderBook(ticker, {
+        depth: 1,
+        publishIntervalMs: sampleIntervalMs
+    });
+
+    const [grid, setGrid] = useState<number[][]>([]);
+    const [maxSize, setMaxSize] = useState<number>(0);
+    const [sampleCount, setSampleCount] = useState<number>(0);
+
+    useEffect(() => {
+        const history = new DepthHistory(windowSize);
+        const profile = { binCount, rangeBps };
+
+        const publish = () => {
+            setGrid(history.toGrid(binCount * 2));
+            setMaxSize(history.maxSize());
+            setSampleCount(history.length);
+        };
+        publish();
+        if (!productId) return;
+
+        // Only a synced book is sampled, so a resync pauses the surface instead of recording an empty book
+        const sampleTimer = setInterval(() => {
+            const bestBid = book.bestBid();
+            const bestAsk = book.bestAsk();
+            if (!book.isSynced || bestBid === null || bestAsk === null) return;
+
+            const mid = (bestBid + bestAsk) / 2;
+            history.push({
+                timestamp: Date.now(),
+                mid,
+                sizes: sampleDepthProfile(book.bids(MAX_SAMPLED_LEVELS), book.asks(MAX_SAMPLED_LEVELS), mid, profile)
+            });
+            publish();
+        }, sampleIntervalMs);
+
+        return () => clearInterval(sampleTimer);
+    }, [productId, book, binCount, rangeBps, windowSize, sampleIntervalMs]);
+
+    return {
+        status,
+        error,
+        productId,
+        isSynced,
+        grid,
+        maxSize,
+        sampleCount,
+        mid: metrics.mid,
+        profile: { binCount, rangeBps },
+        reconnect
+    };
+};
+
+export default useDepthHistory;
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { FinancialsTimeframe, getMarketDataProvider, isCryptoTicker } from '@/lib/market-data';
+import { FundamentalPeriod, PeriodRatios, computeRatios, toFundamentalPeriods } from '@/lib/fundamentals';
+
+export type FundamentalsTimeframe = Exclude<FinancialsTimeframe, 'ttm'>;
+
+export interface UseFundamentalsResult {
+    // Newest first, at most periodCount
+    periods: FundamentalPeriod[];
+    // Ratios for each of `periods`, in the same order
+    ratios: PeriodRatios[];
+    // False when the active provider has no financials (or the ticker is crypto)
+    isAvailable: boolean;
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+}
+
+const PERIODS_PER_YEAR: Record<FundamentalsTimeframe, number> = {
+    quarterly: 4,
+    annual: 1
+};
+
+/**
+ * Custom hook for a company's reported financial statements from the active market data provider.
+ * A year of extra periods is fetched beyond `periodCount` so growth can be computed for every period shown.
+ * @param ticker - Stock ticker; crypto and empty tickers leave the hook idle
+ * @param timeframe - Quarterly or annual reports
+ * @param periodCount - Periods to return (defaults to two years of quarters or five years)
+ */
+export const useFundamentals = (
+    ticker: string,
+    timeframe: FundamentalsTimeframe = 'quarterly',
+    periodCount: number = timeframe === 'quarterly' ? 8 : 5
+): UseFundamentalsResult => {
+    const [allPeriods, setAllPeriods] = useState<FundamentalPeriod[]>([]);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Responses for a ticker or timeframe the user has already left are dropped
+    const requestRef = useRef(0);
+
+    const provider = getMarketDataProvider();
+    const isAvailable = Boolean(ticker) && !isCryptoTicker(ticker) && Boolean(provider.getFinancials);
+
+    const fetchFundamentals = useCallback(async (): Promise<void> => {
+        const active = getMarketDataProvider();
+        const requestId = ++requestRef.current;
+        setAllPeriods([]);
+        setError(null);
+        if (!ticker || isCryptoTicker(ticker) || !active.getFinancials) {
+            setIsLoading(false);
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            const data = await active.getFinancials(ticker.toUpperCase(), timeframe, periodCount + PERIODS_PER_YEAR[timeframe]);
+            if (requestId !== requestRef.current) return;
+
+            const periods = toFundamentalPeriods(data.results || []);
+            if (periods.length === 0) {
+                throw new Error(`No ${timeframe} financials available for ${ticker.toUpperCase()}`);
+            }
+            setAllPeriods(periods);
+        } catch (error: unknown) {
+            if (requestId !== requestRef.current) return;
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error fetching financials';
+            console.error('Error fetching financials:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            if (requestId === requestRef.current) {
+                setIsLoading(false);
+            }
+        }
+    }, [ticker, timeframe, periodCount]);
+
+    useEffect(() => {
+        fetchFundamentals();
+    }, [fetchFundamentals]);
+
+    const periods = useMemo(() => allPeriods.slice(0, periodCount), [allPeriods, periodCount]);
+    const ratios = useMemo(() => periods.map(period => computeRatios(allPeriods, period)), [allPeriods, periods]);
+
+    return {
+        periods,
+        ratios,
+        isAvailable,
+        isLoading,
+        error,
+        refresh: fetchFundamentals
+    };
+};
+
+export default useFundamentals;
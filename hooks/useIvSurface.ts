@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { OptionSnapshot, getMarketDataProvider, getTimeZoneOffset, isCryptoTicker } from '@/lib/market-data';
+import {
+    ExpirySmile,
+    IvSurfaceGrid,
+    SurfaceAxis,
+    buildIvSurface,
+    collectSmiles,
+    diffIvSurfaces,
+    getChainUnderlyingPrice,
+    getPreviousSessionClose
+} from '@/lib/options';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface IvSurfaceOptions {
+    axis?: SurfaceAxis;
+    // Furthest expiration included, in calendar days
+    maxDays?: number;
+    // Strikes kept either side of the underlying, as a fraction of its price
+    strikeBand?: number;
+    rate?: number;
+    dividendYield?: number;
+    refreshInterval?: number;
+}
+
+export interface UseIvSurfaceResult {
+    smiles: ExpirySmile[];
+    previousSmiles: ExpirySmile[];
+    surface: IvSurfaceGrid | null;
+    // The previous session's surface on the current grid, and the change since
+    previousSurface: IvSurfaceGrid | null;
+    change: IvSurfaceGrid | null;
+    spot: number | null;
+    previousSpot: number | null;
+    isTruncated: boolean;
+    lastUpdated: number | null;
+    isAvailable: boolean;
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+}
+
+const toNewYorkDate = (timestamp: number): string =>
+    new Date(timestamp + getTimeZoneOffset(timestamp, 'America/New_York')).toISOString().split('T')[0];
+
+/**
+ * Custom hook for an underlying's implied volatility surface: every expiration out to `maxDays`
+ * within a strike band around the underlying, interpolated onto a uniform grid. The previous
+ * session's surface is backed out of each contract's previous close against the underlying's.
+ * @param underlying - Stock ticker; crypto and empty tickers leave the hook idle
+ */
+export const useIvSurface = (
+    underlying: string,
+    {
+        axis = 'moneyness',
+        maxDays = 180,
+        strikeBand = 0.3,
+        rate = 0.045,
+        dividendYield = 0,
+        refreshInterval = 60 * 1000
+    }: IvSurfaceOptions = {}
+): UseIvSurfaceResult => {
+    const [snapshots, setSnapshots] = useState<OptionSnapshot[]>([]);
+    const [spot, setSpot] = useState<number | null>(null);
+    const [previousSpot, setPreviousSpot] = useState<number | null>(null);
+    const [isTruncated, setIsTruncated] = useState<boolean>(false);
+    const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Responses for an underlying the user has already left are dropped
+    const requestRef = useRef(0);
+
+    const symbol = underlying.trim().toUpperCase();
+    const provider = getMarketDataProvider();
+    const isAvailable = Boolean(symbol) && !isCryptoTicker(symbol) && Boolean(provider.getOptionsChain);
+
+    const fetchSurface = useCallback(async (): Promise<void> => {
+        const active = getMarketDataProvider();
+        if (!symbol || isCryptoTicker(symbol) || !active.getOptionsChain) return;
+
+        const requestId = ++requestRef.current;
+        setIsLoading(true);
+        try {
+            // The strike band needs the underlying price before the chain is requested
+            const stock = await active.getSnapshots('stocks', [symbol]);
+            const stockTicker = stock.tickers?.[0];
+            const stockPrice = stockTicker?.lastTrade?.p || stockTicker?.day?.c || stockTicker?.prevDay?.c || null;
+            if (!stockPrice) {
+                throw new Error(`No price found for ${symbol}`);
+            }
+
+            const now = Date.now();
+            const chain = await active.getOptionsChain({
+                underlying: symbol,
+                expiration: toNewYorkDate(now),
+                expirationTo: toNewYorkDate(now + maxDays * DAY_MS),
+                strikeMin: stockPrice * (1 - strikeBand),
+                strikeMax: stockPrice * (1 + strikeBand)
+            });
+            if (requestId !== requestRef.current) return;
+
+            const results = chain.results || [];
+            setSnapshots(results);
+            setSpot(getChainUnderlyingPrice(results) ?? stockPrice);
+            setPreviousSpot(stockTicker?.prevDay?.c || null);
+            setIsTruncated(Boolean(chain.truncated));
+            setLastUpdated(now);
+            setError(results.length === 0 ? `No contracts found for ${symbol} in the next ${maxDays} days` : null);
+        } catch (error: unknown) {
+            if (requestId !== requestRef.current) return;
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error fetching options surface';
+            console.error('Error fetching options surface:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            if (requestId === requestRef.current) {
+                setIsLoading(false);
+            }
+        }
+    }, [symbol, maxDays, strikeBand]);
+
+    useEffect(() => {
+        requestRef.current++;
+        setSnapshots([]);
+        setSpot(null);
+        setPreviousSpot(null);
+        setError(null);
+        setIsLoading(false);
+        if (!symbol || isCryptoTicker(symbol)) return;
+
+        fetchSurface();
+        const intervalId = setInterval(fetchSurface, refreshInterval);
+        return () => clearInterval(intervalId);
+    }, [symbol, fetchSurface, refreshInterval]);
+
+    const smiles = useMemo(
+        () => collectSmiles(snapshots, { spot: spot ?? 0, rate, dividendYield, now: lastUpdated ?? Date.now() }, axis),
+        [snapshots, spot, rate, dividendYield, lastUpdated, axis]
+    );
+
+    const previousSmiles = useMemo(
+        () => collectSmiles(
+            snapshots,
+            { spot: previousSpot ?? 0, rate, dividendYield, now: getPreviousSessionClose(lastUpdated ?? Date.now()) },
+            axis,
+            'previous'
+        ),
+        [snapshots, previousSpot, rate, dividendYield, lastUpdated, axis]
+    );
+
+    const { surface, previousSurface, change } = useMemo(() => {
+        const current = buildIvSurface(smiles, axis);
+        const previous = current
+            ? buildIvSurface(previousSmiles, axis, {
+                xRange: [current.xValues[0], current.xValues[current.xValues.length - 1]],
+                dayRange: [current.daysValues[0], current.daysValues[current.daysValues.length - 1]]
+            })
+            : null;
+        return {
+            surface: current,
+            previousSurface: previous,
+            change: current && previous ? diffIvSurfaces(current, previous) : null
+        };
+    }, [smiles, previousSmiles, axis]);
+
+    return {
+        smiles,
+        previousSmiles,
+        surface,
+        previousSurface,
+        change,
+        spot,
+        previousSpot,
+        isTruncated,
+        lastUpdated,
+        isAvailable,
+        isLoading,
+        error,
+        refresh: fetchSurface
+    };
+};
+
+export default useIvSurface;
@@ -0,0 +1,130 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+    MarketSession,
+    StreamAggregate,
+    Trade,
+    getEquitySession,
+    getMarketDataProvider
+} from '@/lib/market-data';
+import { TradeMessage } from './useLiveCryptoPrice';
+import { useMarketStatus } from './useMarketStatus';
+
+interface LiveStockPriceOptions {
+    // Include pre-market and after-hours prints; off keeps only the regular session
+    extendedHours?: boolean;
+}
+
+// Same shape as useLiveCryptoPrice so charts can take either feed
+interface LiveStockPriceHook {
+    status: string;
+    error: string | null;
+    lastPrice: number | null;
+    formattedTicker: string;
+    tradeMessages: TradeMessage[];
+    lastAggregate: StreamAggregate | null;
+    session: MarketSession | null;
+    reconnect: () => void;
+    subscribe: (newTicker: string) => void;
+}
+
+// Convert a provider-neutral trade into the Polygon-style message the charts consume
+const toTradeMessage = (trade: Trade, seq: number): TradeMessage => ({
+    ev: 'T',
+    pair: trade.symbol,
+    p: trade.price,
+    t: trade.timestamp,
+    s: trade.size,
+    c: trade.conditions || [0],
+    i: typeof trade.id === 'number' ? trade.id : undefined,
+    x: trade.exchange,
+    side: trade.side,
+    seq
+});
+
+/**
+ * Custom hook for live stock trades and minute bars from the active market data provider
+ * (Polygon's stocks WebSocket by default)
+ * @param initialTicker - The stock symbol (e.g. "AAPL"); an empty string leaves the hook idle
+ */
+const useLiveStockPrice = (
+    initialTicker: string = 'AAPL',
+    { extendedHours = true }: LiveStockPriceOptions = {}
+): LiveStockPriceHook => {
+    // State
+    const [status, setStatus] = useState<string>('Initializing');
+    const [error, setError] = useState<string | null>(null);
+    const [lastPrice, setLastPrice] = useState<number | null>(null);
+    const [tradeMessages, setTradeMessages] = useState<TradeMessage[]>([]);
+    const [lastAggregate, setLastAggregate] = useState<StreamAggregate | null>(null);
+    const [ticker, setTicker] = useState<string>(initialTicker.toUpperCase());
+
+    const { session } = useMarketStatus();
+
+    // Read by the trade handler so toggling extended hours doesn't resubscribe
+    const extendedHoursRef = useRef(extendedHours);
+    extendedHoursRef.current = extendedHours;
+    const tradeSeqRef = useRef(0);
+
+    const handleTrades = useCallback((trades: Trade[]) => {
+        const accepted = extendedHoursRef.current
+            ? trades
+            : trades.filter(trade => getEquitySession(trade.timestamp) === 'regular');
+        if (accepted.length === 0) return;
+
+        const messages = accepted.map(trade => toTradeMessage(trade, ++tradeSeqRef.current));
+        setLastPrice(messages[messages.length - 1].p);
+
+        // Keep only the most recent 100 trades
+        setTradeMessages(prev => [...prev, ...messages].slice(-100));
+    }, []);
+
+    const handleAggregate = useCallback((aggregate: StreamAggregate) => {
+        if (!extendedHoursRef.current && getEquitySession(aggregate.start) !== 'regular') return;
+        setLastAggregate(aggregate);
+    }, []);
+
+    // Subscribe function for the hook user
+    const subscribe = useCallback((newTicker: string): void => {
+        setTicker(newTicker.toUpperCase());
+    }, []);
+
+    useEffect(() => {
+        setTradeMessages([]);
+        setLastPrice(null);
+        setLastAggregate(null);
+        setError(null);
+        if (!ticker) return;
+
+        return getMarketDataProvider().subscribeTrades(ticker, {
+            onTrades: handleTrades,
+            onAggregate: handleAggregate,
+            onStatus: setStatus,
+            onError: setError
+        });
+    }, [ticker, handleTrades, handleAggregate]);
+
+    useEffect(() => {
+        setTicker(initialTicker.toUpperCase());
+    }, [initialTicker]);
+
+    // Function to manually reconnect
+    const reconnect = useCallback((): void => {
+        setStatus('Manually reconnecting...');
+        setError(null);
+        getMarketDataProvider().reconnect?.();
+    }, []);
+
+    return {
+        status,
+        error,
+        lastPrice,
+        formattedTicker: ticker,
+        tradeMessages,
+        lastAggregate,
+        session,
+        reconnect,
+        subscribe
+    };
+};
+
+export default useLiveStockPrice;
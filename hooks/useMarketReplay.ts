@@ -0,0 +1,71 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ReplayOptions, ReplaySession, ReplayState, startReplay, stopReplay } from '@/lib/replay';
+
+interface MarketReplayHook {
+    // null until a replay has been started
+    state: ReplayState | null;
+    error: string | null;
+    start: (options: ReplayOptions) => void;
+    stop: () => void;
+    play: () => void;
+    pause: () => void;
+    seek: (time: number) => void;
+    setSpeed: (speed: number) => void;
+}
+
+/**
+ * Custom hook that runs a market replay. While a replay is running every market data consumer
+ * reads from it; the replay is stopped when the hook unmounts.
+ */
+const useMarketReplay = (): MarketReplayHook => {
+    // State
+    const [state, setState] = useState<ReplayState | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Refs
+    const sessionRef = useRef<ReplaySession | null>(null);
+    const unsubscribeRef = useRef<(() => void) | null>(null);
+
+    const stop = useCallback((): void => {
+        unsubscribeRef.current?.();
+        unsubscribeRef.current = null;
+        sessionRef.current = null;
+        stopReplay();
+        setState(null);
+    }, []);
+
+    const start = useCallback((options: ReplayOptions): void => {
+        stop();
+        setError(null);
+
+        try {
+            const session = startReplay(options);
+            sessionRef.current = session;
+            unsubscribeRef.current = session.events.on('state', setState);
+            setState(session.state);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to start replay');
+        }
+    }, [stop]);
+
+    const play = useCallback((): void => sessionRef.current?.play(), []);
+    const pause = useCallback((): void => sessionRef.current?.pause(), []);
+    const seek = useCallback((time: number): void => sessionRef.current?.seek(time), []);
+    const setSpeed = useCallback((speed: number): void => sessionRef.current?.setSpeed(speed), []);
+
+    // Hand the rest of the app back to live data on the way out
+    useEffect(() => stop, [stop]);
+
+    return {
+        state,
+        error,
+        start,
+        stop,
+        play,
+        pause,
+        seek,
+        setSpeed
+    };
+};
+
+export default useMarketReplay;
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { MarketSession, getMarketDataProvider } from '@/lib/market-data';
 
 // Define the market status response type based on the API documentation
 export interface MarketStatusResponse {
@@ -31,6 +32,8 @@ export interface UseMarketStatusResult {
     isMarketOpen: boolean;
     isPreMarket: boolean;
     isAfterHours: boolean;
+    // null until the first status has loaded
+    session: MarketSession | null;
     lastUpdated: Date | null;
     isLoading: boolean;
     error: string | null;
@@ -51,25 +54,19 @@ export const useMarketStatus = (refreshInterval = 5 * 60 * 1000): UseMarketStatu
     const isMarketOpen = marketStatus?.market === 'open';
     const isPreMarket = Boolean(marketStatus?.earlyHours);
     const isAfterHours = Boolean(marketStatus?.afterHours);
+    const session: MarketSession | null = marketStatus === null
+        ? null
+        : isPreMarket ? 'pre-market'
+        : isAfterHours ? 'after-hours'
+        : isMarketOpen ? 'regular'
+        : 'closed';
 
     const fetchMarketStatus = useCallback(async (): Promise<void> => {
         setIsLoading(true);
         setError(null);
 
         try {
-            const API_KEY = process.env.NEXT_PUBLIC_POLYGON_API_KEY;
-            if (!API_KEY) {
-                throw new Error('Polygon API key is missing');
-            }
-
-            const MARKET_STATUS_URL = `https://api.polygon.io/v1/marketstatus/now?apiKey=${API_KEY}`;
-
-            const response = await fetch(MARKET_STATUS_URL);
-            const data = await response.json();
-
-            if (!response.ok) {
-                throw new Error(`Failed to fetch market status: ${data.error || response.statusText}`);
-            }
+            const data = await getMarketDataProvider().getMarketStatus() as MarketStatusResponse;
 
             // Set the market status and update timestamp
             setMarketStatus(data);
@@ -104,6 +101,7 @@ export const useMarketStatus = (refreshInterval = 5 * 60 * 1000): UseMarketStatu
         isMarketOpen,
         isPreMarket,
         isAfterHours,
+        session,
         lastUpdated,
         isLoading,
         error,
@@ -0,0 +1,158 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { OptionSnapshot, getMarketDataProvider, isCryptoTicker } from '@/lib/market-data';
+import { ChainRow, buildChain, getChainUnderlyingPrice } from '@/lib/options';
+
+interface OptionsChainOptions {
+    // Continuously compounded risk-free rate and dividend yield for the Black-Scholes fills
+    rate?: number;
+    dividendYield?: number;
+    // How often the selected expiration's quotes are refreshed
+    refreshInterval?: number;
+}
+
+export interface UseOptionsChainResult {
+    expirations: string[];
+    expiration: string | null;
+    setExpiration: (expiration: string) => void;
+    rows: ChainRow[];
+    // Underlying price the chain is priced against
+    spot: number | null;
+    // The upstream chain had more contracts than one request returns
+    isTruncated: boolean;
+    lastUpdated: number | null;
+    // False when the active provider has no options (or the underlying is crypto)
+    isAvailable: boolean;
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for an underlying's option expirations and the chain for the selected one, from
+ * the active market data provider. The nearest expiration is selected when the list loads.
+ * @param underlying - Stock ticker; crypto and empty tickers leave the hook idle
+ */
+export const useOptionsChain = (
+    underlying: string,
+    { rate = 0.045, dividendYield = 0, refreshInterval = 30 * 1000 }: OptionsChainOptions = {}
+): UseOptionsChainResult => {
+    const [expirations, setExpirations] = useState<string[]>([]);
+    const [expiration, setExpiration] = useState<string | null>(null);
+    const [snapshots, setSnapshots] = useState<OptionSnapshot[]>([]);
+    const [spot, setSpot] = useState<number | null>(null);
+    const [isTruncated, setIsTruncated] = useState<boolean>(false);
+    const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Responses for an underlying or expiration the user has already left are dropped
+    const requestRef = useRef(0);
+
+    const symbol = underlying.trim().toUpperCase();
+    const provider = getMarketDataProvider();
+    const isAvailable = Boolean(symbol) && !isCryptoTicker(symbol)
+        && Boolean(provider.getOptionsExpirations && provider.getOptionsChain);
+
+    // Expirations for a new underlying
+    useEffect(() => {
+        const active = getMarketDataProvider();
+        const requestId = ++requestRef.current;
+        setExpirations([]);
+        setExpiration(null);
+        setSnapshots([]);
+        setSpot(null);
+        setError(null);
+        if (!symbol || isCryptoTicker(symbol) || !active.getOptionsExpirations) {
+            setIsLoading(false);
+            return;
+        }
+
+        setIsLoading(true);
+        active.getOptionsExpirations(symbol)
+            .then(data => {
+                if (requestId !== requestRef.current) return;
+                if (data.expirations.length === 0) {
+                    setError(`No listed options found for ${symbol}`);
+                    setIsLoading(false);
+                    return;
+                }
+                setExpirations(data.expirations);
+                setExpiration(data.expirations[0]);
+            })
+            .catch((error: unknown) => {
+                if (requestId !== requestRef.current) return;
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error fetching option expirations';
+                console.error('Error fetching option expirations:', errorMessage);
+                setError(errorMessage);
+                setIsLoading(false);
+            });
+    }, [symbol]);
+
+    const fetchChain = useCallback(async (): Promise<void> => {
+        const active = getMarketDataProvider();
+        if (!symbol || !expiration || !active.getOptionsChain) return;
+
+        const requestId = ++requestRef.current;
+        setIsLoading(true);
+        try {
+            const [chain, stock] = await Promise.all([
+                active.getOptionsChain({ underlying: symbol, expiration }),
+                // The chain only carries the underlying price on some plans
+                active.getSnapshots('stocks', [symbol]).catch(() => null)
+            ]);
+            if (requestId !== requestRef.current) return;
+
+            const results = chain.results || [];
+            const stockTicker = stock?.tickers?.[0];
+            const stockPrice = stockTicker?.lastTrade?.p || stockTicker?.day?.c || stockTicker?.prevDay?.c || null;
+
+            setSnapshots(results);
+            setSpot(getChainUnderlyingPrice(results) ?? stockPrice);
+            setIsTruncated(Boolean(chain.truncated));
+            setLastUpdated(Date.now());
+            setError(results.length === 0 ? `No contracts found for ${symbol} expiring ${expiration}` : null);
+        } catch (error: unknown) {
+            if (requestId !== requestRef.current) return;
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error fetching options chain';
+            console.error('Error fetching options chain:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            if (requestId === requestRef.current) {
+                setIsLoading(false);
+            }
+        }
+    }, [symbol, expiration]);
+
+    // The selected expiration's chain, refreshed on an interval
+    useEffect(() => {
+        if (!expiration) return;
+        setSnapshots([]);
+        fetchChain();
+
+        const intervalId = setInterval(fetchChain, refreshInterval);
+        return () => clearInterval(intervalId);
+    }, [expiration, fetchChain, refreshInterval]);
+
+    // Re-priced locally when the rate or yield changes, without refetching. Without an underlying
+    // price the quotes still show, but nothing can be modelled
+    const rows = useMemo(
+        () => buildChain(snapshots, { spot: spot ?? 0, rate, dividendYield, now: lastUpdated ?? Date.now() }),
+        [snapshots, spot, rate, dividendYield, lastUpdated]
+    );
+
+    return {
+        expirations,
+        expiration,
+        setExpiration,
+        rows,
+        spot,
+        isTruncated,
+        lastUpdated,
+        isAvailable,
+        isLoading,
+        error,
+        refresh: fetchChain
+    };
+};
+
+export default useOptionsChain;
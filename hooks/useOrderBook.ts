@@ -0,0 +1,151 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { getMarketDataProvider, toStreamSymbol } from '@/lib/market-data';
+import { BookMetrics, DepthLevel, OrderBook, computeBookMetrics, groupBook } from '@/lib/order-book';
+
+interface OrderBookOptions {
+    // Price bucket size; 0 shows the raw levels
+    increment?: number;
+    // Rows per side
+    depth?: number;
+    // Updates arrive far faster than anyone can read them; render at most this often
+    publishIntervalMs?: number;
+}
+
+interface OrderBookHook {
+    status: string;
+    error: string | null;
+    productId: string;
+    bids: DepthLevel[];
+    asks: DepthLevel[];
+    metrics: BookMetrics;
+    isSynced: boolean;
+    lastUpdate: number | null;
+    // The live book itself, for consumers that sample it on their own schedule; don't mutate it
+    book: OrderBook;
+    reconnect: () => void;
+}
+
+// Raw levels read per side when grouping; wide increments need more than `depth`
+const MAX_GROUPED_LEVELS = 5000;
+
+const EMPTY_METRICS = computeBookMetrics([], []);
+
+/**
+ * Custom hook for a live level 2 order book (Coinbase's level2 channel). The book is kept in a
+ * ref from the snapshot and updates; grouped levels and metrics are published on a throttle.
+ * @param ticker - The crypto ticker (e.g. "X:BTCUSD" or "BTC-USD"); an empty string leaves the hook idle
+ */
+const useOrderBook = (
+    ticker: string,
+    { increment = 0, depth = 20, publishIntervalMs = 250 }: OrderBookOptions = {}
+): OrderBookHook => {
+    // State
+    const [status, setStatus] = useState<string>('Initializing');
+    const [error, setError] = useState<string | null>(null);
+    const [bids, setBids] = useState<DepthLevel[]>([]);
+    const [asks, setAsks] = useState<DepthLevel[]>([]);
+    const [metrics, setMetrics] = useState<BookMetrics>(EMPTY_METRICS);
+    const [isSynced, setIsSynced] = useState<boolean>(false);
+    const [lastUpdate, setLastUpdate] = useState<number | null>(null);
+
+    // Refs
+    const bookRef = useRef(new OrderBook());
+    const isDirtyRef = useRef(false);
+    const lastUpdateRef = useRef<number | null>(null);
+
+    const productId = ticker ? toStreamSymbol(ticker) : '';
+
+    // Read by the publisher so regrouping doesn't resubscribe
+    const groupingRef = useRef({ increment, depth });
+    groupingRef.current = { increment, depth };
+
+    const publish = useCallback(() => {
+        const book = bookRef.current;
+        const { increment: currentIncrement, depth: currentDepth } = groupingRef.current;
+        isDirtyRef.current = false;
+
+        const rawLimit = currentIncrement > 0 ? MAX_GROUPED_LEVELS : currentDepth;
+        const grouped = groupBook(book.bids(rawLimit), book.asks(rawLimit), currentIncrement, currentDepth);
+
+        setBids(grouped.bids);
+        setAsks(grouped.asks);
+        setMetrics(computeBookMetrics(book.bids(currentDepth), book.asks(currentDepth)));
+        setIsSynced(book.isSynced);
+        setLastUpdate(lastUpdateRef.current);
+    }, []);
+
+    // Regroup straight away when the grouping changes
+    useEffect(() => {
+        publish();
+    }, [increment, depth, publish]);
+
+    useEffect(() => {
+        const book = bookRef.current;
+        book.reset();
+        lastUpdateRef.current = null;
+        setError(null);
+        publish();
+        if (!productId) return;
+
+        const provider = getMarketDataProvider('coinbase');
+        if (!provider.subscribeOrderBook) {
+            setStatus('Unavailable');
+            setError(`Order books are not available from the ${provider.id} provider`);
+            return;
+        }
+
+        const unsubscribe = provider.subscribeOrderBook(productId, {
+            onSnapshot: snapshot => {
+                book.applySnapshot(snapshot.bids, snapshot.asks);
+                lastUpdateRef.current = snapshot.timestamp;
+                isDirtyRef.current = true;
+            },
+            onUpdate: update => {
+                if (book.applyChanges(update.changes)) {
+                    lastUpdateRef.current = update.timestamp;
+                    isDirtyRef.current = true;
+                }
+            },
+            onResync: reason => {
+                console.warn(`Order book for ${productId} resyncing: ${reason}`);
+                book.reset();
+                isDirtyRef.current = true;
+            },
+            onStatus: setStatus,
+            onError: setError
+        });
+
+        const publishTimer = setInterval(() => {
+            if (isDirtyRef.current) {
+                publish();
+            }
+        }, publishIntervalMs);
+
+        return () => {
+            clearInterval(publishTimer);
+            unsubscribe();
+        };
+    }, [productId, publishIntervalMs, publish]);
+
+    // Function to manually reconnect
+    const reconnect = useCallback((): void => {
+        setStatus('Manually reconnecting...');
+        setError(null);
+        getMarketDataProvider('coinbase').reconnect?.();
+    }, []);
+
+    return {
+        status,
+        error,
+        productId,
+        bids,
+        asks,
+        metrics,
+        isSynced,
+        lastUpdate,
+        book: bookRef.current,
+        reconnect
+    };
+};
+
+export default useOrderBook;
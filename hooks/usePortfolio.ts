@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import { CostBasisMethod, computeHoldings, markToMarket, Portfolio } from '@/lib/portfolio';
+import { useWatchlistQuotes } from './useWatchlistQuotes';
+
+/**
+ * The signed-in user's transactions, positions and P&L marked to live snapshot prices
+ * @param method How sold units are matched to purchases: first-in-first-out lots or average cost
+ */
+export const usePortfolio = (method: CostBasisMethod = 'fifo') => {
+    const transactions = useQuery(api.transactions.list);
+
+    const { holdings, warnings } = useMemo(
+        () => computeHoldings(transactions ?? [], method),
+        [transactions, method]
+    );
+
+    // Only open positions need a live price
+    const openTickers = useMemo(
+        () => holdings.filter(h => h.quantity > 0).map(h => h.ticker).sort(),
+        [holdings]
+    );
+    const { quotes, isLoading, error, lastUpdated, refresh } = useWatchlistQuotes(openTickers);
+
+    const portfolio: Portfolio = useMemo(() => {
+        const prices: Record<string, number | null> = {};
+        Object.values(quotes).forEach(quote => {
+            prices[quote.ticker] = quote.price;
+        });
+        return markToMarket(holdings, prices, warnings);
+    }, [holdings, quotes, warnings]);
+
+    return {
+        transactions,
+        portfolio,
+        isLoading: transactions === undefined || isLoading,
+        error,
+        lastUpdated,
+        refresh
+    };
+};
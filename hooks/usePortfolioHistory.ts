@@ -0,0 +1,82 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AggregateBar, getMarketDataProvider } from '@/lib/market-data';
+import { buildValueHistory, CostBasisMethod, PortfolioTransaction, ValueHistoryPoint } from '@/lib/portfolio';
+
+/**
+ * Daily portfolio value and cost basis since the first transaction, priced from daily bars
+ */
+export const usePortfolioHistory = (
+    transactions: PortfolioTransaction[] | undefined,
+    method: CostBasisMethod = 'fifo'
+) => {
+    const [dailyBars, setDailyBars] = useState<Record<string, AggregateBar[]>>({});
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Refetch bars only when the tickers or the start date change, not on every edit
+    const tickers = useMemo(
+        () => Array.from(new Set((transactions ?? []).map(t => t.ticker))).sort(),
+        [transactions]
+    );
+    const firstDate = useMemo(
+        () => (transactions ?? []).reduce<string | null>((min, t) => (!min || t.date < min ? t.date : min), null),
+        [transactions]
+    );
+    const tickerKey = tickers.join(',');
+
+    useEffect(() => {
+        if (!firstDate || !tickerKey) {
+            setDailyBars({});
+            return;
+        }
+
+        let cancelled = false;
+        const to = new Date().toISOString().split('T')[0];
+        const provider = getMarketDataProvider();
+
+        const fetchBars = async () => {
+            setIsLoading(true);
+            setError(null);
+
+            try {
+                const entries = await Promise.all(tickerKey.split(',').map(async ticker => {
+                    const data = await provider.getAggregates({
+                        ticker,
+                        multiplier: 1,
+                        timespan: 'day',
+                        from: firstDate,
+                        to
+                    });
+                    return [ticker, data.results ?? []] as const;
+                }));
+
+                if (!cancelled) {
+                    setDailyBars(Object.fromEntries(entries));
+                }
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error fetching price history';
+                console.error('Portfolio history error:', errorMessage);
+                if (!cancelled) {
+                    setError(errorMessage);
+                }
+            } finally {
+                if (!cancelled) {
+                    setIsLoading(false);
+                }
+            }
+        };
+
+        fetchBars();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [tickerKey, firstDate]);
+
+    const history: ValueHistoryPoint[] = useMemo(
+        () => buildValueHistory(transactions ?? [], dailyBars, method),
+        [transactions, dailyBars, method]
+    );
+
+    return { history, isLoading, error };
+};
@@ -0,0 +1,192 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AssetMarket, GroupedDailyBar, getMarketDataProvider, isCryptoTicker } from '@/lib/market-data';
+import {
+    MAX_SAMPLE_FALLBACK_DAYS,
+    RISK_RETURN_LOOKBACKS,
+    RiskReturnLookback,
+    SampledHistory,
+    TickerProfile,
+    buildMarketSample,
+    getPreviousMarketDate,
+    getSampleDates,
+    toTickerProfile
+} from '@/lib/risk-return';
+
+// Requests kept in flight at once; the market routes cache and coalesce, but Polygon rate-limits
+const SAMPLE_CONCURRENCY = 4;
+const PROFILE_CONCURRENCY = 6;
+
+// Ticker details are one request per stock, so only universes up to this size get them
+export const MAX_PROFILED_TICKERS = 200;
+
+// Details barely change over a session; keep them for the page's lifetime
+const profileCache = new Map<string, TickerProfile>();
+
+// Run `task` over `items` with at most `limit` running at a time, keeping results in order
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<PromiseSettledResult<R>[]> => {
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            try {
+                results[index] = { status: 'fulfilled', value: await task(items[index]) };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+};
+
+export interface UseRiskReturnHistoryResult {
+    history: SampledHistory | null;
+    // Sampled dates fetched so far, for a progress readout
+    progress: { loaded: number; total: number };
+    // False when the active provider has no market-wide daily bars
+    isAvailable: boolean;
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for every ticker's daily bars in the given markets on a lookback's sampled dates,
+ * one market-wide request per date. A weekly sample that lands on a holiday (or today, before the
+ * close) falls back a few days to the last session.
+ * @param markets - Markets to sample; an empty list leaves the hook idle
+ * @param lookback - How far back, and how often, to sample
+ */
+export const useRiskReturnHistory = (markets: AssetMarket[], lookback: RiskReturnLookback): UseRiskReturnHistoryResult => {
+    const [history, setHistory] = useState<SampledHistory | null>(null);
+    const [progress, setProgress] = useState({ loaded: 0, total: 0 });
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Responses for markets or a lookback the user has already changed are dropped
+    const requestRef = useRef(0);
+    const marketKey = markets.join(',');
+    const isAvailable = Boolean(getMarketDataProvider().getGroupedDaily);
+
+    const fetchHistory = useCallback(async (): Promise<void> => {
+        const provider = getMarketDataProvider();
+        const requestId = ++requestRef.current;
+        const selected = (marketKey ? marketKey.split(',') : []) as AssetMarket[];
+        const getGroupedDaily = provider.getGroupedDaily?.bind(provider);
+        if (selected.length === 0 || !getGroupedDaily) {
+            setHistory(null);
+            setError(null);
+            setIsLoading(false);
+            return;
+        }
+
+        const definition = RISK_RETURN_LOOKBACKS[lookback];
+        const requests = selected.flatMap(market =>
+            getSampleDates(market, definition, provider.now?.() ?? Date.now()).map(date => ({ market, date })));
+        let loaded = 0;
+        setIsLoading(true);
+        setError(null);
+        setProgress({ loaded, total: requests.length });
+
+        const results = await mapWithConcurrency(requests, SAMPLE_CONCURRENCY, async ({ market, date }) => {
+            let sampleDate = date;
+            let bars: GroupedDailyBar[] = (await getGroupedDaily(market, sampleDate)).results;
+            for (let fallback = 0; definition.frequency === 'weekly' && bars.length === 0 && fallback < MAX_SAMPLE_FALLBACK_DAYS; fallback++) {
+                sampleDate = getPreviousMarketDate(sampleDate, market);
+                bars = (await getGroupedDaily(market, sampleDate)).results;
+            }
+            if (requestId === requestRef.current) {
+                setProgress({ loaded: ++loaded, total: requests.length });
+            }
+            return { market, date: sampleDate, bars };
+        });
+        if (requestId !== requestRef.current) return;
+
+        const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+        failures.forEach(failure => console.error('Error fetching grouped daily bars:', failure.reason));
+        if (failures.length === results.length) {
+            const reason = failures[0]?.reason;
+            setError(reason instanceof Error ? reason.message : 'Failed to load market history');
+            setIsLoading(false);
+            return;
+        }
+
+        const days = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+        const sampled: SampledHistory = { frequency: definition.frequency, markets: {} };
+        selected.forEach(market => {
+            sampled.markets[market] = buildMarketSample(days.filter(day => day.market === market));
+        });
+
+        setHistory(sampled);
+        setError(failures.length > 0 ? `${failures.length} of ${results.length} sampled days couldn't be loaded` : null);
+        setIsLoading(false);
+    }, [marketKey, lookback]);
+
+    useEffect(() => {
+        fetchHistory();
+    }, [fetchHistory]);
+
+    return { history, progress, isAvailable, isLoading, error, refresh: fetchHistory };
+};
+
+export interface UseTickerProfilesResult {
+    profiles: Record<string, TickerProfile>;
+    // False when the universe has more stocks than get details
+    isAvailable: boolean;
+    isLoading: boolean;
+}
+
+/**
+ * Custom hook for market cap, SIC code and security type of each stock in a universe small
+ * enough to look up one by one. Tickers whose details fail are left without a profile.
+ * @param tickers - The universe; crypto tickers are skipped
+ */
+export const useTickerProfiles = (tickers: string[]): UseTickerProfilesResult => {
+    const [profiles, setProfiles] = useState<Record<string, TickerProfile>>({});
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+
+    const requestRef = useRef(0);
+    const stockKey = useMemo(() => tickers.filter(ticker => !isCryptoTicker(ticker)).join(','), [tickers]);
+    const stockCount = stockKey ? stockKey.split(',').length : 0;
+    const isAvailable = stockCount <= MAX_PROFILED_TICKERS;
+
+    useEffect(() => {
+        const requestId = ++requestRef.current;
+        const stocks = stockKey ? stockKey.split(',') : [];
+        if (stocks.length === 0 || stocks.length > MAX_PROFILED_TICKERS) {
+            setProfiles({});
+            setIsLoading(false);
+            return;
+        }
+
+        const provider = getMarketDataProvider();
+        const missing = stocks.filter(ticker => !profileCache.has(ticker));
+        const collect = () => Object.fromEntries(stocks.flatMap(ticker => {
+            const profile = profileCache.get(ticker);
+            return profile ? [[ticker, profile]] : [];
+        }));
+
+        setProfiles(collect());
+        if (missing.length === 0) {
+            setIsLoading(false);
+            return;
+        }
+
+        setIsLoading(true);
+        mapWithConcurrency(missing, PROFILE_CONCURRENCY, async ticker => {
+            profileCache.set(ticker, toTickerProfile(await provider.getTickerDetails(ticker)));
+        }).then(results => {
+            results.forEach((result, index) => {
+                if (result.status === 'rejected') {
+                    console.error(`Error fetching ticker details for ${missing[index]}:`, result.reason);
+                }
+            });
+            if (requestId !== requestRef.current) return;
+            setProfiles(collect());
+            setIsLoading(false);
+        });
+    }, [stockKey]);
+
+    return { profiles, isAvailable, isLoading };
+};
@@ -1,8 +1,5 @@
 import { useState, useCallback } from 'react';
-
-// API configuration
-const API_KEY = process.env.NEXT_PUBLIC_POLYGON_API_KEY;
-const SNAPSHOT_URL = 'https://api.polygon.io/v2/snapshot/locale/us/markets/stocks/tickers';
+import { getMarketDataProvider } from '@/lib/market-data';
 
 // Type definitions
 export interface MarketDataTicker {
@@ -68,20 +65,7 @@ export const useMarketSnapshot = (): UseMarketSnapshotResult => {
         return { tickers: [] };
       }
 
-      // Join the clean list
-      const cleanTickerSymbols = cleanTickerList.join(',');
-
-      // First, let's log the exact URL we're calling to debug
-      const url = `${SNAPSHOT_URL}?tickers=${cleanTickerSymbols}&apiKey=${API_KEY}`;
-      console.log("Calling API with URL:", API_KEY ? url.replace(API_KEY, "API_KEY_HIDDEN") : url);
-
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch market data (${response.status})`);
-      }
-
-      const data = await response.json() as MarketDataResponse;
+      const data = await getMarketDataProvider().getSnapshots('stocks', cleanTickerList) as MarketDataResponse;
 
       // Process the data to handle zero values appropriately
       // Process the data to handle zero values appropriately
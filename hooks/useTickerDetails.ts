@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { useTickerPricing } from './useTickerPriceRange';
+import { getMarketDataProvider } from '@/lib/market-data';
 
 // Type definitions remain the same
 export interface TickerAddress {
@@ -112,8 +113,6 @@ export const useTickerDetails = (): UseTickerDetailsResult => {
     // Try to find the best historical data by going back day by day
     const findHistoricalData = async (
         ticker: string,
-        baseUrl: string,
-        apiKey: string,
         maxDaysBack: number = 7
     ): Promise<TickerDetails | null> => {
         console.log(`Searching for historical data, going back up to ${maxDaysBack} days`);
@@ -123,15 +122,13 @@ export const useTickerDetails = (): UseTickerDetailsResult => {
             historicalDate.setDate(historicalDate.getDate() - daysBack);
             const dateStr = historicalDate.toISOString().split('T')[0];
 
-            const historicalUrl = `${baseUrl}?apiKey=${apiKey}&date=${dateStr}`;
             console.log(`Trying historical date (${daysBack} days ago): ${dateStr}`);
 
             try {
-                const historicalResponse = await fetch(historicalUrl);
-                const historicalData = await historicalResponse.json();
+                const historicalData = await getMarketDataProvider().getTickerDetails(ticker, dateStr);
 
-                if (historicalResponse.ok && historicalData.results) {
-                    const histDetails = {
+                if (historicalData.results) {
+                    const histDetails: TickerDetails = {
                         ...historicalData.results,
                         lastUpdated: Date.now(),
                         dataSource: `historical-${daysBack}d`
@@ -215,28 +212,20 @@ export const useTickerDetails = (): UseTickerDetailsResult => {
         }
 
         try {
-            const API_KEY = process.env.NEXT_PUBLIC_POLYGON_API_KEY;
-            const TICKER_DETAILS_URL = `https://api.polygon.io/v3/reference/tickers/${normalizedTicker}`;
-
             console.group(`Fetching Ticker Details for ${normalizedTicker}`);
-            console.log('API Key:', API_KEY ? 'Present' : 'Missing');
             console.log('Ticker:', normalizedTicker);
 
             // Try current date first (or the specified date)
-            let url = `${TICKER_DETAILS_URL}?apiKey=${API_KEY}`;
             if (date) {
-                url += `&date=${date}`;
                 console.log('Specific date used:', date);
             } else {
                 console.log('Using default most recent date');
             }
 
-            let response = await fetch(url);
-            let data = await response.json();
-            console.log('Initial API Response Status:', response.status);
+            const data = await getMarketDataProvider().getTickerDetails(normalizedTicker, date);
 
             // Process current data
-            if (response.ok && data.results) {
+            if (data.results) {
                 let companyData: TickerDetails = {
                     ...data.results,
                     lastUpdated: Date.now(),
@@ -255,11 +244,7 @@ export const useTickerDetails = (): UseTickerDetailsResult => {
                     console.log('Current data is incomplete, searching historical data...');
 
                     // Try to find historical data with more complete information
-                    const historicalData = await findHistoricalData(
-                        normalizedTicker,
-                        TICKER_DETAILS_URL,
-                        API_KEY as string
-                    );
+                    const historicalData = await findHistoricalData(normalizedTicker);
 
                     if (historicalData && isCompleteData(historicalData)) {
                         // Merge the data, keeping the most complete information
@@ -306,8 +291,7 @@ export const useTickerDetails = (): UseTickerDetailsResult => {
                 console.groupEnd();
                 return companyData;
             } else {
-                console.error('API Error:', data.error || response.statusText);
-                throw new Error(`Failed to fetch ticker details: ${data.error || response.statusText}`);
+                throw new Error(`No ticker details available for ${normalizedTicker}`);
             }
         } catch (error: unknown) {
             console.groupEnd();
@@ -1,4 +1,8 @@
 import { useState, useCallback } from 'react';
+import { getAssetMarket, getMarketDataProvider } from '@/lib/market-data';
+
+// Polygon's largest aggregates page
+const MINUTE_BARS_LIMIT = 50000;
 
 // Define interface for Polygon API response data
 interface PolygonDataPoint {
@@ -11,29 +15,6 @@ interface PolygonDataPoint {
     vw?: number; // volume weighted average price
 }
 
-// Interface for Snapshot API response
-interface SnapshotResponse {
-    status?: string;
-    request_id?: string;
-    ticker?: {
-        ticker?: string;
-        day?: PolygonDataPoint;
-        todaysChange?: number;
-        todaysChangePerc?: number;
-    };
-    error?: string;
-}
-
-// Interface for Aggregate Bars API response
-interface AggregateResponse {
-    ticker?: string;
-    status?: string;
-    results?: PolygonDataPoint[];
-    resultsCount?: number;
-    error?: string;
-    request_id?: string;
-}
-
 // Type definitions for ticker pricing data
 interface TickerPrice {
     open: number;
@@ -71,28 +52,15 @@ export function useTickerPricing() {
         setError(null);
 
         try {
-            const API_KEY = process.env.NEXT_PUBLIC_POLYGON_API_KEY;
-
-            // Determine if it's a crypto or stock ticker
-            const isCrypto = ticker.startsWith('X:') || ticker.includes('-');
             const normalizedTicker = ticker.toUpperCase();
 
-            const SNAPSHOT_URL = isCrypto
-                ? `https://api.polygon.io/v2/snapshot/locale/global/markets/crypto/tickers/${normalizedTicker}?apiKey=${API_KEY}`
-                : `https://api.polygon.io/v2/snapshot/locale/us/markets/stocks/tickers/${normalizedTicker}?apiKey=${API_KEY}`;
-
-            const response = await fetch(SNAPSHOT_URL);
-            const data = await response.json() as SnapshotResponse;
+            const data = await getMarketDataProvider().getSnapshots(getAssetMarket(normalizedTicker), [normalizedTicker]);
 
-            if (!response.ok) {
-                throw new Error(`Failed to fetch price data: ${data.error || response.statusText}`);
-            }
-
-            if (!data.ticker) {
+            const snapshotData = data.tickers?.[0];
+            if (!snapshotData) {
                 throw new Error(`No data available for ${normalizedTicker}`);
             }
 
-            const snapshotData = data.ticker;
             const dayData = snapshotData.day || {
                 o: 0,
                 h: 0,
@@ -105,11 +73,11 @@ export function useTickerPricing() {
             const now = Date.now();
 
             const priceData: TickerPrice = {
-                open: dayData.o,
-                high: dayData.h,
-                low: dayData.l,
-                close: dayData.c,
-                volume: dayData.v,
+                open: dayData.o || 0,
+                high: dayData.h || 0,
+                low: dayData.l || 0,
+                close: dayData.c || 0,
+                volume: dayData.v || 0,
                 vwap: dayData.vw || 0,
                 change: snapshotData.todaysChange || 0,
                 changePercent: snapshotData.todaysChangePerc || 0,
@@ -127,7 +95,15 @@ export function useTickerPricing() {
         }
     }, []);
 
-    const fetchTickerPriceRange = useCallback(async (ticker: string, fromDate: string, toDate: string) => {
+    // adjusted=false returns prices as they traded, before later splits; timespan='minute' returns
+    // minute bars instead of daily ones
+    const fetchTickerPriceRange = useCallback(async (
+        ticker: string,
+        fromDate: string,
+        toDate: string,
+        adjusted: boolean = true,
+        timespan: 'day' | 'minute' = 'day'
+    ) => {
         if (!ticker) {
             setError("No ticker provided");
             return null;
@@ -144,18 +120,17 @@ export function useTickerPricing() {
         setError(null);
 
         try {
-            const API_KEY = process.env.NEXT_PUBLIC_POLYGON_API_KEY;
-
-            // Create endpoint URL for range data
-            const AGGS_URL = `https://api.polygon.io/v2/aggs/ticker/${normalizedTicker}/range/1/day/${fromDate}/${validToDate}?adjusted=true&apiKey=${API_KEY}`;
-
-            // Fetch the aggregate data
-            const response = await fetch(AGGS_URL);
-            const data = await response.json() as AggregateResponse;
-
-            if (!response.ok) {
-                throw new Error(`Failed to fetch price range data: ${data.error || response.statusText}`);
-            }
+            // Fetch the aggregate data from the active provider
+            const data = await getMarketDataProvider().getAggregates({
+                ticker: normalizedTicker,
+                multiplier: 1,
+                timespan,
+                from: fromDate,
+                to: validToDate,
+                adjusted,
+                // A month of minute bars is well over the default page
+                limit: timespan === 'minute' ? MINUTE_BARS_LIMIT : undefined
+            });
 
             // Check if we have results
             if (!data.results || data.results.length === 0) {
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import Papa from 'papaparse';
+
+interface TickerUniverse {
+    tickers: Set<string>;
+    // Company or asset name by ticker, where the file has one
+    names: Map<string, string>;
+}
+
+// Both files are static, so load them once per page and share the result
+let universePromise: Promise<TickerUniverse> | null = null;
+
+const loadTickerFile = async (url: string): Promise<{ ticker: string; name: string }[]> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    const csvText = await response.text();
+    const results = Papa.parse<{ ticker?: string; name?: string }>(csvText, { header: true, skipEmptyLines: true });
+    return results.data
+        .map(row => ({ ticker: String(row.ticker || '').trim().toUpperCase(), name: String(row.name || '').trim() }))
+        .filter(row => row.ticker);
+};
+
+const loadTickerUniverse = (): Promise<TickerUniverse> => {
+    if (!universePromise) {
+        universePromise = Promise.all([
+            loadTickerFile('/tickers.csv'),
+            loadTickerFile('/crypto_tickers.csv')
+        ])
+            .then(([stocks, crypto]) => {
+                const rows = [...stocks, ...crypto];
+                return {
+                    tickers: new Set(rows.map(row => row.ticker)),
+                    names: new Map(rows.filter(row => row.name).map(row => [row.ticker, row.name]))
+                };
+            })
+            .catch(error => {
+                // Let the next caller retry
+                universePromise = null;
+                throw error;
+            });
+    }
+    return universePromise;
+};
+
+/**
+ * Every known stock (public/tickers.csv) and crypto (public/crypto_tickers.csv) ticker, with names
+ */
+export const useTickerUniverse = () => {
+    const [universe, setUniverse] = useState<TickerUniverse | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        loadTickerUniverse()
+            .then(loaded => {
+                if (!cancelled) setUniverse(loaded);
+            })
+            .catch((error: unknown) => {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error loading tickers';
+                console.error('Ticker universe error:', errorMessage);
+                if (!cancelled) setError(errorMessage);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    return {
+        tickers: universe?.tickers ?? null,
+        names: universe?.names ?? null,
+        isLoading: universe === null && error === null,
+        error
+    };
+};
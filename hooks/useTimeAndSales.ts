@@ -0,0 +1,166 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Trade, getMarketDataProvider, isCryptoTicker, toStreamSymbol } from '@/lib/market-data';
+import { TapeOptions, TapePrint, TradeTape, VolumeDelta, buildTape } from '@/lib/time-and-sales';
+
+interface TimeAndSalesOptions extends TapeOptions {
+    // Trades kept for scrolling back
+    capacity?: number;
+    // Trailing window for the buy/sell volume delta
+    deltaWindowMs?: number;
+    publishIntervalMs?: number;
+    // Freeze the visible tape; trades keep being recorded and counted
+    isPaused?: boolean;
+}
+
+interface TimeAndSalesHook {
+    status: string;
+    error: string | null;
+    symbol: string;
+    prints: TapePrint[];
+    delta: VolumeDelta;
+    // Trades recorded since the tape was paused
+    pendingCount: number;
+    bufferedCount: number;
+    lastPrice: number | null;
+    clear: () => void;
+    reconnect: () => void;
+}
+
+const EMPTY_DELTA: VolumeDelta = {
+    buyVolume: 0,
+    sellVolume: 0,
+    buyNotional: 0,
+    sellNotional: 0,
+    delta: 0,
+    deltaNotional: 0,
+    windowMs: 0
+};
+
+/**
+ * Custom hook for a time & sales tape from the active market data provider. Trades are recorded
+ * into a bounded buffer and the tape is rebuilt from it on a throttle, so changing the filters
+ * applies to the history already on screen.
+ * @param ticker - A stock or crypto ticker (e.g. "AAPL", "X:BTCUSD"); an empty string leaves the hook idle
+ */
+const useTimeAndSales = (
+    ticker: string,
+    {
+        capacity = 1000,
+        deltaWindowMs = 60000,
+        publishIntervalMs = 250,
+        isPaused = false,
+        minSize,
+        minNotional,
+        largeNotional,
+        burstWindowMs
+    }: TimeAndSalesOptions = {}
+): TimeAndSalesHook => {
+    // State
+    const [status, setStatus] = useState<string>('Initializing');
+    const [error, setError] = useState<string | null>(null);
+    const [prints, setPrints] = useState<TapePrint[]>([]);
+    const [delta, setDelta] = useState<VolumeDelta>(() => ({ ...EMPTY_DELTA, windowMs: deltaWindowMs }));
+    const [pendingCount, setPendingCount] = useState<number>(0);
+    const [bufferedCount, setBufferedCount] = useState<number>(0);
+    const [lastPrice, setLastPrice] = useState<number | null>(null);
+
+    // Refs
+    const tapeRef = useRef<TradeTape>(new TradeTape(capacity, deltaWindowMs));
+    const isDirtyRef = useRef(false);
+    const pendingRef = useRef(0);
+    const lastPriceRef = useRef<number | null>(null);
+
+    const symbol = !ticker ? '' : isCryptoTicker(ticker) ? toStreamSymbol(ticker) : ticker.toUpperCase();
+
+    // Read by the publisher so filter changes and pausing don't resubscribe
+    const viewRef = useRef({ isPaused, options: { minSize, minNotional, largeNotional, burstWindowMs } });
+    viewRef.current = { isPaused, options: { minSize, minNotional, largeNotional, burstWindowMs } };
+
+    const publish = useCallback(() => {
+        const tape = tapeRef.current;
+        const { isPaused: paused, options } = viewRef.current;
+        isDirtyRef.current = false;
+
+        // The delta keeps moving while paused; only the rows freeze
+        setDelta(tape.getDelta(getMarketDataProvider().now?.()));
+        setBufferedCount(tape.length);
+        setLastPrice(lastPriceRef.current);
+        if (paused) {
+            setPendingCount(pendingRef.current);
+            return;
+        }
+
+        pendingRef.current = 0;
+        setPendingCount(0);
+        setPrints(buildTape(tape.trades(), options));
+    }, []);
+
+    // Rebuild straight away when the filters change or the tape resumes
+    useEffect(() => {
+        publish();
+    }, [minSize, minNotional, largeNotional, burstWindowMs, isPaused, publish]);
+
+    useEffect(() => {
+        const tape = new TradeTape(capacity, deltaWindowMs);
+        tapeRef.current = tape;
+        pendingRef.current = 0;
+        lastPriceRef.current = null;
+        setError(null);
+        publish();
+        if (!symbol) return;
+
+        const unsubscribe = getMarketDataProvider().subscribeTrades(symbol, {
+            onTrades: (trades: Trade[]) => {
+                if (trades.length === 0) return;
+                tape.record(trades);
+                lastPriceRef.current = trades[trades.length - 1].price;
+                pendingRef.current += trades.length;
+                isDirtyRef.current = true;
+            },
+            onStatus: setStatus,
+            onError: setError
+        });
+
+        const publishTimer = setInterval(() => {
+            if (isDirtyRef.current) {
+                publish();
+            } else if (tape.length > 0) {
+                // The delta window slides even when no trades arrive
+                setDelta(tape.getDelta(getMarketDataProvider().now?.()));
+            }
+        }, publishIntervalMs);
+
+        return () => {
+            clearInterval(publishTimer);
+            unsubscribe();
+        };
+    }, [symbol, capacity, deltaWindowMs, publishIntervalMs, publish]);
+
+    const clear = useCallback((): void => {
+        tapeRef.current.clear();
+        pendingRef.current = 0;
+        publish();
+    }, [publish]);
+
+    // Function to manually reconnect
+    const reconnect = useCallback((): void => {
+        setStatus('Manually reconnecting...');
+        setError(null);
+        getMarketDataProvider().reconnect?.();
+    }, []);
+
+    return {
+        status,
+        error,
+        symbol,
+        prints,
+        delta,
+        pendingCount,
+        bufferedCount,
+        lastPrice,
+        clear,
+        reconnect
+    };
+};
+
+export default useTimeAndSales;
@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useMarketSnapshot } from './useStockMarketSnapshot';
+import { useCryptoSnapshot } from './useCryptoSnapshot';
+import { isCryptoTicker } from '@/lib/market-data';
+
+// Snapshots are cached server-side for 15 seconds, so polling faster gains nothing
+const DEFAULT_REFRESH_INTERVAL_MS = 15 * 1000;
+
+export interface WatchlistQuote {
+    ticker: string;
+    price: number | null;
+    change: number | null;
+    changePercent: number | null;
+    volume: number | null;
+}
+
+export interface UseWatchlistQuotesResult {
+    quotes: Record<string, WatchlistQuote>;
+    isLoading: boolean;
+    error: string | null;
+    lastUpdated: Date | null;
+    refresh: () => Promise<void>;
+}
+
+/**
+ * Live price, day change and volume for a mixed list of stock and crypto tickers
+ * @param tickers Polygon tickers ("AAPL", "X:BTCUSD")
+ * @param refreshInterval Time in milliseconds between refreshes
+ */
+export const useWatchlistQuotes = (
+    tickers: string[],
+    refreshInterval: number = DEFAULT_REFRESH_INTERVAL_MS
+): UseWatchlistQuotesResult => {
+    const [quotes, setQuotes] = useState<Record<string, WatchlistQuote>>({});
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+    const { fetchMarketData } = useMarketSnapshot();
+    const { fetchCryptoData } = useCryptoSnapshot();
+
+    // A stable key so a new array with the same tickers doesn't refetch
+    const tickerKey = tickers.join(',');
+
+    const refresh = useCallback(async (): Promise<void> => {
+        const symbols = tickerKey ? tickerKey.split(',') : [];
+        if (symbols.length === 0) {
+            setQuotes({});
+            return;
+        }
+
+        setIsLoading(true);
+        setError(null);
+
+        try {
+            const stockTickers = symbols.filter(t => !isCryptoTicker(t));
+            const cryptoTickers = symbols.filter(isCryptoTicker);
+
+            const [stockData, cryptoData] = await Promise.all([
+                stockTickers.length > 0 ? fetchMarketData(stockTickers.join(',')) : Promise.resolve({ tickers: [] }),
+                cryptoTickers.length > 0 ? fetchCryptoData(cryptoTickers.join(',')) : Promise.resolve({ tickers: [] })
+            ]);
+
+            const nextQuotes: Record<string, WatchlistQuote> = {};
+
+            stockData.tickers.forEach(ticker => {
+                nextQuotes[ticker.ticker] = {
+                    ticker: ticker.ticker,
+                    price: ticker.day?.c ?? null,
+                    change: ticker.todaysChange ?? null,
+                    changePercent: ticker.todaysChangePerc ?? null,
+                    volume: ticker.day?.v ?? null
+                };
+            });
+
+            cryptoData.tickers.forEach(ticker => {
+                nextQuotes[ticker.ticker] = {
+                    ticker: ticker.ticker,
+                    // Crypto trades around the clock, so the last trade is the live price
+                    price: ticker.lastTrade?.p ?? ticker.day?.c ?? null,
+                    change: ticker.todaysChange ?? null,
+                    changePercent: ticker.todaysChangePerc ?? null,
+                    volume: ticker.volumeInCoins ?? ticker.day?.v ?? null
+                };
+            });
+
+            setQuotes(nextQuotes);
+            setLastUpdated(new Date());
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error fetching watchlist quotes';
+            console.error('Watchlist quotes error:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [tickerKey, fetchMarketData, fetchCryptoData]);
+
+    // Initial fetch and automatic refresh
+    useEffect(() => {
+        refresh();
+
+        if (refreshInterval <= 0) return;
+
+        const intervalId = setInterval(() => {
+            refresh();
+        }, refreshInterval);
+
+        return () => clearInterval(intervalId);
+    }, [refresh, refreshInterval]);
+
+    return { quotes, isLoading, error, lastUpdated, refresh };
+};
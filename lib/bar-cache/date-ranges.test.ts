@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, getSeriesKey, mergeRanges, subtractRanges } from './date-ranges';
+
+describe('addDays', () => {
+    it('crosses month, year and leap day boundaries', () => {
+        expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+        expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+        expect(addDays('2023-12-31', 1)).toBe('2024-01-01');
+    });
+});
+
+describe('mergeRanges', () => {
+    it('joins ranges that overlap or touch and keeps the rest apart', () => {
+        expect(mergeRanges([
+            { from: '2024-03-10', to: '2024-03-15' },
+            { from: '2024-01-01', to: '2024-01-31' },
+            { from: '2024-02-01', to: '2024-02-10' },
+            { from: '2024-03-12', to: '2024-03-20' },
+            { from: '2024-01-05', to: '2024-01-06' }
+        ])).toEqual([
+            { from: '2024-01-01', to: '2024-02-10' },
+            { from: '2024-03-10', to: '2024-03-20' }
+        ]);
+    });
+
+    it('drops inverted ranges and leaves its input alone', () => {
+        const ranges = [{ from: '2024-01-01', to: '2024-01-10' }, { from: '2024-01-11', to: '2024-01-20' }, { from: '2024-05-01', to: '2024-04-01' }];
+
+        expect(mergeRanges(ranges)).toEqual([{ from: '2024-01-01', to: '2024-01-20' }]);
+        expect(ranges[0]).toEqual({ from: '2024-01-01', to: '2024-01-10' });
+    });
+});
+
+describe('subtractRanges', () => {
+    const year = { from: '2024-01-01', to: '2024-12-31' };
+
+    it('returns the whole range when nothing is covered', () => {
+        expect(subtractRanges(year, [])).toEqual([year]);
+    });
+
+    it('returns the gaps before, between and after the covered blocks', () => {
+        expect(subtractRanges(year, [
+            { from: '2024-03-01', to: '2024-03-31' },
+            { from: '2024-06-01', to: '2024-06-30' }
+        ])).toEqual([
+            { from: '2024-01-01', to: '2024-02-29' },
+            { from: '2024-04-01', to: '2024-05-31' },
+            { from: '2024-07-01', to: '2024-12-31' }
+        ]);
+    });
+
+    it('ignores cover outside the range and returns nothing when it is all covered', () => {
+        expect(subtractRanges(year, [
+            { from: '2023-06-01', to: '2024-01-31' },
+            { from: '2024-02-01', to: '2025-03-01' }
+        ])).toEqual([]);
+        expect(subtractRanges({ from: '2024-05-01', to: '2024-05-31' }, [
+            { from: '2024-01-01', to: '2024-01-31' },
+            { from: '2024-07-01', to: '2024-07-31' }
+        ])).toEqual([{ from: '2024-05-01', to: '2024-05-31' }]);
+    });
+});
+
+describe('getSeriesKey', () => {
+    it('normalizes the ticker case', () => {
+        expect(getSeriesKey({ provider: 'polygon', ticker: 'aapl', multiplier: 1, timespan: 'day', adjusted: true }))
+            .toBe('polygon:AAPL:1day:adjusted');
+    });
+});
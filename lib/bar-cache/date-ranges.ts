@@ -0,0 +1,56 @@
+import { BarSeriesId, DateRange } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+export const addDays = (date: string, days: number): string =>
+    new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+
+/**
+ * Sort ranges and join any that overlap or touch
+ */
+export const mergeRanges = (ranges: DateRange[]): DateRange[] => {
+    const sorted = ranges.filter(range => range.from <= range.to).sort((a, b) => a.from.localeCompare(b.from));
+    const merged: DateRange[] = [];
+
+    for (const range of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && range.from <= addDays(last.to, 1)) {
+            if (range.to > last.to) last.to = range.to;
+        } else {
+            merged.push({ ...range });
+        }
+    }
+    return merged;
+};
+
+/**
+ * The parts of `range` not covered by `covered`, oldest first
+ */
+export const subtractRanges = (range: DateRange, covered: DateRange[]): DateRange[] => {
+    const gaps: DateRange[] = [];
+    let cursor = range.from;
+
+    for (const block of mergeRanges(covered)) {
+        if (block.to < cursor) continue;
+        if (block.from > range.to) break;
+        if (block.from > cursor) {
+            gaps.push({ from: cursor, to: addDays(block.from, -1) });
+        }
+        cursor = addDays(block.to, 1);
+        if (cursor > range.to) return gaps;
+    }
+
+    if (cursor <= range.to) {
+        gaps.push({ from: cursor, to: range.to });
+    }
+    return gaps;
+};
+
+/**
+ * Stable key for a bar series, e.g. "polygon:AAPL:1day:adjusted"
+ */
+export const getSeriesKey = ({ provider, ticker, multiplier, timespan, adjusted }: BarSeriesId): string =>
+    `${provider}:${ticker.toUpperCase()}:${multiplier}${timespan}:${adjusted ? 'adjusted' : 'unadjusted'}`;
@@ -0,0 +1,3 @@
+export * from './types';
+export * from './date-ranges';
+export * from './indexed-db-store';
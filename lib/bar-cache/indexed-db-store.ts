@@ -0,0 +1,134 @@
+import type { AggregateBar } from '@/lib/market-data';
+import { BarCacheEntry, BarStore, CachedBar } from './types';
+
+const DB_NAME = 'market-data-cache';
+const DB_VERSION = 1;
+const BARS_STORE = 'bars';
+const ENTRIES_STORE = 'entries';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+
+const fromCachedBar = (row: CachedBar): AggregateBar => ({
+    t: row.t,
+    o: row.o,
+    h: row.h,
+    l: row.l,
+    c: row.c,
+    v: row.v,
+    vw: row.vw,
+    n: row.n
+});
+
+// Every bar of a series, whatever its timestamp
+const seriesRange = (key: string): IDBKeyRange => IDBKeyRange.bound([key, -Infinity], [key, Infinity]);
+
+/**
+ * Bars in IndexedDB, keyed by [series key, timestamp] so a series reads back in time order
+ */
+export class IndexedDbBarStore implements BarStore {
+    private database: Promise<IDBDatabase> | null = null;
+
+    constructor(private readonly name: string = DB_NAME) {}
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            const opening = new Promise<IDBDatabase>((resolve, reject) => {
+                const request = indexedDB.open(this.name, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    const bars = db.createObjectStore(BARS_STORE, { keyPath: ['key', 't'] });
+                    bars.createIndex('key', 'key');
+                    db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Let the next call try again instead of remembering the failure
+            opening.catch(() => {
+                this.database = null;
+            });
+            this.database = opening;
+        }
+        return this.database;
+    }
+
+    async getEntry(key: string): Promise<BarCacheEntry | null> {
+        const db = await this.open();
+        const entry = await promisify<BarCacheEntry | undefined>(
+            db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).get(key)
+        );
+        return entry ?? null;
+    }
+
+    async readBars(key: string, from: number, to: number): Promise<AggregateBar[]> {
+        const db = await this.open();
+        const rows = await promisify<CachedBar[]>(
+            db.transaction(BARS_STORE).objectStore(BARS_STORE).getAll(IDBKeyRange.bound([key, from], [key, to]))
+        );
+        return rows.map(fromCachedBar);
+    }
+
+    async writeBars(entry: BarCacheEntry, bars: AggregateBar[]): Promise<BarCacheEntry> {
+        const db = await this.open();
+        const transaction = db.transaction([BARS_STORE, ENTRIES_STORE], 'readwrite');
+        const barStore = transaction.objectStore(BARS_STORE);
+
+        for (const bar of bars) {
+            barStore.put({ ...bar, key: entry.key });
+        }
+
+        // Requests run in order, so the count includes the bars just written
+        let saved = entry;
+        const countRequest = barStore.index('key').count(entry.key);
+        countRequest.onsuccess = () => {
+            saved = { ...entry, barCount: countRequest.result };
+            transaction.objectStore(ENTRIES_STORE).put(saved);
+        };
+
+        await transactionDone(transaction);
+        return saved;
+    }
+
+    async listEntries(): Promise<BarCacheEntry[]> {
+        const db = await this.open();
+        return promisify<BarCacheEntry[]>(db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll());
+    }
+
+    async deleteEntry(key: string): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction([BARS_STORE, ENTRIES_STORE], 'readwrite');
+        transaction.objectStore(BARS_STORE).delete(seriesRange(key));
+        transaction.objectStore(ENTRIES_STORE).delete(key);
+        await transactionDone(transaction);
+    }
+
+    async clear(): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction([BARS_STORE, ENTRIES_STORE], 'readwrite');
+        transaction.objectStore(BARS_STORE).clear();
+        transaction.objectStore(ENTRIES_STORE).clear();
+        await transactionDone(transaction);
+    }
+}
+
+let sharedStore: IndexedDbBarStore | null = null;
+
+/**
+ * The app's bar store, or null where IndexedDB isn't available (server rendering, some private modes)
+ */
+export const getBarStore = (): BarStore | null => {
+    if (typeof indexedDB === 'undefined') return null;
+    sharedStore ??= new IndexedDbBarStore();
+    return sharedStore;
+};
@@ -0,0 +1,45 @@
+import type { AggregateBar, AggregateTimespan } from '@/lib/market-data';
+
+// Inclusive span of market dates (YYYY-MM-DD)
+export interface DateRange {
+    from: string;
+    to: string;
+}
+
+// What a series of cached bars is keyed by
+export interface BarSeriesId {
+    provider: string;
+    ticker: string;
+    multiplier: number;
+    timespan: AggregateTimespan;
+    adjusted: boolean;
+}
+
+export interface BarCacheEntry extends BarSeriesId {
+    key: string;
+    // Dates whose bars are stored in full; anything outside them is fetched
+    ranges: DateRange[];
+    barCount: number;
+    updatedAt: number;   // Unix ms
+    // When the series was first stored; older entries don't record it
+    createdAt?: number;  // Unix ms
+}
+
+// A bar as stored, tagged with its series
+export interface CachedBar extends AggregateBar {
+    key: string;
+}
+
+/**
+ * Persistent storage for aggregate bars. Bars are only read back for dates their entry covers.
+ */
+export interface BarStore {
+    getEntry(key: string): Promise<BarCacheEntry | null>;
+    // Bars of a series with from <= t <= to (Unix ms), oldest first
+    readBars(key: string, from: number, to: number): Promise<AggregateBar[]>;
+    // Store bars and the entry describing them together, replacing bars with the same timestamp
+    writeBars(entry: BarCacheEntry, bars: AggregateBar[]): Promise<BarCacheEntry>;
+    listEntries(): Promise<BarCacheEntry[]>;
+    deleteEntry(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
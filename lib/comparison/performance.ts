@@ -0,0 +1,69 @@
+import { isCryptoTicker } from '@/lib/market-data/symbols';
+import { AggregateBar, AlignedCloses, CalendarAlignment, PerformanceBasis, PerformanceComparison, PerformanceSeries } from './types';
+
+// Daily bars are stamped at the start of their market day, so the UTC date is the trading date
+const toDateString = (timestamp: number): string => new Date(timestamp).toISOString().split('T')[0];
+
+/**
+ * Put each ticker's daily closes on one date axis. A ticker without a bar on a date (a stock on
+ * a weekend, or a holiday) holds its last close, so every lane has a value once it has started.
+ */
+export const alignDailyCloses = (barsByTicker: Record<string, AggregateBar[]>, alignment: CalendarAlignment): AlignedCloses => {
+    const byTicker = new Map<string, Map<string, number>>();
+    Object.entries(barsByTicker).forEach(([ticker, bars]) => {
+        const closes = new Map<string, number>();
+        bars.forEach(bar => closes.set(toDateString(bar.t), bar.c));
+        byTicker.set(ticker, closes);
+    });
+
+    // Stocks set the calendar on trading alignment; an all-crypto set trades every day anyway
+    const stockTickers = Array.from(byTicker.keys()).filter(ticker => !isCryptoTicker(ticker));
+    const calendarTickers = alignment === 'trading' && stockTickers.length > 0 ? stockTickers : Array.from(byTicker.keys());
+    const dateSet = new Set<string>();
+    calendarTickers.forEach(ticker => byTicker.get(ticker)?.forEach((_, date) => dateSet.add(date)));
+    const dates = Array.from(dateSet).sort();
+
+    const closes: Record<string, (number | null)[]> = {};
+    byTicker.forEach((tickerCloses, ticker) => {
+        const ownDates = Array.from(tickerCloses.keys()).sort();
+        let next = 0;
+        let last: number | null = null;
+        closes[ticker] = dates.map(date => {
+            while (next < ownDates.length && ownDates[next] <= date) {
+                last = tickerCloses.get(ownDates[next]) ?? last;
+                next++;
+            }
+            return last;
+        });
+    });
+
+    return { dates, closes };
+};
+
+/**
+ * Each ticker's performance from the first date every ticker has a close, so all lanes share a
+ * starting point. Tickers without any bars are left out and listed as missing.
+ */
+export const comparePerformance = (aligned: AlignedCloses, basis: PerformanceBasis): PerformanceComparison => {
+    const tickers = Object.keys(aligned.closes);
+    const missing = tickers.filter(ticker => aligned.closes[ticker].every(close => close === null));
+    const present = tickers.filter(ticker => !missing.includes(ticker));
+
+    const start = aligned.dates.findIndex((_, index) => present.every(ticker => aligned.closes[ticker][index] !== null));
+    if (present.length === 0 || start === -1) {
+        return { basis, dates: [], series: [], missing };
+    }
+
+    const series: PerformanceSeries[] = present.map(ticker => {
+        const closes = aligned.closes[ticker].slice(start) as number[];
+        const startClose = closes[0];
+        return {
+            ticker,
+            values: closes.map(close => (basis === 'rebased' ? (close / startClose) * 100 : (close / startClose - 1) * 100)),
+            startClose,
+            endClose: closes[closes.length - 1]
+        };
+    });
+
+    return { basis, dates: aligned.dates.slice(start), series, missing };
+};
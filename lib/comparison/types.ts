@@ -0,0 +1,31 @@
+// Shared types for comparing several tickers' performance on one chart
+
+export type { AggregateBar } from '@/lib/market-data/types';
+
+// rebased: every ticker starts at 100; percent: change since the start
+export type PerformanceBasis = 'rebased' | 'percent';
+
+// trading: only days a stock in the set traded (crypto weekends fold into Monday);
+// calendar: every day, with stocks held at their last close over weekends and holidays
+export type CalendarAlignment = 'trading' | 'calendar';
+
+// Daily closes on a shared date axis; null before a ticker's first bar
+export interface AlignedCloses {
+    dates: string[];                           // YYYY-MM-DD, oldest first
+    closes: Record<string, (number | null)[]>;
+}
+
+export interface PerformanceSeries {
+    ticker: string;
+    values: number[];       // one per date, on the chosen basis
+    startClose: number;
+    endClose: number;
+}
+
+export interface PerformanceComparison {
+    basis: PerformanceBasis;
+    dates: string[];
+    series: PerformanceSeries[];
+    // Tickers with no bars in the range
+    missing: string[];
+}
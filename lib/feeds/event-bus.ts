@@ -0,0 +1,42 @@
+type EventHandler<T> = (payload: T) => void;
+
+/**
+ * Minimal typed publish / subscribe. Handlers are called in subscription order; one that throws
+ * is logged and doesn't stop the rest.
+ */
+export class TypedEventBus<Events extends object> {
+    private readonly handlers = new Map<keyof Events, Set<EventHandler<never>>>();
+
+    /** Returns an unsubscribe function */
+    on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+        let set = this.handlers.get(event);
+        if (!set) {
+            set = new Set();
+            this.handlers.set(event, set);
+        }
+        set.add(handler as EventHandler<never>);
+        return () => this.off(event, handler);
+    }
+
+    off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+        this.handlers.get(event)?.delete(handler as EventHandler<never>);
+    }
+
+    emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        const set = this.handlers.get(event);
+        if (!set) return;
+
+        // Copy so handlers can unsubscribe while we iterate
+        for (const handler of Array.from(set)) {
+            try {
+                (handler as EventHandler<Events[K]>)(payload);
+            } catch (err) {
+                console.error(`Error in ${String(event)} handler:`, err);
+            }
+        }
+    }
+
+    listenerCount(event: keyof Events): number {
+        return this.handlers.get(event)?.size ?? 0;
+    }
+}
@@ -0,0 +1,372 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FeedConnection, getBackoffDelay } from './feed-connection';
+import { MockSocket, createTestProtocol } from './testing';
+import { FeedEvents, FeedHandshake, FeedSubscription } from './types';
+
+const TRADES: FeedSubscription = { channel: 'T', symbol: 'AAPL' };
+const QUOTES: FeedSubscription = { channel: 'Q', symbol: 'AAPL' };
+
+describe('getBackoffDelay', () => {
+    const options = { initialDelayMs: 1000, maxDelayMs: 30000, jitter: 0.5 };
+
+    it('doubles each attempt up to the maximum', () => {
+        const noJitter = { ...options, jitter: 0 };
+        expect([0, 1, 2, 3, 4, 5, 6].map(attempt => getBackoffDelay(attempt, noJitter))).toEqual([
+            1000, 2000, 4000, 8000, 16000, 30000, 30000
+        ]);
+    });
+
+    it('randomizes only the jittered fraction of the delay', () => {
+        expect(getBackoffDelay(2, options, () => 0)).toBe(2000);
+        expect(getBackoffDelay(2, options, () => 1)).toBe(4000);
+        expect(getBackoffDelay(2, options, () => 0.5)).toBe(3000);
+    });
+});
+
+describe('FeedConnection', () => {
+    let sockets: MockSocket[];
+    let connection: FeedConnection<string>;
+    let statuses: FeedEvents<string>['status'][];
+
+    const latestSocket = () => sockets[sockets.length - 1];
+
+    // Open the latest socket and accept it
+    const connect = () => {
+        latestSocket().open();
+        latestSocket().receive([{ type: 'ready' }]);
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        sockets = [];
+        statuses = [];
+        connection = new FeedConnection(createTestProtocol(), {
+            createSocket: url => {
+                const socket = new MockSocket(url);
+                sockets.push(socket);
+                return socket;
+            },
+            backoff: { initialDelayMs: 1000, maxDelayMs: 8000, jitter: 0 },
+            idleCloseMs: 2000
+        });
+        connection.events.on('status', status => statuses.push(status));
+    });
+
+    afterEach(() => {
+        connection.close();
+        vi.useRealTimers();
+    });
+
+    it('connects on the first subscription and subscribes once the feed is ready', () => {
+        expect(sockets).toHaveLength(0);
+
+        connection.subscribe(TRADES, () => {});
+        expect(sockets).toHaveLength(1);
+        expect(connection.getStatus()).toBe('connecting');
+
+        latestSocket().open();
+        expect(latestSocket().sent).toEqual(['auth']);
+        expect(connection.getStatus()).toBe('authenticating');
+
+        latestSocket().receive([{ type: 'ready' }]);
+        expect(latestSocket().sent).toEqual(['auth', 'sub:T|AAPL']);
+        expect(connection.getStatus()).toBe('connected');
+    });
+
+    it('delivers messages to the matching subscribers and wildcard ones', () => {
+        const apple = vi.fn();
+        const everyTrade = vi.fn();
+        const quotes = vi.fn();
+        connection.subscribe(TRADES, apple);
+        connection.subscribe({ channel: 'T', symbol: '*' }, everyTrade);
+        connection.subscribe(QUOTES, quotes);
+        connect();
+
+        latestSocket().receive([
+            { type: 'message', channel: 'T', symbol: 'AAPL', message: 'apple trade' },
+            { type: 'message', channel: 'T', symbol: 'MSFT', message: 'microsoft trade' }
+        ]);
+
+        expect(apple.mock.calls).toEqual([['apple trade']]);
+        expect(everyTrade.mock.calls).toEqual([['apple trade'], ['microsoft trade']]);
+        expect(quotes).not.toHaveBeenCalled();
+    });
+
+    describe('asynchronous handshakes', () => {
+        const openWith = (handshake: () => Promise<FeedHandshake>) => {
+            connection = new FeedConnection(createTestProtocol({ handshake }), {
+                createSocket: url => {
+                    const socket = new MockSocket(url);
+                    sockets.push(socket);
+                    return socket;
+                },
+                backoff: { initialDelayMs: 1000, maxDelayMs: 8000, jitter: 0 }
+            });
+            connection.subscribe(TRADES, () => {});
+            latestSocket().open();
+        };
+
+        it('authenticates once the handshake resolves', async () => {
+            let resolve: (key: string) => void = () => {};
+            const key = new Promise<string>(done => { resolve = done; });
+            openWith(async () => ({ frames: [`auth:${await key}`], awaitReady: true }));
+
+            expect(connection.getStatus()).toBe('authenticating');
+            expect(latestSocket().sent).toEqual([]);
+
+            resolve('secret');
+            await vi.waitFor(() => expect(latestSocket().sent).toEqual(['auth:secret']));
+
+            latestSocket().receive([{ type: 'ready' }]);
+            expect(latestSocket().sent).toEqual(['auth:secret', 'sub:T|AAPL']);
+        });
+
+        it('drops the socket and retries when the handshake fails', async () => {
+            const errors: string[] = [];
+            const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+            openWith(() => Promise.reject(new Error('no key')));
+            connection.events.on('error', ({ message }) => errors.push(message));
+
+            await vi.waitFor(() => expect(connection.getStatus()).toBe('reconnecting'));
+            expect(sockets[0].isClosed).toBe(true);
+            expect(errors).toEqual(['Handshake failed: no key']);
+
+            vi.advanceTimersByTime(1000);
+            expect(sockets).toHaveLength(2);
+            consoleError.mockRestore();
+        });
+    });
+
+    describe('reconnecting', () => {
+        it('backs off exponentially up to the maximum while the connection keeps failing', () => {
+            connection.subscribe(TRADES, () => {});
+
+            const delays: (number | undefined)[] = [];
+            for (let attempt = 0; attempt < 5; attempt++) {
+                latestSocket().drop();
+                const status = statuses[statuses.length - 1];
+                expect(status.status).toBe('reconnecting');
+                delays.push(status.retryInMs);
+
+                // Nothing until the delay has passed
+                vi.advanceTimersByTime(status.retryInMs! - 1);
+                expect(sockets).toHaveLength(attempt + 1);
+                vi.advanceTimersByTime(1);
+                expect(sockets).toHaveLength(attempt + 2);
+            }
+
+            expect(delays).toEqual([1000, 2000, 4000, 8000, 8000]);
+        });
+
+        it('starts the backoff over once a connection is accepted', () => {
+            connection.subscribe(TRADES, () => {});
+            latestSocket().drop();
+            vi.advanceTimersByTime(1000);
+            latestSocket().drop();
+            vi.advanceTimersByTime(2000);
+
+            connect();
+            latestSocket().drop();
+
+            expect(statuses[statuses.length - 1]).toMatchObject({ status: 'reconnecting', retryInMs: 1000 });
+        });
+
+        it('restores every live subscription on the new socket', () => {
+            connection.subscribe(TRADES, () => {});
+            connection.subscribe(QUOTES, () => {});
+            connect();
+
+            latestSocket().drop();
+            vi.advanceTimersByTime(1000);
+            connect();
+
+            expect(sockets).toHaveLength(2);
+            expect(latestSocket().sent).toEqual(['auth', 'sub:T|AAPL', 'sub:Q|AAPL']);
+        });
+
+        it('stops retrying when nobody is subscribed', () => {
+            const unsubscribe = connection.subscribe(TRADES, () => {});
+            latestSocket().drop();
+            unsubscribe();
+
+            vi.advanceTimersByTime(10000);
+            expect(sockets).toHaveLength(1);
+            expect(connection.getStatus()).toBe('idle');
+        });
+
+        it('reconnects straight away on request', () => {
+            connection.subscribe(TRADES, () => {});
+            connect();
+            const first = latestSocket();
+
+            connection.reconnect();
+
+            expect(first.isClosed).toBe(true);
+            expect(sockets).toHaveLength(2);
+            expect(connection.getStatus()).toBe('connecting');
+        });
+    });
+
+    describe('unsubscribing', () => {
+        it('holds a stream upstream until its last subscriber leaves', () => {
+            const first = connection.subscribe(TRADES, () => {});
+            const second = connection.subscribe(TRADES, () => {});
+            connect();
+            expect(latestSocket().sent.filter(frame => frame === 'sub:T|AAPL')).toHaveLength(1);
+            expect(connection.getSubscriberCount(TRADES)).toBe(2);
+
+            first();
+            expect(latestSocket().sent).not.toContain('unsub:T|AAPL');
+            expect(connection.getSubscriberCount(TRADES)).toBe(1);
+
+            second();
+            expect(latestSocket().sent).toContain('unsub:T|AAPL');
+            expect(connection.getSubscriberCount(TRADES)).toBe(0);
+        });
+
+        it('counts the same handler subscribed twice as two references', () => {
+            const handler = vi.fn();
+            const first = connection.subscribe(TRADES, handler);
+            connection.subscribe(TRADES, handler);
+            connect();
+
+            first();
+            latestSocket().receive([{ type: 'message', channel: 'T', symbol: 'AAPL', message: 'trade' }]);
+
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect(latestSocket().sent).not.toContain('unsub:T|AAPL');
+        });
+
+        it('ignores a second call to the same unsubscribe function', () => {
+            const first = connection.subscribe(TRADES, () => {});
+            connection.subscribe(TRADES, () => {});
+            connect();
+
+            first();
+            first();
+
+            expect(connection.getSubscriberCount(TRADES)).toBe(1);
+            expect(latestSocket().sent).not.toContain('unsub:T|AAPL');
+        });
+
+        it('closes the socket once nobody has been subscribed for the idle window', () => {
+            const unsubscribe = connection.subscribe(TRADES, () => {});
+            connect();
+
+            unsubscribe();
+            vi.advanceTimersByTime(1999);
+            expect(latestSocket().isClosed).toBe(false);
+
+            vi.advanceTimersByTime(1);
+            expect(latestSocket().isClosed).toBe(true);
+            expect(connection.getStatus()).toBe('idle');
+        });
+
+        it('keeps the socket for a subscriber that arrives within the idle window', () => {
+            const unsubscribe = connection.subscribe(TRADES, () => {});
+            connect();
+
+            unsubscribe();
+            vi.advanceTimersByTime(1500);
+            connection.subscribe(QUOTES, () => {});
+            vi.advanceTimersByTime(5000);
+
+            expect(sockets).toHaveLength(1);
+            expect(latestSocket().isClosed).toBe(false);
+            expect(latestSocket().sent).toEqual(['auth', 'sub:T|AAPL', 'unsub:T|AAPL', 'sub:Q|AAPL']);
+        });
+    });
+
+    describe('stale detection', () => {
+        const openWith = (overrides: Parameters<typeof createTestProtocol>[0]) => {
+            connection.close();
+            connection = new FeedConnection(createTestProtocol({ staleTimeoutMs: 8000, ...overrides }), {
+                createSocket: url => {
+                    const socket = new MockSocket(url);
+                    sockets.push(socket);
+                    return socket;
+                },
+                backoff: { initialDelayMs: 1000, maxDelayMs: 8000, jitter: 0 }
+            });
+            connection.events.on('status', status => statuses.push(status));
+            connection.subscribe(TRADES, () => {});
+            connect();
+        };
+
+        it('reconnects a feed that goes silent past the timeout', () => {
+            openWith({});
+
+            vi.advanceTimersByTime(8000);
+            expect(connection.getStatus()).toBe('connected');
+
+            vi.advanceTimersByTime(2000);
+            expect(statuses.map(({ status }) => status)).toContain('stale');
+            expect(sockets[0].isClosed).toBe(true);
+            expect(connection.getStatus()).toBe('reconnecting');
+        });
+
+        it('probes a quiet feed once and stays connected when it answers', () => {
+            openWith({ encodeProbe: subscriptions => subscriptions.map(({ channel, symbol }) => `probe:${channel}|${symbol}`) });
+
+            vi.advanceTimersByTime(6000);
+            expect(latestSocket().sent).toEqual(['auth', 'sub:T|AAPL', 'probe:T|AAPL']);
+
+            vi.advanceTimersByTime(2000);
+            expect(latestSocket().sent.filter(frame => frame.startsWith('probe:'))).toHaveLength(1);
+
+            latestSocket().receive([{ type: 'heartbeat' }]);
+            vi.advanceTimersByTime(6000);
+            expect(connection.getStatus()).toBe('connected');
+            expect(latestSocket().sent.filter(frame => frame.startsWith('probe:'))).toHaveLength(2);
+        });
+
+        it('reconnects when a probe goes unanswered', () => {
+            openWith({ encodeProbe: () => ['probe'] });
+
+            vi.advanceTimersByTime(10000);
+            expect(latestSocket().sent).toContain('probe');
+            expect(sockets[0].isClosed).toBe(true);
+            expect(connection.getStatus()).toBe('reconnecting');
+        });
+    });
+
+    describe('snapshot channels', () => {
+        beforeEach(() => {
+            connection.close();
+            connection = new FeedConnection(createTestProtocol({ snapshotChannels: ['book'] }), {
+                createSocket: url => {
+                    const socket = new MockSocket(url);
+                    sockets.push(socket);
+                    return socket;
+                }
+            });
+        });
+
+        it('resubscribes a snapshot stream for a late subscriber', () => {
+            const book = { channel: 'book', symbol: 'BTC-USD' };
+            connection.subscribe(book, () => {});
+            connect();
+
+            connection.subscribe(book, () => {});
+
+            expect(latestSocket().sent).toEqual(['auth', 'sub:book|BTC-USD', 'unsub:book|BTC-USD', 'sub:book|BTC-USD']);
+        });
+
+        it('resubscribes snapshot streams after a sequence gap', () => {
+            const resyncs: FeedEvents<string>['resync'][] = [];
+            connection.events.on('resync', event => resyncs.push(event));
+            connection.subscribe({ channel: 'book', symbol: 'BTC-USD' }, () => {});
+            connection.subscribe(TRADES, () => {});
+            connect();
+
+            latestSocket().receive([{ type: 'sequence', sequence: 1 }, { type: 'sequence', sequence: 2 }]);
+            expect(resyncs).toHaveLength(0);
+
+            latestSocket().receive([{ type: 'sequence', sequence: 4 }]);
+            expect(resyncs).toEqual([{
+                reason: 'Sequence gap: expected 3, got 4',
+                subscriptions: [{ channel: 'book', symbol: 'BTC-USD' }]
+            }]);
+        });
+    });
+});
@@ -0,0 +1,455 @@
+import { TypedEventBus } from './event-bus';
+import { SubscriptionRegistry, subscriptionKey } from './subscription-registry';
+import {
+    Feed,
+    FeedBackoffOptions,
+    FeedConnectionOptions,
+    FeedEvents,
+    FeedFrame,
+    FeedHandshake,
+    FeedProtocol,
+    FeedSocket,
+    FeedSocketFactory,
+    FeedStatus,
+    FeedSubscription
+} from './types';
+
+const DEFAULT_BACKOFF: FeedBackoffOptions = {
+    initialDelayMs: 1000,
+    maxDelayMs: 30000,
+    jitter: 0.5
+};
+
+const DEFAULT_IDLE_CLOSE_MS = 2000;
+
+// WebSocket.OPEN, spelled out so the module doesn't need the WebSocket global (Node, SSR)
+const SOCKET_OPEN = 1;
+
+const defaultSocketFactory: FeedSocketFactory = (url) => new WebSocket(url);
+
+/**
+ * Delay before reconnect attempt `attempt` (0-based): doubles from the initial delay up to the
+ * maximum, with the jittered fraction of it drawn at random.
+ */
+export const getBackoffDelay = (
+    attempt: number,
+    options: FeedBackoffOptions = DEFAULT_BACKOFF,
+    random: () => number = Math.random
+): number => {
+    const ceiling = Math.min(options.maxDelayMs, options.initialDelayMs * Math.pow(2, attempt));
+    const jitter = Math.min(1, Math.max(0, options.jitter));
+    return Math.round(ceiling * (1 - jitter) + ceiling * jitter * random());
+};
+
+/**
+ * Human-readable status for the connection badges on charts and widgets
+ */
+export const describeFeedStatus = ({ status, retryInMs }: FeedEvents<unknown>['status']): string => {
+    switch (status) {
+        case 'connecting':
+            return 'Connecting...';
+        case 'authenticating':
+            return 'Authenticating...';
+        case 'connected':
+            return 'Connected';
+        case 'reconnecting':
+            return `Reconnecting in ${Math.ceil((retryInMs ?? 0) / 1000)}s...`;
+        case 'stale':
+            return 'No data, reconnecting...';
+        case 'idle':
+        default:
+            return 'Disconnected';
+    }
+};
+
+/**
+ * One WebSocket shared by every subscriber to a feed. Subscriptions are reference counted per
+ * channel and symbol: the first subscriber subscribes upstream and the last one unsubscribes.
+ * Dropped connections are retried with jittered exponential backoff for as long as anyone is
+ * subscribed, and every live subscription is restored once the feed is ready again.
+ */
+export class FeedConnection<TMessage> implements Feed<TMessage> {
+    readonly events = new TypedEventBus<FeedEvents<TMessage>>();
+
+    private readonly createSocket: FeedSocketFactory;
+    private readonly backoff: FeedBackoffOptions;
+    private readonly idleCloseMs: number;
+
+    private socket: FeedSocket | null = null;
+    private status: FeedStatus = 'idle';
+    private isReady = false;
+    private attempt = 0;
+    private lastFrameAt = 0;
+    private probeSent = false;
+    private lastSequence: number | null = null;
+
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private idleTimer: ReturnType<typeof setTimeout> | null = null;
+    private staleTimer: ReturnType<typeof setInterval> | null = null;
+
+    private readonly registry: SubscriptionRegistry<TMessage>;
+    // Keys subscribed upstream on the current socket
+    private readonly upstream = new Set<string>();
+
+    constructor(
+        private readonly protocol: FeedProtocol<TMessage>,
+        options: FeedConnectionOptions = {}
+    ) {
+        this.registry = new SubscriptionRegistry(protocol.name);
+        this.createSocket = options.createSocket ?? defaultSocketFactory;
+        this.backoff = { ...DEFAULT_BACKOFF, ...options.backoff };
+        this.idleCloseMs = options.idleCloseMs ?? DEFAULT_IDLE_CLOSE_MS;
+    }
+
+    getStatus(): FeedStatus {
+        return this.status;
+    }
+
+    /** Number of subscribers to a channel and symbol */
+    getSubscriberCount(subscription: FeedSubscription): number {
+        return this.registry.count(subscription);
+    }
+
+    /**
+     * Receive messages for a channel and symbol. Returns an unsubscribe function; calling it more
+     * than once is harmless.
+     */
+    subscribe(subscription: FeedSubscription, handler: (message: TMessage) => void): () => void {
+        // A late subscriber to a snapshot stream missed its snapshot; everyone gets a fresh one
+        if (this.registry.count(subscription) > 0) {
+            this.resync(subscription, 'New subscriber');
+        }
+
+        const remove = this.registry.add(
+            subscription,
+            handler,
+            first => this.subscribeUpstream([first]),
+            last => {
+                if (this.upstream.delete(subscriptionKey(last))) {
+                    this.send(this.protocol.encodeUnsubscribe([last]));
+                }
+            }
+        );
+
+        this.clearIdleTimer();
+        if (!this.socket && !this.reconnectTimer) {
+            this.connect();
+        }
+
+        return () => {
+            remove();
+            if (this.registry.size === 0) {
+                this.scheduleIdleClose();
+            }
+        };
+    }
+
+    /**
+     * Drop the socket and connect again straight away, e.g. from a "Reconnect" button
+     */
+    reconnect(): void {
+        this.clearReconnectTimer();
+        this.closeSocket();
+        this.attempt = 0;
+
+        if (this.registry.size > 0) {
+            this.connect();
+        } else {
+            this.setStatus('idle');
+        }
+    }
+
+    resync(subscription: FeedSubscription, reason: string): void {
+        this.resyncUpstream([subscription], reason);
+    }
+
+    /**
+     * Close the socket and stop reconnecting. Subscriptions are kept and resume on the next connect.
+     */
+    close(): void {
+        this.clearReconnectTimer();
+        this.clearIdleTimer();
+        this.closeSocket();
+        this.attempt = 0;
+        this.setStatus('idle');
+    }
+
+    private connect() {
+        this.clearReconnectTimer();
+        this.setStatus('connecting');
+
+        let socket: FeedSocket;
+        try {
+            socket = this.createSocket(this.protocol.url);
+        } catch (err) {
+            console.error(`Error opening ${this.protocol.name} feed:`, err);
+            this.events.emit('error', { message: `WebSocket setup failed: ${err instanceof Error ? err.message : String(err)}` });
+            this.scheduleReconnect();
+            return;
+        }
+
+        this.socket = socket;
+        this.isReady = false;
+        this.lastSequence = null;
+        this.upstream.clear();
+
+        // Handlers ignore sockets that have since been closed or replaced
+        socket.onopen = () => {
+            if (this.socket !== socket) return;
+
+            this.lastFrameAt = Date.now();
+            let handshake: FeedHandshake | Promise<FeedHandshake>;
+            try {
+                handshake = this.protocol.handshake();
+            } catch (err) {
+                this.failHandshake(socket, err);
+                return;
+            }
+
+            if (handshake instanceof Promise) {
+                this.setStatus('authenticating');
+                handshake.then(
+                    result => this.sendHandshake(socket, result),
+                    err => this.failHandshake(socket, err)
+                );
+            } else {
+                this.sendHandshake(socket, handshake);
+            }
+        };
+
+        socket.onmessage = (event) => {
+            if (this.socket !== socket) return;
+            this.handleData(event.data);
+        };
+
+        socket.onerror = () => {
+            if (this.socket !== socket) return;
+            // onclose follows and schedules the reconnect
+            this.events.emit('error', { message: 'WebSocket connection error' });
+        };
+
+        socket.onclose = (event) => {
+            if (this.socket !== socket) return;
+
+            this.socket = null;
+            this.isReady = false;
+            this.upstream.clear();
+            this.clearStaleTimer();
+            this.events.emit('close', { code: event.code, reason: event.reason });
+
+            if (this.registry.size > 0) {
+                this.scheduleReconnect();
+            } else {
+                this.setStatus('idle');
+            }
+        };
+    }
+
+    private sendHandshake(socket: FeedSocket, { frames, awaitReady }: FeedHandshake) {
+        if (this.socket !== socket) return;
+
+        this.send(frames);
+        if (awaitReady) {
+            this.setStatus('authenticating');
+        } else {
+            this.handleReady();
+        }
+    }
+
+    // Without its handshake the socket is no use; drop it and retry with backoff
+    private failHandshake(socket: FeedSocket, err: unknown) {
+        if (this.socket !== socket) return;
+
+        console.error(`Error preparing ${this.protocol.name} handshake:`, err);
+        this.events.emit('error', { message: `Handshake failed: ${err instanceof Error ? err.message : String(err)}` });
+        this.closeSocket();
+        this.scheduleReconnect();
+    }
+
+    private handleReady() {
+        this.isReady = true;
+        this.attempt = 0;
+        this.setStatus('connected');
+
+        // Restore everything subscribed before the (re)connect
+        this.subscribeUpstream(this.registry.subscriptions());
+        this.startStaleTimer();
+    }
+
+    private handleData(data: unknown) {
+        this.lastFrameAt = Date.now();
+        this.probeSent = false;
+
+        let frames: FeedFrame<TMessage>[];
+        try {
+            frames = this.protocol.decode(String(data));
+        } catch (err) {
+            console.error(`Error decoding ${this.protocol.name} frame:`, err);
+            return;
+        }
+
+        for (const frame of frames) {
+            switch (frame.type) {
+                case 'ready':
+                    if (!this.isReady) {
+                        this.handleReady();
+                    }
+                    break;
+                case 'error':
+                    this.events.emit('error', { message: frame.message });
+                    break;
+                case 'message':
+                    this.dispatch(frame);
+                    break;
+                case 'sequence':
+                    this.checkSequence(frame.sequence);
+                    break;
+                case 'heartbeat':
+                default:
+                    break;
+            }
+        }
+    }
+
+    private dispatch({ channel, symbol, message }: Extract<FeedFrame<TMessage>, { type: 'message' }>) {
+        this.events.emit('message', { channel, symbol, message });
+        this.registry.dispatch(channel, symbol, message);
+    }
+
+    // Snapshot streams can't survive a dropped message, so a gap resubscribes all of them
+    private checkSequence(sequence: number) {
+        const expected = this.lastSequence === null ? null : this.lastSequence + 1;
+        this.lastSequence = sequence;
+        if (expected === null || sequence === expected) return;
+
+        this.resyncUpstream(this.registry.subscriptions(), `Sequence gap: expected ${expected}, got ${sequence}`);
+    }
+
+    private resyncUpstream(subscriptions: FeedSubscription[], reason: string) {
+        const snapshotChannels = this.protocol.snapshotChannels ?? [];
+        const stale = subscriptions.filter(subscription =>
+            snapshotChannels.includes(subscription.channel) && this.upstream.has(subscriptionKey(subscription))
+        );
+        if (stale.length === 0) return;
+
+        this.events.emit('resync', { reason, subscriptions: stale });
+        this.send(this.protocol.encodeUnsubscribe(stale));
+        this.send(this.protocol.encodeSubscribe(stale));
+    }
+
+    private subscribeUpstream(subscriptions: FeedSubscription[]) {
+        if (!this.isReady || subscriptions.length === 0) return;
+
+        this.send(this.protocol.encodeSubscribe(subscriptions));
+        subscriptions.forEach(subscription => this.upstream.add(subscriptionKey(subscription)));
+    }
+
+    private send(frames: string[]) {
+        const socket = this.socket;
+        if (!socket || socket.readyState !== SOCKET_OPEN) return;
+
+        for (const frame of frames) {
+            try {
+                socket.send(frame);
+            } catch (err) {
+                console.error(`Error sending to ${this.protocol.name} feed:`, err);
+            }
+        }
+    }
+
+    private scheduleReconnect() {
+        if (this.reconnectTimer) return;
+
+        const delay = getBackoffDelay(this.attempt, this.backoff);
+        this.attempt++;
+        this.setStatus('reconnecting', delay);
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (this.registry.size > 0) {
+                this.connect();
+            } else {
+                this.setStatus('idle');
+            }
+        }, delay);
+    }
+
+    // Feeds with heartbeats are never silent while healthy, so silence means a dead connection.
+    // Feeds without them are probed first, and only a probe that goes unanswered counts.
+    private startStaleTimer() {
+        const timeout = this.protocol.staleTimeoutMs;
+        this.clearStaleTimer();
+        this.probeSent = false;
+        if (!timeout) return;
+
+        this.staleTimer = setInterval(() => {
+            const silentFor = Date.now() - this.lastFrameAt;
+            if (silentFor > timeout) {
+                this.setStatus('stale');
+                this.closeSocket();
+                this.scheduleReconnect();
+            } else if (silentFor > timeout / 2 && this.protocol.encodeProbe && !this.probeSent) {
+                this.probeSent = true;
+                const live = this.registry.subscriptions().filter(subscription => this.upstream.has(subscriptionKey(subscription)));
+                this.send(this.protocol.encodeProbe(live));
+            }
+        }, Math.max(1000, timeout / 4));
+    }
+
+    private scheduleIdleClose() {
+        this.clearIdleTimer();
+        if (this.idleCloseMs <= 0) {
+            this.close();
+            return;
+        }
+
+        this.idleTimer = setTimeout(() => {
+            this.idleTimer = null;
+            if (this.registry.size === 0) {
+                this.close();
+            }
+        }, this.idleCloseMs);
+    }
+
+    private closeSocket() {
+        this.clearStaleTimer();
+        const socket = this.socket;
+        this.socket = null;
+        this.isReady = false;
+        this.upstream.clear();
+
+        if (socket) {
+            try {
+                socket.close();
+            } catch (err) {
+                console.error(`Error closing ${this.protocol.name} feed:`, err);
+            }
+        }
+    }
+
+    private setStatus(status: FeedStatus, retryInMs?: number) {
+        this.status = status;
+        this.events.emit('status', { status, attempt: this.attempt, retryInMs });
+    }
+
+    private clearReconnectTimer() {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+    }
+
+    private clearIdleTimer() {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = null;
+        }
+    }
+
+    private clearStaleTimer() {
+        if (this.staleTimer) {
+            clearInterval(this.staleTimer);
+            this.staleTimer = null;
+        }
+    }
+}
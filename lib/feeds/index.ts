@@ -0,0 +1,6 @@
+export * from './types';
+export * from './event-bus';
+export * from './subscription-registry';
+export * from './feed-connection';
+export * from './shared-feed';
+export * from './subscribe';
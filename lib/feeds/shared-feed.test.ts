@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FeedConnection } from './feed-connection';
+import { SharedFeed } from './shared-feed';
+import { FakeBroadcastChannel, FakeLockManager, MockSocket, createTestProtocol } from './testing';
+import { FeedSubscription } from './types';
+
+const TRADES: FeedSubscription = { channel: 'T', symbol: 'AAPL' };
+const QUOTES: FeedSubscription = { channel: 'Q', symbol: 'AAPL' };
+
+// Let tab messages and lock grants, which arrive on microtasks, settle
+const flush = async () => {
+    for (let i = 0; i < 20; i++) {
+        await Promise.resolve();
+    }
+};
+
+describe('SharedFeed', () => {
+    let locks: FakeLockManager;
+    let pagehide: () => void;
+
+    // A tab of the app, with the sockets its feed opens if it becomes the leader
+    const openTab = () => {
+        const sockets: MockSocket[] = [];
+        const feed = new SharedFeed<string>('test', () => new FeedConnection(
+            createTestProtocol({ handshake: () => ({ frames: [], awaitReady: false }) }),
+            {
+                createSocket: url => {
+                    const socket = new MockSocket(url);
+                    sockets.push(socket);
+                    return socket;
+                }
+            }
+        ));
+        return { feed, sockets, channel: FakeBroadcastChannel.lastCreated!, lock: locks.lastRequest!, pagehide };
+    };
+
+    // The tab goes away without a goodbye: its lock is released and its channel stops
+    const crashTab = (tab: ReturnType<typeof openTab>) => {
+        tab.channel.close();
+        locks.release(tab.lock);
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        FakeBroadcastChannel.reset();
+        locks = new FakeLockManager();
+        vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+        vi.stubGlobal('navigator', { locks });
+        vi.stubGlobal('window', {
+            addEventListener: (type: string, listener: () => void) => {
+                if (type === 'pagehide') pagehide = listener;
+            }
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+
+    it('opens one socket in the leader and relays its messages and status to the other tabs', async () => {
+        const leader = openTab();
+        const follower = openTab();
+        await flush();
+
+        const handler = vi.fn();
+        follower.feed.subscribe(TRADES, handler);
+        await flush();
+
+        expect(leader.sockets).toHaveLength(1);
+        expect(follower.sockets).toHaveLength(0);
+
+        leader.sockets[0].open();
+        expect(leader.sockets[0].sent).toEqual(['sub:T|AAPL']);
+
+        leader.sockets[0].receive([{ type: 'message', channel: 'T', symbol: 'AAPL', message: 'trade' }]);
+        await flush();
+
+        expect(handler).toHaveBeenCalledWith('trade');
+        expect(follower.feed.getStatus()).toBe('connected');
+    });
+
+    it('holds a stream upstream for as long as any tab subscribes to it', async () => {
+        const leader = openTab();
+        const follower = openTab();
+        await flush();
+
+        const leaderUnsubscribe = leader.feed.subscribe(TRADES, () => {});
+        const followerUnsubscribe = follower.feed.subscribe(TRADES, () => {});
+        await flush();
+        const socket = leader.sockets[0];
+        socket.open();
+        expect(socket.sent).toEqual(['sub:T|AAPL']);
+
+        followerUnsubscribe();
+        await flush();
+        expect(socket.sent).not.toContain('unsub:T|AAPL');
+
+        leaderUnsubscribe();
+        await flush();
+        expect(socket.sent).toContain('unsub:T|AAPL');
+    });
+
+    it('hands the socket to the next tab when the leader goes away, with every tab\'s subscriptions', async () => {
+        const leader = openTab();
+        const next = openTab();
+        const other = openTab();
+        await flush();
+
+        next.feed.subscribe(TRADES, () => {});
+        const handler = vi.fn();
+        other.feed.subscribe(QUOTES, handler);
+        await flush();
+        leader.sockets[0].open();
+
+        crashTab(leader);
+        await flush();
+
+        expect(next.sockets).toHaveLength(1);
+        expect(other.sockets).toHaveLength(0);
+
+        next.sockets[0].open();
+        expect(next.sockets[0].sent.slice().sort()).toEqual(['sub:Q|AAPL', 'sub:T|AAPL']);
+
+        next.sockets[0].receive([{ type: 'message', channel: 'Q', symbol: 'AAPL', message: 'quote' }]);
+        await flush();
+        expect(handler).toHaveBeenCalledWith('quote');
+    });
+
+    it('releases a closing tab\'s streams when it says goodbye', async () => {
+        const leader = openTab();
+        const follower = openTab();
+        await flush();
+
+        follower.feed.subscribe(TRADES, () => {});
+        await flush();
+        leader.sockets[0].open();
+
+        follower.pagehide();
+        await flush();
+
+        expect(leader.sockets[0].sent).toEqual(['sub:T|AAPL', 'unsub:T|AAPL']);
+    });
+
+    it('forgets a tab that stops renewing its lease', async () => {
+        const leader = openTab();
+        const follower = openTab();
+        await flush();
+
+        follower.feed.subscribe(TRADES, () => {});
+        await flush();
+        leader.sockets[0].open();
+
+        follower.channel.close();
+        vi.advanceTimersByTime(45000);
+        expect(leader.sockets[0].sent).not.toContain('unsub:T|AAPL');
+
+        vi.advanceTimersByTime(15000);
+        expect(leader.sockets[0].sent).toContain('unsub:T|AAPL');
+    });
+});
@@ -0,0 +1,305 @@
+import { TypedEventBus } from './event-bus';
+import { FeedConnection } from './feed-connection';
+import { SubscriptionRegistry, subscriptionKey } from './subscription-registry';
+import { Feed, FeedEvents, FeedStatus, FeedSubscription } from './types';
+
+// Followers re-announce their subscriptions this often; the leader forgets tabs it hasn't heard
+// from in the expiry window (a crashed tab never says goodbye)
+const LEASE_RENEW_MS = 15000;
+const LEASE_EXPIRY_MS = 45000;
+
+const CHANNEL_PREFIX = 'finance3d-feed';
+
+// Messages between tabs on a feed's BroadcastChannel
+type TabMessage<TMessage> =
+    // leader -> followers
+    | { type: 'leader'; tabId: string }
+    | { type: 'status'; payload: FeedEvents<TMessage>['status'] }
+    | { type: 'error'; payload: FeedEvents<TMessage>['error'] }
+    | { type: 'close'; payload: FeedEvents<TMessage>['close'] }
+    | { type: 'message'; payload: FeedEvents<TMessage>['message'] }
+    | { type: 'resync'; payload: FeedEvents<TMessage>['resync'] }
+    // followers -> leader
+    | { type: 'sync'; tabId: string; subscriptions: FeedSubscription[] }
+    | { type: 'subscribe'; tabId: string; subscription: FeedSubscription }
+    | { type: 'unsubscribe'; tabId: string; subscription: FeedSubscription }
+    | { type: 'bye'; tabId: string }
+    | { type: 'reconnect' }
+    | { type: 'request-resync'; subscription: FeedSubscription; reason: string };
+
+interface RemoteTab {
+    lastSeen: number;
+    subscriptions: Map<string, () => void>;
+}
+
+const noop = () => { };
+
+/**
+ * Can feeds be shared between tabs here? Needs BroadcastChannel and the Web Locks API.
+ */
+export const isTabSharingSupported = (): boolean =>
+    typeof window !== 'undefined' &&
+    typeof BroadcastChannel !== 'undefined' &&
+    typeof navigator !== 'undefined' &&
+    'locks' in navigator;
+
+/**
+ * A feed shared by every tab of the app. One tab, the leader, holds a Web Lock and owns the real
+ * FeedConnection; the rest forward their subscriptions to it and receive its messages and status
+ * over a BroadcastChannel. Locks are released when a tab closes or crashes, so the next tab in
+ * line takes over and the followers resend their subscriptions to it.
+ */
+export class SharedFeed<TMessage> implements Feed<TMessage> {
+    readonly events = new TypedEventBus<FeedEvents<TMessage>>();
+
+    private readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    private readonly registry: SubscriptionRegistry<TMessage>;
+    private readonly channel: BroadcastChannel;
+
+    private isLeader = false;
+    private status: FeedStatus = 'connecting';
+    private connection: FeedConnection<TMessage> | null = null;
+
+    // Leader only: this tab's subscriptions and every follower's, each held on the connection
+    private readonly upstream = new Map<string, () => void>();
+    private readonly remoteTabs = new Map<string, RemoteTab>();
+
+    constructor(
+        private readonly name: string,
+        private readonly createConnection: () => FeedConnection<TMessage>
+    ) {
+        this.registry = new SubscriptionRegistry(name);
+
+        this.channel = new BroadcastChannel(`${CHANNEL_PREFIX}:${name}`);
+        this.channel.onmessage = (event: MessageEvent<TabMessage<TMessage>>) => this.handleTabMessage(event.data);
+
+        // The lock is never released by us: the leader keeps it for the life of the tab
+        navigator.locks.request(`${CHANNEL_PREFIX}-leader:${name}`, () => {
+            this.becomeLeader();
+            return new Promise<void>(noop);
+        });
+
+        window.addEventListener('pagehide', () => this.post({ type: 'bye', tabId: this.tabId }));
+        setInterval(() => this.renewLease(), LEASE_RENEW_MS);
+
+        // An existing leader answers with its status
+        this.post({ type: 'sync', tabId: this.tabId, subscriptions: [] });
+    }
+
+    getStatus(): FeedStatus {
+        return this.status;
+    }
+
+    getSubscriberCount(subscription: FeedSubscription): number {
+        return this.registry.count(subscription);
+    }
+
+    subscribe(subscription: FeedSubscription, handler: (message: TMessage) => void): () => void {
+        // Other subscribers in this tab already hold the stream upstream; a snapshot stream needs a fresh snapshot
+        if (this.registry.count(subscription) > 0) {
+            this.resync(subscription, 'New subscriber');
+        }
+
+        return this.registry.add(
+            subscription,
+            handler,
+            first => {
+                if (this.isLeader) {
+                    this.holdUpstream(this.upstream, first);
+                } else {
+                    this.post({ type: 'subscribe', tabId: this.tabId, subscription: first });
+                }
+            },
+            last => {
+                if (this.isLeader) {
+                    this.releaseUpstream(this.upstream, last);
+                } else {
+                    this.post({ type: 'unsubscribe', tabId: this.tabId, subscription: last });
+                }
+            }
+        );
+    }
+
+    reconnect(): void {
+        if (this.connection) {
+            this.connection.reconnect();
+        } else {
+            this.post({ type: 'reconnect' });
+        }
+    }
+
+    resync(subscription: FeedSubscription, reason: string): void {
+        if (this.connection) {
+            this.connection.resync(subscription, reason);
+        } else {
+            this.post({ type: 'request-resync', subscription, reason });
+        }
+    }
+
+    private becomeLeader() {
+        this.isLeader = true;
+        const connection = this.createConnection();
+        this.connection = connection;
+
+        // Publish to this tab's subscribers and relay to the others
+        connection.events.on('status', payload => {
+            this.status = payload.status;
+            this.events.emit('status', payload);
+            this.post({ type: 'status', payload });
+        });
+        connection.events.on('error', payload => {
+            this.events.emit('error', payload);
+            this.post({ type: 'error', payload });
+        });
+        connection.events.on('close', payload => {
+            this.events.emit('close', payload);
+            this.post({ type: 'close', payload });
+        });
+        connection.events.on('resync', payload => {
+            this.events.emit('resync', payload);
+            this.post({ type: 'resync', payload });
+        });
+        connection.events.on('message', payload => {
+            this.registry.dispatch(payload.channel, payload.symbol, payload.message);
+            this.events.emit('message', payload);
+            this.post({ type: 'message', payload });
+        });
+
+        this.registry.subscriptions().forEach(subscription => this.holdUpstream(this.upstream, subscription));
+        this.status = connection.getStatus();
+        this.events.emit('status', { status: this.status, attempt: 0 });
+
+        // Followers resend their subscriptions in reply
+        this.post({ type: 'leader', tabId: this.tabId });
+    }
+
+    private handleTabMessage(data: TabMessage<TMessage>) {
+        if (this.isLeader) {
+            this.handleFollowerMessage(data);
+            return;
+        }
+
+        switch (data.type) {
+            case 'leader':
+                this.post({ type: 'sync', tabId: this.tabId, subscriptions: this.registry.subscriptions() });
+                break;
+            case 'status':
+                this.status = data.payload.status;
+                this.events.emit('status', data.payload);
+                break;
+            case 'error':
+                this.events.emit('error', data.payload);
+                break;
+            case 'close':
+                this.events.emit('close', data.payload);
+                break;
+            case 'resync':
+                this.events.emit('resync', data.payload);
+                break;
+            case 'message':
+                this.registry.dispatch(data.payload.channel, data.payload.symbol, data.payload.message);
+                this.events.emit('message', data.payload);
+                break;
+            default:
+                break;
+        }
+    }
+
+    private handleFollowerMessage(data: TabMessage<TMessage>) {
+        switch (data.type) {
+            case 'sync': {
+                // Replace the tab's subscriptions with the announced set
+                const tab = this.getRemoteTab(data.tabId);
+                const announced = new Set(data.subscriptions.map(subscriptionKey));
+                for (const [key, release] of Array.from(tab.subscriptions)) {
+                    if (!announced.has(key)) {
+                        release();
+                        tab.subscriptions.delete(key);
+                    }
+                }
+                data.subscriptions.forEach(subscription => this.holdUpstream(tab.subscriptions, subscription));
+
+                this.post({ type: 'status', payload: { status: this.status, attempt: 0 } });
+                break;
+            }
+            case 'subscribe':
+                this.holdUpstream(this.getRemoteTab(data.tabId).subscriptions, data.subscription);
+                break;
+            case 'unsubscribe':
+                this.releaseUpstream(this.getRemoteTab(data.tabId).subscriptions, data.subscription);
+                break;
+            case 'bye':
+                this.dropRemoteTab(data.tabId);
+                break;
+            case 'reconnect':
+                this.connection?.reconnect();
+                break;
+            case 'request-resync':
+                this.connection?.resync(data.subscription, data.reason);
+                break;
+            default:
+                break;
+        }
+    }
+
+    private getRemoteTab(tabId: string): RemoteTab {
+        let tab = this.remoteTabs.get(tabId);
+        if (!tab) {
+            tab = { lastSeen: 0, subscriptions: new Map() };
+            this.remoteTabs.set(tabId, tab);
+        }
+        tab.lastSeen = Date.now();
+        return tab;
+    }
+
+    private dropRemoteTab(tabId: string) {
+        this.remoteTabs.get(tabId)?.subscriptions.forEach(release => release());
+        this.remoteTabs.delete(tabId);
+    }
+
+    // Messages are delivered through the connection's message event, so the handler itself is a no-op
+    private holdUpstream(held: Map<string, () => void>, subscription: FeedSubscription) {
+        const key = subscriptionKey(subscription);
+        if (this.connection && !held.has(key)) {
+            held.set(key, this.connection.subscribe(subscription, noop));
+        }
+    }
+
+    private releaseUpstream(held: Map<string, () => void>, subscription: FeedSubscription) {
+        const key = subscriptionKey(subscription);
+        held.get(key)?.();
+        held.delete(key);
+    }
+
+    private renewLease() {
+        if (!this.isLeader) {
+            this.post({ type: 'sync', tabId: this.tabId, subscriptions: this.registry.subscriptions() });
+            return;
+        }
+
+        const expiredBefore = Date.now() - LEASE_EXPIRY_MS;
+        for (const [tabId, tab] of Array.from(this.remoteTabs)) {
+            if (tab.lastSeen < expiredBefore) {
+                this.dropRemoteTab(tabId);
+            }
+        }
+    }
+
+    private post(message: TabMessage<TMessage>) {
+        try {
+            this.channel.postMessage(message);
+        } catch (err) {
+            console.error(`Error relaying ${this.name} feed to other tabs:`, err);
+        }
+    }
+}
+
+/**
+ * Share the connection across tabs where the browser allows it, otherwise open it in this tab
+ */
+export const createTabSharedFeed = <TMessage>(
+    name: string,
+    createConnection: () => FeedConnection<TMessage>
+): Feed<TMessage> => {
+    return isTabSharingSupported() ? new SharedFeed(name, createConnection) : createConnection();
+};
@@ -0,0 +1,41 @@
+import { describeFeedStatus } from './feed-connection';
+import { Feed, FeedSubscription } from './types';
+
+export interface FeedStatusHandlers {
+    onStatus?: (status: string) => void;
+    onError?: (error: string | null) => void;
+}
+
+/**
+ * Subscribe one handler to several streams on a connection and report the connection's status
+ * and errors as display strings. The current status is reported straight away. Returns a single
+ * unsubscribe function for all of it.
+ */
+export const subscribeToFeed = <TMessage>(
+    connection: Feed<TMessage>,
+    subscriptions: FeedSubscription[],
+    handler: (message: TMessage) => void,
+    { onStatus, onError }: FeedStatusHandlers = {}
+): (() => void) => {
+    const cleanups: Array<() => void> = [];
+
+    if (onStatus || onError) {
+        cleanups.push(connection.events.on('status', event => {
+            onStatus?.(describeFeedStatus(event));
+            // A (re)established connection clears the last error
+            if (event.status === 'connected') {
+                onError?.(null);
+            }
+        }));
+    }
+    if (onError) {
+        cleanups.push(connection.events.on('error', ({ message }) => onError(message)));
+    }
+
+    onError?.(null);
+    cleanups.push(...subscriptions.map(subscription => connection.subscribe(subscription, handler)));
+
+    onStatus?.(describeFeedStatus({ status: connection.getStatus(), attempt: 0 }));
+
+    return () => cleanups.forEach(cleanup => cleanup());
+};
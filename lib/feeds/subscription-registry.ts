@@ -0,0 +1,92 @@
+import { FeedSubscription } from './types';
+
+interface Listener<TMessage> {
+    handler: (message: TMessage) => void;
+}
+
+interface SubscriptionEntry<TMessage> {
+    subscription: FeedSubscription;
+    listeners: Set<Listener<TMessage>>;
+}
+
+export const subscriptionKey = ({ channel, symbol }: FeedSubscription): string => `${channel}|${symbol}`;
+
+/**
+ * Reference-counted handlers per channel and symbol, with "*" matching every symbol on a channel
+ */
+export class SubscriptionRegistry<TMessage> {
+    private readonly entries = new Map<string, SubscriptionEntry<TMessage>>();
+
+    constructor(private readonly name: string) {}
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    subscriptions(): FeedSubscription[] {
+        return Array.from(this.entries.values(), entry => entry.subscription);
+    }
+
+    count(subscription: FeedSubscription): number {
+        return this.entries.get(subscriptionKey(subscription))?.listeners.size ?? 0;
+    }
+
+    /**
+     * Add a handler. `onFirst` runs when this is the first handler for the stream and `onLast` when
+     * the returned remove function takes away the last one; removing twice is harmless.
+     */
+    add(
+        subscription: FeedSubscription,
+        handler: (message: TMessage) => void,
+        onFirst: (subscription: FeedSubscription) => void,
+        onLast: (subscription: FeedSubscription) => void
+    ): () => void {
+        const key = subscriptionKey(subscription);
+        let entry = this.entries.get(key);
+        const isFirst = !entry;
+        if (!entry) {
+            entry = { subscription: { ...subscription }, listeners: new Set() };
+            this.entries.set(key, entry);
+        }
+
+        // Each call gets its own listener, so the same handler can hold two references
+        const listener: Listener<TMessage> = { handler };
+        entry.listeners.add(listener);
+        if (isFirst) {
+            onFirst(entry.subscription);
+        }
+
+        const added = entry;
+        let isAdded = true;
+        return () => {
+            if (!isAdded) return;
+            isAdded = false;
+
+            added.listeners.delete(listener);
+            if (added.listeners.size === 0 && this.entries.get(key) === added) {
+                this.entries.delete(key);
+                onLast(added.subscription);
+            }
+        };
+    }
+
+    dispatch(channel: string, symbol: string, message: TMessage) {
+        const keys = [subscriptionKey({ channel, symbol })];
+        if (symbol !== '*') {
+            keys.push(subscriptionKey({ channel, symbol: '*' }));
+        }
+
+        for (const key of keys) {
+            const entry = this.entries.get(key);
+            if (!entry) continue;
+
+            for (const listener of Array.from(entry.listeners)) {
+                try {
+                    listener.handler(message);
+                } catch (err) {
+                    console.error(`Error in ${this.name} ${channel} handler:`, err);
+                }
+            }
+        }
+    }
+}
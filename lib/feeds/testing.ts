@@ -0,0 +1,136 @@
+import { FeedFrame, FeedProtocol, FeedSocket } from './types';
+
+// Test doubles for the feed layer, shared by its tests
+
+// Stands in for a browser WebSocket; the test decides when it opens, drops or receives data
+export class MockSocket implements FeedSocket {
+    readyState = 0;
+    readonly sent: string[] = [];
+    isClosed = false;
+
+    onopen: FeedSocket['onopen'] = null;
+    onclose: FeedSocket['onclose'] = null;
+    onerror: FeedSocket['onerror'] = null;
+    onmessage: FeedSocket['onmessage'] = null;
+
+    constructor(readonly url: string) {}
+
+    send(frame: string) {
+        this.sent.push(frame);
+    }
+
+    close() {
+        this.isClosed = true;
+        this.readyState = 3;
+    }
+
+    open() {
+        this.readyState = 1;
+        this.onopen?.call(this as unknown as WebSocket, new Event('open'));
+    }
+
+    receive(frames: FeedFrame<string>[]) {
+        this.onmessage?.call(this as unknown as WebSocket, { data: JSON.stringify(frames) } as MessageEvent);
+    }
+
+    drop(code = 1006) {
+        this.readyState = 3;
+        this.onclose?.call(this as unknown as WebSocket, { code, reason: '' } as CloseEvent);
+    }
+}
+
+// Frames are JSON arrays of FeedFrames; (un)subscribe frames are "sub:channel|symbol"
+export const createTestProtocol = (overrides: Partial<FeedProtocol<string>> = {}): FeedProtocol<string> => ({
+    name: 'test',
+    url: 'wss://feed.test',
+    handshake: () => ({ frames: ['auth'], awaitReady: true }),
+    decode: data => JSON.parse(data),
+    encodeSubscribe: subscriptions => subscriptions.map(({ channel, symbol }) => `sub:${channel}|${symbol}`),
+    encodeUnsubscribe: subscriptions => subscriptions.map(({ channel, symbol }) => `unsub:${channel}|${symbol}`),
+    ...overrides
+});
+
+/**
+ * In-memory BroadcastChannel: a message reaches every other open channel of the same name on the
+ * next microtask, like tabs of one origin. Closed channels neither send nor receive.
+ */
+export class FakeBroadcastChannel {
+    private static readonly open = new Set<FakeBroadcastChannel>();
+    static lastCreated: FakeBroadcastChannel | null = null;
+
+    onmessage: ((event: MessageEvent) => void) | null = null;
+
+    constructor(readonly name: string) {
+        FakeBroadcastChannel.open.add(this);
+        FakeBroadcastChannel.lastCreated = this;
+    }
+
+    static reset() {
+        FakeBroadcastChannel.open.clear();
+        FakeBroadcastChannel.lastCreated = null;
+    }
+
+    postMessage(message: unknown) {
+        if (!FakeBroadcastChannel.open.has(this)) return;
+
+        const data = structuredClone(message);
+        FakeBroadcastChannel.open.forEach(channel => {
+            if (channel === this || channel.name !== this.name) return;
+            queueMicrotask(() => {
+                if (FakeBroadcastChannel.open.has(channel)) {
+                    channel.onmessage?.({ data } as MessageEvent);
+                }
+            });
+        });
+    }
+
+    close() {
+        FakeBroadcastChannel.open.delete(this);
+    }
+}
+
+interface LockRequest {
+    name: string;
+    callback: () => unknown;
+}
+
+/**
+ * Exclusive Web Locks: each name is granted to one request at a time, in request order, and
+ * passes to the next when the holder is released (its tab closing)
+ */
+export class FakeLockManager {
+    private readonly holders = new Map<string, LockRequest>();
+    private readonly waiting: LockRequest[] = [];
+    lastRequest: LockRequest | null = null;
+
+    request(name: string, callback: () => unknown): Promise<void> {
+        const request = { name, callback };
+        this.lastRequest = request;
+        if (this.holders.has(name)) {
+            this.waiting.push(request);
+        } else {
+            this.grant(request);
+        }
+        return new Promise<void>(() => {});
+    }
+
+    release(request: LockRequest) {
+        const queued = this.waiting.indexOf(request);
+        if (queued >= 0) {
+            this.waiting.splice(queued, 1);
+            return;
+        }
+        if (this.holders.get(request.name) !== request) return;
+
+        this.holders.delete(request.name);
+        const next = this.waiting.findIndex(candidate => candidate.name === request.name);
+        if (next >= 0) {
+            this.grant(this.waiting.splice(next, 1)[0]);
+        }
+    }
+
+    private grant(request: LockRequest) {
+        this.holders.set(request.name, request);
+        queueMicrotask(() => request.callback());
+    }
+}
@@ -0,0 +1,112 @@
+import { TypedEventBus } from './event-bus';
+
+// Shared types for streaming feeds. A feed is one WebSocket endpoint multiplexed across every
+// subscriber, in this tab or (through SharedFeed) every tab; the vendor-specific framing lives in a FeedProtocol.
+
+// The slice of the browser WebSocket the connection uses. Anything with this shape works,
+// e.g. the `ws` package's client when running against a local mock server in Node.
+export type FeedSocket = Pick<WebSocket, 'readyState' | 'send' | 'close' | 'onopen' | 'onclose' | 'onerror' | 'onmessage'>;
+
+export type FeedSocketFactory = (url: string) => FeedSocket;
+
+export type FeedStatus =
+    | 'idle'            // no subscribers, no socket
+    | 'connecting'      // socket opening
+    | 'authenticating'  // open, waiting for the feed to accept us
+    | 'connected'       // subscriptions are live
+    | 'reconnecting'    // waiting out the backoff before the next attempt
+    | 'stale';          // no traffic within the protocol's heartbeat window
+
+// A stream within a feed, e.g. Polygon's "XT" channel for "BTC-USD". "*" subscribes to every symbol.
+export interface FeedSubscription {
+    channel: string;
+    symbol: string;
+}
+
+// What a decoded frame means to the connection
+export type FeedFrame<TMessage> =
+    | { type: 'ready' }                                 // authenticated / accepting subscriptions
+    | { type: 'error'; message: string }
+    | { type: 'heartbeat' }                             // proof of life, no payload
+    | { type: 'sequence'; sequence: number }            // connection-wide message counter, checked for gaps
+    | { type: 'message'; channel: string; symbol: string; message: TMessage };
+
+export interface FeedHandshake {
+    frames: string[];
+    awaitReady: boolean;
+}
+
+/**
+ * Vendor framing for a feed: where to connect, how to authenticate and how (un)subscribe and data
+ * frames are encoded. Protocols are pure, so they can be exercised without a socket.
+ */
+export interface FeedProtocol<TMessage> {
+    readonly name: string;
+    readonly url: string;
+
+    /**
+     * Frames to send once the socket opens (e.g. auth). With no auth step the feed is ready on open.
+     * May resolve later, e.g. after fetching a credential; a rejection drops the socket and retries.
+     */
+    handshake(): FeedHandshake | Promise<FeedHandshake>;
+    decode(data: string): FeedFrame<TMessage>[];
+    encodeSubscribe(subscriptions: FeedSubscription[]): string[];
+    encodeUnsubscribe(subscriptions: FeedSubscription[]): string[];
+
+    /**
+     * Silence longer than this means the connection is dead. Set for feeds that send heartbeats, or
+     * that can be probed for a reply with `encodeProbe`.
+     */
+    readonly staleTimeoutMs?: number;
+
+    /**
+     * Frames the feed always answers, sent once the connection has been silent for half the stale
+     * timeout, so quiet streams aren't mistaken for a dead socket. Gets the live subscriptions.
+     */
+    encodeProbe?(subscriptions: FeedSubscription[]): string[];
+
+    /**
+     * Channels that open with a snapshot followed by incremental updates (order books). They are
+     * resubscribed for a fresh snapshot when a late subscriber joins or a sequence gap is seen.
+     */
+    readonly snapshotChannels?: string[];
+}
+
+export interface FeedBackoffOptions {
+    initialDelayMs: number;
+    maxDelayMs: number;
+    // Fraction of each delay that is randomized, so tabs dropped together don't reconnect in lockstep
+    jitter: number;
+}
+
+export interface FeedConnectionOptions {
+    createSocket?: FeedSocketFactory;
+    backoff?: Partial<FeedBackoffOptions>;
+    // Keep the socket open this long after the last unsubscribe, so remounts and ticker switches reuse it
+    idleCloseMs?: number;
+}
+
+// Events published on a connection's bus
+export interface FeedEvents<TMessage> {
+    status: { status: FeedStatus; attempt: number; retryInMs?: number };
+    message: FeedSubscription & { message: TMessage };
+    error: { message: string };
+    close: { code: number; reason: string };
+    // Snapshot streams are being resubscribed; updates until the next snapshot can't be trusted
+    resync: { reason: string; subscriptions: FeedSubscription[] };
+}
+
+/**
+ * What subscribers see of a feed, whether this tab owns the socket (FeedConnection) or another
+ * tab does and relays it (SharedFeed)
+ */
+export interface Feed<TMessage> {
+    readonly events: TypedEventBus<FeedEvents<TMessage>>;
+    getStatus(): FeedStatus;
+    getSubscriberCount(subscription: FeedSubscription): number;
+    /** Returns an unsubscribe function */
+    subscribe(subscription: FeedSubscription, handler: (message: TMessage) => void): () => void;
+    reconnect(): void;
+    /** Ask for a fresh snapshot of a snapshot channel stream; other streams are left alone */
+    resync(subscription: FeedSubscription, reason: string): void;
+}
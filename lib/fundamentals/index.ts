@@ -0,0 +1,3 @@
+export * from './types';
+export * from './statements';
+export * from './ratios';
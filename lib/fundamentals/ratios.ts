@@ -0,0 +1,93 @@
+import { getLineValue } from './statements';
+import { EpsBasis, FundamentalPeriod, PeriodRatios, RatioDefinition, Valuation } from './types';
+
+export const RATIO_DEFINITIONS: RatioDefinition[] = [
+    { key: 'grossMargin', label: 'Gross margin', format: 'percent', description: 'Gross profit ÷ revenue' },
+    { key: 'operatingMargin', label: 'Operating margin', format: 'percent', description: 'Operating income ÷ revenue' },
+    { key: 'netMargin', label: 'Net margin', format: 'percent', description: 'Net income ÷ revenue' },
+    { key: 'operatingCashFlowMargin', label: 'Operating cash flow margin', format: 'percent', description: 'Operating cash flow ÷ revenue' },
+    { key: 'revenueGrowth', label: 'Revenue growth (YoY)', format: 'percent', description: 'Change in revenue from the same period a year earlier' },
+    { key: 'epsGrowth', label: 'EPS growth (YoY)', format: 'percent', description: 'Change in diluted EPS from the same period a year earlier' },
+    { key: 'liabilitiesToEquity', label: 'Liabilities / equity', format: 'multiple', description: 'Total liabilities ÷ shareholders\' equity' },
+    { key: 'currentRatio', label: 'Current ratio', format: 'multiple', description: 'Current assets ÷ current liabilities' },
+    { key: 'returnOnEquity', label: 'Return on equity', format: 'percent', description: 'Net income ÷ shareholders\' equity, annualised for quarters' }
+];
+
+// Quarters in a trailing twelve months
+const TTM_QUARTERS = 4;
+
+const ratio = (numerator: number | null, denominator: number | null): number | null =>
+    numerator === null || denominator === null || denominator === 0 ? null : numerator / denominator;
+
+// Growth against a base that may be negative (a loss shrinking is still growth)
+const growth = (current: number | null, previous: number | null): number | null =>
+    current === null || previous === null || previous === 0 ? null : (current - previous) / Math.abs(previous);
+
+/**
+ * The same fiscal period a year before `period`, if it was loaded
+ */
+export const findPriorYearPeriod = (periods: FundamentalPeriod[], period: FundamentalPeriod): FundamentalPeriod | undefined =>
+    periods.find(candidate =>
+        candidate.fiscalPeriod === period.fiscalPeriod && candidate.fiscalYear === period.fiscalYear - 1);
+
+export const computeRatios = (periods: FundamentalPeriod[], period: FundamentalPeriod): PeriodRatios => {
+    const revenue = getLineValue(period, 'income', 'revenue');
+    const costOfRevenue = getLineValue(period, 'income', 'costOfRevenue');
+    const grossProfit = getLineValue(period, 'income', 'grossProfit')
+        ?? (revenue !== null && costOfRevenue !== null ? revenue - costOfRevenue : null);
+    const netIncome = getLineValue(period, 'income', 'netIncome');
+    const equity = getLineValue(period, 'balance', 'equity');
+    const prior = findPriorYearPeriod(periods, period);
+    const periodsPerYear = period.timeframe === 'quarterly' ? 4 : 1;
+
+    return {
+        grossMargin: ratio(grossProfit, revenue),
+        operatingMargin: ratio(getLineValue(period, 'income', 'operatingIncome'), revenue),
+        netMargin: ratio(netIncome, revenue),
+        operatingCashFlowMargin: ratio(getLineValue(period, 'cashFlow', 'operatingCashFlow'), revenue),
+        revenueGrowth: prior ? growth(revenue, getLineValue(prior, 'income', 'revenue')) : null,
+        epsGrowth: prior ? growth(getLineValue(period, 'income', 'dilutedEps'), getLineValue(prior, 'income', 'dilutedEps')) : null,
+        liabilitiesToEquity: ratio(getLineValue(period, 'balance', 'totalLiabilities'), equity),
+        currentRatio: ratio(getLineValue(period, 'balance', 'currentAssets'), getLineValue(period, 'balance', 'currentLiabilities')),
+        returnOnEquity: equity !== null && equity > 0 && netIncome !== null ? (netIncome * periodsPerYear) / equity : null
+    };
+};
+
+/**
+ * Trailing EPS and P/E at `price`: the latest four quarters summed, or the latest fiscal year.
+ * Diluted EPS unless a period only reports basic, in which case every period uses basic.
+ * Null when the quarters don't run back to back, an EPS is missing, or earnings aren't positive.
+ */
+export const computeValuation = (periods: FundamentalPeriod[], price: number | null): Valuation => {
+    const empty: Valuation = { trailingEps: null, epsBasis: null, peRatio: null, trailingLabel: null };
+    if (periods.length === 0) return empty;
+
+    const trailing = periods[0].timeframe === 'quarterly' ? periods.slice(0, TTM_QUARTERS) : periods.slice(0, 1);
+    if (periods[0].timeframe === 'quarterly') {
+        if (trailing.length < TTM_QUARTERS) return empty;
+        // Each quarter should start where the next-newest ended (allowing a few days for 52/53-week years)
+        const isContiguous = trailing.every((period, index) => {
+            const older = trailing[index + 1];
+            if (!older) return true;
+            if (!period.startDate || !older.endDate) return false;
+            return Math.abs(Date.parse(period.startDate) - Date.parse(older.endDate)) <= 7 * 24 * 60 * 60 * 1000;
+        });
+        if (!isContiguous) return empty;
+    }
+
+    const epsFor = (basis: EpsBasis) =>
+        trailing.map(period => getLineValue(period, 'income', basis === 'diluted' ? 'dilutedEps' : 'basicEps'));
+    const diluted = epsFor('diluted');
+    const epsBasis: EpsBasis = diluted.every(value => value !== null) ? 'diluted' : 'basic';
+    const eps = epsBasis === 'diluted' ? diluted : epsFor('basic');
+    if (eps.some(value => value === null)) return empty;
+
+    const trailingEps = (eps as number[]).reduce((sum, value) => sum + value, 0);
+    const oldest = trailing[trailing.length - 1];
+    return {
+        trailingEps,
+        epsBasis,
+        peRatio: price !== null && price > 0 && trailingEps > 0 ? price / trailingEps : null,
+        trailingLabel: trailing.length > 1 ? `${oldest.label} – ${trailing[0].label}` : trailing[0].label
+    };
+};
@@ -0,0 +1,89 @@
+import { FinancialReport, FinancialStatement } from '@/lib/market-data';
+import { FundamentalPeriod, StatementKind, StatementLine } from './types';
+
+export const STATEMENT_LABELS: Record<StatementKind, string> = {
+    income: 'Income Statement',
+    balance: 'Balance Sheet',
+    cashFlow: 'Cash Flow'
+};
+
+export const STATEMENT_LINES: Record<StatementKind, StatementLine[]> = {
+    income: [
+        { id: 'revenue', label: 'Revenue', keys: ['revenues'], format: 'currency', isTotal: true },
+        { id: 'costOfRevenue', label: 'Cost of revenue', keys: ['cost_of_revenue'], format: 'currency' },
+        { id: 'grossProfit', label: 'Gross profit', keys: ['gross_profit'], format: 'currency', isTotal: true },
+        { id: 'researchAndDevelopment', label: 'Research & development', keys: ['research_and_development'], format: 'currency' },
+        { id: 'sellingGeneralAdmin', label: 'SG&A', keys: ['selling_general_and_administrative_expenses'], format: 'currency' },
+        { id: 'operatingExpenses', label: 'Operating expenses', keys: ['operating_expenses'], format: 'currency' },
+        { id: 'operatingIncome', label: 'Operating income', keys: ['operating_income_loss'], format: 'currency', isTotal: true },
+        { id: 'pretaxIncome', label: 'Pre-tax income', keys: ['income_loss_from_continuing_operations_before_tax'], format: 'currency' },
+        { id: 'incomeTax', label: 'Income tax', keys: ['income_tax_expense_benefit'], format: 'currency' },
+        { id: 'netIncome', label: 'Net income', keys: ['net_income_loss_attributable_to_parent', 'net_income_loss'], format: 'currency', isTotal: true },
+        { id: 'basicEps', label: 'EPS (basic)', keys: ['basic_earnings_per_share'], format: 'perShare' },
+        { id: 'dilutedEps', label: 'EPS (diluted)', keys: ['diluted_earnings_per_share'], format: 'perShare' }
+    ],
+    balance: [
+        { id: 'currentAssets', label: 'Current assets', keys: ['current_assets'], format: 'currency' },
+        { id: 'inventory', label: 'Inventory', keys: ['inventory'], format: 'currency' },
+        { id: 'fixedAssets', label: 'Fixed assets', keys: ['fixed_assets'], format: 'currency' },
+        { id: 'noncurrentAssets', label: 'Non-current assets', keys: ['noncurrent_assets'], format: 'currency' },
+        { id: 'totalAssets', label: 'Total assets', keys: ['assets'], format: 'currency', isTotal: true },
+        { id: 'currentLiabilities', label: 'Current liabilities', keys: ['current_liabilities'], format: 'currency' },
+        { id: 'longTermDebt', label: 'Long-term debt', keys: ['long_term_debt'], format: 'currency' },
+        { id: 'noncurrentLiabilities', label: 'Non-current liabilities', keys: ['noncurrent_liabilities'], format: 'currency' },
+        { id: 'totalLiabilities', label: 'Total liabilities', keys: ['liabilities'], format: 'currency', isTotal: true },
+        { id: 'equity', label: 'Shareholders\' equity', keys: ['equity_attributable_to_parent', 'equity'], format: 'currency', isTotal: true }
+    ],
+    cashFlow: [
+        { id: 'operatingCashFlow', label: 'Operating cash flow', keys: ['net_cash_flow_from_operating_activities'], format: 'currency', isTotal: true },
+        { id: 'investingCashFlow', label: 'Investing cash flow', keys: ['net_cash_flow_from_investing_activities'], format: 'currency' },
+        { id: 'financingCashFlow', label: 'Financing cash flow', keys: ['net_cash_flow_from_financing_activities'], format: 'currency' },
+        { id: 'netCashFlow', label: 'Net change in cash', keys: ['net_cash_flow'], format: 'currency', isTotal: true }
+    ]
+};
+
+/**
+ * The first of `keys` the statement reports, or null
+ */
+export const getStatementValue = (statement: FinancialStatement, keys: string[]): number | null => {
+    for (const key of keys) {
+        const value = statement[key]?.value;
+        if (typeof value === 'number' && Number.isFinite(value)) {
+            return value;
+        }
+    }
+    return null;
+};
+
+export const getLineValue = (period: FundamentalPeriod, kind: StatementKind, lineId: string): number | null => {
+    const line = STATEMENT_LINES[kind].find(candidate => candidate.id === lineId);
+    return line ? getStatementValue(period.statements[kind], line.keys) : null;
+};
+
+const toPeriodLabel = (report: FinancialReport): string => {
+    const period = report.fiscal_period || (report.timeframe === 'annual' ? 'FY' : '');
+    const year = report.fiscal_year || report.end_date?.slice(0, 4) || '';
+    return `${period} ${year}`.trim();
+};
+
+/**
+ * Provider reports as periods, newest first. Reports without an end date or any statements are dropped.
+ */
+export const toFundamentalPeriods = (reports: FinancialReport[]): FundamentalPeriod[] =>
+    reports
+        .filter(report => report.end_date && report.financials)
+        .map(report => ({
+            label: toPeriodLabel(report),
+            fiscalPeriod: report.fiscal_period || 'FY',
+            fiscalYear: Number(report.fiscal_year) || Number(report.end_date!.slice(0, 4)),
+            timeframe: report.timeframe ?? 'quarterly',
+            startDate: report.start_date,
+            endDate: report.end_date,
+            filingDate: report.filing_date,
+            statements: {
+                income: report.financials.income_statement ?? {},
+                balance: report.financials.balance_sheet ?? {},
+                cashFlow: report.financials.cash_flow_statement ?? {}
+            }
+        }))
+        .sort((a, b) => (b.endDate ?? '').localeCompare(a.endDate ?? ''));
@@ -0,0 +1,60 @@
+import type { FinancialStatement, FinancialsTimeframe } from '@/lib/market-data';
+
+export type StatementKind = 'income' | 'balance' | 'cashFlow';
+
+export type ValueFormat = 'currency' | 'perShare' | 'percent' | 'multiple';
+
+// A row of a statement table; `keys` are tried in order since filers label some items differently
+export interface StatementLine {
+    id: string;
+    label: string;
+    keys: string[];
+    format: ValueFormat;
+    // Totals and subtotals are set in bold
+    isTotal?: boolean;
+}
+
+// One fiscal period's statements, reshaped from a provider report
+export interface FundamentalPeriod {
+    label: string;          // "Q2 2024", "FY 2023"
+    fiscalPeriod: string;   // Q1-Q4, FY
+    fiscalYear: number;
+    timeframe: FinancialsTimeframe;
+    startDate?: string;     // YYYY-MM-DD
+    endDate?: string;       // YYYY-MM-DD
+    filingDate?: string;    // YYYY-MM-DD
+    statements: Record<StatementKind, FinancialStatement>;
+}
+
+export type RatioKey =
+    | 'grossMargin'
+    | 'operatingMargin'
+    | 'netMargin'
+    | 'operatingCashFlowMargin'
+    | 'revenueGrowth'
+    | 'epsGrowth'
+    | 'liabilitiesToEquity'
+    | 'currentRatio'
+    | 'returnOnEquity';
+
+export interface RatioDefinition {
+    key: RatioKey;
+    label: string;
+    format: ValueFormat;
+    description: string;
+}
+
+// null where the filing lacks an input or the denominator is zero
+export type PeriodRatios = Record<RatioKey, number | null>;
+
+// Which EPS the trailing figures use; basic only when a period doesn't report diluted
+export type EpsBasis = 'diluted' | 'basic';
+
+// Point-in-time valuation from the latest trailing twelve months and the current price
+export interface Valuation {
+    trailingEps: number | null;
+    epsBasis: EpsBasis | null;
+    peRatio: number | null;
+    // Periods the trailing figures cover, e.g. "Q3 2023 – Q2 2024"
+    trailingLabel: string | null;
+}
@@ -0,0 +1,221 @@
+import { IndicatorBar, IndicatorCalculator } from './types';
+
+// Each building block takes a value and a `commit` flag: committed values become history,
+// uncommitted ones are previews of the forming bar that are computed and then forgotten.
+
+// The last `size` values with a running sum
+class RollingWindow {
+    private values: number[] = [];
+    private total = 0;
+
+    constructor(private readonly size: number) {}
+
+    /** Window contents and sum once `value` is included */
+    next(value: number, commit: boolean): { values: number[]; sum: number } {
+        const isFull = this.values.length === this.size;
+        const sum = this.total + value - (isFull ? this.values[0] : 0);
+        const values = [...this.values.slice(isFull ? 1 : 0), value];
+
+        if (commit) {
+            this.values = values;
+            this.total = sum;
+        }
+        return { values, sum };
+    }
+}
+
+// Exponential moving average seeded with the simple average of its first `period` values.
+// With alpha = 1 / period this is Wilder's smoothing (RSI, ATR).
+class ExponentialAverage {
+    private count = 0;
+    private seedSum = 0;
+    private value = NaN;
+
+    constructor(private readonly period: number, private readonly alpha = 2 / (period + 1)) {}
+
+    next(input: number, commit: boolean): number {
+        if (this.count < this.period) {
+            const count = this.count + 1;
+            const seedSum = this.seedSum + input;
+            const result = count === this.period ? seedSum / this.period : NaN;
+            if (commit) {
+                this.count = count;
+                this.seedSum = seedSum;
+                this.value = result;
+            }
+            return result;
+        }
+
+        const result = this.value + this.alpha * (input - this.value);
+        if (commit) {
+            this.value = result;
+        }
+        return result;
+    }
+}
+
+// Shared add / preview plumbing so each indicator only implements one step function
+abstract class BaseCalculator implements IndicatorCalculator {
+    protected abstract next(bar: IndicatorBar, commit: boolean): number[];
+
+    add(bar: IndicatorBar): number[] {
+        return this.next(bar, true);
+    }
+
+    preview(bar: IndicatorBar): number[] {
+        return this.next(bar, false);
+    }
+}
+
+export class SmaCalculator extends BaseCalculator {
+    private readonly window: RollingWindow;
+
+    constructor(private readonly period: number) {
+        super();
+        this.window = new RollingWindow(period);
+    }
+
+    protected next(bar: IndicatorBar, commit: boolean): number[] {
+        const { values, sum } = this.window.next(bar.close, commit);
+        return [values.length === this.period ? sum / this.period : NaN];
+    }
+}
+
+export class EmaCalculator extends BaseCalculator {
+    private readonly average: ExponentialAverage;
+
+    constructor(period: number) {
+        super();
+        this.average = new ExponentialAverage(period);
+    }
+
+    protected next(bar: IndicatorBar, commit: boolean): number[] {
+        return [this.average.next(bar.close, commit)];
+    }
+}
+
+// Upper, middle and lower bands: SMA plus / minus `deviations` population standard deviations
+export class BollingerCalculator extends BaseCalculator {
+    private readonly window: RollingWindow;
+
+    constructor(private readonly period: number, private readonly deviations: number) {
+        super();
+        this.window = new RollingWindow(period);
+    }
+
+    protected next(bar: IndicatorBar, commit: boolean): number[] {
+        const { values, sum } = this.window.next(bar.close, commit);
+        if (values.length < this.period) return [NaN, NaN, NaN];
+
+        const mean = sum / this.period;
+        const variance = values.reduce((total, value) => total + (value - mean) ** 2, 0) / this.period;
+        const offset = this.deviations * Math.sqrt(variance);
+        return [mean + offset, mean, mean - offset];
+    }
+}
+
+// Volume-weighted typical price, reset at the start of each UTC-aligned session
+export class VwapCalculator extends BaseCalculator {
+    private session = NaN;
+    private priceVolume = 0;
+    private volume = 0;
+
+    constructor(private readonly sessionHours: number) {
+        super();
+    }
+
+    protected next(bar: IndicatorBar, commit: boolean): number[] {
+        const session = Math.floor(bar.timestamp / (this.sessionHours * 60 * 60 * 1000));
+        const isNewSession = session !== this.session;
+        const typicalPrice = (bar.high + bar.low + bar.close) / 3;
+
+        const priceVolume = (isNewSession ? 0 : this.priceVolume) + typicalPrice * bar.volume;
+        const volume = (isNewSession ? 0 : this.volume) + bar.volume;
+
+        if (commit) {
+            this.session = session;
+            this.priceVolume = priceVolume;
+            this.volume = volume;
+        }
+        return [volume > 0 ? priceVolume / volume : typicalPrice];
+    }
+}
+
+// Wilder's relative strength index, 0-100
+export class RsiCalculator extends BaseCalculator {
+    private previousClose = NaN;
+    private readonly gains: ExponentialAverage;
+    private readonly losses: ExponentialAverage;
+
+    constructor(period: number) {
+        super();
+        this.gains = new ExponentialAverage(period, 1 / period);
+        this.losses = new ExponentialAverage(period, 1 / period);
+    }
+
+    protected next(bar: IndicatorBar, commit: boolean): number[] {
+        const previousClose = this.previousClose;
+        if (commit) {
+            this.previousClose = bar.close;
+        }
+        if (isNaN(previousClose)) return [NaN];
+
+        const change = bar.close - previousClose;
+        const gain = this.gains.next(Math.max(change, 0), commit);
+        const loss = this.losses.next(Math.max(-change, 0), commit);
+        if (isNaN(gain) || isNaN(loss)) return [NaN];
+
+        if (loss === 0) return [gain === 0 ? 50 : 100];
+        return [100 - 100 / (1 + gain / loss)];
+    }
+}
+
+// MACD line, signal line and histogram
+export class MacdCalculator extends BaseCalculator {
+    private readonly fast: ExponentialAverage;
+    private readonly slow: ExponentialAverage;
+    private readonly signal: ExponentialAverage;
+
+    constructor(fastPeriod: number, slowPeriod: number, signalPeriod: number) {
+        super();
+        this.fast = new ExponentialAverage(fastPeriod);
+        this.slow = new ExponentialAverage(slowPeriod);
+        this.signal = new ExponentialAverage(signalPeriod);
+    }
+
+    protected next(bar: IndicatorBar, commit: boolean): number[] {
+        const fast = this.fast.next(bar.close, commit);
+        const slow = this.slow.next(bar.close, commit);
+        if (isNaN(fast) || isNaN(slow)) return [NaN, NaN, NaN];
+
+        const macd = fast - slow;
+        const signal = this.signal.next(macd, commit);
+        return [macd, signal, isNaN(signal) ? NaN : macd - signal];
+    }
+}
+
+// Wilder's average true range
+export class AtrCalculator extends BaseCalculator {
+    private previousClose = NaN;
+    private readonly average: ExponentialAverage;
+
+    constructor(period: number) {
+        super();
+        this.average = new ExponentialAverage(period, 1 / period);
+    }
+
+    protected next(bar: IndicatorBar, commit: boolean): number[] {
+        const trueRange = isNaN(this.previousClose)
+            ? bar.high - bar.low
+            : Math.max(
+                bar.high - bar.low,
+                Math.abs(bar.high - this.previousClose),
+                Math.abs(bar.low - this.previousClose)
+            );
+
+        if (commit) {
+            this.previousClose = bar.close;
+        }
+        return [this.average.next(trueRange, commit)];
+    }
+}
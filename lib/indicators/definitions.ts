@@ -0,0 +1,141 @@
+import {
+    AtrCalculator,
+    BollingerCalculator,
+    EmaCalculator,
+    MacdCalculator,
+    RsiCalculator,
+    SmaCalculator,
+    VwapCalculator
+} from './calculators';
+import { IndicatorConfig, IndicatorDefinition, IndicatorParamDefinition, IndicatorParams, IndicatorType } from './types';
+
+// Colors handed out to new indicators in turn, picked to stand out from the green / red candles
+export const INDICATOR_COLORS = ['#f59e0b', '#3b82f6', '#a855f7', '#ec4899', '#14b8a6', '#eab308', '#f97316', '#6366f1'];
+
+const period = (defaultValue: number, max = 500): IndicatorParamDefinition => ({
+    key: 'period',
+    label: 'Period',
+    defaultValue,
+    min: 1,
+    max,
+    step: 1
+});
+
+export const INDICATOR_DEFINITIONS: Record<IndicatorType, IndicatorDefinition> = {
+    sma: {
+        type: 'sma',
+        name: 'Simple Moving Average',
+        shortName: 'SMA',
+        pane: 'price',
+        params: [period(20)],
+        outputs: [{ key: 'sma', label: 'SMA', style: 'line' }],
+        create: (params) => new SmaCalculator(params.period)
+    },
+    ema: {
+        type: 'ema',
+        name: 'Exponential Moving Average',
+        shortName: 'EMA',
+        pane: 'price',
+        params: [period(20)],
+        outputs: [{ key: 'ema', label: 'EMA', style: 'line' }],
+        create: (params) => new EmaCalculator(params.period)
+    },
+    bollinger: {
+        type: 'bollinger',
+        name: 'Bollinger Bands',
+        shortName: 'BB',
+        pane: 'price',
+        params: [
+            period(20),
+            { key: 'deviations', label: 'Std. devs', defaultValue: 2, min: 0.1, max: 10, step: 0.1 }
+        ],
+        outputs: [
+            { key: 'upper', label: 'Upper', style: 'line' },
+            { key: 'middle', label: 'Middle', style: 'dashed' },
+            { key: 'lower', label: 'Lower', style: 'line' }
+        ],
+        create: (params) => new BollingerCalculator(params.period, params.deviations)
+    },
+    vwap: {
+        type: 'vwap',
+        name: 'Volume Weighted Average Price',
+        shortName: 'VWAP',
+        pane: 'price',
+        params: [{ key: 'sessionHours', label: 'Session (h)', defaultValue: 24, min: 1, max: 24, step: 1 }],
+        outputs: [{ key: 'vwap', label: 'VWAP', style: 'line' }],
+        create: (params) => new VwapCalculator(params.sessionHours)
+    },
+    rsi: {
+        type: 'rsi',
+        name: 'Relative Strength Index',
+        shortName: 'RSI',
+        pane: 'oscillator',
+        params: [period(14, 200)],
+        outputs: [{ key: 'rsi', label: 'RSI', style: 'line' }],
+        levels: [30, 70],
+        range: [0, 100],
+        create: (params) => new RsiCalculator(params.period)
+    },
+    macd: {
+        type: 'macd',
+        name: 'MACD',
+        shortName: 'MACD',
+        pane: 'oscillator',
+        params: [
+            { key: 'fast', label: 'Fast', defaultValue: 12, min: 1, max: 200, step: 1 },
+            { key: 'slow', label: 'Slow', defaultValue: 26, min: 1, max: 200, step: 1 },
+            { key: 'signal', label: 'Signal', defaultValue: 9, min: 1, max: 200, step: 1 }
+        ],
+        outputs: [
+            { key: 'histogram', label: 'Histogram', style: 'histogram', color: '#64748b' },
+            { key: 'macd', label: 'MACD', style: 'line' },
+            { key: 'signal', label: 'Signal', style: 'line', color: '#ef4444' }
+        ],
+        levels: [0],
+        create: (params) => new MacdCalculator(params.fast, params.slow, params.signal)
+    },
+    atr: {
+        type: 'atr',
+        name: 'Average True Range',
+        shortName: 'ATR',
+        pane: 'oscillator',
+        params: [period(14, 200)],
+        outputs: [{ key: 'atr', label: 'ATR', style: 'line' }],
+        create: (params) => new AtrCalculator(params.period)
+    }
+};
+
+/**
+ * Clamp parameters into their allowed range and fill in defaults for anything missing
+ */
+export const normalizeIndicatorParams = (type: IndicatorType, params: IndicatorParams = {}): IndicatorParams => {
+    const normalized: IndicatorParams = {};
+    for (const param of INDICATOR_DEFINITIONS[type].params) {
+        const value = params[param.key];
+        if (!Number.isFinite(value)) {
+            normalized[param.key] = param.defaultValue;
+            continue;
+        }
+        // Periods and other whole-number settings stay whole
+        const rounded = param.step >= 1 ? Math.round(value) : value;
+        normalized[param.key] = Math.min(param.max, Math.max(param.min, rounded));
+    }
+    return normalized;
+};
+
+export const createIndicatorConfig = (type: IndicatorType, existing: IndicatorConfig[] = []): IndicatorConfig => ({
+    id: `${type}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    type,
+    params: normalizeIndicatorParams(type),
+    color: INDICATOR_COLORS[existing.length % INDICATOR_COLORS.length]
+});
+
+/**
+ * Short label such as "SMA(20)" or "MACD(12, 26, 9)"
+ */
+export const formatIndicatorLabel = (config: Pick<IndicatorConfig, 'type' | 'params'>): string => {
+    const definition = INDICATOR_DEFINITIONS[config.type];
+    const values = definition.params.map(param => config.params[param.key]);
+    return `${definition.shortName}(${values.join(', ')})`;
+};
+
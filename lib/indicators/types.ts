@@ -0,0 +1,61 @@
+// Shared types for technical indicators. Calculators are incremental: closed bars are added once,
+// and the still-forming bar can be previewed on every trade without touching the calculator's history.
+
+export type IndicatorType = 'sma' | 'ema' | 'bollinger' | 'vwap' | 'rsi' | 'macd' | 'atr';
+
+// Price overlays share the candle pane; oscillators get their own pane below it
+export type IndicatorPane = 'price' | 'oscillator';
+
+export type IndicatorParams = Record<string, number>;
+
+export interface IndicatorBar {
+    timestamp: number; // bar open, Unix ms
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+export interface IndicatorParamDefinition {
+    key: string;
+    label: string;
+    defaultValue: number;
+    min: number;
+    max: number;
+    step: number;
+}
+
+export interface IndicatorOutputDefinition {
+    key: string;
+    label: string;
+    style: 'line' | 'dashed' | 'histogram';
+    color?: string; // defaults to the indicator's own color
+}
+
+export interface IndicatorCalculator {
+    /** Values for a bar that has closed. The bar becomes part of the calculator's history. */
+    add(bar: IndicatorBar): number[];
+    /** Values for the still-forming bar, leaving the history unchanged so it can be called on every trade */
+    preview(bar: IndicatorBar): number[];
+}
+
+export interface IndicatorDefinition {
+    type: IndicatorType;
+    name: string;
+    shortName: string;
+    pane: IndicatorPane;
+    params: IndicatorParamDefinition[];
+    outputs: IndicatorOutputDefinition[]; // calculators return one value per output, NaN while warming up
+    levels?: number[];                    // reference lines drawn on the pane (e.g. RSI 30 / 70)
+    range?: [number, number];             // fixed y range for bounded oscillators
+    create(params: IndicatorParams): IndicatorCalculator;
+}
+
+// An indicator the user has added to a chart
+export interface IndicatorConfig {
+    id: string;
+    type: IndicatorType;
+    params: IndicatorParams;
+    color: string;
+}
@@ -0,0 +1,229 @@
+import {
+    BarCacheEntry,
+    BarSeriesId,
+    BarStore,
+    DateRange,
+    addDays,
+    getSeriesKey,
+    mergeRanges,
+    subtractRanges
+} from '@/lib/bar-cache';
+import { getTimeZoneOffset } from './aggregation';
+import { isCryptoTicker } from './symbols';
+import { AggregateBar, AggregatesRequest, AggregatesResponse, MarketDataProvider, StockSplit } from './types';
+
+// Timespans worth keeping; everything else is a cheap request and passes straight through
+const CACHED_TIMESPANS = ['minute', 'day'];
+
+// Polygon's page size when a request doesn't set one
+const DEFAULT_LIMIT = 5000;
+
+// A stock's day stops changing once after hours close (20:00 New York) and late prints are in
+const STOCK_SETTLE_MINUTES = 21 * 60;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Stock dates run on New York time, crypto dates on UTC
+const getMarketTimeZone = (ticker: string): string => (isCryptoTicker(ticker) ? 'UTC' : 'America/New_York');
+
+const toMarketDate = (timestamp: number, timeZone: string): string =>
+    new Date(timestamp + getTimeZoneOffset(timestamp, timeZone)).toISOString().split('T')[0];
+
+/**
+ * The last date whose bars can no longer change: yesterday for crypto (UTC days), and for stocks
+ * today once the evening session is over, otherwise yesterday
+ */
+export const getSettledThrough = (ticker: string, now: number = Date.now()): string => {
+    const timeZone = getMarketTimeZone(ticker);
+    const today = toMarketDate(now, timeZone);
+    if (timeZone === 'UTC') {
+        return addDays(today, -1);
+    }
+
+    const localMinutes = Math.floor(((now + getTimeZoneOffset(now, timeZone)) % DAY_MS) / MINUTE_MS);
+    return localMinutes >= STOCK_SETTLE_MINUTES ? today : addDays(today, -1);
+};
+
+const isCacheable = (request: AggregatesRequest): boolean =>
+    CACHED_TIMESPANS.includes(request.timespan) && Number.isInteger(request.multiplier) && request.multiplier >= 1;
+
+/**
+ * Serves minute and daily aggregates from a persistent bar store, fetching only the dates it
+ * doesn't hold yet. Dates that can still change (the session in progress) are always fetched and
+ * never recorded as held. If the store fails, requests go straight to the provider.
+ */
+export class AggregatesCache {
+    // One load per series at a time, so widgets asking together share the fetch instead of racing
+    private readonly pending = new Map<string, Promise<AggregatesResponse>>();
+
+    constructor(
+        private readonly provider: MarketDataProvider,
+        private readonly store: BarStore
+    ) {}
+
+    getAggregates(request: AggregatesRequest): Promise<AggregatesResponse> {
+        if (!isCacheable(request)) {
+            return this.provider.getAggregates(request);
+        }
+
+        const series: BarSeriesId = {
+            provider: this.provider.id,
+            ticker: request.ticker.toUpperCase(),
+            multiplier: request.multiplier,
+            timespan: request.timespan,
+            adjusted: request.adjusted ?? true
+        };
+        const key = getSeriesKey(series);
+
+        const previous = this.pending.get(key) ?? Promise.resolve(null);
+        const load = previous.catch(() => null).then(() => this.load(request, series, key));
+        this.pending.set(key, load);
+
+        const release = () => {
+            if (this.pending.get(key) === load) {
+                this.pending.delete(key);
+            }
+        };
+        load.then(release, release);
+        return load;
+    }
+
+    private async load(request: AggregatesRequest, series: BarSeriesId, key: string): Promise<AggregatesResponse> {
+        const timeZone = getMarketTimeZone(request.ticker);
+        const settledThrough = getSettledThrough(request.ticker);
+
+        let entry: BarCacheEntry;
+        try {
+            entry = (await this.store.getEntry(key)) ?? { ...series, key, ranges: [], barCount: 0, updatedAt: 0, createdAt: Date.now() };
+        } catch (err) {
+            console.warn('Bar cache unavailable, fetching aggregates directly:', err);
+            return this.provider.getAggregates(request);
+        }
+
+        const bars = new Map<number, AggregateBar>();
+        const keep = (list: AggregateBar[]) => list.forEach(bar => bars.set(bar.t, bar));
+
+        // Settled dates: fill the gaps, then read the whole span back from the store
+        const settled: DateRange | null = request.from <= settledThrough
+            ? { from: request.from, to: request.to < settledThrough ? request.to : settledThrough }
+            : null;
+
+        if (settled) {
+            for (const gap of subtractRanges(settled, entry.ranges)) {
+                const fetched = await this.fetchRange(request, gap, timeZone);
+                keep(fetched);
+                try {
+                    entry = await this.store.writeBars(
+                        { ...entry, ranges: mergeRanges([...entry.ranges, gap]), updatedAt: Date.now() },
+                        fetched
+                    );
+                } catch (err) {
+                    console.warn(`Failed to cache aggregates for ${key}:`, err);
+                }
+            }
+
+            try {
+                const stored = await this.store.readBars(
+                    key,
+                    Date.parse(`${settled.from}T00:00:00Z`) - DAY_MS,
+                    Date.parse(`${settled.to}T00:00:00Z`) + 2 * DAY_MS
+                );
+                keep(stored.filter(bar => {
+                    const date = toMarketDate(bar.t, timeZone);
+                    return date >= settled.from && date <= settled.to;
+                }));
+            } catch (err) {
+                console.warn(`Failed to read cached aggregates for ${key}:`, err);
+                if (bars.size === 0) {
+                    return this.provider.getAggregates(request);
+                }
+            }
+        }
+
+        // The rest is still changing, so it's fetched every time
+        const openFrom = settled ? addDays(settled.to, 1) : request.from;
+        if (openFrom <= request.to) {
+            keep(await this.fetchPages(request, openFrom, request.to, timeZone));
+        }
+
+        const results = Array.from(bars.values()).sort((a, b) => a.t - b.t);
+        return {
+            ticker: series.ticker,
+            status: 'OK',
+            results,
+            resultsCount: results.length
+        };
+    }
+
+    /**
+     * Every bar dated within `range`. The request is padded by a day each side, since providers
+     * draw day boundaries in different time zones, and trimmed back to the market's own dates.
+     */
+    private async fetchRange(request: AggregatesRequest, range: DateRange, timeZone: string): Promise<AggregateBar[]> {
+        const bars = await this.fetchPages(request, addDays(range.from, -1), addDays(range.to, 1), timeZone);
+        return bars.filter(bar => {
+            const date = toMarketDate(bar.t, timeZone);
+            return date >= range.from && date <= range.to;
+        });
+    }
+
+    /**
+     * Follow full pages from the date of their last bar until the range is exhausted
+     */
+    private async fetchPages(request: AggregatesRequest, from: string, to: string, timeZone: string): Promise<AggregateBar[]> {
+        const limit = request.limit ?? DEFAULT_LIMIT;
+        let bars: AggregateBar[] = [];
+        let pageFrom = from;
+
+        while (true) {
+            const page = (await this.provider.getAggregates({ ...request, from: pageFrom, to })).results ?? [];
+            bars = bars.concat(page);
+            if (page.length < limit) return bars;
+
+            const lastDate = toMarketDate(page[page.length - 1].t, timeZone);
+            // A single day filled the page; paging by date can't get past it
+            if (lastDate <= pageFrom) return bars;
+            pageFrom = lastDate;
+        }
+    }
+}
+
+/**
+ * `provider` with its aggregates served through an AggregatesCache; every other member is the
+ * provider's own, so optional capabilities (order books, historical trades) are unchanged
+ */
+export const withAggregatesCache = (provider: MarketDataProvider, store: BarStore): MarketDataProvider => {
+    const cache = new AggregatesCache(provider, store);
+    const getAggregates = (request: AggregatesRequest) => cache.getAggregates(request);
+
+    return new Proxy(provider, {
+        get(target, property) {
+            if (property === 'getAggregates') return getAggregates;
+            const value = Reflect.get(target, property, target);
+            return typeof value === 'function' ? value.bind(target) : value;
+        }
+    });
+};
+
+/**
+ * Delete a ticker's split-adjusted series that were started before its latest executed split.
+ * Providers restate adjusted history when a split executes, so bars stored earlier are on the old basis.
+ * @returns How many series were deleted
+ */
+export const invalidateSplitAdjustedBars = async (store: BarStore, ticker: string, splits: StockSplit[]): Promise<number> => {
+    const now = Date.now();
+    const latestSplit = splits
+        .map(split => Date.parse(`${split.execution_date}T00:00:00Z`))
+        .filter(executedAt => executedAt <= now)
+        .reduce((latest, executedAt) => Math.max(latest, executedAt), 0);
+    if (latestSplit === 0) {
+        return 0;
+    }
+
+    const symbol = ticker.toUpperCase();
+    const stale = (await store.listEntries()).filter(entry =>
+        entry.adjusted && entry.ticker === symbol && (entry.createdAt ?? 0) < latestSplit);
+    await Promise.all(stale.map(entry => store.deleteEntry(entry.key)));
+    return stale.length;
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { TradeAggregator, alignToTimeframe, getTimeZoneOffset, historyTimeframeFor } from './aggregation';
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('getTimeZoneOffset', () => {
+    it('follows daylight saving time', () => {
+        expect(getTimeZoneOffset(at('2024-01-15T12:00:00Z'), 'America/New_York')).toBe(-5 * 60 * 60 * 1000);
+        expect(getTimeZoneOffset(at('2024-07-15T12:00:00Z'), 'America/New_York')).toBe(-4 * 60 * 60 * 1000);
+        expect(getTimeZoneOffset(at('2024-07-15T12:00:00Z'), 'UTC')).toBe(0);
+    });
+});
+
+describe('alignToTimeframe', () => {
+    it('aligns intraday buckets to the epoch', () => {
+        expect(alignToTimeframe(at('2024-03-05T14:37:42.500Z'), '1s')).toBe(at('2024-03-05T14:37:42Z'));
+        expect(alignToTimeframe(at('2024-03-05T14:37:42Z'), '5s')).toBe(at('2024-03-05T14:37:40Z'));
+        expect(alignToTimeframe(at('2024-03-05T14:37:42Z'), '15m')).toBe(at('2024-03-05T14:30:00Z'));
+        expect(alignToTimeframe(at('2024-03-05T14:37:42Z'), '1h', 'America/New_York')).toBe(at('2024-03-05T14:00:00Z'));
+    });
+
+    it('starts daily buckets at midnight in the time zone', () => {
+        expect(alignToTimeframe(at('2024-03-05T02:00:00Z'), '1D')).toBe(at('2024-03-05T00:00:00Z'));
+        // 21:00 New York on the 4th
+        expect(alignToTimeframe(at('2024-03-05T02:00:00Z'), '1D', 'America/New_York')).toBe(at('2024-03-04T05:00:00Z'));
+    });
+
+    it('uses the offset in force at midnight on daylight saving changeover days', () => {
+        // Clocks went forward at 02:00 on 10 March 2024; midnight was still EST
+        expect(alignToTimeframe(at('2024-03-10T16:00:00Z'), '1D', 'America/New_York')).toBe(at('2024-03-10T05:00:00Z'));
+        // And back at 02:00 on 3 November; midnight was still EDT
+        expect(alignToTimeframe(at('2024-11-03T16:00:00Z'), '1D', 'America/New_York')).toBe(at('2024-11-03T04:00:00Z'));
+    });
+});
+
+describe('historyTimeframeFor', () => {
+    it('seeds sub-minute timeframes with minute bars', () => {
+        expect(historyTimeframeFor('1s')).toBe('1m');
+        expect(historyTimeframeFor('5s')).toBe('1m');
+        expect(historyTimeframeFor('15m')).toBe('15m');
+        expect(historyTimeframeFor('1D')).toBe('1D');
+    });
+});
+
+describe('TradeAggregator', () => {
+    it('builds OHLCV bars and reports the bar each new bucket closes', () => {
+        const aggregator = new TradeAggregator('1m');
+
+        const first = aggregator.add(100, 1, at('2024-03-05T14:30:05Z'));
+        expect(first).toMatchObject({ isNewBar: true, closedBar: undefined });
+
+        aggregator.add(103, 2, at('2024-03-05T14:30:20Z'));
+        aggregator.add(99, 1, at('2024-03-05T14:30:40Z'));
+        const last = aggregator.add(101, 3, at('2024-03-05T14:30:59Z'));
+        expect(last?.isNewBar).toBe(false);
+        expect(last?.bar).toEqual({ timestamp: at('2024-03-05T14:30:00Z'), open: 100, high: 103, low: 99, close: 101, volume: 7 });
+
+        const next = aggregator.add(102, 1, at('2024-03-05T14:31:00Z'));
+        expect(next?.isNewBar).toBe(true);
+        expect(next?.bar).toEqual({ timestamp: at('2024-03-05T14:31:00Z'), open: 102, high: 102, low: 102, close: 102, volume: 1 });
+        expect(next?.closedBar).toMatchObject({ close: 101, volume: 7 });
+    });
+
+    it('updates the current bar in place', () => {
+        const aggregator = new TradeAggregator('1m');
+        const bar = aggregator.add(100, 1, at('2024-03-05T14:30:05Z'))!.bar;
+
+        aggregator.add(105, 1, at('2024-03-05T14:30:10Z'));
+
+        expect(bar.close).toBe(105);
+    });
+
+    it('drops late prints for buckets that have closed', () => {
+        const aggregator = new TradeAggregator('1m');
+        aggregator.add(100, 1, at('2024-03-05T14:31:05Z'));
+
+        expect(aggregator.add(90, 1, at('2024-03-05T14:30:55Z'))).toBeNull();
+    });
+
+    it('extends a bar seeded from history', () => {
+        const aggregator = new TradeAggregator('1D', 'America/New_York');
+        const seeded = { timestamp: at('2024-03-05T05:00:00Z'), open: 100, high: 104, low: 98, close: 102, volume: 500 };
+        aggregator.seed(seeded);
+
+        const result = aggregator.add(106, 10, at('2024-03-05T19:00:00Z'));
+
+        expect(result?.isNewBar).toBe(false);
+        expect(seeded).toMatchObject({ high: 106, close: 106, volume: 510 });
+    });
+});
@@ -0,0 +1,166 @@
+import { AggregateBar, AggregateTimespan, MarketDataProvider } from './types';
+
+export type CandleTimeframe = '1s' | '5s' | '1m' | '5m' | '15m' | '1h' | '1D';
+
+// An OHLCV candle keyed by the start of its bucket
+export interface OhlcvBar {
+    timestamp: number; // bucket start, Unix ms
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+export interface TimeframeDefinition {
+    label: string;
+    durationMs: number;
+    // Matching aggregates request for history; sub-minute timeframes have none (see historyTimeframeFor)
+    backfill?: {
+        multiplier: number;
+        timespan: AggregateTimespan;
+        lookbackDays: number; // calendar days, enough to span weekends and holidays
+    };
+}
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export const CANDLE_TIMEFRAMES: Record<CandleTimeframe, TimeframeDefinition> = {
+    '1s': { label: '1s', durationMs: SECOND_MS },
+    '5s': { label: '5s', durationMs: 5 * SECOND_MS },
+    '1m': { label: '1m', durationMs: MINUTE_MS, backfill: { multiplier: 1, timespan: 'minute', lookbackDays: 4 } },
+    '5m': { label: '5m', durationMs: 5 * MINUTE_MS, backfill: { multiplier: 5, timespan: 'minute', lookbackDays: 7 } },
+    '15m': { label: '15m', durationMs: 15 * MINUTE_MS, backfill: { multiplier: 15, timespan: 'minute', lookbackDays: 14 } },
+    '1h': { label: '1h', durationMs: HOUR_MS, backfill: { multiplier: 1, timespan: 'hour', lookbackDays: 30 } },
+    '1D': { label: '1D', durationMs: DAY_MS, backfill: { multiplier: 1, timespan: 'day', lookbackDays: 730 } }
+};
+
+// Offset of a time zone from UTC at the given instant, in ms (e.g. -4h for New York in summer)
+export const getTimeZoneOffset = (timestamp: number, timeZone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+    }).formatToParts(timestamp);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+    const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return wallClock - Math.floor(timestamp / SECOND_MS) * SECOND_MS;
+};
+
+/**
+ * Start of the bucket a timestamp falls in. Intraday buckets are aligned to the Unix epoch, like
+ * Polygon's minute and hour bars; daily buckets start at midnight in `timeZone` (Polygon's stock
+ * daily bars start at midnight New York time, crypto ones at midnight UTC).
+ */
+export const alignToTimeframe = (timestamp: number, timeframe: CandleTimeframe, timeZone: string = 'UTC'): number => {
+    const { durationMs } = CANDLE_TIMEFRAMES[timeframe];
+    if (durationMs < DAY_MS || timeZone === 'UTC') {
+        return Math.floor(timestamp / durationMs) * durationMs;
+    }
+
+    const offset = getTimeZoneOffset(timestamp, timeZone);
+    const localMidnight = Math.floor((timestamp + offset) / DAY_MS) * DAY_MS;
+    // Use the offset in force at midnight itself, which differs on daylight saving changeover days
+    return localMidnight - getTimeZoneOffset(localMidnight - offset, timeZone);
+};
+
+export const fromAggregateBar = (bar: AggregateBar): OhlcvBar => ({
+    timestamp: bar.t,
+    open: bar.o,
+    high: bar.h,
+    low: bar.l,
+    close: bar.c,
+    volume: bar.v || 0
+});
+
+/**
+ * Timeframe to load history in. Timeframes too fine for aggregates are seeded with minute bars,
+ * so the chart isn't blank while the first live candles build up.
+ */
+export const historyTimeframeFor = (timeframe: CandleTimeframe): CandleTimeframe => {
+    return CANDLE_TIMEFRAMES[timeframe].backfill ? timeframe : '1m';
+};
+
+// Polygon's ceiling on base bars per aggregates request; the lookbacks above stay under it
+const MAX_AGGREGATES_LIMIT = 50000;
+
+/**
+ * The most recent `maxBars` bars for a timeframe, oldest first. Empty for timeframes without aggregates.
+ * "Most recent" is by the provider's clock, so a replay gets the history leading up to its position.
+ */
+export const fetchCandleHistory = async (
+    provider: MarketDataProvider,
+    ticker: string,
+    timeframe: CandleTimeframe,
+    maxBars: number,
+    now: number = provider.now?.() ?? Date.now()
+): Promise<OhlcvBar[]> => {
+    const backfill = CANDLE_TIMEFRAMES[timeframe].backfill;
+    if (!backfill) return [];
+
+    const data = await provider.getAggregates({
+        ticker,
+        multiplier: backfill.multiplier,
+        timespan: backfill.timespan,
+        from: new Date(now - backfill.lookbackDays * DAY_MS).toISOString().split('T')[0],
+        to: new Date(now).toISOString().split('T')[0],
+        limit: MAX_AGGREGATES_LIMIT
+    });
+    return (data.results ?? []).slice(-maxBars).map(fromAggregateBar);
+};
+
+export interface AggregatedTrade {
+    bar: OhlcvBar;
+    isNewBar: boolean;     // the trade opened a new bucket
+    closedBar?: OhlcvBar;  // the bar the new bucket replaced, now final
+}
+
+/**
+ * Builds OHLCV bars from a stream of trades. Bars are mutated in place while they form, so callers
+ * holding the current bar see it update. Trades older than the current bucket are late prints and
+ * are dropped rather than rewriting closed bars.
+ */
+export class TradeAggregator {
+    private current: OhlcvBar | null = null;
+
+    constructor(
+        readonly timeframe: CandleTimeframe,
+        private readonly timeZone: string = 'UTC'
+    ) {}
+
+    /**
+     * Continue from a bar loaded from history, so trades in the same bucket extend it
+     */
+    seed(bar: OhlcvBar) {
+        this.current = bar;
+    }
+
+    add(price: number, size: number, timestamp: number): AggregatedTrade | null {
+        const bucket = alignToTimeframe(timestamp, this.timeframe, this.timeZone);
+        const current = this.current;
+
+        if (current && bucket < current.timestamp) {
+            return null;
+        }
+
+        if (current && bucket === current.timestamp) {
+            current.high = Math.max(current.high, price);
+            current.low = Math.min(current.low, price);
+            current.close = price;
+            current.volume += size;
+            return { bar: current, isNewBar: false };
+        }
+
+        const bar: OhlcvBar = { timestamp: bucket, open: price, high: price, low: price, close: price, volume: size };
+        this.current = bar;
+        return { bar, isNewBar: true, closedBar: current ?? undefined };
+    }
+}
@@ -0,0 +1,104 @@
+import { Feed, FeedConnection, FeedFrame, FeedProtocol, FeedSubscription, createTabSharedFeed } from '@/lib/feeds';
+
+// Level 2 lives on the Advanced Trade feed; the Exchange feed's level2 channel needs authentication.
+// Overridable so the app can run against a local mock server.
+const COINBASE_ADVANCED_WS_URL = process.env.NEXT_PUBLIC_COINBASE_ADVANCED_WS_URL || 'wss://advanced-trade-ws.coinbase.com';
+
+// The heartbeats channel ticks every second whatever else is subscribed
+const COINBASE_BOOK_STALE_TIMEOUT_MS = 10000;
+
+export const LEVEL2_CHANNEL = 'level2';
+
+// One price level change; a zero quantity removes the level. Prices and sizes arrive as strings.
+export interface CoinbaseBookLevelUpdate {
+    side: 'bid' | 'offer';
+    event_time: string;
+    price_level: string;
+    new_quantity: string;
+}
+
+// An "l2_data" event: the full book on subscribe, then changed levels only
+export interface CoinbaseBookMessage {
+    type: 'snapshot' | 'update';
+    product_id: string;
+    updates: CoinbaseBookLevelUpdate[];
+}
+
+// Every (un)subscribe names a single channel
+const encode = (type: 'subscribe' | 'unsubscribe', subscriptions: FeedSubscription[]): string[] => {
+    const productsByChannel = new Map<string, string[]>();
+    for (const { channel, symbol } of subscriptions) {
+        productsByChannel.set(channel, [...(productsByChannel.get(channel) ?? []), symbol]);
+    }
+    return Array.from(productsByChannel, ([channel, product_ids]) => JSON.stringify({ type, channel, product_ids }));
+};
+
+/**
+ * Coinbase Advanced Trade framing for public market data: no authentication, one channel per
+ * subscription, and every frame carries a connection-wide `sequence_num` so dropped messages can
+ * be detected. Order books are a snapshot followed by incremental updates, so a gap means a resync.
+ */
+export const createCoinbaseBookProtocol = (url: string = COINBASE_ADVANCED_WS_URL): FeedProtocol<CoinbaseBookMessage> => ({
+    name: 'Coinbase order book',
+    url,
+    staleTimeoutMs: COINBASE_BOOK_STALE_TIMEOUT_MS,
+    snapshotChannels: [LEVEL2_CHANNEL],
+
+    // Without a heartbeats subscription the server closes quiet connections
+    handshake: () => ({
+        frames: [JSON.stringify({ type: 'subscribe', channel: 'heartbeats' })],
+        awaitReady: false
+    }),
+
+    decode: (data) => {
+        const message = JSON.parse(data);
+        const frames: FeedFrame<CoinbaseBookMessage>[] = [];
+
+        if (message?.type === 'error') {
+            frames.push({ type: 'error', message: `Coinbase error: ${message.message || message.reason}` });
+            return frames;
+        }
+
+        // Checked before the data it numbers, so a gap is flagged ahead of the suspect update
+        if (typeof message?.sequence_num === 'number') {
+            frames.push({ type: 'sequence', sequence: message.sequence_num });
+        }
+
+        if (message?.channel === 'heartbeats' || message?.channel === 'subscriptions') {
+            frames.push({ type: 'heartbeat' });
+        } else if (message?.channel === 'l2_data' && Array.isArray(message.events)) {
+            for (const event of message.events) {
+                if (typeof event?.product_id !== 'string' || !Array.isArray(event.updates)) continue;
+                frames.push({
+                    type: 'message',
+                    channel: LEVEL2_CHANNEL,
+                    symbol: event.product_id,
+                    message: event as CoinbaseBookMessage
+                });
+            }
+        }
+        return frames;
+    },
+
+    encodeSubscribe: (subscriptions) => encode('subscribe', subscriptions),
+    encodeUnsubscribe: (subscriptions) => encode('unsubscribe', subscriptions)
+});
+
+let feed: Feed<CoinbaseBookMessage> | null = null;
+
+/**
+ * The app's shared Coinbase order book feed, created on first use and shared by every tab
+ */
+export const getCoinbaseBookFeed = (): Feed<CoinbaseBookMessage> => {
+    if (!feed) {
+        feed = createTabSharedFeed('coinbase-book', () => new FeedConnection(createCoinbaseBookProtocol()));
+    }
+    return feed;
+};
+
+/**
+ * Reconnect the order book feed if it has been opened
+ */
+export const reconnectCoinbaseBookFeed = () => {
+    feed?.reconnect();
+};
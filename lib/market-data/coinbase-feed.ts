@@ -0,0 +1,86 @@
+import { Feed, FeedConnection, FeedFrame, FeedProtocol, FeedSubscription, createTabSharedFeed } from '@/lib/feeds';
+
+// Overridable so the app can run against a local mock server
+const COINBASE_WS_URL = process.env.NEXT_PUBLIC_COINBASE_WS_URL || 'wss://ws-feed.exchange.coinbase.com';
+
+// Coinbase sends a heartbeat per product every second, so this much silence means a dead socket
+const COINBASE_STALE_TIMEOUT_MS = 10000;
+
+// Fields shared by the ticker and match messages we consume; prices and sizes arrive as strings
+export interface CoinbaseFeedMessage {
+    type: 'ticker' | 'match' | 'last_match';
+    product_id: string;
+    price: string;
+    time: string;
+    side?: string;
+    trade_id?: number;
+    size?: string;        // match
+    open_24h?: string;
+    high_24h?: string;
+    low_24h?: string;
+    volume_24h?: string;
+    best_bid?: string;
+    best_ask?: string;
+}
+
+// Message types by the channel that produces them
+const CHANNEL_BY_TYPE: Record<string, string> = {
+    ticker: 'ticker',
+    match: 'matches',
+    last_match: 'matches'
+};
+
+// One { name, product_ids } entry per channel
+const toChannels = (subscriptions: FeedSubscription[]) => {
+    const productsByChannel = new Map<string, string[]>();
+    for (const { channel, symbol } of subscriptions) {
+        productsByChannel.set(channel, [...(productsByChannel.get(channel) ?? []), symbol]);
+    }
+    return Array.from(productsByChannel, ([name, product_ids]) => ({ name, product_ids }));
+};
+
+/**
+ * Coinbase Exchange framing: no authentication for public channels, subscriptions name channels
+ * and product ids, and every frame is a single JSON object tagged with `type`.
+ */
+export const createCoinbaseProtocol = (url: string = COINBASE_WS_URL): FeedProtocol<CoinbaseFeedMessage> => ({
+    name: 'Coinbase',
+    url,
+    staleTimeoutMs: COINBASE_STALE_TIMEOUT_MS,
+
+    handshake: () => ({ frames: [], awaitReady: false }),
+
+    decode: (data) => {
+        const message = JSON.parse(data);
+        const frames: FeedFrame<CoinbaseFeedMessage>[] = [];
+
+        if (message?.type === 'heartbeat') {
+            frames.push({ type: 'heartbeat' });
+        } else if (message?.type === 'error') {
+            frames.push({ type: 'error', message: `Coinbase error: ${message.reason || message.message}` });
+        } else if (CHANNEL_BY_TYPE[message?.type] && typeof message.product_id === 'string') {
+            frames.push({
+                type: 'message',
+                channel: CHANNEL_BY_TYPE[message.type],
+                symbol: message.product_id,
+                message: message as CoinbaseFeedMessage
+            });
+        }
+        return frames;
+    },
+
+    encodeSubscribe: (subscriptions) => [JSON.stringify({ type: 'subscribe', channels: toChannels(subscriptions) })],
+    encodeUnsubscribe: (subscriptions) => [JSON.stringify({ type: 'unsubscribe', channels: toChannels(subscriptions) })]
+});
+
+let feed: Feed<CoinbaseFeedMessage> | null = null;
+
+/**
+ * The app's shared Coinbase feed, created on first use and shared by every tab
+ */
+export const getCoinbaseFeed = (): Feed<CoinbaseFeedMessage> => {
+    if (!feed) {
+        feed = createTabSharedFeed('coinbase', () => new FeedConnection(createCoinbaseProtocol()));
+    }
+    return feed;
+};
@@ -0,0 +1,275 @@
+import {
+    AggregateBar,
+    AggregatesRequest,
+    AggregatesResponse,
+    AssetMarket,
+    MarketDataProvider,
+    MarketStatusResponse,
+    NewsResponse,
+    OrderBookSnapshot,
+    OrderBookStreamHandlers,
+    SnapshotResponse,
+    SnapshotTicker,
+    TickerDetailsResponse,
+    TradeStreamHandlers
+} from './types';
+import { subscribeToFeed } from '@/lib/feeds';
+import { CoinbaseBookMessage, LEVEL2_CHANNEL, getCoinbaseBookFeed, reconnectCoinbaseBookFeed } from './coinbase-book-feed';
+import { CoinbaseFeedMessage, getCoinbaseFeed } from './coinbase-feed';
+import { toPolygonCryptoTicker, toStreamSymbol } from './symbols';
+
+// Constants
+const COINBASE_REST_URL = 'https://api.exchange.coinbase.com';
+
+// Coinbase only serves these candle sizes (seconds)
+const SUPPORTED_GRANULARITIES = [60, 300, 900, 3600, 21600, 86400];
+// Maximum candles returned per request
+const MAX_CANDLES_PER_REQUEST = 300;
+
+const TIMESPAN_SECONDS: Record<string, number> = {
+    second: 1,
+    minute: 60,
+    hour: 3600,
+    day: 86400,
+};
+
+interface CoinbaseStats {
+    open: string;
+    high: string;
+    low: string;
+    last: string;
+    volume: string;
+}
+
+interface CoinbaseProduct {
+    id: string;
+    base_currency: string;
+    quote_currency: string;
+    display_name?: string;
+    status?: string;
+}
+
+const fetchCoinbaseJson = async <T>(path: string): Promise<T> => {
+    const response = await fetch(`${COINBASE_REST_URL}${path}`);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+        throw new Error(`Coinbase request failed: ${data.message || response.statusText} (${response.status})`);
+    }
+
+    return data as T;
+};
+
+const parseOptional = (value?: string): number | undefined => (value !== undefined ? parseFloat(value) : undefined);
+
+const toBookChanges = (message: CoinbaseBookMessage) =>
+    message.updates.map(update => ({
+        side: update.side === 'bid' ? 'bid' as const : 'ask' as const,
+        price: parseFloat(update.price_level),
+        size: parseFloat(update.new_quantity)
+    }));
+
+const assertCrypto = (market: AssetMarket) => {
+    if (market !== 'crypto') {
+        throw new Error('The Coinbase provider only supports crypto markets');
+    }
+};
+
+/**
+ * Coinbase Exchange public REST endpoints, the shared ticker/matches feed connection and the
+ * Advanced Trade level 2 order book feed.
+ * Covers crypto only; stock requests are rejected.
+ */
+export class CoinbaseMarketDataProvider implements MarketDataProvider {
+    readonly id = 'coinbase' as const;
+
+    async getSnapshots(market: AssetMarket, tickers?: string[]): Promise<SnapshotResponse> {
+        assertCrypto(market);
+
+        if (!tickers || tickers.length === 0) {
+            // Coinbase has no "whole market" snapshot; callers must name the products they want
+            return { tickers: [], status: 'OK', count: 0 };
+        }
+
+        const results = await Promise.all(tickers.map(async (ticker): Promise<SnapshotTicker | null> => {
+            const productId = toStreamSymbol(ticker);
+            try {
+                const stats = await fetchCoinbaseJson<CoinbaseStats>(`/products/${productId}/stats`);
+                const open = parseFloat(stats.open);
+                const last = parseFloat(stats.last);
+                const change = last - open;
+
+                return {
+                    ticker: toPolygonCryptoTicker(productId),
+                    day: {
+                        o: open,
+                        h: parseFloat(stats.high),
+                        l: parseFloat(stats.low),
+                        c: last,
+                        v: parseFloat(stats.volume)
+                    },
+                    lastTrade: { p: last },
+                    todaysChange: change,
+                    todaysChangePerc: open ? (change / open) * 100 : 0,
+                    updated: Date.now()
+                };
+            } catch (err) {
+                console.warn(`Coinbase snapshot failed for ${productId}:`, err);
+                return null;
+            }
+        }));
+
+        const snapshotTickers = results.filter((t): t is SnapshotTicker => t !== null);
+        return { tickers: snapshotTickers, status: 'OK', count: snapshotTickers.length };
+    }
+
+    async getAggregates(request: AggregatesRequest): Promise<AggregatesResponse> {
+        const productId = toStreamSymbol(request.ticker);
+        const granularity = request.multiplier * (TIMESPAN_SECONDS[request.timespan] || 0);
+
+        if (!SUPPORTED_GRANULARITIES.includes(granularity)) {
+            throw new Error(`Coinbase does not support ${request.multiplier} ${request.timespan} candles`);
+        }
+
+        const start = new Date(`${request.from}T00:00:00Z`).getTime();
+        const end = Math.min(new Date(`${request.to}T23:59:59Z`).getTime(), Date.now());
+        const windowMs = granularity * 1000 * MAX_CANDLES_PER_REQUEST;
+
+        const bars: AggregateBar[] = [];
+        for (let windowStart = start; windowStart < end; windowStart += windowMs) {
+            const windowEnd = Math.min(windowStart + windowMs, end);
+            const params = new URLSearchParams({
+                granularity: String(granularity),
+                start: new Date(windowStart).toISOString(),
+                end: new Date(windowEnd).toISOString()
+            });
+
+            // Candles come back newest first as [time, low, high, open, close, volume]
+            const candles = await fetchCoinbaseJson<number[][]>(`/products/${productId}/candles?${params.toString()}`);
+            for (const [time, low, high, open, close, volume] of candles) {
+                bars.push({ t: time * 1000, o: open, h: high, l: low, c: close, v: volume });
+            }
+        }
+
+        bars.sort((a, b) => a.t - b.t);
+
+        return {
+            ticker: toPolygonCryptoTicker(productId),
+            status: 'OK',
+            results: bars,
+            resultsCount: bars.length
+        };
+    }
+
+    async getTickerDetails(ticker: string): Promise<TickerDetailsResponse> {
+        const productId = toStreamSymbol(ticker);
+        const product = await fetchCoinbaseJson<CoinbaseProduct>(`/products/${productId}`);
+
+        return {
+            status: 'OK',
+            results: {
+                ticker: toPolygonCryptoTicker(productId),
+                name: product.display_name || `${product.base_currency}/${product.quote_currency}`,
+                market: 'crypto',
+                active: product.status === 'online',
+                currency_name: product.quote_currency
+            }
+        };
+    }
+
+    async getNews(): Promise<NewsResponse> {
+        // Coinbase has no news feed
+        return { results: [], count: 0, status: 'OK' };
+    }
+
+    async getMarketStatus(): Promise<MarketStatusResponse> {
+        // Crypto trades around the clock
+        return {
+            market: 'open',
+            serverTime: new Date().toISOString(),
+            currencies: { crypto: 'open' }
+        };
+    }
+
+    subscribeTrades(symbol: string, handlers: TradeStreamHandlers): () => void {
+        const productId = toStreamSymbol(symbol);
+
+        const onMessage = (message: CoinbaseFeedMessage) => {
+            const price = parseFloat(message.price);
+            const timestamp = new Date(message.time).getTime();
+
+            // Quotes come from the ticker channel and trades only from matches, so each print is
+            // emitted once. last_match replays the trade before we subscribed, which isn't new.
+            if (message.type === 'ticker') {
+                handlers.onQuote?.({
+                    symbol: message.product_id,
+                    price,
+                    timestamp,
+                    open24h: parseOptional(message.open_24h),
+                    high24h: parseOptional(message.high_24h),
+                    low24h: parseOptional(message.low_24h),
+                    volume24h: parseOptional(message.volume_24h),
+                    bestBid: parseOptional(message.best_bid),
+                    bestAsk: parseOptional(message.best_ask)
+                });
+                return;
+            }
+            if (message.type !== 'match') return;
+
+            handlers.onTrades([{
+                symbol: message.product_id,
+                price,
+                size: parseFloat(message.size ?? '0'),
+                timestamp,
+                // A match names the maker's side; the aggressor took the other one
+                side: message.side === 'buy' ? 'sell' : message.side === 'sell' ? 'buy' : 'unknown',
+                id: message.trade_id
+            }]);
+        };
+
+        // The heartbeat channel has no handler of its own; it keeps the connection's stale check fed
+        return subscribeToFeed(getCoinbaseFeed(), [
+            { channel: 'ticker', symbol: productId },
+            { channel: 'matches', symbol: productId },
+            { channel: 'heartbeat', symbol: productId }
+        ], onMessage, handlers);
+    }
+
+    subscribeOrderBook(symbol: string, handlers: OrderBookStreamHandlers): () => void {
+        const productId = toStreamSymbol(symbol);
+        const feed = getCoinbaseBookFeed();
+
+        const onMessage = (message: CoinbaseBookMessage) => {
+            const changes = toBookChanges(message);
+            const timestamp = message.updates.length > 0 ? new Date(message.updates[0].event_time).getTime() : Date.now();
+
+            if (message.type === 'snapshot') {
+                const snapshot: OrderBookSnapshot = { symbol: productId, bids: [], asks: [], timestamp };
+                for (const { side, price, size } of changes) {
+                    (side === 'bid' ? snapshot.bids : snapshot.asks).push({ price, size });
+                }
+                handlers.onSnapshot(snapshot);
+            } else {
+                handlers.onUpdate({ symbol: productId, changes, timestamp });
+            }
+        };
+
+        // Resyncs on this connection name the streams they affect
+        const offResync = feed.events.on('resync', ({ reason, subscriptions }) => {
+            if (subscriptions.some(subscription => subscription.symbol === productId)) {
+                handlers.onResync?.(reason);
+            }
+        });
+        const unsubscribe = subscribeToFeed(feed, [{ channel: LEVEL2_CHANNEL, symbol: productId }], onMessage, handlers);
+
+        return () => {
+            offResync();
+            unsubscribe();
+        };
+    }
+
+    reconnect(): void {
+        getCoinbaseFeed().reconnect();
+        reconnectCoinbaseBookFeed();
+    }
+}
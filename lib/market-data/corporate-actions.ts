@@ -0,0 +1,59 @@
+import { Dividend, StockSplit } from './types';
+
+export type CorporateActionType = 'split' | 'dividend';
+
+// A split or dividend reduced to what a list or a chart marker needs
+export interface CorporateAction {
+    type: CorporateActionType;
+    ticker: string;
+    date: string;        // execution date for splits, ex-dividend date for dividends (YYYY-MM-DD)
+    label: string;       // "4-for-1 split", "$0.24 dividend"
+    split?: StockSplit;
+    dividend?: Dividend;
+}
+
+// Polygon's dividend_type codes
+const DIVIDEND_TYPE_LABELS: Record<string, string> = {
+    CD: 'dividend',
+    SC: 'special dividend',
+    LT: 'long-term capital gain',
+    ST: 'short-term capital gain'
+};
+
+/**
+ * New shares per old share: 4 for a 4-for-1 split, 0.1 for a 1-for-10 reverse split.
+ */
+export const getSplitRatio = (split: StockSplit): number =>
+    split.split_from > 0 ? split.split_to / split.split_from : 1;
+
+export const describeSplit = (split: StockSplit): string =>
+    getSplitRatio(split) < 1
+        ? `${split.split_to}-for-${split.split_from} reverse split`
+        : `${split.split_to}-for-${split.split_from} split`;
+
+export const describeDividend = (dividend: Dividend): string => {
+    const amount = dividend.cash_amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 4 });
+    const currency = !dividend.currency || dividend.currency === 'USD' ? '$' : `${dividend.currency} `;
+    const kind = DIVIDEND_TYPE_LABELS[dividend.dividend_type ?? 'CD'] ?? 'dividend';
+    return `${currency}${amount} ${kind}`;
+};
+
+/**
+ * Splits and dividends as one list, newest first.
+ */
+export const toCorporateActions = (splits: StockSplit[], dividends: Dividend[]): CorporateAction[] => [
+    ...splits.map(split => ({
+        type: 'split' as const,
+        ticker: split.ticker,
+        date: split.execution_date,
+        label: describeSplit(split),
+        split
+    })),
+    ...dividends.map(dividend => ({
+        type: 'dividend' as const,
+        ticker: dividend.ticker,
+        date: dividend.ex_dividend_date,
+        label: describeDividend(dividend),
+        dividend
+    }))
+].sort((a, b) => b.date.localeCompare(a.date));
@@ -0,0 +1,224 @@
+import {
+    AggregateBar,
+    AggregatesRequest,
+    AggregatesResponse,
+    AssetMarket,
+    MarketDataProvider,
+    MarketStatusResponse,
+    NewsResponse,
+    SnapshotResponse,
+    SnapshotTicker,
+    TickerDetailsResponse,
+    Trade,
+    TradeStreamHandlers
+} from './types';
+import { isCryptoTicker, toStreamSymbol } from './symbols';
+
+// Recorded responses live under public/ so they are served as static files in development
+const DEFAULT_FIXTURE_BASE_URL = '/fixtures/market-data';
+
+const TIMESPAN_MS: Record<string, number> = {
+    second: 1000,
+    minute: 60 * 1000,
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+};
+
+interface SnapshotFixture {
+    stocks: SnapshotTicker[];
+    crypto: SnapshotTicker[];
+}
+
+interface TradeFixture {
+    symbol: string;
+    trades: Trade[];
+}
+
+// Ticker symbols contain characters that don't belong in file names ("X:BTCUSD")
+const toFixtureName = (ticker: string): string => ticker.toUpperCase().replace(/[^A-Z0-9-]/g, '_');
+
+/**
+ * Roll bars up into buckets of `multiplier` timespans (e.g. 1-minute bars into 5-minute bars).
+ * VWAP is volume-weighted across the bucket and trade counts add up; either is left out when a
+ * bar in the bucket doesn't have it.
+ */
+const rollUpBars = (bars: AggregateBar[], multiplier: number, timespan: string): AggregateBar[] => {
+    if (multiplier <= 1 || bars.length === 0) return bars;
+
+    const bucketMs = multiplier * (TIMESPAN_MS[timespan] || TIMESPAN_MS.day);
+    const buckets = new Map<number, AggregateBar>();
+
+    for (const bar of bars) {
+        const bucketStart = Math.floor(bar.t / bucketMs) * bucketMs;
+        const existing = buckets.get(bucketStart);
+        if (!existing) {
+            buckets.set(bucketStart, { ...bar, t: bucketStart });
+        } else {
+            const volume = existing.v + bar.v;
+            existing.vw = existing.vw !== undefined && bar.vw !== undefined
+                ? (volume > 0 ? (existing.vw * existing.v + bar.vw * bar.v) / volume : bar.vw)
+                : undefined;
+            existing.n = existing.n !== undefined && bar.n !== undefined ? existing.n + bar.n : undefined;
+            existing.h = Math.max(existing.h, bar.h);
+            existing.l = Math.min(existing.l, bar.l);
+            existing.c = bar.c;
+            existing.v = volume;
+        }
+    }
+
+    return Array.from(buckets.values()).sort((a, b) => a.t - b.t);
+};
+
+/**
+ * Deterministic provider backed by recorded JSON files, for working offline and in tests.
+ * Trade streams replay a recorded session in a loop with its original spacing, rebased to "now".
+ */
+export class FixtureMarketDataProvider implements MarketDataProvider {
+    readonly id = 'fixture' as const;
+
+    private baseUrl: string;
+    private replaySpeed: number;
+    private cache = new Map<string, Promise<unknown>>();
+
+    constructor(
+        baseUrl: string = process.env.NEXT_PUBLIC_MARKET_DATA_FIXTURE_URL || DEFAULT_FIXTURE_BASE_URL,
+        replaySpeed: number = Number(process.env.NEXT_PUBLIC_MARKET_DATA_REPLAY_SPEED) || 1
+    ) {
+        this.baseUrl = baseUrl.replace(/\/$/, '');
+        this.replaySpeed = replaySpeed;
+    }
+
+    /**
+     * Load a fixture file, or return the fallback when it hasn't been recorded
+     */
+    private load<T>(path: string, fallback: T): Promise<T> {
+        if (!this.cache.has(path)) {
+            const request = fetch(`${this.baseUrl}/${path}`)
+                .then(response => (response.ok ? response.json() : fallback))
+                .catch(() => fallback);
+            this.cache.set(path, request);
+        }
+        return this.cache.get(path) as Promise<T>;
+    }
+
+    async getSnapshots(market: AssetMarket, tickers?: string[]): Promise<SnapshotResponse> {
+        const fixture = await this.load<SnapshotFixture>('snapshots.json', { stocks: [], crypto: [] });
+        const all = fixture[market] || [];
+
+        const wanted = tickers?.map(t => t.toUpperCase());
+        const selected = wanted && wanted.length > 0
+            ? all.filter(t => wanted.includes(t.ticker.toUpperCase()))
+            : all;
+
+        return { tickers: selected, status: 'OK', count: selected.length };
+    }
+
+    async getAggregates(request: AggregatesRequest): Promise<AggregatesResponse> {
+        // Finer timespans are recorded as minute bars and rolled up; coarser ones as daily bars
+        const sourceTimespan = ['second', 'minute', 'hour'].includes(request.timespan) ? 'minute' : 'day';
+        const fixture = await this.load<AggregatesResponse>(
+            `aggregates/${toFixtureName(request.ticker)}-${sourceTimespan}.json`,
+            { results: [] }
+        );
+
+        const from = new Date(`${request.from}T00:00:00Z`).getTime();
+        const to = new Date(`${request.to}T23:59:59Z`).getTime();
+        const inRange = (fixture.results || []).filter(bar => bar.t >= from && bar.t <= to);
+
+        const unitMultiplier = request.timespan === 'hour' ? request.multiplier * 60 : request.multiplier;
+        const rollUpTimespan = request.timespan === 'hour' ? 'minute' : request.timespan;
+        const results = rollUpBars(inRange, unitMultiplier, rollUpTimespan);
+
+        return {
+            ticker: request.ticker.toUpperCase(),
+            status: 'OK',
+            results,
+            resultsCount: results.length
+        };
+    }
+
+    async getTickerDetails(ticker: string): Promise<TickerDetailsResponse> {
+        const fixture = await this.load<Record<string, TickerDetailsResponse['results']>>('ticker-details.json', {});
+        const results = fixture[ticker.toUpperCase()];
+
+        if (!results) {
+            throw new Error(`No recorded ticker details for ${ticker}`);
+        }
+
+        return { status: 'OK', results };
+    }
+
+    async getNews(ticker: string, limit: number = 5): Promise<NewsResponse> {
+        const fixture = await this.load<Record<string, NewsResponse['results']>>('news.json', {});
+        const results = (fixture[ticker.toUpperCase()] || []).slice(0, limit);
+        return { status: 'OK', results, count: results.length };
+    }
+
+    getMarketStatus(): Promise<MarketStatusResponse> {
+        return this.load<MarketStatusResponse>('market-status.json', { market: 'closed' });
+    }
+
+    subscribeTrades(symbol: string, handlers: TradeStreamHandlers): () => void {
+        const streamSymbol = isCryptoTicker(symbol) ? toStreamSymbol(symbol) : symbol.toUpperCase();
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        let cancelled = false;
+
+        handlers.onStatus?.('Connecting...');
+        handlers.onError?.(null);
+
+        this.load<TradeFixture>(`trades/${toFixtureName(streamSymbol)}.json`, { symbol: streamSymbol, trades: [] })
+            .then(fixture => {
+                if (cancelled) return;
+
+                const trades = [...fixture.trades].sort((a, b) => a.timestamp - b.timestamp);
+                if (trades.length === 0) {
+                    handlers.onStatus?.('No recorded trades');
+                    return;
+                }
+
+                handlers.onStatus?.(`Connected to ${streamSymbol}`);
+
+                const recordedStart = trades[0].timestamp;
+                const recordedDuration = trades[trades.length - 1].timestamp - recordedStart + 1000;
+                let replayStart = Date.now();
+                let index = 0;
+
+                const emitNext = () => {
+                    if (cancelled) return;
+
+                    const recorded = trades[index];
+                    const trade: Trade = {
+                        ...recorded,
+                        symbol: streamSymbol,
+                        timestamp: replayStart + (recorded.timestamp - recordedStart) / this.replaySpeed
+                    };
+
+                    handlers.onTrades([trade]);
+                    handlers.onQuote?.({ symbol: streamSymbol, price: trade.price, timestamp: trade.timestamp });
+
+                    index++;
+                    let delay: number;
+                    if (index >= trades.length) {
+                        // Loop the session, continuing the clock where the recording ended
+                        index = 0;
+                        replayStart += recordedDuration / this.replaySpeed;
+                        delay = 1000 / this.replaySpeed;
+                    } else {
+                        delay = (trades[index].timestamp - recorded.timestamp) / this.replaySpeed;
+                    }
+
+                    timer = setTimeout(emitNext, Math.max(0, delay));
+                };
+
+                emitNext();
+            });
+
+        return () => {
+            cancelled = true;
+            if (timer) {
+                clearTimeout(timer);
+            }
+        };
+    }
+}
@@ -0,0 +1,73 @@
+import { getBarStore } from '@/lib/bar-cache';
+import { withAggregatesCache } from './aggregates-cache';
+import { CoinbaseMarketDataProvider } from './coinbase-provider';
+import { FixtureMarketDataProvider } from './fixture-provider';
+import { PolygonMarketDataProvider } from './polygon-provider';
+import { MarketDataProvider, MarketDataProviderId } from './types';
+
+export * from './types';
+export * from './symbols';
+export * from './aggregation';
+export * from './sessions';
+export * from './corporate-actions';
+export { invalidateSplitAdjustedBars } from './aggregates-cache';
+
+const PROVIDER_IDS: MarketDataProviderId[] = ['polygon', 'coinbase', 'fixture'];
+
+const providers = new Map<MarketDataProviderId, MarketDataProvider>();
+
+// Installed while a market replay is running; takes precedence over every other provider
+let overrideProvider: MarketDataProvider | null = null;
+
+// Live providers keep fetched history in the browser's bar store; fixtures are local already
+const withBarCache = (provider: MarketDataProvider): MarketDataProvider => {
+    const store = getBarStore();
+    return store ? withAggregatesCache(provider, store) : provider;
+};
+
+const createProvider = (id: MarketDataProviderId): MarketDataProvider => {
+    switch (id) {
+        case 'coinbase':
+            return withBarCache(new CoinbaseMarketDataProvider());
+        case 'fixture':
+            return new FixtureMarketDataProvider();
+        case 'polygon':
+        default:
+            return withBarCache(new PolygonMarketDataProvider());
+    }
+};
+
+const getConfiguredProviderId = (): MarketDataProviderId | undefined => {
+    const configured = process.env.NEXT_PUBLIC_MARKET_DATA_PROVIDER as MarketDataProviderId | undefined;
+    return configured && PROVIDER_IDS.includes(configured) ? configured : undefined;
+};
+
+/**
+ * Route every getMarketDataProvider() call to `provider` (a market replay) until cleared with null.
+ * Components already subscribed keep their old streams; remount them to pick the override up.
+ */
+export const setMarketDataProviderOverride = (provider: MarketDataProvider | null): void => {
+    overrideProvider = provider;
+};
+
+/**
+ * Get the market data provider to use.
+ * @param preferred Provider a feature is built around (e.g. the Coinbase chart). Ignored when
+ * NEXT_PUBLIC_MARKET_DATA_PROVIDER=fixture so the whole app can run offline against recorded data,
+ * and while a replay override is installed.
+ */
+export const getMarketDataProvider = (preferred?: MarketDataProviderId): MarketDataProvider => {
+    if (overrideProvider) {
+        return overrideProvider;
+    }
+
+    const configured = getConfiguredProviderId();
+    const id = configured === 'fixture' ? 'fixture' : (preferred ?? configured ?? 'polygon');
+
+    let provider = providers.get(id);
+    if (!provider) {
+        provider = createProvider(id);
+        providers.set(id, provider);
+    }
+    return provider;
+};
@@ -0,0 +1,153 @@
+import { Feed, FeedConnection, FeedFrame, FeedProtocol, FeedSubscription, createTabSharedFeed } from '@/lib/feeds';
+
+// Polygon WebSocket clusters. Each is one connection shared by every subscriber in every tab of
+// the app, which also keeps us inside Polygon's per-key connection limit.
+export type PolygonCluster = 'crypto' | 'stocks';
+
+// Overridable so the app can run against a local mock server
+const POLYGON_WS_BASE_URL = process.env.NEXT_PUBLIC_POLYGON_WS_URL || 'wss://socket.polygon.io';
+
+// Polygon sends no heartbeats and a quiet stock can go minutes without a print, so after half
+// of this much silence the feed is probed, and a probe unanswered by the end means a dead socket
+const POLYGON_STALE_TIMEOUT_MS = 60000;
+
+// Hands signed-in users the streaming key, so no Polygon key is built into the bundle
+const STREAM_KEY_URL = '/api/market/stream-key';
+
+// Crypto trade on the XT channel
+export interface CryptoTradeMessage {
+    ev: 'XT';
+    pair: string;     // Crypto pair, e.g. "BTC-USD"
+    p: number;        // Price
+    t: number;        // Timestamp in Unix MS
+    s: number;        // Size
+    c: number[];      // Conditions (0: empty, 1: sellside, 2: buyside)
+    i?: number;       // Trade ID (optional)
+    x?: number;       // Crypto exchange ID
+    r?: number;       // Received timestamp
+}
+
+// Stock trade on the T channel
+export interface StockTradeMessage {
+    ev: 'T';
+    sym: string;
+    p: number;      // Price
+    s: number;      // Size
+    t: number;      // Timestamp in Unix MS
+    x?: number;     // Exchange ID
+    i?: string;     // Trade ID
+    c?: number[];   // Trade conditions
+    z?: number;     // Tape (1 = NYSE, 2 = AMEX, 3 = Nasdaq)
+}
+
+// Stock minute bar on the AM channel
+export interface StockAggregateMessage {
+    ev: 'AM';
+    sym: string;
+    o: number;
+    h: number;
+    l: number;
+    c: number;
+    v: number;      // Volume in this bar
+    vw?: number;    // Bar VWAP
+    av?: number;    // Accumulated volume for the day
+    op?: number;    // Official opening price for the day
+    s: number;      // Bar start, Unix MS
+    e: number;      // Bar end, Unix MS
+}
+
+export type PolygonFeedMessage = CryptoTradeMessage | StockTradeMessage | StockAggregateMessage;
+
+// Polygon status events that mean the feed won't serve us
+const ERROR_STATUSES = new Set(['auth_failed', 'max_connections', 'error']);
+
+const toParams = (subscriptions: FeedSubscription[]): string =>
+    subscriptions.map(({ channel, symbol }) => `${channel}.${symbol}`).join(',');
+
+/**
+ * Fetch the streaming key from the server. Asked for on every connection rather than kept, so a
+ * rotated key is picked up by the next reconnect.
+ */
+export const fetchPolygonStreamKey = async (): Promise<string> => {
+    const response = await fetch(STREAM_KEY_URL, { cache: 'no-store' });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || typeof data.apiKey !== 'string') {
+        throw new Error(`Streaming key unavailable: ${data.error || response.statusText} (${response.status})`);
+    }
+    return data.apiKey;
+};
+
+/**
+ * Polygon's framing: authenticate with the API key, then subscribe to "EV.SYMBOL" channels.
+ * Every frame is a JSON array of events; data events name their channel in `ev`.
+ * @param getApiKey - Called each time a socket opens
+ */
+export const createPolygonProtocol = (
+    cluster: PolygonCluster,
+    getApiKey: () => Promise<string>,
+    baseUrl: string = POLYGON_WS_BASE_URL
+): FeedProtocol<PolygonFeedMessage> => ({
+    name: `Polygon ${cluster}`,
+    url: `${baseUrl}/${cluster}`,
+
+    handshake: async () => ({
+        frames: [JSON.stringify({ action: 'auth', params: await getApiKey() })],
+        awaitReady: true
+    }),
+
+    decode: (data) => {
+        const events = JSON.parse(data);
+        if (!Array.isArray(events)) return [];
+
+        const frames: FeedFrame<PolygonFeedMessage>[] = [];
+        for (const event of events) {
+            if (!event || typeof event.ev !== 'string') continue;
+
+            if (event.ev === 'status') {
+                if (event.status === 'auth_success') {
+                    frames.push({ type: 'ready' });
+                } else if (ERROR_STATUSES.has(event.status)) {
+                    frames.push({ type: 'error', message: event.message || `Polygon ${cluster} feed: ${event.status}` });
+                }
+                continue;
+            }
+
+            const symbol = event.sym ?? event.pair;
+            if (typeof symbol === 'string') {
+                frames.push({ type: 'message', channel: event.ev, symbol, message: event as PolygonFeedMessage });
+            }
+        }
+        return frames;
+    },
+
+    encodeSubscribe: (subscriptions) => [JSON.stringify({ action: 'subscribe', params: toParams(subscriptions) })],
+    encodeUnsubscribe: (subscriptions) => [JSON.stringify({ action: 'unsubscribe', params: toParams(subscriptions) })],
+
+    // Subscribing again to live streams changes nothing upstream, but Polygon acknowledges it with a status event
+    staleTimeoutMs: POLYGON_STALE_TIMEOUT_MS,
+    encodeProbe: (subscriptions) => subscriptions.length > 0
+        ? [JSON.stringify({ action: 'subscribe', params: toParams(subscriptions) })]
+        : []
+});
+
+const feeds = new Map<PolygonCluster, Feed<PolygonFeedMessage>>();
+
+/**
+ * The app's shared feed for a Polygon cluster, created on first use. The socket itself is opened
+ * by whichever tab leads, and only that tab fetches the key.
+ */
+export const getPolygonFeed = (cluster: PolygonCluster): Feed<PolygonFeedMessage> => {
+    let feed = feeds.get(cluster);
+    if (!feed) {
+        feed = createTabSharedFeed(`polygon-${cluster}`, () => new FeedConnection(createPolygonProtocol(cluster, fetchPolygonStreamKey)));
+        feeds.set(cluster, feed);
+    }
+    return feed;
+};
+
+/**
+ * Reconnect every Polygon feed that has been opened
+ */
+export const reconnectPolygonFeeds = () => {
+    feeds.forEach(feed => feed.reconnect());
+};
@@ -0,0 +1,258 @@
+import {
+    AggregatesRequest,
+    AggregatesResponse,
+    AssetMarket,
+    DividendsResponse,
+    FinancialsResponse,
+    FinancialsTimeframe,
+    GroupedDailyResponse,
+    MarketDataProvider,
+    MarketStatusResponse,
+    NewsResponse,
+    OptionsChainRequest,
+    OptionsChainResponse,
+    OptionsExpirationsResponse,
+    SnapshotResponse,
+    SplitsResponse,
+    StreamAggregate,
+    TickerDetailsResponse,
+    Trade,
+    TradeStreamHandlers,
+    TradesRequest,
+    TradesResponse
+} from './types';
+import { FeedSubscription, subscribeToFeed } from '@/lib/feeds';
+import {
+    CryptoTradeMessage,
+    PolygonFeedMessage,
+    StockAggregateMessage,
+    StockTradeMessage,
+    getPolygonFeed,
+    reconnectPolygonFeeds
+} from './polygon-feed';
+import { isCryptoTicker, toPolygonCryptoTicker, toStreamSymbol } from './symbols';
+
+// Browser-facing proxy routes; the Polygon key stays on the server
+const MARKET_API_BASE = '/api/market';
+
+/**
+ * Fetch JSON from one of our market routes and surface the route's error message on failure
+ */
+export const fetchMarketJson = async <T>(url: string, description: string): Promise<T> => {
+    const response = await fetch(url);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch ${description}: ${data.error || response.statusText} (${response.status})`);
+    }
+
+    return data as T;
+};
+
+// Polygon's page size for historical trades
+const MAX_TRADES_LIMIT = 50000;
+
+// A row from /v3/trades (timestamps in nanoseconds)
+interface HistoricalTrade {
+    price: number;
+    size: number;
+    sip_timestamp?: number;
+    participant_timestamp?: number;
+    conditions?: number[];
+    exchange?: number;
+    id?: string;
+}
+
+interface HistoricalTradesPayload {
+    results?: HistoricalTrade[];
+}
+
+const fromHistoricalTrade = (symbol: string, isCrypto: boolean, row: HistoricalTrade): Trade => ({
+    symbol,
+    price: row.price,
+    size: row.size,
+    timestamp: Math.floor((row.sip_timestamp ?? row.participant_timestamp ?? 0) / 1e6),
+    // Crypto conditions carry the aggressor side like the live XT channel; stock prints don't
+    side: isCrypto && row.conditions?.includes(2) ? 'buy' : isCrypto && row.conditions?.includes(1) ? 'sell' : 'unknown',
+    id: row.id,
+    conditions: row.conditions,
+    exchange: row.exchange
+});
+
+const fromCryptoTrade = (message: CryptoTradeMessage): Trade => ({
+    symbol: message.pair,
+    price: message.p,
+    size: message.s,
+    timestamp: message.t,
+    side: message.c?.includes(2) ? 'buy' : message.c?.includes(1) ? 'sell' : 'unknown',
+    id: message.i,
+    conditions: message.c,
+    exchange: message.x
+});
+
+const fromStockTrade = (message: StockTradeMessage): Trade => ({
+    symbol: message.sym,
+    price: message.p,
+    size: message.s,
+    timestamp: message.t,
+    // Stock trade prints don't carry an aggressor side
+    side: 'unknown',
+    id: message.i,
+    conditions: message.c,
+    exchange: message.x
+});
+
+const fromStockAggregate = (message: StockAggregateMessage): StreamAggregate => ({
+    symbol: message.sym,
+    open: message.o,
+    high: message.h,
+    low: message.l,
+    close: message.c,
+    volume: message.v,
+    vwap: message.vw,
+    start: message.s,
+    end: message.e
+});
+
+/**
+ * Polygon.io REST (through /api/market/*) and the shared crypto and stocks feed connections
+ */
+export class PolygonMarketDataProvider implements MarketDataProvider {
+    readonly id = 'polygon' as const;
+
+    async getSnapshots(market: AssetMarket, tickers?: string[]): Promise<SnapshotResponse> {
+        const params = new URLSearchParams({ market });
+        if (tickers && tickers.length > 0) {
+            params.set('tickers', tickers.join(','));
+        }
+        const data = await fetchMarketJson<SnapshotResponse>(`${MARKET_API_BASE}/snapshot?${params.toString()}`, 'snapshot data');
+        return { ...data, tickers: data.tickers || [] };
+    }
+
+    getAggregates(request: AggregatesRequest): Promise<AggregatesResponse> {
+        const params = new URLSearchParams({
+            ticker: request.ticker,
+            multiplier: String(request.multiplier),
+            timespan: request.timespan,
+            from: request.from,
+            to: request.to,
+            adjusted: String(request.adjusted ?? true)
+        });
+        if (request.limit) {
+            params.set('limit', String(request.limit));
+        }
+        return fetchMarketJson<AggregatesResponse>(`${MARKET_API_BASE}/aggregates?${params.toString()}`, 'aggregate data');
+    }
+
+    getTickerDetails(ticker: string, date?: string): Promise<TickerDetailsResponse> {
+        const params = new URLSearchParams({ ticker });
+        if (date) {
+            params.set('date', date);
+        }
+        return fetchMarketJson<TickerDetailsResponse>(`${MARKET_API_BASE}/ticker-details?${params.toString()}`, 'ticker details');
+    }
+
+    getNews(ticker: string, limit: number = 5): Promise<NewsResponse> {
+        const params = new URLSearchParams({ ticker, limit: String(limit) });
+        return fetchMarketJson<NewsResponse>(`${MARKET_API_BASE}/news?${params.toString()}`, 'news');
+    }
+
+    getMarketStatus(): Promise<MarketStatusResponse> {
+        return fetchMarketJson<MarketStatusResponse>(`${MARKET_API_BASE}/market-status`, 'market status');
+    }
+
+    getSplits(ticker: string): Promise<SplitsResponse> {
+        const params = new URLSearchParams({ ticker });
+        return fetchMarketJson<SplitsResponse>(`${MARKET_API_BASE}/splits?${params.toString()}`, 'splits');
+    }
+
+    getDividends(ticker: string, limit: number = 100): Promise<DividendsResponse> {
+        const params = new URLSearchParams({ ticker, limit: String(limit) });
+        return fetchMarketJson<DividendsResponse>(`${MARKET_API_BASE}/dividends?${params.toString()}`, 'dividends');
+    }
+
+    getFinancials(ticker: string, timeframe: FinancialsTimeframe, limit: number = 8): Promise<FinancialsResponse> {
+        const params = new URLSearchParams({ ticker, timeframe, limit: String(limit) });
+        return fetchMarketJson<FinancialsResponse>(`${MARKET_API_BASE}/financials?${params.toString()}`, 'financials');
+    }
+
+    getOptionsExpirations(underlying: string): Promise<OptionsExpirationsResponse> {
+        const params = new URLSearchParams({ ticker: underlying });
+        return fetchMarketJson<OptionsExpirationsResponse>(`${MARKET_API_BASE}/options-expirations?${params.toString()}`, 'option expirations');
+    }
+
+    getOptionsChain(request: OptionsChainRequest): Promise<OptionsChainResponse> {
+        const params = new URLSearchParams({ ticker: request.underlying, expiration: request.expiration });
+        if (request.expirationTo) {
+            params.set('expirationTo', request.expirationTo);
+        }
+        if (request.strikeMin !== undefined) {
+            params.set('strikeMin', String(request.strikeMin));
+        }
+        if (request.strikeMax !== undefined) {
+            params.set('strikeMax', String(request.strikeMax));
+        }
+        return fetchMarketJson<OptionsChainResponse>(`${MARKET_API_BASE}/options-chain?${params.toString()}`, 'options chain');
+    }
+
+    async getGroupedDaily(market: AssetMarket, date: string): Promise<GroupedDailyResponse> {
+        const params = new URLSearchParams({ market, date });
+        const data = await fetchMarketJson<GroupedDailyResponse>(`${MARKET_API_BASE}/grouped-daily?${params.toString()}`, 'grouped daily bars');
+        return { ...data, date, results: data.results || [] };
+    }
+
+    async getTrades(request: TradesRequest): Promise<TradesResponse> {
+        const isCrypto = isCryptoTicker(request.ticker);
+        const ticker = isCrypto ? toPolygonCryptoTicker(request.ticker) : request.ticker.toUpperCase();
+        const limit = Math.min(request.limit ?? MAX_TRADES_LIMIT, MAX_TRADES_LIMIT);
+        const params = new URLSearchParams({
+            ticker,
+            from: String(Math.floor(request.from)),
+            to: String(Math.ceil(request.to)),
+            limit: String(limit)
+        });
+
+        const data = await fetchMarketJson<HistoricalTradesPayload>(`${MARKET_API_BASE}/trades?${params.toString()}`, 'trades');
+        const symbol = isCrypto ? toStreamSymbol(ticker) : ticker;
+        const rows = data.results || [];
+
+        return {
+            ticker,
+            trades: rows.map(row => fromHistoricalTrade(symbol, isCrypto, row)),
+            hasMore: rows.length >= limit
+        };
+    }
+
+    subscribeTrades(symbol: string, handlers: TradeStreamHandlers): () => void {
+        // "*" is the crypto firehose; everything else that isn't a crypto pair is a stock
+        const isStock = symbol !== '*' && !isCryptoTicker(symbol);
+
+        const subscriptions: FeedSubscription[] = isStock
+            ? [
+                { channel: 'T', symbol: symbol.toUpperCase() },
+                // Minute bars only for callers that want them
+                ...(handlers.onAggregate ? [{ channel: 'AM', symbol: symbol.toUpperCase() }] : [])
+            ]
+            : [{ channel: 'XT', symbol: symbol === '*' ? symbol : toStreamSymbol(symbol) }];
+
+        const onMessage = (message: PolygonFeedMessage) => {
+            switch (message.ev) {
+                case 'XT':
+                    handlers.onTrades([fromCryptoTrade(message)]);
+                    break;
+                case 'T':
+                    handlers.onTrades([fromStockTrade(message)]);
+                    break;
+                case 'AM':
+                    handlers.onAggregate?.(fromStockAggregate(message));
+                    break;
+            }
+        };
+
+        return subscribeToFeed(getPolygonFeed(isStock ? 'stocks' : 'crypto'), subscriptions, onMessage, handlers);
+    }
+
+    reconnect(): void {
+        reconnectPolygonFeeds();
+    }
+}
@@ -0,0 +1,42 @@
+// US equity trading sessions, in New York time
+export type MarketSession = 'pre-market' | 'regular' | 'after-hours' | 'closed';
+
+export const MARKET_SESSION_LABELS: Record<MarketSession, string> = {
+    'pre-market': 'Pre-market',
+    regular: 'Regular session',
+    'after-hours': 'After hours',
+    closed: 'Market closed'
+};
+
+const PRE_MARKET_OPEN = 4 * 60;         // 04:00
+const REGULAR_OPEN = 9 * 60 + 30;       // 09:30
+const REGULAR_CLOSE = 16 * 60;          // 16:00
+const AFTER_HOURS_CLOSE = 20 * 60;      // 20:00
+
+const newYorkClock = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/New_York',
+    hourCycle: 'h23',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric'
+});
+
+/**
+ * The session a timestamp falls in by the exchange clock. Holidays and early closes aren't known
+ * here, so this is for classifying prints; use the market status endpoint for whether the market is open.
+ */
+export const getEquitySession = (timestamp: number): MarketSession => {
+    const parts = newYorkClock.formatToParts(timestamp);
+    const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value ?? '';
+
+    const weekday = get('weekday');
+    if (weekday === 'Sat' || weekday === 'Sun') {
+        return 'closed';
+    }
+
+    const minutes = Number(get('hour')) * 60 + Number(get('minute'));
+    if (minutes >= PRE_MARKET_OPEN && minutes < REGULAR_OPEN) return 'pre-market';
+    if (minutes >= REGULAR_OPEN && minutes < REGULAR_CLOSE) return 'regular';
+    if (minutes >= REGULAR_CLOSE && minutes < AFTER_HOURS_CLOSE) return 'after-hours';
+    return 'closed';
+};
@@ -0,0 +1,42 @@
+import { AssetMarket } from './types';
+
+/**
+ * Is this a crypto ticker (Polygon "X:BTCUSD" or exchange "BTC-USD" form)?
+ */
+export const isCryptoTicker = (ticker: string): boolean => {
+    return ticker.startsWith('X:') || ticker.includes('-');
+};
+
+export const getAssetMarket = (ticker: string): AssetMarket => {
+    return isCryptoTicker(ticker) ? 'crypto' : 'stocks';
+};
+
+/**
+ * Convert any crypto ticker to the "BTC-USD" pair format used by the streaming feeds
+ */
+export const toStreamSymbol = (input: string): string => {
+    // If already in BTC-USD format, return as-is
+    if (/^[A-Z]+-USD$/.test(input)) {
+        return input;
+    }
+
+    // Remove X: prefix and any existing USD/USDT suffix
+    let base = input.replace('X:', '').replace(/(USD|USDT)$/, '');
+
+    // Strip an existing quote currency if the pair is already dashed
+    if (base.includes('-')) {
+        base = base.split('-')[0];
+    }
+
+    return `${base}-USD`;
+};
+
+/**
+ * Convert a "BTC-USD" pair to Polygon's "X:BTCUSD" crypto ticker
+ */
+export const toPolygonCryptoTicker = (input: string): string => {
+    if (input.startsWith('X:')) {
+        return input;
+    }
+    return `X:${input.replace('-', '')}`;
+};
@@ -0,0 +1,429 @@
+// Shared types for the pluggable market data layer.
+// Response shapes follow Polygon's REST payloads so existing hooks and components can
+// consume any provider without reshaping the data.
+
+export type MarketDataProviderId = 'polygon' | 'coinbase' | 'fixture' | 'replay';
+
+export type AssetMarket = 'stocks' | 'crypto';
+
+export type AggregateTimespan = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+// OHLCV bar as returned by the aggregates endpoint
+export interface AggregateBar {
+    t: number;  // bar start timestamp (Unix ms)
+    o: number;  // open
+    h: number;  // high
+    l: number;  // low
+    c: number;  // close
+    v: number;  // volume
+    vw?: number; // volume weighted average price
+    n?: number;  // number of trades
+}
+
+export interface AggregatesRequest {
+    ticker: string;
+    multiplier: number;
+    timespan: AggregateTimespan;
+    from: string; // YYYY-MM-DD
+    to: string;   // YYYY-MM-DD
+    adjusted?: boolean;
+    limit?: number; // max base bars Polygon aggregates (default 5000, max 50000)
+}
+
+export interface AggregatesResponse {
+    ticker?: string;
+    status?: string;
+    results?: AggregateBar[];
+    resultsCount?: number;
+    request_id?: string;
+    error?: string;
+}
+
+export interface TradesRequest {
+    ticker: string;
+    from: number;   // Unix ms, inclusive
+    to: number;     // Unix ms, exclusive
+    limit?: number; // max trades per request (default and max 50000)
+}
+
+export interface TradesResponse {
+    ticker?: string;
+    trades: Trade[]; // oldest first
+    // The limit was reached before `to`; request again from the last trade's timestamp
+    hasMore: boolean;
+}
+
+export interface SnapshotBar {
+    o?: number;
+    h?: number;
+    l?: number;
+    c?: number;
+    v?: number;
+    vw?: number;
+}
+
+export interface SnapshotTicker {
+    ticker: string;
+    day?: SnapshotBar;
+    min?: SnapshotBar;
+    prevDay?: SnapshotBar;
+    lastTrade?: {
+        p?: number; // price
+        s?: number; // size
+        t?: number; // timestamp
+        x?: number; // exchange ID
+    };
+    todaysChange?: number;
+    todaysChangePerc?: number;
+    updated?: number;
+    fmv?: number;
+}
+
+export interface SnapshotResponse {
+    tickers: SnapshotTicker[];
+    status?: string;
+    request_id?: string;
+    count?: number;
+}
+
+export interface TickerDetailsResponse {
+    results?: {
+        ticker: string;
+        name?: string;
+        market?: string;
+        [key: string]: unknown;
+    };
+    status?: string;
+    request_id?: string;
+}
+
+export interface NewsArticle {
+    id: string;
+    title: string;
+    description?: string;
+    article_url: string;
+    published_utc: string;
+    publisher: {
+        name: string;
+        homepage_url?: string;
+        logo_url?: string;
+    };
+    author?: string;
+    image_url?: string;
+    tickers?: string[];
+}
+
+export interface NewsResponse {
+    results?: NewsArticle[];
+    count?: number;
+    status?: string;
+}
+
+// A row from Polygon's splits reference endpoint; split_to shares replace every split_from shares
+export interface StockSplit {
+    id?: string;
+    ticker: string;
+    execution_date: string; // YYYY-MM-DD
+    split_from: number;
+    split_to: number;
+}
+
+export interface SplitsResponse {
+    results?: StockSplit[]; // newest first
+    status?: string;
+    request_id?: string;
+}
+
+// A row from Polygon's dividends reference endpoint
+export interface Dividend {
+    id?: string;
+    ticker: string;
+    cash_amount: number;
+    currency?: string;
+    declaration_date?: string; // YYYY-MM-DD
+    ex_dividend_date: string;  // YYYY-MM-DD
+    record_date?: string;
+    pay_date?: string;
+    frequency?: number;        // payments per year; 0 for one-off
+    dividend_type?: string;    // CD regular, SC special, LT/ST capital gains
+}
+
+export interface DividendsResponse {
+    results?: Dividend[]; // newest first
+    status?: string;
+    request_id?: string;
+}
+
+export type FinancialsTimeframe = 'quarterly' | 'annual' | 'ttm';
+
+// One line item of a statement, e.g. revenues or total assets
+export interface FinancialValue {
+    value: number;
+    unit?: string;   // "USD", "USD / shares"
+    label?: string;
+    order?: number;  // position on the filed statement
+}
+
+// Line items keyed by Polygon's snake_case names; filings only include what the company reports
+export type FinancialStatement = Record<string, FinancialValue | undefined>;
+
+// A row from Polygon's financials endpoint: one fiscal period's statements from an SEC filing
+export interface FinancialReport {
+    start_date?: string;  // YYYY-MM-DD
+    end_date?: string;    // YYYY-MM-DD
+    filing_date?: string; // YYYY-MM-DD
+    fiscal_period?: string; // Q1-Q4, FY, TTM
+    fiscal_year?: string;
+    timeframe?: FinancialsTimeframe;
+    company_name?: string;
+    tickers?: string[];
+    financials: {
+        income_statement?: FinancialStatement;
+        balance_sheet?: FinancialStatement;
+        cash_flow_statement?: FinancialStatement;
+        comprehensive_income?: FinancialStatement;
+    };
+}
+
+export interface FinancialsResponse {
+    results?: FinancialReport[]; // newest period first
+    status?: string;
+    request_id?: string;
+}
+
+export type OptionContractType = 'call' | 'put';
+
+// A row from Polygon's options chain snapshot; anything may be missing for illiquid contracts
+export interface OptionSnapshot {
+    break_even_price?: number;
+    details?: {
+        ticker?: string;            // "O:AAPL240719C00200000"
+        contract_type?: OptionContractType;
+        exercise_style?: string;    // american, european
+        expiration_date?: string;   // YYYY-MM-DD
+        shares_per_contract?: number;
+        strike_price?: number;
+    };
+    day?: {
+        open?: number;
+        high?: number;
+        low?: number;
+        close?: number;
+        volume?: number;
+        vwap?: number;
+        change_percent?: number;
+        previous_close?: number;
+    };
+    greeks?: {
+        delta?: number;
+        gamma?: number;
+        theta?: number;  // per calendar day
+        vega?: number;   // per 1 point of volatility
+    };
+    implied_volatility?: number; // annualised, 0.25 = 25%
+    last_quote?: {
+        bid?: number;
+        ask?: number;
+        bid_size?: number;
+        ask_size?: number;
+        midpoint?: number;
+    };
+    last_trade?: {
+        price?: number;
+        size?: number;
+        sip_timestamp?: number;
+    };
+    open_interest?: number;
+    underlying_asset?: {
+        ticker?: string;
+        price?: number;
+    };
+}
+
+export interface OptionsChainRequest {
+    underlying: string;
+    expiration: string;  // YYYY-MM-DD
+    // Every expiration from `expiration` through this date instead of just the one
+    expirationTo?: string;
+    strikeMin?: number;
+    strikeMax?: number;
+}
+
+export interface OptionsChainResponse {
+    results?: OptionSnapshot[];
+    // More contracts matched than one request returns; narrow the strike range
+    truncated?: boolean;
+    status?: string;
+}
+
+export interface OptionsExpirationsResponse {
+    expirations: string[]; // YYYY-MM-DD, soonest first
+    status?: string;
+}
+
+// A row from Polygon's grouped daily endpoint: one ticker's bar for the day
+export interface GroupedDailyBar extends AggregateBar {
+    T: string;  // ticker
+}
+
+// Every ticker's daily bar for one date; empty on weekends, holidays and days not yet closed
+export interface GroupedDailyResponse {
+    date: string;
+    results: GroupedDailyBar[];
+    resultsCount?: number;
+    status?: string;
+}
+
+export interface MarketStatusResponse {
+    afterHours?: boolean;
+    earlyHours?: boolean;
+    market?: string;
+    serverTime?: string;
+    exchanges?: Record<string, string | undefined>;
+    currencies?: Record<string, string | undefined>;
+    indicesGroups?: Record<string, string | undefined>;
+}
+
+// Provider-neutral trade print
+export interface Trade {
+    symbol: string;      // stream symbol, e.g. "BTC-USD"
+    price: number;
+    size: number;
+    timestamp: number;   // Unix ms
+    side: 'buy' | 'sell' | 'unknown';   // aggressor (taker) side
+    id?: string | number;
+    conditions?: number[];
+    exchange?: number;
+}
+
+// Rolling ticker statistics pushed alongside trades (Coinbase "ticker" channel and equivalents)
+export interface QuoteUpdate {
+    symbol: string;
+    price: number;
+    timestamp: number;
+    open24h?: number;
+    high24h?: number;
+    low24h?: number;
+    volume24h?: number;
+    bestBid?: number;
+    bestAsk?: number;
+}
+
+// Bar pushed by the feed as it closes (Polygon's per-minute AM channel for stocks)
+export interface StreamAggregate {
+    symbol: string;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+    vwap?: number;
+    start: number;       // Unix ms
+    end: number;         // Unix ms
+}
+
+export interface TradeStreamHandlers {
+    onTrades: (trades: Trade[]) => void;
+    onQuote?: (quote: QuoteUpdate) => void;
+    onAggregate?: (aggregate: StreamAggregate) => void;
+    onStatus?: (status: string) => void;
+    onError?: (error: string | null) => void;
+}
+
+export type BookSide = 'bid' | 'ask';
+
+// Aggregate resting size at one price
+export interface BookLevel {
+    price: number;
+    size: number;
+}
+
+// A level's new size; zero removes it
+export interface BookChange extends BookLevel {
+    side: BookSide;
+}
+
+// The full book, sent on subscribe and again after every resync
+export interface OrderBookSnapshot {
+    symbol: string;
+    bids: BookLevel[];
+    asks: BookLevel[];
+    timestamp: number;   // Unix ms
+}
+
+export interface OrderBookUpdate {
+    symbol: string;
+    changes: BookChange[];
+    timestamp: number;   // Unix ms
+}
+
+export interface OrderBookStreamHandlers {
+    onSnapshot: (snapshot: OrderBookSnapshot) => void;
+    onUpdate: (update: OrderBookUpdate) => void;
+    // The stream lost its place; ignore updates until the next snapshot
+    onResync?: (reason: string) => void;
+    onStatus?: (status: string) => void;
+    onError?: (error: string | null) => void;
+}
+
+/**
+ * A source of market data. Every hook and chart talks to one of these rather than to a
+ * specific vendor, so implementations can be swapped (live Polygon, Coinbase, recorded fixtures).
+ */
+export interface MarketDataProvider {
+    readonly id: MarketDataProviderId;
+
+    getSnapshots(market: AssetMarket, tickers?: string[]): Promise<SnapshotResponse>;
+    getAggregates(request: AggregatesRequest): Promise<AggregatesResponse>;
+    getTickerDetails(ticker: string, date?: string): Promise<TickerDetailsResponse>;
+    getNews(ticker: string, limit?: number): Promise<NewsResponse>;
+    getMarketStatus(): Promise<MarketStatusResponse>;
+
+    /**
+     * Historical trade prints for a time range, where the provider has them.
+     */
+    getTrades?(request: TradesRequest): Promise<TradesResponse>;
+
+    /**
+     * Stock splits and cash dividends for a ticker, newest first, where the provider has them.
+     */
+    getSplits?(ticker: string): Promise<SplitsResponse>;
+    getDividends?(ticker: string, limit?: number): Promise<DividendsResponse>;
+
+    /**
+     * Reported financial statements for a company, newest period first, where the provider has them.
+     */
+    getFinancials?(ticker: string, timeframe: FinancialsTimeframe, limit?: number): Promise<FinancialsResponse>;
+
+    /**
+     * Listed option expirations and one expiration's chain for an underlying, where the provider has options.
+     */
+    getOptionsExpirations?(underlying: string): Promise<OptionsExpirationsResponse>;
+    getOptionsChain?(request: OptionsChainRequest): Promise<OptionsChainResponse>;
+
+    /**
+     * Every ticker's daily bar in a market for one date, where the provider has market-wide bars.
+     */
+    getGroupedDaily?(market: AssetMarket, date: string): Promise<GroupedDailyResponse>;
+
+    /**
+     * The provider's current time (Unix ms). Live providers follow the wall clock; a replay runs
+     * behind it, so callers that window data by "now" should ask the provider.
+     */
+    now?(): number;
+
+    /**
+     * Stream trades for a symbol. Returns an unsubscribe function.
+     */
+    subscribeTrades(symbol: string, handlers: TradeStreamHandlers): () => void;
+
+    /**
+     * Stream a level 2 order book for a symbol, where the provider has one. Returns an unsubscribe function.
+     */
+    subscribeOrderBook?(symbol: string, handlers: OrderBookStreamHandlers): () => void;
+
+    /**
+     * Force the provider's stream connection(s) to reconnect.
+     */
+    reconnect?(): void;
+}
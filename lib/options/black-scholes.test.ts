@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { blackScholesGreeks, blackScholesPrice, impliedVolatility, normalCdf } from './black-scholes';
+import { BlackScholesInputs } from './types';
+
+// The textbook at-the-money example: one year, 5% rate, 20% volatility
+const call: BlackScholesInputs = { type: 'call', spot: 100, strike: 100, timeToExpiry: 1, rate: 0.05, volatility: 0.2 };
+const put: BlackScholesInputs = { ...call, type: 'put' };
+
+describe('normalCdf', () => {
+    it('matches the standard normal table', () => {
+        expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+        expect(normalCdf(1.96)).toBeCloseTo(0.975002, 6);
+        expect(normalCdf(-1)).toBeCloseTo(0.158655, 6);
+    });
+});
+
+describe('blackScholesPrice', () => {
+    it('prices the reference call and put', () => {
+        expect(blackScholesPrice(call)).toBeCloseTo(10.4506, 4);
+        expect(blackScholesPrice(put)).toBeCloseTo(5.5735, 4);
+    });
+
+    it('satisfies put-call parity with a dividend yield', () => {
+        const inputs = { ...call, strike: 110, dividendYield: 0.02, timeToExpiry: 0.5 };
+        const parity = inputs.spot * Math.exp(-0.02 * 0.5) - inputs.strike * Math.exp(-0.05 * 0.5);
+
+        expect(blackScholesPrice(inputs) - blackScholesPrice({ ...inputs, type: 'put' })).toBeCloseTo(parity, 6);
+    });
+
+    it('is worth the discounted intrinsic value when expired or without volatility', () => {
+        expect(blackScholesPrice({ ...call, spot: 110, timeToExpiry: 0 })).toBe(10);
+        expect(blackScholesPrice({ ...put, spot: 110, timeToExpiry: 0 })).toBe(0);
+        expect(blackScholesPrice({ ...call, spot: 110, volatility: 0 })).toBeCloseTo(110 - 100 * Math.exp(-0.05), 10);
+    });
+});
+
+describe('blackScholesGreeks', () => {
+    it('matches the reference call', () => {
+        const greeks = blackScholesGreeks(call);
+
+        expect(greeks.delta).toBeCloseTo(0.6368, 4);
+        expect(greeks.gamma).toBeCloseTo(0.018762, 6);
+        // Per volatility point and per calendar day
+        expect(greeks.vega).toBeCloseTo(0.37524, 5);
+        expect(greeks.theta).toBeCloseTo(-6.4140 / 365, 5);
+    });
+
+    it('gives puts a delta one below the call\'s and the same gamma and vega', () => {
+        const callGreeks = blackScholesGreeks(call);
+        const putGreeks = blackScholesGreeks(put);
+
+        expect(putGreeks.delta).toBeCloseTo(callGreeks.delta - 1, 10);
+        expect(putGreeks.gamma).toBeCloseTo(callGreeks.gamma, 10);
+        expect(putGreeks.vega).toBeCloseTo(callGreeks.vega, 10);
+    });
+
+    it('has all-or-nothing delta at expiry', () => {
+        expect(blackScholesGreeks({ ...call, spot: 110, timeToExpiry: 0 })).toEqual({ delta: 1, gamma: 0, theta: 0, vega: 0 });
+        expect(blackScholesGreeks({ ...put, spot: 110, timeToExpiry: 0 })).toEqual({ delta: 0, gamma: 0, theta: 0, vega: 0 });
+    });
+});
+
+describe('impliedVolatility', () => {
+    it('recovers the volatility a price was made with', () => {
+        for (const volatility of [0.05, 0.2, 0.8, 2]) {
+            for (const inputs of [call, put, { ...call, strike: 150, timeToExpiry: 0.1 }, { ...put, strike: 60 }]) {
+                const price = blackScholesPrice({ ...inputs, volatility });
+                if (price < 1e-6) continue;
+                expect(impliedVolatility(price, inputs)).toBeCloseTo(volatility, 4);
+            }
+        }
+    });
+
+    it('is null for prices no volatility can produce', () => {
+        // Below the discounted intrinsic value and above the spot
+        expect(impliedVolatility(1, { ...call, spot: 120 })).toBeNull();
+        expect(impliedVolatility(101, call)).toBeNull();
+        expect(impliedVolatility(0, call)).toBeNull();
+        expect(impliedVolatility(5, { ...call, timeToExpiry: 0 })).toBeNull();
+    });
+});
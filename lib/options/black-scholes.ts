@@ -0,0 +1,114 @@
+import { BlackScholesInputs, OptionGreeks } from './types';
+
+const DAYS_PER_YEAR = 365;
+
+// Implied volatility search bounds and tolerance
+const MIN_VOLATILITY = 1e-4;
+const MAX_VOLATILITY = 5;
+const IV_TOLERANCE = 1e-6;
+const IV_MAX_ITERATIONS = 100;
+
+export const normalPdf = (x: number): number => Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 26.2.17, accurate to about 7.5e-8)
+ */
+export const normalCdf = (x: number): number => {
+    const t = 1 / (1 + 0.2316419 * Math.abs(x));
+    const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+    const tail = normalPdf(x) * poly;
+    return x >= 0 ? 1 - tail : tail;
+};
+
+const getD1D2 = ({ spot, strike, timeToExpiry, rate, volatility, dividendYield = 0 }: BlackScholesInputs) => {
+    const volSqrtT = volatility * Math.sqrt(timeToExpiry);
+    const d1 = (Math.log(spot / strike) + (rate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry) / volSqrtT;
+    return { d1, d2: d1 - volSqrtT, volSqrtT };
+};
+
+// Expired or zero-vol contracts are worth their discounted intrinsic value
+const isDegenerate = ({ timeToExpiry, volatility, spot, strike }: BlackScholesInputs): boolean =>
+    timeToExpiry <= 0 || volatility <= 0 || spot <= 0 || strike <= 0;
+
+const intrinsicValue = ({ type, spot, strike, timeToExpiry, rate, dividendYield = 0 }: BlackScholesInputs): number => {
+    const t = Math.max(timeToExpiry, 0);
+    const forwardSpot = spot * Math.exp(-dividendYield * t);
+    const discountedStrike = strike * Math.exp(-rate * t);
+    return Math.max(type === 'call' ? forwardSpot - discountedStrike : discountedStrike - forwardSpot, 0);
+};
+
+/**
+ * Black-Scholes-Merton value of a European option (per share)
+ */
+export const blackScholesPrice = (inputs: BlackScholesInputs): number => {
+    if (isDegenerate(inputs)) {
+        return intrinsicValue(inputs);
+    }
+
+    const { type, spot, strike, timeToExpiry, rate, dividendYield = 0 } = inputs;
+    const { d1, d2 } = getD1D2(inputs);
+    const discountedSpot = spot * Math.exp(-dividendYield * timeToExpiry);
+    const discountedStrike = strike * Math.exp(-rate * timeToExpiry);
+
+    return type === 'call'
+        ? discountedSpot * normalCdf(d1) - discountedStrike * normalCdf(d2)
+        : discountedStrike * normalCdf(-d2) - discountedSpot * normalCdf(-d1);
+};
+
+/**
+ * Black-Scholes-Merton greeks, with theta per calendar day and vega per volatility point
+ */
+export const blackScholesGreeks = (inputs: BlackScholesInputs): OptionGreeks => {
+    const { type, spot, strike, timeToExpiry, rate, dividendYield = 0 } = inputs;
+    if (isDegenerate(inputs)) {
+        const isInTheMoney = type === 'call' ? spot > strike : spot < strike;
+        return { delta: isInTheMoney ? (type === 'call' ? 1 : -1) : 0, gamma: 0, theta: 0, vega: 0 };
+    }
+
+    const { d1, d2, volSqrtT } = getD1D2(inputs);
+    const spotCarry = Math.exp(-dividendYield * timeToExpiry);
+    const strikeDiscount = Math.exp(-rate * timeToExpiry);
+    const pdf = normalPdf(d1);
+
+    const delta = type === 'call' ? spotCarry * normalCdf(d1) : spotCarry * (normalCdf(d1) - 1);
+    const gamma = (spotCarry * pdf) / (spot * volSqrtT);
+    const vega = (spot * spotCarry * pdf * Math.sqrt(timeToExpiry)) / 100;
+
+    const decay = -(spot * spotCarry * pdf * inputs.volatility) / (2 * Math.sqrt(timeToExpiry));
+    const annualTheta = type === 'call'
+        ? decay - rate * strike * strikeDiscount * normalCdf(d2) + dividendYield * spot * spotCarry * normalCdf(d1)
+        : decay + rate * strike * strikeDiscount * normalCdf(-d2) - dividendYield * spot * spotCarry * normalCdf(-d1);
+
+    return { delta, gamma, theta: annualTheta / DAYS_PER_YEAR, vega };
+};
+
+/**
+ * The volatility at which Black-Scholes gives `price`: Newton's method, falling back to bisection
+ * where vega is too small to step on. Null when the price is outside what any volatility can produce.
+ */
+export const impliedVolatility = (price: number, inputs: Omit<BlackScholesInputs, 'volatility'>): number | null => {
+    if (!(price > 0) || inputs.timeToExpiry <= 0) return null;
+
+    const valueAt = (volatility: number) => blackScholesPrice({ ...inputs, volatility });
+    // Relative for cheap far-from-the-money options, where an absolute cent-fraction is most of the price
+    const tolerance = Math.min(IV_TOLERANCE, price * 1e-6);
+    let low = MIN_VOLATILITY;
+    let high = MAX_VOLATILITY;
+    if (price < valueAt(low) - tolerance || price > valueAt(high) + tolerance) {
+        return null;
+    }
+
+    let volatility = 0.3;
+    for (let i = 0; i < IV_MAX_ITERATIONS; i++) {
+        const diff = valueAt(volatility) - price;
+        if (Math.abs(diff) < tolerance) return volatility;
+
+        // Value rises with volatility, so the root stays bracketed
+        if (diff > 0) high = volatility; else low = volatility;
+
+        const vega = blackScholesGreeks({ ...inputs, volatility }).vega * 100;
+        const step = vega > 1e-8 ? volatility - diff / vega : NaN;
+        volatility = step > low && step < high ? step : (low + high) / 2;
+    }
+    return volatility;
+};
@@ -0,0 +1,155 @@
+import { OptionSnapshot, getTimeZoneOffset } from '@/lib/market-data';
+import { blackScholesGreeks, blackScholesPrice, impliedVolatility } from './black-scholes';
+import { BlackScholesInputs, ChainFilters, ChainRow, Moneyness, OptionGreeks, OptionQuote, PricingContext } from './types';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Floor on time to expiry so expiration-day contracts still get a usable model value
+const MIN_TIME_TO_EXPIRY = 60 * 1000 / YEAR_MS;
+
+// Equity options stop trading at 16:00 New York on their expiration date
+const EXPIRY_CLOSE = 'T16:00:00Z';
+
+/**
+ * Years from `now` until the 16:00 New York close on `expiration`
+ */
+export const getTimeToExpiry = (expiration: string, now: number): number => {
+    const closeWallClock = Date.parse(`${expiration}${EXPIRY_CLOSE}`);
+    const close = closeWallClock - getTimeZoneOffset(closeWallClock, 'America/New_York');
+    return Math.max((close - now) / YEAR_MS, MIN_TIME_TO_EXPIRY);
+};
+
+const isPositive = (value: number | undefined): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const hasGreeks = (greeks: OptionSnapshot['greeks']): greeks is OptionGreeks =>
+    Boolean(greeks) && [greeks!.delta, greeks!.gamma, greeks!.theta, greeks!.vega].every(value => typeof value === 'number' && Number.isFinite(value));
+
+const getMoneyness = (type: OptionQuote['type'], strike: number, spot: number): Moneyness => {
+    if (strike === spot) return 'atm';
+    return (type === 'call' ? strike < spot : strike > spot) ? 'itm' : 'otm';
+};
+
+/**
+ * A snapshot row as a quote. Where the feed lacks IV it is solved from the mid (or last) price,
+ * and where it lacks greeks they're computed from the IV; theoretical values are always modelled.
+ */
+export const toOptionQuote = (snapshot: OptionSnapshot, context: PricingContext): OptionQuote | null => {
+    const details = snapshot.details;
+    if (!details?.contract_type || !details.expiration_date || !isPositive(details.strike_price)) {
+        return null;
+    }
+
+    const type = details.contract_type;
+    const strike = details.strike_price;
+    const bid = isPositive(snapshot.last_quote?.bid) ? snapshot.last_quote!.bid! : null;
+    const ask = isPositive(snapshot.last_quote?.ask) ? snapshot.last_quote!.ask! : null;
+    const mid = bid !== null && ask !== null ? (bid + ask) / 2 : (isPositive(snapshot.last_quote?.midpoint) ? snapshot.last_quote!.midpoint! : null);
+    const last = isPositive(snapshot.last_trade?.price) ? snapshot.last_trade!.price! : (isPositive(snapshot.day?.close) ? snapshot.day!.close! : null);
+
+    const inputs: Omit<BlackScholesInputs, 'volatility'> = {
+        type,
+        spot: context.spot,
+        strike,
+        timeToExpiry: getTimeToExpiry(details.expiration_date, context.now),
+        rate: context.rate,
+        dividendYield: context.dividendYield
+    };
+
+    let iv: number | null = null;
+    let ivSource: OptionQuote['ivSource'] = null;
+    if (isPositive(snapshot.implied_volatility)) {
+        iv = snapshot.implied_volatility;
+        ivSource = 'market';
+    } else if (context.spot > 0) {
+        const observed = mid ?? last;
+        iv = observed !== null ? impliedVolatility(observed, inputs) : null;
+        ivSource = iv !== null ? 'model' : null;
+    }
+
+    let greeks: OptionGreeks | null = null;
+    let greeksSource: OptionQuote['greeksSource'] = null;
+    if (hasGreeks(snapshot.greeks)) {
+        const { delta, gamma, theta, vega } = snapshot.greeks;
+        greeks = { delta, gamma, theta, vega };
+        greeksSource = 'market';
+    } else if (iv !== null && context.spot > 0) {
+        greeks = blackScholesGreeks({ ...inputs, volatility: iv });
+        greeksSource = 'model';
+    }
+
+    return {
+        ticker: details.ticker || '',
+        type,
+        strike,
+        expiration: details.expiration_date,
+        bid,
+        ask,
+        mid,
+        last,
+        volume: snapshot.day?.volume ?? null,
+        openInterest: snapshot.open_interest ?? null,
+        iv,
+        ivSource,
+        greeks,
+        greeksSource,
+        theoreticalValue: iv !== null && context.spot > 0 ? blackScholesPrice({ ...inputs, volatility: iv }) : null,
+        moneyness: getMoneyness(type, strike, context.spot)
+    };
+};
+
+/**
+ * The underlying price the chain reports, if any contract carries it
+ */
+export const getChainUnderlyingPrice = (snapshots: OptionSnapshot[]): number | null =>
+    snapshots.find(snapshot => isPositive(snapshot.underlying_asset?.price))?.underlying_asset?.price ?? null;
+
+/**
+ * Pair calls and puts by strike, lowest strike first, marking the strike nearest the underlying
+ */
+export const buildChain = (snapshots: OptionSnapshot[], context: PricingContext): ChainRow[] => {
+    const rows = new Map<number, ChainRow>();
+    for (const snapshot of snapshots) {
+        const quote = toOptionQuote(snapshot, context);
+        if (!quote) continue;
+
+        const row = rows.get(quote.strike) ?? { strike: quote.strike, isAtm: false };
+        row[quote.type] = quote;
+        rows.set(quote.strike, row);
+    }
+
+    const sorted = Array.from(rows.values()).sort((a, b) => a.strike - b.strike);
+    if (sorted.length > 0 && context.spot > 0) {
+        const atm = sorted.reduce((nearest, row) =>
+            Math.abs(row.strike - context.spot) < Math.abs(nearest.strike - context.spot) ? row : nearest);
+        atm.isAtm = true;
+    }
+    return sorted;
+};
+
+/**
+ * Apply the strike range and moneyness filters. ITM and OTM are judged on the calls; the puts on
+ * the same row are the other way round.
+ */
+export const filterChain = (rows: ChainRow[], spot: number, { moneyness, strikeMin, strikeMax, nearCount = 10 }: ChainFilters): ChainRow[] => {
+    let filtered = rows.filter(row =>
+        (strikeMin === undefined || row.strike >= strikeMin) && (strikeMax === undefined || row.strike <= strikeMax));
+
+    switch (moneyness) {
+        case 'itm':
+            filtered = filtered.filter(row => row.strike <= spot);
+            break;
+        case 'otm':
+            filtered = filtered.filter(row => row.strike >= spot);
+            break;
+        case 'near': {
+            const atmIndex = filtered.findIndex(row => row.isAtm);
+            const center = atmIndex >= 0 ? atmIndex : filtered.findIndex(row => row.strike >= spot);
+            if (center >= 0) {
+                filtered = filtered.slice(Math.max(center - nearCount, 0), center + nearCount + 1);
+            }
+            break;
+        }
+    }
+    return filtered;
+};
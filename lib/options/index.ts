@@ -0,0 +1,4 @@
+export * from './types';
+export * from './black-scholes';
+export * from './chain';
+export * from './iv-surface';
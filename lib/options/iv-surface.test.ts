@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import type { OptionSnapshot } from '@/lib/market-data';
+import { buildIvSurface, collectSmiles, diffIvSurfaces, getPreviousSessionClose, interpolateSmile } from './iv-surface';
+import { ExpirySmile, PricingContext } from './types';
+
+const NOW = Date.parse('2024-03-11T15:00:00Z');
+const context: PricingContext = { spot: 100, rate: 0.05, dividendYield: 0, now: NOW };
+
+const snapshot = (type: 'call' | 'put', strike: number, expiration: string, iv: number): OptionSnapshot => ({
+    details: { contract_type: type, strike_price: strike, expiration_date: expiration },
+    implied_volatility: iv
+});
+
+const flatSmile = (daysToExpiry: number, iv: number): ExpirySmile => ({
+    expiration: '',
+    daysToExpiry,
+    points: [{ x: 80, iv }, { x: 100, iv }, { x: 120, iv }]
+});
+
+describe('getPreviousSessionClose', () => {
+    it('is 16:00 New York on the weekday before', () => {
+        // A Monday goes back to Friday, in EST
+        expect(getPreviousSessionClose(NOW)).toBe(Date.parse('2024-03-08T21:00:00Z'));
+        // Late Wednesday evening in New York is still Wednesday there, so Tuesday, in EDT
+        expect(getPreviousSessionClose(Date.parse('2024-07-11T02:00:00Z'))).toBe(Date.parse('2024-07-09T20:00:00Z'));
+    });
+});
+
+describe('collectSmiles', () => {
+    it('takes the out-of-the-money side of each strike, falling back to the other', () => {
+        const smiles = collectSmiles([
+            snapshot('put', 90, '2024-04-19', 0.30),
+            snapshot('call', 90, '2024-04-19', 0.50),
+            snapshot('call', 100, '2024-04-19', 0.25),
+            snapshot('put', 100, '2024-04-19', 0.45),
+            snapshot('call', 110, '2024-04-19', 0.22),
+            snapshot('call', 80, '2024-04-19', 0.40)
+        ], context, 'strike');
+
+        expect(smiles).toHaveLength(1);
+        expect(smiles[0].points).toEqual([
+            { x: 80, iv: 0.40 },
+            { x: 90, iv: 0.30 },
+            { x: 100, iv: 0.25 },
+            { x: 110, iv: 0.22 }
+        ]);
+    });
+
+    it('drops unusable IVs and expirations with too few strikes, and sorts by expiry', () => {
+        const smiles = collectSmiles([
+            snapshot('call', 100, '2024-06-21', 0.2),
+            snapshot('call', 105, '2024-06-21', 0.2),
+            snapshot('call', 110, '2024-06-21', 0.2),
+            snapshot('call', 100, '2024-04-19', 0.2),
+            snapshot('call', 105, '2024-04-19', 0.2),
+            snapshot('call', 110, '2024-04-19', 0.2),
+            snapshot('call', 115, '2024-04-19', 9),
+            snapshot('call', 100, '2024-05-17', 0.2),
+            snapshot('call', 105, '2024-05-17', 0.2)
+        ], context, 'moneyness');
+
+        expect(smiles.map(smile => smile.expiration)).toEqual(['2024-04-19', '2024-06-21']);
+        expect(smiles[0].points.map(point => point.x)).toEqual([1, 1.05, 1.1]);
+        // To the 16:00 New York close on the expiration date
+        expect(smiles[0].daysToExpiry).toBeCloseTo(39 + 5 / 24, 6);
+    });
+});
+
+describe('interpolateSmile', () => {
+    const points = [{ x: 90, iv: 0.3 }, { x: 100, iv: 0.2 }, { x: 120, iv: 0.24 }];
+
+    it('is linear between strikes and flat beyond them', () => {
+        expect(interpolateSmile(points, 95)).toBeCloseTo(0.25, 10);
+        expect(interpolateSmile(points, 110)).toBeCloseTo(0.22, 10);
+        expect(interpolateSmile(points, 50)).toBe(0.3);
+        expect(interpolateSmile(points, 200)).toBe(0.24);
+    });
+});
+
+describe('buildIvSurface', () => {
+    it('is null without smiles', () => {
+        expect(buildIvSurface([], 'strike')).toBeNull();
+    });
+
+    it('spans the quoted strikes and expirations', () => {
+        const surface = buildIvSurface([flatSmile(10, 0.2), flatSmile(40, 0.2)], 'strike', { xCount: 5, dayCount: 4 })!;
+
+        expect(surface.xValues).toEqual([80, 90, 100, 110, 120]);
+        expect(surface.daysValues).toEqual([10, 20, 30, 40]);
+        expect(surface.iv.flat().every(value => Math.abs(value - 0.2) < 1e-12)).toBe(true);
+        expect(surface.minIv).toBeCloseTo(0.2, 12);
+        expect(surface.maxIv).toBeCloseTo(0.2, 12);
+    });
+
+    it('interpolates between expirations in total variance', () => {
+        const surface = buildIvSurface([flatSmile(10, 0.2), flatSmile(40, 0.4)], 'strike', { xCount: 2, dayCount: 3 })!;
+
+        // Halfway: (0.5 × 0.2² × 10 + 0.5 × 0.4² × 40) / 25 = 0.136
+        expect(surface.iv[1][0]).toBeCloseTo(Math.sqrt(0.136), 10);
+        expect(surface.iv[0][0]).toBeCloseTo(0.2, 10);
+        expect(surface.iv[2][0]).toBeCloseTo(0.4, 10);
+    });
+
+    it('holds values flat outside fixed ranges', () => {
+        const surface = buildIvSurface([flatSmile(10, 0.2), flatSmile(40, 0.4)], 'strike', {
+            xCount: 2,
+            dayCount: 2,
+            xRange: [50, 150],
+            dayRange: [5, 60]
+        })!;
+
+        expect(surface.iv).toEqual([[0.2, 0.2], [0.4, 0.4]]);
+    });
+});
+
+describe('diffIvSurfaces', () => {
+    it('subtracts cell by cell and rescales', () => {
+        const current = buildIvSurface([flatSmile(10, 0.3), flatSmile(40, 0.3)], 'strike', { xCount: 2, dayCount: 2 })!;
+        const previous = buildIvSurface([flatSmile(10, 0.2), flatSmile(40, 0.35)], 'strike', { xCount: 2, dayCount: 2 })!;
+
+        const change = diffIvSurfaces(current, previous);
+
+        expect(change.iv[0][0]).toBeCloseTo(0.1, 10);
+        expect(change.iv[1][1]).toBeCloseTo(-0.05, 10);
+        expect(change.minIv).toBeCloseTo(-0.05, 10);
+        expect(change.maxIv).toBeCloseTo(0.1, 10);
+    });
+});
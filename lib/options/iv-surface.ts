@@ -0,0 +1,175 @@
+import { OptionSnapshot, getTimeZoneOffset } from '@/lib/market-data';
+import { impliedVolatility } from './black-scholes';
+import { getTimeToExpiry, toOptionQuote } from './chain';
+import { ExpirySmile, IvSurfaceGrid, PricingContext, SmilePoint, SurfaceAxis, SurfaceGridOptions, SurfaceSession } from './types';
+
+// IVs outside this band are bad prints or stale quotes, not volatility
+const MIN_SURFACE_IV = 0.01;
+const MAX_SURFACE_IV = 3;
+
+// An expiration needs this many strikes to describe a smile
+const MIN_SMILE_POINTS = 3;
+
+/**
+ * 16:00 New York on the weekday before `now`'s New York date. Holidays aren't known here, so the
+ * session before one is off by a day; a day's error only matters for the nearest expirations.
+ */
+export const getPreviousSessionClose = (now: number): number => {
+    const date = new Date(now + getTimeZoneOffset(now, 'America/New_York'));
+    do {
+        date.setUTCDate(date.getUTCDate() - 1);
+    } while (date.getUTCDay() === 0 || date.getUTCDay() === 6);
+
+    const closeWallClock = Date.parse(`${date.toISOString().split('T')[0]}T16:00:00Z`);
+    return closeWallClock - getTimeZoneOffset(closeWallClock, 'America/New_York');
+};
+
+const isUsableIv = (iv: number | null): iv is number => iv !== null && iv >= MIN_SURFACE_IV && iv <= MAX_SURFACE_IV;
+
+const getSnapshotIv = (snapshot: OptionSnapshot, context: PricingContext, session: SurfaceSession): number | null => {
+    if (session === 'current') {
+        return toOptionQuote(snapshot, context)?.iv ?? null;
+    }
+
+    const { contract_type: type, strike_price: strike, expiration_date: expiration } = snapshot.details ?? {};
+    const previousClose = snapshot.day?.previous_close;
+    if (!type || !strike || !expiration || !previousClose) return null;
+
+    return impliedVolatility(previousClose, {
+        type,
+        spot: context.spot,
+        strike,
+        timeToExpiry: getTimeToExpiry(expiration, context.now),
+        rate: context.rate,
+        dividendYield: context.dividendYield
+    });
+};
+
+/**
+ * One smile per expiration from a multi-expiration chain. Each strike uses its out-of-the-money
+ * contract (puts below the underlying, calls above), which trades more and carries less early
+ * exercise premium, and falls back to the other side. For the previous session, pass that
+ * session's underlying close and close time in `context`.
+ */
+export const collectSmiles = (
+    snapshots: OptionSnapshot[],
+    context: PricingContext,
+    axis: SurfaceAxis,
+    session: SurfaceSession = 'current'
+): ExpirySmile[] => {
+    if (!(context.spot > 0)) return [];
+
+    // expiration -> strike -> IV by side
+    const byExpiration = new Map<string, Map<number, { call?: number; put?: number }>>();
+    for (const snapshot of snapshots) {
+        const details = snapshot.details;
+        if (!details?.expiration_date || !details.strike_price || !details.contract_type) continue;
+
+        const iv = getSnapshotIv(snapshot, context, session);
+        if (!isUsableIv(iv)) continue;
+
+        const strikes = byExpiration.get(details.expiration_date) ?? new Map<number, { call?: number; put?: number }>();
+        const sides = strikes.get(details.strike_price) ?? {};
+        sides[details.contract_type] = iv;
+        strikes.set(details.strike_price, sides);
+        byExpiration.set(details.expiration_date, strikes);
+    }
+
+    const smiles: ExpirySmile[] = [];
+    byExpiration.forEach((strikes, expiration) => {
+        const points: SmilePoint[] = [];
+        strikes.forEach((sides, strike) => {
+            const iv = strike >= context.spot ? (sides.call ?? sides.put) : (sides.put ?? sides.call);
+            if (iv !== undefined) {
+                points.push({ x: axis === 'strike' ? strike : strike / context.spot, iv });
+            }
+        });
+
+        if (points.length >= MIN_SMILE_POINTS) {
+            smiles.push({
+                expiration,
+                daysToExpiry: getTimeToExpiry(expiration, context.now) * 365,
+                points: points.sort((a, b) => a.x - b.x)
+            });
+        }
+    });
+
+    return smiles.sort((a, b) => a.daysToExpiry - b.daysToExpiry);
+};
+
+/**
+ * A smile's IV at `x`, linear between strikes and flat beyond the outermost ones
+ */
+export const interpolateSmile = (points: SmilePoint[], x: number): number => {
+    if (x <= points[0].x) return points[0].iv;
+    const last = points[points.length - 1];
+    if (x >= last.x) return last.iv;
+
+    let upper = 1;
+    while (points[upper].x < x) upper++;
+    const lower = points[upper - 1];
+    const weight = (x - lower.x) / (points[upper].x - lower.x);
+    return lower.iv + weight * (points[upper].iv - lower.iv);
+};
+
+const linspace = ([from, to]: [number, number], count: number): number[] =>
+    count <= 1 || from === to
+        ? [from]
+        : Array.from({ length: count }, (_, index) => from + ((to - from) * index) / (count - 1));
+
+/**
+ * Interpolate smiles onto a uniform grid. Across strikes it's linear within each expiration;
+ * between expirations it's linear in total variance (IV² × time), which keeps the term structure
+ * free of calendar arbitrage where the inputs are. Outside the quoted range values are held flat.
+ */
+export const buildIvSurface = (
+    smiles: ExpirySmile[],
+    axis: SurfaceAxis,
+    { xCount = 30, dayCount = 24, xRange, dayRange }: SurfaceGridOptions = {}
+): IvSurfaceGrid | null => {
+    if (smiles.length === 0) return null;
+
+    const allX = smiles.flatMap(smile => smile.points.map(point => point.x));
+    const xValues = linspace(xRange ?? [Math.min(...allX), Math.max(...allX)], xCount);
+    const daysValues = linspace(dayRange ?? [smiles[0].daysToExpiry, smiles[smiles.length - 1].daysToExpiry], dayCount);
+
+    let minIv = Infinity;
+    let maxIv = -Infinity;
+    const iv = daysValues.map(days => {
+        const upperIndex = smiles.findIndex(smile => smile.daysToExpiry >= days);
+        const upper = smiles[upperIndex === -1 ? smiles.length - 1 : upperIndex];
+        const lower = upperIndex > 0 ? smiles[upperIndex - 1] : upper;
+
+        return xValues.map(x => {
+            const upperIv = interpolateSmile(upper.points, x);
+            let value = upperIv;
+            if (lower !== upper && days > lower.daysToExpiry) {
+                const lowerIv = interpolateSmile(lower.points, x);
+                const weight = (days - lower.daysToExpiry) / (upper.daysToExpiry - lower.daysToExpiry);
+                const variance = (1 - weight) * lowerIv * lowerIv * lower.daysToExpiry + weight * upperIv * upperIv * upper.daysToExpiry;
+                value = Math.sqrt(Math.max(variance, 0) / days);
+            }
+            minIv = Math.min(minIv, value);
+            maxIv = Math.max(maxIv, value);
+            return value;
+        });
+    });
+
+    return { axis, xValues, daysValues, iv, minIv, maxIv };
+};
+
+/**
+ * `current` minus `previous` cell by cell; both must share a grid (build `previous` with the
+ * current grid's ranges)
+ */
+export const diffIvSurfaces = (current: IvSurfaceGrid, previous: IvSurfaceGrid): IvSurfaceGrid => {
+    let minIv = Infinity;
+    let maxIv = -Infinity;
+    const iv = current.iv.map((row, dayIndex) => row.map((value, xIndex) => {
+        const change = value - (previous.iv[dayIndex]?.[xIndex] ?? value);
+        minIv = Math.min(minIv, change);
+        maxIv = Math.max(maxIv, change);
+        return change;
+    }));
+    return { ...current, iv, minIv, maxIv };
+};
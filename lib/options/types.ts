@@ -0,0 +1,108 @@
+import type { OptionContractType } from '@/lib/market-data';
+
+export interface BlackScholesInputs {
+    type: OptionContractType;
+    spot: number;
+    strike: number;
+    timeToExpiry: number;   // years
+    rate: number;           // continuously compounded risk-free rate, 0.045 = 4.5%
+    volatility: number;     // annualised, 0.25 = 25%
+    dividendYield?: number; // continuous, 0.005 = 0.5%
+}
+
+// Per-share sensitivities in the units option chains quote them in
+export interface OptionGreeks {
+    delta: number;
+    gamma: number;
+    theta: number;  // value change per calendar day
+    vega: number;   // value change per 1 point of volatility
+}
+
+// Whether a figure came from the market data feed or our own Black-Scholes model
+export type ValueSource = 'market' | 'model';
+
+export type Moneyness = 'itm' | 'atm' | 'otm';
+
+export interface OptionQuote {
+    ticker: string;
+    type: OptionContractType;
+    strike: number;
+    expiration: string;     // YYYY-MM-DD
+    bid: number | null;
+    ask: number | null;
+    mid: number | null;
+    last: number | null;
+    volume: number | null;
+    openInterest: number | null;
+    iv: number | null;
+    ivSource: ValueSource | null;
+    greeks: OptionGreeks | null;
+    greeksSource: ValueSource | null;
+    // Black-Scholes value at the quote's IV
+    theoreticalValue: number | null;
+    moneyness: Moneyness;
+}
+
+// One strike of the chain, calls on the left and puts on the right
+export interface ChainRow {
+    strike: number;
+    call?: OptionQuote;
+    put?: OptionQuote;
+    // The strike nearest the underlying price
+    isAtm: boolean;
+}
+
+// Market inputs shared by every contract in a chain
+export interface PricingContext {
+    spot: number;
+    rate: number;
+    dividendYield: number;
+    now: number;            // Unix ms
+}
+
+// 'near' keeps a number of strikes either side of the money
+export type MoneynessFilter = 'all' | 'itm' | 'otm' | 'near';
+
+export interface ChainFilters {
+    moneyness: MoneynessFilter;
+    strikeMin?: number;
+    strikeMax?: number;
+    // Strikes kept each side of the money for 'near'
+    nearCount?: number;
+}
+
+// What the surface's X axis measures: the strike itself, or strike ÷ underlying price
+export type SurfaceAxis = 'strike' | 'moneyness';
+
+// The latest quotes, or IVs backed out of each contract's previous close
+export type SurfaceSession = 'current' | 'previous';
+
+export interface SmilePoint {
+    x: number;
+    iv: number;
+}
+
+// Out-of-the-money IVs across strikes for one expiration, sorted by x
+export interface ExpirySmile {
+    expiration: string;   // YYYY-MM-DD
+    daysToExpiry: number;
+    points: SmilePoint[];
+}
+
+// IV interpolated onto a uniform strike/moneyness × days-to-expiry grid
+export interface IvSurfaceGrid {
+    axis: SurfaceAxis;
+    xValues: number[];
+    daysValues: number[];
+    iv: number[][];       // [day index][x index]
+    minIv: number;
+    maxIv: number;
+}
+
+export interface SurfaceGridOptions {
+    xCount?: number;
+    dayCount?: number;
+    // Fixed ranges, so another session's surface lands on the same grid
+    xRange?: [number, number];
+    dayRange?: [number, number];
+}
@@ -0,0 +1,100 @@
+import { BookLevel } from './types';
+
+export interface DepthProfileOptions {
+    // Buckets per side of the mid
+    binCount: number;
+    // Distance from the mid covered on each side, in basis points
+    rangeBps: number;
+}
+
+// One sample of the book: resting size per bucket, farthest bid first through farthest ask
+export interface DepthProfile {
+    timestamp: number;   // Unix ms
+    mid: number;
+    sizes: number[];
+}
+
+/**
+ * Bucket resting size by distance from the mid. Buckets are a fixed width in basis points, so
+ * profiles taken at different mids line up: bucket i always means the same relative price level.
+ * @param bids Levels best first
+ * @param asks Levels best first
+ * @returns 2 × binCount sizes, from the farthest bid bucket through the farthest ask bucket
+ */
+export const sampleDepthProfile = (
+    bids: BookLevel[],
+    asks: BookLevel[],
+    mid: number,
+    { binCount, rangeBps }: DepthProfileOptions
+): number[] => {
+    const sizes: number[] = new Array(binCount * 2).fill(0);
+    if (!(mid > 0) || binCount <= 0 || rangeBps <= 0) return sizes;
+
+    const binWidth = rangeBps / binCount;
+
+    // Levels are best first, so the first one past the range ends the side
+    for (const { price, size } of bids) {
+        const bin = Math.floor(((mid - price) / mid) * 10000 / binWidth);
+        if (bin >= binCount) break;
+        sizes[binCount - 1 - Math.max(0, bin)] += size;
+    }
+    for (const { price, size } of asks) {
+        const bin = Math.floor(((price - mid) / mid) * 10000 / binWidth);
+        if (bin >= binCount) break;
+        sizes[binCount + Math.max(0, bin)] += size;
+    }
+    return sizes;
+};
+
+/**
+ * Centre of each profile bucket in basis points from the mid (negative for bids)
+ */
+export const getDepthProfileOffsets = ({ binCount, rangeBps }: DepthProfileOptions): number[] => {
+    const binWidth = rangeBps / binCount;
+    return Array.from({ length: binCount * 2 }, (_, i) => -rangeBps + binWidth * (i + 0.5));
+};
+
+/**
+ * A rolling window of depth profiles, oldest first. Old samples fall off the front once the
+ * window is full.
+ */
+export class DepthHistory {
+    private readonly profiles: DepthProfile[] = [];
+
+    constructor(readonly capacity: number) { }
+
+    get length(): number {
+        return this.profiles.length;
+    }
+
+    push(profile: DepthProfile) {
+        this.profiles.push(profile);
+        if (this.profiles.length > this.capacity) {
+            this.profiles.splice(0, this.profiles.length - this.capacity);
+        }
+    }
+
+    clear() {
+        this.profiles.length = 0;
+    }
+
+    latest(): DepthProfile | null {
+        return this.profiles[this.profiles.length - 1] ?? null;
+    }
+
+    /**
+     * Largest bucket size in the window
+     */
+    maxSize(): number {
+        return this.profiles.reduce((max, profile) => Math.max(max, ...profile.sizes), 0);
+    }
+
+    /**
+     * Sizes as a capacity × bucket grid, oldest row first. Until the window fills, the oldest
+     * rows are zero so the grid keeps its shape and the newest sample stays on the last row.
+     */
+    toGrid(bucketCount: number): number[][] {
+        const padding = Array.from({ length: this.capacity - this.profiles.length }, () => new Array(bucketCount).fill(0));
+        return [...padding, ...this.profiles.map(profile => profile.sizes.slice())];
+    }
+}
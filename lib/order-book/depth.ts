@@ -0,0 +1,91 @@
+import { BookLevel, BookMetrics, BookSide, DepthLevel, GroupedBook } from './types';
+
+/**
+ * Decimal places needed to print prices on an increment (0.05 -> 2, 10 -> 0)
+ */
+export const getIncrementDecimals = (increment: number): number => {
+    if (!(increment > 0)) return 0;
+
+    const [mantissa, exponent] = increment.toExponential().split('e');
+    const fraction = mantissa.split('.')[1]?.length ?? 0;
+    return Math.max(0, fraction - Number(exponent));
+};
+
+// Bucket prices are rounded to the increment's decimals so they don't pick up float noise
+const toBucket = (price: number, increment: number, side: BookSide, decimals: number): number => {
+    // Bids round down and asks round up, so a bucket never crosses the spread
+    const steps = price / increment;
+    const rounded = side === 'bid' ? Math.floor(steps + 1e-9) : Math.ceil(steps - 1e-9);
+    return Number((rounded * increment).toFixed(decimals));
+};
+
+/**
+ * Bucket one side of the book into price increments and add running totals.
+ * @param levels Levels best first, as the OrderBook returns them
+ * @param increment Bucket size in price units; 0 keeps the raw levels
+ * @param limit Number of buckets to return
+ */
+export const groupLevels = (levels: BookLevel[], side: BookSide, increment: number, limit = Infinity): DepthLevel[] => {
+    const grouped: DepthLevel[] = [];
+    const decimals = getIncrementDecimals(increment);
+    let total = 0;
+
+    for (const { price, size } of levels) {
+        const bucket = increment > 0 ? toBucket(price, increment, side, decimals) : price;
+        const last = grouped[grouped.length - 1];
+        total += size;
+
+        if (last && last.price === bucket) {
+            last.size += size;
+            last.total = total;
+        } else {
+            if (grouped.length >= limit) break;
+            grouped.push({ price: bucket, size, total });
+        }
+    }
+    return grouped;
+};
+
+/**
+ * Group both sides of the book
+ */
+export const groupBook = (bids: BookLevel[], asks: BookLevel[], increment: number, limit?: number): GroupedBook => ({
+    bids: groupLevels(bids, 'bid', increment, limit),
+    asks: groupLevels(asks, 'ask', increment, limit)
+});
+
+/**
+ * Spread and imbalance from the top of the book. Depth and imbalance cover the levels passed in,
+ * so pass the same number of levels per side for a fair comparison.
+ */
+export const computeBookMetrics = (bids: BookLevel[], asks: BookLevel[]): BookMetrics => {
+    const bestBid = bids.length > 0 ? bids[0].price : null;
+    const bestAsk = asks.length > 0 ? asks[0].price : null;
+    const bidDepth = bids.reduce((sum, level) => sum + level.size, 0);
+    const askDepth = asks.reduce((sum, level) => sum + level.size, 0);
+
+    const mid = bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null;
+    const spread = bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null;
+
+    return {
+        bestBid,
+        bestAsk,
+        mid,
+        spread,
+        spreadBps: spread !== null && mid ? (spread / mid) * 10000 : null,
+        bidDepth,
+        askDepth,
+        imbalance: bidDepth + askDepth > 0 ? (bidDepth - askDepth) / (bidDepth + askDepth) : null
+    };
+};
+
+/**
+ * Grouping increments that suit a price: from about a hundred-thousandth of the price up to a
+ * hundredth, e.g. 0.01 / 0.1 / 1 / 5 / 10 for a price in the thousands
+ */
+export const suggestPriceIncrements = (price: number | null): number[] => {
+    if (!price || price <= 0 || !Number.isFinite(price)) return [];
+
+    const base = Math.pow(10, Math.floor(Math.log10(price)) - 5);
+    return [1, 10, 100, 500, 1000].map(multiplier => Number((base * multiplier).toPrecision(1)));
+};
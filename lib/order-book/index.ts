@@ -0,0 +1,4 @@
+export * from './types';
+export * from './order-book';
+export * from './depth';
+export * from './depth-history';
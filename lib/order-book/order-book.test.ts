@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { OrderBook } from './order-book';
+
+const level = (price: number, size: number) => ({ price, size });
+
+const snapshotBook = () => {
+    const book = new OrderBook();
+    book.applySnapshot(
+        [level(99, 1), level(101, 3), level(100, 2)],
+        [level(103, 2), level(102, 1), level(104, 5)]
+    );
+    return book;
+};
+
+describe('OrderBook', () => {
+    it('sorts each side best first from a snapshot', () => {
+        const book = snapshotBook();
+
+        expect(book.isSynced).toBe(true);
+        expect(book.bids().map(l => l.price)).toEqual([101, 100, 99]);
+        expect(book.asks().map(l => l.price)).toEqual([102, 103, 104]);
+        expect(book.bestBid()).toBe(101);
+        expect(book.bestAsk()).toBe(102);
+        expect(book.asks(2)).toEqual([level(102, 1), level(103, 2)]);
+    });
+
+    it('inserts new levels in order, resizes existing ones and deletes emptied ones', () => {
+        const book = snapshotBook();
+
+        book.applyChanges([
+            { side: 'bid', price: 100.5, size: 4 },
+            { side: 'bid', price: 98, size: 1 },
+            { side: 'bid', price: 101, size: 0 },
+            { side: 'ask', price: 103, size: 7 },
+            { side: 'ask', price: 101.5, size: 2 }
+        ]);
+
+        expect(book.bids()).toEqual([level(100.5, 4), level(100, 2), level(99, 1), level(98, 1)]);
+        expect(book.asks()).toEqual([level(101.5, 2), level(102, 1), level(103, 7), level(104, 5)]);
+        expect(book.depth()).toEqual({ bids: 4, asks: 4 });
+    });
+
+    it('ignores deletes of levels it does not have and non-finite values', () => {
+        const book = snapshotBook();
+
+        book.applyChanges([
+            { side: 'ask', price: 110, size: 0 },
+            { side: 'bid', price: NaN, size: 1 },
+            { side: 'bid', price: 97, size: Infinity }
+        ]);
+
+        expect(book.depth()).toEqual({ bids: 3, asks: 3 });
+    });
+
+    it('drops updates until the first snapshot and again after a reset', () => {
+        const book = new OrderBook();
+        expect(book.applyChanges([{ side: 'bid', price: 100, size: 1 }])).toBe(false);
+        expect(book.depth()).toEqual({ bids: 0, asks: 0 });
+
+        const synced = snapshotBook();
+        synced.reset();
+
+        expect(synced.isSynced).toBe(false);
+        expect(synced.bestBid()).toBeNull();
+        expect(synced.applyChanges([{ side: 'ask', price: 102, size: 9 }])).toBe(false);
+        expect(synced.asks()).toEqual([]);
+
+        synced.applySnapshot([level(100, 1)], [level(101, 1)]);
+        expect(synced.applyChanges([{ side: 'ask', price: 101, size: 9 }])).toBe(true);
+        expect(synced.asks()).toEqual([level(101, 9)]);
+    });
+
+    it('replaces rather than merges on a new snapshot', () => {
+        const book = snapshotBook();
+
+        book.applySnapshot([level(50, 1)], []);
+
+        expect(book.bids()).toEqual([level(50, 1)]);
+        expect(book.bestAsk()).toBeNull();
+    });
+});
@@ -0,0 +1,133 @@
+import { BookChange, BookLevel, BookSide } from './types';
+
+// Index of the first element ordered at or after `price` (bids descend, asks ascend)
+const findIndex = (prices: number[], price: number, descending: boolean): number => {
+    let low = 0;
+    let high = prices.length;
+    while (low < high) {
+        const middle = (low + high) >>> 1;
+        const before = descending ? prices[middle] > price : prices[middle] < price;
+        if (before) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+};
+
+class BookSideLevels {
+    // Sorted best first, with sizes looked up by price
+    private readonly prices: number[] = [];
+    private readonly sizes = new Map<number, number>();
+
+    constructor(private readonly descending: boolean) { }
+
+    get length(): number {
+        return this.prices.length;
+    }
+
+    best(): number | null {
+        return this.prices.length > 0 ? this.prices[0] : null;
+    }
+
+    set(price: number, size: number) {
+        if (!Number.isFinite(price) || !Number.isFinite(size)) return;
+
+        if (size <= 0) {
+            if (!this.sizes.has(price)) return;
+            this.sizes.delete(price);
+            this.prices.splice(findIndex(this.prices, price, this.descending), 1);
+            return;
+        }
+
+        if (!this.sizes.has(price)) {
+            this.prices.splice(findIndex(this.prices, price, this.descending), 0, price);
+        }
+        this.sizes.set(price, size);
+    }
+
+    levels(limit = this.prices.length): BookLevel[] {
+        return this.prices.slice(0, limit).map(price => ({ price, size: this.sizes.get(price) ?? 0 }));
+    }
+
+    clear() {
+        this.prices.length = 0;
+        this.sizes.clear();
+    }
+}
+
+/**
+ * A level 2 order book kept locally from a snapshot plus incremental updates. Each side keeps its
+ * prices sorted best first, so reading the top of the book is a slice rather than a sort.
+ * Updates that arrive before the first snapshot (or after a reset) are dropped: the book is only
+ * trustworthy once `isSynced` is true.
+ */
+export class OrderBook {
+    private readonly bidLevels = new BookSideLevels(true);
+    private readonly askLevels = new BookSideLevels(false);
+    private synced = false;
+
+    get isSynced(): boolean {
+        return this.synced;
+    }
+
+    /**
+     * Replace the whole book
+     */
+    applySnapshot(bids: BookLevel[], asks: BookLevel[]) {
+        this.bidLevels.clear();
+        this.askLevels.clear();
+        bids.forEach(({ price, size }) => this.bidLevels.set(price, size));
+        asks.forEach(({ price, size }) => this.askLevels.set(price, size));
+        this.synced = true;
+    }
+
+    /**
+     * Apply changed levels. Returns false (and changes nothing) when the book is waiting for a snapshot.
+     */
+    applyChanges(changes: BookChange[]): boolean {
+        if (!this.synced) return false;
+
+        for (const { side, price, size } of changes) {
+            this.getSide(side).set(price, size);
+        }
+        return true;
+    }
+
+    /**
+     * Forget everything until the next snapshot, e.g. when the feed reports a sequence gap
+     */
+    reset() {
+        this.bidLevels.clear();
+        this.askLevels.clear();
+        this.synced = false;
+    }
+
+    bestBid(): number | null {
+        return this.bidLevels.best();
+    }
+
+    bestAsk(): number | null {
+        return this.askLevels.best();
+    }
+
+    /**
+     * Levels best first, optionally only the top `limit`
+     */
+    bids(limit?: number): BookLevel[] {
+        return this.bidLevels.levels(limit);
+    }
+
+    asks(limit?: number): BookLevel[] {
+        return this.askLevels.levels(limit);
+    }
+
+    depth(): { bids: number; asks: number } {
+        return { bids: this.bidLevels.length, asks: this.askLevels.length };
+    }
+
+    private getSide(side: BookSide): BookSideLevels {
+        return side === 'bid' ? this.bidLevels : this.askLevels;
+    }
+}
@@ -0,0 +1,28 @@
+// Shared types for the local level 2 order book. Levels and changes are the provider-neutral
+// shapes from the market data layer.
+
+export type { BookChange, BookLevel, BookSide } from '@/lib/market-data/types';
+
+// A row of the ladder after grouping, with the running total from the inside of the book out
+export interface DepthLevel {
+    price: number;
+    size: number;
+    total: number;
+}
+
+export interface GroupedBook {
+    bids: DepthLevel[];   // best (highest) first
+    asks: DepthLevel[];   // best (lowest) first
+}
+
+export interface BookMetrics {
+    bestBid: number | null;
+    bestAsk: number | null;
+    mid: number | null;
+    spread: number | null;
+    spreadBps: number | null;   // spread as basis points of the mid
+    bidDepth: number;           // size summed over the levels considered
+    askDepth: number;
+    // (bids - asks) / (bids + asks) over the same levels: +1 all bids, -1 all asks
+    imbalance: number | null;
+}
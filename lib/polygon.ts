@@ -0,0 +1,302 @@
+// Server-only access to the Polygon.io REST API.
+// The API key never leaves the server: the app/api/market/* routes call polygonFetch
+// and the browser only ever talks to those routes.
+import { NextResponse } from 'next/server';
+import { Ratelimit } from '@upstash/ratelimit';
+import { Redis } from '@upstash/redis';
+
+const POLYGON_BASE_URL = 'https://api.polygon.io';
+
+const API_KEY = process.env.POLYGON_API_KEY;
+
+// Shared upstream budget across every route (requests per rolling window)
+const RATE_LIMIT_REQUESTS = Number(process.env.POLYGON_RATE_LIMIT_REQUESTS) || 100;
+const RATE_LIMIT_WINDOW_MS = Number(process.env.POLYGON_RATE_LIMIT_WINDOW_MS) || 60 * 1000;
+// How long a request may wait for a free slot before we give up and report 429
+const MAX_QUEUE_WAIT_MS = 10 * 1000;
+
+// Cap the number of cached responses so a long-running server doesn't grow unbounded
+const MAX_CACHE_ENTRIES = 500;
+
+// With Upstash Redis configured, the rate budget and JSON response cache are shared by every
+// serverless instance. Without it (local development) they live in this process's memory, so on a
+// serverless deploy each instance would get its own budget and the upstream plan is not protected.
+const redis = process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN ? Redis.fromEnv() : null;
+const upstreamLimiter = redis
+    ? new Ratelimit({
+        redis,
+        limiter: Ratelimit.slidingWindow(RATE_LIMIT_REQUESTS, `${RATE_LIMIT_WINDOW_MS} ms`),
+        prefix: 'polygon:ratelimit',
+    })
+    : null;
+const REDIS_CACHE_PREFIX = 'polygon:cache:';
+
+// Per-endpoint cache lifetimes
+export const POLYGON_TTL = {
+    snapshot: 15 * 1000,
+    intradayAggregates: 60 * 1000,
+    historicalAggregates: 24 * 60 * 60 * 1000,
+    historicalTrades: 24 * 60 * 60 * 1000,
+    tickerDetails: 60 * 60 * 1000,
+    news: 5 * 60 * 1000,
+    corporateActions: 6 * 60 * 60 * 1000,
+    financials: 6 * 60 * 60 * 1000,
+    optionsContracts: 60 * 60 * 1000,
+    marketStatus: 60 * 1000,
+    logo: 24 * 60 * 60 * 1000,
+} as const;
+
+// The envelope of Polygon's list endpoints; next_url carries the API key and the cursor for the next page
+export interface PolygonPage<Row> {
+    results?: Row[];
+    next_url?: string;
+    status?: string;
+    request_id?: string;
+}
+
+export class PolygonError extends Error {
+    status: number;
+    retryAfterSeconds?: number;
+
+    constructor(message: string, status: number, retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'PolygonError';
+        this.status = status;
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+interface CachedResponse<T> {
+    status: number;
+    data: T;
+    expiresAt: number;
+}
+
+// In-process fallback cache; logos are always kept here since they're binary
+const responseCache = new Map<string, CachedResponse<unknown>>();
+// Coalescing only ever spans one instance: a request can't be awaited from another process
+const inFlightRequests = new Map<string, Promise<CachedResponse<unknown>>>();
+let recentRequestTimes: number[] = [];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Wait for a free slot in the shared rate budget.
+ * Throws a 429 PolygonError if the queue is too long to wait out.
+ */
+const acquireRateLimitSlot = async (): Promise<void> => {
+    if (upstreamLimiter) {
+        const { success, reset } = await upstreamLimiter.blockUntilReady('upstream', MAX_QUEUE_WAIT_MS);
+        if (!success) {
+            throw new PolygonError('Upstream rate budget exhausted', 429, Math.max(1, Math.ceil((reset - Date.now()) / 1000)));
+        }
+        return;
+    }
+
+    const startedAt = Date.now();
+
+    while (true) {
+        const now = Date.now();
+        recentRequestTimes = recentRequestTimes.filter(t => now - t < RATE_LIMIT_WINDOW_MS);
+
+        if (recentRequestTimes.length < RATE_LIMIT_REQUESTS) {
+            recentRequestTimes.push(now);
+            return;
+        }
+
+        // Oldest request decides when the next slot opens
+        const waitMs = recentRequestTimes[0] + RATE_LIMIT_WINDOW_MS - now;
+        if (now - startedAt + waitMs > MAX_QUEUE_WAIT_MS) {
+            throw new PolygonError('Upstream rate budget exhausted', 429, Math.ceil(waitMs / 1000));
+        }
+
+        await sleep(waitMs);
+    }
+};
+
+// Build a stable cache key regardless of parameter order
+const buildCacheKey = (path: string, params: Record<string, string | undefined>): string => {
+    const query = Object.keys(params)
+        .filter(key => params[key] !== undefined && params[key] !== '')
+        .sort()
+        .map(key => `${key}=${params[key]}`)
+        .join('&');
+    return `${path}?${query}`;
+};
+
+const pruneCache = () => {
+    const now = Date.now();
+    for (const [key, entry] of responseCache.entries()) {
+        if (entry.expiresAt <= now) {
+            responseCache.delete(key);
+        }
+    }
+
+    // Still too big: drop the oldest insertions first
+    while (responseCache.size > MAX_CACHE_ENTRIES) {
+        const oldestKey = responseCache.keys().next().value;
+        if (oldestKey === undefined) break;
+        responseCache.delete(oldestKey);
+    }
+};
+
+/**
+ * A cached JSON response, from Redis when configured. Cache failures count as misses.
+ */
+const readCache = async <T>(cacheKey: string): Promise<CachedResponse<T> | undefined> => {
+    if (redis) {
+        try {
+            return (await redis.get<CachedResponse<T>>(`${REDIS_CACHE_PREFIX}${cacheKey}`)) ?? undefined;
+        } catch (error) {
+            console.error('Polygon cache read failed:', error);
+            return undefined;
+        }
+    }
+
+    const cached = responseCache.get(cacheKey) as CachedResponse<T> | undefined;
+    return cached && cached.expiresAt > Date.now() ? cached : undefined;
+};
+
+const writeCache = async <T>(cacheKey: string, entry: CachedResponse<T>, ttlMs: number): Promise<void> => {
+    if (redis) {
+        try {
+            await redis.set(`${REDIS_CACHE_PREFIX}${cacheKey}`, entry, { px: ttlMs });
+        } catch (error) {
+            // Very large pages can exceed the Redis request size; they're just not cached
+            console.error('Polygon cache write failed:', error);
+        }
+        return;
+    }
+
+    responseCache.set(cacheKey, entry);
+    pruneCache();
+};
+
+const requestUpstream = async <T>(
+    path: string,
+    params: Record<string, string | undefined>,
+    ttlMs: number
+): Promise<CachedResponse<T>> => {
+    if (!API_KEY) {
+        throw new PolygonError('Polygon API key is not configured', 500);
+    }
+
+    await acquireRateLimitSlot();
+
+    const url = new URL(`${POLYGON_BASE_URL}${path}`);
+    Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+            url.searchParams.set(key, value);
+        }
+    });
+    url.searchParams.set('apiKey', API_KEY);
+
+    const response = await fetch(url.toString(), { cache: 'no-store' });
+    const data = await response.json().catch(() => ({})) as T;
+
+    // Only successful responses are worth caching; errors should be retried on the next call
+    const entry: CachedResponse<T> = {
+        status: response.status,
+        data,
+        expiresAt: response.ok ? Date.now() + ttlMs : 0,
+    };
+
+    if (response.ok) {
+        await writeCache(buildCacheKey(path, params), entry, ttlMs);
+    }
+
+    return entry;
+};
+
+/**
+ * Fetch JSON from Polygon with caching, in-flight request coalescing and the shared rate budget.
+ * @param path Polygon path, e.g. "/v1/marketstatus/now"
+ * @param params Query parameters (the API key is added automatically)
+ * @param ttlMs How long a successful response may be served from cache
+ */
+export async function polygonFetch<T = unknown>(
+    path: string,
+    params: Record<string, string | undefined> = {},
+    ttlMs: number = POLYGON_TTL.snapshot
+): Promise<{ status: number; data: T }> {
+    const cacheKey = buildCacheKey(path, params);
+
+    const cached = await readCache<T>(cacheKey);
+    if (cached) {
+        return { status: cached.status, data: cached.data };
+    }
+
+    // Coalesce identical requests that are already on their way upstream
+    let pending = inFlightRequests.get(cacheKey) as Promise<CachedResponse<T>> | undefined;
+    if (!pending) {
+        pending = requestUpstream<T>(path, params, ttlMs).finally(() => {
+            inFlightRequests.delete(cacheKey);
+        });
+        inFlightRequests.set(cacheKey, pending);
+    }
+
+    const result = await pending;
+    return { status: result.status, data: result.data };
+}
+
+/**
+ * Fetch a binary asset (company logos and icons) from Polygon, cached like any other response.
+ * Only URLs on the Polygon host are accepted so the route can't be used as an open proxy.
+ */
+export async function polygonFetchAsset(assetUrl: string): Promise<{ contentType: string; body: ArrayBuffer }> {
+    let url: URL;
+    try {
+        url = new URL(assetUrl);
+    } catch {
+        throw new PolygonError('Invalid asset URL', 400);
+    }
+
+    if (url.origin !== POLYGON_BASE_URL) {
+        throw new PolygonError('Asset URL must point to api.polygon.io', 400);
+    }
+
+    const cacheKey = `asset:${url.pathname}`;
+    const cached = responseCache.get(cacheKey) as CachedResponse<{ contentType: string; body: ArrayBuffer }> | undefined;
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.data;
+    }
+
+    if (!API_KEY) {
+        throw new PolygonError('Polygon API key is not configured', 500);
+    }
+
+    await acquireRateLimitSlot();
+
+    url.searchParams.set('apiKey', API_KEY);
+    const response = await fetch(url.toString(), { cache: 'no-store' });
+    if (!response.ok) {
+        throw new PolygonError(`Failed to fetch asset (${response.status})`, response.status);
+    }
+
+    const asset = {
+        contentType: response.headers.get('content-type') || 'application/octet-stream',
+        body: await response.arrayBuffer(),
+    };
+
+    responseCache.set(cacheKey, { status: response.status, data: asset, expiresAt: Date.now() + POLYGON_TTL.logo });
+    pruneCache();
+
+    return asset;
+}
+
+/**
+ * Turn an error thrown while talking to Polygon into a JSON route response.
+ */
+export function polygonErrorResponse(error: unknown): NextResponse {
+    if (error instanceof PolygonError) {
+        const headers: Record<string, string> = {};
+        if (error.retryAfterSeconds) {
+            headers['Retry-After'] = String(error.retryAfterSeconds);
+        }
+        return NextResponse.json({ error: error.message }, { status: error.status, headers });
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error contacting Polygon';
+    console.error('Polygon proxy error:', message);
+    return NextResponse.json({ error: message }, { status: 502 });
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { detectPreset, parseDate, parseNumber, parseTicker, parseTransactionType, toRecords } from './csv-import';
+
+describe('parseDate', () => {
+    it('reads ISO dates and ignores the time', () => {
+        expect(parseDate('2024-03-05', 'auto')).toBe('2024-03-05');
+        expect(parseDate('2024/3/5 14:30:00', 'auto')).toBe('2024-03-05');
+        expect(parseDate('2024-03-05T23:59:59-08:00', 'auto')).toBe('2024-03-05');
+    });
+
+    it('reads numeric dates month first unless told or forced otherwise', () => {
+        expect(parseDate('03/05/2024', 'auto')).toBe('2024-03-05');
+        expect(parseDate('03/05/2024', 'dmy')).toBe('2024-05-03');
+        expect(parseDate('25/12/2023', 'auto')).toBe('2023-12-25');
+        expect(parseDate('3/5/24', 'mdy')).toBe('2024-03-05');
+    });
+
+    it('reads month names with or without a weekday', () => {
+        expect(parseDate('Jan 5, 2024', 'auto')).toBe('2024-01-05');
+        expect(parseDate('Fri Jan 05 2024', 'auto')).toBe('2024-01-05');
+        expect(parseDate('September 30th, 2023', 'auto')).toBe('2023-09-30');
+        expect(parseDate('5 January 2024', 'auto')).toBe('2024-01-05');
+        expect(parseDate('05-Jan-24', 'auto')).toBe('2024-01-05');
+        expect(parseDate('Sept 1 2023', 'auto')).toBe('2023-09-01');
+    });
+
+    it('rejects dates that do not exist and text that is not a date', () => {
+        expect(parseDate('2023-02-29', 'auto')).toBeNull();
+        expect(parseDate('13/13/2024', 'auto')).toBeNull();
+        expect(parseDate('Feb 30, 2024', 'auto')).toBeNull();
+        expect(parseDate('Foo 5, 2024', 'auto')).toBeNull();
+        expect(parseDate('Pending', 'auto')).toBeNull();
+        expect(parseDate('', 'auto')).toBeNull();
+        expect(parseDate(undefined, 'auto')).toBeNull();
+    });
+});
+
+describe('parseNumber', () => {
+    it('strips currency symbols and thousands separators', () => {
+        expect(parseNumber('1,234.56')).toBe(1234.56);
+        expect(parseNumber('$1,234.56')).toBe(1234.56);
+        expect(parseNumber('0.5 BTC')).toBe(0.5);
+    });
+
+    it('reads minus signs and accounting parentheses as negative', () => {
+        expect(parseNumber('-$12.00')).toBe(-12);
+        expect(parseNumber('($12.00)')).toBe(-12);
+    });
+
+    it('tells empty cells from junk', () => {
+        expect(parseNumber(undefined)).toBeUndefined();
+        expect(parseNumber('  ')).toBeUndefined();
+        expect(parseNumber('--')).toBeUndefined();
+        expect(parseNumber('n/a')).toBeNaN();
+    });
+});
+
+describe('parseTransactionType', () => {
+    it('maps broker action text', () => {
+        expect(parseTransactionType('YOU BOUGHT')).toBe('buy');
+        expect(parseTransactionType('Advanced Trade Sell')).toBe('sell');
+        expect(parseTransactionType('REINVESTMENT')).toBe('buy');
+        expect(parseTransactionType('CDIV')).toBe('dividend');
+        expect(parseTransactionType('ADR Fee')).toBe('fee');
+        expect(parseTransactionType('Journal')).toBeNull();
+        expect(parseTransactionType('')).toBeNull();
+    });
+});
+
+describe('parseTicker', () => {
+    it('uppercases stock symbols and prefixes crypto assets', () => {
+        expect(parseTicker(' aapl ', 'auto')).toBe('AAPL');
+        expect(parseTicker('btc', 'crypto')).toBe('X:BTCUSD');
+        expect(parseTicker('', 'auto')).toBe('');
+    });
+});
+
+describe('toRecords', () => {
+    it('skips title lines above the header row and blank rows', () => {
+        const { headers, rows } = toRecords([
+            ['Transactions for account ...1234'],
+            [''],
+            ['Date', 'Action', 'Symbol', 'Quantity', 'Price'],
+            ['03/05/2024', 'Buy', 'AAPL', '10', '170.00'],
+            ['', '', '', '', '']
+        ]);
+
+        expect(headers).toEqual(['Date', 'Action', 'Symbol', 'Quantity', 'Price']);
+        expect(rows).toEqual([{ Date: '03/05/2024', Action: 'Buy', Symbol: 'AAPL', Quantity: '10', Price: '170.00' }]);
+    });
+
+    it('detects nothing for a file without a recognisable header', () => {
+        expect(detectPreset(['Foo', 'Bar'])).toBeUndefined();
+    });
+});
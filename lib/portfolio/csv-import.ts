@@ -0,0 +1,432 @@
+import { toPolygonCryptoTicker } from '../market-data/symbols';
+import { transactionFingerprint } from './fingerprint';
+import { PortfolioTransaction, TransactionType } from './types';
+
+// Turning rows of a broker or exchange CSV export into portfolio transactions.
+// The mapping says which column holds each field; everything else (signs, "$1,234.56",
+// date formats, currencies, action names like "YOU BOUGHT") is normalized here.
+
+export type ImportField = 'date' | 'type' | 'ticker' | 'quantity' | 'price' | 'amount' | 'fees' | 'currency' | 'note';
+
+export type DateFormat = 'auto' | 'mdy' | 'dmy' | 'ymd';
+
+export type TickerFormat = 'auto' | 'crypto';
+
+export interface ImportMapping {
+    columns: Partial<Record<ImportField, string>>;
+    dateFormat: DateFormat;
+    tickerFormat: TickerFormat;
+    defaultType?: TransactionType;
+}
+
+export interface ImportPreset {
+    id: string;
+    name: string;
+    mapping: ImportMapping;
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+    { field: 'date', label: 'Date', required: true },
+    { field: 'type', label: 'Type / Action' },
+    { field: 'ticker', label: 'Ticker / Asset', required: true },
+    { field: 'quantity', label: 'Quantity' },
+    { field: 'price', label: 'Price' },
+    { field: 'amount', label: 'Amount' },
+    { field: 'fees', label: 'Fees / Commission' },
+    { field: 'currency', label: 'Currency' },
+    { field: 'note', label: 'Note' }
+];
+
+export const BUILT_IN_PRESETS: ImportPreset[] = [
+    {
+        id: 'builtin:generic',
+        name: 'Generic (date, type, ticker, ...)',
+        mapping: {
+            columns: {
+                date: 'date', type: 'type', ticker: 'ticker', quantity: 'quantity', price: 'price',
+                amount: 'amount', fees: 'fees', currency: 'currency', note: 'note'
+            },
+            dateFormat: 'auto',
+            tickerFormat: 'auto'
+        }
+    },
+    {
+        id: 'builtin:coinbase',
+        name: 'Coinbase account statement',
+        mapping: {
+            columns: {
+                date: 'Timestamp', type: 'Transaction Type', ticker: 'Asset', quantity: 'Quantity Transacted',
+                price: 'Spot Price at Transaction', amount: 'Subtotal', fees: 'Fees and/or Spread',
+                currency: 'Spot Price Currency', note: 'Notes'
+            },
+            dateFormat: 'ymd',
+            tickerFormat: 'crypto'
+        }
+    },
+    {
+        id: 'builtin:schwab',
+        name: 'Charles Schwab',
+        mapping: {
+            columns: {
+                date: 'Date', type: 'Action', ticker: 'Symbol', quantity: 'Quantity', price: 'Price',
+                amount: 'Amount', fees: 'Fees & Comm', note: 'Description'
+            },
+            dateFormat: 'mdy',
+            tickerFormat: 'auto'
+        }
+    },
+    {
+        id: 'builtin:fidelity',
+        name: 'Fidelity',
+        mapping: {
+            columns: {
+                date: 'Run Date', type: 'Action', ticker: 'Symbol', quantity: 'Quantity', price: 'Price ($)',
+                amount: 'Amount ($)', fees: 'Commission ($)', note: 'Description'
+            },
+            dateFormat: 'mdy',
+            tickerFormat: 'auto'
+        }
+    },
+    {
+        id: 'builtin:robinhood',
+        name: 'Robinhood',
+        mapping: {
+            columns: {
+                date: 'Activity Date', type: 'Trans Code', ticker: 'Instrument', quantity: 'Quantity',
+                price: 'Price', amount: 'Amount', note: 'Description'
+            },
+            dateFormat: 'mdy',
+            tickerFormat: 'auto'
+        }
+    }
+];
+
+/**
+ * Find the header matching a mapped column name, ignoring case and surrounding spaces
+ */
+export const findHeader = (headers: string[], column: string | undefined): string | undefined => {
+    if (!column) return undefined;
+    const wanted = column.trim().toLowerCase();
+    return headers.find(header => header.trim().toLowerCase() === wanted);
+};
+
+/**
+ * Turn raw CSV rows into header-keyed records. Some exports (Coinbase statements, Schwab) put a few
+ * title lines above the real header row, so the header is the first row naming known columns.
+ */
+export const toRecords = (data: string[][]): { headers: string[]; rows: Record<string, string>[] } => {
+    const knownColumns = new Set(
+        BUILT_IN_PRESETS.flatMap(preset => Object.values(preset.mapping.columns))
+            .filter((column): column is string => Boolean(column))
+            .map(column => column.toLowerCase())
+    );
+
+    const filled = (row: string[]) => row.filter(cell => cell.trim() !== '').length;
+    let headerIndex = data.findIndex(row => row.filter(cell => knownColumns.has(cell.trim().toLowerCase())).length >= 2);
+    if (headerIndex === -1) {
+        headerIndex = data.findIndex(row => filled(row) >= 3);
+    }
+    if (headerIndex === -1) {
+        return { headers: [], rows: [] };
+    }
+
+    const headers = data[headerIndex].map(cell => cell.trim());
+    const rows = data.slice(headerIndex + 1)
+        .filter(row => filled(row) > 0)
+        .map(row => Object.fromEntries(headers.map((header, i) => [header, row[i] ?? ''])));
+
+    return { headers, rows };
+};
+
+/**
+ * Pick the built-in preset whose date and ticker columns (plus most of the rest) exist in the file
+ */
+export const detectPreset = (headers: string[], presets: ImportPreset[] = BUILT_IN_PRESETS): ImportPreset | undefined => {
+    let best: { preset: ImportPreset; score: number } | undefined;
+
+    presets.forEach(preset => {
+        const columns = Object.values(preset.mapping.columns).filter(Boolean);
+        if (!findHeader(headers, preset.mapping.columns.date) || !findHeader(headers, preset.mapping.columns.ticker)) {
+            return;
+        }
+        const score = columns.filter(column => findHeader(headers, column)).length / columns.length;
+        if (!best || score > best.score) {
+            best = { preset, score };
+        }
+    });
+
+    return best && best.score >= 0.6 ? best.preset : undefined;
+};
+
+/**
+ * Map a broker's action text ("YOU BOUGHT", "Advanced Trade Sell", "CDIV") to a transaction type
+ */
+export const parseTransactionType = (value: string): TransactionType | null => {
+    const action = value.trim().toLowerCase();
+    if (!action) return null;
+
+    // Reinvested dividends are purchases of shares; the cash dividend is its own row
+    if (/reinvest/.test(action)) return 'buy';
+    if (/\b(sell|sold|sld)\b/.test(action)) return 'sell';
+    if (/\b(buy|bought|bot|purchase|purchased)\b/.test(action)) return 'buy';
+    if (/\b(dividend|div|cdiv|qualified dividend)\b/.test(action)) return 'dividend';
+    if (/\b(fee|fees|commission|adr fee|gold)\b/.test(action)) return 'fee';
+    return null;
+};
+
+/**
+ * Parse "1,234.56", "$1,234.56", "-$12.00" or "(12.00)". Returns undefined for an empty cell and NaN for junk.
+ */
+export const parseNumber = (value: string | undefined): number | undefined => {
+    if (value === undefined) return undefined;
+    let text = value.trim();
+    if (!text || text === '--' || text === '-') return undefined;
+
+    let negative = false;
+    if (/^\(.*\)$/.test(text)) {
+        negative = true;
+        text = text.slice(1, -1);
+    }
+    text = text.replace(/[$€£¥,\s]/g, '').replace(/[A-Za-z]+$/, '');
+    if (text.startsWith('-')) {
+        negative = !negative;
+        text = text.slice(1);
+    }
+
+    const number = Number(text);
+    if (!text || !Number.isFinite(number)) return NaN;
+    return negative ? -number : number;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// 1-12 for "Jan", "January" or "Sept"; 0 for anything else
+const parseMonthName = (name: string) => {
+    const lower = name.toLowerCase();
+    return lower.length >= 3 ? MONTH_NAMES.findIndex(month => month.startsWith(lower)) + 1 : 0;
+};
+
+/**
+ * Parse a date cell to YYYY-MM-DD. Times and trailing text ("as of 01/01/2024", "UTC") are ignored.
+ */
+export const parseDate = (value: string | undefined, format: DateFormat): string | null => {
+    const text = (value ?? '').trim();
+    if (!text) return null;
+
+    let year: number;
+    let month: number;
+    let day: number;
+
+    const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    const numeric = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+    // Month names, with or without a weekday: "Jan 5, 2024", "Fri Jan 05 2024", "5 January 2024", "05-Jan-24"
+    const namedMonthFirst = text.match(/^(?:[a-z]{3,}\.?,?\s+)?([a-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/i);
+    const namedDayFirst = text.match(/^(?:[a-z]{3,}\.?,?\s+)?(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]{3,})\.?,?[\s-]+(\d{2,4})/i);
+
+    if (iso) {
+        [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    } else if (numeric) {
+        const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+        year = Number(numeric[3]);
+        if (year < 100) year += 2000;
+
+        // US brokers write month first; only read day first when asked or when it can't be a month
+        const dayFirst = format === 'dmy' || (format === 'auto' && first > 12);
+        [month, day] = dayFirst ? [second, first] : [first, second];
+    } else if (namedMonthFirst) {
+        [year, month, day] = [Number(namedMonthFirst[3]), parseMonthName(namedMonthFirst[1]), Number(namedMonthFirst[2])];
+    } else if (namedDayFirst) {
+        [year, month, day] = [Number(namedDayFirst[3]), parseMonthName(namedDayFirst[2]), Number(namedDayFirst[1])];
+        if (year < 100) year += 2000;
+    } else {
+        return null;
+    }
+
+    const date = `${year}-${pad(month)}-${pad(day)}`;
+    const check = new Date(`${date}T00:00:00Z`);
+    if (isNaN(check.getTime()) || check.getUTCMonth() + 1 !== month || check.getUTCDate() !== day) {
+        return null;
+    }
+    return date;
+};
+
+/**
+ * Normalize a symbol to a Polygon ticker. Crypto files list bare assets ("BTC"), which become "X:BTCUSD".
+ */
+export const parseTicker = (value: string | undefined, format: TickerFormat): string => {
+    const symbol = (value ?? '').trim().toUpperCase().replace(/\s+/g, '');
+    if (!symbol) return '';
+
+    if (symbol.startsWith('X:') || /^[A-Z0-9]+-[A-Z]+$/.test(symbol)) {
+        return toPolygonCryptoTicker(symbol.replace(/-USDT?$/, '-USD'));
+    }
+    if (format === 'crypto') {
+        return `X:${symbol}USD`;
+    }
+    return symbol;
+};
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'error' | 'skipped';
+
+export interface ImportPreviewRow {
+    line: number;                          // 1-based data row number in the file
+    status: ImportRowStatus;
+    transaction?: PortfolioTransaction & { note?: string };
+    errors: string[];                      // why the row can't be imported
+    warnings: string[];                    // imported, but worth a look (unknown symbol, ...)
+    action?: string;                       // raw type/action text, shown for skipped rows
+}
+
+export interface ImportPreviewOptions {
+    // USD value of one unit of each non-USD currency, e.g. { EUR: 1.08 }
+    exchangeRates?: Record<string, number>;
+    // Known stock and crypto tickers; when given, other symbols are flagged
+    knownTickers?: Set<string>;
+    existingTransactions?: PortfolioTransaction[];
+}
+
+/**
+ * Currencies other than USD used in the file's currency column
+ */
+export const findForeignCurrencies = (rows: Record<string, string>[], headers: string[], mapping: ImportMapping): string[] => {
+    const column = findHeader(headers, mapping.columns.currency);
+    if (!column) return [];
+
+    const currencies = new Set<string>();
+    rows.forEach(row => {
+        const currency = (row[column] ?? '').trim().toUpperCase();
+        if (currency && currency !== 'USD') currencies.add(currency);
+    });
+    return Array.from(currencies).sort();
+};
+
+const parseRow = (
+    row: Record<string, string>,
+    headers: string[],
+    mapping: ImportMapping,
+    options: ImportPreviewOptions
+): Omit<ImportPreviewRow, 'line' | 'status'> & { skipped?: boolean } => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const cell = (field: ImportField) => {
+        const header = findHeader(headers, mapping.columns[field]);
+        return header !== undefined ? row[header] : undefined;
+    };
+
+    // Type: from the action column, falling back to the mapping's default
+    const action = cell('type')?.trim();
+    const type = action ? parseTransactionType(action) : mapping.defaultType ?? null;
+    if (!type) {
+        // Deposits, transfers, conversions and the like don't affect positions
+        return { errors: [action ? `Unsupported action "${action}"` : 'No transaction type'], warnings, action, skipped: true };
+    }
+
+    const date = parseDate(cell('date'), mapping.dateFormat);
+    if (!date) errors.push(`Unreadable date "${cell('date') ?? ''}"`);
+
+    const ticker = parseTicker(cell('ticker'), mapping.tickerFormat);
+    if (!ticker) errors.push('Missing ticker');
+    if (ticker && options.knownTickers && !options.knownTickers.has(ticker)) {
+        warnings.push(`Unknown symbol ${ticker}`);
+    }
+
+    // Convert foreign currency amounts to USD
+    const currency = (cell('currency') ?? '').trim().toUpperCase() || 'USD';
+    let rate = 1;
+    if (currency !== 'USD') {
+        const configured = options.exchangeRates?.[currency];
+        if (configured && configured > 0) {
+            rate = configured;
+        } else {
+            errors.push(`No USD exchange rate for ${currency}`);
+        }
+    }
+
+    const number = (field: ImportField, label: string) => {
+        const value = parseNumber(cell(field));
+        if (value !== undefined && isNaN(value)) {
+            errors.push(`Unreadable ${label} "${cell(field)}"`);
+            return undefined;
+        }
+        // Exports sign quantities and amounts by cash direction; the type already says which way it went
+        return value === undefined ? undefined : Math.abs(value);
+    };
+
+    const quantity = number('quantity', 'quantity');
+    const price = number('price', 'price');
+    const amount = number('amount', 'amount');
+    const fees = number('fees', 'fees');
+    const note = cell('note')?.trim() || undefined;
+
+    let transaction: ImportPreviewRow['transaction'];
+    if (type === 'buy' || type === 'sell') {
+        if (!quantity) errors.push('Missing quantity');
+
+        // Some exports only give the cash amount; back the unit price out of it
+        let unitPrice = price;
+        if (unitPrice === undefined && amount !== undefined && quantity) {
+            const gross = type === 'buy' ? amount - (fees ?? 0) : amount + (fees ?? 0);
+            unitPrice = Math.max(gross, 0) / quantity;
+        }
+        if (unitPrice === undefined) errors.push('Missing price');
+
+        if (date && ticker && quantity && unitPrice !== undefined) {
+            transaction = {
+                type,
+                ticker,
+                date,
+                quantity,
+                price: unitPrice * rate,
+                fees: fees ? fees * rate : undefined,
+                note
+            };
+        }
+    } else {
+        // Fee rows often put the charge in the fees column rather than the amount
+        const cash = amount || (type === 'fee' ? fees : undefined);
+        if (!cash) errors.push('Missing amount');
+        if (date && ticker && cash) {
+            transaction = { type, ticker, date, amount: cash * rate, note };
+        }
+    }
+
+    return { transaction: errors.length === 0 ? transaction : undefined, errors, warnings, action };
+};
+
+/**
+ * Parse every row and mark what would happen on import.
+ *
+ * A row is a duplicate when the same transaction is already recorded. Identical rows are
+ * counted, so a file with two genuinely identical trades re-imported onto one existing copy
+ * still adds the second.
+ */
+export const buildImportPreview = (
+    rows: Record<string, string>[],
+    headers: string[],
+    mapping: ImportMapping,
+    options: ImportPreviewOptions = {}
+): ImportPreviewRow[] => {
+    const existingCounts = new Map<string, number>();
+    (options.existingTransactions ?? []).forEach(transaction => {
+        const fingerprint = transactionFingerprint(transaction);
+        existingCounts.set(fingerprint, (existingCounts.get(fingerprint) ?? 0) + 1);
+    });
+
+    return rows.map((row, index) => {
+        const { skipped, ...parsed } = parseRow(row, headers, mapping, options);
+        const line = index + 1;
+
+        if (skipped) return { line, status: 'skipped', ...parsed };
+        if (!parsed.transaction) return { line, status: 'error', ...parsed };
+
+        const fingerprint = transactionFingerprint(parsed.transaction);
+        const remaining = existingCounts.get(fingerprint) ?? 0;
+        if (remaining > 0) {
+            existingCounts.set(fingerprint, remaining - 1);
+            return { line, status: 'duplicate', ...parsed };
+        }
+        return { line, status: 'new', ...parsed };
+    });
+};
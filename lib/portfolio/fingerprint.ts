@@ -0,0 +1,21 @@
+import { PortfolioTransaction } from './types';
+
+// Round away float noise so 0.1 + 0.2 and 0.3 compare equal
+const normalize = (value: number | undefined) => {
+    return value === undefined ? '' : String(Number(value.toFixed(8)));
+};
+
+/**
+ * A key that is identical for the same transaction entered twice, used to spot duplicates on re-import
+ */
+export const transactionFingerprint = (transaction: PortfolioTransaction): string => {
+    return [
+        transaction.date,
+        transaction.type,
+        transaction.ticker.toUpperCase(),
+        normalize(transaction.quantity),
+        normalize(transaction.price),
+        normalize(transaction.amount),
+        normalize(transaction.fees)
+    ].join('|');
+};
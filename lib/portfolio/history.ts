@@ -0,0 +1,75 @@
+import { AggregateBar } from '../market-data/types';
+import { applyTransaction, createHolding, sortTransactions } from './positions';
+import { CostBasisMethod, Holding, PortfolioTransaction, ValueHistoryPoint } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (timestamp: number) => new Date(timestamp).toISOString().split('T')[0];
+
+/**
+ * Daily portfolio value from the first transaction to `endDate`
+ * @param dailyBars Daily bars per ticker covering the same range
+ *
+ * Days without a close (weekends and holidays for stocks) carry the last close forward, and a
+ * ticker with no bar yet is valued at its last trade price. Days on which nothing traded and no
+ * transaction happened are left out.
+ */
+export const buildValueHistory = (
+    transactions: PortfolioTransaction[],
+    dailyBars: Record<string, AggregateBar[]>,
+    method: CostBasisMethod,
+    endDate: string = toDateString(Date.now())
+): ValueHistoryPoint[] => {
+    const sorted = sortTransactions(transactions);
+    if (sorted.length === 0) return [];
+
+    // ticker -> date -> close
+    const closes = new Map<string, Map<string, number>>();
+    Object.entries(dailyBars).forEach(([ticker, bars]) => {
+        closes.set(ticker, new Map(bars.map(bar => [toDateString(bar.t), bar.c])));
+    });
+
+    const holdings = new Map<string, Holding>();
+    const lastPrices = new Map<string, number>();
+    const history: ValueHistoryPoint[] = [];
+    let next = 0;
+
+    for (let day = Date.parse(sorted[0].date); toDateString(day) <= endDate; day += DAY_MS) {
+        const date = toDateString(day);
+        let isActive = false;
+
+        while (next < sorted.length && sorted[next].date <= date) {
+            const transaction = sorted[next++];
+            let holding = holdings.get(transaction.ticker);
+            if (!holding) {
+                holding = createHolding(transaction.ticker);
+                holdings.set(transaction.ticker, holding);
+            }
+            applyTransaction(holding, transaction, method);
+            if (transaction.price && !lastPrices.has(transaction.ticker)) {
+                lastPrices.set(transaction.ticker, transaction.price);
+            }
+            isActive = true;
+        }
+
+        holdings.forEach((holding, ticker) => {
+            const close = closes.get(ticker)?.get(date);
+            if (close !== undefined) {
+                lastPrices.set(ticker, close);
+                if (holding.quantity > 0) isActive = true;
+            }
+        });
+
+        if (!isActive) continue;
+
+        let value = 0;
+        let invested = 0;
+        holdings.forEach((holding, ticker) => {
+            value += holding.quantity * (lastPrices.get(ticker) ?? 0);
+            invested += holding.costBasis;
+        });
+        history.push({ date, value, invested });
+    }
+
+    return history;
+};
@@ -0,0 +1,5 @@
+export * from './types';
+export * from './positions';
+export * from './history';
+export * from './fingerprint';
+export * from './csv-import';
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { computeHoldings, markToMarket } from './positions';
+import { PortfolioTransaction } from './types';
+
+const trades: PortfolioTransaction[] = [
+    // Out of order on purpose: holdings are replayed by date
+    { type: 'sell', ticker: 'AAPL', date: '2024-03-01', quantity: 15, price: 130, fees: 5 },
+    { type: 'buy', ticker: 'AAPL', date: '2024-01-02', quantity: 10, price: 100 },
+    { type: 'buy', ticker: 'AAPL', date: '2024-02-01', quantity: 10, price: 120 }
+];
+
+describe('computeHoldings', () => {
+    it('sells the oldest lots first with FIFO', () => {
+        const [holding] = computeHoldings(trades, 'fifo').holdings;
+
+        // Cost of the 15 sold: 10 × 100 + 5 × 120; proceeds: 15 × 130 - 5
+        expect(holding.realizedPnL).toBeCloseTo(1945 - 1600, 10);
+        expect(holding.lots).toEqual([{ date: '2024-02-01', quantity: 5, unitCost: 120 }]);
+        expect(holding.quantity).toBe(5);
+        expect(holding.costBasis).toBeCloseTo(600, 10);
+        expect(holding.averageCost).toBeCloseTo(120, 10);
+    });
+
+    it('sells from one pooled lot at the blended cost with average cost', () => {
+        const [holding] = computeHoldings(trades, 'average').holdings;
+
+        expect(holding.lots).toHaveLength(1);
+        expect(holding.realizedPnL).toBeCloseTo(1945 - 15 * 110, 10);
+        expect(holding.costBasis).toBeCloseTo(5 * 110, 10);
+        expect(holding.averageCost).toBeCloseTo(110, 10);
+    });
+
+    it('puts commissions into the cost of the units bought', () => {
+        const [holding] = computeHoldings([
+            { type: 'buy', ticker: 'MSFT', date: '2024-01-02', quantity: 10, price: 100, fees: 10 }
+        ], 'fifo').holdings;
+
+        expect(holding.averageCost).toBeCloseTo(101, 10);
+    });
+
+    it('closes a holding that is sold out and keeps its cash flows', () => {
+        const [holding] = computeHoldings([
+            { type: 'buy', ticker: 'X:BTCUSD', date: '2024-01-02', quantity: 0.1, price: 40000 },
+            { type: 'buy', ticker: 'X:BTCUSD', date: '2024-01-03', quantity: 0.2, price: 45000 },
+            { type: 'sell', ticker: 'X:BTCUSD', date: '2024-02-01', quantity: 0.3, price: 50000 },
+            { type: 'fee', ticker: 'X:BTCUSD', date: '2024-02-02', amount: 2 }
+        ], 'fifo').holdings;
+
+        expect(holding.quantity).toBe(0);
+        expect(holding.costBasis).toBe(0);
+        expect(holding.lots).toEqual([]);
+        expect(holding.realizedPnL).toBeCloseTo(15000 - 13000, 6);
+        expect(holding.fees).toBe(2);
+    });
+
+    it('warns when more is sold than was held and treats the extra as costless', () => {
+        const { holdings, warnings } = computeHoldings([
+            { type: 'buy', ticker: 'AAPL', date: '2024-01-02', quantity: 5, price: 100 },
+            { type: 'sell', ticker: 'AAPL', date: '2024-01-03', quantity: 8, price: 110 }
+        ], 'fifo');
+
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0]).toContain('sold 8 AAPL but only held 5');
+        expect(holdings[0].realizedPnL).toBeCloseTo(880 - 500, 10);
+    });
+});
+
+describe('markToMarket', () => {
+    it('values, weights and totals the open positions', () => {
+        const { holdings } = computeHoldings([
+            ...trades,
+            { type: 'buy', ticker: 'MSFT', date: '2024-01-02', quantity: 2, price: 400 },
+            { type: 'dividend', ticker: 'MSFT', date: '2024-02-15', amount: 1.5 },
+            { type: 'buy', ticker: 'TSLA', date: '2024-01-02', quantity: 1, price: 200 }
+        ], 'fifo');
+
+        const { positions, summary } = markToMarket(holdings, { AAPL: 140, MSFT: 410 });
+
+        expect(positions.map(p => p.ticker)).toEqual(['MSFT', 'AAPL', 'TSLA']);
+        expect(positions[0].allocation).toBeCloseTo(820 / 1520, 10);
+        expect(positions[1].unrealizedPnL).toBeCloseTo(700 - 600, 10);
+        expect(positions[2]).toMatchObject({ price: null, marketValue: null, allocation: null });
+
+        expect(summary.marketValue).toBeCloseTo(1520, 10);
+        expect(summary.hasMissingPrices).toBe(true);
+        // Unrealized on priced positions + realized + dividends
+        expect(summary.totalPnL).toBeCloseTo(100 + 20 + 345 + 1.5, 10);
+    });
+});
@@ -0,0 +1,177 @@
+import { CostBasisMethod, Holding, Portfolio, PortfolioSummary, PortfolioTransaction, Position } from './types';
+
+// Quantities below this are rounding noise from fractional crypto trades, not a holding
+const QUANTITY_EPSILON = 1e-9;
+
+export const createHolding = (ticker: string): Holding => ({
+    ticker,
+    quantity: 0,
+    costBasis: 0,
+    averageCost: 0,
+    realizedPnL: 0,
+    dividends: 0,
+    fees: 0,
+    lots: []
+});
+
+/**
+ * Sort transactions into the order they happened. Stable, so same-day transactions keep their entry order.
+ */
+export const sortTransactions = <T extends PortfolioTransaction>(transactions: T[]): T[] => {
+    return [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const buy = (holding: Holding, transaction: PortfolioTransaction, method: CostBasisMethod) => {
+    const quantity = transaction.quantity ?? 0;
+    const cost = quantity * (transaction.price ?? 0) + (transaction.fees ?? 0);
+    if (quantity <= 0) return;
+
+    if (method === 'average' && holding.lots.length > 0) {
+        // Pool everything into one lot at the blended cost
+        const pooled = holding.lots[0];
+        const totalQuantity = pooled.quantity + quantity;
+        pooled.unitCost = (pooled.quantity * pooled.unitCost + cost) / totalQuantity;
+        pooled.quantity = totalQuantity;
+    } else {
+        holding.lots.push({ date: transaction.date, quantity, unitCost: cost / quantity });
+    }
+};
+
+const sell = (holding: Holding, transaction: PortfolioTransaction, warnings: string[]) => {
+    const quantity = transaction.quantity ?? 0;
+    const proceeds = quantity * (transaction.price ?? 0) - (transaction.fees ?? 0);
+    if (quantity <= 0) return;
+
+    // Oldest lots first. With average cost there is only one lot, so this takes from the pool.
+    let remaining = quantity;
+    let soldCost = 0;
+    while (remaining > QUANTITY_EPSILON && holding.lots.length > 0) {
+        const lot = holding.lots[0];
+        const taken = Math.min(lot.quantity, remaining);
+        soldCost += taken * lot.unitCost;
+        lot.quantity -= taken;
+        remaining -= taken;
+        if (lot.quantity <= QUANTITY_EPSILON) {
+            holding.lots.shift();
+        }
+    }
+
+    if (remaining > QUANTITY_EPSILON) {
+        warnings.push(
+            `${transaction.date}: sold ${quantity} ${holding.ticker} but only held ${quantity - remaining}. ` +
+            'The extra units are treated as having no cost.'
+        );
+    }
+
+    holding.realizedPnL += proceeds - soldCost;
+};
+
+/**
+ * Apply one transaction to a holding in place. Transactions must be applied in date order.
+ */
+export const applyTransaction = (
+    holding: Holding,
+    transaction: PortfolioTransaction,
+    method: CostBasisMethod,
+    warnings: string[] = []
+) => {
+    switch (transaction.type) {
+        case 'buy':
+            buy(holding, transaction, method);
+            break;
+        case 'sell':
+            sell(holding, transaction, warnings);
+            break;
+        case 'dividend':
+            holding.dividends += transaction.amount ?? 0;
+            break;
+        case 'fee':
+            holding.fees += transaction.amount ?? 0;
+            break;
+    }
+
+    holding.quantity = holding.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    holding.costBasis = holding.lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+    if (holding.quantity <= QUANTITY_EPSILON) {
+        holding.quantity = 0;
+        holding.costBasis = 0;
+    }
+    holding.averageCost = holding.quantity > 0 ? holding.costBasis / holding.quantity : 0;
+};
+
+/**
+ * Replay transactions into one holding per ticker
+ */
+export const computeHoldings = (
+    transactions: PortfolioTransaction[],
+    method: CostBasisMethod
+): { holdings: Holding[]; warnings: string[] } => {
+    const holdings = new Map<string, Holding>();
+    const warnings: string[] = [];
+
+    sortTransactions(transactions).forEach(transaction => {
+        let holding = holdings.get(transaction.ticker);
+        if (!holding) {
+            holding = createHolding(transaction.ticker);
+            holdings.set(transaction.ticker, holding);
+        }
+        applyTransaction(holding, transaction, method, warnings);
+    });
+
+    return { holdings: Array.from(holdings.values()), warnings };
+};
+
+/**
+ * Mark holdings to market and total them up
+ * @param prices Latest price per ticker; missing or null prices leave that position unpriced
+ */
+export const markToMarket = (
+    holdings: Holding[],
+    prices: Record<string, number | null | undefined>,
+    warnings: string[] = []
+): Portfolio => {
+    const open = holdings.filter(h => h.quantity > 0);
+    const closedPositions = holdings.filter(h => h.quantity === 0);
+
+    const positions: Position[] = open.map(holding => {
+        const price = prices[holding.ticker] ?? null;
+        const marketValue = price !== null ? holding.quantity * price : null;
+        const unrealizedPnL = marketValue !== null ? marketValue - holding.costBasis : null;
+        return {
+            ...holding,
+            price,
+            marketValue,
+            unrealizedPnL,
+            unrealizedPnLPercent: unrealizedPnL !== null && holding.costBasis > 0
+                ? (unrealizedPnL / holding.costBasis) * 100
+                : null,
+            allocation: null
+        };
+    });
+
+    const marketValue = positions.reduce((sum, p) => sum + (p.marketValue ?? 0), 0);
+    positions.forEach(position => {
+        position.allocation = position.marketValue !== null && marketValue > 0
+            ? position.marketValue / marketValue
+            : null;
+    });
+    positions.sort((a, b) => (b.marketValue ?? 0) - (a.marketValue ?? 0));
+
+    const sum = (field: 'realizedPnL' | 'dividends' | 'fees') =>
+        holdings.reduce((total, holding) => total + holding[field], 0);
+
+    const unrealizedPnL = positions.reduce((total, p) => total + (p.unrealizedPnL ?? 0), 0);
+    const summary: PortfolioSummary = {
+        marketValue,
+        costBasis: positions.reduce((total, p) => total + p.costBasis, 0),
+        unrealizedPnL,
+        realizedPnL: sum('realizedPnL'),
+        dividends: sum('dividends'),
+        fees: sum('fees'),
+        totalPnL: 0,
+        hasMissingPrices: positions.some(p => p.price === null)
+    };
+    summary.totalPnL = summary.unrealizedPnL + summary.realizedPnL + summary.dividends - summary.fees;
+
+    return { positions, closedPositions, summary, warnings };
+};
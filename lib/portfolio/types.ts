@@ -0,0 +1,67 @@
+// Shared types for portfolio accounting. Transactions mirror the Convex `transactions` table
+// but only carry the fields the calculations need, so plain objects (e.g. parsed CSV rows) work too.
+
+export type TransactionType = 'buy' | 'sell' | 'dividend' | 'fee';
+
+export type CostBasisMethod = 'fifo' | 'average';
+
+export interface PortfolioTransaction {
+    type: TransactionType;
+    ticker: string;    // Polygon ticker ("AAPL", "X:BTCUSD")
+    date: string;      // YYYY-MM-DD
+    quantity?: number; // buy / sell
+    price?: number;    // buy / sell, per unit
+    amount?: number;   // dividend / fee cash
+    fees?: number;     // buy / sell commission
+}
+
+// A tax lot: units bought together at one cost per unit (commission included)
+export interface Lot {
+    date: string;
+    quantity: number;
+    unitCost: number;
+}
+
+// Everything known about a ticker from its transactions alone, before prices are applied
+export interface Holding {
+    ticker: string;
+    quantity: number;
+    costBasis: number;        // cost of the units still held
+    averageCost: number;      // costBasis / quantity (0 once closed)
+    realizedPnL: number;      // sale proceeds less the cost of the units sold, commissions included
+    dividends: number;
+    fees: number;             // standalone fee transactions (commissions are in cost basis / proceeds)
+    lots: Lot[];              // open lots, oldest first (a single pooled lot with average cost)
+}
+
+export interface Position extends Holding {
+    price: number | null;
+    marketValue: number | null;
+    unrealizedPnL: number | null;
+    unrealizedPnLPercent: number | null;
+    allocation: number | null; // share of the portfolio's market value, 0-1
+}
+
+export interface PortfolioSummary {
+    marketValue: number;
+    costBasis: number;
+    unrealizedPnL: number;
+    realizedPnL: number;
+    dividends: number;
+    fees: number;
+    totalPnL: number;          // unrealized + realized + dividends - fees
+    hasMissingPrices: boolean; // some open positions have no price, so totals are understated
+}
+
+export interface Portfolio {
+    positions: Position[];      // open positions, largest market value first
+    closedPositions: Holding[]; // fully sold tickers that still carry realized P&L, dividends or fees
+    summary: PortfolioSummary;
+    warnings: string[];
+}
+
+export interface ValueHistoryPoint {
+    date: string;     // YYYY-MM-DD
+    value: number;    // market value of the holdings at that day's close
+    invested: number; // cost basis of the holdings on that day
+}
@@ -0,0 +1,35 @@
+import { getMarketDataProvider, setMarketDataProviderOverride } from '@/lib/market-data';
+import { ReplayMarketDataProvider } from './replay-provider';
+import { ReplaySession } from './replay-session';
+import { ReplayOptions } from './types';
+
+let activeSession: ReplaySession | null = null;
+
+/**
+ * Start replaying a day and route every market data consumer to it, replacing any running replay.
+ * Data is fetched from Polygon (or the fixtures when NEXT_PUBLIC_MARKET_DATA_PROVIDER=fixture).
+ */
+export const startReplay = (options: ReplayOptions): ReplaySession => {
+    stopReplay();
+
+    // Resolve the source before the override is installed, or the replay would read from itself
+    const base = getMarketDataProvider('polygon');
+    const session = new ReplaySession(base, options);
+    setMarketDataProviderOverride(new ReplayMarketDataProvider(session, base));
+    activeSession = session;
+
+    session.start();
+    return session;
+};
+
+/**
+ * Stop the running replay, if any, and hand consumers back to the live providers
+ */
+export const stopReplay = (): void => {
+    if (!activeSession) return;
+    activeSession.dispose();
+    activeSession = null;
+    setMarketDataProviderOverride(null);
+};
+
+export const getActiveReplay = (): ReplaySession | null => activeSession;
@@ -0,0 +1,7 @@
+export * from './types';
+export * from './replay-clock';
+export * from './replay-window';
+export * from './trade-loader';
+export * from './replay-session';
+export * from './replay-provider';
+export * from './active-replay';
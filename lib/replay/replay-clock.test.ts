@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayClock } from './replay-clock';
+
+const START = Date.parse('2024-03-05T14:30:00Z');
+const END = START + 60 * 60 * 1000;
+
+describe('ReplayClock', () => {
+    it('stands still until played and while paused', () => {
+        const clock = new ReplayClock(START, END);
+
+        expect(clock.tick(1000)).toBe(START);
+
+        clock.play(1000);
+        expect(clock.tick(3000)).toBe(START + 2000);
+
+        clock.pause();
+        expect(clock.tick(60000)).toBe(START + 2000);
+
+        // Resuming doesn't count the time spent paused
+        clock.play(100000);
+        expect(clock.tick(101000)).toBe(START + 3000);
+    });
+
+    it('runs at the chosen speed from the moment it changes', () => {
+        const clock = new ReplayClock(START, END, 10);
+        clock.play(0);
+        expect(clock.tick(1000)).toBe(START + 10000);
+
+        clock.setSpeed(2, 1000);
+        expect(clock.tick(2000)).toBe(START + 12000);
+    });
+
+    it('clamps the speed to the supported range', () => {
+        expect(new ReplayClock(START, END, 0).speed).toBe(1);
+        expect(new ReplayClock(START, END, 1000).speed).toBe(100);
+    });
+
+    it('seeks within the window', () => {
+        const clock = new ReplayClock(START, END);
+
+        clock.seek(START + 5000);
+        expect(clock.time).toBe(START + 5000);
+        clock.seek(START - 5000);
+        expect(clock.time).toBe(START);
+        clock.seek(END + 5000);
+        expect(clock.time).toBe(END);
+    });
+
+    it('waits at the end of the loaded data instead of running ahead of it', () => {
+        const clock = new ReplayClock(START, END);
+        clock.play(0);
+
+        expect(clock.tick(10000, START + 4000)).toBe(START + 4000);
+        expect(clock.isPlaying).toBe(true);
+        // Never moves backwards if the limit does
+        expect(clock.tick(11000, START + 2000)).toBe(START + 4000);
+    });
+
+    it('stops at the end of the window and will not play past it', () => {
+        const clock = new ReplayClock(START, END, 100);
+        clock.play(0);
+
+        expect(clock.tick(60 * 60 * 1000)).toBe(END);
+        expect(clock.isAtEnd).toBe(true);
+        expect(clock.isPlaying).toBe(false);
+
+        clock.play(0);
+        expect(clock.isPlaying).toBe(false);
+    });
+});
@@ -0,0 +1,78 @@
+import { MAX_REPLAY_SPEED, MIN_REPLAY_SPEED } from './types';
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+/**
+ * Virtual time for a replay. The clock only moves when ticked, by the wall time elapsed since the
+ * previous tick times the speed, so a replay that stalls waiting for data doesn't jump ahead.
+ */
+export class ReplayClock {
+    private current: number;
+    private rate: number;
+    private running = false;
+    private lastWallTime = 0;
+
+    constructor(
+        readonly start: number,
+        readonly end: number,
+        speed: number = MIN_REPLAY_SPEED
+    ) {
+        this.current = start;
+        this.rate = clamp(speed, MIN_REPLAY_SPEED, MAX_REPLAY_SPEED);
+    }
+
+    get time(): number {
+        return this.current;
+    }
+
+    get speed(): number {
+        return this.rate;
+    }
+
+    get isPlaying(): boolean {
+        return this.running;
+    }
+
+    get isAtEnd(): boolean {
+        return this.current >= this.end;
+    }
+
+    play(wallTime: number = Date.now()) {
+        if (this.isAtEnd) return;
+        this.running = true;
+        this.lastWallTime = wallTime;
+    }
+
+    pause() {
+        this.running = false;
+    }
+
+    seek(time: number) {
+        this.current = clamp(time, this.start, this.end);
+    }
+
+    /**
+     * Change speed from now on; time already elapsed at the old speed should be ticked first
+     */
+    setSpeed(speed: number, wallTime: number = Date.now()) {
+        this.rate = clamp(speed, MIN_REPLAY_SPEED, MAX_REPLAY_SPEED);
+        this.lastWallTime = wallTime;
+    }
+
+    /**
+     * Advance by the elapsed wall time, but no further than `limit` (the end of the loaded data).
+     * Reaching the end of the window stops the clock. Returns the new time.
+     */
+    tick(wallTime: number = Date.now(), limit: number = this.end): number {
+        if (!this.running) return this.current;
+
+        const elapsed = Math.max(0, wallTime - this.lastWallTime);
+        this.lastWallTime = wallTime;
+        this.current = Math.max(this.current, Math.min(this.current + elapsed * this.rate, limit, this.end));
+
+        if (this.isAtEnd) {
+            this.running = false;
+        }
+        return this.current;
+    }
+}
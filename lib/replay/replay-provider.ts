@@ -0,0 +1,254 @@
+import {
+    AggregateTimespan,
+    AggregatesRequest,
+    AggregatesResponse,
+    AssetMarket,
+    DividendsResponse,
+    FinancialsResponse,
+    FinancialsTimeframe,
+    MarketDataProvider,
+    MarketStatusResponse,
+    NewsResponse,
+    OhlcvBar,
+    SnapshotResponse,
+    SnapshotTicker,
+    SplitsResponse,
+    StreamAggregate,
+    TickerDetailsResponse,
+    Trade,
+    TradeAggregator,
+    TradeStreamHandlers,
+    TradesRequest,
+    TradesResponse,
+    getEquitySession,
+    isCryptoTicker,
+    toStreamSymbol
+} from '@/lib/market-data';
+import { ReplaySession } from './replay-session';
+import { ReplayState, ReplayStats, ReplayStatus } from './types';
+
+// What stream consumers see; "Connected" while playing, so the replay looks like a live feed
+const STATUS_LABELS: Record<ReplayStatus, string> = {
+    loading: 'Loading replay...',
+    buffering: 'Buffering replay...',
+    playing: 'Connected',
+    paused: 'Replay paused',
+    ended: 'Replay ended',
+    error: 'Replay error'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest a bar of each timespan can run, for deciding whether it had closed by the replay time
+const TIMESPAN_MS: Record<AggregateTimespan, number> = {
+    second: 1000,
+    minute: 60 * 1000,
+    hour: 60 * 60 * 1000,
+    day: DAY_MS,
+    week: 7 * DAY_MS,
+    month: 31 * DAY_MS,
+    quarter: 92 * DAY_MS,
+    year: 366 * DAY_MS
+};
+
+const toStreamAggregate = (symbol: string, bar: OhlcvBar): StreamAggregate => ({
+    symbol,
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume,
+    start: bar.timestamp,
+    end: bar.timestamp + TIMESPAN_MS.minute
+});
+
+const toSnapshotTicker = (ticker: string, stats: ReplayStats): SnapshotTicker => ({
+    ticker,
+    day: {
+        o: stats.open ?? undefined,
+        h: stats.high ?? undefined,
+        l: stats.low ?? undefined,
+        c: stats.last ?? undefined,
+        v: stats.volume
+    },
+    lastTrade: {
+        p: stats.last ?? undefined,
+        s: stats.lastSize,
+        t: stats.lastTimestamp ?? undefined
+    },
+    updated: stats.lastTimestamp ?? undefined
+});
+
+/**
+ * Serves a replay session through the provider interface so hooks and charts run unchanged
+ * against a past day. The replayed symbol streams from the session and history for any ticker is
+ * cut off at the replay clock; ticker details come from the underlying provider.
+ */
+export class ReplayMarketDataProvider implements MarketDataProvider {
+    readonly id = 'replay' as const;
+
+    constructor(
+        private readonly session: ReplaySession,
+        private readonly base: MarketDataProvider
+    ) {}
+
+    now(): number {
+        return this.session.time;
+    }
+
+    async getSnapshots(market: AssetMarket, tickers?: string[]): Promise<SnapshotResponse> {
+        const response = await this.base.getSnapshots(market, tickers);
+        const stats = this.session.stats;
+        if (stats.last === null) return response;
+
+        // Only the replayed ticker has a past to show; the rest are as the underlying provider has them
+        return {
+            ...response,
+            tickers: response.tickers.map(snapshot =>
+                snapshot.ticker.toUpperCase() === this.session.ticker ? toSnapshotTicker(snapshot.ticker, stats) : snapshot
+            )
+        };
+    }
+
+    async getAggregates(request: AggregatesRequest): Promise<AggregatesResponse> {
+        const response = await this.base.getAggregates(request);
+        const now = this.session.time;
+        const barMs = request.multiplier * TIMESPAN_MS[request.timespan];
+
+        // Bars still forming at the replay time would give away how they end
+        const results = response.results?.filter(bar => bar.t + barMs <= now);
+        return { ...response, results, resultsCount: results?.length };
+    }
+
+    getTickerDetails(ticker: string, date?: string): Promise<TickerDetailsResponse> {
+        return this.base.getTickerDetails(ticker, date ?? this.session.date);
+    }
+
+    async getNews(ticker: string, limit?: number): Promise<NewsResponse> {
+        const response = await this.base.getNews(ticker, limit);
+        const now = this.session.time;
+        const results = response.results?.filter(article => Date.parse(article.published_utc) <= now);
+        return { ...response, results, count: results?.length };
+    }
+
+    async getSplits(ticker: string): Promise<SplitsResponse> {
+        if (!this.base.getSplits) {
+            throw new Error(`Splits are not available from the ${this.base.id} provider`);
+        }
+
+        const response = await this.base.getSplits(ticker);
+        const results = response.results?.filter(split => split.execution_date <= this.session.date);
+        return { ...response, results };
+    }
+
+    async getDividends(ticker: string, limit?: number): Promise<DividendsResponse> {
+        if (!this.base.getDividends) {
+            throw new Error(`Dividends are not available from the ${this.base.id} provider`);
+        }
+
+        // A dividend is public once declared, even if it goes ex later
+        const response = await this.base.getDividends(ticker, limit);
+        const results = response.results?.filter(dividend =>
+            (dividend.declaration_date ?? dividend.ex_dividend_date) <= this.session.date);
+        return { ...response, results };
+    }
+
+    async getFinancials(ticker: string, timeframe: FinancialsTimeframe, limit?: number): Promise<FinancialsResponse> {
+        if (!this.base.getFinancials) {
+            throw new Error(`Financials are not available from the ${this.base.id} provider`);
+        }
+
+        // Only reports already filed by the replay date
+        const response = await this.base.getFinancials(ticker, timeframe, limit);
+        const results = response.results?.filter(report => !report.filing_date || report.filing_date <= this.session.date);
+        return { ...response, results };
+    }
+
+    async getMarketStatus(): Promise<MarketStatusResponse> {
+        const session = getEquitySession(this.session.time);
+        return {
+            market: session === 'regular' ? 'open' : session === 'closed' ? 'closed' : 'extended-hours',
+            earlyHours: session === 'pre-market',
+            afterHours: session === 'after-hours',
+            serverTime: new Date(this.session.time).toISOString(),
+            currencies: { crypto: 'open' }
+        };
+    }
+
+    async getTrades(request: TradesRequest): Promise<TradesResponse> {
+        if (!this.base.getTrades) {
+            throw new Error(`Historical trades are not available from the ${this.base.id} provider`);
+        }
+
+        const to = Math.min(request.to, this.session.time);
+        if (to <= request.from) {
+            return { ticker: request.ticker, trades: [], hasMore: false };
+        }
+        return this.base.getTrades({ ...request, to });
+    }
+
+    subscribeTrades(symbol: string, handlers: TradeStreamHandlers): () => void {
+        const isCrypto = isCryptoTicker(symbol);
+        const streamSymbol = isCrypto ? toStreamSymbol(symbol) : symbol.toUpperCase();
+        if (streamSymbol !== this.session.symbol) {
+            handlers.onStatus?.('Not in replay');
+            handlers.onError?.(`Only ${this.session.symbol} is being replayed`);
+            return () => {};
+        }
+
+        // Minute bars are built from the replayed prints, like the live AM channel
+        const aggregator = handlers.onAggregate
+            ? new TradeAggregator('1m', isCrypto ? 'UTC' : 'America/New_York')
+            : null;
+
+        let lastStatus: string | null = null;
+        let lastError: string | null | undefined;
+
+        const onState = (state: ReplayState) => {
+            const status = STATUS_LABELS[state.status];
+            if (status !== lastStatus) {
+                lastStatus = status;
+                handlers.onStatus?.(status);
+            }
+            if (state.error !== lastError) {
+                lastError = state.error;
+                handlers.onError?.(state.error);
+            }
+        };
+
+        const onTrades = (trades: Trade[]) => {
+            handlers.onTrades(trades);
+
+            if (aggregator) {
+                for (const trade of trades) {
+                    const closedBar = aggregator.add(trade.price, trade.size, trade.timestamp)?.closedBar;
+                    if (closedBar) {
+                        handlers.onAggregate?.(toStreamAggregate(streamSymbol, closedBar));
+                    }
+                }
+            }
+
+            const stats = this.session.stats;
+            if (stats.last !== null && stats.lastTimestamp !== null) {
+                handlers.onQuote?.({
+                    symbol: streamSymbol,
+                    price: stats.last,
+                    timestamp: stats.lastTimestamp,
+                    open24h: stats.open ?? undefined,
+                    high24h: stats.high ?? undefined,
+                    low24h: stats.low ?? undefined,
+                    volume24h: stats.volume
+                });
+            }
+        };
+
+        onState(this.session.state);
+        const offState = this.session.events.on('state', onState);
+        const offTrades = this.session.events.on('trades', onTrades);
+
+        return () => {
+            offState();
+            offTrades();
+        };
+    }
+}
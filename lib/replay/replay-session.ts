@@ -0,0 +1,283 @@
+import { TypedEventBus } from '@/lib/feeds';
+import { MarketDataProvider, Trade, isCryptoTicker, toPolygonCryptoTicker, toStreamSymbol } from '@/lib/market-data';
+import { ReplayClock } from './replay-clock';
+import { getReplayWindow } from './replay-window';
+import { LoadedTrades, loadAggregateTrades, loadTradePage } from './trade-loader';
+import { ReplayEvents, ReplayOptions, ReplaySource, ReplayState, ReplayStats, ReplayStatus, ReplayWindow } from './types';
+
+const TICK_INTERVAL_MS = 100;
+// Trades are requested this much replay time at a time
+const LOAD_WINDOW_MS = 5 * 60 * 1000;
+// Keep at least this much playback (in wall time) loaded ahead of the clock
+const PREFETCH_WALL_MS = 10 * 1000;
+// Played trades are dropped from the buffer in batches rather than on every tick
+const BUFFER_COMPACT_THRESHOLD = 5000;
+
+const EMPTY_STATS: ReplayStats = {
+    open: null,
+    high: null,
+    low: null,
+    last: null,
+    lastSize: 0,
+    lastTimestamp: null,
+    volume: 0
+};
+
+/**
+ * Plays back one ticker's trading day. Trades are loaded in windows ahead of a virtual clock and
+ * emitted as the clock passes them; if tick data can't be loaded (no trades access on the Polygon
+ * plan, or a provider without historical trades) the day is replayed from minute bars instead.
+ * When playback catches up with the loaded data the clock holds until the next window arrives.
+ */
+export class ReplaySession {
+    readonly events = new TypedEventBus<ReplayEvents>();
+    readonly ticker: string;   // Polygon form, e.g. "X:BTCUSD"
+    readonly symbol: string;   // stream form, e.g. "BTC-USD"
+    readonly date: string;
+    readonly window: ReplayWindow;
+
+    private readonly clock: ReplayClock;
+    private source: ReplaySource | null = null;
+    private error: string | null = null;
+    private seekGeneration = 0;
+
+    private buffer: Trade[] = [];
+    private cursor = 0;
+    private loadedUntil: number;
+    private isLoading = false;
+    // The whole day as synthetic prints, once tick data has been ruled out
+    private aggregateTrades: Trade[] | null = null;
+
+    private statistics: ReplayStats = { ...EMPTY_STATS };
+    private wantsPlay = false;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private isDisposed = false;
+
+    constructor(private readonly provider: MarketDataProvider, options: ReplayOptions) {
+        const isCrypto = isCryptoTicker(options.ticker);
+        this.symbol = isCrypto ? toStreamSymbol(options.ticker) : options.ticker.toUpperCase();
+        this.ticker = isCrypto ? toPolygonCryptoTicker(this.symbol) : this.symbol;
+        this.date = options.date;
+        this.window = getReplayWindow(this.ticker, options.date);
+
+        this.clock = new ReplayClock(this.window.start, this.window.end, options.speed);
+        this.clock.seek(options.startAt ?? this.window.defaultStart);
+        this.loadedUntil = this.clock.time;
+    }
+
+    get time(): number {
+        return this.clock.time;
+    }
+
+    get stats(): ReplayStats {
+        return { ...this.statistics };
+    }
+
+    get status(): ReplayStatus {
+        if (this.error) return 'error';
+        if (this.clock.isAtEnd && this.cursor >= this.buffer.length) return 'ended';
+
+        const isStarved = this.loadedUntil <= this.clock.time && this.loadedUntil < this.window.end;
+        if (isStarved && this.source === null) return 'loading';
+        if (!this.wantsPlay) return 'paused';
+        return isStarved ? 'buffering' : 'playing';
+    }
+
+    get state(): ReplayState {
+        return {
+            ticker: this.ticker,
+            symbol: this.symbol,
+            date: this.date,
+            status: this.status,
+            source: this.source,
+            start: this.window.start,
+            end: this.window.end,
+            time: this.clock.time,
+            speed: this.clock.speed,
+            seekGeneration: this.seekGeneration,
+            error: this.error
+        };
+    }
+
+    /**
+     * Start loading from the starting position; playback waits for play()
+     */
+    start() {
+        this.fill();
+        this.publish();
+    }
+
+    play() {
+        if (this.isDisposed || this.clock.isAtEnd) return;
+
+        // Playing again after a failed load retries it
+        this.error = null;
+        this.wantsPlay = true;
+        this.clock.play();
+        if (!this.timer) {
+            this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+        }
+        this.fill();
+        this.publish();
+    }
+
+    pause() {
+        // Deliver everything up to the moment of pausing first
+        this.tick();
+        this.wantsPlay = false;
+        this.clock.pause();
+        this.stopTimer();
+        this.publish();
+    }
+
+    /**
+     * Jump to a time in the window. Everything loaded is discarded and the running stats start over;
+     * playback continues from the new position if it was playing.
+     */
+    seek(time: number) {
+        if (this.isDisposed) return;
+
+        this.seekGeneration++;
+        this.clock.seek(time);
+        this.buffer = [];
+        this.cursor = 0;
+        this.loadedUntil = this.clock.time;
+        this.isLoading = false;
+        this.error = null;
+        this.statistics = { ...EMPTY_STATS };
+
+        if (this.wantsPlay) {
+            this.clock.play();
+        }
+        this.fill();
+        this.publish();
+    }
+
+    setSpeed(speed: number) {
+        // Time already elapsed counts at the old speed
+        this.tick();
+        this.clock.setSpeed(speed);
+        this.fill();
+        this.publish();
+    }
+
+    dispose() {
+        this.isDisposed = true;
+        this.wantsPlay = false;
+        this.clock.pause();
+        this.stopTimer();
+        this.seekGeneration++;
+    }
+
+    private stopTimer() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private tick() {
+        if (this.isDisposed) return;
+
+        const time = this.clock.tick(Date.now(), this.loadedUntil);
+        this.emitUpTo(time);
+        if (this.clock.isAtEnd) {
+            this.wantsPlay = false;
+            this.stopTimer();
+        }
+        this.fill();
+        this.publish();
+    }
+
+    private emitUpTo(time: number) {
+        const first = this.cursor;
+        while (this.cursor < this.buffer.length && this.buffer[this.cursor].timestamp < time) {
+            this.cursor++;
+        }
+        if (this.cursor === first) return;
+
+        const trades = this.buffer.slice(first, this.cursor);
+        if (this.cursor >= BUFFER_COMPACT_THRESHOLD) {
+            this.buffer = this.buffer.slice(this.cursor);
+            this.cursor = 0;
+        }
+
+        const stats = this.statistics;
+        for (const trade of trades) {
+            stats.open ??= trade.price;
+            stats.high = Math.max(stats.high ?? trade.price, trade.price);
+            stats.low = Math.min(stats.low ?? trade.price, trade.price);
+            stats.last = trade.price;
+            stats.lastSize = trade.size;
+            stats.lastTimestamp = trade.timestamp;
+            stats.volume += trade.size;
+        }
+
+        this.events.emit('trades', trades);
+    }
+
+    /**
+     * Load the next window if the clock is getting close to the end of what's loaded
+     */
+    private fill() {
+        if (this.isDisposed || this.isLoading || this.error || this.loadedUntil >= this.window.end) return;
+
+        const lookahead = Math.max(LOAD_WINDOW_MS, PREFETCH_WALL_MS * this.clock.speed);
+        if (this.loadedUntil - this.clock.time >= lookahead) return;
+
+        const generation = this.seekGeneration;
+        const isCurrent = () => generation === this.seekGeneration;
+        this.isLoading = true;
+
+        this.loadNext()
+            .then(loaded => {
+                if (!isCurrent()) return;
+                this.buffer = this.buffer.concat(loaded.trades);
+                this.loadedUntil = loaded.loadedUntil;
+            })
+            .catch(err => {
+                if (!isCurrent()) return;
+                console.error(`Error loading replay trades for ${this.ticker}:`, err);
+                this.error = err instanceof Error ? err.message : 'Failed to load replay data';
+                this.wantsPlay = false;
+                this.clock.pause();
+                this.stopTimer();
+            })
+            .finally(() => {
+                if (!isCurrent()) return;
+                this.isLoading = false;
+                this.publish();
+                this.fill();
+            });
+    }
+
+    private async loadNext(): Promise<LoadedTrades> {
+        const from = this.loadedUntil;
+
+        if (this.source !== 'aggregates') {
+            try {
+                const page = await loadTradePage(this.provider, this.ticker, from, Math.min(from + LOAD_WINDOW_MS, this.window.end));
+                this.source = 'trades';
+                return page;
+            } catch (err) {
+                // Once tick data has loaded, a failure is an outage rather than missing access
+                if (this.source === 'trades') throw err;
+                console.warn(`Replaying ${this.ticker} from minute bars:`, err instanceof Error ? err.message : err);
+            }
+        }
+
+        if (!this.aggregateTrades) {
+            this.aggregateTrades = await loadAggregateTrades(this.provider, this.ticker, this.symbol, this.date, this.window);
+        }
+        this.source = 'aggregates';
+        return {
+            trades: this.aggregateTrades.filter(trade => trade.timestamp >= from),
+            loadedUntil: this.window.end
+        };
+    }
+
+    private publish() {
+        if (this.isDisposed) return;
+        this.events.emit('state', this.state);
+    }
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { getReplayWindow } from './replay-window';
+
+describe('getReplayWindow', () => {
+    it('spans 04:00 to 20:00 New York time for stocks, opening at 09:30', () => {
+        expect(getReplayWindow('AAPL', '2024-07-15')).toEqual({
+            start: Date.parse('2024-07-15T08:00:00Z'),
+            end: Date.parse('2024-07-16T00:00:00Z'),
+            defaultStart: Date.parse('2024-07-15T13:30:00Z')
+        });
+        // Daylight saving time started overnight on 10 March
+        expect(getReplayWindow('AAPL', '2024-03-11').defaultStart).toBe(Date.parse('2024-03-11T13:30:00Z'));
+    });
+
+    it('spans the UTC day for crypto and rejects malformed dates', () => {
+        expect(getReplayWindow('X:BTCUSD', '2024-03-05')).toEqual({
+            start: Date.parse('2024-03-05T00:00:00Z'),
+            end: Date.parse('2024-03-06T00:00:00Z'),
+            defaultStart: Date.parse('2024-03-05T00:00:00Z')
+        });
+        expect(() => getReplayWindow('AAPL', '03/05/2024')).toThrow('Invalid replay date');
+    });
+});
@@ -0,0 +1,44 @@
+import { getTimeZoneOffset, isCryptoTicker } from '@/lib/market-data';
+import { ReplayWindow } from './types';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const PRE_MARKET_OPEN = 4 * 60;     // 04:00
+const REGULAR_OPEN = 9 * 60 + 30;   // 09:30
+const AFTER_HOURS_CLOSE = 20 * 60;  // 20:00
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A wall-clock time on a date in `timeZone`, as Unix ms
+ */
+const zonedTime = (date: string, minutes: number, timeZone: string): number => {
+    const wallClock = Date.parse(`${date}T00:00:00Z`) + minutes * MINUTE_MS;
+    // Take the offset in force at the first guess; daylight saving changes happen overnight,
+    // away from the times asked for here
+    return wallClock - getTimeZoneOffset(wallClock - getTimeZoneOffset(wallClock, timeZone), timeZone);
+};
+
+export const isReplayDate = (date: string): boolean => DATE_PATTERN.test(date) && !Number.isNaN(Date.parse(date));
+
+/**
+ * The replayable span of a day: 04:00–20:00 New York time for stocks (pre-market to the end of
+ * after hours), the whole UTC day for crypto
+ */
+export const getReplayWindow = (ticker: string, date: string): ReplayWindow => {
+    if (!isReplayDate(date)) {
+        throw new Error(`Invalid replay date "${date}", expected YYYY-MM-DD`);
+    }
+
+    if (isCryptoTicker(ticker)) {
+        const start = Date.parse(`${date}T00:00:00Z`);
+        return { start, end: start + DAY_MS, defaultStart: start };
+    }
+
+    return {
+        start: zonedTime(date, PRE_MARKET_OPEN, 'America/New_York'),
+        end: zonedTime(date, AFTER_HOURS_CLOSE, 'America/New_York'),
+        defaultStart: zonedTime(date, REGULAR_OPEN, 'America/New_York')
+    };
+};
@@ -0,0 +1,90 @@
+import { AggregateBar, MarketDataProvider, Trade } from '@/lib/market-data';
+import { ReplayWindow } from './types';
+
+const MINUTE_MS = 60 * 1000;
+
+// Polygon's ceiling on base bars per aggregates request
+const MAX_AGGREGATES_LIMIT = 50000;
+
+// Where in its minute each synthetic print of a bar lands
+const BAR_PRINT_OFFSETS = [0, 15 * 1000, 30 * 1000, MINUTE_MS - 1000];
+
+export interface LoadedTrades {
+    trades: Trade[];     // oldest first
+    // Every trade before this time has been loaded (Unix ms)
+    loadedUntil: number;
+}
+
+/**
+ * One page of historical trades from `from`. A page that fills up ends partway through the range;
+ * its last millisecond is dropped and loaded again with the next page, so trades sharing a
+ * timestamp across the page boundary are neither skipped nor repeated.
+ */
+export const loadTradePage = async (
+    provider: MarketDataProvider,
+    ticker: string,
+    from: number,
+    to: number
+): Promise<LoadedTrades> => {
+    if (!provider.getTrades) {
+        throw new Error(`Historical trades are not available from the ${provider.id} provider`);
+    }
+
+    const { trades, hasMore } = await provider.getTrades({ ticker, from, to });
+    if (!hasMore || trades.length === 0) {
+        return { trades, loadedUntil: to };
+    }
+
+    const lastTimestamp = trades[trades.length - 1].timestamp;
+    if (lastTimestamp <= from) {
+        // A whole page inside one millisecond; take it rather than ask for the same page again
+        return { trades, loadedUntil: from + 1 };
+    }
+    return { trades: trades.filter(trade => trade.timestamp < lastTimestamp), loadedUntil: lastTimestamp };
+};
+
+/**
+ * Four prints standing in for a minute bar: open, the two extremes and the close, splitting the
+ * volume evenly. Up bars are taken to dip before they rally and down bars the reverse.
+ */
+export const expandBarToTrades = (symbol: string, bar: AggregateBar): Trade[] => {
+    const prices = bar.c >= bar.o ? [bar.o, bar.l, bar.h, bar.c] : [bar.o, bar.h, bar.l, bar.c];
+    const size = (bar.v || 0) / prices.length;
+
+    return prices.map((price, i) => ({
+        symbol,
+        price,
+        size,
+        timestamp: bar.t + BAR_PRINT_OFFSETS[i],
+        side: 'unknown',
+        id: `${bar.t}-${i}`
+    }));
+};
+
+/**
+ * The replay window as synthetic prints built from minute bars, for when tick data can't be loaded
+ */
+export const loadAggregateTrades = async (
+    provider: MarketDataProvider,
+    ticker: string,
+    symbol: string,
+    date: string,
+    window: ReplayWindow
+): Promise<Trade[]> => {
+    // A stock's evening session runs past midnight UTC, so ask for the following day too
+    const nextDate = new Date(Date.parse(`${date}T00:00:00Z`) + 24 * 60 * MINUTE_MS).toISOString().split('T')[0];
+
+    const data = await provider.getAggregates({
+        ticker,
+        multiplier: 1,
+        timespan: 'minute',
+        from: date,
+        to: nextDate,
+        limit: MAX_AGGREGATES_LIMIT
+    });
+
+    return (data.results ?? [])
+        .filter(bar => bar.t >= window.start && bar.t < window.end)
+        .sort((a, b) => a.t - b.t)
+        .flatMap(bar => expandBarToTrades(symbol, bar));
+};
@@ -0,0 +1,57 @@
+import { Trade } from '@/lib/market-data';
+
+// Playback speeds offered by the controls; the clock accepts anything in between
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 25, 50, 100];
+export const MIN_REPLAY_SPEED = 1;
+export const MAX_REPLAY_SPEED = 100;
+
+export type ReplayStatus = 'loading' | 'buffering' | 'playing' | 'paused' | 'ended' | 'error';
+
+// Tick-level prints, or minute bars expanded into prints when trades aren't available
+export type ReplaySource = 'trades' | 'aggregates';
+
+export interface ReplayOptions {
+    ticker: string;      // "AAPL" or "X:BTCUSD"
+    date: string;        // YYYY-MM-DD, in the market's own time zone
+    speed?: number;
+    // Where playback begins (Unix ms); defaults to the regular open for stocks, midnight UTC for crypto
+    startAt?: number;
+}
+
+// The span of a trading day that can be replayed
+export interface ReplayWindow {
+    start: number;       // Unix ms
+    end: number;         // Unix ms, exclusive
+    defaultStart: number;
+}
+
+export interface ReplayState {
+    ticker: string;
+    symbol: string;      // stream symbol, e.g. "BTC-USD"
+    date: string;
+    status: ReplayStatus;
+    source: ReplaySource | null;
+    start: number;
+    end: number;
+    time: number;        // replay clock, Unix ms
+    speed: number;
+    // Bumped on every seek; consumers holding accumulated history should start over
+    seekGeneration: number;
+    error: string | null;
+}
+
+// Running statistics for the replayed symbol since the replay position was last set
+export interface ReplayStats {
+    open: number | null;
+    high: number | null;
+    low: number | null;
+    last: number | null;
+    lastSize: number;
+    lastTimestamp: number | null;
+    volume: number;
+}
+
+export interface ReplayEvents {
+    state: ReplayState;
+    trades: Trade[];
+}
@@ -0,0 +1,65 @@
+import { isCryptoTicker } from '@/lib/market-data/symbols';
+import { AssetClass, TickerDetailsResponse, TickerProfile } from './types';
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+    stock: 'Stock',
+    fund: 'ETF / Fund',
+    crypto: 'Crypto'
+};
+
+// Stocks whose details weren't loaded, or that file no SIC code
+export const UNCLASSIFIED_SECTOR = 'Unclassified';
+
+// SIC divisions by the first two digits of the code (upper bound inclusive)
+const SIC_DIVISIONS: { upTo: number; sector: string }[] = [
+    { upTo: 9, sector: 'Agriculture' },
+    { upTo: 14, sector: 'Mining & Energy' },
+    { upTo: 17, sector: 'Construction' },
+    { upTo: 39, sector: 'Manufacturing' },
+    { upTo: 49, sector: 'Transportation & Utilities' },
+    { upTo: 51, sector: 'Wholesale' },
+    { upTo: 59, sector: 'Retail' },
+    { upTo: 67, sector: 'Finance & Real Estate' },
+    { upTo: 89, sector: 'Services' },
+    { upTo: 99, sector: 'Public Administration' }
+];
+
+// Polygon security types that pool other assets
+const FUND_TYPES = new Set(['ETF', 'ETN', 'ETV', 'ETS', 'FUND']);
+
+// For stocks without details, the listing name usually says when it's a fund
+const FUND_NAME_PATTERN = /\b(ETF|ETN|Fund)\b/i;
+
+/**
+ * The broad sector for a SIC code, from its division
+ */
+export const getSicSector = (sicCode?: string): string => {
+    const major = Number((sicCode || '').slice(0, 2));
+    if (!sicCode || !Number.isFinite(major)) {
+        return UNCLASSIFIED_SECTOR;
+    }
+    return SIC_DIVISIONS.find(division => major <= division.upTo)?.sector ?? UNCLASSIFIED_SECTOR;
+};
+
+export const getAssetClass = (ticker: string, profile?: TickerProfile, name?: string): AssetClass => {
+    if (isCryptoTicker(ticker)) return 'crypto';
+    if (profile?.type) return FUND_TYPES.has(profile.type) ? 'fund' : 'stock';
+    return FUND_NAME_PATTERN.test(name || '') ? 'fund' : 'stock';
+};
+
+/**
+ * The sector a point is coloured by: crypto and funds are their own groups, stocks go by SIC division
+ */
+export const getSector = (assetClass: AssetClass, profile?: TickerProfile): string =>
+    assetClass === 'stock' ? getSicSector(profile?.sicCode) : ASSET_CLASS_LABELS[assetClass];
+
+export const toTickerProfile = (details: TickerDetailsResponse): TickerProfile => {
+    const results = details.results;
+    const marketCap = Number(results?.market_cap);
+    return {
+        name: results?.name,
+        marketCap: Number.isFinite(marketCap) && marketCap > 0 ? marketCap : undefined,
+        sicCode: typeof results?.sic_code === 'string' ? results.sic_code : undefined,
+        type: typeof results?.type === 'string' ? results.type : undefined
+    };
+};
@@ -0,0 +1,5 @@
+export * from './types';
+export * from './sampling';
+export * from './labels';
+export * from './classification';
+export * from './metrics';
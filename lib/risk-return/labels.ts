@@ -0,0 +1,17 @@
+import { ColorGrouping, SizeMetric, UniverseSource } from './types';
+
+export const UNIVERSE_SOURCE_LABELS: Record<UniverseSource, string> = {
+    listed: 'All listed tickers',
+    watchlist: 'Watchlist',
+    screener: 'Screener'
+};
+
+export const SIZE_METRIC_LABELS: Record<SizeMetric, string> = {
+    marketCap: 'Market cap',
+    dollarVolume: 'Dollar volume'
+};
+
+export const COLOR_GROUPING_LABELS: Record<ColorGrouping, string> = {
+    sector: 'Sector',
+    assetClass: 'Asset class'
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { computeRiskReturnPoints, getSizeValue, screenPoints } from './metrics';
+import { MarketSample, RiskReturnPoint, SampledHistory } from './types';
+
+const dates = ['2024-03-04', '2024-03-05', '2024-03-06', '2024-03-07', '2024-03-08', '2024-03-11'];
+
+const sample = (closes: Record<string, number[]>): MarketSample => ({
+    dates,
+    closes,
+    dollarVolumes: Object.fromEntries(Object.keys(closes).map(ticker => [ticker, closes[ticker].map(close => close * 1000)]))
+});
+
+// Up and down 10% in turn: five log returns of ±ln(1.1), whose sample deviation is ln(1.1) × √1.2
+const ZIGZAG = [100, 110, 100, 110, 100, 110];
+const ZIGZAG_DEVIATION = Math.log(1.1) * Math.sqrt(1.2);
+
+describe('computeRiskReturnPoints', () => {
+    it('annualizes the volatility of log returns by the sampling frequency and market', () => {
+        const daily: SampledHistory = {
+            frequency: 'daily',
+            markets: { stocks: sample({ AAPL: ZIGZAG }), crypto: sample({ 'X:BTCUSD': ZIGZAG }) }
+        };
+        const weekly: SampledHistory = { ...daily, frequency: 'weekly' };
+
+        const [stock, crypto] = computeRiskReturnPoints(daily, ['AAPL', 'X:BTCUSD']);
+        expect(stock.volatility).toBeCloseTo(ZIGZAG_DEVIATION * Math.sqrt(252), 10);
+        expect(crypto.volatility).toBeCloseTo(ZIGZAG_DEVIATION * Math.sqrt(365), 10);
+        expect(computeRiskReturnPoints(weekly, ['AAPL'])[0].volatility).toBeCloseTo(ZIGZAG_DEVIATION * Math.sqrt(52), 10);
+
+        expect(stock.return).toBeCloseTo(0.1, 10);
+        expect(stock).toMatchObject({ lastClose: 110, dollarVolume: 105000, assetClass: 'stock' });
+        expect(crypto.assetClass).toBe('crypto');
+    });
+
+    it('stretches one return over a missing sample', () => {
+        const history: SampledHistory = {
+            frequency: 'daily',
+            markets: { stocks: sample({ MSFT: [100, 110, 121, NaN, 133.1, 146.41] }) }
+        };
+
+        const [point] = computeRiskReturnPoints(history, ['MSFT']);
+
+        // Four equal 10% steps, one of them across the gap
+        expect(point.volatility).toBeCloseTo(0, 10);
+        expect(point.return).toBeCloseTo(0.4641, 10);
+        expect(point.dollarVolume).toBeCloseTo(122102, 6);
+    });
+
+    it('leaves out tickers without enough coverage or without a sample for their market', () => {
+        const history: SampledHistory = {
+            frequency: 'daily',
+            markets: {
+                stocks: sample({
+                    FULL: ZIGZAG,
+                    SPARSE: [100, NaN, 110, NaN, 100, 110],
+                    DELISTED: [100, 110, 100, 110, 0, 0]
+                })
+            }
+        };
+
+        expect(computeRiskReturnPoints(history, ['FULL', 'SPARSE', 'DELISTED', 'UNKNOWN', 'X:ETHUSD']).map(p => p.ticker))
+            .toEqual(['FULL']);
+    });
+
+    it('takes the name, market cap and class from the profile, falling back to the listing name', () => {
+        const history: SampledHistory = { frequency: 'daily', markets: { stocks: sample({ SPY: ZIGZAG, IBM: ZIGZAG }) } };
+
+        const [spy, ibm] = computeRiskReturnPoints(
+            history,
+            ['SPY', 'IBM'],
+            new Map([['SPY', 'SPDR S&P 500 ETF Trust'], ['IBM', 'IBM (listing)']]),
+            { IBM: { name: 'International Business Machines', marketCap: 1.7e11, type: 'CS' } }
+        );
+
+        expect(spy).toMatchObject({ name: 'SPDR S&P 500 ETF Trust', assetClass: 'fund', marketCap: undefined });
+        expect(ibm).toMatchObject({ name: 'International Business Machines', assetClass: 'stock', marketCap: 1.7e11 });
+    });
+});
+
+describe('screenPoints', () => {
+    const point = (ticker: string, lastClose: number, dollarVolume: number, assetClass: RiskReturnPoint['assetClass'] = 'stock'): RiskReturnPoint => ({
+        ticker,
+        assetClass,
+        sector: '',
+        volatility: 0.3,
+        return: 0,
+        lastClose,
+        dollarVolume
+    });
+
+    it('keeps the most traded tickers over the price and volume floors', () => {
+        const points = [
+            point('PENNY', 0.5, 1e9),
+            point('THIN', 50, 1e5),
+            point('MID', 50, 5e7),
+            point('BIG', 200, 1e9),
+            point('X:BTCUSD', 60000, 5e9, 'crypto')
+        ];
+
+        expect(screenPoints(points, { minPrice: 5, minDollarVolume: 1e6, limit: 10, includeCrypto: false })).toEqual(['BIG', 'MID']);
+        expect(screenPoints(points, { minPrice: 5, minDollarVolume: 1e6, limit: 2, includeCrypto: true })).toEqual(['X:BTCUSD', 'BIG']);
+    });
+});
+
+describe('getSizeValue', () => {
+    it('is the log of the chosen size, or null without one', () => {
+        const point = { dollarVolume: 1e6, marketCap: 1e12 } as RiskReturnPoint;
+
+        expect(getSizeValue(point, 'marketCap')).toBeCloseTo(12, 10);
+        expect(getSizeValue(point, 'dollarVolume')).toBeCloseTo(6, 10);
+        expect(getSizeValue({ ...point, marketCap: undefined }, 'marketCap')).toBeNull();
+    });
+});
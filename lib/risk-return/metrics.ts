@@ -0,0 +1,85 @@
+import { getAssetMarket } from '@/lib/market-data/symbols';
+import { getAssetClass, getSector } from './classification';
+import { getPeriodsPerYear } from './sampling';
+import { RiskReturnPoint, SampledHistory, ScreenerCriteria, SizeMetric, TickerProfile } from './types';
+
+// A ticker needs bars on most of the sampled dates, or its return doesn't cover the lookback
+const MIN_COVERAGE = 0.6;
+const MIN_RETURNS = 4;
+
+const standardDeviation = (values: number[]): number => {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+    return Math.sqrt(variance);
+};
+
+/**
+ * Realized volatility, lookback return and average dollar volume for each ticker with enough
+ * history. Volatility is the annualized standard deviation of log returns between consecutive
+ * samples a ticker has bars for; missing samples stretch one return over the gap.
+ * @param tickers - The universe; tickers without bars in their market's sample are left out
+ * @param names - Listing names, used when there's no profile
+ * @param profiles - Ticker details for the tickers that have them
+ */
+export const computeRiskReturnPoints = (
+    history: SampledHistory,
+    tickers: Iterable<string>,
+    names?: Map<string, string> | null,
+    profiles?: Record<string, TickerProfile>
+): RiskReturnPoint[] => {
+    const points: RiskReturnPoint[] = [];
+
+    for (const ticker of tickers) {
+        const market = getAssetMarket(ticker);
+        const sample = history.markets[market];
+        const closes = sample?.closes[ticker];
+        if (!sample || !closes) continue;
+
+        const observed = closes.filter(close => close > 0);
+        if (observed.length < Math.max(MIN_RETURNS + 1, sample.dates.length * MIN_COVERAGE)) continue;
+
+        const logReturns = observed.slice(1).map((close, index) => Math.log(close / observed[index]));
+        const volatility = standardDeviation(logReturns) * Math.sqrt(getPeriodsPerYear(history.frequency, market));
+        const dollarVolumes = sample.dollarVolumes[ticker].filter(Number.isFinite);
+        const dollarVolume = dollarVolumes.reduce((sum, value) => sum + value, 0) / (dollarVolumes.length || 1);
+        if (!Number.isFinite(volatility)) continue;
+
+        const profile = profiles?.[ticker];
+        const name = profile?.name || names?.get(ticker);
+        const assetClass = getAssetClass(ticker, profile, name);
+        points.push({
+            ticker,
+            name,
+            assetClass,
+            sector: getSector(assetClass, profile),
+            volatility,
+            return: observed[observed.length - 1] / observed[0] - 1,
+            lastClose: observed[observed.length - 1],
+            dollarVolume,
+            marketCap: profile?.marketCap
+        });
+    }
+
+    return points;
+};
+
+/**
+ * The tickers passing a screen, most traded first
+ */
+export const screenPoints = (points: RiskReturnPoint[], criteria: ScreenerCriteria): string[] =>
+    points
+        .filter(point =>
+            point.lastClose >= criteria.minPrice
+            && point.dollarVolume >= criteria.minDollarVolume
+            && (criteria.includeCrypto || point.assetClass !== 'crypto'))
+        .sort((a, b) => b.dollarVolume - a.dollarVolume)
+        .slice(0, criteria.limit)
+        .map(point => point.ticker);
+
+/**
+ * A point's depth: log10 of its market cap or average daily dollar volume, or null when it has none
+ */
+export const getSizeValue = (point: RiskReturnPoint, metric: SizeMetric): number | null => {
+    const value = metric === 'marketCap' ? point.marketCap : point.dollarVolume;
+    return value !== undefined && value > 0 ? Math.log10(value) : null;
+};
@@ -0,0 +1,85 @@
+import { AssetMarket, GroupedDailyBar, LookbackDefinition, MarketSample, RiskReturnLookback, SampleFrequency } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RISK_RETURN_LOOKBACKS: Record<RiskReturnLookback, LookbackDefinition> = {
+    '1M': { label: '1 month', days: 30, frequency: 'daily' },
+    '3M': { label: '3 months', days: 91, frequency: 'daily' },
+    '6M': { label: '6 months', days: 182, frequency: 'weekly' },
+    '1Y': { label: '1 year', days: 365, frequency: 'weekly' }
+};
+
+// How many earlier days a weekly sample may fall back to when its date had no session
+export const MAX_SAMPLE_FALLBACK_DAYS = 3;
+
+const toNewYorkDate = (timestamp: number): string =>
+    new Intl.DateTimeFormat('en-CA', { timeZone: 'America/New_York', year: 'numeric', month: '2-digit', day: '2-digit' }).format(timestamp);
+
+const addDays = (date: string, days: number): string =>
+    new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+
+const isWeekend = (date: string): boolean => {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return weekday === 0 || weekday === 6;
+};
+
+/**
+ * The day before `date` the market could have traded: any day for crypto, the previous weekday for stocks
+ */
+export const getPreviousMarketDate = (date: string, market: AssetMarket): string => {
+    let previous = addDays(date, -1);
+    while (market === 'stocks' && isWeekend(previous)) {
+        previous = addDays(previous, -1);
+    }
+    return previous;
+};
+
+/**
+ * The dates to sample a market on over a lookback, oldest first, ending today in New York.
+ * Daily sampling takes every day the market could trade; weekly takes one a week. Holidays and a
+ * session that hasn't closed yet still appear here and come back empty.
+ */
+export const getSampleDates = (market: AssetMarket, definition: LookbackDefinition, now: number = Date.now()): string[] => {
+    const today = toNewYorkDate(now);
+    const start = addDays(today, -definition.days);
+    const dates: string[] = [];
+
+    let date = market === 'stocks' && isWeekend(today) ? getPreviousMarketDate(today, market) : today;
+    while (date > start) {
+        dates.push(date);
+        date = definition.frequency === 'daily' ? getPreviousMarketDate(date, market) : addDays(date, -7);
+    }
+    return dates.reverse();
+};
+
+/**
+ * Periods per year for annualizing volatility sampled at a frequency: trading days for stocks,
+ * every day for crypto, weeks for either
+ */
+export const getPeriodsPerYear = (frequency: SampleFrequency, market: AssetMarket): number =>
+    frequency === 'weekly' ? 52 : market === 'crypto' ? 365 : 252;
+
+/**
+ * Put each date's grouped daily bars onto per-ticker columns; dates without any bars are dropped
+ */
+export const buildMarketSample = (barsByDate: { date: string; bars: GroupedDailyBar[] }[]): MarketSample => {
+    const days = barsByDate
+        .filter(day => day.bars.length > 0)
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    const closes: Record<string, number[]> = {};
+    const dollarVolumes: Record<string, number[]> = {};
+    days.forEach((day, index) => {
+        day.bars.forEach(bar => {
+            if (!bar.T || !(bar.c > 0)) return;
+            if (!closes[bar.T]) {
+                closes[bar.T] = new Array(days.length).fill(NaN);
+                dollarVolumes[bar.T] = new Array(days.length).fill(NaN);
+            }
+            closes[bar.T][index] = bar.c;
+            dollarVolumes[bar.T][index] = (bar.vw ?? bar.c) * bar.v;
+        });
+    });
+
+    return { dates: days.map(day => day.date), closes, dollarVolumes };
+};
@@ -0,0 +1,65 @@
+// Shared types for the risk/return point cloud
+
+import { AssetMarket } from '@/lib/market-data/types';
+
+export type { AssetMarket, GroupedDailyBar, TickerDetailsResponse } from '@/lib/market-data/types';
+
+export type RiskReturnLookback = '1M' | '3M' | '6M' | '1Y';
+
+// daily: every session in the lookback; weekly: one session a week, so long lookbacks stay a few dozen requests
+export type SampleFrequency = 'daily' | 'weekly';
+
+export interface LookbackDefinition {
+    label: string;
+    days: number;           // calendar days back from today
+    frequency: SampleFrequency;
+}
+
+// What sets a point's depth
+export type SizeMetric = 'marketCap' | 'dollarVolume';
+
+export type ColorGrouping = 'sector' | 'assetClass';
+
+export type AssetClass = 'stock' | 'fund' | 'crypto';
+
+// Where the tickers come from: every listed ticker, one of the user's watchlists, or a screen over the listings
+export type UniverseSource = 'listed' | 'watchlist' | 'screener';
+
+export interface ScreenerCriteria {
+    minPrice: number;
+    minDollarVolume: number;    // average daily, in dollars
+    limit: number;              // keep the most traded tickers that pass
+    includeCrypto: boolean;
+}
+
+// One market's bars on its sampled dates; NaN where a ticker had no bar
+export interface MarketSample {
+    dates: string[];                        // YYYY-MM-DD, oldest first
+    closes: Record<string, number[]>;
+    dollarVolumes: Record<string, number[]>;
+}
+
+export interface SampledHistory {
+    frequency: SampleFrequency;
+    markets: Partial<Record<AssetMarket, MarketSample>>;
+}
+
+// What ticker details add for a stock; crypto and unprofiled tickers have none of it
+export interface TickerProfile {
+    name?: string;
+    marketCap?: number;
+    sicCode?: string;
+    type?: string;              // Polygon's security type, e.g. CS or ETF
+}
+
+export interface RiskReturnPoint {
+    ticker: string;
+    name?: string;
+    assetClass: AssetClass;
+    sector: string;
+    volatility: number;         // annualized standard deviation of log returns, as a fraction
+    return: number;             // over the lookback, as a fraction
+    lastClose: number;
+    dollarVolume: number;       // average daily close × volume
+    marketCap?: number;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { buildSurfaceGrid, getSurfaceDateRange, locateSurfaceDate } from './grid';
+import { AggregateBar } from './types';
+
+const bar = (iso: string, c: number, extra: Partial<AggregateBar> = {}): AggregateBar => ({
+    t: Date.parse(iso.includes('T') ? iso : `${iso}T05:00:00Z`),
+    o: c,
+    h: c,
+    l: c,
+    c,
+    v: 0,
+    ...extra
+});
+
+const daily = { year: 2023, timeZone: 'America/New_York' };
+
+describe('getSurfaceDateRange', () => {
+    it('adds a lead-in for returns and the earlier years for multi-year', () => {
+        expect(getSurfaceDateRange('close', 2023)).toEqual({ from: '2023-01-01', to: '2023-12-31' });
+        expect(getSurfaceDateRange('return', 2023)).toEqual({ from: '2022-12-18', to: '2023-12-31' });
+        expect(getSurfaceDateRange('multiYear', 2023)).toEqual({ from: '2019-01-01', to: '2023-12-31' });
+    });
+
+    it('ends the intraday window today during the current year', () => {
+        expect(getSurfaceDateRange('intraday', 2024, Date.parse('2024-03-30T12:00:00Z'))).toEqual({ from: '2024-03-01', to: '2024-03-30' });
+    });
+});
+
+describe('buildSurfaceGrid', () => {
+    const bars = [bar('2023-02-27', 10), bar('2023-03-01', 20)];
+
+    it('places daily bars by month and day, leaving gaps open by default', () => {
+        const grid = buildSurfaceGrid(bars, 'close', { ...daily, gapFill: 'gap' });
+
+        expect(grid.values).toHaveLength(12);
+        expect(grid.values[1][26]).toBe(10);
+        expect(grid.values[1][27]).toBeNaN();
+        expect(grid.values[2][0]).toBe(20);
+        expect(grid.observedCount).toBe(2);
+        expect([grid.minValue, grid.maxValue]).toEqual([10, 20]);
+    });
+
+    it('fills between observed days but not past the end of a short month', () => {
+        const carried = buildSurfaceGrid(bars, 'close', { ...daily, gapFill: 'carryForward' });
+        const interpolated = buildSurfaceGrid(bars, 'close', { ...daily, gapFill: 'interpolate' });
+
+        expect(carried.values[1][27]).toBe(10);
+        expect(interpolated.values[1][27]).toBe(15);
+        [carried, interpolated].forEach(grid => {
+            expect(grid.values[1].slice(28).every(Number.isNaN)).toBe(true);
+            // Nothing before the first bar or after the last
+            expect(grid.values[1][25]).toBeNaN();
+            expect(grid.values[2][1]).toBeNaN();
+            expect(grid.observedCount).toBe(2);
+        });
+    });
+
+    it('computes returns from the previous bar, including one before the year', () => {
+        const grid = buildSurfaceGrid([bar('2022-12-30', 100), bar('2023-01-03', 110), bar('2023-01-04', 99)], 'return', { ...daily, gapFill: 'gap' });
+
+        expect(grid.values[0][2]).toBeCloseTo(10, 10);
+        expect(grid.values[0][3]).toBeCloseTo(-10, 10);
+        expect(grid.observedCount).toBe(2);
+    });
+
+    it('measures volume and range', () => {
+        const bars = [bar('2023-01-03', 100, { h: 104, l: 97, v: 5000 })];
+
+        expect(buildSurfaceGrid(bars, 'volume', { ...daily, gapFill: 'gap' }).values[0][2]).toBe(5000);
+        expect(buildSurfaceGrid(bars, 'range', { ...daily, gapFill: 'gap' }).values[0][2]).toBe(7);
+    });
+
+    it('lays years out by day of year and skips day 366 of a common year when filling', () => {
+        const grid = buildSurfaceGrid([bar('2022-12-30', 1), bar('2023-01-02', 4)], 'multiYear', { ...daily, gapFill: 'interpolate' });
+
+        expect(grid.startYear).toBe(2019);
+        expect(grid.zStart).toBe(2019);
+        expect(grid.values[3][363]).toBe(1);
+        expect(grid.values[3][364]).toBeCloseTo(2, 10);
+        expect(grid.values[3][365]).toBeNaN();
+        expect(grid.values[4][0]).toBeCloseTo(3, 10);
+        expect(grid.values[4][1]).toBe(4);
+    });
+
+    it('keeps the last close in each regular session hour in the market time zone', () => {
+        const grid = buildSurfaceGrid([
+            bar('2023-03-06T14:25:00Z', 1),   // 09:25, pre-market
+            bar('2023-03-06T14:35:00Z', 2),   // 09:35
+            bar('2023-03-06T14:59:00Z', 3),   // 09:59
+            bar('2023-03-06T20:59:00Z', 4),   // 15:59
+            bar('2023-03-06T21:30:00Z', 5),   // 16:30, after hours
+            bar('2023-03-08T15:00:00Z', 6)    // 10:00 two days later
+        ], 'intraday', { ...daily, gapFill: 'gap', regularSessionOnly: true });
+
+        expect(grid.xStart).toBe(9);
+        expect(grid.rowDates).toEqual(['2023-03-06', '2023-03-07', '2023-03-08']);
+        expect(grid.values[0]).toEqual([3, NaN, NaN, NaN, NaN, NaN, 4]);
+        expect(grid.values[1].every(Number.isNaN)).toBe(true);
+        expect(grid.values[2][1]).toBe(6);
+    });
+});
+
+describe('locateSurfaceDate', () => {
+    it('finds a date\'s cell and shows missing values at the floor', () => {
+        const grid = buildSurfaceGrid([bar('2023-02-27', 10), bar('2023-03-01', 20)], 'close', { ...daily, gapFill: 'gap' });
+
+        expect(locateSurfaceDate(grid, '2023-03-01')).toEqual({ x: 1, z: 2, value: 20 });
+        expect(locateSurfaceDate(grid, '2023-02-28')).toEqual({ x: 28, z: 1, value: 10 });
+        expect(locateSurfaceDate(grid, '2022-03-01')).toBeNull();
+    });
+});
@@ -0,0 +1,220 @@
+import { getTimeZoneOffset } from '@/lib/market-data/aggregation';
+import { SURFACE_MODES } from './modes';
+import { AggregateBar, GapFill, SurfaceGrid, SurfaceGridOptions, SurfaceMode } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar days of minute bars in intraday mode, and years in multi-year mode
+export const INTRADAY_DAYS = 30;
+export const MULTI_YEAR_SPAN = 5;
+
+// Extra days fetched before the year so its first return has a previous close
+const RETURN_LOOKBACK_DAYS = 14;
+
+// Hours shown in intraday mode; the 09:00 column holds 09:30 to 10:00
+const REGULAR_SESSION_HOURS = [9, 10, 11, 12, 13, 14, 15];
+const ALL_HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const toDateString = (timestamp: number): string => new Date(timestamp).toISOString().split('T')[0];
+
+const getDayOfYear = (date: string): number =>
+    Math.round((Date.parse(`${date}T00:00:00Z`) - Date.parse(`${date.slice(0, 4)}-01-01T00:00:00Z`)) / DAY_MS) + 1;
+
+/**
+ * Dates to fetch for a mode: the year itself, plus a lead-in for returns, the years before it for
+ * multi-year, or the last weeks up to the year's end (or today) for intraday
+ */
+export const getSurfaceDateRange = (mode: SurfaceMode, year: number, now: number = Date.now()): { from: string; to: string } => {
+    const yearEnd = `${year}-12-31`;
+    switch (SURFACE_MODES[mode].layout) {
+        case 'intraday': {
+            const to = yearEnd < toDateString(now) ? yearEnd : toDateString(now);
+            return { from: toDateString(Date.parse(`${to}T00:00:00Z`) - (INTRADAY_DAYS - 1) * DAY_MS), to };
+        }
+        case 'multiYear':
+            return { from: `${year - MULTI_YEAR_SPAN + 1}-01-01`, to: yearEnd };
+        case 'calendar':
+            return {
+                from: mode === 'return' ? toDateString(Date.parse(`${year}-01-01T00:00:00Z`) - RETURN_LOOKBACK_DAYS * DAY_MS) : `${year}-01-01`,
+                to: yearEnd
+            };
+    }
+};
+
+const getBarValue = (mode: SurfaceMode, bar: AggregateBar, previous: AggregateBar | undefined): number | null => {
+    switch (mode) {
+        case 'return':
+            return previous && previous.c > 0 ? (bar.c / previous.c - 1) * 100 : null;
+        case 'volume':
+            return bar.v;
+        case 'range':
+            return bar.h - bar.l;
+        default:
+            return bar.c;
+    }
+};
+
+// Days in a month (0-11) and in a year, from the day before the next one starts
+const getDaysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+const getDaysInYear = (year: number): number => getDayOfYear(`${year}-12-31`);
+
+/**
+ * Fill the cells between the first and last observed ones, walking the grid in time order (row by
+ * row). Cells before the first bar or after the last, such as the rest of the current year, stay empty,
+ * as do cells for dates that don't exist (February 30th, day 366 of a common year).
+ */
+const fillGaps = (values: number[][], gapFill: GapFill, isRealDate: (row: number, column: number) => boolean): void => {
+    if (gapFill === 'gap') return;
+
+    const cells: [number, number][] = [];
+    values.forEach((rowValues, row) => rowValues.forEach((_, column) => {
+        if (isRealDate(row, column)) cells.push([row, column]);
+    }));
+
+    let previousIndex = -1;
+    cells.forEach(([row, column], index) => {
+        const value = values[row][column];
+        if (Number.isNaN(value)) return;
+        if (previousIndex >= 0 && index - previousIndex > 1) {
+            const [fromRow, fromColumn] = cells[previousIndex];
+            const from = values[fromRow][fromColumn];
+            for (let gap = previousIndex + 1; gap < index; gap++) {
+                const weight = (gap - previousIndex) / (index - previousIndex);
+                const [gapRow, gapColumn] = cells[gap];
+                values[gapRow][gapColumn] = gapFill === 'carryForward' ? from : from + weight * (value - from);
+            }
+        }
+        previousIndex = index;
+    });
+};
+
+/**
+ * Lay a mode's bars out on its grid. Daily bars are placed by their UTC date (Polygon stamps them
+ * at the start of the market day); minute bars by market date and hour in `timeZone`, keeping
+ * the last close in each hour.
+ */
+export const buildSurfaceGrid = (
+    bars: AggregateBar[],
+    mode: SurfaceMode,
+    { year, gapFill, timeZone, regularSessionOnly = false }: SurfaceGridOptions
+): SurfaceGrid => {
+    const { layout } = SURFACE_MODES[mode];
+    const sorted = bars.slice().sort((a, b) => a.t - b.t);
+
+    let values: number[][];
+    // Every cell is a real date except past the end of short months and common years
+    let isRealDate: (row: number, column: number) => boolean = () => true;
+    let xStart = 1;
+    let zStart = 0;
+    let startYear = year;
+    const rowDates: string[] = [];
+    let observedCount = 0;
+
+    const place = (row: number, column: number, value: number | null) => {
+        if (value === null || !Number.isFinite(value) || !values[row] || column < 0 || column >= values[row].length) return;
+        if (Number.isNaN(values[row][column])) observedCount++;
+        values[row][column] = value;
+    };
+
+    switch (layout) {
+        case 'calendar':
+            values = Array.from({ length: 12 }, () => new Array(31).fill(NaN));
+            isRealDate = (row, column) => column < getDaysInMonth(year, row);
+            sorted.forEach((bar, index) => {
+                const date = toDateString(bar.t);
+                if (!date.startsWith(`${year}-`)) return;
+                place(Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10)) - 1, getBarValue(mode, bar, sorted[index - 1]));
+            });
+            break;
+
+        case 'multiYear':
+            startYear = year - MULTI_YEAR_SPAN + 1;
+            zStart = startYear;
+            values = Array.from({ length: MULTI_YEAR_SPAN }, () => new Array(366).fill(NaN));
+            isRealDate = (row, column) => column < getDaysInYear(startYear + row);
+            sorted.forEach(bar => {
+                const date = toDateString(bar.t);
+                place(Number(date.slice(0, 4)) - startYear, getDayOfYear(date) - 1, bar.c);
+            });
+            break;
+
+        case 'intraday': {
+            const hours = regularSessionOnly ? REGULAR_SESSION_HOURS : ALL_HOURS;
+            xStart = hours[0];
+            const local = sorted.map(bar => ({ bar, time: new Date(bar.t + getTimeZoneOffset(bar.t, timeZone)) }));
+            const first = local[0]?.time.toISOString().split('T')[0];
+            const last = local[local.length - 1]?.time.toISOString().split('T')[0];
+            // Every calendar date in the window gets a row, so weekends and holidays can be filled or left open
+            if (first && last) {
+                for (let day = Date.parse(`${first}T00:00:00Z`); day <= Date.parse(`${last}T00:00:00Z`); day += DAY_MS) {
+                    rowDates.push(toDateString(day));
+                }
+            }
+            values = rowDates.map(() => new Array(hours.length).fill(NaN));
+            local.forEach(({ bar, time }) => {
+                const minutes = time.getUTCHours() * 60 + time.getUTCMinutes();
+                // Regular session only: 09:30 up to the 16:00 close
+                if (regularSessionOnly && (minutes < 9 * 60 + 30 || minutes >= 16 * 60)) return;
+                place(rowDates.indexOf(time.toISOString().split('T')[0]), time.getUTCHours() - xStart, bar.c);
+            });
+            break;
+        }
+    }
+
+    fillGaps(values, gapFill, isRealDate);
+
+    let minValue = Infinity;
+    let maxValue = -Infinity;
+    values.forEach(row => row.forEach(value => {
+        if (Number.isNaN(value)) return;
+        minValue = Math.min(minValue, value);
+        maxValue = Math.max(maxValue, value);
+    }));
+
+    return {
+        mode,
+        layout,
+        values,
+        xStart,
+        xStep: 1,
+        zStart,
+        zStep: 1,
+        rowDates,
+        startYear,
+        minValue: Number.isFinite(minValue) ? minValue : 0,
+        maxValue: Number.isFinite(maxValue) ? maxValue : 0,
+        observedCount
+    };
+};
+
+/**
+ * Where a market date sits on the grid (X, Z) and the cell's value, or null if it isn't shown.
+ * Intraday rows are placed at the first hour.
+ */
+export const locateSurfaceDate = (grid: SurfaceGrid, date: string): { x: number; z: number; value: number } | null => {
+    let row: number;
+    let column: number;
+    switch (grid.layout) {
+        case 'calendar':
+            if (!date.startsWith(`${grid.startYear}-`)) return null;
+            row = Number(date.slice(5, 7)) - 1;
+            column = Number(date.slice(8, 10)) - 1;
+            break;
+        case 'multiYear':
+            row = Number(date.slice(0, 4)) - grid.startYear;
+            column = getDayOfYear(date) - 1;
+            break;
+        case 'intraday':
+            row = grid.rowDates.indexOf(date);
+            column = 0;
+            break;
+    }
+
+    const value = grid.values[row]?.[column];
+    if (value === undefined) return null;
+    return {
+        x: grid.xStart + column * grid.xStep,
+        z: grid.zStart + row * grid.zStep,
+        value: Number.isNaN(value) ? grid.minValue : value
+    };
+};
@@ -0,0 +1,130 @@
+import { GapFill, SurfaceGrid, SurfaceLayout, SurfaceMode, SurfaceModeDefinition, SurfaceValueFormat } from './types';
+
+export const SURFACE_MODES: Record<SurfaceMode, SurfaceModeDefinition> = {
+    close: {
+        mode: 'close',
+        label: 'Daily close',
+        description: 'Closing price by month and day',
+        layout: 'calendar',
+        valueTitle: 'Close ($)',
+        format: 'price',
+        isDiverging: false,
+        timespan: 'day'
+    },
+    return: {
+        mode: 'return',
+        label: 'Daily return',
+        description: 'Close-to-close change by month and day',
+        layout: 'calendar',
+        valueTitle: 'Daily return (%)',
+        format: 'percent',
+        isDiverging: true,
+        timespan: 'day'
+    },
+    volume: {
+        mode: 'volume',
+        label: 'Volume',
+        description: 'Shares or units traded by month and day',
+        layout: 'calendar',
+        valueTitle: 'Volume',
+        format: 'volume',
+        isDiverging: false,
+        timespan: 'day'
+    },
+    range: {
+        mode: 'range',
+        label: 'Intraday range',
+        description: 'High minus low by month and day',
+        layout: 'calendar',
+        valueTitle: 'High − low ($)',
+        format: 'price',
+        isDiverging: false,
+        timespan: 'day'
+    },
+    intraday: {
+        mode: 'intraday',
+        label: 'Hour of day',
+        description: 'Last price in each hour over the 30 days up to the end of the year (or today)',
+        layout: 'intraday',
+        valueTitle: 'Price ($)',
+        format: 'price',
+        isDiverging: false,
+        timespan: 'minute'
+    },
+    multiYear: {
+        mode: 'multiYear',
+        label: 'Multi-year',
+        description: 'Closing price by year and day of year',
+        layout: 'multiYear',
+        valueTitle: 'Close ($)',
+        format: 'price',
+        isDiverging: false,
+        timespan: 'day'
+    }
+};
+
+export const GAP_FILL_LABELS: Record<GapFill, string> = {
+    gap: 'Leave gaps',
+    carryForward: 'Carry forward',
+    interpolate: 'Interpolate'
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Days before each month in a common year, for day-of-year labels
+const MONTH_STARTS = [0, 31, 59, 90, 120, 151, 181, 212, 243, 273, 304, 334];
+
+export const SURFACE_AXIS_TITLES: Record<SurfaceLayout, { x: string; z: string }> = {
+    calendar: { x: 'Day of month', z: 'Month' },
+    intraday: { x: 'Hour of day', z: 'Date' },
+    multiYear: { x: 'Day of year', z: 'Year' }
+};
+
+export const formatSurfaceValue = (value: number, format: SurfaceValueFormat): string => {
+    switch (format) {
+        case 'percent':
+            return `${value.toFixed(2)}%`;
+        case 'volume':
+            if (Math.abs(value) >= 1e9) return `${(value / 1e9).toFixed(1)}B`;
+            if (Math.abs(value) >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+            if (Math.abs(value) >= 1e3) return `${(value / 1e3).toFixed(0)}K`;
+            return value.toFixed(0);
+        case 'price':
+            return `$${value.toFixed(2)}`;
+    }
+};
+
+/**
+ * Axis label for an X position: day of month, hour, or the month a day of year falls in
+ */
+export const formatSurfaceColumn = (grid: SurfaceGrid, value: number): string => {
+    const column = Math.round(value);
+    switch (grid.layout) {
+        case 'calendar':
+            return String(column);
+        case 'intraday':
+            return `${String(column).padStart(2, '0')}:00`;
+        case 'multiYear': {
+            let month = MONTH_STARTS.length - 1;
+            while (month > 0 && MONTH_STARTS[month] >= column) month--;
+            return MONTH_NAMES[month];
+        }
+    }
+};
+
+/**
+ * Axis label for a Z position: month name, market date, or year
+ */
+export const formatSurfaceRow = (grid: SurfaceGrid, value: number): string => {
+    const row = Math.round(value);
+    switch (grid.layout) {
+        case 'calendar':
+            return MONTH_NAMES[row] ?? '';
+        case 'intraday': {
+            const date = grid.rowDates[row];
+            return date ? `${MONTH_NAMES[Number(date.slice(5, 7)) - 1]} ${Number(date.slice(8, 10))}` : '';
+        }
+        case 'multiYear':
+            return String(row);
+    }
+};
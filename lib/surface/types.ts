@@ -0,0 +1,60 @@
+// Shared types for the price surface chart's analysis modes
+
+export type { AggregateBar } from '@/lib/market-data/types';
+
+// What each cell of the surface measures, and how the grid is laid out
+export type SurfaceMode = 'close' | 'return' | 'volume' | 'range' | 'intraday' | 'multiYear';
+
+// calendar: month × day of month for one year; intraday: date × hour of day; multiYear: year × day of year
+export type SurfaceLayout = 'calendar' | 'intraday' | 'multiYear';
+
+// How cells with no bar (weekends, holidays, non-existent dates) are drawn: left as holes, holding
+// the last value, or linearly interpolated between the values either side
+export type GapFill = 'gap' | 'carryForward' | 'interpolate';
+
+export type SurfaceValueFormat = 'price' | 'percent' | 'volume';
+
+export interface SurfaceModeDefinition {
+    mode: SurfaceMode;
+    label: string;
+    description: string;
+    layout: SurfaceLayout;
+    // Y axis and legend title
+    valueTitle: string;
+    format: SurfaceValueFormat;
+    // Coloured symmetrically about zero (returns)
+    isDiverging: boolean;
+    // Bar size the mode is built from
+    timespan: 'day' | 'minute';
+}
+
+export interface SurfaceGridOptions {
+    // The year shown (calendar), the last year shown (multi-year) or the year the intraday window ends in
+    year: number;
+    gapFill: GapFill;
+    // Market dates and hours are read in this zone: New York for stocks, UTC for crypto
+    timeZone: string;
+    // Stocks keep only regular session minutes in intraday mode
+    regularSessionOnly?: boolean;
+    // Nothing after this is filled, so the future stays empty
+    now?: number;
+}
+
+// A mode's bars on a uniform grid ready for the surface mesh
+export interface SurfaceGrid {
+    mode: SurfaceMode;
+    layout: SurfaceLayout;
+    values: number[][];     // [row (Z)][column (X)]; NaN where there's no value
+    xStart: number;
+    xStep: number;
+    zStart: number;
+    zStep: number;
+    // Market date of each row in intraday mode
+    rowDates: string[];
+    // First year shown: the calendar year, or the oldest row in multi-year mode
+    startYear: number;
+    minValue: number;
+    maxValue: number;
+    // Cells holding a real bar rather than a fill
+    observedCount: number;
+}
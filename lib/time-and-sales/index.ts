@@ -0,0 +1,4 @@
+export * from './types';
+export * from './tape';
+export * from './rolling-volume';
+export * from './trade-tape';
@@ -0,0 +1,75 @@
+import { TapeSide, VolumeDelta } from './types';
+
+interface VolumeEntry {
+    timestamp: number;
+    side: TapeSide;
+    size: number;
+    notional: number;
+}
+
+/**
+ * Running buy and sell totals over a trailing time window. Entries are added in time order and
+ * the totals are adjusted as they expire, so reading the delta doesn't rescan the window.
+ */
+export class RollingVolume {
+    private readonly entries: VolumeEntry[] = [];
+    private head = 0;
+    private buyVolume = 0;
+    private sellVolume = 0;
+    private buyNotional = 0;
+    private sellNotional = 0;
+
+    constructor(readonly windowMs: number) { }
+
+    add(timestamp: number, side: TapeSide, size: number, price: number) {
+        const entry = { timestamp, side, size, notional: size * price };
+        this.entries.push(entry);
+        this.apply(entry, 1);
+    }
+
+    /**
+     * Totals for the window ending at `now`
+     */
+    getDelta(now: number = Date.now()): VolumeDelta {
+        this.expire(now);
+        return {
+            buyVolume: this.buyVolume,
+            sellVolume: this.sellVolume,
+            buyNotional: this.buyNotional,
+            sellNotional: this.sellNotional,
+            delta: this.buyVolume - this.sellVolume,
+            deltaNotional: this.buyNotional - this.sellNotional,
+            windowMs: this.windowMs
+        };
+    }
+
+    clear() {
+        this.entries.length = 0;
+        this.head = 0;
+        this.buyVolume = this.sellVolume = this.buyNotional = this.sellNotional = 0;
+    }
+
+    private expire(now: number) {
+        const cutoff = now - this.windowMs;
+        while (this.head < this.entries.length && this.entries[this.head].timestamp < cutoff) {
+            this.apply(this.entries[this.head], -1);
+            this.head += 1;
+        }
+
+        // Drop expired entries in batches rather than shifting on every expiry
+        if (this.head > 1024 && this.head > this.entries.length / 2) {
+            this.entries.splice(0, this.head);
+            this.head = 0;
+        }
+    }
+
+    private apply({ side, size, notional }: VolumeEntry, sign: 1 | -1) {
+        if (side === 'buy') {
+            this.buyVolume += sign * size;
+            this.buyNotional += sign * notional;
+        } else if (side === 'sell') {
+            this.sellVolume += sign * size;
+            this.sellNotional += sign * notional;
+        }
+    }
+}
@@ -0,0 +1,61 @@
+import { TapeOptions, TapePrint, TapeSide, TapeTrade } from './types';
+
+/**
+ * Aggressor side by the tick rule: an uptick is a buy, a downtick a sell, and an unchanged
+ * price keeps the previous side. Used for feeds that don't report the side (stock prints).
+ */
+export const classifyTickSide = (price: number, previousPrice: number | null, previousSide: TapeSide): TapeSide => {
+    if (previousPrice === null) return 'unknown';
+    if (price > previousPrice) return 'buy';
+    if (price < previousPrice) return 'sell';
+    return previousSide;
+};
+
+/**
+ * Build the tape from trades (oldest first): merge bursts, then drop rows under the size and
+ * notional thresholds. Filtering after merging keeps a large order that was filled in many small
+ * pieces on the tape. Returns rows newest first.
+ */
+export const buildTape = (
+    trades: TapeTrade[],
+    { minSize = 0, minNotional = 0, largeNotional = Infinity, burstWindowMs = 0 }: TapeOptions = {}
+): TapePrint[] => {
+    const rows: TapePrint[] = [];
+
+    trades.forEach(trade => {
+        const last = rows[rows.length - 1];
+
+        if (
+            last &&
+            burstWindowMs > 0 &&
+            last.price === trade.price &&
+            last.side === trade.side &&
+            trade.timestamp - last.lastTimestamp <= burstWindowMs
+        ) {
+            last.size += trade.size;
+            last.notional += trade.price * trade.size;
+            last.lastTimestamp = trade.timestamp;
+            last.count += 1;
+            return;
+        }
+
+        rows.push({
+            id: `${trade.symbol}-${trade.sequence}`,
+            symbol: trade.symbol,
+            price: trade.price,
+            size: trade.size,
+            notional: trade.price * trade.size,
+            side: trade.side,
+            sideInferred: trade.sideInferred,
+            timestamp: trade.timestamp,
+            lastTimestamp: trade.timestamp,
+            count: 1,
+            isLarge: false
+        });
+    });
+
+    return rows
+        .filter(row => row.size >= minSize && row.notional >= minNotional)
+        .map(row => ({ ...row, isLarge: row.notional >= largeNotional }))
+        .reverse();
+};
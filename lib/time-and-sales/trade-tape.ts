@@ -0,0 +1,64 @@
+import { Trade } from '@/lib/market-data/types';
+import { RollingVolume } from './rolling-volume';
+import { classifyTickSide } from './tape';
+import { TapeSide, TapeTrade, VolumeDelta } from './types';
+
+/**
+ * The recorded side of the tape: a bounded buffer of the most recent trades, oldest first, plus
+ * rolling buy/sell volume. Sides missing from the feed are inferred here, once, as trades arrive,
+ * so the tape and the volume delta agree.
+ */
+export class TradeTape {
+    private readonly buffer: TapeTrade[] = [];
+    private readonly volume: RollingVolume;
+    private previousPrice: number | null = null;
+    private previousSide: TapeSide = 'unknown';
+    private nextSequence = 0;
+
+    constructor(readonly capacity: number, deltaWindowMs: number) {
+        this.volume = new RollingVolume(deltaWindowMs);
+    }
+
+    get length(): number {
+        return this.buffer.length;
+    }
+
+    /**
+     * Add trades in arrival order. Returns them as recorded.
+     */
+    record(trades: Trade[]): TapeTrade[] {
+        const recorded = trades.map(trade => {
+            const sideInferred = trade.side === 'unknown';
+            const side = sideInferred ? classifyTickSide(trade.price, this.previousPrice, this.previousSide) : trade.side;
+            this.previousPrice = trade.price;
+            this.previousSide = side;
+
+            this.volume.add(trade.timestamp, side, trade.size, trade.price);
+            return { ...trade, side, sideInferred, sequence: this.nextSequence++ };
+        });
+
+        this.buffer.push(...recorded);
+        if (this.buffer.length > this.capacity) {
+            this.buffer.splice(0, this.buffer.length - this.capacity);
+        }
+        return recorded;
+    }
+
+    /**
+     * Buffered trades, oldest first
+     */
+    trades(): TapeTrade[] {
+        return this.buffer.slice();
+    }
+
+    getDelta(now?: number): VolumeDelta {
+        return this.volume.getDelta(now);
+    }
+
+    clear() {
+        this.buffer.length = 0;
+        this.volume.clear();
+        this.previousPrice = null;
+        this.previousSide = 'unknown';
+    }
+}
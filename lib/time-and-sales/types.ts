@@ -0,0 +1,48 @@
+// Shared types for the time & sales tape. Trades come in as the market data layer's
+// provider-neutral prints; the tape is what's left after aggregation and filtering.
+
+import { Trade } from '@/lib/market-data/types';
+
+export type TapeSide = Trade['side'];
+
+// A recorded trade, with the side filled in by the tick rule when the feed has none
+export interface TapeTrade extends Trade {
+    sideInferred: boolean;
+    sequence: number;        // arrival order, stable while the trade stays in the buffer
+}
+
+// One row on the tape: a single trade, or a burst of same-price, same-side trades merged together
+export interface TapePrint {
+    id: string;
+    symbol: string;
+    price: number;
+    size: number;
+    notional: number;        // price × size
+    side: TapeSide;
+    sideInferred: boolean;   // side came from the tick rule rather than the feed
+    timestamp: number;       // first trade, Unix ms
+    lastTimestamp: number;   // last trade in the burst
+    count: number;           // trades merged into this row
+    isLarge: boolean;
+}
+
+export interface TapeOptions {
+    // Rows smaller than either threshold are hidden
+    minSize?: number;
+    minNotional?: number;
+    // Rows at or above this notional are highlighted
+    largeNotional?: number;
+    // Merge consecutive same-price, same-side trades no further apart than this; 0 disables
+    burstWindowMs?: number;
+}
+
+// Buy and sell volume over a trailing window; trades with no side count towards neither
+export interface VolumeDelta {
+    buyVolume: number;
+    sellVolume: number;
+    buyNotional: number;
+    sellNotional: number;
+    delta: number;           // buyVolume - sellVolume
+    deltaNotional: number;
+    windowMs: number;
+}